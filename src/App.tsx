@@ -32,6 +32,7 @@ const PostCommercialListing = lazy(() => import('./pages/PostCommercialListing')
 const EditListing = lazy(() => import('./pages/EditListing').then(m => ({ default: m.EditListing })));
 const Account = lazy(() => import('./pages/Account').then(m => ({ default: m.Account })));
 const AgencySettings = lazy(() => import('./pages/AgencySettings').then(m => ({ default: m.AgencySettings })));
+const AgencyBulkImport = lazy(() => import('./pages/AgencyBulkImport').then(m => ({ default: m.AgencyBulkImport })));
 const About = lazy(() => import('./pages/About').then(m => ({ default: m.About })));
 const Contact = lazy(() => import('./pages/Contact').then(m => ({ default: m.Contact })));
 const Privacy = lazy(() => import('./pages/Privacy').then(m => ({ default: m.Privacy })));
@@ -45,6 +46,9 @@ const BoostSuccessPage = lazy(() => import('./pages/BoostSuccessPage').then(m =>
 const Concierge = lazy(() => import('./pages/Concierge').then(m => ({ default: m.Concierge })));
 const ConciergeSuccess = lazy(() => import('./pages/ConciergeSuccess').then(m => ({ default: m.ConciergeSuccess })));
 const ListingPaymentSuccess = lazy(() => import('./pages/ListingPaymentSuccess').then(m => ({ default: m.ListingPaymentSuccess })));
+const ManageShowing = lazy(() => import('./pages/ManageShowing').then(m => ({ default: m.ManageShowing })));
+const DigestSubscribe = lazy(() => import('./pages/DigestSubscribe').then(m => ({ default: m.DigestSubscribe })));
+const ManageDigestSubscription = lazy(() => import('./pages/ManageDigestSubscription').then(m => ({ default: m.ManageDigestSubscription })));
 
 function ScrollToTop() {
   const location = useLocation();
@@ -113,6 +117,9 @@ function App() {
                   <Route path="/listing/:id" element={<ListingDetail />} />
                   <Route path="/commercial-listing/:id" element={<CommercialListingDetail />} />
                   <Route path="/l/:code" element={<ShortUrlRedirect />} />
+                  <Route path="/showing/:token" element={<ManageShowing />} />
+                  <Route path="/digest" element={<DigestSubscribe />} />
+                  <Route path="/digest/:token" element={<ManageDigestSubscription />} />
                   <Route path="/favorites" element={<Navigate to="/account?tab=favorites" replace />} />
                   <Route path="/admin" element={<AdminPanel />} />
                   <Route path="/admin/analytics" element={<InternalAnalytics />} />
@@ -128,6 +135,7 @@ function App() {
                   <Route path="/listing-payment-cancelled" element={<ListingPaymentSuccess cancelled />} />
                   <Route path="/dashboard" element={<DashboardRedirect />} />
                   <Route path="/dashboard/agency-settings" element={<AgencySettings />} />
+                  <Route path="/dashboard/agency-import" element={<AgencyBulkImport />} />
                   <Route path="/account-settings" element={<Navigate to="/account?tab=settings" replace />} />
                   <Route path="/internal-analytics" element={<Navigate to="/admin/analytics" replace />} />
                   <Route path="/analytics" element={<Navigate to="/admin/analytics" replace />} />
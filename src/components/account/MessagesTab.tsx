@@ -0,0 +1,327 @@
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { ArrowLeft, ExternalLink, Loader2, MessageSquare, Send } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  isThreadUnread,
+  messagesService,
+  threadCounterpartName,
+  threadListingPath,
+  threadListingTitle,
+  threadRoleFor,
+} from "@/services/messages";
+import { queryClient, queryKeys } from "@/services/queryClient";
+import { THREAD_CHANNEL_LABELS, type MessageThread, type ThreadMessage } from "@/types/messages";
+import { gaEvent } from "@/lib/ga";
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+function formatWhen(iso: string): string {
+  const date = new Date(iso);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })
+    : date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+function formatMessageTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Inbox under /account?tab=messages. Shows every thread the user is part of —
+ * ones they started from a listing page and ones on their own listings — with
+ * the open thread kept in the `thread` search param so relay emails/SMS can
+ * deep-link to it.
+ */
+export default function MessagesTab() {
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [threads, setThreads] = useState<MessageThread[]>([]);
+  const [messages, setMessages] = useState<ThreadMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMessages, setLoadingMessages] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const userId = user?.id ?? "";
+  const activeThreadId = searchParams.get("thread");
+  const activeThread = threads.find((t) => t.id === activeThreadId) ?? null;
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    setLoading(true);
+    messagesService
+      .getThreads(userId)
+      .then((rows) => {
+        if (!cancelled) setThreads(rows);
+      })
+      .catch((err) => {
+        console.error("Error loading message threads:", err);
+        if (!cancelled) setError("Failed to load your messages.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!activeThreadId || !userId) {
+      setMessages([]);
+      return;
+    }
+    let cancelled = false;
+    setLoadingMessages(true);
+    setDraft("");
+    messagesService
+      .getMessages(activeThreadId)
+      .then((rows) => {
+        if (!cancelled) setMessages(rows);
+      })
+      .catch((err) => {
+        console.error("Error loading messages:", err);
+        if (!cancelled) setError("Failed to load this conversation.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingMessages(false);
+      });
+
+    messagesService
+      .markRead(activeThreadId)
+      .then(async () => {
+        const readAt = new Date().toISOString();
+        setThreads((prev) =>
+          prev.map((t) =>
+            t.id !== activeThreadId
+              ? t
+              : threadRoleFor(t, userId) === "owner"
+                ? { ...t, owner_last_read_at: readAt }
+                : { ...t, inquirer_last_read_at: readAt },
+          ),
+        );
+        queryClient.setQueryData(queryKeys.unreadMessageThreads(userId), await messagesService.getUnreadCount());
+      })
+      .catch((err) => console.error("Error marking thread read:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeThreadId, userId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [messages]);
+
+  const openThread = (threadId: string | null) => {
+    setError(null);
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      if (threadId) {
+        next.set("thread", threadId);
+      } else {
+        next.delete("thread");
+      }
+      return next;
+    });
+  };
+
+  const handleSend = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!activeThread || !draft.trim()) return;
+    setSending(true);
+    setError(null);
+    try {
+      const { message } = await messagesService.sendMessage({ threadId: activeThread.id }, draft);
+      setMessages((prev) => [...prev, message]);
+      setThreads((prev) => [
+        {
+          ...activeThread,
+          last_message_at: message.created_at,
+          last_message_preview: message.body.slice(0, 140),
+          last_message_role: message.sender_role,
+        },
+        ...prev.filter((t) => t.id !== activeThread.id),
+      ]);
+      setDraft("");
+      gaEvent("message_sent", { role: message.sender_role, source: "inbox" });
+    } catch (err) {
+      console.error("Error sending message:", err);
+      setError(err instanceof Error ? err.message : "Failed to send your message. Please try again.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#4E4B43] mx-auto"></div>
+        <p className="text-gray-600 mt-4">Loading...</p>
+      </div>
+    );
+  }
+
+  if (threads.length === 0) {
+    return (
+      <div className="max-w-3xl">
+        <div className="bg-white rounded-lg border border-gray-200 p-8 text-center">
+          <MessageSquare className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-700 font-medium">No messages yet</p>
+          <p className="text-sm text-gray-500 mt-1">
+            Use <strong>Message the owner</strong> on any listing to start a conversation. Messages
+            about your own listings show up here too.
+          </p>
+          <Link
+            to="/browse"
+            className="inline-block mt-4 px-4 py-2 bg-[#4E4B43] text-white rounded-md text-sm font-medium hover:bg-[#3a3832] transition-colors"
+          >
+            Browse rentals
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const activeRole = activeThread ? threadRoleFor(activeThread, userId) : null;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden md:flex md:h-[70vh]">
+      <ul
+        className={`divide-y divide-gray-100 overflow-y-auto md:w-80 md:flex-shrink-0 md:border-r md:border-gray-200 ${
+          activeThread ? "hidden md:block" : ""
+        }`}
+      >
+        {threads.map((thread) => {
+          const unread = isThreadUnread(thread, userId);
+          const isOwner = threadRoleFor(thread, userId) === "owner";
+          return (
+            <li key={thread.id}>
+              <button
+                type="button"
+                onClick={() => openThread(thread.id)}
+                className={`w-full text-left px-4 py-3 transition-colors ${
+                  thread.id === activeThreadId ? "bg-gray-100" : "hover:bg-gray-50"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`truncate text-sm ${unread ? "font-semibold text-gray-900" : "font-medium text-gray-700"}`}>
+                    {threadCounterpartName(thread, userId)}
+                  </span>
+                  <span className="flex-shrink-0 text-xs text-gray-400">{formatWhen(thread.last_message_at)}</span>
+                </div>
+                <div className="truncate text-xs text-gray-500">
+                  {isOwner ? "Your listing · " : ""}
+                  {threadListingTitle(thread)}
+                </div>
+                <div className="mt-0.5 flex items-center gap-2">
+                  <p className={`truncate text-xs ${unread ? "text-gray-800" : "text-gray-400"}`}>
+                    {thread.last_message_preview}
+                  </p>
+                  {unread && <span className="ml-auto h-2 w-2 flex-shrink-0 rounded-full bg-red-500" />}
+                </div>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className={`flex-1 flex-col min-h-[50vh] md:min-h-0 ${activeThread ? "flex" : "hidden md:flex"}`}>
+        {!activeThread ? (
+          <div className="flex flex-1 items-center justify-center p-8 text-sm text-gray-500">
+            Select a conversation.
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-3 border-b border-gray-200 px-4 py-3">
+              <button
+                type="button"
+                onClick={() => openThread(null)}
+                className="md:hidden text-gray-500 hover:text-gray-700"
+                aria-label="Back to conversations"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+              <div className="min-w-0 flex-1">
+                <h3 className="truncate font-semibold text-[#273140]">{threadCounterpartName(activeThread, userId)}</h3>
+                <Link
+                  to={threadListingPath(activeThread)}
+                  className="inline-flex items-center gap-1 text-xs text-brand-700 hover:text-brand-800"
+                >
+                  {threadListingTitle(activeThread)}
+                  <ExternalLink className="w-3 h-3" />
+                </Link>
+              </div>
+            </div>
+
+            <div className="flex-1 space-y-3 overflow-y-auto bg-gray-50 px-4 py-4">
+              {loadingMessages ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="w-5 h-5 animate-spin text-gray-300" />
+                </div>
+              ) : (
+                messages.map((message) => {
+                  const mine = message.sender_role === activeRole;
+                  return (
+                    <div key={message.id} className={`flex ${mine ? "justify-end" : "justify-start"}`}>
+                      <div
+                        className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                          mine ? "bg-brand-700 text-white" : "bg-white border border-gray-200 text-gray-800"
+                        }`}
+                      >
+                        <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                        <p className={`mt-1 text-[11px] ${mine ? "text-white/70" : "text-gray-400"}`}>
+                          {formatMessageTime(message.created_at)}
+                          {message.channel !== "web" && ` · via ${THREAD_CHANNEL_LABELS[message.channel]}`}
+                        </p>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+              <div ref={bottomRef} />
+            </div>
+
+            <form onSubmit={handleSend} className="border-t border-gray-200 p-3">
+              {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+              <div className="flex items-end gap-2">
+                <textarea
+                  value={draft}
+                  maxLength={MAX_MESSAGE_LENGTH}
+                  rows={2}
+                  onChange={(e) => setDraft(e.target.value)}
+                  placeholder="Write a message…"
+                  disabled={sending}
+                  className="flex-1 resize-none rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-[#273140]"
+                />
+                <button
+                  type="submit"
+                  disabled={sending || !draft.trim()}
+                  className="inline-flex items-center gap-1.5 rounded-md bg-brand-700 px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-brand-800 disabled:opacity-60"
+                >
+                  {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                  Send
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-gray-400">
+                {activeRole === "owner"
+                  ? "We'll email your reply to the inquirer."
+                  : "We'll text and email your message to the owner."}
+              </p>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState, useEffect } from "react";
+import { Bell } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { notificationPreferencesService } from "@/services/notificationPreferences";
+import { whatsappService } from "@/services/whatsapp";
+import type { WhatsAppContact, WhatsAppPreferences } from "@/types/whatsapp";
+import {
+  NOTIFICATION_CATEGORIES,
+  type NotificationCategory,
+  type NotificationChannel,
+} from "@/types/notificationPreferences";
+
+interface OptOuts {
+  email_opt_outs: NotificationCategory[];
+  sms_opt_outs: NotificationCategory[];
+}
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: "Email",
+  sms: "Text",
+};
+
+const CHANNELS: NotificationChannel[] = ["email", "sms"];
+
+const WHATSAPP_DEFAULTS: WhatsAppPreferences = { optedIn: false, receiveDigest: true, listingMessages: true };
+
+function toWhatsAppPreferences(contact: WhatsAppContact | null): WhatsAppPreferences {
+  return contact
+    ? { optedIn: contact.opted_in, receiveDigest: contact.receive_digest, listingMessages: contact.listing_messages }
+    : WHATSAPP_DEFAULTS;
+}
+
+export default function NotificationPreferences() {
+  const { user, profile } = useAuth();
+  const [optOuts, setOptOuts] = useState<OptOuts>({ email_opt_outs: [], sms_opt_outs: [] });
+  const [whatsapp, setWhatsapp] = useState<WhatsAppPreferences>(WHATSAPP_DEFAULTS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    Promise.all([notificationPreferencesService.getPreferences(user.id), whatsappService.getMyContact(user.id)])
+      .then(([prefs, contact]) => {
+        if (cancelled) return;
+        if (prefs) setOptOuts({ email_opt_outs: prefs.email_opt_outs, sms_opt_outs: prefs.sms_opt_outs });
+        setWhatsapp(toWhatsAppPreferences(contact));
+      })
+      .catch((err) => {
+        console.error("Error loading notification preferences:", err);
+        if (!cancelled) setError("Failed to load your notification preferences");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const isOn = (channel: NotificationChannel, category: NotificationCategory) =>
+    !optOuts[`${channel}_opt_outs`].includes(category);
+
+  const handleToggle = async (channel: NotificationChannel, category: NotificationCategory) => {
+    if (!user) return;
+    const key = `${channel}_opt_outs` as const;
+    const previous = optOuts;
+    const next: OptOuts = {
+      ...optOuts,
+      [key]: isOn(channel, category)
+        ? [...optOuts[key], category]
+        : optOuts[key].filter((c) => c !== category),
+    };
+
+    setOptOuts(next);
+    setSaving(true);
+    setError(null);
+    try {
+      await notificationPreferencesService.savePreferences(user.id, next);
+    } catch (err) {
+      console.error("Error saving notification preferences:", err);
+      setOptOuts(previous);
+      setError("Failed to save your notification preferences. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWhatsAppChange = async (changes: Partial<WhatsAppPreferences>) => {
+    const previous = whatsapp;
+    setWhatsapp({ ...whatsapp, ...changes });
+    setSaving(true);
+    setError(null);
+    try {
+      setWhatsapp(toWhatsAppPreferences(await whatsappService.setPreferences({ ...whatsapp, ...changes })));
+    } catch (err) {
+      console.error("Error saving WhatsApp preferences:", err);
+      setWhatsapp(previous);
+      setError("Failed to save your WhatsApp preferences. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const hasPhone = !!profile?.phone?.trim();
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <h2 className="text-xl font-semibold text-[#273140] mb-2 flex items-center">
+        <Bell className="w-5 h-5 mr-2" />
+        Notifications
+      </h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Choose which emails and texts you get from Hadirot. Password resets and other security emails always go out.
+        Replying STOP to any text turns off all texts.
+      </p>
+
+      {error && (
+        <div className="mb-6 p-4 rounded-md bg-red-50 border border-red-200 text-red-800">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="w-8 h-8 border-2 border-[#273140] border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="border-b border-gray-200">
+              <tr>
+                <th className="py-2 pr-4 text-left font-medium text-gray-600">Notification</th>
+                {CHANNELS.map((channel) => (
+                  <th key={channel} className="py-2 px-4 text-center font-medium text-gray-600 w-20">
+                    {CHANNEL_LABELS[channel]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {NOTIFICATION_CATEGORIES.map((category) => (
+                <tr key={category.id}>
+                  <td className="py-3 pr-4">
+                    <div className="font-medium text-gray-900">{category.label}</div>
+                    <div className="text-gray-500">{category.description}</div>
+                  </td>
+                  {CHANNELS.map((channel) => (
+                    <td key={channel} className="py-3 px-4 text-center">
+                      {category.channels.includes(channel) ? (
+                        <input
+                          type="checkbox"
+                          checked={isOn(channel, category.id)}
+                          disabled={saving}
+                          onChange={() => handleToggle(channel, category.id)}
+                          aria-label={`${category.label} by ${CHANNEL_LABELS[channel].toLowerCase()}`}
+                          className="h-4 w-4 rounded border-gray-300 text-[#273140] focus:ring-[#273140] disabled:opacity-50"
+                        />
+                      ) : (
+                        <span className="text-gray-300">—</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {hasPhone && (
+            <div className="mt-6 pt-6 border-t border-gray-200">
+              <h3 className="font-medium text-gray-900 mb-1">WhatsApp</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Get listing digests, saved search alerts and renewal reminders on WhatsApp at {profile?.phone}.
+                You can answer renewal reminders right in the chat. Reply STOP on WhatsApp to turn it off.
+              </p>
+              <div className="space-y-3 text-sm">
+                <label className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={whatsapp.optedIn}
+                    disabled={saving}
+                    onChange={() => handleWhatsAppChange({ optedIn: !whatsapp.optedIn })}
+                    className="h-4 w-4 rounded border-gray-300 text-[#273140] focus:ring-[#273140] disabled:opacity-50"
+                  />
+                  <span className="font-medium text-gray-900">Message me on WhatsApp</span>
+                </label>
+                <label className="flex items-center gap-3 pl-7">
+                  <input
+                    type="checkbox"
+                    checked={whatsapp.receiveDigest}
+                    disabled={saving || !whatsapp.optedIn}
+                    onChange={() => handleWhatsAppChange({ receiveDigest: !whatsapp.receiveDigest })}
+                    className="h-4 w-4 rounded border-gray-300 text-[#273140] focus:ring-[#273140] disabled:opacity-50"
+                  />
+                  <span className={whatsapp.optedIn ? "text-gray-900" : "text-gray-400"}>Listing digests</span>
+                </label>
+                <label className="flex items-center gap-3 pl-7">
+                  <input
+                    type="checkbox"
+                    checked={whatsapp.listingMessages}
+                    disabled={saving || !whatsapp.optedIn}
+                    onChange={() => handleWhatsAppChange({ listingMessages: !whatsapp.listingMessages })}
+                    className="h-4 w-4 rounded border-gray-300 text-[#273140] focus:ring-[#273140] disabled:opacity-50"
+                  />
+                  <span className={whatsapp.optedIn ? "text-gray-900" : "text-gray-400"}>
+                    Renewal reminders for my listings (instead of a text)
+                  </span>
+                </label>
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                Choose WhatsApp on any saved search to get its matches there.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Bell, BellOff, ExternalLink, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { filtersToSearchParams } from "@/hooks/useBrowseFilters";
+import { savedSearchesService, summarizeSearchFilters } from "@/services/savedSearches";
+import { whatsappService } from "@/services/whatsapp";
+import {
+  SAVED_SEARCH_CHANNEL_LABELS,
+  SAVED_SEARCH_FREQUENCY_LABELS,
+  type SavedSearch,
+  type SavedSearchChannel,
+  type SavedSearchFrequency,
+} from "@/types/savedSearches";
+import { ConfirmDialog } from "../shared/ConfirmDialog";
+
+function formatDate(iso: string | null): string {
+  if (!iso) return "Never";
+  return new Date(iso).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function browseUrlFor(search: SavedSearch): string {
+  const path = search.search_mode === "sale" ? "/browse-sales" : "/browse";
+  return `${path}?${filtersToSearchParams(search.filters, 1).toString()}`;
+}
+
+export default function SavedSearchesTab() {
+  const { profile } = useAuth();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<SavedSearch | null>(null);
+  const [whatsappOn, setWhatsappOn] = useState(false);
+
+  const hasPhone = !!profile?.phone?.trim();
+
+  useEffect(() => {
+    loadSearches();
+  }, []);
+
+  useEffect(() => {
+    if (!profile?.id) return;
+    whatsappService
+      .getMyContact(profile.id)
+      .then((contact) => setWhatsappOn(!!contact?.opted_in))
+      .catch((err) => console.error("Error loading WhatsApp opt-in:", err));
+  }, [profile?.id]);
+
+  // WhatsApp needs the number opted in (Account → Settings); a search left
+  // on WhatsApp after opting out is emailed instead.
+  const channelUnavailable = (c: SavedSearchChannel) =>
+    (c === "sms" && !hasPhone) || (c === "whatsapp" && !whatsappOn);
+
+  const loadSearches = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setSearches(await savedSearchesService.getMySavedSearches());
+    } catch (err) {
+      console.error("Error loading saved searches:", err);
+      setError("Failed to load your saved searches.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdate = async (
+    id: string,
+    updates: Partial<Pick<SavedSearch, "channel" | "frequency" | "is_active">>,
+  ) => {
+    setError(null);
+    try {
+      const updated = await savedSearchesService.updateSavedSearch(id, updates);
+      setSearches((prev) => prev.map((s) => (s.id === id ? updated : s)));
+    } catch (err) {
+      console.error("Error updating saved search:", err);
+      setError("Failed to update alert. Please try again.");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    const id = pendingDelete.id;
+    setPendingDelete(null);
+    try {
+      await savedSearchesService.deleteSavedSearch(id);
+      setSearches((prev) => prev.filter((s) => s.id !== id));
+    } catch (err) {
+      console.error("Error deleting saved search:", err);
+      setError("Failed to delete saved search.");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#4E4B43] mx-auto"></div>
+        <p className="text-gray-600 mt-4">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl">
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold text-[#273140]">Saved Searches & Alerts</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          We'll let you know when a newly approved listing matches one of your searches.
+          Save a search from the Browse page using <strong>Save search</strong>.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-md bg-red-50 border border-red-200 text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      {searches.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-8 text-center">
+          <Bell className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-700 font-medium">No saved searches yet</p>
+          <p className="text-sm text-gray-500 mt-1">
+            Set your filters on the Browse page, then tap <strong>Save search</strong>.
+          </p>
+          <Link
+            to="/browse"
+            className="inline-block mt-4 px-4 py-2 bg-[#4E4B43] text-white rounded-md text-sm font-medium hover:bg-[#3a3832] transition-colors"
+          >
+            Browse rentals
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {searches.map((search) => (
+            <div
+              key={search.id}
+              className={`bg-white rounded-lg border p-4 ${search.is_active ? "border-gray-200" : "border-gray-200 opacity-70"}`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-[#273140] truncate">{search.name}</h3>
+                  <p className="text-sm text-gray-500">
+                    {summarizeSearchFilters(search.filters, search.search_mode)}
+                    {" · "}
+                    {search.search_mode === "sale" ? "For sale" : "For rent"}
+                  </p>
+                  <p className="text-xs text-gray-400 mt-1">Last alert: {formatDate(search.last_notified_at)}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <Link
+                    to={browseUrlFor(search)}
+                    className="p-2 text-gray-500 hover:text-gray-800 transition-colors"
+                    title="Open search"
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                  </Link>
+                  <button
+                    onClick={() => setPendingDelete(search)}
+                    className="p-2 text-gray-500 hover:text-red-600 transition-colors"
+                    title="Delete search"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="mt-4 flex flex-wrap items-center gap-3">
+                <button
+                  onClick={() => handleUpdate(search.id, { is_active: !search.is_active })}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    search.is_active
+                      ? "bg-green-100 text-green-800 hover:bg-green-200"
+                      : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                  }`}
+                >
+                  {search.is_active ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                  {search.is_active ? "Alerts on" : "Alerts off"}
+                </button>
+
+                <select
+                  value={search.frequency}
+                  onChange={(e) => handleUpdate(search.id, { frequency: e.target.value as SavedSearchFrequency })}
+                  disabled={!search.is_active}
+                  className="px-3 py-1.5 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+                >
+                  {(Object.keys(SAVED_SEARCH_FREQUENCY_LABELS) as SavedSearchFrequency[]).map((f) => (
+                    <option key={f} value={f}>
+                      {SAVED_SEARCH_FREQUENCY_LABELS[f]}
+                    </option>
+                  ))}
+                </select>
+
+                <select
+                  value={search.channel}
+                  onChange={(e) => handleUpdate(search.id, { channel: e.target.value as SavedSearchChannel })}
+                  disabled={!search.is_active}
+                  className="px-3 py-1.5 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+                >
+                  {(Object.keys(SAVED_SEARCH_CHANNEL_LABELS) as SavedSearchChannel[]).map((c) => (
+                    <option key={c} value={c} disabled={channelUnavailable(c)}>
+                      {SAVED_SEARCH_CHANNEL_LABELS[c]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!pendingDelete}
+        title="Delete saved search?"
+        message={`"${pendingDelete?.name ?? ""}" and its alerts will be removed.`}
+        confirmText="Delete"
+        severity="danger"
+        onConfirm={handleDelete}
+        onClose={() => setPendingDelete(null)}
+      />
+    </div>
+  );
+}
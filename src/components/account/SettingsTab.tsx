@@ -19,6 +19,7 @@ import {
   queryKeys,
   shareAgencyAcrossCaches,
 } from "@/services/queryClient";
+import NotificationPreferences from "./NotificationPreferences";
 
 interface ProfileFormData {
   full_name: string;
@@ -516,6 +517,8 @@ export default function SettingsTab() {
         </form>
       </div>
 
+      <NotificationPreferences />
+
       {/* Change Password */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <h2 className="text-xl font-semibold text-[#273140] mb-6">
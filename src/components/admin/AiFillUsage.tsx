@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { aiParseService } from '@/services/aiParse';
+import type { AiParseUsageDay } from '@/types/aiParse';
+
+interface AiFillUsageProps {
+  onToast: (message: string) => void;
+}
+
+const PERIODS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+] as const;
+
+function formatCost(usd: number): string {
+  return `$${usd.toFixed(2)}`;
+}
+
+function formatTokens(n: number): string {
+  return n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+}
+
+/**
+ * Self-serve "paste your ad" fills from the posting wizard (parse-listing):
+ * calls and estimated Anthropic spend per day, plus the per-user quota and
+ * daily budget that keep the bill bounded. Admin Quick Fill calls are
+ * counted but never blocked.
+ */
+export function AiFillUsage({ onToast }: AiFillUsageProps) {
+  const [days, setDays] = useState<number>(30);
+  const [rows, setRows] = useState<AiParseUsageDay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [limitDraft, setLimitDraft] = useState('');
+  const [budgetDraft, setBudgetDraft] = useState('');
+  const [saved, setSaved] = useState<{ limit: string; budget: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    aiParseService
+      .getSettings()
+      .then((s) => {
+        const limit = String(s.daily_limit);
+        const budget = String(s.daily_budget_usd);
+        setLimitDraft(limit);
+        setBudgetDraft(budget);
+        setSaved({ limit, budget });
+      })
+      .catch((err) => {
+        console.error('Error loading AI fill settings:', err);
+        onToast('Failed to load AI fill settings');
+      });
+  }, [onToast]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    const since = new Date();
+    since.setDate(since.getDate() - days);
+    aiParseService
+      .getUsageSummary(since)
+      .then((data) => {
+        if (cancelled) return;
+        setRows(data);
+        setError(null);
+      })
+      .catch((err) => {
+        console.error('Error loading AI fill usage:', err);
+        if (!cancelled) setError('Failed to load AI fill usage.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  const handleSave = async () => {
+    const limit = Number(limitDraft);
+    const budget = Number(budgetDraft);
+    if (!Number.isInteger(limit) || limit < 0) {
+      onToast('Enter a whole number of fills (0 turns self-serve fills off)');
+      return;
+    }
+    if (!Number.isFinite(budget) || budget < 0) {
+      onToast('Enter a daily budget in dollars');
+      return;
+    }
+    setSaving(true);
+    try {
+      await aiParseService.updateSettings({ daily_limit: limit, daily_budget_usd: budget });
+      setSaved({ limit: limitDraft, budget: budgetDraft });
+      onToast('Saved');
+    } catch {
+      onToast('Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totals = rows.reduce(
+    (acc, r) => ({
+      calls: acc.calls + r.calls,
+      failed: acc.failed + r.failed,
+      cost: acc.cost + r.cost_usd,
+    }),
+    { calls: 0, failed: 0, cost: 0 },
+  );
+  const dirty = saved != null && (limitDraft !== saved.limit || budgetDraft !== saved.budget);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap items-center gap-3 text-sm">
+        <label htmlFor="ai-fill-limit" className="text-gray-500">Fills per user per day</label>
+        <input
+          id="ai-fill-limit"
+          type="number"
+          min={0}
+          value={limitDraft}
+          onChange={(e) => setLimitDraft(e.target.value)}
+          className="w-16 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <label htmlFor="ai-fill-budget" className="text-gray-500 ml-2">Daily budget $</label>
+        <input
+          id="ai-fill-budget"
+          type="number"
+          min={0}
+          step={1}
+          value={budgetDraft}
+          onChange={(e) => setBudgetDraft(e.target.value)}
+          className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          onClick={handleSave}
+          disabled={saving || !dirty}
+          className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {saving ? 'Saving…' : 'Save'}
+        </button>
+        <span className="text-xs text-gray-400">Both are rolling 24-hour windows. Admins aren&apos;t limited.</span>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap items-center gap-3">
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {PERIODS.map((p) => (
+            <option key={p.days} value={p.days}>{p.label}</option>
+          ))}
+        </select>
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm ml-auto">
+          <span><span className="text-gray-500">Fills:</span> <span className="font-medium text-gray-900">{totals.calls}</span></span>
+          <span><span className="text-gray-500">Failed:</span> <span className="font-medium text-gray-900">{totals.failed}</span></span>
+          <span><span className="text-gray-500">Est. cost:</span> <span className="font-medium text-gray-900">{formatCost(totals.cost)}</span></span>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 text-center py-16">
+          <p className="text-gray-500">No AI fills in this period.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 bg-gray-50 border-b border-gray-200">
+                <th className="px-4 py-2 font-medium">Day</th>
+                <th className="px-4 py-2 font-medium text-right">Fills</th>
+                <th className="px-4 py-2 font-medium text-right">Users</th>
+                <th className="px-4 py-2 font-medium text-right">By admins</th>
+                <th className="px-4 py-2 font-medium text-right">Failed</th>
+                <th className="px-4 py-2 font-medium text-right">Tokens in / out</th>
+                <th className="px-4 py-2 font-medium text-right">Est. cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map((r) => (
+                <tr key={r.day}>
+                  <td className="px-4 py-2 text-gray-900">{new Date(`${r.day}T00:00:00`).toLocaleDateString()}</td>
+                  <td className="px-4 py-2 text-right text-gray-900">{r.calls}</td>
+                  <td className="px-4 py-2 text-right text-gray-900">{r.users}</td>
+                  <td className="px-4 py-2 text-right text-gray-900">{r.admin_calls}</td>
+                  <td className="px-4 py-2 text-right text-gray-900">{r.failed}</td>
+                  <td className="px-4 py-2 text-right text-gray-500">{formatTokens(r.input_tokens)} / {formatTokens(r.output_tokens)}</td>
+                  <td className="px-4 py-2 text-right text-gray-900">{formatCost(r.cost_usd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { ChevronDown, ChevronUp, History } from 'lucide-react';
+import { digestService, DigestSend } from '@/services/digest';
+import type { DigestDeliveryStats } from '@/types/emailDelivery';
+
+interface DigestSendHistoryProps {
+  /** Bump to reload after a send. */
+  refreshKey: number;
+}
+
+const HISTORY_LIMIT = 25;
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const rate = (count: number, total: number) => (total > 0 ? `${Math.round((count / total) * 100)}%` : '—');
+
+export function DigestSendHistory({ refreshKey }: DigestSendHistoryProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [sends, setSends] = useState<DigestSend[]>([]);
+  const [stats, setStats] = useState<Record<string, DigestDeliveryStats>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!expanded) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const history = await digestService.getDigestHistory({ limit: HISTORY_LIMIT });
+        const delivery = await digestService.getDigestDeliveryStats(history.map((s) => s.id));
+        if (cancelled) return;
+        setSends(history);
+        setStats(delivery);
+        setError(null);
+      } catch (err) {
+        console.error('Error loading digest history:', err);
+        if (!cancelled) setError('Failed to load send history');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [expanded, refreshKey]);
+
+  return (
+    <div className="mt-6 bg-white rounded-lg shadow-sm border border-gray-200">
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className="w-full flex items-center justify-between p-6 hover:bg-gray-50 transition-colors"
+      >
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <History className="w-5 h-5 text-gray-500" />
+          Send History
+        </h3>
+        {expanded ? <ChevronUp className="w-5 h-5 text-gray-500" /> : <ChevronDown className="w-5 h-5 text-gray-500" />}
+      </button>
+
+      {expanded && (
+        <div className="px-6 pb-6">
+          <p className="text-sm text-gray-500 mb-4">
+            Delivery and bounce rates come from ZeptoMail's delivery events and fill in over the minutes after a send.
+          </p>
+
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : sends.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No digests sent yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-4 py-2.5 text-left font-medium text-gray-600">Sent</th>
+                    <th className="px-4 py-2.5 text-left font-medium text-gray-600">Template</th>
+                    <th className="px-4 py-2.5 text-right font-medium text-gray-600">Listings</th>
+                    <th className="px-4 py-2.5 text-right font-medium text-gray-600">Recipients</th>
+                    <th className="px-4 py-2.5 text-right font-medium text-gray-600">Delivered</th>
+                    <th className="px-4 py-2.5 text-right font-medium text-gray-600">Bounced</th>
+                    <th className="px-4 py-2.5 text-right font-medium text-gray-600">Spam</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {sends.map((send) => {
+                    const s = stats[send.id];
+                    return (
+                      <tr key={send.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-2.5 text-gray-600 whitespace-nowrap">{formatDateTime(send.sent_at)}</td>
+                        <td className="px-4 py-2.5 text-gray-900">
+                          {send.template_name}
+                          {!send.success && <span className="ml-2 text-xs text-red-600">failed</span>}
+                        </td>
+                        <td className="px-4 py-2.5 text-right text-gray-600">{send.total_listings_sent}</td>
+                        <td className="px-4 py-2.5 text-right text-gray-600">{send.recipient_count}</td>
+                        <td className="px-4 py-2.5 text-right text-gray-600">
+                          {s ? `${s.delivered} (${rate(s.delivered, send.recipient_count)})` : '—'}
+                        </td>
+                        <td className={`px-4 py-2.5 text-right ${s?.bounced ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                          {s ? `${s.bounced} (${rate(s.bounced, send.recipient_count)})` : '—'}
+                        </td>
+                        <td className={`px-4 py-2.5 text-right ${s?.complained ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                          {s ? s.complained : '—'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
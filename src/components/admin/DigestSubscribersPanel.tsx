@@ -0,0 +1,209 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ChevronDown, ChevronUp, Users } from 'lucide-react';
+import type { DigestTemplate } from '@/services/digest';
+import { digestSubscriptionsService } from '@/services/digestSubscriptions';
+import type { DigestSubscription } from '@/types/digestSubscriptions';
+import { DIGEST_BEDROOM_OPTIONS, DIGEST_CHANNEL_LABELS, DIGEST_FREQUENCY_LABELS } from '@/types/digestSubscriptions';
+
+interface DigestSubscribersPanelProps {
+  /** Templates the subscriber digest can be built from. */
+  templates: DigestTemplate[];
+}
+
+const RECENT_LIMIT = 50;
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const bedroomsLabel = (bedrooms: number[]) =>
+  bedrooms.length === 0
+    ? 'Any'
+    : bedrooms.map((b) => DIGEST_BEDROOM_OPTIONS.find((o) => o.value === b)?.label ?? String(b)).join(', ');
+
+const statusOf = (sub: DigestSubscription) =>
+  sub.unsubscribed_at ? 'unsubscribed' : sub.confirmed_at ? 'active' : 'pending';
+
+export function DigestSubscribersPanel({ templates }: DigestSubscribersPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [subscriptions, setSubscriptions] = useState<DigestSubscription[]>([]);
+  const [templateId, setTemplateId] = useState<string>('');
+  const [loading, setLoading] = useState(false);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!expanded) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [subs, currentTemplateId] = await Promise.all([
+          digestSubscriptionsService.getAll(),
+          digestSubscriptionsService.getTemplateId(),
+        ]);
+        if (cancelled) return;
+        setSubscriptions(subs);
+        setTemplateId(currentTemplateId ?? '');
+        setError(null);
+      } catch (err) {
+        console.error('Error loading digest subscribers:', err);
+        if (!cancelled) setError('Failed to load subscribers');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [expanded]);
+
+  const counts = useMemo(() => {
+    const live = subscriptions.filter((s) => !s.unsubscribed_at);
+    return {
+      email: live.filter((s) => s.channel === 'email' && s.confirmed_at).length,
+      whatsapp: live.filter((s) => s.channel === 'whatsapp' && s.confirmed_at).length,
+      pending: live.filter((s) => !s.confirmed_at).length,
+      unsubscribed: subscriptions.length - live.length,
+    };
+  }, [subscriptions]);
+
+  const handleTemplateChange = async (value: string) => {
+    const previous = templateId;
+    setTemplateId(value);
+    setSavingTemplate(true);
+    try {
+      await digestSubscriptionsService.setTemplateId(value || null);
+      setError(null);
+    } catch (err) {
+      console.error('Error saving subscriber digest template:', err);
+      setTemplateId(previous);
+      setError('Failed to save the template');
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-lg shadow-sm border border-gray-200">
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className="w-full flex items-center justify-between p-6 hover:bg-gray-50 transition-colors"
+      >
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Users className="w-5 h-5 text-gray-500" />
+          Public Subscribers
+        </h3>
+        {expanded ? <ChevronUp className="w-5 h-5 text-gray-500" /> : <ChevronDown className="w-5 h-5 text-gray-500" />}
+      </button>
+
+      {expanded && (
+        <div className="px-6 pb-6">
+          <p className="text-sm text-gray-500 mb-4">
+            People who signed up at /digest get the chosen template's listing groups narrowed to their neighborhoods and
+            bedrooms, daily or weekly. Without a template they get the newest listings that match them.
+          </p>
+
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Subscriber digest template</label>
+            <select
+              value={templateId}
+              onChange={(e) => handleTemplateChange(e.target.value)}
+              disabled={loading || savingTemplate}
+              className="w-full md:w-80 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+            >
+              <option value="">None (newest matching listings)</option>
+              {templates.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+                {[
+                  { label: 'Email', value: counts.email },
+                  { label: 'WhatsApp', value: counts.whatsapp },
+                  { label: 'Awaiting confirmation', value: counts.pending },
+                  { label: 'Unsubscribed', value: counts.unsubscribed },
+                ].map((c) => (
+                  <div key={c.label} className="rounded-lg border border-gray-200 p-3">
+                    <p className="text-xs text-gray-500">{c.label}</p>
+                    <p className="text-xl font-semibold text-gray-900">{c.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              {subscriptions.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">No subscribers yet</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th className="px-4 py-2.5 text-left font-medium text-gray-600">Joined</th>
+                        <th className="px-4 py-2.5 text-left font-medium text-gray-600">Address</th>
+                        <th className="px-4 py-2.5 text-left font-medium text-gray-600">Looking for</th>
+                        <th className="px-4 py-2.5 text-left font-medium text-gray-600">Neighborhoods</th>
+                        <th className="px-4 py-2.5 text-left font-medium text-gray-600">Bedrooms</th>
+                        <th className="px-4 py-2.5 text-left font-medium text-gray-600">Status</th>
+                        <th className="px-4 py-2.5 text-left font-medium text-gray-600">Last sent</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {subscriptions.slice(0, RECENT_LIMIT).map((sub) => {
+                        const status = statusOf(sub);
+                        return (
+                          <tr key={sub.id} className="hover:bg-gray-50">
+                            <td className="px-4 py-2.5 text-gray-600 whitespace-nowrap">{formatDate(sub.created_at)}</td>
+                            <td className="px-4 py-2.5 text-gray-900">
+                              {sub.channel === 'email' ? sub.email : sub.phone_number}
+                              <span className="ml-2 text-xs text-gray-400">{DIGEST_CHANNEL_LABELS[sub.channel]}</span>
+                            </td>
+                            <td className="px-4 py-2.5 text-gray-600 whitespace-nowrap">
+                              {sub.listing_type === 'sale' ? 'Sale' : 'Rental'} · {DIGEST_FREQUENCY_LABELS[sub.frequency]}
+                            </td>
+                            <td className="px-4 py-2.5 text-gray-600">
+                              {sub.neighborhoods.length ? sub.neighborhoods.join(', ') : 'All'}
+                            </td>
+                            <td className="px-4 py-2.5 text-gray-600">{bedroomsLabel(sub.bedrooms)}</td>
+                            <td
+                              className={`px-4 py-2.5 ${
+                                status === 'active'
+                                  ? 'text-green-700'
+                                  : status === 'pending'
+                                    ? 'text-amber-700'
+                                    : 'text-gray-400'
+                              }`}
+                            >
+                              {status}
+                            </td>
+                            <td className="px-4 py-2.5 text-gray-600 whitespace-nowrap">
+                              {sub.last_sent_at ? formatDate(sub.last_sent_at) : '—'}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Mail, MessageSquare, RefreshCw, RotateCcw, Send, XCircle } from 'lucide-react';
+import { messageOutboxService } from '@/services/messageOutbox';
+import { formatPhoneForDisplay } from '@/utils/phone';
+import { SMS_MESSAGE_SOURCE_LABELS } from '@/types/smsInbox';
+import { OUTBOX_REASON_LABELS } from '@/types/messageOutbox';
+import type { OutboxFilter, OutboxMessage, OutboxStats } from '@/types/messageOutbox';
+
+const formatDateTime = (iso: string | null) =>
+  iso
+    ? new Date(iso).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      })
+    : '—';
+
+const statusClass = (status: OutboxMessage['status']) =>
+  status === 'sent' ? 'bg-green-50 text-green-700' :
+  status === 'failed' || status === 'dead' ? 'bg-red-50 text-red-700' :
+  status === 'queued' || status === 'sending' ? 'bg-amber-50 text-amber-700' :
+  'bg-gray-100 text-gray-600';
+
+const FILTERS: { id: OutboxFilter; label: string }[] = [
+  { id: 'pending', label: 'Waiting' },
+  { id: 'dead', label: 'Dead' },
+  { id: 'failed', label: 'Failed' },
+  { id: 'all', label: 'All' },
+];
+
+export function MessageOutbox() {
+  const [stats, setStats] = useState<OutboxStats[]>([]);
+  const [messages, setMessages] = useState<OutboxMessage[]>([]);
+  const [filter, setFilter] = useState<OutboxFilter>('pending');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [statRows, rows] = await Promise.all([
+        messageOutboxService.getStats(),
+        messageOutboxService.getMessages(filter),
+      ]);
+      setStats(statRows);
+      setMessages(rows);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load outbox:', err);
+      setError('Failed to load the outbox.');
+    }
+    setLoading(false);
+  }, [filter]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const runAction = async (message: OutboxMessage, action: () => Promise<void>, success: string, failure: string) => {
+    setBusyId(message.id);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      setNotice(success);
+      await load();
+    } catch (err) {
+      console.error(failure, err);
+      setError(failure);
+    }
+    setBusyId(null);
+  };
+
+  const handleCancel = (message: OutboxMessage) => {
+    if (!window.confirm(`Cancel this ${message.channel === 'sms' ? 'text' : 'email'}? It will never be sent.`)) return;
+    runAction(message, () => messageOutboxService.cancel(message.id), 'Message cancelled.', 'Failed to cancel this message.');
+  };
+
+  const handleRetry = (message: OutboxMessage) =>
+    runAction(
+      message,
+      () => messageOutboxService.retry(message.id),
+      'Message queued again. It goes out on the next run, within a minute.',
+      'Failed to retry this message.',
+    );
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#4E4B43] mx-auto" />
+        <p className="text-gray-600 mt-4">Loading outbox...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-[#4E4B43] flex items-center gap-2">
+            <Send className="w-5 h-5" />
+            Outbox
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Every text and email goes through here. Messages held for the send window or the hourly per-recipient
+            limit, or waiting to retry after a provider error, go out automatically. Dead messages ran out of retries
+            and need a decision.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => load()}
+          className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700">{error}</div>
+      )}
+      {notice && (
+        <div className="rounded-md border border-green-200 bg-green-50 px-4 py-2 text-sm text-green-700">{notice}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {stats.map((s) => (
+          <div key={s.channel} className="bg-white rounded-lg border border-gray-200 p-4">
+            <h3 className="text-sm font-semibold text-[#4E4B43] flex items-center gap-2 mb-3">
+              {s.channel === 'sms' ? <MessageSquare className="w-4 h-4" /> : <Mail className="w-4 h-4" />}
+              {s.channel === 'sms' ? 'Texts' : 'Emails'}
+            </h3>
+            <dl className="grid grid-cols-3 gap-3 text-sm">
+              <div>
+                <dt className="text-xs text-gray-500">Waiting</dt>
+                <dd className="font-semibold text-gray-900">{s.queued + s.sending}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">Retrying</dt>
+                <dd className="font-semibold text-gray-900">{s.retrying}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">Held</dt>
+                <dd className="font-semibold text-gray-900">{s.held}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">Dead</dt>
+                <dd className={`font-semibold ${s.dead > 0 ? 'text-red-700' : 'text-gray-900'}`}>{s.dead}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">Failed (24h)</dt>
+                <dd className={`font-semibold ${s.failed_24h > 0 ? 'text-red-700' : 'text-gray-900'}`}>{s.failed_24h}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">Sent (24h)</dt>
+                <dd className="font-semibold text-gray-900">{s.sent_24h}</dd>
+              </div>
+            </dl>
+            <p className="text-xs text-gray-500 mt-3">Next due: {formatDateTime(s.oldest_due_at)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex gap-2">
+          {FILTERS.map((f) => (
+            <button
+              key={f.id}
+              type="button"
+              onClick={() => setFilter(f.id)}
+              className={`px-3 py-1.5 text-xs font-medium rounded-full border ${
+                filter === f.id
+                  ? 'bg-[#4E4B43] text-white border-[#4E4B43]'
+                  : 'text-gray-600 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-2.5 text-left font-medium text-gray-600">To</th>
+                <th className="px-4 py-2.5 text-left font-medium text-gray-600 hidden md:table-cell">Message</th>
+                <th className="px-4 py-2.5 text-left font-medium text-gray-600">Waiting for</th>
+                <th className="px-4 py-2.5 text-left font-medium text-gray-600">Attempts</th>
+                <th className="px-4 py-2.5 text-left font-medium text-gray-600">When</th>
+                <th className="px-4 py-2.5 text-left font-medium text-gray-600">Status</th>
+                <th className="px-4 py-2.5" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {messages.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-4 py-8 text-center text-gray-500">No messages</td>
+                </tr>
+              ) : (
+                messages.map((m) => (
+                  <tr key={m.id} className="hover:bg-gray-50 align-top">
+                    <td className="px-4 py-3">
+                      <span className="flex items-center gap-1.5 font-medium text-gray-900">
+                        {m.channel === 'sms' ? (
+                          <MessageSquare className="w-4 h-4 text-gray-400" />
+                        ) : (
+                          <Mail className="w-4 h-4 text-gray-400" />
+                        )}
+                        {m.channel === 'sms' ? formatPhoneForDisplay(m.recipient) : m.recipient}
+                      </span>
+                      {m.message_source && (
+                        <span className="block text-xs text-gray-500 mt-0.5">
+                          {SMS_MESSAGE_SOURCE_LABELS[m.message_source] ?? m.message_source.replace(/_/g, ' ')}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 hidden md:table-cell text-xs text-gray-600 max-w-md">
+                      <span className="line-clamp-2">{m.subject ?? m.body}</span>
+                      {m.last_error && m.status !== 'sent' && (
+                        <span className="block text-red-600 mt-1 line-clamp-2">{m.last_error}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-600">
+                      {m.status === 'queued' && m.reason ? OUTBOX_REASON_LABELS[m.reason] : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-600">
+                      {m.attempts} / {m.max_attempts}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-500">
+                      {formatDateTime(m.sent_at ?? (m.status === 'queued' ? m.send_after : m.created_at))}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`text-xs font-medium px-2 py-1 rounded-full ${statusClass(m.status)}`}
+                        title={m.last_error ?? undefined}
+                      >
+                        {m.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      {(m.status === 'dead' || m.status === 'failed') && (
+                        <button
+                          type="button"
+                          onClick={() => handleRetry(m)}
+                          disabled={busyId === m.id}
+                          className="inline-flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-[#4E4B43] disabled:opacity-50"
+                        >
+                          <RotateCcw className="w-3.5 h-3.5" />
+                          Retry
+                        </button>
+                      )}
+                      {m.status === 'queued' && (
+                        <button
+                          type="button"
+                          onClick={() => handleCancel(m)}
+                          disabled={busyId === m.id}
+                          className="inline-flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-red-600 disabled:opacity-50"
+                        >
+                          <XCircle className="w-3.5 h-3.5" />
+                          Cancel
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { pipelineService } from '@/services/pipeline';
+import type { PipelineFunnelDimension, PipelineFunnelRow } from '@/types/pipeline';
+
+const PERIODS = [
+  { weeks: 4, label: 'Last 4 weeks' },
+  { weeks: 12, label: 'Last 12 weeks' },
+  { weeks: 52, label: 'Last year' },
+] as const;
+
+const SECTIONS: { dimension: PipelineFunnelDimension; title: string }[] = [
+  { dimension: 'source', title: 'By source' },
+  { dimension: 'caller', title: 'By caller' },
+  { dimension: 'week', title: 'By week of first call' },
+];
+
+function formatBucketLabel(row: PipelineFunnelRow): string {
+  if (row.dimension === 'source') {
+    return row.label.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+  }
+  if (row.dimension === 'week') {
+    return `Week of ${new Date(`${row.bucket}T00:00:00`).toLocaleDateString([], { month: 'short', day: 'numeric' })}`;
+  }
+  return row.label;
+}
+
+function Rate({ part, whole }: { part: number; whole: number }) {
+  if (whole === 0) return null;
+  return <span className="ml-1 text-xs text-gray-400">{Math.round((part / whole) * 100)}%</span>;
+}
+
+/**
+ * Conversion of called leads — approved → published → paid — by source,
+ * caller and week, so we can see which pamphlets and which callers actually
+ * produce listings. Percentages are of leads called.
+ */
+export function PipelineAnalytics() {
+  const [weeks, setWeeks] = useState<number>(12);
+  const [rows, setRows] = useState<PipelineFunnelRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    const since = new Date();
+    since.setDate(since.getDate() - weeks * 7);
+    pipelineService
+      .getFunnel(since)
+      .then((data) => {
+        if (cancelled) return;
+        setRows(data);
+        setError(null);
+      })
+      .catch((err) => {
+        console.error('Error loading pipeline analytics:', err);
+        if (!cancelled) setError('Failed to load pipeline analytics.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [weeks]);
+
+  const sourceRows = rows.filter((r) => r.dimension === 'source');
+  const totals = sourceRows.reduce(
+    (acc, r) => ({
+      called: acc.called + r.called,
+      approved: acc.approved + r.approved,
+      published: acc.published + r.published,
+      paid: acc.paid + r.paid,
+    }),
+    { called: 0, approved: 0, published: 0, paid: 0 },
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap items-center gap-3">
+        <select
+          value={weeks}
+          onChange={(e) => setWeeks(Number(e.target.value))}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {PERIODS.map((p) => (
+            <option key={p.weeks} value={p.weeks}>{p.label}</option>
+          ))}
+        </select>
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm ml-auto">
+          <span><span className="text-gray-500">Called:</span> <span className="font-medium text-gray-900">{totals.called}</span></span>
+          <span><span className="text-gray-500">Approved:</span> <span className="font-medium text-gray-900">{totals.approved}</span><Rate part={totals.approved} whole={totals.called} /></span>
+          <span><span className="text-gray-500">Published:</span> <span className="font-medium text-gray-900">{totals.published}</span><Rate part={totals.published} whole={totals.called} /></span>
+          <span><span className="text-gray-500">Paid:</span> <span className="font-medium text-gray-900">{totals.paid}</span><Rate part={totals.paid} whole={totals.called} /></span>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+        </div>
+      ) : totals.called === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 text-center py-16">
+          <p className="text-gray-500">No calls recorded in this period.</p>
+        </div>
+      ) : (
+        SECTIONS.map(({ dimension, title }) => (
+          <div key={dimension} className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+            <h4 className="px-4 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider bg-gray-50 border-b border-gray-200">
+              {title}
+            </h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="px-4 py-2 font-medium"></th>
+                  <th className="px-4 py-2 font-medium text-right">Called</th>
+                  <th className="px-4 py-2 font-medium text-right">Approved</th>
+                  <th className="px-4 py-2 font-medium text-right">Published</th>
+                  <th className="px-4 py-2 font-medium text-right">Paid</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows
+                  .filter((r) => r.dimension === dimension)
+                  .sort((a, b) => (dimension === 'week' ? b.bucket.localeCompare(a.bucket) : b.called - a.called))
+                  .map((r) => (
+                    <tr key={r.bucket}>
+                      <td className="px-4 py-2 text-gray-900">{formatBucketLabel(r)}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{r.called}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{r.approved}<Rate part={r.approved} whole={r.called} /></td>
+                      <td className="px-4 py-2 text-right text-gray-900">{r.published}<Rate part={r.published} whole={r.called} /></td>
+                      <td className="px-4 py-2 text-right text-gray-900">{r.paid}<Rate part={r.paid} whole={r.called} /></td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChevronDown, ChevronLeft, ChevronRight, Loader2, Phone, AlarmClock } from 'lucide-react';
+import type { ScrapedListing, CallStatus } from '@/config/supabase';
+import { pipelineService, CALL_STATUS_LABELS } from '@/services/pipeline';
+import type { PipelineCaller } from '@/types/pipeline';
+import { PipelineListingDetail } from '@/components/admin/PipelineListingDetail';
+
+interface PipelineCallQueueProps {
+  callers: PipelineCaller[];
+  defaultCallerId: string;
+  onPublish: (listing: ScrapedListing) => void;
+  onToast: (message: string) => void;
+  /** Bumped by the parent after a publish so the queue reloads. */
+  refreshKey: number;
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return a.toDateString() === b.toDateString();
+}
+
+/**
+ * One caller's calls for a day: callbacks due (overdue first), then leads
+ * nobody has called yet. Rows expand into the same detail panel as the
+ * leads table.
+ */
+export function PipelineCallQueue({ callers, defaultCallerId, onPublish, onToast, refreshKey }: PipelineCallQueueProps) {
+  const [callerId, setCallerId] = useState(defaultCallerId);
+  const [day, setDay] = useState(() => new Date());
+  const [callbacks, setCallbacks] = useState<ScrapedListing[]>([]);
+  const [fresh, setFresh] = useState<ScrapedListing[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const queue = await pipelineService.getCallQueue(callerId, day);
+      setCallbacks(queue.callbacks);
+      setFresh(queue.fresh);
+    } catch (err) {
+      console.error('Error loading call queue:', err);
+      onToast('Failed to load the call queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [callerId, day, onToast]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const handleStatusChange = async (id: string, newStatus: CallStatus) => {
+    try {
+      await pipelineService.updateCallStatus(id, newStatus);
+      onToast(`Status updated to ${CALL_STATUS_LABELS[newStatus]}`);
+      load();
+    } catch {
+      onToast('Failed to update status');
+    }
+  };
+
+  const shiftDay = (days: number) => {
+    setDay((d) => {
+      const next = new Date(d);
+      next.setDate(next.getDate() + days);
+      return next;
+    });
+    setExpandedId(null);
+  };
+
+  const now = new Date();
+
+  const renderRow = (listing: ScrapedListing) => {
+    const isExpanded = expandedId === listing.id;
+    const overdue = listing.callback_at != null && new Date(listing.callback_at) < now;
+    const crossStreets = [listing.cross_street_1, listing.cross_street_2].filter(Boolean).join(' & ');
+
+    return (
+      <div key={listing.id}>
+        <div
+          className={`flex items-center gap-3 px-4 py-3 hover:bg-gray-50 cursor-pointer transition-colors text-sm ${isExpanded ? 'bg-gray-50' : ''}`}
+          onClick={() => setExpandedId(isExpanded ? null : listing.id)}
+        >
+          <div className="flex-shrink-0 w-28">
+            {listing.callback_at ? (
+              <span className={`inline-flex items-center gap-1 text-xs font-medium ${overdue ? 'text-red-600' : 'text-gray-700'}`}>
+                <AlarmClock className="w-3.5 h-3.5" />
+                {isSameDay(new Date(listing.callback_at), day)
+                  ? new Date(listing.callback_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+                  : new Date(listing.callback_at).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+              </span>
+            ) : (
+              <span className="text-xs text-gray-400">New lead</span>
+            )}
+          </div>
+          <div className="min-w-0 w-44 flex-shrink-0">
+            <p className="font-medium text-gray-900 truncate">
+              {listing.agency_name || listing.contact_name || '-'}
+            </p>
+            {(listing.contact_phone_display || listing.contact_phone) && (
+              <a
+                href={`tel:${listing.contact_phone}`}
+                onClick={(e) => e.stopPropagation()}
+                className="text-xs text-blue-600 hover:text-blue-800 font-mono inline-flex items-center gap-1"
+              >
+                <Phone className="w-3 h-3" /> {listing.contact_phone_display || listing.contact_phone}
+              </a>
+            )}
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="text-gray-900 truncate">{crossStreets || '-'}</p>
+            <p className="text-xs text-gray-500">
+              {listing.bedrooms != null ? `${listing.bedrooms}br` : ''}
+              {listing.price ? ` · $${listing.price.toLocaleString()}` : ''}
+            </p>
+          </div>
+          <div className="flex-shrink-0 w-28 text-center text-xs text-gray-600">
+            {CALL_STATUS_LABELS[listing.call_status]}
+          </div>
+          <span className="text-gray-400">
+            {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          </span>
+        </div>
+        {isExpanded && (
+          <PipelineListingDetail
+            listing={listing}
+            onStatusChange={handleStatusChange}
+            onPublish={onPublish}
+            onRefresh={load}
+            callers={callers}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap items-center gap-3">
+        <select
+          value={callerId}
+          onChange={(e) => {
+            setCallerId(e.target.value);
+            setExpandedId(null);
+          }}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="all">All callers</option>
+          <option value="unassigned">Unassigned</option>
+          {callers.map((c) => (
+            <option key={c.id} value={c.id}>{c.full_name || c.id.slice(0, 8)}</option>
+          ))}
+        </select>
+
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => shiftDay(-1)}
+            className="p-1.5 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+            title="Previous day"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="px-3 text-sm font-medium text-gray-900 min-w-[140px] text-center">
+            {isSameDay(day, now)
+              ? 'Today'
+              : day.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+          </span>
+          <button
+            onClick={() => shiftDay(1)}
+            className="p-1.5 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+            title="Next day"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+
+        <span className="text-sm text-gray-500 ml-auto">
+          {callbacks.length} callback{callbacks.length !== 1 ? 's' : ''} · {fresh.length} new
+        </span>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+          </div>
+        ) : callbacks.length === 0 && fresh.length === 0 ? (
+          <div className="text-center py-16">
+            <p className="text-gray-500">Nothing to call.</p>
+          </div>
+        ) : (
+          <>
+            {callbacks.length > 0 && (
+              <>
+                <h4 className="px-4 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider bg-gray-50 border-b border-gray-200">
+                  Callbacks due
+                </h4>
+                <div className="divide-y divide-gray-100">{callbacks.map(renderRow)}</div>
+              </>
+            )}
+            {fresh.length > 0 && (
+              <>
+                <h4 className="px-4 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider bg-gray-50 border-y border-gray-200">
+                  Not called yet
+                </h4>
+                <div className="divide-y divide-gray-100">{fresh.map(renderRow)}</div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, MessageSquare, Phone } from 'lucide-react';
+import type { ScrapeRun } from '@/config/supabase';
+import { pipelineService } from '@/services/pipeline';
+import type { ScrapeRunChange, ScrapeRunDiffRow } from '@/types/pipeline';
+
+interface PipelineIssuesProps {
+  onToast: (message: string) => void;
+}
+
+const SECTIONS: { change: ScrapeRunChange; title: string; hint: string }[] = [
+  { change: 'new', title: 'New', hint: 'First time in any issue.' },
+  { change: 'returned', title: 'Back', hint: 'Seen in an older issue, missing from the previous one.' },
+  { change: 'price_changed', title: 'Price changed', hint: 'In both issues at a different price.' },
+  { change: 'dropped', title: 'Dropped out', hint: 'In the previous issue, not in this one — likely rented.' },
+];
+
+function formatSource(source: string | null): string {
+  if (!source) return 'Unknown';
+  return source.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function formatIssue(run: ScrapeRun): string {
+  const date = run.pdf_date ? new Date(`${run.pdf_date}T00:00:00`).toLocaleDateString() : '-';
+  return `${formatSource(run.source)} · ${date}`;
+}
+
+function formatPrice(price: number | null): string {
+  return price != null ? `$${price.toLocaleString()}` : '-';
+}
+
+/** The completed issue of the same source right before `run`, if any. */
+function findPreviousRun(runs: ScrapeRun[], run: ScrapeRun): ScrapeRun | null {
+  return (
+    runs.find(
+      (r) => r.id !== run.id && r.source === run.source && r.pdf_date != null && run.pdf_date != null && r.pdf_date < run.pdf_date,
+    ) ?? null
+  );
+}
+
+/** Dropped ads whose owner already has a live listing we can text about. */
+function canAskOwner(row: ScrapeRunDiffRow): boolean {
+  return (
+    row.change === 'dropped' &&
+    row.listing.match_status === 'matched' &&
+    row.listing.existing_listing_id != null &&
+    !row.listing.still_available_sms_at
+  );
+}
+
+/**
+ * Issue-to-issue comparison for the weekly pamphlets: what is new, back,
+ * repriced or gone versus the previous issue of the same source. Ads that
+ * dropped out but match a live listing can be followed up with a "still
+ * available?" text to the owner.
+ */
+export function PipelineIssues({ onToast }: PipelineIssuesProps) {
+  const [runs, setRuns] = useState<ScrapeRun[]>([]);
+  const [runId, setRunId] = useState<string | null>(null);
+  const [rows, setRows] = useState<ScrapeRunDiffRow[]>([]);
+  const [loadingRuns, setLoadingRuns] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [missedLimit, setMissedLimit] = useState<number | null>(null);
+  const [missedLimitDraft, setMissedLimitDraft] = useState('');
+  const [savingLimit, setSavingLimit] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    Promise.all([pipelineService.getCompletedRuns(), pipelineService.getMissedIssuesLimit()])
+      .then(([completed, limit]) => {
+        setRuns(completed);
+        setRunId(completed[0]?.id ?? null);
+        setMissedLimit(limit);
+        setMissedLimitDraft(String(limit));
+      })
+      .catch((err) => {
+        console.error('Error loading pamphlet issues:', err);
+        onToast('Failed to load pamphlet issues');
+      })
+      .finally(() => setLoadingRuns(false));
+  }, [onToast]);
+
+  const run = runs.find((r) => r.id === runId) ?? null;
+  const previousRun = run ? findPreviousRun(runs, run) : null;
+
+  const loadDiff = useCallback(async () => {
+    if (!run) return;
+    setLoading(true);
+    try {
+      setRows(await pipelineService.compareRuns(run.id, previousRun?.id ?? null));
+    } catch (err) {
+      console.error('Error comparing issues:', err);
+      onToast('Failed to compare issues');
+    } finally {
+      setLoading(false);
+    }
+  }, [run, previousRun, onToast]);
+
+  useEffect(() => {
+    loadDiff();
+  }, [loadDiff]);
+
+  const handleSaveLimit = async () => {
+    const value = Number(missedLimitDraft);
+    if (!Number.isInteger(value) || value < 1 || value > 26) {
+      onToast('Enter a whole number of issues between 1 and 26');
+      return;
+    }
+    setSavingLimit(true);
+    try {
+      await pipelineService.setMissedIssuesLimit(value);
+      setMissedLimit(value);
+      onToast('Saved — applies from the next issue');
+    } catch {
+      onToast('Failed to save setting');
+    } finally {
+      setSavingLimit(false);
+    }
+  };
+
+  const askable = rows.filter(canAskOwner);
+
+  const handleAskOwners = async () => {
+    if (askable.length === 0) return;
+    const noun = askable.length === 1 ? 'owner' : 'owners';
+    if (!window.confirm(`Text ${askable.length} ${noun} asking if their listing is still available?`)) return;
+    setSending(true);
+    try {
+      const result = await pipelineService.sendStillAvailableSms(askable.map((r) => r.listing.id));
+      onToast(`Sent ${result.sent} text${result.sent !== 1 ? 's' : ''}${result.skipped ? `, skipped ${result.skipped}` : ''}`);
+      loadDiff();
+    } catch {
+      onToast('Failed to send texts');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (loadingRuns) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (runs.length === 0) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 text-center py-16">
+        <p className="text-gray-500">No completed issues yet.</p>
+      </div>
+    );
+  }
+
+  const renderRow = (row: ScrapeRunDiffRow) => {
+    const listing = row.listing;
+    const crossStreets = [listing.cross_street_1, listing.cross_street_2].filter(Boolean).join(' & ');
+    return (
+      <div key={listing.id} className="flex items-center gap-3 px-4 py-3 text-sm">
+        <div className="min-w-0 w-44 flex-shrink-0">
+          <p className="font-medium text-gray-900 truncate">{listing.agency_name || listing.contact_name || '-'}</p>
+          {(listing.contact_phone_display || listing.contact_phone) && (
+            <a
+              href={`tel:${listing.contact_phone}`}
+              className="text-xs text-blue-600 hover:text-blue-800 font-mono inline-flex items-center gap-1"
+            >
+              <Phone className="w-3 h-3" /> {listing.contact_phone_display || listing.contact_phone}
+            </a>
+          )}
+        </div>
+        <div className="min-w-0 flex-1">
+          <p className="text-gray-900 truncate">{crossStreets || '-'}</p>
+          <p className="text-xs text-gray-500">
+            {listing.bedrooms != null ? `${listing.bedrooms}br` : ''}
+            {listing.times_seen > 1 ? ` · seen ${listing.times_seen}x since ${new Date(`${listing.date_first_seen}T00:00:00`).toLocaleDateString()}` : ''}
+          </p>
+        </div>
+        <div className="flex-shrink-0 w-40 text-right">
+          {row.change === 'price_changed' ? (
+            <p className="text-gray-900">
+              <span className="text-gray-400 line-through">{formatPrice(row.previous_price)}</span>{' '}
+              {formatPrice(row.current_price)}
+            </p>
+          ) : (
+            <p className="text-gray-900">{formatPrice(row.change === 'dropped' ? row.previous_price : row.current_price)}</p>
+          )}
+        </div>
+        <div className="flex-shrink-0 w-32 text-right text-xs">
+          {row.change === 'dropped' && listing.match_status === 'matched' ? (
+            listing.still_available_sms_at ? (
+              <span className="text-gray-500">Asked {new Date(listing.still_available_sms_at).toLocaleDateString()}</span>
+            ) : (
+              <span className="text-green-700">On site</span>
+            )
+          ) : row.change === 'dropped' && listing.dropped_at ? (
+            <span className="text-gray-500">Marked dropped</span>
+          ) : null}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap items-center gap-3">
+        <select
+          value={runId ?? ''}
+          onChange={(e) => setRunId(e.target.value)}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {runs.map((r) => (
+            <option key={r.id} value={r.id}>{formatIssue(r)}</option>
+          ))}
+        </select>
+        <span className="text-sm text-gray-500">
+          {previousRun ? `vs. ${formatIssue(previousRun)}` : 'First issue of this source'}
+        </span>
+
+        <div className="flex items-center gap-2 ml-auto text-sm">
+          <label htmlFor="missed-issues-limit" className="text-gray-500">Drop after missing</label>
+          <input
+            id="missed-issues-limit"
+            type="number"
+            min={1}
+            max={26}
+            value={missedLimitDraft}
+            onChange={(e) => setMissedLimitDraft(e.target.value)}
+            className="w-16 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <span className="text-gray-500">issues</span>
+          <button
+            onClick={handleSaveLimit}
+            disabled={savingLimit || missedLimitDraft === String(missedLimit)}
+            className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {savingLimit ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+        </div>
+      ) : (
+        SECTIONS.map(({ change, title, hint }) => {
+          const sectionRows = rows.filter((r) => r.change === change);
+          if (change === 'returned' && sectionRows.length === 0) return null;
+          return (
+            <div key={change} className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+              <div className="flex items-center gap-3 px-4 py-2 bg-gray-50 border-b border-gray-200">
+                <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                  {title} ({sectionRows.length})
+                </h4>
+                <span className="text-xs text-gray-400">{hint}</span>
+                {change === 'dropped' && askable.length > 0 && (
+                  <button
+                    onClick={handleAskOwners}
+                    disabled={sending}
+                    className="ml-auto inline-flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                  >
+                    {sending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <MessageSquare className="w-3.5 h-3.5" />}
+                    Ask {askable.length} owner{askable.length !== 1 ? 's' : ''} if still available
+                  </button>
+                )}
+              </div>
+              {sectionRows.length === 0 ? (
+                <p className="px-4 py-4 text-sm text-gray-400">None.</p>
+              ) : (
+                <div className="divide-y divide-gray-100">{sectionRows.map(renderRow)}</div>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,19 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import {
   ExternalLink, Save, Eye, EyeOff, Phone, User, Building2, MapPin,
   BarChart3, FileText, BedDouble, Bath, DollarSign, Layers, Maximize2,
-  CalendarDays, Repeat2, Sofa, Tag, Clock, Calendar,
+  CalendarDays, Repeat2, Sofa, Tag, Clock, Calendar, CheckCircle2, XCircle, RefreshCw, Link2,
+  PhoneCall, History,
 } from 'lucide-react';
 import type { ScrapedListing, CallStatus } from '@/config/supabase';
-import { getValidTransitions, CALL_STATUS_LABELS, pipelineService } from '@/services/pipeline';
+import {
+  getValidTransitions,
+  CALL_STATUS_LABELS,
+  CALLABLE_STATUSES,
+  pipelineService,
+  type MatchedLiveListing,
+} from '@/services/pipeline';
+import type { PipelineCaller, ScrapedListingStatusChange } from '@/types/pipeline';
 import { ConfirmDialog } from '@/components/shared/ConfirmDialog';
 
 interface PipelineListingDetailProps {
@@ -13,6 +21,15 @@ interface PipelineListingDetailProps {
   onStatusChange: (id: string, newStatus: CallStatus) => void;
   onPublish: (listing: ScrapedListing) => void;
   onRefresh: () => void;
+  callers: PipelineCaller[];
+}
+
+/** ISO timestamp → the local "yyyy-mm-ddThh:mm" a datetime-local input wants. */
+function toLocalInputValue(iso: string | null | undefined): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
 }
 
 const FEATURE_PILLS: { key: keyof ScrapedListing; label: string }[] = [
@@ -37,6 +54,21 @@ function DetailRow({ icon, label, value, mono }: { icon: React.ReactNode; label:
   );
 }
 
+/** One row of the scraped-vs-live comparison; `agrees` null = nothing to compare. */
+function CompareRow({ label, scraped, live, agrees }: { label: string; scraped: React.ReactNode; live: React.ReactNode; agrees: boolean | null }) {
+  return (
+    <tr className="border-t border-gray-100">
+      <td className="py-1.5 pr-3 text-xs text-gray-500 whitespace-nowrap">{label}</td>
+      <td className="py-1.5 pr-3 text-sm text-gray-900">{scraped ?? <span className="text-gray-300">-</span>}</td>
+      <td className="py-1.5 pr-3 text-sm text-gray-900">{live ?? <span className="text-gray-300">-</span>}</td>
+      <td className="py-1.5 w-5">
+        {agrees === true && <CheckCircle2 className="w-4 h-4 text-green-600" />}
+        {agrees === false && <XCircle className="w-4 h-4 text-red-500" />}
+      </td>
+    </tr>
+  );
+}
+
 function SectionCard({ children, className }: { children: React.ReactNode; className?: string }) {
   return (
     <div className={`bg-white rounded-md border border-gray-200 px-4 py-3 divide-y divide-gray-100 ${className ?? ''}`}>
@@ -45,12 +77,77 @@ function SectionCard({ children, className }: { children: React.ReactNode; class
   );
 }
 
-export function PipelineListingDetail({ listing, onStatusChange, onPublish, onRefresh }: PipelineListingDetailProps) {
+export function PipelineListingDetail({ listing, onStatusChange, onPublish, onRefresh, callers }: PipelineListingDetailProps) {
   const [callNotes, setCallNotes] = useState(listing.call_notes ?? '');
   const [showRawText, setShowRawText] = useState(false);
   const [savingNotes, setSavingNotes] = useState(false);
   const [suppressConfirm, setSuppressConfirm] = useState(false);
   const lastSavedNotes = useRef(listing.call_notes ?? '');
+  const [liveListing, setLiveListing] = useState<MatchedLiveListing | null>(null);
+  const [recheckingMatch, setRecheckingMatch] = useState(false);
+  const [callbackInput, setCallbackInput] = useState(toLocalInputValue(listing.callback_at));
+  const [savingCallTracking, setSavingCallTracking] = useState(false);
+  const [history, setHistory] = useState<ScrapedListingStatusChange[]>([]);
+
+  useEffect(() => {
+    setCallbackInput(toLocalInputValue(listing.callback_at));
+  }, [listing.callback_at]);
+
+  useEffect(() => {
+    let cancelled = false;
+    pipelineService
+      .getStatusHistory(listing.id)
+      .then((rows) => {
+        if (!cancelled) setHistory(rows);
+      })
+      .catch((err) => console.error('Error loading status history:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [listing.id, listing.call_status]);
+
+  const saveCallTracking = async (action: () => Promise<void>) => {
+    setSavingCallTracking(true);
+    try {
+      await action();
+      onRefresh();
+    } catch (err) {
+      console.error('Error updating call tracking:', err);
+    } finally {
+      setSavingCallTracking(false);
+    }
+  };
+
+  const canScheduleCallback = CALLABLE_STATUSES.includes(listing.call_status);
+  const callerName = (id: string | null | undefined) =>
+    id ? callers.find((c) => c.id === id)?.full_name || 'Unknown admin' : null;
+
+  useEffect(() => {
+    setLiveListing(null);
+    if (!listing.existing_listing_id) return;
+    let cancelled = false;
+    pipelineService
+      .getMatchedListing(listing.existing_listing_id)
+      .then((live) => {
+        if (!cancelled) setLiveListing(live);
+      })
+      .catch((err) => console.error('Error loading matched listing:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [listing.existing_listing_id]);
+
+  const recheckMatch = async () => {
+    setRecheckingMatch(true);
+    try {
+      await pipelineService.recheckMatches([listing.id]);
+      onRefresh();
+    } catch (err) {
+      console.error('Error re-checking match:', err);
+    } finally {
+      setRecheckingMatch(false);
+    }
+  };
 
   const validTransitions = getValidTransitions(listing.call_status);
 
@@ -292,28 +389,123 @@ export function PipelineListingDetail({ listing, onStatusChange, onPublish, onRe
       </div>
 
       {/* Section E - Match Info */}
-      {listing.match_status !== 'no_match' && (
-        <div>
-          <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Match Info</h4>
-          <div className="flex items-center gap-3 text-sm">
-            <span className={`px-2 py-0.5 text-xs font-medium rounded ${
-              listing.match_status === 'matched' ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
-            }`}>
-              {listing.match_status === 'matched' ? 'Exact match' : 'Partial match'}
-            </span>
-            {listing.existing_listing_id && (
-              <a
-                href={`/listing/${listing.existing_listing_id}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-blue-600 hover:text-blue-800 flex items-center gap-1 text-sm"
-              >
-                View existing listing <ExternalLink className="w-3.5 h-3.5" />
-              </a>
-            )}
-          </div>
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-1.5">
+            <Link2 className="w-3.5 h-3.5" /> On Hadirot
+          </p>
+          <button
+            onClick={recheckMatch}
+            disabled={recheckingMatch}
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50 transition-colors"
+          >
+            <RefreshCw className={`w-3.5 h-3.5 ${recheckingMatch ? 'animate-spin' : ''}`} />
+            {recheckingMatch ? 'Checking...' : 'Re-check'}
+          </button>
         </div>
-      )}
+        {listing.match_status === 'matched' || listing.match_status === 'partial_match' ? (
+          <SectionCard className="divide-y-0">
+            <div className="flex flex-wrap items-center gap-3 pb-2">
+              <span className={`px-2 py-0.5 text-xs font-medium rounded ${
+                listing.match_status === 'matched' ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
+              }`}>
+                {listing.match_status === 'matched' ? 'Already on site' : 'Possible match'}
+              </span>
+              {listing.match_score != null && (
+                <span className="text-xs text-gray-500">Score {listing.match_score}/100</span>
+              )}
+              {listing.match_details?.distance_m != null && (
+                <span className="text-xs text-gray-500">{listing.match_details.distance_m} m apart</span>
+              )}
+              {listing.existing_listing_id && (
+                <a
+                  href={`/listing/${listing.existing_listing_id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="ml-auto text-blue-600 hover:text-blue-800 flex items-center gap-1 text-sm"
+                >
+                  View live listing <ExternalLink className="w-3.5 h-3.5" />
+                </a>
+              )}
+            </div>
+            {liveListing ? (
+              <table className="w-full">
+                <thead>
+                  <tr>
+                    <th className="py-1 text-left text-xs font-medium text-gray-400 w-24"></th>
+                    <th className="py-1 text-left text-xs font-medium text-gray-400">Scraped</th>
+                    <th className="py-1 text-left text-xs font-medium text-gray-400">
+                      Live{!liveListing.is_active && <span className="ml-1 text-red-500">(inactive)</span>}
+                    </th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <CompareRow
+                    label="Phone"
+                    scraped={listing.contact_phone_display || listing.contact_phone}
+                    live={liveListing.contact_phone}
+                    agrees={listing.match_details?.phone ?? null}
+                  />
+                  <CompareRow
+                    label="Contact"
+                    scraped={listing.contact_name}
+                    live={liveListing.contact_name}
+                    agrees={null}
+                  />
+                  <CompareRow
+                    label="Cross streets"
+                    scraped={crossStreets || null}
+                    live={[liveListing.cross_street_a, liveListing.cross_street_b].filter(Boolean).join(' & ') || liveListing.full_address}
+                    agrees={
+                      listing.match_details?.streets === 'both' ? true : listing.match_details?.streets === 'none' ? false : null
+                    }
+                  />
+                  <CompareRow
+                    label="Bedrooms"
+                    scraped={listing.bedrooms}
+                    live={liveListing.bedrooms}
+                    agrees={listing.match_details?.bedrooms ?? null}
+                  />
+                  <CompareRow
+                    label="Price"
+                    scraped={(() => {
+                      const scrapedPrice = liveListing.listing_type === 'sale'
+                        ? (listing.intake_extra?.asking_price as number | null | undefined)
+                        : listing.price;
+                      return scrapedPrice ? `$${scrapedPrice.toLocaleString()}` : listing.price_note;
+                    })()}
+                    live={(() => {
+                      const livePrice = liveListing.listing_type === 'sale' ? liveListing.asking_price : liveListing.price;
+                      return livePrice ? `$${livePrice.toLocaleString()}` : liveListing.call_for_price ? 'Call for price' : null;
+                    })()}
+                    agrees={listing.match_details?.price_diff_pct != null ? listing.match_details.price_diff_pct <= 15 : null}
+                  />
+                  <CompareRow
+                    label="Title"
+                    scraped={listing.title}
+                    live={liveListing.title}
+                    agrees={null}
+                  />
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-xs text-gray-400 py-1">Loading live listing...</p>
+            )}
+          </SectionCard>
+        ) : (
+          <p className="text-sm text-gray-500">
+            {listing.match_status === 'unchecked'
+              ? 'Not checked against live listings yet.'
+              : 'No matching live listing — a new lead.'}
+            {listing.match_checked_at && (
+              <span className="text-xs text-gray-400 ml-2">
+                Checked {new Date(listing.match_checked_at).toLocaleString()}
+              </span>
+            )}
+          </p>
+        )}
+      </div>
 
       {/* Section F - Original Text */}
       <div>
@@ -331,6 +523,84 @@ export function PipelineListingDetail({ listing, onStatusChange, onPublish, onRe
         )}
       </div>
 
+      {/* Section F2 - Call Tracking */}
+      <div>
+        <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 flex items-center gap-1.5">
+          <PhoneCall className="w-3.5 h-3.5" /> Call Tracking
+        </h4>
+        <SectionCard>
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2 py-1.5">
+            <label className="flex items-center gap-2 text-xs text-gray-500">
+              Caller
+              <select
+                value={listing.caller_id ?? ''}
+                disabled={savingCallTracking}
+                onChange={(e) => saveCallTracking(() => pipelineService.assignCaller(listing.id, e.target.value || null))}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Unassigned</option>
+                {callers.map((c) => (
+                  <option key={c.id} value={c.id}>{c.full_name || c.id.slice(0, 8)}</option>
+                ))}
+              </select>
+            </label>
+            {canScheduleCallback && (
+              <label className="flex items-center gap-2 text-xs text-gray-500">
+                Call back at
+                <input
+                  type="datetime-local"
+                  value={callbackInput}
+                  onChange={(e) => setCallbackInput(e.target.value)}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  onClick={() =>
+                    saveCallTracking(() =>
+                      pipelineService.setCallback(listing.id, callbackInput ? new Date(callbackInput).toISOString() : null),
+                    )
+                  }
+                  disabled={savingCallTracking || callbackInput === toLocalInputValue(listing.callback_at)}
+                  className="px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md border border-gray-300 disabled:opacity-50 transition-colors"
+                >
+                  Save
+                </button>
+                {listing.callback_at && (
+                  <button
+                    onClick={() => saveCallTracking(() => pipelineService.setCallback(listing.id, null))}
+                    disabled={savingCallTracking}
+                    className="text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                  >
+                    Clear
+                  </button>
+                )}
+              </label>
+            )}
+            {listing.last_called_at && (
+              <span className="text-xs text-gray-500">
+                Last called {new Date(listing.last_called_at).toLocaleString()}
+              </span>
+            )}
+          </div>
+          {history.length > 0 && (
+            <div className="py-1.5">
+              <p className="text-xs text-gray-500 mb-1 flex items-center gap-1">
+                <History className="w-3.5 h-3.5" /> Status history
+              </p>
+              <ul className="space-y-0.5">
+                {history.map((h) => (
+                  <li key={h.id} className="text-xs text-gray-600">
+                    <span className="text-gray-400">{new Date(h.created_at).toLocaleString()}</span>{' '}
+                    {h.from_status ? CALL_STATUS_LABELS[h.from_status] : 'New'} &rarr;{' '}
+                    <span className="font-medium text-gray-900">{CALL_STATUS_LABELS[h.to_status]}</span>
+                    {' '}by {h.changed_by_profile?.full_name || callerName(h.changed_by) || 'system'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </SectionCard>
+      </div>
+
       {/* Section G - Call Notes */}
       <div>
         <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 flex items-center gap-1.5">
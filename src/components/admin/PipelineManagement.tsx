@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { ChevronDown, ChevronRight, Map, RotateCcw, ChevronLeft, Loader2 } from 'lucide-react';
+import { ChevronDown, ChevronRight, Map, RotateCcw, ChevronLeft, Loader2, List, PhoneCall, BarChart3, AlarmClock, Newspaper, Sparkles } from 'lucide-react';
 import type { ScrapedListing, ScrapeRun, CallStatus } from '@/config/supabase';
 import {
   pipelineService,
@@ -7,13 +7,29 @@ import {
   CALL_STATUS_LABELS,
   type PipelineFilters,
 } from '@/services/pipeline';
+import type { PipelineCaller } from '@/types/pipeline';
+import { useAuth } from '@/hooks/useAuth';
 import { PipelineListingDetail } from '@/components/admin/PipelineListingDetail';
+import { PipelineCallQueue } from '@/components/admin/PipelineCallQueue';
+import { PipelineAnalytics } from '@/components/admin/PipelineAnalytics';
+import { PipelineIssues } from '@/components/admin/PipelineIssues';
+import { AiFillUsage } from '@/components/admin/AiFillUsage';
 import { PipelineMapModal } from '@/components/admin/PipelineMapModal';
 import { PipelinePublishModal } from '@/components/admin/PipelinePublishModal';
 import { Toast } from '@/components/shared/Toast';
 
 const PAGE_SIZE = 25;
 
+type SubTab = 'leads' | 'queue' | 'issues' | 'analytics' | 'ai_fills';
+
+const SUB_TABS: { id: SubTab; label: string; icon: React.ElementType }[] = [
+  { id: 'leads', label: 'Leads', icon: List },
+  { id: 'queue', label: 'Call Queue', icon: PhoneCall },
+  { id: 'issues', label: 'Issues', icon: Newspaper },
+  { id: 'analytics', label: 'Analytics', icon: BarChart3 },
+  { id: 'ai_fills', label: 'AI Fills', icon: Sparkles },
+];
+
 const CALL_STATUS_OPTIONS: { value: CallStatus | 'all'; label: string }[] = [
   { value: 'all', label: 'All Statuses' },
   { value: 'pending_call', label: 'Pending Call' },
@@ -29,6 +45,7 @@ const MATCH_STATUS_OPTIONS = [
   { value: 'no_match', label: 'New leads only' },
   { value: 'matched', label: 'Matched' },
   { value: 'partial_match', label: 'Partial match' },
+  { value: 'unchecked', label: 'Not checked yet' },
 ] as const;
 
 const STATUS_BADGE_COLORS: Record<CallStatus, { bg: string; text: string }> = {
@@ -43,6 +60,7 @@ const STATUS_BADGE_COLORS: Record<CallStatus, { bg: string; text: string }> = {
 const DEFAULT_FILTERS: PipelineFilters = {
   callStatus: 'pending_call',
   matchStatus: 'all',
+  callerId: 'all',
   lowConfidenceOnly: false,
 };
 
@@ -52,9 +70,11 @@ function ConfidenceDot({ confidence }: { confidence: number | null }) {
   return <span className={`w-2.5 h-2.5 rounded-full ${color} inline-block`} title={`${Math.round(confidence * 100)}%`} />;
 }
 
-function MatchBadge({ status }: { status: string }) {
-  if (status === 'matched') return <span className="px-2 py-0.5 text-xs font-medium rounded bg-green-100 text-green-700">On site</span>;
-  if (status === 'partial_match') return <span className="px-2 py-0.5 text-xs font-medium rounded bg-yellow-100 text-yellow-700">~ Partial</span>;
+function MatchBadge({ status, score }: { status: string; score?: number | null }) {
+  const title = score != null ? `Match score ${score}/100` : undefined;
+  if (status === 'matched') return <span title={title} className="px-2 py-0.5 text-xs font-medium rounded bg-green-100 text-green-700">On site</span>;
+  if (status === 'partial_match') return <span title={title} className="px-2 py-0.5 text-xs font-medium rounded bg-yellow-100 text-yellow-700">~ Partial</span>;
+  if (status === 'unchecked') return <span className="px-2 py-0.5 text-xs font-medium rounded bg-gray-100 text-gray-500">Unchecked</span>;
   return <span className="px-2 py-0.5 text-xs font-medium rounded bg-blue-100 text-blue-700">New lead</span>;
 }
 
@@ -132,6 +152,10 @@ function QuickStatusDropdown({ listing, onSelect }: QuickStatusDropdownProps) {
 }
 
 export function PipelineManagement() {
+  const { user } = useAuth();
+  const [subTab, setSubTab] = useState<SubTab>('leads');
+  const [callers, setCallers] = useState<PipelineCaller[]>([]);
+  const [queueRefreshKey, setQueueRefreshKey] = useState(0);
   const [latestRun, setLatestRun] = useState<ScrapeRun | null>(null);
   const [listings, setListings] = useState<ScrapedListing[]>([]);
   const [totalCount, setTotalCount] = useState(0);
@@ -164,6 +188,16 @@ export function PipelineManagement() {
     fetchData();
   }, [fetchData]);
 
+  useEffect(() => {
+    pipelineService
+      .getCallers()
+      .then(setCallers)
+      .catch((err) => console.error('Error loading callers:', err));
+  }, []);
+
+  const callerName = (id: string | null | undefined) =>
+    id ? callers.find((c) => c.id === id)?.full_name || null : null;
+
   const handleStatusChange = async (id: string, newStatus: CallStatus) => {
     try {
       await pipelineService.updateCallStatus(id, newStatus);
@@ -178,6 +212,7 @@ export function PipelineManagement() {
     setToast('Listing submitted for approval');
     setPublishListing(null);
     fetchData();
+    setQueueRefreshKey((k) => k + 1);
   };
 
   const resetFilters = () => {
@@ -194,214 +229,279 @@ export function PipelineManagement() {
 
   return (
     <div className="space-y-6">
-      {/* Stats Bar */}
-      <div className="bg-white rounded-lg border border-gray-200 p-5">
-        <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-3">Last Pipeline Run</h3>
-        {latestRun ? (
-          <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
-            <div>
-              <span className="text-gray-500">Date:</span>{' '}
-              <span className="font-medium text-gray-900">{latestRun.pdf_date ? new Date(latestRun.pdf_date).toLocaleDateString() : '-'}</span>
-            </div>
-            <div>
-              <span className="text-gray-500">Parsed:</span>{' '}
-              <span className="font-medium text-gray-900">{latestRun.listings_parsed}</span>
-            </div>
-            <div>
-              <span className="text-gray-500">Inserted:</span>{' '}
-              <span className="font-medium text-gray-900">{latestRun.listings_inserted}</span>
-            </div>
-            <div>
-              <span className="text-gray-500">Updated:</span>{' '}
-              <span className="font-medium text-gray-900">{latestRun.listings_updated}</span>
-            </div>
-            <RunStatusBadge status={latestRun.status} />
-          </div>
-        ) : (
-          <p className="text-sm text-gray-500">No pipeline runs yet</p>
-        )}
-      </div>
-
-      {/* Filter Bar */}
-      <div className="bg-white rounded-lg border border-gray-200 p-4">
-        <div className="flex flex-wrap items-center gap-3">
-          <select
-            value={filters.callStatus}
-            onChange={(e) => updateFilter('callStatus', e.target.value)}
-            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-          >
-            {CALL_STATUS_OPTIONS.map((o) => (
-              <option key={o.value} value={o.value}>{o.label}</option>
-            ))}
-          </select>
-
-          <select
-            value={filters.matchStatus}
-            onChange={(e) => updateFilter('matchStatus', e.target.value)}
-            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-          >
-            {MATCH_STATUS_OPTIONS.map((o) => (
-              <option key={o.value} value={o.value}>{o.label}</option>
-            ))}
-          </select>
-
-          <label className="flex items-center gap-1.5 text-sm text-gray-700">
-            <input
-              type="checkbox"
-              checked={filters.lowConfidenceOnly}
-              onChange={(e) => updateFilter('lowConfidenceOnly', e.target.checked)}
-              className="rounded"
-            />
-            Low confidence only
-          </label>
-
+      <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
+        {SUB_TABS.map(({ id, label, icon: Icon }) => (
           <button
-            onClick={resetFilters}
-            className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center gap-1"
+            key={id}
+            onClick={() => setSubTab(id)}
+            className={`flex items-center gap-1.5 px-3 py-2 rounded-md text-xs font-medium transition-all flex-1 justify-center ${
+              subTab === id
+                ? 'bg-white text-gray-900 shadow-sm'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
           >
-            <RotateCcw className="w-3.5 h-3.5" /> Reset
+            <Icon className="w-3.5 h-3.5" />
+            {label}
           </button>
-
-          <span className="text-sm text-gray-500 ml-auto">
-            {totalCount} listing{totalCount !== 1 ? 's' : ''}
-          </span>
-        </div>
+        ))}
       </div>
 
-      {/* Table */}
-      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
-        {loading ? (
-          <div className="flex items-center justify-center py-16">
-            <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
-          </div>
-        ) : listings.length === 0 ? (
-          <div className="text-center py-16">
-            <p className="text-gray-500">No listings match the current filters.</p>
-          </div>
-        ) : (
-          <div className="divide-y divide-gray-100">
-            {listings.map((listing) => {
-              const isExpanded = expandedId === listing.id;
-              const contactDisplay = listing.agency_name || listing.contact_name || listing.contact_phone_display || '-';
-              const crossStreets = [listing.cross_street_1, listing.cross_street_2].filter(Boolean).join(' & ');
-
-              return (
-                <div key={listing.id}>
-                  {/* Collapsed Row */}
-                  <div
-                    className={`flex items-center gap-3 px-4 py-3 hover:bg-gray-50 cursor-pointer transition-colors text-sm ${isExpanded ? 'bg-gray-50' : ''}`}
-                    onClick={() => setExpandedId(isExpanded ? null : listing.id)}
-                  >
-                    {/* Confidence */}
-                    <div className="flex-shrink-0 w-6 flex justify-center">
-                      <ConfidenceDot confidence={listing.parse_confidence} />
-                    </div>
-
-                    {/* Source */}
-                    <div className="flex-shrink-0">
-                      <SourceBadge source={listing.source} />
-                    </div>
-
-                    {/* Contact */}
-                    <div className="min-w-0 w-40 flex-shrink-0">
-                      <p className="font-medium text-gray-900 truncate">{contactDisplay}</p>
-                      {listing.contact_type && (
-                        <span className="text-xs text-gray-500 capitalize">{listing.contact_type}</span>
-                      )}
-                    </div>
-
-                    {/* Location */}
-                    <div className="min-w-0 flex-1">
-                      <p className="text-gray-900 truncate">{crossStreets || '-'}</p>
-                      {listing.neighborhood && (
-                        <p className="text-xs text-gray-500 truncate">{listing.neighborhood}</p>
-                      )}
-                    </div>
-
-                    {/* Beds / Price */}
-                    <div className="flex-shrink-0 w-24 text-right">
-                      <p className="text-gray-900">{listing.bedrooms != null ? `${listing.bedrooms}br` : '-'}</p>
-                      <p className="text-xs text-gray-500">
-                        {listing.price ? `$${listing.price.toLocaleString()}` : listing.price_note || '-'}
-                      </p>
-                    </div>
+      {subTab === 'queue' && (
+        <PipelineCallQueue
+          callers={callers}
+          defaultCallerId={user && callers.some((c) => c.id === user.id) ? user.id : 'all'}
+          onPublish={(l) => setPublishListing(l)}
+          onToast={setToast}
+          refreshKey={queueRefreshKey}
+        />
+      )}
 
-                    {/* Match Status */}
-                    <div className="flex-shrink-0 w-20 text-center">
-                      <MatchBadge status={listing.match_status} />
-                    </div>
+      {subTab === 'issues' && <PipelineIssues onToast={setToast} />}
 
-                    {/* Times Seen */}
-                    <div className="flex-shrink-0 w-20 text-center">
-                      <p className="text-xs text-gray-600">Seen {listing.times_seen}x</p>
-                      <p className="text-xs text-gray-400">
-                        {listing.date_last_seen ? new Date(listing.date_last_seen).toLocaleDateString() : ''}
-                      </p>
-                    </div>
+      {subTab === 'analytics' && <PipelineAnalytics />}
 
-                    {/* Call Status Badge */}
-                    <div className="flex-shrink-0 w-28 text-center" onClick={(e) => e.stopPropagation()}>
-                      <QuickStatusDropdown listing={listing} onSelect={handleStatusChange} />
-                    </div>
+      {subTab === 'ai_fills' && <AiFillUsage onToast={setToast} />}
 
-                    {/* Actions */}
-                    <div className="flex-shrink-0 flex items-center gap-1">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setMapListing(listing);
-                        }}
-                        className="p-1.5 text-gray-400 hover:text-blue-600 rounded transition-colors"
-                        title="Map"
-                      >
-                        <Map className="w-4 h-4" />
-                      </button>
-                      <span className="text-gray-400">
-                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
-                      </span>
-                    </div>
-                  </div>
-
-                  {/* Expanded Detail */}
-                  {isExpanded && (
-                    <PipelineListingDetail
-                      listing={listing}
-                      onStatusChange={handleStatusChange}
-                      onPublish={(l) => setPublishListing(l)}
-                      onRefresh={fetchData}
-                    />
-                  )}
+      {subTab === 'leads' && (
+        <>
+          {/* Stats Bar */}
+          <div className="bg-white rounded-lg border border-gray-200 p-5">
+            <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-3">Last Pipeline Run</h3>
+            {latestRun ? (
+              <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+                <div>
+                  <span className="text-gray-500">Date:</span>{' '}
+                  <span className="font-medium text-gray-900">{latestRun.pdf_date ? new Date(latestRun.pdf_date).toLocaleDateString() : '-'}</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Parsed:</span>{' '}
+                  <span className="font-medium text-gray-900">{latestRun.listings_parsed}</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Inserted:</span>{' '}
+                  <span className="font-medium text-gray-900">{latestRun.listings_inserted}</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Updated:</span>{' '}
+                  <span className="font-medium text-gray-900">{latestRun.listings_updated}</span>
                 </div>
-              );
-            })}
+                <RunStatusBadge status={latestRun.status} />
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No pipeline runs yet</p>
+            )}
           </div>
-        )}
-
-        {/* Pagination */}
-        {totalPages > 1 && (
-          <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 bg-gray-50 text-sm">
-            <span className="text-gray-500">
-              Page {page + 1} of {totalPages}
-            </span>
-            <div className="flex gap-2">
-              <button
-                onClick={() => setPage((p) => Math.max(0, p - 1))}
-                disabled={page === 0}
-                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1"
+
+          {/* Filter Bar */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={filters.callStatus}
+                onChange={(e) => updateFilter('callStatus', e.target.value)}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               >
-                <ChevronLeft className="w-3.5 h-3.5" /> Prev
-              </button>
+                {CALL_STATUS_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+
+              <select
+                value={filters.matchStatus}
+                onChange={(e) => updateFilter('matchStatus', e.target.value)}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {MATCH_STATUS_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+
+              <select
+                value={filters.callerId}
+                onChange={(e) => updateFilter('callerId', e.target.value)}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="all">All Callers</option>
+                <option value="unassigned">Unassigned</option>
+                {callers.map((c) => (
+                  <option key={c.id} value={c.id}>{c.full_name || c.id.slice(0, 8)}</option>
+                ))}
+              </select>
+
+              <label className="flex items-center gap-1.5 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={filters.lowConfidenceOnly}
+                  onChange={(e) => updateFilter('lowConfidenceOnly', e.target.checked)}
+                  className="rounded"
+                />
+                Low confidence only
+              </label>
+
               <button
-                onClick={() => setPage((p) => Math.min(totalPages - 1, p + 1))}
-                disabled={page >= totalPages - 1}
-                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1"
+                onClick={resetFilters}
+                className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center gap-1"
               >
-                Next <ChevronRight className="w-3.5 h-3.5" />
+                <RotateCcw className="w-3.5 h-3.5" /> Reset
               </button>
+
+              <span className="text-sm text-gray-500 ml-auto">
+                {totalCount} listing{totalCount !== 1 ? 's' : ''}
+              </span>
             </div>
           </div>
-        )}
-      </div>
+
+          {/* Table */}
+          <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+            {loading ? (
+              <div className="flex items-center justify-center py-16">
+                <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+              </div>
+            ) : listings.length === 0 ? (
+              <div className="text-center py-16">
+                <p className="text-gray-500">No listings match the current filters.</p>
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {listings.map((listing) => {
+                  const isExpanded = expandedId === listing.id;
+                  const contactDisplay = listing.agency_name || listing.contact_name || listing.contact_phone_display || '-';
+                  const crossStreets = [listing.cross_street_1, listing.cross_street_2].filter(Boolean).join(' & ');
+
+                  return (
+                    <div key={listing.id}>
+                      {/* Collapsed Row */}
+                      <div
+                        className={`flex items-center gap-3 px-4 py-3 hover:bg-gray-50 cursor-pointer transition-colors text-sm ${isExpanded ? 'bg-gray-50' : ''}`}
+                        onClick={() => setExpandedId(isExpanded ? null : listing.id)}
+                      >
+                        {/* Confidence */}
+                        <div className="flex-shrink-0 w-6 flex justify-center">
+                          <ConfidenceDot confidence={listing.parse_confidence} />
+                        </div>
+
+                        {/* Source */}
+                        <div className="flex-shrink-0">
+                          <SourceBadge source={listing.source} />
+                        </div>
+
+                        {/* Contact */}
+                        <div className="min-w-0 w-40 flex-shrink-0">
+                          <p className="font-medium text-gray-900 truncate">{contactDisplay}</p>
+                          {listing.contact_type && (
+                            <span className="text-xs text-gray-500 capitalize">{listing.contact_type}</span>
+                          )}
+                        </div>
+
+                        {/* Location */}
+                        <div className="min-w-0 flex-1">
+                          <p className="text-gray-900 truncate">{crossStreets || '-'}</p>
+                          {listing.neighborhood && (
+                            <p className="text-xs text-gray-500 truncate">{listing.neighborhood}</p>
+                          )}
+                        </div>
+
+                        {/* Beds / Price */}
+                        <div className="flex-shrink-0 w-24 text-right">
+                          <p className="text-gray-900">{listing.bedrooms != null ? `${listing.bedrooms}br` : '-'}</p>
+                          <p className="text-xs text-gray-500">
+                            {listing.price ? `$${listing.price.toLocaleString()}` : listing.price_note || '-'}
+                          </p>
+                        </div>
+
+                        {/* Match Status */}
+                        <div className="flex-shrink-0 w-20 text-center">
+                          <MatchBadge status={listing.match_status} score={listing.match_score} />
+                        </div>
+
+                        {/* Times Seen */}
+                        <div className="flex-shrink-0 w-20 text-center">
+                          <p className="text-xs text-gray-600">Seen {listing.times_seen}x</p>
+                          <p className="text-xs text-gray-400">
+                            {listing.date_last_seen ? new Date(listing.date_last_seen).toLocaleDateString() : ''}
+                          </p>
+                          {listing.dropped_at ? (
+                            <p className="text-xs text-red-600" title={`Missed the last ${listing.missed_issues} issues`}>Dropped</p>
+                          ) : listing.missed_issues ? (
+                            <p className="text-xs text-gray-400">Missed {listing.missed_issues}</p>
+                          ) : null}
+                        </div>
+
+                        {/* Call Status Badge */}
+                        <div className="flex-shrink-0 w-28 text-center" onClick={(e) => e.stopPropagation()}>
+                          <QuickStatusDropdown listing={listing} onSelect={handleStatusChange} />
+                          {(listing.caller_id || listing.callback_at) && (
+                            <p className="mt-0.5 text-xs text-gray-400 truncate" title={callerName(listing.caller_id) ?? undefined}>
+                              {listing.callback_at && (
+                                <AlarmClock className="w-3 h-3 inline-block mr-0.5 -mt-0.5" />
+                              )}
+                              {listing.callback_at
+                                ? new Date(listing.callback_at).toLocaleDateString([], { month: 'short', day: 'numeric' })
+                                : callerName(listing.caller_id)}
+                            </p>
+                          )}
+                        </div>
+
+                        {/* Actions */}
+                        <div className="flex-shrink-0 flex items-center gap-1">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setMapListing(listing);
+                            }}
+                            className="p-1.5 text-gray-400 hover:text-blue-600 rounded transition-colors"
+                            title="Map"
+                          >
+                            <Map className="w-4 h-4" />
+                          </button>
+                          <span className="text-gray-400">
+                            {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                          </span>
+                        </div>
+                      </div>
+
+                      {/* Expanded Detail */}
+                      {isExpanded && (
+                        <PipelineListingDetail
+                          listing={listing}
+                          onStatusChange={handleStatusChange}
+                          onPublish={(l) => setPublishListing(l)}
+                          onRefresh={fetchData}
+                          callers={callers}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 bg-gray-50 text-sm">
+                <span className="text-gray-500">
+                  Page {page + 1} of {totalPages}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setPage((p) => Math.max(0, p - 1))}
+                    disabled={page === 0}
+                    className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1"
+                  >
+                    <ChevronLeft className="w-3.5 h-3.5" /> Prev
+                  </button>
+                  <button
+                    onClick={() => setPage((p) => Math.min(totalPages - 1, p + 1))}
+                    disabled={page >= totalPages - 1}
+                    className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1"
+                  >
+                    Next <ChevronRight className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </>
+      )}
 
       {/* Shared Modals */}
       <PipelineMapModal listing={mapListing} onClose={() => setMapListing(null)} />
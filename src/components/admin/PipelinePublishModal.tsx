@@ -67,6 +67,7 @@ export function PipelinePublishModal({ listing, onClose, onSuccess }: PipelinePu
     heat: 'tenant_pays' as HeatType,
     washer_dryer_hookup: false,
     lease_length: null as LeaseLength | null,
+    available_date: '',
     floor: null as number | null,
     square_footage: null as number | null,
     description: '',
@@ -96,6 +97,7 @@ export function PipelinePublishModal({ listing, onClose, onSuccess }: PipelinePu
       heat: listing.heat_included ? 'included' : 'tenant_pays',
       washer_dryer_hookup: listing.washer_dryer ?? false,
       lease_length: mapRentalTerm(listing.rental_term),
+      available_date: listing.intake_extra?.available_date || '',
       floor: listing.floor,
       square_footage: listing.square_footage,
       description: buildAdditionalNotes(listing),
@@ -162,6 +164,7 @@ export function PipelinePublishModal({ listing, onClose, onSuccess }: PipelinePu
         heat: form.heat,
         washer_dryer_hookup: form.washer_dryer_hookup,
         lease_length: form.lease_length,
+        available_date: form.available_date || null,
         floor: form.floor,
         square_footage: form.square_footage,
         description: form.description || null,
@@ -432,6 +435,16 @@ export function PipelinePublishModal({ listing, onClose, onSuccess }: PipelinePu
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Available Date</label>
+                <input
+                  type="date"
+                  value={form.available_date}
+                  onChange={(e) => updateField('available_date', e.target.value)}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Floor</label>
                 <input
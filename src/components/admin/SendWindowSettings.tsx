@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CalendarOff, Clock, Plus, Trash2 } from 'lucide-react';
+import { sendWindowService } from '@/services/sendWindow';
+import { useAuth } from '@/hooks/useAuth';
+import type { SendWindowBlockedDate, SendWindowPolicyUpdate } from '@/types/sendWindow';
+
+const formatDate = (ymd: string) =>
+  new Date(`${ymd}T12:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+const inputClass =
+  'text-sm border border-gray-300 rounded-md px-3 py-2 focus:ring-1 focus:ring-[#4E4B43] focus:border-[#4E4B43] outline-none';
+
+export function SendWindowSettings() {
+  const { user } = useAuth();
+  const [form, setForm] = useState<SendWindowPolicyUpdate | null>(null);
+  const [timezone, setTimezone] = useState('America/New_York');
+  const [blockedDates, setBlockedDates] = useState<SendWindowBlockedDate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [newDate, setNewDate] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const [policy, dates] = await Promise.all([
+        sendWindowService.getPolicy(),
+        sendWindowService.getBlockedDates(),
+      ]);
+      if (policy) {
+        setTimezone(policy.timezone);
+        setForm({
+          daily_start: policy.daily_start.slice(0, 5),
+          daily_end: policy.daily_end.slice(0, 5),
+          observe_shabbat: policy.observe_shabbat,
+          candle_lighting_minutes: policy.candle_lighting_minutes,
+          havdalah_minutes: policy.havdalah_minutes,
+        });
+      }
+      setBlockedDates(dates);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load send window:', err);
+      setError('Failed to load the send window settings.');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !form) return;
+    if (form.daily_start >= form.daily_end) {
+      setError('The daily window must end after it starts.');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await sendWindowService.updatePolicy(form, user.id);
+      setNotice('Send window saved. The senders pick it up within a minute.');
+    } catch (err) {
+      console.error('Failed to save send window:', err);
+      setError('Failed to save the send window.');
+    }
+    setSaving(false);
+  };
+
+  const handleAddDate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !newDate || !newLabel.trim()) return;
+    try {
+      await sendWindowService.addBlockedDate(newDate, newLabel, user.id);
+      setNewDate('');
+      setNewLabel('');
+      setBlockedDates(await sendWindowService.getBlockedDates());
+    } catch (err) {
+      console.error('Failed to add blocked date:', err);
+      setError('Failed to add this date.');
+    }
+  };
+
+  const handleRemoveDate = async (blockedOn: string) => {
+    if (!window.confirm(`Allow automated messages on ${formatDate(blockedOn)} again?`)) return;
+    try {
+      await sendWindowService.removeBlockedDate(blockedOn);
+      setBlockedDates((prev) => prev.filter((d) => d.blocked_on !== blockedOn));
+    } catch (err) {
+      console.error('Failed to remove blocked date:', err);
+      setError('Failed to remove this date.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#4E4B43] mx-auto" />
+        <p className="text-gray-600 mt-4">Loading send window...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-[#4E4B43] flex items-center gap-2">
+          <Clock className="w-5 h-5" />
+          Send window
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Reminders, reports, alerts and notifications only go out inside this window. Anything sent outside it is
+          queued and goes out when the window opens; held messages are listed on the Outbox tab. Replies to someone
+          who just texted us, admin replies and password resets are never held back.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700">{error}</div>
+      )}
+      {notice && (
+        <div className="rounded-md border border-green-200 bg-green-50 px-4 py-2 text-sm text-green-700">{notice}</div>
+      )}
+
+      {form && (
+        <form onSubmit={handleSave} className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+          <div className="flex flex-col md:flex-row gap-4">
+            <label className="text-sm text-gray-700">
+              <span className="block font-medium mb-1">Daily start</span>
+              <input
+                type="time"
+                value={form.daily_start}
+                onChange={(e) => setForm({ ...form, daily_start: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              <span className="block font-medium mb-1">Daily end</span>
+              <input
+                type="time"
+                value={form.daily_end}
+                onChange={(e) => setForm({ ...form, daily_end: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <p className="text-xs text-gray-500 md:self-end md:pb-2">Times are {timezone.replace(/_/g, ' ')} time.</p>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.observe_shabbat}
+              onChange={(e) => setForm({ ...form, observe_shabbat: e.target.checked })}
+              className="rounded border-gray-300 text-[#4E4B43] focus:ring-[#4E4B43]"
+            />
+            Hold messages from Friday candle lighting until after Shabbos
+          </label>
+
+          <div className="flex flex-col md:flex-row gap-4">
+            <label className="text-sm text-gray-700">
+              <span className="block font-medium mb-1">Candle lighting (minutes before sunset)</span>
+              <input
+                type="number"
+                min={0}
+                max={120}
+                value={form.candle_lighting_minutes}
+                onChange={(e) => setForm({ ...form, candle_lighting_minutes: Number(e.target.value) })}
+                className={`${inputClass} w-28`}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              <span className="block font-medium mb-1">Nightfall (minutes after sunset)</span>
+              <input
+                type="number"
+                min={0}
+                max={120}
+                value={form.havdalah_minutes}
+                onChange={(e) => setForm({ ...form, havdalah_minutes: Number(e.target.value) })}
+                className={`${inputClass} w-28`}
+              />
+            </label>
+          </div>
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-[#4E4B43] rounded-md hover:bg-[#3d3a34] disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save send window'}
+          </button>
+        </form>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-[#4E4B43] flex items-center gap-2">
+          <CalendarOff className="w-4 h-4" />
+          Yom tov dates
+        </h3>
+        <p className="text-xs text-gray-500">
+          Each date is held like a Shabbos, from candle lighting the evening before until nightfall. Add both days of
+          a two-day yom tov.
+        </p>
+
+        <form onSubmit={handleAddDate} className="flex flex-col md:flex-row gap-3">
+          <input type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} className={inputClass} />
+          <input
+            type="text"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            maxLength={100}
+            placeholder="Label (e.g. Pesach)"
+            className={`${inputClass} flex-1`}
+          />
+          <button
+            type="submit"
+            disabled={!newDate || !newLabel.trim()}
+            className="flex items-center justify-center gap-1.5 px-4 py-2 text-sm font-medium text-white bg-[#4E4B43] rounded-md hover:bg-[#3d3a34] disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add date
+          </button>
+        </form>
+
+        <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+          {blockedDates.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">No upcoming dates</p>
+          ) : (
+            blockedDates.map((d) => (
+              <div key={d.blocked_on} className="flex items-center justify-between px-4 py-2.5 text-sm">
+                <span>
+                  <span className="font-medium text-gray-900">{formatDate(d.blocked_on)}</span>
+                  <span className="text-gray-500"> · {d.label}</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveDate(d.blocked_on)}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove date"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
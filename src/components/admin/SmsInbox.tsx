@@ -0,0 +1,457 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertTriangle, Ban, Check, Inbox, RefreshCw, Search, Send, XCircle } from 'lucide-react';
+import { smsInboxService } from '@/services/smsInbox';
+import { formatPhoneForDisplay } from '@/utils/phone';
+import { analyzeSmsSegments } from '@/utils/smsTemplates';
+import {
+  OPEN_CONVERSATION_STATES,
+  SMS_MESSAGE_SOURCE_LABELS,
+} from '@/types/smsInbox';
+import type { SmsConversation, SmsInboxFilter, SmsInboxThread, SmsThreadDetail } from '@/types/smsInbox';
+
+const FILTERS: { id: SmsInboxFilter; label: string }[] = [
+  { id: 'attention', label: 'Needs attention' },
+  { id: 'all', label: 'All' },
+  { id: 'failed', label: 'Delivery failures' },
+  { id: 'opted_out', label: 'Opted out' },
+];
+
+const formatDateTime = (iso: string | null) =>
+  iso
+    ? new Date(iso).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      })
+    : '—';
+
+const humanize = (value: string | null) => (value ? value.replace(/_/g, ' ') : '—');
+
+const statusClass = (status: string | null) =>
+  status === 'delivered' ? 'bg-green-50 text-green-700' :
+  status === 'failed' || status === 'undelivered' ? 'bg-red-50 text-red-700' :
+  'bg-gray-100 text-gray-600';
+
+const isOpen = (c: SmsConversation) => OPEN_CONVERSATION_STATES.includes(c.state);
+
+export function SmsInbox() {
+  const [threads, setThreads] = useState<SmsInboxThread[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [filter, setFilter] = useState<SmsInboxFilter>('attention');
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [selectedPhone, setSelectedPhone] = useState<string | null>(null);
+  const [detail, setDetail] = useState<SmsThreadDetail | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [reply, setReply] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const loadThreads = useCallback(async () => {
+    try {
+      setThreads(await smsInboxService.getThreads(query, filter));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load SMS inbox:', err);
+      setError('Failed to load the SMS inbox.');
+    }
+    setLoading(false);
+  }, [query, filter]);
+
+  const loadDetail = useCallback(async (phoneNumber: string) => {
+    setDetailLoading(true);
+    try {
+      setDetail(await smsInboxService.getThread(phoneNumber));
+    } catch (err) {
+      console.error('Failed to load SMS thread:', err);
+      setError('Failed to load this conversation.');
+    }
+    setDetailLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadThreads();
+  }, [loadThreads]);
+
+  useEffect(() => {
+    setReply('');
+    setNotice(null);
+    if (selectedPhone) loadDetail(selectedPhone);
+    else setDetail(null);
+  }, [selectedPhone, loadDetail]);
+
+  const selectedThread = threads.find((t) => t.phone_number === selectedPhone) ?? null;
+  const openConversation = detail?.conversations.find(isOpen) ?? null;
+  const segments = analyzeSmsSegments(reply);
+
+  const refresh = async () => {
+    await loadThreads();
+    if (selectedPhone) await loadDetail(selectedPhone);
+  };
+
+  const runAction = async (key: string, action: () => Promise<string | void>, success: string) => {
+    setBusy(key);
+    setError(null);
+    setNotice(null);
+    try {
+      setNotice((await action()) || success);
+      await refresh();
+    } catch (err) {
+      console.error('SMS inbox action failed:', err);
+      setError(err instanceof Error ? err.message : 'Something went wrong.');
+    }
+    setBusy(null);
+  };
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedPhone || !reply.trim()) return;
+    runAction(
+      'reply',
+      async () => {
+        await smsInboxService.sendReply(selectedPhone, reply, {
+          conversationId: openConversation?.id,
+          listingId: openConversation?.listing_id,
+        });
+        setReply('');
+      },
+      'Reply sent.',
+    );
+  };
+
+  const handleResolve = (conversation: SmsConversation, resolution: 'renew' | 'deactivate') => {
+    const verb = resolution === 'renew' ? 'Extend' : 'Deactivate';
+    const scope = conversation.metadata?.bulk === true ? 'every listing in this batch' : 'this listing';
+    if (!window.confirm(`${verb} ${scope} and close the conversation? The owner won't be texted.`)) return;
+    runAction(
+      `resolve:${conversation.id}`,
+      () => smsInboxService.resolveConversation(conversation.id, resolution),
+      resolution === 'renew' ? 'Listing extended for 14 days.' : 'Listing deactivated.',
+    );
+  };
+
+  const handleResend = (listingId: string) => {
+    if (!window.confirm('Text the renewal reminder for this listing again now?')) return;
+    runAction(
+      `resend:${listingId}`,
+      async () => {
+        const { deferredUntil } = await smsInboxService.resendReminder(listingId);
+        if (deferredUntil) return `Outside the send window — the reminder is queued for ${formatDateTime(deferredUntil)}.`;
+      },
+      'Reminder sent.',
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#4E4B43] mx-auto" />
+        <p className="text-gray-600 mt-4">Loading SMS inbox...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-[#4E4B43] flex items-center gap-2">
+            <Inbox className="w-5 h-5" />
+            SMS inbox
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Every number we've texted or heard from, with its conversations and delivery status.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={refresh}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700">{error}</div>
+      )}
+      {notice && (
+        <div className="rounded-md border border-green-200 bg-green-50 px-4 py-2 text-sm text-green-700">{notice}</div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setQuery(search);
+            }}
+            className="relative"
+          >
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search number or message text"
+              className="w-full text-sm border border-gray-300 rounded-md pl-9 pr-3 py-1.5 focus:ring-1 focus:ring-[#4E4B43] focus:border-[#4E4B43] outline-none"
+            />
+          </form>
+
+          <div className="flex flex-wrap gap-1.5">
+            {FILTERS.map(({ id, label }) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => setFilter(id)}
+                className={`px-2.5 py-1 rounded-full text-xs font-medium ${
+                  filter === id ? 'bg-[#4E4B43] text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100 max-h-[640px] overflow-y-auto">
+            {threads.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-500">No conversations</p>
+            ) : (
+              threads.map((t) => (
+                <button
+                  key={t.phone_number}
+                  type="button"
+                  onClick={() => setSelectedPhone(t.phone_number)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${
+                    selectedPhone === t.phone_number ? 'bg-gray-50' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900">{formatPhoneForDisplay(t.phone_number)}</span>
+                    <span className="text-xs text-gray-400">{formatDateTime(t.last_activity_at)}</span>
+                  </div>
+                  <p className="text-xs text-gray-600 mt-1 truncate">
+                    {t.last_direction === 'outbound' && <span className="text-gray-400">You: </span>}
+                    {t.last_message_body || '—'}
+                  </p>
+                  <div className="flex flex-wrap gap-1 mt-1.5">
+                    {t.open_conversations > 0 && (
+                      <span className="text-[11px] px-1.5 py-0.5 rounded bg-amber-50 text-amber-700">
+                        {humanize(t.latest_state)}
+                      </span>
+                    )}
+                    {t.last_direction === 'inbound' && (
+                      <span className="text-[11px] px-1.5 py-0.5 rounded bg-blue-50 text-blue-700">Unanswered</span>
+                    )}
+                    {t.failed_count > 0 && (
+                      <span className="text-[11px] px-1.5 py-0.5 rounded bg-red-50 text-red-700">
+                        {t.failed_count} failed
+                      </span>
+                    )}
+                    {t.opted_out && (
+                      <span className="text-[11px] px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">Opted out</span>
+                    )}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="lg:col-span-2">
+          {!selectedPhone ? (
+            <div className="bg-white rounded-lg border border-gray-200 px-4 py-16 text-center text-sm text-gray-500">
+              Pick a number to see its conversation.
+            </div>
+          ) : detailLoading && !detail ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#4E4B43] mx-auto" />
+            </div>
+          ) : detail ? (
+            <div className="space-y-4">
+              <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <h3 className="text-base font-semibold text-gray-900">{formatPhoneForDisplay(selectedPhone)}</h3>
+                  {selectedThread?.opted_out && (
+                    <span className="flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                      <Ban className="w-3 h-3" />
+                      Opted out
+                    </span>
+                  )}
+                </div>
+
+                {detail.listings.length > 0 && (
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 mb-1">Linked listings</p>
+                    <ul className="space-y-1">
+                      {detail.listings.map((l) => (
+                        <li key={l.id} className="flex items-center justify-between gap-2 text-sm">
+                          <a
+                            href={l.is_commercial ? `/commercial-listing/${l.id}` : `/listing/${l.id}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-gray-800 hover:underline truncate"
+                          >
+                            {l.title}
+                          </a>
+                          <span className="flex items-center gap-3 shrink-0">
+                            <span className={`text-xs ${l.is_active ? 'text-green-700' : 'text-gray-400'}`}>
+                              {l.is_active ? `Active · expires ${formatDateTime(l.expires_at)}` : 'Inactive'}
+                            </span>
+                            {l.is_active && (
+                              <button
+                                type="button"
+                                onClick={() => handleResend(l.id)}
+                                disabled={busy !== null || selectedThread?.opted_out}
+                                className="text-xs font-medium text-[#4E4B43] hover:underline disabled:opacity-50"
+                              >
+                                {busy === `resend:${l.id}` ? 'Sending...' : 'Re-send reminder'}
+                              </button>
+                            )}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+
+              {detail.conversations.length > 0 && (
+                <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium text-gray-600">Conversation</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-600">State</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-600 hidden md:table-cell">Outcome</th>
+                        <th className="px-4 py-2" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {detail.conversations.map((c) => (
+                        <tr key={c.id}>
+                          <td className="px-4 py-2.5">
+                            <span className="font-medium text-gray-800 capitalize">{humanize(c.conversation_type)}</span>
+                            {c.total_in_batch && (
+                              <span className="text-xs text-gray-400"> · {c.listing_index}/{c.total_in_batch}</span>
+                            )}
+                            <p className="text-xs text-gray-400">{formatDateTime(c.created_at)}</p>
+                          </td>
+                          <td className="px-4 py-2.5">
+                            <span className={`text-xs font-medium px-2 py-1 rounded-full ${
+                              isOpen(c) ? 'bg-amber-50 text-amber-700' :
+                              c.state === 'error' ? 'bg-red-50 text-red-700' :
+                              'bg-gray-100 text-gray-600'
+                            }`}>
+                              {humanize(c.state)}
+                            </span>
+                          </td>
+                          <td className="px-4 py-2.5 text-xs text-gray-600 hidden md:table-cell">
+                            {humanize(c.action_taken)}
+                            {c.resolved_by && <span className="text-gray-400"> · by admin</span>}
+                          </td>
+                          <td className="px-4 py-2.5 text-right whitespace-nowrap">
+                            {c.listing_id && (
+                              <span className="inline-flex gap-3">
+                                <button
+                                  type="button"
+                                  onClick={() => handleResolve(c, 'renew')}
+                                  disabled={busy !== null}
+                                  className="flex items-center gap-1 text-xs font-medium text-green-700 hover:text-green-900 disabled:opacity-50"
+                                >
+                                  <Check className="w-3.5 h-3.5" />
+                                  Renew
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => handleResolve(c, 'deactivate')}
+                                  disabled={busy !== null}
+                                  className="flex items-center gap-1 text-xs font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+                                >
+                                  <XCircle className="w-3.5 h-3.5" />
+                                  Deactivate
+                                </button>
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="bg-white rounded-lg border border-gray-200 p-4">
+                <div className="space-y-3 max-h-[480px] overflow-y-auto">
+                  {detail.messages.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-4">No messages logged for this number.</p>
+                  ) : (
+                    detail.messages.map((m) => (
+                      <div key={m.id} className={`flex ${m.direction === 'outbound' ? 'justify-end' : 'justify-start'}`}>
+                        <div className="max-w-[80%]">
+                          <div
+                            className={`rounded-lg px-3 py-2 text-sm whitespace-pre-wrap ${
+                              m.direction === 'outbound' ? 'bg-[#4E4B43] text-white' : 'bg-gray-100 text-gray-900'
+                            }`}
+                          >
+                            {m.message_body}
+                          </div>
+                          <p className={`text-[11px] text-gray-400 mt-0.5 ${m.direction === 'outbound' ? 'text-right' : ''}`}>
+                            {formatDateTime(m.created_at)}
+                            {m.channel === 'whatsapp' && ' · WhatsApp'}
+                            {m.message_source && ` · ${SMS_MESSAGE_SOURCE_LABELS[m.message_source] ?? humanize(m.message_source)}`}
+                            {m.direction === 'outbound' && (
+                              <span className={`ml-1.5 px-1.5 py-0.5 rounded ${statusClass(m.status)}`}>{m.status ?? 'sent'}</span>
+                            )}
+                          </p>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                <form onSubmit={handleSend} className="mt-4 border-t border-gray-100 pt-4 space-y-2">
+                  {selectedThread?.opted_out ? (
+                    <p className="flex items-center gap-1.5 text-sm text-gray-500">
+                      <Ban className="w-4 h-4" />
+                      This number opted out; it can't be texted until it replies START.
+                    </p>
+                  ) : (
+                    <>
+                      <textarea
+                        value={reply}
+                        onChange={(e) => setReply(e.target.value)}
+                        rows={3}
+                        maxLength={1600}
+                        placeholder="Write a reply..."
+                        className="w-full text-sm border border-gray-300 rounded-md px-3 py-2 focus:ring-1 focus:ring-[#4E4B43] focus:border-[#4E4B43] outline-none"
+                      />
+                      <div className="flex items-center justify-between gap-3">
+                        <span className="flex items-center gap-1 text-xs text-gray-500">
+                          {segments.encoding === 'UCS-2' && <AlertTriangle className="w-3.5 h-3.5 text-amber-500" />}
+                          {segments.length} chars · {segments.segments} segment{segments.segments === 1 ? '' : 's'} ·{' '}
+                          {segments.encoding}
+                        </span>
+                        <button
+                          type="submit"
+                          disabled={busy !== null || !reply.trim()}
+                          className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-white bg-[#4E4B43] rounded-md hover:bg-[#3d3a34] disabled:opacity-50"
+                        >
+                          <Send className="w-4 h-4" />
+                          {busy === 'reply' ? 'Sending...' : 'Send'}
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </form>
+              </div>
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
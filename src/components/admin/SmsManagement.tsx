@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { Ban, Clock, FileText, Inbox, Send } from 'lucide-react';
+import { SmsInbox } from './SmsInbox';
+import { SmsTemplateManagement } from './SmsTemplateManagement';
+import { SmsOptOutManagement } from './SmsOptOutManagement';
+import { SendWindowSettings } from './SendWindowSettings';
+import { MessageOutbox } from './MessageOutbox';
+
+type SubTab = 'inbox' | 'templates' | 'opt-outs' | 'send-window' | 'outbox';
+
+const SUB_TABS: { id: SubTab; label: string; icon: React.ElementType }[] = [
+  { id: 'inbox', label: 'Inbox', icon: Inbox },
+  { id: 'templates', label: 'Templates', icon: FileText },
+  { id: 'opt-outs', label: 'Opt-outs', icon: Ban },
+  { id: 'send-window', label: 'Send window', icon: Clock },
+  { id: 'outbox', label: 'Outbox', icon: Send },
+];
+
+export function SmsManagement() {
+  const [subTab, setSubTab] = useState<SubTab>('inbox');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
+        {SUB_TABS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => setSubTab(id)}
+            className={`flex items-center gap-1.5 px-3 py-2 rounded-md text-xs font-medium transition-all flex-1 justify-center ${
+              subTab === id
+                ? 'bg-white text-gray-900 shadow-sm'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <Icon className="w-3.5 h-3.5" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {subTab === 'inbox' && <SmsInbox />}
+      {subTab === 'templates' && <SmsTemplateManagement />}
+      {subTab === 'opt-outs' && <SmsOptOutManagement />}
+      {subTab === 'send-window' && <SendWindowSettings />}
+      {subTab === 'outbox' && <MessageOutbox />}
+    </div>
+  );
+}
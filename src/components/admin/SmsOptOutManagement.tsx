@@ -0,0 +1,253 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Ban, ChevronDown, ChevronRight, Plus, Search } from 'lucide-react';
+import { smsConsentService, toE164 } from '@/services/smsConsent';
+import { formatPhoneForDisplay } from '@/utils/phone';
+import { useAuth } from '@/hooks/useAuth';
+import { SMS_CONSENT_REASON_LABELS } from '@/types/smsConsent';
+import type { SmsConsent, SmsConsentEvent } from '@/types/smsConsent';
+
+const formatDateTime = (iso: string | null) =>
+  iso
+    ? new Date(iso).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      })
+    : '—';
+
+export function SmsOptOutManagement() {
+  const { user } = useAuth();
+  const [numbers, setNumbers] = useState<SmsConsent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [history, setHistory] = useState<SmsConsentEvent[]>([]);
+  const [newPhone, setNewPhone] = useState('');
+  const [newNote, setNewNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadNumbers = useCallback(async () => {
+    try {
+      setNumbers(await smsConsentService.getOptedOutNumbers());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load SMS opt-outs:', err);
+      setError('Failed to load opted-out numbers.');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadNumbers();
+  }, [loadNumbers]);
+
+  const toggleHistory = async (phoneNumber: string) => {
+    if (expanded === phoneNumber) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(phoneNumber);
+    setHistory([]);
+    try {
+      setHistory(await smsConsentService.getHistory(phoneNumber));
+    } catch (err) {
+      console.error('Failed to load SMS consent history:', err);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    const phoneNumber = toE164(newPhone);
+    if (!phoneNumber) {
+      setError('Enter a 10-digit US phone number.');
+      return;
+    }
+    setSaving(true);
+    try {
+      await smsConsentService.optOut(phoneNumber, newNote, user.id);
+      setNewPhone('');
+      setNewNote('');
+      await loadNumbers();
+    } catch (err) {
+      console.error('Failed to opt out number:', err);
+      setError('Failed to opt out this number.');
+    }
+    setSaving(false);
+  };
+
+  const handleOptIn = async (phoneNumber: string) => {
+    if (!user) return;
+    const note = window.prompt(
+      `Remove the opt-out for ${formatPhoneForDisplay(phoneNumber)}? Only do this when the number's owner asked to get texts again.\n\nReason:`,
+    );
+    if (note === null) return;
+    try {
+      await smsConsentService.optIn(phoneNumber, note, user.id);
+      if (expanded === phoneNumber) setExpanded(null);
+      await loadNumbers();
+    } catch (err) {
+      console.error('Failed to remove opt-out:', err);
+      setError('Failed to remove the opt-out.');
+    }
+  };
+
+  const query = search.replace(/\D/g, '');
+  const filtered = query ? numbers.filter((n) => n.phone_number.includes(query)) : numbers;
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#4E4B43] mx-auto" />
+        <p className="text-gray-600 mt-4">Loading SMS opt-outs...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-[#4E4B43] flex items-center gap-2">
+          <Ban className="w-5 h-5" />
+          SMS opt-outs
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Numbers that replied STOP, were blocked by their carrier, or were added here never get texts from
+          Hadirot. Replying START removes the opt-out.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700">{error}</div>
+      )}
+
+      <form onSubmit={handleAdd} className="bg-white rounded-lg border border-gray-200 p-4 flex flex-col md:flex-row gap-3">
+        <input
+          type="tel"
+          value={newPhone}
+          onChange={(e) => setNewPhone(e.target.value)}
+          placeholder="Phone number"
+          className="text-sm border border-gray-300 rounded-md px-3 py-2 md:w-48 focus:ring-1 focus:ring-[#4E4B43] focus:border-[#4E4B43] outline-none"
+        />
+        <input
+          type="text"
+          value={newNote}
+          onChange={(e) => setNewNote(e.target.value)}
+          maxLength={500}
+          placeholder="Note (e.g. asked by email to stop texts)"
+          className="text-sm border border-gray-300 rounded-md px-3 py-2 flex-1 focus:ring-1 focus:ring-[#4E4B43] focus:border-[#4E4B43] outline-none"
+        />
+        <button
+          type="submit"
+          disabled={saving || !newPhone.trim()}
+          className="flex items-center justify-center gap-1.5 px-4 py-2 text-sm font-medium text-white bg-[#4E4B43] rounded-md hover:bg-[#3d3a34] disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          {saving ? 'Adding...' : 'Opt out number'}
+        </button>
+      </form>
+
+      <div className="relative max-w-xs">
+        <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search numbers"
+          className="w-full text-sm border border-gray-300 rounded-md pl-9 pr-3 py-1.5 focus:ring-1 focus:ring-[#4E4B43] focus:border-[#4E4B43] outline-none"
+        />
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-4 py-2.5 text-left font-medium text-gray-600">Number</th>
+              <th className="px-4 py-2.5 text-left font-medium text-gray-600">Reason</th>
+              <th className="px-4 py-2.5 text-left font-medium text-gray-600 hidden md:table-cell">Details</th>
+              <th className="px-4 py-2.5 text-left font-medium text-gray-600">Opted out</th>
+              <th className="px-4 py-2.5" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {filtered.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-gray-500">No opted-out numbers</td>
+              </tr>
+            ) : (
+              filtered.map((n) => (
+                <React.Fragment key={n.phone_number}>
+                  <tr className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <button
+                        type="button"
+                        onClick={() => toggleHistory(n.phone_number)}
+                        className="flex items-center gap-1 font-medium text-gray-900"
+                      >
+                        {expanded === n.phone_number ? (
+                          <ChevronDown className="w-4 h-4 text-gray-400" />
+                        ) : (
+                          <ChevronRight className="w-4 h-4 text-gray-400" />
+                        )}
+                        {formatPhoneForDisplay(n.phone_number)}
+                      </button>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`text-xs font-medium px-2 py-1 rounded-full ${
+                        n.reason === 'carrier' ? 'bg-amber-50 text-amber-700' :
+                        n.reason === 'admin' ? 'bg-blue-50 text-blue-700' :
+                        'bg-gray-100 text-gray-700'
+                      }`}>
+                        {n.reason ? SMS_CONSENT_REASON_LABELS[n.reason] : '—'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 hidden md:table-cell text-xs text-gray-600">
+                      {n.keyword ? `"${n.keyword.toUpperCase()}"` : n.note || '—'}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-500">{formatDateTime(n.opted_out_at)}</td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        type="button"
+                        onClick={() => handleOptIn(n.phone_number)}
+                        className="text-xs font-medium text-gray-500 hover:text-gray-800"
+                      >
+                        Remove opt-out
+                      </button>
+                    </td>
+                  </tr>
+                  {expanded === n.phone_number && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={5} className="px-4 py-3">
+                        {history.length === 0 ? (
+                          <p className="text-xs text-gray-500">Loading history...</p>
+                        ) : (
+                          <ul className="space-y-1">
+                            {history.map((event) => (
+                              <li key={event.id} className="text-xs text-gray-600">
+                                <span className="font-medium text-gray-800">
+                                  {event.action === 'opt_out' ? 'Opted out' : 'Opted in'}
+                                </span>
+                                {' · '}
+                                {formatDateTime(event.created_at)}
+                                {event.reason && ` · ${SMS_CONSENT_REASON_LABELS[event.reason]}`}
+                                {event.keyword && ` ("${event.keyword.toUpperCase()}")`}
+                                {event.note && ` · ${event.note}`}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AlertTriangle, History, MessageSquare, RotateCcw, Save, Search } from 'lucide-react';
+import { smsTemplatesService } from '@/services/smsTemplates';
+import { useAuth } from '@/hooks/useAuth';
+import { canonicalOrigin } from '@/utils/url';
+import {
+  analyzeSmsSegments,
+  buildPreviewVariables,
+  findPlaceholders,
+  renderSmsTemplate,
+  type PreviewListing,
+} from '@/utils/smsTemplates';
+import { SMS_TEMPLATE_VARIABLES } from '@/types/smsTemplates';
+import type { SmsTemplate, SmsTemplateVersion } from '@/types/smsTemplates';
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const describePreviewListing = (l: PreviewListing) => {
+  const place =
+    l.cross_street_a && l.cross_street_b ? `${l.cross_street_a} & ${l.cross_street_b}` : l.location || l.neighborhood;
+  return `${l.bedrooms === 0 ? 'Studio' : `${l.bedrooms} bd`} · ${place}`;
+};
+
+export function SmsTemplateManagement() {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<SmsTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [versions, setVersions] = useState<SmsTemplateVersion[]>([]);
+  const [listingQuery, setListingQuery] = useState('');
+  const [listingResults, setListingResults] = useState<PreviewListing[]>([]);
+  const [previewListing, setPreviewListing] = useState<PreviewListing | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const selected = templates.find((t) => t.key === selectedKey) ?? null;
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const data = await smsTemplatesService.getTemplates();
+      setTemplates(data);
+      setSelectedKey((current) => current ?? data[0]?.key ?? null);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load SMS templates:', err);
+      setError('Failed to load SMS templates.');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const loadVersions = useCallback(async (key: string) => {
+    try {
+      setVersions(await smsTemplatesService.getVersions(key));
+    } catch (err) {
+      console.error('Failed to load SMS template history:', err);
+    }
+  }, []);
+
+  // Only reset the editor when switching templates, not after every save.
+  useEffect(() => {
+    if (!selected) return;
+    setDraft(selected.body);
+    setNote('');
+    loadVersions(selected.key);
+  }, [selected?.key, loadVersions]);
+
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      try {
+        setListingResults(await smsTemplatesService.searchPreviewListings(listingQuery));
+      } catch (err) {
+        console.error('Failed to search preview listings:', err);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [listingQuery]);
+
+  const previewVars = useMemo(() => buildPreviewVariables(previewListing, canonicalOrigin()), [previewListing]);
+  const preview = useMemo(() => renderSmsTemplate(draft, previewVars), [draft, previewVars]);
+  const segments = useMemo(() => analyzeSmsSegments(preview), [preview]);
+  const unknownPlaceholders = useMemo(
+    () => (selected ? findPlaceholders(draft).filter((p) => !selected.variables.includes(p)) : []),
+    [draft, selected],
+  );
+  const dirty = !!selected && draft !== selected.body;
+
+  const insertVariable = (name: string) => {
+    const el = textareaRef.current;
+    const token = `{{${name}}}`;
+    if (!el) {
+      setDraft((d) => d + token);
+      return;
+    }
+    const start = el.selectionStart;
+    const end = el.selectionEnd;
+    setDraft(draft.slice(0, start) + token + draft.slice(end));
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const replaceTemplate = (updated: SmsTemplate) => {
+    setTemplates((prev) => prev.map((t) => (t.key === updated.key ? updated : t)));
+    setDraft(updated.body);
+    setNote('');
+    loadVersions(updated.key);
+  };
+
+  const handleSave = async () => {
+    if (!user || !selected) return;
+    if (!draft.trim()) {
+      setError('The message can\'t be empty.');
+      return;
+    }
+    if (unknownPlaceholders.length > 0) {
+      setError(`This message can't use ${unknownPlaceholders.map((p) => `{{${p}}}`).join(', ')}.`);
+      return;
+    }
+    setSaving(true);
+    try {
+      replaceTemplate(await smsTemplatesService.updateBody(selected.key, draft, note, user.id));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to save SMS template:', err);
+      setError('Failed to save the template.');
+    }
+    setSaving(false);
+  };
+
+  const handleRollback = async (version: SmsTemplateVersion) => {
+    if (!user || !selected) return;
+    if (!window.confirm(`Restore v${version.version} of "${selected.name}"? It goes live on the next send.`)) return;
+    try {
+      replaceTemplate(await smsTemplatesService.rollback(selected, version, user.id));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to roll back SMS template:', err);
+      setError('Failed to restore that version.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#4E4B43] mx-auto" />
+        <p className="text-gray-600 mt-4">Loading SMS templates...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-[#4E4B43] flex items-center gap-2">
+          <MessageSquare className="w-5 h-5" />
+          SMS templates
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Wording for the automated texts. Changes go live within a minute; every save is kept as a version you
+          can restore. A line is left out when one of its variables is blank.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <nav className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100 self-start">
+          {templates.map((t) => (
+            <button
+              key={t.key}
+              type="button"
+              onClick={() => setSelectedKey(t.key)}
+              className={`w-full text-left px-4 py-3 text-sm ${
+                t.key === selectedKey ? 'bg-gray-50 font-medium text-gray-900' : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {t.name}
+              <span className="block text-xs text-gray-400 font-normal">v{t.version}</span>
+            </button>
+          ))}
+        </nav>
+
+        {selected && (
+          <div className="lg:col-span-3 space-y-6">
+            <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+              <div>
+                <h3 className="font-medium text-gray-900">{selected.name}</h3>
+                {selected.description && <p className="text-xs text-gray-500 mt-0.5">{selected.description}</p>}
+              </div>
+
+              <textarea
+                ref={textareaRef}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={6}
+                maxLength={1600}
+                className="w-full text-sm font-mono border border-gray-300 rounded-md px-3 py-2 focus:ring-1 focus:ring-[#4E4B43] focus:border-[#4E4B43] outline-none"
+              />
+
+              <div className="flex flex-wrap gap-1.5">
+                {selected.variables.map((name) => (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => insertVariable(name)}
+                    title={SMS_TEMPLATE_VARIABLES[name]?.label ?? name}
+                    className="text-xs font-mono px-2 py-1 rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  >
+                    {`{{${name}}}`}
+                  </button>
+                ))}
+              </div>
+
+              {unknownPlaceholders.length > 0 && (
+                <p className="text-xs text-red-600 flex items-center gap-1">
+                  <AlertTriangle className="w-3.5 h-3.5" />
+                  Not available in this message: {unknownPlaceholders.map((p) => `{{${p}}}`).join(', ')}
+                </p>
+              )}
+
+              <div className="flex flex-col md:flex-row gap-3">
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  maxLength={200}
+                  placeholder="What changed (optional)"
+                  className="text-sm border border-gray-300 rounded-md px-3 py-2 flex-1 focus:ring-1 focus:ring-[#4E4B43] focus:border-[#4E4B43] outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={() => setDraft(selected.body)}
+                  disabled={!dirty || saving}
+                  className="px-4 py-2 text-sm font-medium text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Discard
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={!dirty || saving}
+                  className="flex items-center justify-center gap-1.5 px-4 py-2 text-sm font-medium text-white bg-[#4E4B43] rounded-md hover:bg-[#3d3a34] disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" />
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <h3 className="font-medium text-gray-900">Preview</h3>
+                <div className="relative md:w-72">
+                  <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                  <input
+                    type="text"
+                    value={listingQuery}
+                    onChange={(e) => setListingQuery(e.target.value)}
+                    placeholder="Preview with a listing..."
+                    className="w-full text-sm border border-gray-300 rounded-md pl-9 pr-3 py-1.5 focus:ring-1 focus:ring-[#4E4B43] focus:border-[#4E4B43] outline-none"
+                  />
+                </div>
+              </div>
+
+              {listingResults.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {listingResults.map((l) => (
+                    <button
+                      key={l.id}
+                      type="button"
+                      onClick={() => setPreviewListing(previewListing?.id === l.id ? null : l)}
+                      className={`text-xs px-2 py-1 rounded-full border ${
+                        previewListing?.id === l.id
+                          ? 'border-[#4E4B43] bg-[#4E4B43] text-white'
+                          : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      {describePreviewListing(l)}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <div className="rounded-lg bg-gray-100 px-4 py-3 text-sm text-gray-900 whitespace-pre-wrap max-w-md">
+                {preview || <span className="text-gray-400">Empty message</span>}
+              </div>
+
+              <p className="text-xs text-gray-500">
+                {segments.length} characters · {segments.encoding} · {segments.segments} segment
+                {segments.segments === 1 ? '' : 's'} ({segments.perSegment} characters each)
+                {!previewListing && ' · sample values'}
+              </p>
+              {segments.encoding === 'UCS-2' && (
+                <p className="text-xs text-amber-700 flex items-center gap-1">
+                  <AlertTriangle className="w-3.5 h-3.5" />
+                  {segments.nonGsmChars.map((c) => `"${c}"`).join(' ')} isn&apos;t in the GSM-7 set, so every segment
+                  drops to 70 characters. Replace it to cut the cost.
+                </p>
+              )}
+              {segments.segments > 2 && (
+                <p className="text-xs text-amber-700 flex items-center gap-1">
+                  <AlertTriangle className="w-3.5 h-3.5" />
+                  This text is billed as {segments.segments} messages.
+                </p>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <h3 className="font-medium text-gray-900 flex items-center gap-1.5 mb-3">
+                <History className="w-4 h-4" />
+                Versions
+              </h3>
+              <ul className="divide-y divide-gray-100">
+                {versions.map((v) => (
+                  <li key={v.id} className="py-2 flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-xs text-gray-500">
+                        <span className="font-medium text-gray-800">v{v.version}</span>
+                        {' · '}
+                        {formatDateTime(v.created_at)}
+                        {v.change_note && ` · ${v.change_note}`}
+                      </p>
+                      <p className="text-xs text-gray-600 whitespace-pre-wrap mt-1 line-clamp-3">{v.body}</p>
+                    </div>
+                    {v.version !== selected.version && (
+                      <button
+                        type="button"
+                        onClick={() => handleRollback(v)}
+                        className="flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-gray-800 shrink-0"
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                        Restore
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
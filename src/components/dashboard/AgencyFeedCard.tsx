@@ -0,0 +1,166 @@
+// AgencyFeedCard — Agency Settings card for getting listings out of Hadirot:
+// a CSV/JSON export and the token-protected XML syndication feed
+// (agency-listing-feed edge function). The feed URL is only shown once a
+// token has been issued; regenerating it breaks the old URL, so that asks
+// for confirmation first.
+
+import { useEffect, useState } from 'react';
+import { Copy, Loader2, RefreshCw, Rss } from 'lucide-react';
+import type { Agency } from '../../config/supabase';
+import { listingExportService } from '../../services/listingExport';
+import { ConfirmDialog } from '../shared/ConfirmDialog';
+import { ListingExportMenu } from './ListingExportMenu';
+
+export interface AgencyFeedCardProps {
+  agency: Agency;
+  canEdit: boolean;
+}
+
+export function AgencyFeedCard({ agency, canEdit }: AgencyFeedCardProps) {
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    listingExportService
+      .getFeedToken(agency.id)
+      .then((t) => {
+        if (!cancelled) setToken(t);
+      })
+      .catch((e) => {
+        console.error('Failed to load feed token:', e);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [agency.id]);
+
+  useEffect(() => {
+    if (!feedback) return;
+    const timeout = window.setTimeout(() => setFeedback(null), 2500);
+    return () => window.clearTimeout(timeout);
+  }, [feedback]);
+
+  const feedUrl = token ? listingExportService.getFeedUrl(agency.slug, token) : '';
+
+  const handleGenerate = async () => {
+    setConfirmOpen(false);
+    setBusy(true);
+    setErr(null);
+    try {
+      const next = await listingExportService.regenerateFeedToken(agency.id);
+      setToken(next);
+      setFeedback(token ? 'New link created — the old one no longer works.' : 'Feed link created.');
+    } catch (e) {
+      console.error('Failed to regenerate feed token:', e);
+      setErr('Could not create the feed link. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setFeedback('Feed link copied!');
+    } catch {
+      setErr('Copy failed — select the link and copy it manually.');
+    }
+  };
+
+  return (
+    <div className="mb-6 rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h2 className="text-sm font-semibold uppercase tracking-wide text-[#273140]">
+            Export &amp; Syndication
+          </h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Download all your rentals, sales and commercial listings, or share a live XML feed with other sites.
+          </p>
+        </div>
+        <ListingExportMenu userId={agency.owner_profile_id} filePrefix={agency.name} />
+      </div>
+
+      <div className="mt-5 border-t border-gray-100 pt-4">
+        <div className="flex items-center gap-2 text-sm font-medium text-[#273140]">
+          <Rss className="h-4 w-4" />
+          Listing feed (XML)
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          RESO-style XML of your active listings, refreshed every 15 minutes. Anyone with the link can read it.
+        </p>
+
+        {loading ? (
+          <div className="mt-3 text-sm text-gray-500">Loading…</div>
+        ) : token ? (
+          <div className="mt-3 flex flex-col gap-2 sm:flex-row sm:items-center">
+            <input
+              type="text"
+              readOnly
+              value={feedUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 rounded-md border border-gray-300 bg-gray-50 px-3 py-2 font-mono text-xs text-gray-700"
+            />
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={handleCopy}
+                className="inline-flex items-center gap-2 rounded-md border border-[#273140] bg-white px-3 py-2 text-sm font-medium text-[#273140] shadow-sm transition-colors hover:bg-[#f3f4f6]"
+              >
+                <Copy className="h-4 w-4" />
+                Copy
+              </button>
+              {canEdit && (
+                <button
+                  type="button"
+                  onClick={() => setConfirmOpen(true)}
+                  disabled={busy}
+                  className="inline-flex items-center gap-2 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm transition-colors hover:bg-gray-50 disabled:opacity-60"
+                >
+                  {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                  Regenerate
+                </button>
+              )}
+            </div>
+          </div>
+        ) : canEdit ? (
+          <button
+            type="button"
+            onClick={handleGenerate}
+            disabled={busy}
+            className="mt-3 inline-flex items-center gap-2 rounded-md bg-brand-700 px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-brand-800 disabled:opacity-60"
+          >
+            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Rss className="h-4 w-4" />}
+            Create feed link
+          </button>
+        ) : (
+          <p className="mt-3 text-sm text-gray-500">No feed link has been created yet.</p>
+        )}
+
+        {feedback && <p className="mt-2 text-xs text-green-700">{feedback}</p>}
+        {err && <p className="mt-2 text-xs text-red-600">{err}</p>}
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmOpen}
+        onClose={() => setConfirmOpen(false)}
+        onConfirm={handleGenerate}
+        title="Regenerate feed link?"
+        message="Sites using the current link will stop receiving your listings until you give them the new one."
+        confirmText="Regenerate"
+        severity="warning"
+        loading={busy}
+      />
+    </div>
+  );
+}
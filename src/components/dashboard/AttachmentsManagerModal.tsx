@@ -0,0 +1,343 @@
+// AttachmentsManagerModal — floor plans, documents and virtual tour links on
+// one listing.
+//
+// Opened from a listing row's overflow menu on the dashboard. Files upload to
+// the owner's temp folder and are attached by finalize-listing-attachments,
+// which re-validates them server-side (services/listingAttachments.ts).
+// Image floor plans appear in the listing carousel's "Floor plan" tab; PDFs
+// and documents are listed on the listing page, optionally behind sign-in.
+
+import { useEffect, useRef, useState } from 'react';
+import { Box, FileText, LayoutGrid, Loader2, Lock, Paperclip, Plus, Trash2, Upload, X } from 'lucide-react';
+import type { ListingAttachment } from '../../types/attachments';
+import { ATTACHMENT_KIND_LABELS } from '../../types/attachments';
+import {
+  ATTACHMENT_ACCEPT,
+  formatFileSize,
+  listingAttachmentsService,
+  MAX_DOCUMENT_BYTES,
+  MAX_FLOOR_PLAN_BYTES,
+} from '../../services/listingAttachments';
+import { gaEvent } from '../../lib/ga';
+
+export interface AttachmentsManagerModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** The listing being managed. Null hides the modal. */
+  listing: { id: string; title: string; isCommercial: boolean } | null;
+  userId?: string;
+}
+
+type UploadKind = 'floor_plan' | 'document';
+
+export function AttachmentsManagerModal({ open, onClose, listing, userId }: AttachmentsManagerModalProps) {
+  const [attachments, setAttachments] = useState<ListingAttachment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [rejected, setRejected] = useState<string[]>([]);
+  const [uploadKind, setUploadKind] = useState<UploadKind>('floor_plan');
+  const [requiresLogin, setRequiresLogin] = useState(false);
+  const [tourUrl, setTourUrl] = useState('');
+  const [tourTitle, setTourTitle] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open || !listing) return;
+    let cancelled = false;
+    setErr(null);
+    setRejected([]);
+    setTourUrl('');
+    setTourTitle('');
+    setLoading(true);
+    listingAttachmentsService
+      .getAttachments(listing.id, listing.isCommercial)
+      .then((rows) => {
+        if (!cancelled) setAttachments(rows);
+      })
+      .catch((e) => {
+        console.error('Failed to load listing attachments:', e);
+        if (!cancelled) setErr('Could not load attachments.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, listing?.id, listing?.isCommercial]);
+
+  if (!open || !listing) return null;
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0 || !userId) return;
+    setErr(null);
+    setRejected([]);
+
+    const maxBytes = uploadKind === 'floor_plan' ? MAX_FLOOR_PLAN_BYTES : MAX_DOCUMENT_BYTES;
+    const files = Array.from(fileList);
+    const tooBig = files.filter((f) => f.size > maxBytes);
+    if (tooBig.length > 0) {
+      setErr(`${tooBig.map((f) => f.name).join(', ')} is over the ${maxBytes / (1024 * 1024)}MB limit.`);
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const result = await listingAttachmentsService.uploadAttachments(
+        listing.id,
+        listing.isCommercial,
+        userId,
+        files.map((file) => ({ file, kind: uploadKind, requiresLogin: uploadKind === 'document' && requiresLogin })),
+      );
+      setAttachments((prev) => [...prev, ...result.attachments]);
+      setRejected(result.errors);
+      if (result.attachments.length > 0) {
+        gaEvent('listing_attachment_added', {
+          listing_id: listing.id,
+          kind: uploadKind,
+          count: result.attachments.length,
+          is_commercial: listing.isCommercial,
+        });
+      }
+    } catch (e) {
+      console.error('Failed to upload listing attachments:', e);
+      setErr(e instanceof Error ? e.message : 'Could not upload the files. Please try again.');
+    } finally {
+      setBusy(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleAddTour = async () => {
+    setErr(null);
+    const url = tourUrl.trim();
+    if (!/^https?:\/\/\S+$/i.test(url)) {
+      setErr('Enter the full tour link, starting with https://');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const created = await listingAttachmentsService.addVirtualTour(listing.id, listing.isCommercial, url, tourTitle);
+      setAttachments((prev) => [...prev, created]);
+      setTourUrl('');
+      setTourTitle('');
+      gaEvent('listing_attachment_added', {
+        listing_id: listing.id,
+        kind: 'virtual_tour',
+        count: 1,
+        is_commercial: listing.isCommercial,
+      });
+    } catch (e) {
+      console.error('Failed to add virtual tour:', e);
+      setErr('Could not save the tour link. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleToggleLogin = async (attachment: ListingAttachment) => {
+    setErr(null);
+    setPendingId(attachment.id);
+    try {
+      await listingAttachmentsService.updateAttachment(attachment.id, { requires_login: !attachment.requires_login });
+      setAttachments((prev) =>
+        prev.map((a) => (a.id === attachment.id ? { ...a, requires_login: !a.requires_login } : a)),
+      );
+    } catch (e) {
+      console.error('Failed to update listing attachment:', e);
+      setErr('Could not update the attachment.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDelete = async (attachment: ListingAttachment) => {
+    setErr(null);
+    setPendingId(attachment.id);
+    try {
+      await listingAttachmentsService.deleteAttachment(attachment);
+      setAttachments((prev) => prev.filter((a) => a.id !== attachment.id));
+    } catch (e) {
+      console.error('Failed to delete listing attachment:', e);
+      setErr('Could not remove the attachment.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const iconFor = (attachment: ListingAttachment) => {
+    if (attachment.kind === 'virtual_tour') return <Box className="h-4 w-4 flex-shrink-0 text-gray-500" />;
+    if (attachment.kind === 'floor_plan') return <LayoutGrid className="h-4 w-4 flex-shrink-0 text-gray-500" />;
+    return <FileText className="h-4 w-4 flex-shrink-0 text-gray-500" />;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="relative w-full max-w-md rounded-xl bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3 border-b border-gray-200 p-4">
+          <div className="min-w-0">
+            <h3 className="flex items-center gap-2 text-lg font-semibold text-[#273140]">
+              <Paperclip className="h-5 w-5" />
+              Floor plans & documents
+            </h3>
+            <p className="mt-0.5 truncate text-sm text-gray-500" title={listing.title}>
+              {listing.title}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 transition-colors hover:text-gray-600"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="max-h-[75vh] overflow-y-auto p-4">
+          {loading ? (
+            <div className="py-4 text-center text-sm text-gray-500">Loading…</div>
+          ) : attachments.length === 0 ? (
+            <p className="rounded-lg bg-gray-50 px-3 py-3 text-sm text-gray-500">
+              Nothing attached yet. Floor plans show up next to your photos; documents are listed on the listing page.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+              {attachments.map((a) => (
+                <li key={a.id} className="flex items-start justify-between gap-3 px-3 py-2.5 text-sm">
+                  <div className="flex min-w-0 items-start gap-2">
+                    {iconFor(a)}
+                    <div className="min-w-0">
+                      <div className="truncate font-medium text-gray-900">{a.title || ATTACHMENT_KIND_LABELS[a.kind]}</div>
+                      <p className="mt-0.5 truncate text-xs text-gray-500">
+                        {a.kind === 'virtual_tour'
+                          ? a.url
+                          : [ATTACHMENT_KIND_LABELS[a.kind], formatFileSize(a.file_size)].filter(Boolean).join(' · ')}
+                      </p>
+                      {a.kind === 'document' && (
+                        <button
+                          type="button"
+                          onClick={() => handleToggleLogin(a)}
+                          disabled={pendingId === a.id}
+                          className="mt-1 inline-flex items-center gap-1 text-xs font-medium text-brand-700 hover:text-brand-800 disabled:opacity-50"
+                        >
+                          <Lock className="h-3 w-3" />
+                          {a.requires_login ? 'Signed-in visitors only' : 'Anyone can download'}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(a)}
+                    disabled={pendingId === a.id}
+                    className="flex-shrink-0 rounded p-1 text-gray-400 transition-colors hover:bg-red-50 hover:text-red-600 disabled:opacity-50"
+                    aria-label="Remove attachment"
+                  >
+                    {pendingId === a.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {err && <p className="mt-2 text-xs text-red-600">{err}</p>}
+
+          <div className="mt-5 space-y-3 border-t border-gray-100 pt-4">
+            <h4 className="text-sm font-semibold text-[#273140]">Upload files</h4>
+            <div className="flex rounded-md border border-gray-300 p-0.5 text-sm">
+              {(['floor_plan', 'document'] as const).map((kind) => (
+                <button
+                  key={kind}
+                  type="button"
+                  onClick={() => setUploadKind(kind)}
+                  className={`flex-1 rounded px-3 py-1.5 font-medium transition-colors ${
+                    uploadKind === kind ? 'bg-[#273140] text-white' : 'text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {ATTACHMENT_KIND_LABELS[kind]}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400">
+              {uploadKind === 'floor_plan'
+                ? 'JPG, PNG, WebP or PDF, up to 15MB. Images appear in a Floor plan tab next to your photos.'
+                : 'PDF or scanned image (rent roll, offering memorandum, C of O…), up to 25MB.'}
+            </p>
+            {uploadKind === 'document' && (
+              <label className="flex items-center gap-2 text-xs font-medium text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={requiresLogin}
+                  onChange={(e) => setRequiresLogin(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Only signed-in visitors can download
+              </label>
+            )}
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ATTACHMENT_ACCEPT}
+              multiple
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={busy || !userId}
+              className="inline-flex w-full items-center justify-center gap-2 rounded-md bg-brand-700 px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-brand-800 disabled:opacity-60"
+            >
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              Choose files
+            </button>
+
+            {rejected.length > 0 && (
+              <ul className="space-y-0.5 text-xs text-red-600">
+                {rejected.map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="mt-5 space-y-3 border-t border-gray-100 pt-4">
+            <h4 className="text-sm font-semibold text-[#273140]">Add a 3D / virtual tour link</h4>
+            <input
+              type="url"
+              value={tourUrl}
+              onChange={(e) => setTourUrl(e.target.value)}
+              placeholder="https://my.matterport.com/show/?m=…"
+              className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900"
+            />
+            <input
+              type="text"
+              value={tourTitle}
+              maxLength={120}
+              onChange={(e) => setTourTitle(e.target.value)}
+              placeholder="Label (optional)"
+              className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900"
+            />
+
+            <button
+              type="button"
+              onClick={handleAddTour}
+              disabled={busy || !tourUrl.trim()}
+              className="inline-flex w-full items-center justify-center gap-2 rounded-md border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:opacity-60"
+            >
+              <Plus className="h-4 w-4" />
+              Add tour link
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
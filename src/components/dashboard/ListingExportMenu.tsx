@@ -0,0 +1,96 @@
+// ListingExportMenu — "Export" button with a CSV / JSON choice.
+//
+// Pulls every listing the user posted (rentals, sales and commercial) via
+// listingExportService and downloads it as a file. Used on the dashboard
+// header and the Agency Settings feed card.
+
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Download, Loader2 } from 'lucide-react';
+import { listingExportService } from '../../services/listingExport';
+import { downloadTextFile, listingsToCsv, listingsToJson } from '../../utils/listingExport';
+import { todayISODate } from '../../utils/availability';
+import { gaEvent } from '../../lib/ga';
+
+export interface ListingExportMenuProps {
+  userId: string;
+  /** Used in the file name, e.g. "acme-realty-listings-2026-10-18.csv". */
+  filePrefix?: string;
+  className?: string;
+}
+
+type ExportFormat = 'csv' | 'json';
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'hadirot';
+}
+
+export function ListingExportMenu({ userId, filePrefix, className }: ListingExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setBusy(true);
+    setErr(null);
+    try {
+      const rows = await listingExportService.getExportRows(userId);
+      const fileName = `${slugify(filePrefix ?? 'hadirot')}-listings-${todayISODate()}.${format}`;
+      if (format === 'csv') {
+        downloadTextFile(fileName, listingsToCsv(rows), 'text/csv');
+      } else {
+        downloadTextFile(fileName, listingsToJson(rows), 'application/json');
+      }
+      gaEvent('listing_export', { format, count: rows.length });
+    } catch (e) {
+      console.error('Listing export failed:', e);
+      setErr('Export failed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className={`relative inline-block ${className ?? ''}`}>
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        disabled={busy}
+        className="inline-flex items-center gap-2 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm transition-colors hover:bg-gray-50 disabled:opacity-60"
+      >
+        {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        Export
+        <ChevronDown className="w-4 h-4" />
+      </button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-44 rounded-md border border-gray-200 bg-white py-1 shadow-lg">
+          <button
+            type="button"
+            onClick={() => handleExport('csv')}
+            className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+          >
+            CSV (Excel)
+          </button>
+          <button
+            type="button"
+            onClick={() => handleExport('json')}
+            className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+          >
+            JSON
+          </button>
+        </div>
+      )}
+      {err && <p className="absolute right-0 mt-1 whitespace-nowrap text-xs text-red-600">{err}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+// OpenHouseManagerModal — add / remove open-house slots on one sale listing.
+//
+// Opened from a sale (or commercial-sale) row on the dashboard. Slots are
+// saved as they're added; there's no separate "save" step. Times are entered
+// in New York time (see utils/openHouses.ts) and only upcoming slots are
+// listed — past ones stay in the table but drop off the listing page.
+
+import { useEffect, useState } from 'react';
+import { CalendarClock, Loader2, Plus, Trash2, X } from 'lucide-react';
+import type { OpenHouse } from '../../config/supabase';
+import { openHousesService } from '../../services/openHouses';
+import {
+  formatOpenHouseDay,
+  formatOpenHouseTimeRange,
+  nyLocalToISO,
+  todayInNewYork,
+} from '../../utils/openHouses';
+import { gaEvent } from '../../lib/ga';
+
+export interface OpenHouseManagerModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** The listing being scheduled. Null hides the modal. */
+  listing: { id: string; title: string; isCommercial: boolean } | null;
+  userId?: string;
+}
+
+const MAX_NOTES_LENGTH = 500;
+
+export function OpenHouseManagerModal({ open, onClose, listing, userId }: OpenHouseManagerModalProps) {
+  const [slots, setSlots] = useState<OpenHouse[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [date, setDate] = useState('');
+  const [startTime, setStartTime] = useState('13:00');
+  const [endTime, setEndTime] = useState('15:00');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (!open || !listing) return;
+    let cancelled = false;
+    setErr(null);
+    setDate('');
+    setNotes('');
+    setLoading(true);
+    openHousesService
+      .getUpcomingOpenHouses(listing.id, listing.isCommercial)
+      .then((rows) => {
+        if (!cancelled) setSlots(rows);
+      })
+      .catch((e) => {
+        console.error('Failed to load open houses:', e);
+        if (!cancelled) setErr('Could not load open houses.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, listing?.id, listing?.isCommercial]);
+
+  if (!open || !listing) return null;
+
+  const handleAdd = async () => {
+    setErr(null);
+    if (!date || !startTime || !endTime) {
+      setErr('Pick a date, start and end time.');
+      return;
+    }
+    const startsAt = nyLocalToISO(date, startTime);
+    const endsAt = nyLocalToISO(date, endTime);
+    if (new Date(endsAt).getTime() <= new Date(startsAt).getTime()) {
+      setErr('End time must be after the start time.');
+      return;
+    }
+    if (new Date(endsAt).getTime() <= Date.now()) {
+      setErr('That time has already passed.');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const created = await openHousesService.addOpenHouse({
+        listingId: listing.id,
+        isCommercial: listing.isCommercial,
+        startsAt,
+        endsAt,
+        notes,
+        createdBy: userId ?? null,
+      });
+      setSlots((prev) => [...prev, created].sort((a, b) => a.starts_at.localeCompare(b.starts_at)));
+      setDate('');
+      setNotes('');
+      gaEvent('open_house_added', { listing_id: listing.id, is_commercial: listing.isCommercial });
+    } catch (e) {
+      console.error('Failed to add open house:', e);
+      setErr('Could not save the open house. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setErr(null);
+    setDeletingId(id);
+    try {
+      await openHousesService.deleteOpenHouse(id);
+      setSlots((prev) => prev.filter((s) => s.id !== id));
+    } catch (e) {
+      console.error('Failed to delete open house:', e);
+      setErr('Could not remove the open house.');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="relative w-full max-w-md rounded-xl bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3 border-b border-gray-200 p-4">
+          <div className="min-w-0">
+            <h3 className="flex items-center gap-2 text-lg font-semibold text-[#273140]">
+              <CalendarClock className="h-5 w-5" />
+              Open houses
+            </h3>
+            <p className="mt-0.5 truncate text-sm text-gray-500" title={listing.title}>
+              {listing.title}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 transition-colors hover:text-gray-600"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="max-h-[75vh] overflow-y-auto p-4">
+          {loading ? (
+            <div className="py-4 text-center text-sm text-gray-500">Loading…</div>
+          ) : slots.length === 0 ? (
+            <p className="rounded-lg bg-gray-50 px-3 py-3 text-sm text-gray-500">
+              No upcoming open houses. Add one below and it will show on your listing.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+              {slots.map((slot) => (
+                <li key={slot.id} className="flex items-start justify-between gap-3 px-3 py-2.5 text-sm">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900">
+                      {formatOpenHouseDay(slot)} · {formatOpenHouseTimeRange(slot)}
+                    </div>
+                    {slot.notes && <p className="mt-0.5 break-words text-xs text-gray-500">{slot.notes}</p>}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(slot.id)}
+                    disabled={deletingId === slot.id}
+                    className="flex-shrink-0 rounded p-1 text-gray-400 transition-colors hover:bg-red-50 hover:text-red-600 disabled:opacity-50"
+                    aria-label="Remove open house"
+                  >
+                    {deletingId === slot.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="mt-5 space-y-3 border-t border-gray-100 pt-4">
+            <h4 className="text-sm font-semibold text-[#273140]">Add an open house</h4>
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+              <label className="col-span-2 text-xs font-medium text-gray-600 sm:col-span-1">
+                Date
+                <input
+                  type="date"
+                  value={date}
+                  min={todayInNewYork()}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900"
+                />
+              </label>
+              <label className="text-xs font-medium text-gray-600">
+                Starts
+                <input
+                  type="time"
+                  value={startTime}
+                  step={900}
+                  onChange={(e) => setStartTime(e.target.value)}
+                  className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900"
+                />
+              </label>
+              <label className="text-xs font-medium text-gray-600">
+                Ends
+                <input
+                  type="time"
+                  value={endTime}
+                  step={900}
+                  onChange={(e) => setEndTime(e.target.value)}
+                  className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900"
+                />
+              </label>
+            </div>
+            <label className="block text-xs font-medium text-gray-600">
+              Notes <span className="font-normal text-gray-400">(optional)</span>
+              <textarea
+                value={notes}
+                maxLength={MAX_NOTES_LENGTH}
+                rows={2}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g. Ring the side door, shoes off"
+                className="mt-1 w-full resize-none rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900"
+              />
+            </label>
+            <p className="text-xs text-gray-400">Times are New York time.</p>
+
+            {err && <p className="text-xs text-red-600">{err}</p>}
+
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={busy}
+              className="inline-flex w-full items-center justify-center gap-2 rounded-md bg-brand-700 px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-brand-800 disabled:opacity-60"
+            >
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Add open house
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
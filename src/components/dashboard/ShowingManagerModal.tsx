@@ -0,0 +1,344 @@
+// ShowingManagerModal — publish viewing availability on one listing and act
+// on the requests that come in.
+//
+// Opened from a listing row's overflow menu on the dashboard. Availability
+// windows are cut into equal slots that visitors book from the listing page
+// (ShowingRequestForm). Confirm / cancel here goes through the same
+// manage-showing function as the SMS link, so the visitor is notified either
+// way. Times are New York time (see utils/openHouses.ts).
+
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CalendarCheck, Loader2, Plus, Trash2, X } from 'lucide-react';
+import type { ShowingAvailability, ShowingRequest } from '../../types/showings';
+import { SHOWING_SLOT_MINUTE_OPTIONS, SHOWING_STATUS_LABELS } from '../../types/showings';
+import { showingsService } from '../../services/showings';
+import { formatOpenHouseDay, formatOpenHouseTimeRange, nyLocalToISO, todayInNewYork } from '../../utils/openHouses';
+import { formatShowingWhen } from '../../utils/showings';
+import { gaEvent } from '../../lib/ga';
+
+export interface ShowingManagerModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** The listing being managed. Null hides the modal. */
+  listing: { id: string; title: string; isCommercial: boolean } | null;
+  userId?: string;
+}
+
+export function ShowingManagerModal({ open, onClose, listing, userId }: ShowingManagerModalProps) {
+  const [windows, setWindows] = useState<ShowingAvailability[]>([]);
+  const [requests, setRequests] = useState<ShowingRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [date, setDate] = useState('');
+  const [startTime, setStartTime] = useState('10:00');
+  const [endTime, setEndTime] = useState('12:00');
+  const [slotMinutes, setSlotMinutes] = useState<number>(30);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!open || !listing) return;
+    let cancelled = false;
+    setErr(null);
+    setDate('');
+    setLoading(true);
+    Promise.all([
+      showingsService.getAvailability(listing.id, listing.isCommercial),
+      showingsService.getUpcomingRequests(listing.id, listing.isCommercial),
+    ])
+      .then(([windowRows, requestRows]) => {
+        if (cancelled) return;
+        setWindows(windowRows);
+        setRequests(requestRows);
+      })
+      .catch((e) => {
+        console.error('Failed to load showings:', e);
+        if (!cancelled) setErr('Could not load showings.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, listing?.id, listing?.isCommercial]);
+
+  if (!open || !listing) return null;
+
+  const handleAdd = async () => {
+    setErr(null);
+    if (!date || !startTime || !endTime) {
+      setErr('Pick a date, start and end time.');
+      return;
+    }
+    const startsAt = nyLocalToISO(date, startTime);
+    const endsAt = nyLocalToISO(date, endTime);
+    const lengthMs = new Date(endsAt).getTime() - new Date(startsAt).getTime();
+    if (lengthMs < slotMinutes * 60 * 1000) {
+      setErr(`The window must be at least ${slotMinutes} minutes long.`);
+      return;
+    }
+    if (new Date(endsAt).getTime() <= Date.now()) {
+      setErr('That time has already passed.');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const created = await showingsService.addAvailability({
+        listingId: listing.id,
+        isCommercial: listing.isCommercial,
+        startsAt,
+        endsAt,
+        slotMinutes,
+        createdBy: userId ?? null,
+      });
+      setWindows((prev) => [...prev, created].sort((a, b) => a.starts_at.localeCompare(b.starts_at)));
+      setDate('');
+      gaEvent('showing_availability_added', { listing_id: listing.id, is_commercial: listing.isCommercial });
+    } catch (e) {
+      console.error('Failed to add showing availability:', e);
+      setErr('Could not save the availability. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDeleteWindow = async (id: string) => {
+    setErr(null);
+    setPendingId(id);
+    try {
+      await showingsService.deleteAvailability(id);
+      setWindows((prev) => prev.filter((w) => w.id !== id));
+    } catch (e) {
+      console.error('Failed to delete showing availability:', e);
+      setErr('Could not remove the availability.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRequestAction = async (request: ShowingRequest, action: 'confirm' | 'cancel') => {
+    setErr(null);
+    setPendingId(request.id);
+    try {
+      const res = await showingsService.manageShowingAsLister(request.id, action);
+      setRequests((prev) =>
+        prev.map((r) => (r.id === request.id ? { ...r, status: res.showing.status, cancelled_by: res.showing.cancelled_by } : r)),
+      );
+    } catch (e) {
+      console.error('Failed to update showing request:', e);
+      setErr(e instanceof Error ? e.message : 'Could not update the request.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleReschedule = async (request: ShowingRequest) => {
+    setErr(null);
+    setPendingId(request.id);
+    try {
+      const res = await showingsService.manageShowingAsLister(request.id, 'get');
+      if (res.manage_token) navigate(`/showing/${res.manage_token}`);
+    } catch (e) {
+      console.error('Failed to open showing request:', e);
+      setErr(e instanceof Error ? e.message : 'Could not open the request.');
+      setPendingId(null);
+    }
+  };
+
+  const liveRequests = requests.filter((r) => r.status !== 'cancelled');
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="relative w-full max-w-md rounded-xl bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3 border-b border-gray-200 p-4">
+          <div className="min-w-0">
+            <h3 className="flex items-center gap-2 text-lg font-semibold text-[#273140]">
+              <CalendarCheck className="h-5 w-5" />
+              Showings
+            </h3>
+            <p className="mt-0.5 truncate text-sm text-gray-500" title={listing.title}>
+              {listing.title}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 transition-colors hover:text-gray-600"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="max-h-[75vh] overflow-y-auto p-4">
+          {loading ? (
+            <div className="py-4 text-center text-sm text-gray-500">Loading…</div>
+          ) : (
+            <>
+              <h4 className="mb-2 text-sm font-semibold text-[#273140]">Requests</h4>
+              {liveRequests.length === 0 ? (
+                <p className="rounded-lg bg-gray-50 px-3 py-3 text-sm text-gray-500">No upcoming viewing requests.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+                  {liveRequests.map((r) => (
+                    <li key={r.id} className="px-3 py-2.5 text-sm">
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <div className="font-medium text-gray-900">{formatShowingWhen(r.starts_at)}</div>
+                          <div className="text-xs text-gray-500">
+                            {r.requester_name} ·{' '}
+                            <a href={`tel:${r.requester_phone}`} className="text-brand-700 hover:text-brand-800">
+                              {r.requester_phone}
+                            </a>
+                          </div>
+                          {r.message && <p className="mt-0.5 break-words text-xs text-gray-500">{r.message}</p>}
+                        </div>
+                        <span
+                          className={`flex-shrink-0 rounded-full px-2 py-0.5 text-[11px] font-medium ${
+                            r.status === 'confirmed' ? 'bg-green-50 text-green-700' : 'bg-amber-50 text-amber-700'
+                          }`}
+                        >
+                          {SHOWING_STATUS_LABELS[r.status]}
+                        </span>
+                      </div>
+                      <div className="mt-2 flex gap-3 text-xs font-medium">
+                        {r.status === 'requested' && (
+                          <button
+                            type="button"
+                            onClick={() => handleRequestAction(r, 'confirm')}
+                            disabled={pendingId === r.id}
+                            className="text-brand-700 hover:text-brand-800 disabled:opacity-50"
+                          >
+                            Confirm
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => handleRequestAction(r, 'cancel')}
+                          disabled={pendingId === r.id}
+                          className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleReschedule(r)}
+                          disabled={pendingId === r.id}
+                          className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                        >
+                          Reschedule
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <h4 className="mb-2 mt-5 text-sm font-semibold text-[#273140]">Your availability</h4>
+              {windows.length === 0 ? (
+                <p className="rounded-lg bg-gray-50 px-3 py-3 text-sm text-gray-500">
+                  No availability yet. Add a window below and visitors can book a viewing from your listing.
+                </p>
+              ) : (
+                <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+                  {windows.map((w) => (
+                    <li key={w.id} className="flex items-start justify-between gap-3 px-3 py-2.5 text-sm">
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900">
+                          {formatOpenHouseDay(w)} · {formatOpenHouseTimeRange(w)}
+                        </div>
+                        <p className="mt-0.5 text-xs text-gray-500">{w.slot_minutes}-minute slots</p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteWindow(w.id)}
+                        disabled={pendingId === w.id}
+                        className="flex-shrink-0 rounded p-1 text-gray-400 transition-colors hover:bg-red-50 hover:text-red-600 disabled:opacity-50"
+                        aria-label="Remove availability"
+                      >
+                        {pendingId === w.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {windows.length > 0 && (
+                <p className="mt-1 text-xs text-gray-400">Removing a window doesn't cancel viewings already booked in it.</p>
+              )}
+            </>
+          )}
+
+          <div className="mt-5 space-y-3 border-t border-gray-100 pt-4">
+            <h4 className="text-sm font-semibold text-[#273140]">Add availability</h4>
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+              <label className="col-span-2 text-xs font-medium text-gray-600 sm:col-span-1">
+                Date
+                <input
+                  type="date"
+                  value={date}
+                  min={todayInNewYork()}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900"
+                />
+              </label>
+              <label className="text-xs font-medium text-gray-600">
+                From
+                <input
+                  type="time"
+                  value={startTime}
+                  step={900}
+                  onChange={(e) => setStartTime(e.target.value)}
+                  className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900"
+                />
+              </label>
+              <label className="text-xs font-medium text-gray-600">
+                To
+                <input
+                  type="time"
+                  value={endTime}
+                  step={900}
+                  onChange={(e) => setEndTime(e.target.value)}
+                  className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900"
+                />
+              </label>
+            </div>
+            <label className="block text-xs font-medium text-gray-600">
+              Each viewing
+              <select
+                value={slotMinutes}
+                onChange={(e) => setSlotMinutes(Number(e.target.value))}
+                className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900"
+              >
+                {SHOWING_SLOT_MINUTE_OPTIONS.map((m) => (
+                  <option key={m} value={m}>
+                    {m} minutes
+                  </option>
+                ))}
+              </select>
+            </label>
+            <p className="text-xs text-gray-400">Times are New York time. You'll get a text for each request.</p>
+
+            {err && <p className="text-xs text-red-600">{err}</p>}
+
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={busy}
+              className="inline-flex w-full items-center justify-center gap-2 rounded-md bg-brand-700 px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-brand-800 disabled:opacity-60"
+            >
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Add availability
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
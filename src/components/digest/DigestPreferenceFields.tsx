@@ -0,0 +1,114 @@
+import type { DigestFrequency, DigestListingType, DigestPreferences } from '../../types/digestSubscriptions';
+import { DIGEST_BEDROOM_OPTIONS, DIGEST_FREQUENCY_LABELS } from '../../types/digestSubscriptions';
+
+const NEIGHBORHOOD_OPTIONS = [
+  'Midwood',
+  'Homecrest',
+  'Marine Park',
+  'Flatbush',
+  'Gravesend',
+  'Boro Park',
+];
+
+interface DigestPreferenceFieldsProps {
+  value: DigestPreferences;
+  onChange: (value: DigestPreferences) => void;
+  disabled?: boolean;
+}
+
+function toggle<T>(list: T[], item: T): T[] {
+  return list.includes(item) ? list.filter((x) => x !== item) : [...list, item];
+}
+
+function chipClass(active: boolean): string {
+  return `rounded-full border px-3 py-1.5 text-sm font-medium transition-colors disabled:opacity-50 ${
+    active ? 'border-brand-700 bg-brand-700 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+  }`;
+}
+
+/** Listing type, neighborhoods, bedrooms and frequency for a subscriber digest. */
+export function DigestPreferenceFields({ value, onChange, disabled = false }: DigestPreferenceFieldsProps) {
+  return (
+    <div className="space-y-5">
+      <div>
+        <label className="mb-2 block text-sm font-medium text-gray-700">Looking for</label>
+        <div className="grid grid-cols-2 gap-2">
+          {(['rental', 'sale'] as DigestListingType[]).map((type) => (
+            <button
+              key={type}
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange({ ...value, listing_type: type })}
+              className={`rounded-md border px-3 py-2 text-sm font-medium transition-colors disabled:opacity-50 ${
+                value.listing_type === type
+                  ? 'border-brand-700 bg-brand-700 text-white'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {type === 'rental' ? 'Rentals' : 'Homes for sale'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="mb-2 block text-sm font-medium text-gray-700">
+          Neighborhoods <span className="font-normal text-gray-400">(none picked = all)</span>
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {NEIGHBORHOOD_OPTIONS.map((n) => (
+            <button
+              key={n}
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange({ ...value, neighborhoods: toggle(value.neighborhoods, n) })}
+              className={chipClass(value.neighborhoods.includes(n))}
+            >
+              {n}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="mb-2 block text-sm font-medium text-gray-700">
+          Bedrooms <span className="font-normal text-gray-400">(none picked = any)</span>
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {DIGEST_BEDROOM_OPTIONS.map((b) => (
+            <button
+              key={b.value}
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange({ ...value, bedrooms: toggle(value.bedrooms, b.value).sort((x, y) => x - y) })}
+              className={chipClass(value.bedrooms.includes(b.value))}
+            >
+              {b.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="mb-2 block text-sm font-medium text-gray-700">How often</label>
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(DIGEST_FREQUENCY_LABELS) as DigestFrequency[]).map((f) => (
+            <button
+              key={f}
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange({ ...value, frequency: f })}
+              className={`rounded-md border px-3 py-2 text-sm font-medium transition-colors disabled:opacity-50 ${
+                value.frequency === f
+                  ? 'border-brand-700 bg-brand-700 text-white'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {DIGEST_FREQUENCY_LABELS[f]}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
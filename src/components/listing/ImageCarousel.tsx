@@ -8,6 +8,8 @@ type MediaItem =
   | { type: 'image'; url: string; alt: string }
   | { type: 'video'; url: string; thumbnail?: string | null };
 
+export type CarouselView = 'photos' | 'floor_plan';
+
 interface ImageCarouselProps {
   images: Array<{ url: string; alt: string }>;
   className?: string;
@@ -19,10 +21,12 @@ interface ImageCarouselProps {
   };
   propertyType?: PropertyType;
   leaseLength?: LeaseLength | null;
-  onImageClick?: (index: number) => void;
+  onImageClick?: (index: number, view: CarouselView) => void;
   enableZoom?: boolean;
   videoUrl?: string | null;
   videoThumbnail?: string | null;
+  /** Image floor plans; when present a Photos / Floor plan toggle is shown. */
+  floorPlans?: Array<{ url: string; alt: string }>;
 }
 
 type AnimationState = 'idle' | 'dragging' | 'animating' | 'completing';
@@ -36,8 +40,10 @@ export default function ImageCarousel({
   onImageClick,
   enableZoom = false,
   videoUrl,
-  videoThumbnail
+  videoThumbnail,
+  floorPlans = []
 }: ImageCarouselProps) {
+  const [view, setView] = useState<CarouselView>('photos');
   const [currentIndex, setCurrentIndex] = useState(0);
   const [animationState, setAnimationState] = useState<AnimationState>('idle');
   const [dragOffset, setDragOffset] = useState(0);
@@ -51,15 +57,19 @@ export default function ImageCarousel({
   const videoRef = useRef<HTMLVideoElement>(null);
   const animationFrameRef = useRef<number>();
 
-  // Build media array: images first, then video (if exists)
-  const hasRealImages = images && images.length > 0;
-  const hasVideo = !!videoUrl;
+  // Build media array: images first, then video (if exists). The floor plan
+  // view shows only the floor plans.
+  const hasFloorPlans = floorPlans.length > 0;
+  const showingFloorPlans = view === 'floor_plan' && hasFloorPlans;
+  const activeImages = showingFloorPlans ? floorPlans : images;
+  const hasRealImages = activeImages && activeImages.length > 0;
+  const hasVideo = !!videoUrl && !showingFloorPlans;
 
   const mediaItems: MediaItem[] = [];
 
   // Add images first
   if (hasRealImages) {
-    mediaItems.push(...images.map(img => ({ type: 'image' as const, url: img.url, alt: img.alt })));
+    mediaItems.push(...activeImages.map(img => ({ type: 'image' as const, url: img.url, alt: img.alt })));
   }
 
   // Add video last (after all images)
@@ -182,6 +192,12 @@ export default function ImageCarousel({
     }, 350);
   }, [animationState, currentIndex]);
 
+  const handleViewChange = (next: CarouselView) => {
+    if (next === view || animationState !== 'idle') return;
+    setView(next);
+    setCurrentIndex(0);
+  };
+
   const handleTouchStart = useCallback((e: React.TouchEvent) => {
     if (displayMedia.length <= 1 || animationState === 'animating' || animationState === 'completing') return;
 
@@ -272,7 +288,7 @@ export default function ImageCarousel({
 
   const handleImageClick = () => {
     if (canZoom && animationState === 'idle') {
-      onImageClick?.(currentIndex);
+      onImageClick?.(currentIndex, showingFloorPlans ? 'floor_plan' : 'photos');
     }
   };
 
@@ -393,6 +409,25 @@ export default function ImageCarousel({
         )}
       </div>
 
+      {/* Photos / Floor plan toggle - top left (favorite button sits top right) */}
+      {hasFloorPlans && (
+        <div className="absolute top-4 left-4 z-10 flex rounded-full bg-black/35 p-1 backdrop-blur-sm">
+          {(['photos', 'floor_plan'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => handleViewChange(option)}
+              className={`rounded-full px-3 py-1 text-sm font-medium transition-colors ${
+                view === option ? 'bg-white text-gray-900' : 'text-white hover:bg-white/20'
+              }`}
+              aria-pressed={view === option}
+            >
+              {option === 'photos' ? 'Photos' : `Floor plan${floorPlans.length > 1 ? 's' : ''}`}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Navigation arrows - hidden on mobile, visible on desktop */}
       {displayMedia.length > 1 && (
         <>
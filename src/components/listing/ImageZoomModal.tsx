@@ -1,16 +1,32 @@
 import React, { useEffect, useState, useRef, useCallback } from "react";
 import { X, ChevronLeft, ChevronRight } from "lucide-react";
 import { LISTING_IMAGE_FALLBACK_SRC } from "../../utils/listingImageFallback";
+import type { CarouselView } from "./ImageCarousel";
 
 interface ImageZoomModalProps {
   images: Array<{ url: string; alt: string }>;
   initialIndex: number;
   onClose: () => void;
+  /** Image floor plans; when present the modal gets its own Photos / Floor plan switch. */
+  floorPlans?: Array<{ url: string; alt: string }>;
+  initialView?: CarouselView;
 }
 
 type AnimationState = 'idle' | 'dragging' | 'animating';
 
-export function ImageZoomModal({ images, initialIndex, onClose }: ImageZoomModalProps) {
+export function ImageZoomModal({
+  images: photos,
+  initialIndex,
+  onClose,
+  floorPlans = [],
+  initialView = "photos",
+}: ImageZoomModalProps) {
+  const [view, setView] = useState<CarouselView>(
+    floorPlans.length > 0 && (initialView === "floor_plan" || photos.length === 0) ? "floor_plan" : "photos",
+  );
+  const images = view === "floor_plan" ? floorPlans : photos;
+  const showViewSwitch = photos.length > 0 && floorPlans.length > 0;
+
   // Clamp initial index to valid range
   const safeInitialIndex = Math.max(0, Math.min(initialIndex, images.length - 1));
   const [currentIndex, setCurrentIndex] = useState(safeInitialIndex);
@@ -153,6 +169,12 @@ export function ImageZoomModal({ images, initialIndex, onClose }: ImageZoomModal
     touchStartTime.current = 0;
   }, [animationState, getCircularIndex]);
 
+  const handleViewChange = (next: CarouselView) => {
+    if (next === view || animationState !== 'idle') return;
+    setView(next);
+    setCurrentIndex(0);
+  };
+
   // Get the three slides for infinite loop (previous, current, next)
   const prevIndex = getCircularIndex(currentIndex - 1);
   const nextIndex = getCircularIndex(currentIndex + 1);
@@ -219,6 +241,27 @@ export function ImageZoomModal({ images, initialIndex, onClose }: ImageZoomModal
         <X className="w-6 h-6 text-white" />
       </button>
 
+      {showViewSwitch && (
+        <div
+          className="absolute top-4 left-4 z-[110] flex rounded-full bg-white bg-opacity-20 p-1"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {(["photos", "floor_plan"] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => handleViewChange(option)}
+              className={`rounded-full px-3 py-1 text-sm font-medium transition-colors ${
+                view === option ? "bg-white text-gray-900" : "text-white hover:bg-white/20"
+              }`}
+              aria-pressed={view === option}
+            >
+              {option === "photos" ? "Photos" : `Floor plan${floorPlans.length > 1 ? "s" : ""}`}
+            </button>
+          ))}
+        </div>
+      )}
+
       {images.length > 1 && (
         <>
           <button
@@ -1,5 +1,7 @@
 import React from 'react';
-import { X, Phone, User, Calendar } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { X, Phone, User, Calendar, MessageSquare } from 'lucide-react';
+import type { MessageThread } from '../../types/messages';
 
 export interface Inquiry {
   user_name: string;
@@ -12,10 +14,12 @@ interface InquiriesModalProps {
   onClose: () => void;
   listingTitle: string;
   inquiries: Inquiry[];
+  /** In-app message threads on this listing, newest activity first. */
+  threads?: MessageThread[];
   loading: boolean;
 }
 
-export function InquiriesModal({ isOpen, onClose, listingTitle, inquiries, loading }: InquiriesModalProps) {
+export function InquiriesModal({ isOpen, onClose, listingTitle, inquiries, threads = [], loading }: InquiriesModalProps) {
   if (!isOpen) return null;
 
   const formatDate = (dateString: string): string => {
@@ -62,7 +66,7 @@ export function InquiriesModal({ isOpen, onClose, listingTitle, inquiries, loadi
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#273140]"></div>
               <span className="ml-3 text-gray-600">Loading inquiries...</span>
             </div>
-          ) : inquiries.length === 0 ? (
+          ) : inquiries.length === 0 && threads.length === 0 ? (
             <div className="text-center py-8">
               <div className="text-gray-400 mb-2">
                 <Phone className="w-12 h-12 mx-auto" />
@@ -71,6 +75,46 @@ export function InquiriesModal({ isOpen, onClose, listingTitle, inquiries, loadi
             </div>
           ) : (
             <div className="space-y-3">
+              {threads.length > 0 && (
+                <>
+                  <h4 className="text-sm font-semibold text-[#273140]">Messages</h4>
+                  {threads.map((thread) => {
+                    const unread =
+                      thread.last_message_role === 'inquirer' &&
+                      (!thread.owner_last_read_at || new Date(thread.last_message_at) > new Date(thread.owner_last_read_at));
+                    return (
+                      <Link
+                        key={thread.id}
+                        to={`/account?tab=messages&thread=${thread.id}`}
+                        onClick={onClose}
+                        className="block bg-gray-50 rounded-lg p-4 border border-gray-100 hover:border-gray-300 transition-colors"
+                      >
+                        <div className="flex items-start gap-3">
+                          <div className="flex-shrink-0 w-10 h-10 bg-[#273140] rounded-full flex items-center justify-center">
+                            <MessageSquare className="w-5 h-5 text-white" />
+                          </div>
+                          <div className="min-w-0 flex-1">
+                            <div className="flex items-center justify-between gap-2">
+                              <p className={`text-gray-900 truncate ${unread ? 'font-semibold' : 'font-medium'}`}>
+                                {thread.inquirer_name || 'Inquirer'}
+                              </p>
+                              <span className="flex-shrink-0 text-xs text-gray-500">{formatDate(thread.last_message_at)}</span>
+                            </div>
+                            <p className={`text-sm truncate ${unread ? 'text-gray-800' : 'text-gray-500'}`}>
+                              {thread.last_message_role === 'owner' ? 'You: ' : ''}
+                              {thread.last_message_preview}
+                            </p>
+                          </div>
+                          {unread && <span className="mt-2 h-2 w-2 flex-shrink-0 rounded-full bg-red-500" />}
+                        </div>
+                      </Link>
+                    );
+                  })}
+                </>
+              )}
+              {threads.length > 0 && inquiries.length > 0 && (
+                <h4 className="pt-2 text-sm font-semibold text-[#273140]">Callback requests</h4>
+              )}
               {inquiries.map((inquiry, index) => (
                 <div
                   key={`${inquiry.user_phone}-${inquiry.created_at}-${index}`}
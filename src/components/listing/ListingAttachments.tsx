@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { Box, Download, ExternalLink, FileText, LayoutGrid, Loader2, Lock } from "lucide-react";
+import {
+  formatFileSize,
+  isImageFloorPlan,
+  listingAttachmentsService,
+} from "../../services/listingAttachments";
+import type { ListingAttachment } from "../../types/attachments";
+import { gaEvent } from "@/lib/ga";
+
+interface ListingAttachmentsProps {
+  attachments: ListingAttachment[];
+  listingId: string;
+  isSignedIn: boolean;
+  /** Opens the page's login gate; called instead of downloading a `requires_login` document. */
+  onLoginRequired: () => void;
+}
+
+/**
+ * Documents, PDF floor plans and virtual tour links on the listing page.
+ * Image floor plans aren't listed here — they have their own tab in the
+ * photo carousel. Private files are opened through a short-lived signed URL.
+ */
+export function ListingAttachments({ attachments, listingId, isSignedIn, onLoginRequired }: ListingAttachmentsProps) {
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const tours = attachments.filter((a) => a.kind === "virtual_tour");
+  const files = attachments.filter((a) => a.kind !== "virtual_tour" && !isImageFloorPlan(a));
+
+  if (tours.length === 0 && files.length === 0) return null;
+
+  const handleOpen = async (attachment: ListingAttachment) => {
+    setError(null);
+    if (attachment.requires_login && !isSignedIn) {
+      onLoginRequired();
+      return;
+    }
+
+    // Open the tab synchronously so popup blockers allow it, then point it
+    // at the signed URL once we have one.
+    const tab = window.open("", "_blank");
+    setOpeningId(attachment.id);
+    try {
+      const url = await listingAttachmentsService.getDownloadUrl(attachment);
+      if (tab) {
+        tab.location.href = url;
+      } else {
+        window.location.href = url;
+      }
+      gaEvent("listing_attachment_open", { listing_id: listingId, kind: attachment.kind });
+    } catch (err) {
+      console.error("Error opening listing attachment:", err);
+      tab?.close();
+      setError("Could not open this file. Please try again.");
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-lg border border-gray-200">
+      <div className="flex items-center gap-2 border-b border-gray-100 px-4 py-3">
+        <FileText className="h-4 w-4 text-[#273140]" />
+        <h3 className="text-sm font-semibold text-[#273140]">Floor plans & documents</h3>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {tours.map((tour) => (
+          <li key={tour.id}>
+            <a
+              href={tour.url ?? "#"}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={() => gaEvent("listing_attachment_open", { listing_id: listingId, kind: tour.kind })}
+              className="flex items-center gap-3 px-4 py-3 text-sm hover:bg-gray-50"
+            >
+              <Box className="h-4 w-4 flex-shrink-0 text-gray-500" />
+              <span className="flex-1 truncate font-medium text-gray-800">{tour.title || "Virtual tour"}</span>
+              <ExternalLink className="h-4 w-4 flex-shrink-0 text-gray-400" />
+            </a>
+          </li>
+        ))}
+        {files.map((file) => {
+          const locked = file.requires_login && !isSignedIn;
+          return (
+            <li key={file.id}>
+              <button
+                type="button"
+                onClick={() => handleOpen(file)}
+                disabled={openingId === file.id}
+                className="flex w-full items-center gap-3 px-4 py-3 text-left text-sm hover:bg-gray-50 disabled:opacity-60"
+              >
+                {file.kind === "floor_plan" ? (
+                  <LayoutGrid className="h-4 w-4 flex-shrink-0 text-gray-500" />
+                ) : (
+                  <FileText className="h-4 w-4 flex-shrink-0 text-gray-500" />
+                )}
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate font-medium text-gray-800">
+                    {file.title || (file.kind === "floor_plan" ? "Floor plan" : "Document")}
+                  </span>
+                  <span className="block text-xs text-gray-500">
+                    {locked ? "Sign in to download" : [file.mime_type === "application/pdf" ? "PDF" : "Image", formatFileSize(file.file_size)].filter(Boolean).join(" · ")}
+                  </span>
+                </span>
+                {openingId === file.id ? (
+                  <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin text-gray-400" />
+                ) : locked ? (
+                  <Lock className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                ) : (
+                  <Download className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {error && <p className="px-4 pb-3 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
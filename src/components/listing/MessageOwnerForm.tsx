@@ -0,0 +1,108 @@
+import { useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { Loader2, MessageSquare, Send } from "lucide-react";
+import { messagesService } from "../../services/messages";
+import { gaEvent } from "@/lib/ga";
+
+interface MessageOwnerFormProps {
+  listingId: string;
+  isCommercial?: boolean;
+  /** Signed-in visitor; messaging needs an account so replies have somewhere to land. */
+  userId?: string;
+}
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * "Message the owner" — starts (or continues) an in-app thread with the
+ * listing's owner. The send-thread-message function texts/emails the owner,
+ * whose reply comes back to the visitor's inbox at /account?tab=messages.
+ */
+export function MessageOwnerForm({ listingId, isCommercial = false, userId }: MessageOwnerFormProps) {
+  const [body, setBody] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [threadId, setThreadId] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!body.trim()) {
+      setError("Please write a message.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await messagesService.sendMessage({ listingId, isCommercial }, body);
+      setThreadId(result.threadId);
+      setBody("");
+      gaEvent("message_sent", { role: "inquirer", source: "listing", listing_id: listingId, is_commercial: isCommercial });
+    } catch (err) {
+      console.error("Error sending message:", err);
+      setError(err instanceof Error ? err.message : "Could not send your message. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-lg border border-gray-200">
+      <div className="flex items-center gap-2 border-b border-gray-100 px-4 py-3">
+        <MessageSquare className="h-4 w-4 text-[#273140]" />
+        <h3 className="text-sm font-semibold text-[#273140]">Message the owner</h3>
+      </div>
+
+      {!userId ? (
+        <p className="p-4 text-sm text-gray-600">
+          <Link to="/auth" className="font-medium text-brand-700 hover:text-brand-800">
+            Sign in
+          </Link>{" "}
+          to message the owner and keep the conversation in your inbox.
+        </p>
+      ) : threadId ? (
+        <div className="p-4 text-sm">
+          <p className="font-semibold text-green-800">Message sent</p>
+          <p className="mt-1 text-gray-600">
+            We've passed it on to the owner. Their reply will show up in{" "}
+            <Link
+              to={`/account?tab=messages&thread=${threadId}`}
+              className="font-medium text-brand-700 hover:text-brand-800"
+            >
+              your messages
+            </Link>
+            .
+          </p>
+          <button
+            type="button"
+            onClick={() => setThreadId(null)}
+            className="mt-2 text-xs font-medium text-gray-500 hover:text-gray-700"
+          >
+            Send another message
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3 p-4">
+          <textarea
+            value={body}
+            maxLength={MAX_MESSAGE_LENGTH}
+            rows={3}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Hi, is this still available? When could I see it?"
+            disabled={loading}
+            className="w-full resize-none rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-[#273140]"
+          />
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={loading || !body.trim()}
+            className="inline-flex w-full items-center justify-center gap-2 rounded-md bg-brand-700 px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-brand-800 disabled:opacity-60"
+          >
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            Send message
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState, useEffect } from "react";
+import { CalendarClock, CalendarPlus } from "lucide-react";
+import type { OpenHouse } from "../../config/supabase";
+import { openHousesService } from "../../services/openHouses";
+import {
+  downloadOpenHouseIcs,
+  formatOpenHouseDay,
+  formatOpenHouseTimeRange,
+} from "../../utils/openHouses";
+import { canonicalUrl } from "../../utils/url";
+import { gaEvent } from "@/lib/ga";
+
+interface OpenHouseScheduleProps {
+  listingId: string;
+  isCommercial?: boolean;
+  /** Calendar event title, e.g. the listing title. */
+  title: string;
+  /** Calendar event location — full address or cross streets. */
+  location?: string | null;
+}
+
+export function OpenHouseSchedule({ listingId, isCommercial = false, title, location }: OpenHouseScheduleProps) {
+  const [slots, setSlots] = useState<OpenHouse[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    openHousesService
+      .getUpcomingOpenHouses(listingId, isCommercial)
+      .then((rows) => {
+        if (!cancelled) setSlots(rows);
+      })
+      .catch((err) => {
+        console.error("Error loading open houses:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [listingId, isCommercial]);
+
+  if (slots.length === 0) return null;
+
+  const handleAddToCalendar = (slot: OpenHouse) => {
+    downloadOpenHouseIcs(slot, {
+      title,
+      location,
+      url: canonicalUrl(isCommercial ? `/commercial-listing/${listingId}` : `/listing/${listingId}`),
+    });
+    gaEvent("open_house_add_to_calendar", { listing_id: listingId, is_commercial: isCommercial });
+  };
+
+  return (
+    <div className="mt-4 border border-sky-200 bg-sky-50/40 rounded-lg">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-sky-100">
+        <CalendarClock className="w-4 h-4 text-[#273140]" />
+        <h3 className="text-sm font-semibold text-[#273140]">
+          Open house{slots.length > 1 ? "s" : ""}
+        </h3>
+      </div>
+      <ul className="divide-y divide-sky-100">
+        {slots.map((slot) => (
+          <li key={slot.id} className="flex items-start justify-between gap-3 px-4 py-2.5 text-sm">
+            <div className="min-w-0">
+              <div className="font-medium text-gray-900">
+                {formatOpenHouseDay(slot)} · {formatOpenHouseTimeRange(slot)}
+              </div>
+              {slot.notes && <p className="mt-0.5 text-xs text-gray-600 break-words">{slot.notes}</p>}
+            </div>
+            <button
+              type="button"
+              onClick={() => handleAddToCalendar(slot)}
+              className="flex-shrink-0 inline-flex items-center gap-1 text-xs font-medium text-brand-700 hover:text-brand-800"
+            >
+              <CalendarPlus className="w-3.5 h-3.5" />
+              Add to calendar
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState, useEffect } from "react";
+import { ChevronDown, ChevronUp, History } from "lucide-react";
+import { priceHistoryService } from "../../services/priceHistory";
+import type { ListingPriceChange } from "../../types/priceHistory";
+
+interface PriceHistoryProps {
+  listingId: string;
+  isCommercial?: boolean;
+  /** 'sale' prices are shown as totals, everything else as "/mo". */
+  listingType?: string | null;
+}
+
+const formatAmount = (value: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+export function PriceHistory({ listingId, isCommercial = false, listingType }: PriceHistoryProps) {
+  const [entries, setEntries] = useState<ListingPriceChange[]>([]);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    priceHistoryService
+      .getPriceHistory(listingId, isCommercial)
+      .then((rows) => {
+        if (!cancelled) setEntries(rows);
+      })
+      .catch((err) => {
+        console.error("Error loading price history:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [listingId, isCommercial]);
+
+  // Only the current series (rental vs sale) is meaningful, and an opening
+  // price on its own isn't a history.
+  const series = entries.filter((e) => !listingType || !e.listing_type || e.listing_type === listingType);
+  if (series.length < 2) return null;
+
+  const suffix = listingType === "sale" ? "" : "/mo";
+  const newestFirst = [...series].reverse();
+  const visible = expanded ? newestFirst : newestFirst.slice(0, 3);
+
+  return (
+    <div className="mt-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-100">
+        <History className="w-4 h-4 text-[#273140]" />
+        <h3 className="text-sm font-semibold text-[#273140]">Price history</h3>
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {visible.map((entry) => {
+          const delta =
+            entry.old_price != null && entry.new_price != null ? entry.new_price - entry.old_price : null;
+          const pct = delta != null && entry.old_price ? Math.round((Math.abs(delta) / entry.old_price) * 100) : null;
+          return (
+            <li key={entry.id} className="flex items-center justify-between px-4 py-2 text-sm">
+              <span className="text-gray-500">{formatDate(entry.changed_at)}</span>
+              <span className="flex items-center gap-3">
+                {delta != null && delta !== 0 && (
+                  <span className={delta < 0 ? "text-emerald-700" : "text-red-600"}>
+                    {delta < 0 ? "↓" : "↑"} {formatAmount(Math.abs(delta))}
+                    {pct ? ` (${pct}%)` : ""}
+                  </span>
+                )}
+                {entry.old_price == null && entry.new_price != null && (
+                  <span className="text-gray-400">{entry === series[0] ? "Listed" : "Price set"}</span>
+                )}
+                <span className="font-semibold text-gray-900 num-font">
+                  {entry.new_price != null ? `${formatAmount(entry.new_price)}${suffix}` : "Call for price"}
+                </span>
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      {newestFirst.length > 3 && (
+        <button
+          type="button"
+          onClick={() => setExpanded((v) => !v)}
+          className="w-full flex items-center justify-center gap-1 px-4 py-2 text-xs font-medium text-gray-600 hover:text-gray-900 border-t border-gray-100"
+        >
+          {expanded ? (
+            <>
+              Show less <ChevronUp className="w-3.5 h-3.5" />
+            </>
+          ) : (
+            <>
+              Show all {newestFirst.length} changes <ChevronDown className="w-3.5 h-3.5" />
+            </>
+          )}
+        </button>
+      )}
+    </div>
+  );
+}
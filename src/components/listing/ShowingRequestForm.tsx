@@ -0,0 +1,200 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { CalendarCheck, Loader2 } from "lucide-react";
+import type { ShowingSlot } from "../../types/showings";
+import { showingsService } from "../../services/showings";
+import { formatShowingWhen } from "../../utils/showings";
+import { ShowingSlotPicker } from "./ShowingSlotPicker";
+import { gaEvent } from "@/lib/ga";
+
+interface ShowingRequestFormProps {
+  listingId: string;
+  isCommercial?: boolean;
+  /** Prefill for signed-in visitors. */
+  defaultName?: string;
+  defaultEmail?: string;
+}
+
+const MAX_MESSAGE_LENGTH = 500;
+
+function formatPhoneInput(value: string): string {
+  const cleaned = value.replace(/\D/g, "");
+  if (cleaned.length <= 3) return cleaned;
+  if (cleaned.length <= 6) return `(${cleaned.slice(0, 3)}) ${cleaned.slice(3)}`;
+  return `(${cleaned.slice(0, 3)}) ${cleaned.slice(3, 6)}-${cleaned.slice(6, 10)}`;
+}
+
+/**
+ * "Schedule a viewing" — only renders when the lister has published
+ * availability with at least one free slot. The request itself goes through
+ * the request-showing edge function, which texts the lister for CONFIRM /
+ * CANCEL and sends the visitor a manage link.
+ */
+export function ShowingRequestForm({
+  listingId,
+  isCommercial = false,
+  defaultName = "",
+  defaultEmail = "",
+}: ShowingRequestFormProps) {
+  const [slots, setSlots] = useState<ShowingSlot[]>([]);
+  const [selected, setSelected] = useState<ShowingSlot | null>(null);
+  const [name, setName] = useState(defaultName);
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState(defaultEmail);
+  const [message, setMessage] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [booked, setBooked] = useState<ShowingSlot | null>(null);
+
+  const loadSlots = () =>
+    showingsService
+      .getOpenSlots(listingId, isCommercial)
+      .then(setSlots)
+      .catch((err) => console.error("Error loading showing slots:", err));
+
+  useEffect(() => {
+    let cancelled = false;
+    showingsService
+      .getOpenSlots(listingId, isCommercial)
+      .then((rows) => {
+        if (!cancelled) setSlots(rows);
+      })
+      .catch((err) => {
+        console.error("Error loading showing slots:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [listingId, isCommercial]);
+
+  if (booked) {
+    return (
+      <div className="mt-4 rounded-lg border border-green-200 bg-green-50 p-4 text-sm">
+        <div className="font-semibold text-green-800">Viewing requested for {formatShowingWhen(booked.starts_at)}</div>
+        <p className="mt-1 text-green-700">
+          We've texted the lister. You'll get a text once it's confirmed, with a link to reschedule or cancel.
+        </p>
+      </div>
+    );
+  }
+
+  if (slots.length === 0) return null;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!selected) {
+      setError("Pick a time for your viewing.");
+      return;
+    }
+    if (name.trim().length < 2) {
+      setError("Please enter your name.");
+      return;
+    }
+    if (phone.replace(/\D/g, "").length !== 10) {
+      setError("Please enter a valid 10-digit phone number.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await showingsService.requestShowing({
+        listingId,
+        isCommercial,
+        slot: selected,
+        name,
+        phone,
+        email,
+        message,
+      });
+      setBooked(selected);
+      gaEvent("showing_requested", { listing_id: listingId, is_commercial: isCommercial });
+    } catch (err) {
+      console.error("Error requesting showing:", err);
+      setError(err instanceof Error ? err.message : "Could not request a viewing. Please try again.");
+      setSelected(null);
+      loadSlots();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-lg border border-gray-200">
+      <div className="flex items-center gap-2 border-b border-gray-100 px-4 py-3">
+        <CalendarCheck className="h-4 w-4 text-[#273140]" />
+        <h3 className="text-sm font-semibold text-[#273140]">Schedule a viewing</h3>
+      </div>
+      <form onSubmit={handleSubmit} className="space-y-3 p-4">
+        <ShowingSlotPicker slots={slots} selected={selected} onSelect={setSelected} disabled={loading} />
+        <p className="text-xs text-gray-400">Times are New York time.</p>
+
+        {selected && (
+          <>
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              <input
+                type="text"
+                value={name}
+                maxLength={200}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Your name"
+                disabled={loading}
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-[#273140]"
+              />
+              <input
+                type="tel"
+                value={phone}
+                maxLength={14}
+                onChange={(e) => setPhone(formatPhoneInput(e.target.value))}
+                placeholder="(555) 123-4567"
+                disabled={loading}
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-[#273140]"
+              />
+            </div>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email (optional, for a confirmation email)"
+              disabled={loading}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-[#273140]"
+            />
+            <textarea
+              value={message}
+              maxLength={MAX_MESSAGE_LENGTH}
+              rows={2}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Anything the lister should know? (optional)"
+              disabled={loading}
+              className="w-full resize-none rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-[#273140]"
+            />
+            <p className="text-xs text-gray-500">
+              We'll text you a confirmation. By requesting, you agree to our{" "}
+              <Link to="/terms" className="text-accent-600 underline hover:text-accent-700">
+                Terms
+              </Link>{" "}
+              and{" "}
+              <Link to="/privacy" className="text-accent-600 underline hover:text-accent-700">
+                Privacy Policy
+              </Link>
+              .
+            </p>
+          </>
+        )}
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        {selected && (
+          <button
+            type="submit"
+            disabled={loading}
+            className="inline-flex w-full items-center justify-center gap-2 rounded-md bg-brand-700 px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-brand-800 disabled:opacity-60"
+          >
+            {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+            Request {formatShowingWhen(selected.starts_at)}
+          </button>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useMemo, useState } from "react";
+import type { ShowingSlot } from "../../types/showings";
+import { formatOpenHouseDay } from "../../utils/openHouses";
+import { formatShowingTime, showingSlotDay } from "../../utils/showings";
+
+interface ShowingSlotPickerProps {
+  slots: ShowingSlot[];
+  selected: ShowingSlot | null;
+  onSelect: (slot: ShowingSlot) => void;
+  disabled?: boolean;
+}
+
+/** Day tabs + time buttons. Used by the listing-page request form and the
+ *  reschedule step on /showing/:token. */
+export function ShowingSlotPicker({ slots, selected, onSelect, disabled = false }: ShowingSlotPickerProps) {
+  const days = useMemo(() => {
+    const byDay = new Map<string, ShowingSlot[]>();
+    for (const slot of slots) {
+      const key = showingSlotDay(slot);
+      byDay.set(key, [...(byDay.get(key) ?? []), slot]);
+    }
+    return Array.from(byDay.entries());
+  }, [slots]);
+
+  const [activeDay, setActiveDay] = useState<string | null>(null);
+  const currentDay = days.find(([key]) => key === activeDay) ?? days[0];
+
+  if (!currentDay) return null;
+
+  return (
+    <div>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {days.map(([key, daySlots]) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => setActiveDay(key)}
+            disabled={disabled}
+            className={`flex-shrink-0 rounded-md border px-3 py-1.5 text-xs font-medium transition-colors ${
+              key === currentDay[0]
+                ? "border-[#273140] bg-[#273140] text-white"
+                : "border-gray-300 bg-white text-gray-700 hover:border-gray-400"
+            }`}
+          >
+            {formatOpenHouseDay(daySlots[0])}
+          </button>
+        ))}
+      </div>
+      <div className="mt-3 grid grid-cols-3 gap-2 sm:grid-cols-4">
+        {currentDay[1].map((slot) => {
+          const isSelected = selected?.starts_at === slot.starts_at;
+          return (
+            <button
+              key={slot.starts_at}
+              type="button"
+              onClick={() => onSelect(slot)}
+              disabled={disabled}
+              className={`rounded-md border px-2 py-1.5 text-sm transition-colors ${
+                isSelected
+                  ? "border-brand-700 bg-brand-700 text-white"
+                  : "border-gray-300 bg-white text-gray-800 hover:border-brand-700"
+              }`}
+            >
+              {formatShowingTime(slot.starts_at)}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
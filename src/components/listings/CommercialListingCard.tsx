@@ -19,6 +19,9 @@ import { computePrimaryListingImage, buildListingAlt } from "../../utils/stockIm
 import { LISTING_IMAGE_FALLBACK_SRC } from "../../utils/listingImageFallback";
 import { ShareButton } from "../shared/ShareButton";
 import { SaleStatusBadge } from "./SaleStatusBadge";
+import { PriceReducedBadge } from "./PriceReducedBadge";
+import { OpenHouseBadge } from "./OpenHouseBadge";
+import { getNextOpenHouse, isOpenHouseThisWeek } from "../../services/openHouses";
 
 interface CommercialListingCardProps {
   listing: CommercialListing;
@@ -287,6 +290,8 @@ export function CommercialListingCard({
   );
 
   const isSaleListing = listing.listing_type === "sale";
+  const hasOpenHouseThisWeek =
+    isSaleListing && isOpenHouseThisWeek(getNextOpenHouse(listing.open_houses));
 
   const handleFavoriteToggle = async (e: React.MouseEvent) => {
     e.preventDefault();
@@ -470,6 +475,12 @@ export function CommercialListingCard({
           </div>
         )}
 
+        {hasOpenHouseThisWeek && (
+          <div className="mb-2">
+            <OpenHouseBadge listing={listing} />
+          </div>
+        )}
+
         <div className="flex items-center text-gray-600 mb-2">
           <MapPin className="w-4 h-4 mr-2 flex-shrink-0" />
           <NumericText
@@ -486,6 +497,7 @@ export function CommercialListingCard({
             )}
           </span>
           <div className="flex items-center gap-1.5 flex-shrink-0">
+            <PriceReducedBadge listing={listing} />
             {isSaleListing && listing.sale_status && listing.sale_status !== 'available' && (
               <SaleStatusBadge status={listing.sale_status} size="sm" />
             )}
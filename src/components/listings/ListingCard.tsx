@@ -13,6 +13,9 @@ import { computePrimaryListingImage, buildListingAlt } from "../../utils/stockIm
 import { LISTING_IMAGE_FALLBACK_SRC } from "../../utils/listingImageFallback";
 import { ShareButton } from "../shared/ShareButton";
 import { SaleStatusBadge } from "./SaleStatusBadge";
+import { PriceReducedBadge } from "./PriceReducedBadge";
+import { OpenHouseBadge } from "./OpenHouseBadge";
+import { formatAvailability, isAvailableNow } from "../../utils/availability";
 
 interface ListingCardProps {
   listing: Listing;
@@ -121,6 +124,12 @@ export function ListingCard({
 
   const isSaleListing = listing.listing_type === "sale";
 
+  // Only future move-in dates earn a badge — "available now" is the norm.
+  const availabilityLabel =
+    !isSaleListing && !isAvailableNow(listing.available_date)
+      ? formatAvailability(listing.available_date)
+      : null;
+
   const getPropertyTypeLabel = (type: string): string => {
     const labels: Record<string, string> = {
       apartment_building: "Apartment",
@@ -222,6 +231,11 @@ export function ListingCard({
                   Winter Rental
                 </div>
               )}
+              {availabilityLabel && (
+                <div className="rounded-full bg-black/35 px-3 py-1 text-xs font-medium text-white backdrop-blur-sm">
+                  {availabilityLabel}
+                </div>
+              )}
             </>
           )}
         </div>
@@ -258,7 +272,7 @@ export function ListingCard({
 
       <div className="p-3">
         {/* Price */}
-        <div className="mb-2">
+        <div className="mb-2 flex items-center gap-2 flex-wrap">
           {listing.call_for_price ? (
             <strong className="text-2xl leading-tight font-bold text-brand-900">
               Call for Price
@@ -276,6 +290,8 @@ export function ListingCard({
               </span>
             )
           )}
+          <PriceReducedBadge listing={listing} />
+          {isSaleListing && <OpenHouseBadge listing={listing} />}
         </div>
 
         {/* Property specs - bedrooms, bathrooms, building type/parking */}
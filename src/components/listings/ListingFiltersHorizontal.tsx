@@ -3,6 +3,7 @@ import { ChevronDown, X, SlidersHorizontal } from "lucide-react";
 import { listingsService } from "../../services/listings";
 import { MoreFiltersModal } from "./MoreFiltersModal";
 import type { FilterState, SortOption } from "../../hooks/useBrowseFilters";
+import { formatShortDate, todayISODate } from "../../utils/availability";
 
 interface ListingFiltersHorizontalProps {
   filters: FilterState;
@@ -129,11 +130,22 @@ const LEASE_TERM_LABELS: Record<string, string> = {
   winter_rental: "Winter Rental",
 };
 
+const MOVE_IN_PRESETS = [
+  { label: "Now", days: 0 },
+  { label: "Within 30 days", days: 30 },
+  { label: "Within 60 days", days: 60 },
+  { label: "Within 90 days", days: 90 },
+];
+
+const daysFromToday = (days: number) =>
+  todayISODate(new Date(Date.now() + days * 24 * 60 * 60 * 1000));
+
 const SORT_OPTIONS = [
   { value: "newest", label: "Newest First" },
   { value: "oldest", label: "Oldest First" },
   { value: "price_asc", label: "Price: Low to High" },
   { value: "price_desc", label: "Price: High to Low" },
+  { value: "price_reduced", label: "Recently Reduced" },
   { value: "bedrooms_asc", label: "Bedrooms: Low to High" },
   { value: "bedrooms_desc", label: "Bedrooms: High to Low" },
 ];
@@ -181,6 +193,8 @@ export function ListingFiltersHorizontal({
   const [priceInputFocus, setPriceInputFocus] = useState<'min' | 'max' | null>(null);
   const [tempSfMin, setTempSfMin] = useState<string>("");
   const [tempSfMax, setTempSfMax] = useState<string>("");
+  const [tempAvailableFrom, setTempAvailableFrom] = useState<string>("");
+  const [tempAvailableBy, setTempAvailableBy] = useState<string>("");
   const containerRef = useRef<HTMLDivElement>(null);
   const minInputRef = useRef<HTMLInputElement>(null);
   const maxInputRef = useRef<HTMLInputElement>(null);
@@ -258,6 +272,9 @@ export function ListingFiltersHorizontal({
     filters.max_price,
     filters.parking_included,
     filters.no_fee_only,
+    filters.price_reduced_only,
+    filters.available_from,
+    filters.available_by,
     filters.neighborhoods,
     filters.poster_type,
     filters.agency_name,
@@ -273,6 +290,11 @@ export function ListingFiltersHorizontal({
     setTempSfMax(filters.max_sf?.toString() || "");
   }, [filters.min_sf, filters.max_sf]);
 
+  useEffect(() => {
+    setTempAvailableFrom(filters.available_from || "");
+    setTempAvailableBy(filters.available_by || "");
+  }, [filters.available_from, filters.available_by]);
+
   // Set default focus based on listing type
   useEffect(() => {
     if (isMobile && !priceInputFocus) {
@@ -333,6 +355,8 @@ export function ListingFiltersHorizontal({
     setPriceInputFocus(null);
     setTempSfMin("");
     setTempSfMax("");
+    setTempAvailableFrom("");
+    setTempAvailableBy("");
   };
 
   const removeFilter = (filterKey: keyof FilterState) => {
@@ -419,6 +443,14 @@ export function ListingFiltersHorizontal({
     return bedsLabel || bathsLabel;
   };
 
+  const getMoveInLabel = () => {
+    const { available_from: from, available_by: by } = filters;
+    if (from && by) return `Move-in ${formatShortDate(from)} – ${formatShortDate(by)}`;
+    if (by) return by <= todayISODate() ? "Available Now" : `Move-in by ${formatShortDate(by)}`;
+    if (from) return `Move-in from ${formatShortDate(from)}`;
+    return "Move-in";
+  };
+
   const getPriceLabel = () => {
     const formatPrice = (price: number) => {
       if (listingType === "sale") {
@@ -451,8 +483,12 @@ export function ListingFiltersHorizontal({
     filters.max_price ||
     filters.parking_included ||
     filters.no_fee_only ||
+    filters.price_reduced_only ||
+    filters.open_house_this_week ||
     (filters.neighborhoods && filters.neighborhoods.length > 0) ||
     filters.lease_terms?.length ||
+    filters.available_from ||
+    filters.available_by ||
     filters.searchBounds ||
     filters.commercial_space_types?.length ||
     filters.min_sf ||
@@ -473,6 +509,8 @@ export function ListingFiltersHorizontal({
     filters.poster_type ||
     filters.parking_included ||
     filters.no_fee_only ||
+    filters.price_reduced_only ||
+    filters.open_house_this_week ||
     filters.commercial_lease_types?.length ||
     filters.commercial_conditions?.length ||
     filters.building_classes?.length
@@ -757,6 +795,68 @@ export function ListingFiltersHorizontal({
           </div>
         )}
 
+        {listingType === "rental" && (
+          <div>
+            <h3 className="text-base font-semibold text-gray-900 mb-2">
+              Move-in Date
+            </h3>
+            <p className="text-xs text-gray-500 mb-4">
+              Only listings that list an availability date are shown
+            </p>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {MOVE_IN_PRESETS.map((preset) => {
+                const by = daysFromToday(preset.days);
+                const isSelected = !localFilters.available_from && localFilters.available_by === by;
+                return (
+                  <button
+                    key={preset.label}
+                    type="button"
+                    onClick={() =>
+                      setLocalFilters(prev => ({
+                        ...prev,
+                        available_from: undefined,
+                        available_by: isSelected ? undefined : by,
+                      }))
+                    }
+                    className={`px-4 py-2 rounded-full text-sm font-medium transition-all border-2 ${
+                      isSelected
+                        ? "border-green-600 bg-green-50 text-green-700"
+                        : "border-gray-200 bg-white text-gray-600 hover:border-gray-300"
+                    }`}
+                  >
+                    {preset.label}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="flex gap-3 items-center">
+              <label className="flex-1">
+                <span className="block text-xs text-gray-500 mb-1">From</span>
+                <input
+                  type="date"
+                  value={localFilters.available_from || ""}
+                  onChange={(e) =>
+                    setLocalFilters(prev => ({ ...prev, available_from: e.target.value || undefined }))
+                  }
+                  className="w-full px-3 py-2.5 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </label>
+              <label className="flex-1">
+                <span className="block text-xs text-gray-500 mb-1">By</span>
+                <input
+                  type="date"
+                  min={localFilters.available_from || undefined}
+                  value={localFilters.available_by || ""}
+                  onChange={(e) =>
+                    setLocalFilters(prev => ({ ...prev, available_by: e.target.value || undefined }))
+                  }
+                  className="w-full px-3 py-2.5 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </label>
+            </div>
+          </div>
+        )}
+
         <div>
           <h3 className="text-base font-semibold text-gray-900 mb-4">
             Listed By
@@ -871,6 +971,38 @@ export function ListingFiltersHorizontal({
                 No Fee
               </button>
             )}
+            <button
+              onClick={() =>
+                setLocalFilters(prev => ({
+                  ...prev,
+                  price_reduced_only: !prev.price_reduced_only,
+                }))
+              }
+              className={`px-5 py-3 rounded-xl text-sm font-medium transition-all border-2 ${
+                localFilters.price_reduced_only
+                  ? "border-green-600 bg-green-50 text-green-700"
+                  : "border-gray-200 bg-white text-gray-600 hover:border-gray-300"
+              }`}
+            >
+              Price Reduced
+            </button>
+            {listingType === "sale" && (
+              <button
+                onClick={() =>
+                  setLocalFilters(prev => ({
+                    ...prev,
+                    open_house_this_week: !prev.open_house_this_week,
+                  }))
+                }
+                className={`px-5 py-3 rounded-xl text-sm font-medium transition-all border-2 ${
+                  localFilters.open_house_this_week
+                    ? "border-green-600 bg-green-50 text-green-700"
+                    : "border-gray-200 bg-white text-gray-600 hover:border-gray-300"
+                }`}
+              >
+                Open House This Week
+              </button>
+            )}
           </div>
         </div>
 
@@ -910,8 +1042,12 @@ export function ListingFiltersHorizontal({
               localFilters.max_price ||
               localFilters.parking_included ||
               localFilters.no_fee_only ||
+              localFilters.price_reduced_only ||
+              localFilters.open_house_this_week ||
               (localFilters.neighborhoods && localFilters.neighborhoods.length > 0) ||
               localFilters.lease_terms?.length ||
+              localFilters.available_from ||
+              localFilters.available_by ||
               localFilters.searchBounds
             );
             return hasActiveLocalFilters ? (
@@ -1420,6 +1556,92 @@ export function ListingFiltersHorizontal({
           </div>
         </FilterDropdown>}
 
+        {showResidentialFilters && listingType === "rental" && (
+          <FilterDropdown
+            label="Move-in"
+            value={getMoveInLabel()}
+            isActive={!!(filters.available_from || filters.available_by)}
+            isOpen={openDropdown === "move_in"}
+            onToggle={() => toggleDropdown("move_in")}
+          >
+            <div className="p-5 min-w-[300px]">
+              <div className="text-base font-semibold text-gray-900 mb-1">Move-in Date</div>
+              <p className="text-xs text-gray-500 mb-4">
+                Only listings that list an availability date are shown
+              </p>
+              <div className="flex flex-wrap gap-2 mb-4">
+                {MOVE_IN_PRESETS.map((preset) => {
+                  const by = daysFromToday(preset.days);
+                  const isSelected = !tempAvailableFrom && tempAvailableBy === by;
+                  return (
+                    <button
+                      key={preset.label}
+                      type="button"
+                      onClick={() => {
+                        setTempAvailableFrom("");
+                        setTempAvailableBy(isSelected ? "" : by);
+                      }}
+                      className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
+                        isSelected ? "bg-green-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      }`}
+                    >
+                      {preset.label}
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="flex gap-3 items-end mb-4">
+                <label className="flex-1">
+                  <span className="block text-xs text-gray-500 mb-1">Available from</span>
+                  <input
+                    type="date"
+                    value={tempAvailableFrom}
+                    onChange={(e) => setTempAvailableFrom(e.target.value)}
+                    className="w-full px-3 py-2.5 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  />
+                </label>
+                <label className="flex-1">
+                  <span className="block text-xs text-gray-500 mb-1">Available by</span>
+                  <input
+                    type="date"
+                    min={tempAvailableFrom || undefined}
+                    value={tempAvailableBy}
+                    onChange={(e) => setTempAvailableBy(e.target.value)}
+                    className="w-full px-3 py-2.5 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  />
+                </label>
+              </div>
+              <div className="flex items-center gap-3 pt-3 border-t border-gray-100">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setTempAvailableFrom("");
+                    setTempAvailableBy("");
+                  }}
+                  className="text-green-600 hover:text-green-700 font-medium text-sm"
+                >
+                  Clear
+                </button>
+                <div className="flex-1" />
+                <button
+                  type="button"
+                  onClick={() => {
+                    onFiltersChange({
+                      ...filters,
+                      available_from: tempAvailableFrom || undefined,
+                      available_by: tempAvailableBy || undefined,
+                    });
+                    setOpenDropdown(null);
+                  }}
+                  className="px-6 py-2.5 bg-green-600 text-white rounded-lg text-sm font-semibold hover:bg-green-700 transition-colors"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          </FilterDropdown>
+        )}
+
         <button
           onClick={() => setShowMoreFilters(true)}
           className={`flex items-center gap-2 px-4 py-2.5 rounded-full text-sm font-medium transition-all border ${
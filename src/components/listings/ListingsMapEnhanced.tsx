@@ -18,6 +18,11 @@ import { MobileMapListingPopup } from "./MobileMapListingPopup";
 import { MobileMapCommercialPopup } from "./MobileMapCommercialPopup";
 import { isMobileViewport } from "../../utils/deviceDetection";
 import { trackMapPinClick } from "@/lib/analytics";
+import {
+  searchPolygonToGeoJson,
+  type SearchPolygon,
+  type SearchPolygonRing,
+} from "../../utils/searchPolygon";
 
 const BROOKLYN_CENTER: [number, number] = [-73.9442, 40.6782];
 const DEFAULT_ZOOM = 12;
@@ -27,6 +32,16 @@ const PIN_RESIDENTIAL = '#1E4A74'; // brand-700: dark navy
 const PIN_COMMERCIAL = '#0891B2';  // commercial-600: cyan
 const PIN_FEATURED_BORDER = '#7CB342'; // accent-500: green outline for featured
 
+const SEARCH_POLYGON_COLOR = '#1E4A74';
+const SEARCH_POLYGON_SOURCE = 'search-polygon';
+const SEARCH_POLYGON_DRAFT_SOURCE = 'search-polygon-draft';
+// A press that moves further than this (px) is a freehand stroke, not a click.
+const DRAW_DRAG_THRESHOLD_PX = 6;
+// Freehand samples closer than this (px) to the previous one are skipped.
+const DRAW_SAMPLE_SPACING_PX = 4;
+// Clicking within this distance (px) of the first vertex closes the shape.
+const DRAW_CLOSE_RADIUS_PX = 12;
+
 interface MapBounds {
   north: number;
   south: number;
@@ -49,6 +64,16 @@ export interface ListingsMapEnhancedProps {
   userLocation?: { lat: number; lng: number } | null;
   searchBounds?: MapBounds | null;
   searchLocationName?: string;
+  /** Active drawn / boundary search shape, outlined on the map. */
+  searchPolygon?: SearchPolygon | null;
+  /**
+   * While true the map is in draw mode: press-and-drag sketches a freehand
+   * shape, clicks add vertices (double-click or click the first vertex to
+   * finish) and Escape cancels. Panning is disabled until draw mode ends.
+   */
+  isDrawingPolygon?: boolean;
+  onPolygonDrawn?: (ring: SearchPolygonRing) => void;
+  onDrawCancel?: () => void;
   centerOnListings?: { lat: number; lng: number; zoom: number } | null;
   shouldPreservePosition?: boolean;
   isLoading?: boolean;
@@ -78,6 +103,10 @@ export function ListingsMapEnhanced({
   userLocation,
   searchBounds,
   searchLocationName,
+  searchPolygon,
+  isDrawingPolygon = false,
+  onPolygonDrawn,
+  onDrawCancel,
   centerOnListings,
   shouldPreservePosition = false,
   isLoading = false,
@@ -108,6 +137,10 @@ export function ListingsMapEnhanced({
   const [mobileSheetCommercialListing, setMobileSheetCommercialListing] = useState<CommercialListing | null>(null);
   const [isMobileCommercialSheetOpen, setIsMobileCommercialSheetOpen] = useState(false);
   const [isMapDragging, setIsMapDragging] = useState(false);
+  const onPolygonDrawnRef = useRef(onPolygonDrawn);
+  const onDrawCancelRef = useRef(onDrawCancel);
+  onPolygonDrawnRef.current = onPolygonDrawn;
+  onDrawCancelRef.current = onDrawCancel;
 
   const listingsWithCoords = listings.filter(
     (l) => l.latitude != null && l.longitude != null
@@ -1314,6 +1347,175 @@ export function ListingsMapEnhanced({
     });
   }, [visiblePinIds, usePinsForMarkers, removeCustomPopup]);
 
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+    const m = map.current;
+
+    const data = searchPolygonToGeoJson(searchPolygon ?? []);
+    const source = m.getSource(SEARCH_POLYGON_SOURCE) as mapboxgl.GeoJSONSource | undefined;
+    if (source) {
+      source.setData(data);
+      return;
+    }
+
+    m.addSource(SEARCH_POLYGON_SOURCE, { type: "geojson", data });
+    m.addLayer({
+      id: `${SEARCH_POLYGON_SOURCE}-fill`,
+      type: "fill",
+      source: SEARCH_POLYGON_SOURCE,
+      paint: { "fill-color": SEARCH_POLYGON_COLOR, "fill-opacity": 0.08 },
+    });
+    m.addLayer({
+      id: `${SEARCH_POLYGON_SOURCE}-line`,
+      type: "line",
+      source: SEARCH_POLYGON_SOURCE,
+      paint: { "line-color": SEARCH_POLYGON_COLOR, "line-width": 2 },
+    });
+  }, [searchPolygon, mapLoaded]);
+
+  useEffect(() => {
+    if (!map.current || !mapLoaded || !isDrawingPolygon) return;
+    const m = map.current;
+
+    const emptyDraft: GeoJSON.FeatureCollection = { type: "FeatureCollection", features: [] };
+    if (!m.getSource(SEARCH_POLYGON_DRAFT_SOURCE)) {
+      m.addSource(SEARCH_POLYGON_DRAFT_SOURCE, { type: "geojson", data: emptyDraft });
+      m.addLayer({
+        id: `${SEARCH_POLYGON_DRAFT_SOURCE}-line`,
+        type: "line",
+        source: SEARCH_POLYGON_DRAFT_SOURCE,
+        paint: { "line-color": SEARCH_POLYGON_COLOR, "line-width": 2, "line-dasharray": [2, 1] },
+      });
+      m.addLayer({
+        id: `${SEARCH_POLYGON_DRAFT_SOURCE}-vertex`,
+        type: "circle",
+        source: SEARCH_POLYGON_DRAFT_SOURCE,
+        filter: ["==", ["geometry-type"], "Point"],
+        paint: {
+          "circle-radius": 4,
+          "circle-color": "#ffffff",
+          "circle-stroke-color": SEARCH_POLYGON_COLOR,
+          "circle-stroke-width": 2,
+        },
+      });
+    }
+    const draftSource = m.getSource(SEARCH_POLYGON_DRAFT_SOURCE) as mapboxgl.GeoJSONSource;
+
+    // Clicked vertices, or the sampled points of a freehand stroke.
+    let vertices: SearchPolygonRing = [];
+    let isFreehand = false;
+    let pressPoint: mapboxgl.Point | null = null;
+    let lastSample: mapboxgl.Point | null = null;
+
+    const renderDraft = (cursor?: mapboxgl.LngLat) => {
+      const line = cursor && !isFreehand ? [...vertices, [cursor.lng, cursor.lat]] : vertices;
+      const features: GeoJSON.Feature[] = [];
+      if (line.length >= 2) {
+        features.push({ type: "Feature", properties: {}, geometry: { type: "LineString", coordinates: line } });
+      }
+      if (!isFreehand) {
+        for (const vertex of vertices) {
+          features.push({ type: "Feature", properties: {}, geometry: { type: "Point", coordinates: vertex } });
+        }
+      }
+      draftSource.setData({ type: "FeatureCollection", features });
+    };
+
+    const finish = () => {
+      const ring = vertices;
+      vertices = [];
+      isFreehand = false;
+      pressPoint = null;
+      draftSource.setData(emptyDraft);
+      if (ring.length >= 3) {
+        onPolygonDrawnRef.current?.(ring);
+      }
+    };
+
+    const handlePress = (e: mapboxgl.MapMouseEvent | mapboxgl.MapTouchEvent) => {
+      pressPoint = e.point;
+      lastSample = e.point;
+    };
+
+    const handleMove = (e: mapboxgl.MapMouseEvent | mapboxgl.MapTouchEvent) => {
+      if (pressPoint && vertices.length === 0 && !isFreehand && e.point.dist(pressPoint) > DRAW_DRAG_THRESHOLD_PX) {
+        // Dragging before any vertex was clicked starts a freehand sketch.
+        isFreehand = true;
+        const start = m.unproject(pressPoint);
+        vertices = [[start.lng, start.lat]];
+      }
+      if (isFreehand && pressPoint) {
+        if (!lastSample || e.point.dist(lastSample) >= DRAW_SAMPLE_SPACING_PX) {
+          vertices.push([e.lngLat.lng, e.lngLat.lat]);
+          lastSample = e.point;
+          renderDraft();
+        }
+        return;
+      }
+      if (vertices.length > 0) renderDraft(e.lngLat);
+    };
+
+    const handleRelease = (e: mapboxgl.MapMouseEvent | mapboxgl.MapTouchEvent) => {
+      const press = pressPoint;
+      pressPoint = null;
+      if (isFreehand) {
+        finish();
+        return;
+      }
+      if (!press || e.point.dist(press) > DRAW_DRAG_THRESHOLD_PX) return;
+
+      if (vertices.length >= 3) {
+        const first = m.project(vertices[0]);
+        if (e.point.dist(first) <= DRAW_CLOSE_RADIUS_PX) {
+          finish();
+          return;
+        }
+      }
+      vertices.push([e.lngLat.lng, e.lngLat.lat]);
+      renderDraft(e.lngLat);
+    };
+
+    const handleDoubleClick = (e: mapboxgl.MapMouseEvent) => {
+      e.preventDefault();
+      finish();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        draftSource.setData(emptyDraft);
+        onDrawCancelRef.current?.();
+      }
+    };
+
+    m.dragPan.disable();
+    m.doubleClickZoom.disable();
+    m.getCanvas().style.cursor = "crosshair";
+    m.on("mousedown", handlePress);
+    m.on("touchstart", handlePress);
+    m.on("mousemove", handleMove);
+    m.on("touchmove", handleMove);
+    m.on("mouseup", handleRelease);
+    m.on("touchend", handleRelease);
+    m.on("dblclick", handleDoubleClick);
+    window.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      m.off("mousedown", handlePress);
+      m.off("touchstart", handlePress);
+      m.off("mousemove", handleMove);
+      m.off("touchmove", handleMove);
+      m.off("mouseup", handleRelease);
+      m.off("touchend", handleRelease);
+      m.off("dblclick", handleDoubleClick);
+      window.removeEventListener("keydown", handleKeyDown);
+      if (map.current !== m) return;
+      m.dragPan.enable();
+      m.doubleClickZoom.enable();
+      m.getCanvas().style.cursor = "";
+      draftSource.setData(emptyDraft);
+    };
+  }, [isDrawingPolygon, mapLoaded]);
+
   useEffect(() => {
     if (!map.current || !mapLoaded || !userLocation) return;
 
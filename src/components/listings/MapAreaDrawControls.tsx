@@ -0,0 +1,85 @@
+import { PenLine, Plus, X } from "lucide-react";
+
+interface MapAreaDrawControlsProps {
+  isDrawing: boolean;
+  isAddingArea: boolean;
+  hasPolygon: boolean;
+  areaName?: string;
+  onStartDraw: () => void;
+  onAddArea: () => void;
+  onCancelDraw: () => void;
+  onClearArea: () => void;
+}
+
+/**
+ * Map overlay for polygon search: a "Draw area" button, the drawing hint
+ * while draw mode is on, and the active-area pill with add / clear actions.
+ * Rendered in the top-left control stack alongside "Search this area".
+ */
+export function MapAreaDrawControls({
+  isDrawing,
+  isAddingArea,
+  hasPolygon,
+  areaName,
+  onStartDraw,
+  onAddArea,
+  onCancelDraw,
+  onClearArea,
+}: MapAreaDrawControlsProps) {
+  if (isDrawing) {
+    return (
+      <div className="flex items-start gap-3 px-4 py-2 bg-white rounded-lg shadow-lg text-sm text-gray-700 border border-gray-200 max-w-xs">
+        <PenLine className="w-4 h-4 mt-0.5 flex-shrink-0 text-brand-700" />
+        <div className="flex-1">
+          <p className="font-medium text-brand-700">
+            {isAddingArea ? "Add an area" : "Draw your search area"}
+          </p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            Drag to sketch, or click to place points and double-click to finish.
+            {isAddingArea && " You can also search a neighborhood or ZIP to add it."}
+          </p>
+        </div>
+        <button
+          onClick={onCancelDraw}
+          className="text-gray-400 hover:text-gray-700 transition-colors"
+          title="Cancel drawing"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  if (hasPolygon) {
+    return (
+      <div className="flex items-center gap-2 pl-4 pr-2 py-1.5 bg-white rounded-lg shadow-lg text-sm font-medium text-brand-700 border border-gray-200">
+        <PenLine className="w-4 h-4 flex-shrink-0" />
+        <span className="truncate max-w-[12rem]">{areaName || "Drawn Area"}</span>
+        <button
+          onClick={onAddArea}
+          className="flex items-center justify-center w-7 h-7 rounded-md text-gray-600 hover:bg-gray-100 transition-colors"
+          title="Add another area"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onClearArea}
+          className="flex items-center justify-center w-7 h-7 rounded-md text-gray-600 hover:bg-gray-100 transition-colors"
+          title="Clear search area"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      onClick={onStartDraw}
+      className="flex items-center gap-2 px-4 py-2 bg-white rounded-lg shadow-lg text-sm font-medium text-brand-700 hover:bg-gray-50 transition-colors border border-gray-200"
+    >
+      <PenLine className="w-4 h-4" />
+      Draw area
+    </button>
+  );
+}
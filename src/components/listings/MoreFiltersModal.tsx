@@ -468,12 +468,12 @@ export function MoreFiltersModal({
               </div>
             )}
 
-            {showResidential && (
-              <div>
-                <h3 className="text-base font-semibold text-gray-900 mb-4">
-                  More Options
-                </h3>
-                <div className="flex flex-wrap gap-3">
+            <div>
+              <h3 className="text-base font-semibold text-gray-900 mb-4">
+                More Options
+              </h3>
+              <div className="flex flex-wrap gap-3">
+                {showResidential && (
                   <button
                     type="button"
                     onClick={() =>
@@ -490,27 +490,61 @@ export function MoreFiltersModal({
                   >
                     Parking Included
                   </button>
-                  {listingType === "rental" && (
-                    <button
-                      type="button"
-                      onClick={() =>
-                        handleLocalFilterChange(
-                          "no_fee_only",
-                          !localFilters.no_fee_only
-                        )
-                      }
-                      className={`px-5 py-3 rounded-xl text-sm font-medium transition-all border-2 ${
-                        localFilters.no_fee_only
-                          ? "border-green-600 bg-green-50 text-green-700"
-                          : "border-gray-200 bg-white text-gray-600 hover:border-gray-300"
-                      }`}
-                    >
-                      No Fee Only
-                    </button>
-                  )}
-                </div>
+                )}
+                {showResidential && listingType === "rental" && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      handleLocalFilterChange(
+                        "no_fee_only",
+                        !localFilters.no_fee_only
+                      )
+                    }
+                    className={`px-5 py-3 rounded-xl text-sm font-medium transition-all border-2 ${
+                      localFilters.no_fee_only
+                        ? "border-green-600 bg-green-50 text-green-700"
+                        : "border-gray-200 bg-white text-gray-600 hover:border-gray-300"
+                    }`}
+                  >
+                    No Fee Only
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() =>
+                    handleLocalFilterChange(
+                      "price_reduced_only",
+                      !localFilters.price_reduced_only
+                    )
+                  }
+                  className={`px-5 py-3 rounded-xl text-sm font-medium transition-all border-2 ${
+                    localFilters.price_reduced_only
+                      ? "border-green-600 bg-green-50 text-green-700"
+                      : "border-gray-200 bg-white text-gray-600 hover:border-gray-300"
+                  }`}
+                >
+                  Price Reduced
+                </button>
+                {listingType === "sale" && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      handleLocalFilterChange(
+                        "open_house_this_week",
+                        !localFilters.open_house_this_week
+                      )
+                    }
+                    className={`px-5 py-3 rounded-xl text-sm font-medium transition-all border-2 ${
+                      localFilters.open_house_this_week
+                        ? "border-green-600 bg-green-50 text-green-700"
+                        : "border-gray-200 bg-white text-gray-600 hover:border-gray-300"
+                    }`}
+                  >
+                    Open House This Week
+                  </button>
+                )}
               </div>
-            )}
+            </div>
           </div>
         </div>
 
@@ -0,0 +1,23 @@
+import { CalendarClock } from 'lucide-react';
+import type { OpenHouse } from '../../config/supabase';
+import { getNextOpenHouse, isOpenHouseThisWeek } from '../../services/openHouses';
+import { formatOpenHouseBadge } from '../../utils/openHouses';
+
+interface OpenHouseBadgeProps {
+  listing: { open_houses?: Pick<OpenHouse, 'starts_at' | 'ends_at'>[] | null };
+  size?: 'sm' | 'md';
+}
+
+export function OpenHouseBadge({ listing, size = 'sm' }: OpenHouseBadgeProps) {
+  const next = getNextOpenHouse(listing.open_houses);
+  if (!next || !isOpenHouseThisWeek(next)) return null;
+
+  const sizeClasses = size === 'sm' ? 'px-2 py-0.5 text-xs' : 'px-2.5 py-1 text-sm';
+
+  return (
+    <span className={`inline-flex items-center gap-1 rounded-full font-medium whitespace-nowrap bg-sky-100 text-sky-800 ${sizeClasses}`}>
+      <CalendarClock className={size === 'sm' ? 'w-3 h-3' : 'w-3.5 h-3.5'} />
+      {formatOpenHouseBadge(next)}
+    </span>
+  );
+}
@@ -0,0 +1,24 @@
+import { TrendingDown } from 'lucide-react';
+import { isRecentlyReduced } from '../../services/priceHistory';
+
+interface PriceReducedBadgeProps {
+  listing: {
+    price_reduced_at?: string | null;
+    previous_price?: number | null;
+    call_for_price?: boolean | null;
+  };
+  size?: 'sm' | 'md';
+}
+
+export function PriceReducedBadge({ listing, size = 'sm' }: PriceReducedBadgeProps) {
+  if (!isRecentlyReduced(listing)) return null;
+
+  const sizeClasses = size === 'sm' ? 'px-2 py-0.5 text-xs' : 'px-2.5 py-1 text-sm';
+
+  return (
+    <span className={`inline-flex items-center gap-1 rounded-full font-medium whitespace-nowrap bg-emerald-100 text-emerald-800 ${sizeClasses}`}>
+      <TrendingDown className={size === 'sm' ? 'w-3 h-3' : 'w-3.5 h-3.5'} />
+      Price reduced
+    </span>
+  );
+}
@@ -0,0 +1,188 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { BellPlus } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { Modal } from "../shared/Modal";
+import { Toast } from "../shared/Toast";
+import type { FilterState } from "../../hooks/useBrowseFilters";
+import { savedSearchesService, summarizeSearchFilters } from "../../services/savedSearches";
+import { whatsappService } from "../../services/whatsapp";
+import {
+  SAVED_SEARCH_CHANNEL_LABELS,
+  SAVED_SEARCH_FREQUENCY_LABELS,
+  type SavedSearchChannel,
+  type SavedSearchFrequency,
+  type SavedSearchMode,
+} from "../../types/savedSearches";
+import { gaEvent } from "@/lib/ga";
+
+interface SaveSearchButtonProps {
+  filters: FilterState;
+  mode: SavedSearchMode;
+  compact?: boolean;
+}
+
+export function SaveSearchButton({ filters, mode, compact = false }: SaveSearchButtonProps) {
+  const { user, profile } = useAuth();
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [channel, setChannel] = useState<SavedSearchChannel>("email");
+  const [frequency, setFrequency] = useState<SavedSearchFrequency>("instant");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const [whatsappOn, setWhatsappOn] = useState(false);
+
+  const hasPhone = !!profile?.phone?.trim();
+
+  const handleOpen = () => {
+    if (!user) {
+      navigate("/auth", { state: { isSignUp: true } });
+      return;
+    }
+    setName(summarizeSearchFilters(filters, mode));
+    setChannel("email");
+    setFrequency("instant");
+    setError(null);
+    setIsOpen(true);
+    whatsappService
+      .getMyContact(user.id)
+      .then((contact) => setWhatsappOn(!!contact?.opted_in))
+      .catch((err) => console.error("Error loading WhatsApp opt-in:", err));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !name.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await savedSearchesService.createSavedSearch({
+        userId: user.id,
+        name,
+        mode,
+        filters,
+        channel,
+        frequency,
+      });
+      gaEvent("saved_search_create", { mode, channel, frequency });
+      setIsOpen(false);
+      setToastMessage("Search saved. We'll let you know when new listings match.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save search");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={handleOpen}
+        className={
+          compact
+            ? "flex items-center gap-2 px-4 py-2 bg-gray-100 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-200 transition-colors"
+            : "flex items-center gap-2 text-gray-700 hover:text-gray-900 transition-colors"
+        }
+      >
+        <BellPlus className="w-4 h-4" />
+        <span className="text-sm font-medium">{compact ? "Alert" : "Save search"}</span>
+      </button>
+
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title="Save this search" size="md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="p-3 rounded-md bg-red-50 border border-red-200 text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="saved-search-name" className="block text-sm font-medium text-gray-700 mb-1">
+              Name
+            </label>
+            <input
+              id="saved-search-name"
+              type="text"
+              value={name}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#4E4B43] focus:border-transparent"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Send alerts by</label>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(SAVED_SEARCH_CHANNEL_LABELS) as SavedSearchChannel[]).map((c) => (
+                <button
+                  key={c}
+                  type="button"
+                  onClick={() => setChannel(c)}
+                  disabled={(c === "sms" && !hasPhone) || (c === "whatsapp" && !whatsappOn)}
+                  className={`px-3 py-2 rounded-md border text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                    channel === c
+                      ? "border-[#4E4B43] bg-[#4E4B43] text-white"
+                      : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  {SAVED_SEARCH_CHANNEL_LABELS[c]}
+                </button>
+              ))}
+            </div>
+            {!hasPhone ? (
+              <p className="text-xs text-gray-500 mt-1">
+                Add a phone number in Account Settings to get text or WhatsApp alerts.
+              </p>
+            ) : !whatsappOn && (
+              <p className="text-xs text-gray-500 mt-1">
+                Turn on WhatsApp in Account Settings to get alerts there.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="saved-search-frequency" className="block text-sm font-medium text-gray-700 mb-1">
+              How often
+            </label>
+            <select
+              id="saved-search-frequency"
+              value={frequency}
+              onChange={(e) => setFrequency(e.target.value as SavedSearchFrequency)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#4E4B43] focus:border-transparent"
+            >
+              {(Object.keys(SAVED_SEARCH_FREQUENCY_LABELS) as SavedSearchFrequency[]).map((f) => (
+                <option key={f} value={f}>
+                  {SAVED_SEARCH_FREQUENCY_LABELS[f]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !name.trim()}
+              className="px-4 py-2 bg-[#4E4B43] text-white rounded-md text-sm font-medium hover:bg-[#3a3832] transition-colors disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save search"}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      {toastMessage && <Toast message={toastMessage} onClose={() => setToastMessage(null)} />}
+    </>
+  );
+}
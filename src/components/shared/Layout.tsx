@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { Link, useNavigate, useLocation } from "react-router-dom";
-import { Home, Search, Plus, User, Heart, LogOut, Settings, LayoutDashboard, Menu, X, Building2, Paintbrush, CreditCard } from "lucide-react";
+import { Home, Search, Plus, User, Heart, LogOut, Settings, LayoutDashboard, Menu, X, Building2, Paintbrush, CreditCard, MessageSquare } from "lucide-react";
 import { useAuth, AUTH_CONTEXT_ID } from "@/hooks/useAuth";
 import { useAnalyticsInit } from "@/hooks/useAnalyticsInit";
 import { Footer } from "./Footer";
@@ -9,6 +9,7 @@ import { capitalizeName } from "../../utils/formatters";
 import { supabase, type Agency } from "@/config/supabase";
 import { agenciesService } from "@/services/agencies";
 import { salesService } from "@/services/sales";
+import { messagesService } from "@/services/messages";
 import {
   queryClient,
   queryKeys,
@@ -32,6 +33,7 @@ export function Layout({ children }: LayoutProps) {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [ownedAgency, setOwnedAgency] = useState<Agency | null>(null);
   const [salesFeatureEnabled, setSalesFeatureEnabled] = useState(false);
+  const [unreadMessages, setUnreadMessages] = useState(0);
   const userMenuRef = React.useRef<HTMLDivElement>(null);
   const prevUserRef = React.useRef<typeof user>(null);
   const prevPathnameRef = React.useRef<string>(location.pathname);
@@ -50,6 +52,36 @@ export function Layout({ children }: LayoutProps) {
     loadSalesFeatureStatus();
   }, []);
 
+  // Unread message threads for the header badge. Re-checked on navigation;
+  // the inbox (MessagesTab) pushes updates through the same cache key when a
+  // thread is opened.
+  useEffect(() => {
+    const userId = user?.id;
+    if (!userId) {
+      setUnreadMessages(0);
+      return;
+    }
+
+    let isActive = true;
+    const unreadKey = queryKeys.unreadMessageThreads(userId);
+
+    messagesService
+      .getUnreadCount()
+      .then((count) => {
+        if (isActive) queryClient.setQueryData(unreadKey, count);
+      })
+      .catch((error) => console.error("[Layout] failed to load unread messages", error));
+
+    const unsubscribe = queryClient.subscribe<number>(unreadKey, (count) => {
+      if (isActive) setUnreadMessages(count ?? 0);
+    });
+
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, [user?.id, location.pathname]);
+
   // Close dropdown menu when user logs in
   useEffect(() => {
     // If user was null (logged out) and now has a value (logged in)
@@ -309,7 +341,14 @@ export function Layout({ children }: LayoutProps) {
                     onClick={() => setShowUserMenu(!showUserMenu)}
                     className="flex items-center space-x-2 text-white hover:opacity-90 transition-opacity focus:outline-none focus:ring-2 focus:ring-white/40"
                   >
-                    <User className="w-5 h-5" />
+                    <span className="relative">
+                      <User className="w-5 h-5" />
+                      {unreadMessages > 0 && (
+                        <span className="absolute -top-1.5 -right-2 min-w-[16px] h-4 px-1 rounded-full bg-red-500 text-[10px] font-semibold leading-4 text-center text-white">
+                          {unreadMessages > 9 ? "9+" : unreadMessages}
+                        </span>
+                      )}
+                    </span>
                     <span className="hidden sm:flex flex-col leading-tight">
                       <span className="text-sm font-medium">My Account</span>
                       {(agencyName || profile?.full_name) && (
@@ -345,6 +384,19 @@ export function Layout({ children }: LayoutProps) {
                           <Heart className="w-4 h-4 mr-2" />
                           Favorites
                         </Link>
+                        <Link
+                          to="/account?tab=messages"
+                          className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                          onClick={() => setShowUserMenu(false)}
+                        >
+                          <MessageSquare className="w-4 h-4 mr-2" />
+                          Messages
+                          {unreadMessages > 0 && (
+                            <span className="ml-auto rounded-full bg-red-500 px-1.5 text-xs font-semibold text-white">
+                              {unreadMessages}
+                            </span>
+                          )}
+                        </Link>
                         <Link
                           to="/account?tab=billing"
                           className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
@@ -422,9 +474,12 @@ export function Layout({ children }: LayoutProps) {
             <div className="md:hidden flex items-center">
               <button
                 onClick={() => setIsMobileMenuOpen(true)}
-                className="p-2 text-white hover:opacity-90 transition-opacity focus:outline-none focus:ring-2 focus:ring-white/40"
+                className="relative p-2 text-white hover:opacity-90 transition-opacity focus:outline-none focus:ring-2 focus:ring-white/40"
               >
                 <Menu className="w-6 h-6" />
+                {unreadMessages > 0 && (
+                  <span className="absolute top-1.5 right-1.5 w-2.5 h-2.5 rounded-full bg-red-500 ring-2 ring-brand-800" />
+                )}
               </button>
             </div>
           </div>
@@ -560,6 +615,19 @@ export function Layout({ children }: LayoutProps) {
                         <Heart className="w-5 h-5 mr-3" />
                         Favorites
                       </Link>
+                      <Link
+                        to="/account?tab=messages"
+                        onClick={() => setIsMobileMenuOpen(false)}
+                        className="flex items-center px-4 py-3 text-base font-medium text-gray-600 hover:text-[#273140] hover:bg-gray-50 rounded-md transition-colors"
+                      >
+                        <MessageSquare className="w-5 h-5 mr-3" />
+                        Messages
+                        {unreadMessages > 0 && (
+                          <span className="ml-auto rounded-full bg-red-500 px-2 text-xs font-semibold text-white">
+                            {unreadMessages}
+                          </span>
+                        )}
+                      </Link>
                       <Link
                         to="/account?tab=billing"
                         onClick={() => setIsMobileMenuOpen(false)}
@@ -95,6 +95,8 @@ export interface Listing {
   dishwasher: boolean;
   broker_fee: boolean;
   lease_length?: LeaseLength | null;
+  /** YYYY-MM-DD; on or before today means available now. */
+  available_date?: string | null;
   heat: HeatType;
   property_type: PropertyType;
   contact_name: string;
@@ -140,8 +142,12 @@ export interface Listing {
   featured_expires_at?: string | null;
   featured_started_at?: string | null;
   featured_plan?: string | null;
+  previous_price?: number | null;
+  price_reduced_at?: string | null;
   owner?: Profile;
   listing_images?: ListingImage[];
+  /** Embedded by the sale browse queries — upcoming slots only. */
+  open_houses?: OpenHouse[];
   is_favorited?: boolean;
 }
 
@@ -160,6 +166,17 @@ export interface ListingImage {
   created_at: string;
 }
 
+export interface OpenHouse {
+  id: string;
+  listing_id?: string | null;
+  commercial_listing_id?: string | null;
+  starts_at: string;
+  ends_at: string;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+}
+
 export interface TempListingImage {
   filePath: string;
   publicUrl: string;
@@ -434,14 +451,28 @@ export interface CommercialListing {
   current_lease_expiration: string | null;
   current_lease_rent: number | null;
   sale_status?: SaleStatus | null;
+  previous_price?: number | null;
+  price_reduced_at?: string | null;
   owner?: Profile;
   listing_images?: CommercialListingImage[];
+  /** Embedded by the sale browse queries — upcoming slots only. */
+  open_houses?: OpenHouse[];
   is_favorited?: boolean;
 }
 
 export type CallStatus = 'pending_call' | 'called_no_answer' | 'called_declined' | 'approved' | 'published' | 'suppressed';
 export type GeocodeStatus = 'success' | 'failed';
-export type MatchStatus = 'no_match' | 'matched' | 'partial_match';
+export type MatchStatus = 'unchecked' | 'no_match' | 'matched' | 'partial_match';
+
+/** Which signals agreed with the matched live listing (_shared/scrapedListingMatch.ts). */
+export interface ScrapedMatchDetails {
+  phone: boolean | null;
+  streets: 'both' | 'one' | 'none' | null;
+  distance_m: number | null;
+  bedrooms: boolean | null;
+  price_diff_pct: number | null;
+  candidates: number;
+}
 export type ScrapedContactType = 'agent' | 'individual' | 'unknown';
 
 export interface ScrapedListing {
@@ -464,6 +495,10 @@ export interface ScrapedListing {
   longitude: number | null;
   geocode_status: GeocodeStatus | null;
   match_status: MatchStatus;
+  /** 0-100 score of the best live candidate; null until checked. */
+  match_score?: number | null;
+  match_checked_at?: string | null;
+  match_details?: ScrapedMatchDetails | null;
   existing_listing_id: string | null;
   times_seen: number;
   date_first_seen: string;
@@ -484,11 +519,21 @@ export interface ScrapedListing {
   separate_entrance: boolean | null;
   floor: number | null;
   square_footage: number | null;
+  /** Parsed form fields with no scraped_listings column of their own (see _shared/intake.ts). */
+  intake_extra?: { available_date?: string | null; [key: string]: unknown } | null;
   source: string | null;
   pdf_date: string | null;
   dedup_key: string | null;
   call_status: CallStatus;
   call_notes: string | null;
+  /** Admin calling this lead (20261018200000_pipeline_call_queue.sql). */
+  caller_id?: string | null;
+  callback_at?: string | null;
+  last_called_at?: string | null;
+  /** Issues of its source missed since last seen (20261018210000_pamphlet_issue_diffing.sql). */
+  missed_issues?: number;
+  dropped_at?: string | null;
+  still_available_sms_at?: string | null;
   published_listing_id: string | null;
   created_at: string;
   updated_at: string;
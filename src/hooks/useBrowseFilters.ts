@@ -1,7 +1,14 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useSearchParams, useLocation } from 'react-router-dom';
+import {
+  decodeSearchPolygon,
+  encodeSearchPolygon,
+  getSearchPolygonBounds,
+  mergeSearchPolygons,
+  type SearchPolygon,
+} from '../utils/searchPolygon';
 
-export type SortOption = 'newest' | 'oldest' | 'price_asc' | 'price_desc' | 'bedrooms_asc' | 'bedrooms_desc' | 'bathrooms_asc' | 'bathrooms_desc';
+export type SortOption = 'newest' | 'oldest' | 'price_asc' | 'price_desc' | 'bedrooms_asc' | 'bedrooms_desc' | 'bathrooms_asc' | 'bathrooms_desc' | 'price_reduced';
 
 export type ListingTypeFilter = 'all' | 'residential' | 'commercial';
 
@@ -24,11 +31,19 @@ export interface FilterState {
   max_price?: number;
   parking_included?: boolean;
   no_fee_only?: boolean;
+  price_reduced_only?: boolean;
+  /** Sales only — listings with an open house in the next 7 days. */
+  open_house_this_week?: boolean;
   neighborhoods?: string[];
   lease_terms?: string[];
+  /** Move-in window, YYYY-MM-DD. Listings without an available_date are excluded. */
+  available_from?: string;
+  available_by?: string;
   sort?: SortOption;
   searchBounds?: MapBounds | null;
   searchLocationName?: string;
+  /** Drawn shape or neighborhood/ZIP boundaries; searchBounds holds its bbox. */
+  searchPolygon?: SearchPolygon;
   listingTypeFilter?: ListingTypeFilter;
   commercial_space_types?: string[];
   min_sf?: number;
@@ -45,9 +60,10 @@ interface BrowseState {
 }
 
 const BROWSE_STATE_KEY_BASE = 'browse_state';
+const ISO_DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
 const SCROLL_RESTORE_KEY = 'browse_scroll_restore';
 
-function filtersToSearchParams(filters: FilterState, page: number): URLSearchParams {
+export function filtersToSearchParams(filters: FilterState, page: number): URLSearchParams {
   const params = new URLSearchParams();
 
   if (filters.bedrooms && filters.bedrooms.length > 0) {
@@ -69,12 +85,16 @@ function filtersToSearchParams(filters: FilterState, page: number): URLSearchPar
   if (filters.max_price) params.set('max_price', filters.max_price.toString());
   if (filters.parking_included) params.set('parking_included', 'true');
   if (filters.no_fee_only) params.set('no_fee_only', '1');
+  if (filters.price_reduced_only) params.set('price_reduced', '1');
+  if (filters.open_house_this_week) params.set('open_house', 'week');
   if (filters.neighborhoods && filters.neighborhoods.length > 0) {
     params.set('neighborhoods', filters.neighborhoods.join(','));
   }
   if (filters.lease_terms && filters.lease_terms.length > 0) {
     params.set('lease_terms', filters.lease_terms.join(','));
   }
+  if (filters.available_from) params.set('available_from', filters.available_from);
+  if (filters.available_by) params.set('available_by', filters.available_by);
   if (filters.sort) params.set('sort', filters.sort);
   if (filters.searchBounds) {
     params.set('bounds_n', filters.searchBounds.north.toString());
@@ -85,6 +105,9 @@ function filtersToSearchParams(filters: FilterState, page: number): URLSearchPar
   if (filters.searchLocationName) {
     params.set('area_name', filters.searchLocationName);
   }
+  if (filters.searchPolygon && filters.searchPolygon.length > 0) {
+    params.set('poly', encodeSearchPolygon(filters.searchPolygon));
+  }
   if (filters.listingTypeFilter && filters.listingTypeFilter !== 'all') {
     params.set('listing_type_filter', filters.listingTypeFilter);
   }
@@ -107,6 +130,27 @@ function filtersToSearchParams(filters: FilterState, page: number): URLSearchPar
   return params;
 }
 
+/**
+ * Sets the polygon search area (bbox mirrored into searchBounds so the map
+ * fits it and bounds-based fetches stay tight). With `append`, the shape is
+ * unioned into the existing area and the names are joined.
+ */
+export function withSearchPolygon(
+  filters: FilterState,
+  polygon: SearchPolygon,
+  name: string,
+  append = false,
+): FilterState {
+  const adding = append && !!filters.searchPolygon?.length;
+  const merged = adding ? mergeSearchPolygons(filters.searchPolygon, polygon) : mergeSearchPolygons(polygon);
+  return {
+    ...filters,
+    searchPolygon: merged,
+    searchBounds: getSearchPolygonBounds(merged),
+    searchLocationName: adding && filters.searchLocationName ? `${filters.searchLocationName} + ${name}` : name,
+  };
+}
+
 export function useBrowseFilters(mode: 'rental' | 'sales' = 'rental') {
   const BROWSE_STATE_KEY = `${BROWSE_STATE_KEY_BASE}_${mode}`;
   const [searchParams, setSearchParams] = useSearchParams();
@@ -202,6 +246,12 @@ export function useBrowseFilters(mode: 'rental' | 'sales' = 'rental') {
     const no_fee_only = params.get('no_fee_only');
     if (no_fee_only === '1' || no_fee_only === 'true') urlFilters.no_fee_only = true;
 
+    const price_reduced = params.get('price_reduced');
+    if (price_reduced === '1') urlFilters.price_reduced_only = true;
+
+    const open_house = params.get('open_house');
+    if (open_house === 'week') urlFilters.open_house_this_week = true;
+
     const neighborhoods = params.get('neighborhoods');
     if (neighborhoods) {
       urlFilters.neighborhoods = neighborhoods.split(',').filter(Boolean);
@@ -212,6 +262,12 @@ export function useBrowseFilters(mode: 'rental' | 'sales' = 'rental') {
       urlFilters.lease_terms = lease_terms.split(',').filter(Boolean);
     }
 
+    const available_from = params.get('available_from');
+    if (available_from && ISO_DATE_PARAM.test(available_from)) urlFilters.available_from = available_from;
+
+    const available_by = params.get('available_by');
+    if (available_by && ISO_DATE_PARAM.test(available_by)) urlFilters.available_by = available_by;
+
     const sort = params.get('sort');
     if (sort) urlFilters.sort = sort as SortOption;
 
@@ -232,6 +288,9 @@ export function useBrowseFilters(mode: 'rental' | 'sales' = 'rental') {
     const areaName = params.get('area_name');
     if (areaName) urlFilters.searchLocationName = areaName;
 
+    const searchPolygon = decodeSearchPolygon(params.get('poly'));
+    if (searchPolygon) urlFilters.searchPolygon = searchPolygon;
+
     const listingTypeFilter = params.get('listing_type_filter');
     if (listingTypeFilter === 'residential' || listingTypeFilter === 'commercial') {
       urlFilters.listingTypeFilter = listingTypeFilter;
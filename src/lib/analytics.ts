@@ -518,7 +518,7 @@ export function trackMapPinClick(listingId: string): void {
   track('map_pin_click', { listing_id: listingId });
 }
 
-export type LoginGateAction = 'reveal_phone' | 'send_callback';
+export type LoginGateAction = 'reveal_phone' | 'send_callback' | 'download_document';
 export type LoginGateListingType = 'rental' | 'commercial';
 export type LoginGateMethod = 'email_signin' | 'email_signup' | 'google';
 
@@ -1,17 +1,21 @@
 import React from "react";
 import { useSearchParams, Navigate } from "react-router-dom";
-import { LayoutDashboard, Heart, CreditCard, Settings } from "lucide-react";
+import { LayoutDashboard, Heart, MessageSquare, Bell, CreditCard, Settings } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { Dashboard } from "./Dashboard";
 import { Favorites } from "./Favorites";
 import BillingTab from "../components/billing/BillingTab";
 import SettingsTab from "../components/account/SettingsTab";
+import SavedSearchesTab from "../components/account/SavedSearchesTab";
+import MessagesTab from "../components/account/MessagesTab";
 
-type AccountTab = "listings" | "favorites" | "billing" | "settings";
+type AccountTab = "listings" | "favorites" | "messages" | "alerts" | "billing" | "settings";
 
 const ACCOUNT_TABS: { id: AccountTab; label: string; icon: React.ElementType }[] = [
   { id: "listings", label: "My Listings", icon: LayoutDashboard },
   { id: "favorites", label: "Favorites", icon: Heart },
+  { id: "messages", label: "Messages", icon: MessageSquare },
+  { id: "alerts", label: "Saved Searches", icon: Bell },
   { id: "billing", label: "Billing", icon: CreditCard },
   { id: "settings", label: "Settings", icon: Settings },
 ];
@@ -22,7 +26,7 @@ export function Account() {
 
   const rawTab = searchParams.get("tab");
   const activeTab: AccountTab =
-    rawTab === "favorites" || rawTab === "billing" || rawTab === "settings"
+    rawTab === "favorites" || rawTab === "messages" || rawTab === "alerts" || rawTab === "billing" || rawTab === "settings"
       ? rawTab
       : "listings";
 
@@ -70,6 +74,8 @@ export function Account() {
 
       {activeTab === "listings" && <Dashboard />}
       {activeTab === "favorites" && <Favorites />}
+      {activeTab === "messages" && <MessagesTab />}
+      {activeTab === "alerts" && <SavedSearchesTab />}
       {activeTab === "billing" && <BillingTab />}
       {activeTab === "settings" && <SettingsTab />}
     </div>
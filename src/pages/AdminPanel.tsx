@@ -13,10 +13,14 @@ import { SalesManagement } from '@/components/admin/SalesManagement';
 import { AdminFeatureModal } from '@/components/admin/AdminFeatureModal';
 import { ConciergeManagement } from '@/components/admin/ConciergeManagement';
 import { PipelineManagement } from '@/components/admin/PipelineManagement';
+import { SmsManagement } from '@/components/admin/SmsManagement';
 import { AdminListingMapModal } from '@/components/admin/AdminListingMapModal';
 import { Briefcase, GitBranch, Map, Crown, Wallet } from 'lucide-react';
 import { GrantDaysModal } from '../components/admin/GrantDaysModal';
 import { ChargeListingModal } from '../components/admin/ChargeListingModal';
+import { emailSuppressionService } from '../services/emailSuppression';
+import { EMAIL_SUPPRESSION_REASON_LABELS } from '../types/emailDelivery';
+import type { EmailSuppression } from '../types/emailDelivery';
 
 const ADMIN_TAB_KEYS = [
   'overview',
@@ -26,6 +30,7 @@ const ADMIN_TAB_KEYS = [
   'sales',
   'concierge',
   'pipeline',
+  'sms',
 ] as const;
 
 type AdminTabKey = (typeof ADMIN_TAB_KEYS)[number];
@@ -39,6 +44,7 @@ const ADMIN_TABS: { id: AdminTabKey; label: string; icon: React.ElementType }[]
   { id: 'listings', label: 'Listings', icon: Home },
   { id: 'pending', label: 'Pending', icon: Eye },
   { id: 'pipeline', label: 'Pipeline', icon: GitBranch },
+  { id: 'sms', label: 'SMS', icon: MessageSquare },
 ];
 
 interface AdminStats {
@@ -91,6 +97,7 @@ export function AdminPanel() {
     activeUsers: 0,
   });
   const [users, setUsers] = useState<Profile[]>([]);
+  const [emailSuppressions, setEmailSuppressions] = useState<Record<string, EmailSuppression>>({});
   const [listings, setListings] = useState<Listing[]>([]);
   const [pendingListings, setPendingListings] = useState<PendingItem[]>([]);
   const [mapModalListing, setMapModalListing] = useState<Listing | null>(null);
@@ -448,6 +455,14 @@ export function AdminPanel() {
 
       setPendingListings(combined);
       setUsers(allUsers || []);
+
+      // Bounced / complaining addresses, flagged in the users table. Not
+      // critical — the table still loads without them.
+      try {
+        setEmailSuppressions(await emailSuppressionService.getSuppressions());
+      } catch (error) {
+        console.error('Error loading email suppressions:', error);
+      }
       
       // Apply date filtering (residential + commercial)
       let filteredData = [...(allListings || []), ...commercialAsListings];
@@ -695,6 +710,25 @@ export function AdminPanel() {
     }
   };
 
+  const emailSuppressionFor = (email?: string | null) =>
+    email ? emailSuppressions[email.trim().toLowerCase()] : undefined;
+
+  const handleClearEmailSuppression = async (email: string) => {
+    if (!window.confirm(`Start emailing ${email} again? Only do this if the address has been fixed.`)) return;
+    try {
+      await emailSuppressionService.removeSuppression(email);
+      setEmailSuppressions(prev => {
+        const next = { ...prev };
+        delete next[email.trim().toLowerCase()];
+        return next;
+      });
+      setToast({ message: 'Email address re-enabled', tone: 'success' });
+    } catch (error) {
+      console.error('Error clearing email suppression:', error);
+      setToast({ message: "Couldn't re-enable this address. Try again.", tone: 'error' });
+    }
+  };
+
   const updateUserRole = async (userId: string, newRole: string) => {
     setActionLoading(userId);
     try {
@@ -1353,6 +1387,23 @@ export function AdminPanel() {
                               <div className="text-xs text-gray-500 break-all">
                                 {user.email || 'No email'}
                               </div>
+                              {emailSuppressionFor(user.email) && (
+                                <div className="flex items-center gap-2">
+                                  <span
+                                    className="inline-flex items-center rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-800"
+                                    title={emailSuppressionFor(user.email)!.details || undefined}
+                                  >
+                                    {EMAIL_SUPPRESSION_REASON_LABELS[emailSuppressionFor(user.email)!.reason]}
+                                  </span>
+                                  <button
+                                    type="button"
+                                    onClick={() => handleClearEmailSuppression(user.email!)}
+                                    className="text-xs text-gray-500 underline hover:text-gray-700"
+                                  >
+                                    Re-enable
+                                  </button>
+                                </div>
+                              )}
                             </div>
                           </td>
                           <td className="px-4 py-3 align-top">
@@ -2220,6 +2271,8 @@ export function AdminPanel() {
           {activeTab === 'concierge' && <ConciergeManagement />}
 
           {activeTab === 'pipeline' && <PipelineManagement />}
+
+          {activeTab === 'sms' && <SmsManagement />}
         </>
       )}
 
@@ -0,0 +1,535 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, Navigate } from "react-router-dom";
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle2,
+  FileSpreadsheet,
+  Loader2,
+  Upload,
+} from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useMonetizationGate } from "@/hooks/useMonetizationGate";
+import { agenciesService } from "@/services/agencies";
+import { getAdminActiveDays } from "@/services/listings";
+import {
+  listingImportService,
+  type ImportContext,
+  type ImportRowPreview,
+  type ImportRowResult,
+} from "@/services/listingImport";
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  autoMapColumns,
+  buildImportRow,
+  readImportFile,
+  type ImportColumnMapping,
+  type ImportFieldKey,
+  type ImportSheet,
+} from "@/utils/listingImport";
+import { todayISODate } from "@/utils/availability";
+import { gaEvent } from "@/lib/ga";
+
+type ImportStep = "upload" | "map" | "preview" | "importing" | "done";
+
+const STEP_LABELS: { key: ImportStep; label: string }[] = [
+  { key: "upload", label: "Upload" },
+  { key: "map", label: "Map columns" },
+  { key: "preview", label: "Preview" },
+  { key: "done", label: "Import" },
+];
+
+export function AgencyBulkImport() {
+  const { user, profile, loading: authLoading } = useAuth();
+  const isAdmin = profile?.is_admin === true;
+  const isAgent = profile?.role === "agent";
+  const canAccess = isAdmin || isAgent;
+
+  const gate = useMonetizationGate({
+    contactPhone: "",
+    isAdmin,
+    enabled: !!user && canAccess,
+  });
+
+  const [agencyId, setAgencyId] = useState<string | null>(null);
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [defaults, setDefaults] = useState({ contact_name: "", contact_phone: "" });
+  const [preview, setPreview] = useState<ImportRowPreview[]>([]);
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [progress, setProgress] = useState(0);
+  const [termsAgreed, setTermsAgreed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!profile?.id) return;
+    setDefaults((prev) => ({
+      contact_name: prev.contact_name || profile.full_name || "",
+      contact_phone: prev.contact_phone || profile.phone || "",
+    }));
+    agenciesService
+      .getAgencyOwnedByProfile(profile.id)
+      .then((agency) => setAgencyId(agency?.id ?? null))
+      .catch(() => setAgencyId(null));
+  }, [profile?.id, profile?.full_name, profile?.phone]);
+
+  // Bulk posts skip the per-listing paywall, so only posters who'd post free
+  // in the wizard can use it. Subscribers are capped at their remaining slots.
+  const { canImport, remainingSlots, paymentKind } = useMemo(() => {
+    switch (gate.mode) {
+      case "disabled":
+      case "admin":
+        return { canImport: true, remainingSlots: Infinity, paymentKind: null };
+      case "agent_free":
+        return { canImport: true, remainingSlots: Infinity, paymentKind: "legacy_free" as const };
+      case "subscription": {
+        const cap = gate.subscription?.listing_cap;
+        return {
+          canImport: true,
+          remainingSlots: cap == null ? Infinity : Math.max(0, cap - gate.subscriptionListingsUsed),
+          paymentKind: "subscription" as const,
+        };
+      }
+      default:
+        return { canImport: false, remainingSlots: 0, paymentKind: null };
+    }
+  }, [gate.mode, gate.subscription, gate.subscriptionListingsUsed]);
+
+  const readyRows = preview.filter((row) => row.errors.length === 0 && row.geocode);
+  const rowsToImport = readyRows.slice(0, remainingSlots);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const parsed = await readImportFile(file);
+      if (parsed.rows.length > MAX_IMPORT_ROWS) {
+        setError(`That file has ${parsed.rows.length} listings. Import at most ${MAX_IMPORT_ROWS} at a time.`);
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(autoMapColumns(parsed.headers));
+      setStep("map");
+    } catch (err) {
+      setError((err as Error).message || "Couldn't read that file.");
+    }
+  };
+
+  const missingRequired = mapping
+    ? IMPORT_FIELDS.filter((f) => f.required && mapping[f.key] < 0)
+    : [];
+
+  const runPreview = async () => {
+    if (!sheet || !mapping) return;
+    setError(null);
+    setStep("preview");
+    setPreview([]);
+    setProgress(0);
+
+    const today = todayISODate();
+    const built = sheet.rows.map((row, i) => buildImportRow(row, i + 2, mapping, defaults, today));
+    const previewed: ImportRowPreview[] = [];
+    // One at a time — geocode-cross-streets calls Google per row.
+    for (const row of built) {
+      try {
+        previewed.push(await listingImportService.previewRow(row));
+      } catch (err) {
+        previewed.push({ ...row, geocode: null, errors: [...row.errors, (err as Error).message] });
+      }
+      setProgress(previewed.length);
+      setPreview([...previewed]);
+    }
+    gaEvent("listing_import_preview", {
+      rows: built.length,
+      ready: previewed.filter((r) => r.errors.length === 0).length,
+    });
+  };
+
+  const runImport = async () => {
+    if (!user || !termsAgreed || rowsToImport.length === 0) return;
+    setError(null);
+    setStep("importing");
+    setResults([]);
+    setProgress(0);
+
+    const ctx: ImportContext = {
+      userId: user.id,
+      agencyId,
+      paymentKind,
+    };
+
+    try {
+      const { rentalDays } = await getAdminActiveDays();
+      const done: ImportRowResult[] = [];
+      for (const row of rowsToImport) {
+        done.push(await listingImportService.importRow(row, ctx, rentalDays));
+        setProgress(done.length);
+        setResults([...done]);
+      }
+      gaEvent("listing_import_complete", {
+        created: done.filter((r) => r.listingId).length,
+        failed: done.filter((r) => r.error).length,
+      });
+    } catch (err) {
+      setError((err as Error).message || "Import failed.");
+    } finally {
+      setStep("done");
+    }
+  };
+
+  const reset = () => {
+    setStep("upload");
+    setSheet(null);
+    setMapping(null);
+    setPreview([]);
+    setResults([]);
+    setProgress(0);
+    setTermsAgreed(false);
+    setFileName("");
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  if (!authLoading && (!user || !canAccess)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (authLoading || gate.mode === "loading") {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+        <div className="flex flex-col items-center justify-center text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#273140] mb-4" />
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const activeStepIndex = STEP_LABELS.findIndex(
+    (s) => s.key === (step === "importing" ? "done" : step),
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+      <Link
+        to="/dashboard/agency-settings"
+        className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-[#273140] mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Agency settings
+      </Link>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-[#273140] mb-1">Bulk Import Listings</h1>
+        <p className="text-gray-600">
+          Upload a CSV or Excel (.xlsx) sheet of rentals. Every listing goes to admin review, just like posting one at a time.
+        </p>
+      </div>
+
+      <ol className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+        {STEP_LABELS.map((s, i) => (
+          <li
+            key={s.key}
+            className={`px-3 py-1 rounded-full border ${
+              i === activeStepIndex
+                ? "bg-brand-700 border-brand-700 text-white"
+                : i < activeStepIndex
+                ? "border-brand-700 text-brand-700"
+                : "border-gray-200 text-gray-400"
+            }`}
+          >
+            {i + 1}. {s.label}
+          </li>
+        ))}
+      </ol>
+
+      {!canImport && (
+        <div className="mb-6 flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>
+            {gate.mode === "subscription_at_cap"
+              ? "Your plan's listing limit is reached. Upgrade or deactivate listings to import more."
+              : gate.mode === "error"
+              ? gate.errorMessage || "We couldn't check your posting plan. Please try again."
+              : "Bulk import is available on an Agent or VIP plan."}{" "}
+            <Link to="/account?tab=billing" className="underline font-medium">
+              View plans
+            </Link>
+          </span>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 flex items-start gap-2 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {step === "upload" && (
+        <div className="rounded-lg border-2 border-dashed border-gray-300 bg-white p-10 text-center">
+          <FileSpreadsheet className="mx-auto h-10 w-10 text-gray-400 mb-3" />
+          <p className="text-gray-700 font-medium mb-1">Choose a .csv or .xlsx file</p>
+          <p className="text-sm text-gray-500 mb-4">
+            One listing per row, with a header row. Up to {MAX_IMPORT_ROWS} listings per file.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+            }}
+          />
+          <button
+            type="button"
+            disabled={!canImport}
+            onClick={() => fileInputRef.current?.click()}
+            className="inline-flex items-center gap-2 rounded-md bg-brand-700 px-4 py-2 text-sm font-medium text-white hover:bg-brand-800 disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            Upload file
+          </button>
+        </div>
+      )}
+
+      {step === "map" && sheet && mapping && (
+        <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-[#273140] mb-1">Map your columns</h2>
+          <p className="text-sm text-gray-500 mb-5">
+            {fileName} — {sheet.rows.length} row{sheet.rows.length === 1 ? "" : "s"}. We matched what we could; check each field.
+          </p>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {IMPORT_FIELDS.map((field) => (
+              <label key={field.key} className="block">
+                <span className="text-sm font-medium text-gray-700">
+                  {field.label}
+                  {field.required && <span className="text-red-500"> *</span>}
+                </span>
+                <select
+                  value={mapping[field.key]}
+                  onChange={(e) =>
+                    setMapping({ ...mapping, [field.key as ImportFieldKey]: Number(e.target.value) })
+                  }
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-brand-700 focus:outline-none"
+                >
+                  <option value={-1}>— Not in file —</option>
+                  {sheet.headers.map((header, i) => (
+                    <option key={i} value={i}>
+                      {header || `Column ${i + 1}`}
+                    </option>
+                  ))}
+                </select>
+                {field.hint && <span className="mt-0.5 block text-xs text-gray-400">{field.hint}</span>}
+              </label>
+            ))}
+          </div>
+
+          <div className="mt-6 border-t border-gray-100 pt-5">
+            <h3 className="text-sm font-semibold text-[#273140] mb-2">Default contact</h3>
+            <p className="text-xs text-gray-500 mb-3">Used for rows without their own contact name or phone.</p>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <input
+                type="text"
+                value={defaults.contact_name}
+                onChange={(e) => setDefaults({ ...defaults, contact_name: e.target.value })}
+                placeholder="Contact name"
+                className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-brand-700 focus:outline-none"
+              />
+              <input
+                type="tel"
+                value={defaults.contact_phone}
+                onChange={(e) => setDefaults({ ...defaults, contact_phone: e.target.value })}
+                placeholder="Contact phone"
+                className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-brand-700 focus:outline-none"
+              />
+            </div>
+          </div>
+
+          {missingRequired.length > 0 && (
+            <p className="mt-4 text-sm text-red-600">
+              Map a column for: {missingRequired.map((f) => f.label).join(", ")}
+            </p>
+          )}
+
+          <div className="mt-6 flex justify-between">
+            <button type="button" onClick={reset} className="text-sm text-gray-600 hover:text-gray-900">
+              Choose a different file
+            </button>
+            <button
+              type="button"
+              disabled={missingRequired.length > 0}
+              onClick={runPreview}
+              className="rounded-md bg-brand-700 px-4 py-2 text-sm font-medium text-white hover:bg-brand-800 disabled:opacity-50"
+            >
+              Check rows
+            </button>
+          </div>
+        </div>
+      )}
+
+      {(step === "preview" || step === "importing" || step === "done") && sheet && (
+        <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          {step === "preview" && progress < sheet.rows.length && (
+            <p className="flex items-center gap-2 text-sm text-gray-600 mb-4">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Checking row {progress + 1} of {sheet.rows.length}…
+            </p>
+          )}
+          {step === "importing" && (
+            <p className="flex items-center gap-2 text-sm text-gray-600 mb-4">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Creating listing {Math.min(progress + 1, rowsToImport.length)} of {rowsToImport.length}…
+            </p>
+          )}
+
+          {step === "preview" && progress === sheet.rows.length && (
+            <div className="mb-4 text-sm text-gray-700">
+              <p>
+                <strong>{readyRows.length}</strong> of {preview.length} rows are ready to import
+                {preview.length - readyRows.length > 0 && (
+                  <>; <strong className="text-red-600">{preview.length - readyRows.length}</strong> need fixing and will be skipped</>
+                )}
+                . Nothing has been created yet.
+              </p>
+              {readyRows.length > rowsToImport.length && (
+                <p className="mt-1 text-amber-700">
+                  Your plan has room for {rowsToImport.length} more listing{rowsToImport.length === 1 ? "" : "s"}; only the first {rowsToImport.length} ready rows will be imported.
+                </p>
+              )}
+            </div>
+          )}
+
+          {step === "done" && (
+            <div className="mb-4 flex items-start gap-2 rounded-lg border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-800">
+              <CheckCircle2 className="w-4 h-4 mt-0.5" />
+              <span>
+                Created {results.filter((r) => r.listingId).length} listing
+                {results.filter((r) => r.listingId).length === 1 ? "" : "s"}. They'll go live once approved.{" "}
+                <Link to="/account?tab=listings" className="underline font-medium">
+                  View my listings
+                </Link>
+              </span>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-xs uppercase text-gray-500">
+                  <th className="py-2 pr-3">Row</th>
+                  <th className="py-2 pr-3">Listing</th>
+                  <th className="py-2 pr-3">Location</th>
+                  <th className="py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map((row) => {
+                  const result = results.find((r) => r.rowNumber === row.rowNumber);
+                  return (
+                    <tr key={row.rowNumber} className="border-b border-gray-100 align-top">
+                      <td className="py-2 pr-3 text-gray-500">{row.rowNumber}</td>
+                      <td className="py-2 pr-3 text-gray-800">
+                        {row.draft.bedrooms === 0 ? "Studio" : row.draft.bedrooms != null ? `${row.draft.bedrooms} BR` : "—"}
+                        {" · "}
+                        {row.draft.call_for_price ? "Call for price" : row.draft.price ? `$${row.draft.price.toLocaleString()}` : "—"}
+                      </td>
+                      <td className="py-2 pr-3 text-gray-600">
+                        {row.draft.cross_streets || "—"}
+                        {row.geocode?.neighborhood && (
+                          <span className="block text-xs text-gray-400">{row.geocode.neighborhood}</span>
+                        )}
+                      </td>
+                      <td className="py-2">
+                        {result?.listingId ? (
+                          <span className="text-green-700">
+                            Created{" "}
+                            <Link to={`/listing/${result.listingId}`} className="underline">
+                              view
+                            </Link>
+                            {result.imageErrors.length > 0 && (
+                              <span className="block text-xs text-amber-700">{result.imageErrors.join("; ")}</span>
+                            )}
+                          </span>
+                        ) : result?.error ? (
+                          <span className="text-red-600">{result.error}</span>
+                        ) : row.errors.length > 0 ? (
+                          <ul className="text-red-600 space-y-0.5">
+                            {row.errors.map((e) => (
+                              <li key={e}>{e}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <span className="text-gray-700">
+                            Ready
+                            {row.draft.image_urls.length > 0 && (
+                              <span className="text-gray-400"> · {row.draft.image_urls.length} photo{row.draft.image_urls.length === 1 ? "" : "s"}</span>
+                            )}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {step === "preview" && progress === sheet.rows.length && (
+            <div className="mt-6 border-t border-gray-100 pt-5">
+              <label className="flex items-start gap-2 text-sm text-gray-700 mb-4">
+                <input
+                  type="checkbox"
+                  checked={termsAgreed}
+                  onChange={(e) => setTermsAgreed(e.target.checked)}
+                  className="mt-1"
+                />
+                <span>
+                  I agree to receive SMS messages about these listings at the contact numbers above, and confirm I'm
+                  authorized to post them under the{" "}
+                  <Link to="/terms" className="underline" target="_blank">
+                    Terms
+                  </Link>
+                  .
+                </span>
+              </label>
+              <div className="flex justify-between">
+                <button
+                  type="button"
+                  onClick={() => setStep("map")}
+                  className="text-sm text-gray-600 hover:text-gray-900"
+                >
+                  Back to mapping
+                </button>
+                <button
+                  type="button"
+                  disabled={!canImport || !termsAgreed || rowsToImport.length === 0}
+                  onClick={runImport}
+                  className="rounded-md bg-brand-700 px-4 py-2 text-sm font-medium text-white hover:bg-brand-800 disabled:opacity-50"
+                >
+                  Import {rowsToImport.length} listing{rowsToImport.length === 1 ? "" : "s"}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === "done" && (
+            <div className="mt-6 flex justify-end">
+              <button
+                type="button"
+                onClick={reset}
+                className="rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Import another file
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
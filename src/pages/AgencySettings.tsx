@@ -24,6 +24,7 @@ import {
   Paintbrush,
   Copy,
   Info,
+  FileSpreadsheet,
 } from "lucide-react";
 import { useEditor, EditorContent } from "@tiptap/react";
 import StarterKit from "@tiptap/starter-kit";
@@ -34,6 +35,7 @@ import { agenciesService, AGENCY_NAME_TAKEN_CODE } from "@/services/agencies";
 import { agencyService, type AgencyPageMetrics } from "@/services/agency";
 import { Agency } from "@/config/supabase";
 import { listingsService } from "@/services/listings";
+import { AgencyFeedCard } from "@/components/dashboard/AgencyFeedCard";
 import "@/styles/editor.css";
 import {
   queryClient,
@@ -633,6 +635,13 @@ export function AgencySettings() {
           </p>
         </div>
         <div className="flex flex-wrap items-center gap-3">
+          <Link
+            to="/dashboard/agency-import"
+            className="inline-flex items-center gap-2 rounded-md border border-[#273140] bg-white px-3 py-2 text-sm font-medium text-[#273140] shadow-sm transition-colors hover:bg-[#f3f4f6]"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            Bulk Import
+          </Link>
           {publicAgencyLink && (
             <a
               href={publicAgencyLink}
@@ -715,6 +724,8 @@ export function AgencySettings() {
         </div>
       )}
 
+      {agency && <AgencyFeedCard agency={agency} canEdit={!!canEditAgency} />}
+
       {error && (
         <div className="mb-4 flex items-start gap-2 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
           <AlertCircle className="w-4 h-4 mt-0.5" />
@@ -1,9 +1,11 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from "react";
-import { useNavigate } from "react-router-dom";
-import { ChevronLeft, ChevronRight, Filter, X, List, Map as MapIcon, Locate, RotateCcw, LayoutGrid, ArrowUpDown } from "lucide-react";
+import { Link, useNavigate } from "react-router-dom";
+import { ChevronLeft, ChevronRight, Filter, X, List, Map as MapIcon, Locate, RotateCcw, LayoutGrid, ArrowUpDown, Mail } from "lucide-react";
 import { ListingCard } from "../components/listings/ListingCard";
 import { CommercialListingCard } from "../components/listings/CommercialListingCard";
 import { ListingFiltersHorizontal } from "../components/listings/ListingFiltersHorizontal";
+import { SaveSearchButton } from "../components/listings/SaveSearchButton";
+import { MapAreaDrawControls } from "../components/listings/MapAreaDrawControls";
 import { ListingsMapEnhanced } from "../components/listings/ListingsMapEnhancedLazy";
 import { SmartSearchBar, SmartSearchBarRef } from "../components/listings/SmartSearchBar";
 import { Listing, CommercialListing } from "../config/supabase";
@@ -14,10 +16,11 @@ import { gaEvent, gaListing } from "@/lib/ga";
 import { trackFilterApply } from "../lib/analytics";
 import { useListingImpressions } from "../hooks/useListingImpressions";
 import { useCommercialImpressions } from "../hooks/useCommercialImpressions";
-import { useBrowseFilters, FilterState, SortOption, MapBounds } from "../hooks/useBrowseFilters";
+import { useBrowseFilters, withSearchPolygon, FilterState, SortOption, MapBounds } from "../hooks/useBrowseFilters";
 import { ParsedSearchQuery } from "../utils/searchQueryParser";
-import { LocationResult } from "../services/locationSearch";
+import { LocationResult, getLocationBoundary } from "../services/locationSearch";
 import { calculateGeographicCenter } from "../utils/geoUtils";
+import type { SearchPolygonRing } from "../utils/searchPolygon";
 import { isElementFullyVisible, scrollElementIntoView } from "../utils/viewportUtils";
 import { MapPin, CommercialMapPin, applyFilters } from "../utils/filterUtils";
 import {
@@ -98,6 +101,8 @@ export function BrowseListings() {
   const [mapBounds, setMapBounds] = useState<MapBounds | null>(null);
   const [showSearchAreaButton, setShowSearchAreaButton] = useState(false);
   const [isSearchingArea, setIsSearchingArea] = useState(false);
+  const [isDrawingArea, setIsDrawingArea] = useState(false);
+  const [isAddingArea, setIsAddingArea] = useState(false);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [isLocating, setIsLocating] = useState(false);
   const [showSortDropdown, setShowSortDropdown] = useState(false);
@@ -238,25 +243,28 @@ export function BrowseListings() {
       const fetchResidential = listingTypeFilter !== 'commercial';
       const fetchCommercial = listingTypeFilter !== 'residential';
 
-      const { no_fee_only, searchBounds: filterBounds, searchLocationName, listingTypeFilter: _ltf, ...restFilters } = filters;
+      const { no_fee_only, searchBounds: filterBounds, searchLocationName, searchPolygon, listingTypeFilter: _ltf, ...restFilters } = filters;
       const serviceFilters = {
         ...restFilters,
         noFeeOnly: no_fee_only,
         bounds: filterBounds || undefined,
+        polygon: searchPolygon,
       };
 
       const commercialServiceFilters = {
         min_price: filters.min_price,
         max_price: filters.max_price,
         neighborhoods: filters.neighborhoods,
-        sort: (filters.sort === 'price_asc' || filters.sort === 'price_desc' || filters.sort === 'newest' || filters.sort === 'oldest') ? filters.sort : 'newest' as any,
+        sort: (filters.sort === 'price_asc' || filters.sort === 'price_desc' || filters.sort === 'newest' || filters.sort === 'oldest' || filters.sort === 'price_reduced') ? filters.sort : 'newest' as any,
         bounds: filterBounds || undefined,
+        polygon: searchPolygon,
         commercial_space_types: filters.commercial_space_types,
         min_sf: filters.min_sf,
         max_sf: filters.max_sf,
         commercial_lease_types: filters.commercial_lease_types,
         commercial_conditions: filters.commercial_conditions,
         building_classes: filters.building_classes,
+        price_reduced_only: filters.price_reduced_only,
       };
 
       let residentialCount = 0;
@@ -320,6 +328,12 @@ export function BrowseListings() {
             return (a.bedrooms ?? Number.MAX_SAFE_INTEGER) - (b.bedrooms ?? Number.MAX_SAFE_INTEGER);
           case 'bedrooms_desc':
             return (b.bedrooms ?? -1) - (a.bedrooms ?? -1);
+          case 'price_reduced':
+            return (
+              (b.price_reduced_at ? new Date(b.price_reduced_at).getTime() : 0) -
+                (a.price_reduced_at ? new Date(a.price_reduced_at).getTime() : 0) ||
+              new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+            );
           default:
             return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
         }
@@ -524,8 +538,9 @@ export function BrowseListings() {
       setShowSearchAreaButton(false);
       preserveMapRef.current = true;
       setShouldPreserveMapPosition(true);
+      const { searchPolygon: _, ...restFilters } = filters;
       updateFilters({
-        ...filters,
+        ...restFilters,
         searchBounds: mapBounds,
         searchLocationName: 'Search Area',
       });
@@ -539,10 +554,11 @@ export function BrowseListings() {
   const handleClearAreaSearch = useCallback(() => {
     preserveMapRef.current = true;
     setShouldPreserveMapPosition(true);
-    const { searchBounds: _, searchLocationName: __, ...restFilters } = filters;
+    const { searchBounds: _, searchLocationName: __, searchPolygon: ___, ...restFilters } = filters;
     updateFilters(restFilters);
     setShowSearchAreaButton(false);
     setIsSearchingArea(false);
+    setIsAddingArea(false);
     setMapBounds(null);
     setTimeout(() => {
       preserveMapRef.current = false;
@@ -552,10 +568,41 @@ export function BrowseListings() {
 
   const handleResetMap = () => {
     setMapBounds(null);
-    const { searchBounds: _, searchLocationName: __, ...restFilters } = filters;
+    const { searchBounds: _, searchLocationName: __, searchPolygon: ___, ...restFilters } = filters;
     updateFilters(restFilters);
     setShowSearchAreaButton(false);
     setIsSearchingArea(false);
+    setIsDrawingArea(false);
+    setIsAddingArea(false);
+  };
+
+  const handleStartDrawArea = () => {
+    setIsAddingArea(false);
+    setIsDrawingArea(true);
+    setShowSearchAreaButton(false);
+  };
+
+  const handleAddArea = () => {
+    setIsAddingArea(true);
+    setIsDrawingArea(true);
+    setShowSearchAreaButton(false);
+  };
+
+  const handleCancelDrawArea = useCallback(() => {
+    setIsDrawingArea(false);
+    setIsAddingArea(false);
+  }, []);
+
+  const handlePolygonDrawn = (ring: SearchPolygonRing) => {
+    const newFilters = withSearchPolygon(filters, [ring], 'Drawn Area', isAddingArea);
+    gaEvent("map_area_draw", {
+      vertices: ring.length,
+      areas: newFilters.searchPolygon?.length ?? 0,
+      added: isAddingArea,
+    });
+    setIsDrawingArea(false);
+    setIsAddingArea(false);
+    updateFilters(newFilters);
   };
 
   const handleGetUserLocation = () => {
@@ -651,8 +698,8 @@ export function BrowseListings() {
     loadUserFavorites();
   };
 
-  const handleSmartSearch = useCallback((parsed: ParsedSearchQuery, location: LocationResult | null) => {
-    const newFilters: FilterState = { ...filters };
+  const handleSmartSearch = useCallback(async (parsed: ParsedSearchQuery, location: LocationResult | null) => {
+    let newFilters: FilterState = { ...filters };
 
     if (parsed.bedrooms !== undefined) {
       newFilters.bedrooms = [parsed.bedrooms];
@@ -671,10 +718,18 @@ export function BrowseListings() {
     }
 
     if (location) {
-      if (location.bounds) {
+      // Neighborhoods and ZIPs search their real boundary; boroughs (and any
+      // boundary lookup miss) fall back to the bounds box.
+      const boundary = await getLocationBoundary(location);
+      if (boundary) {
+        newFilters = withSearchPolygon(newFilters, boundary, location.name, isAddingArea);
+      } else if (location.bounds) {
+        delete newFilters.searchPolygon;
         newFilters.searchBounds = location.bounds;
         newFilters.searchLocationName = location.name;
       }
+      setIsDrawingArea(false);
+      setIsAddingArea(false);
     }
 
     gaEvent("smart_search", {
@@ -688,7 +743,7 @@ export function BrowseListings() {
     });
 
     updateFilters(newFilters);
-  }, [filters, updateFilters]);
+  }, [filters, updateFilters, isAddingArea]);
 
   const handleSearchClear = useCallback(() => {
     preserveMapRef.current = true;
@@ -733,6 +788,7 @@ export function BrowseListings() {
       bedrooms_desc: 'Beds: High-Low',
       bathrooms_asc: 'Baths: Low-High',
       bathrooms_desc: 'Baths: High-Low',
+      price_reduced: 'Recently Reduced',
     };
     return labels[filters.sort || 'newest'] || 'Sort';
   };
@@ -1023,6 +1079,7 @@ export function BrowseListings() {
               <div className="flex-1">
                 {renderViewModeToggle(false)}
               </div>
+              <SaveSearchButton filters={filters} mode="rental" compact />
               <button
                 onClick={() => setShowFiltersMobile(true)}
                 className="flex items-center gap-2 px-4 py-2 bg-gray-100 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-200 transition-colors"
@@ -1036,8 +1093,11 @@ export function BrowseListings() {
                   filters.max_price ||
                   filters.parking_included ||
                   filters.no_fee_only ||
+                  filters.price_reduced_only ||
                   (filters.neighborhoods && filters.neighborhoods.length > 0) ||
                   (filters.lease_terms && filters.lease_terms.length > 0) ||
+                  filters.available_from ||
+                  filters.available_by ||
                   (filters.commercial_space_types && filters.commercial_space_types.length > 0) ||
                   (filters.commercial_lease_types && filters.commercial_lease_types.length > 0) ||
                   (filters.commercial_conditions && filters.commercial_conditions.length > 0) ||
@@ -1121,41 +1181,53 @@ export function BrowseListings() {
                     </p>
                   </div>
 
-                  {/* Sort Control */}
-                  <div className="relative" ref={sortDropdownRef}>
-                    <button
-                      onClick={() => setShowSortDropdown(!showSortDropdown)}
+                  <div className="flex items-center gap-4">
+                    <SaveSearchButton filters={filters} mode="rental" />
+                    <Link
+                      to="/digest"
                       className="flex items-center gap-2 text-gray-700 hover:text-gray-900 transition-colors"
                     >
-                      <ArrowUpDown className="w-4 h-4" />
-                      <span className="text-sm font-medium">Sort</span>
-                    </button>
-
-                    {showSortDropdown && (
-                      <div className="absolute right-0 top-full mt-2 bg-white rounded-lg shadow-xl border border-gray-200 z-50 min-w-[200px] py-1">
-                        {[
-                          { value: 'newest', label: 'Newest First' },
-                          { value: 'oldest', label: 'Oldest First' },
-                          { value: 'price_asc', label: 'Price: Low to High' },
-                          { value: 'price_desc', label: 'Price: High to Low' },
-                          // Bedroom sort is meaningless for commercial-only browse.
-                          ...(filters.listingTypeFilter === 'commercial' ? [] : [
-                            { value: 'bedrooms_asc', label: 'Bedrooms: Low to High' },
-                            { value: 'bedrooms_desc', label: 'Bedrooms: High to Low' },
-                          ]),
-                        ].map((option) => (
-                          <button
-                            key={option.value}
-                            onClick={() => handleSortChange(option.value as SortOption)}
-                            className={`w-full px-4 py-2 text-left text-sm hover:bg-gray-50 transition-colors ${
-                              (filters.sort || 'newest') === option.value ? 'text-brand-700 font-medium bg-brand-50' : 'text-gray-700'
-                            }`}
-                          >
-                            {option.label}
-                          </button>
-                        ))}
-                      </div>
-                    )}
+                      <Mail className="w-4 h-4" />
+                      <span className="text-sm font-medium">Digest</span>
+                    </Link>
+
+                    {/* Sort Control */}
+                    <div className="relative" ref={sortDropdownRef}>
+                      <button
+                        onClick={() => setShowSortDropdown(!showSortDropdown)}
+                        className="flex items-center gap-2 text-gray-700 hover:text-gray-900 transition-colors"
+                      >
+                        <ArrowUpDown className="w-4 h-4" />
+                        <span className="text-sm font-medium">Sort</span>
+                      </button>
+
+                      {showSortDropdown && (
+                        <div className="absolute right-0 top-full mt-2 bg-white rounded-lg shadow-xl border border-gray-200 z-50 min-w-[200px] py-1">
+                          {[
+                            { value: 'newest', label: 'Newest First' },
+                            { value: 'oldest', label: 'Oldest First' },
+                            { value: 'price_asc', label: 'Price: Low to High' },
+                            { value: 'price_desc', label: 'Price: High to Low' },
+                            { value: 'price_reduced', label: 'Recently Reduced' },
+                            // Bedroom sort is meaningless for commercial-only browse.
+                            ...(filters.listingTypeFilter === 'commercial' ? [] : [
+                              { value: 'bedrooms_asc', label: 'Bedrooms: Low to High' },
+                              { value: 'bedrooms_desc', label: 'Bedrooms: High to Low' },
+                            ]),
+                          ].map((option) => (
+                            <button
+                              key={option.value}
+                              onClick={() => handleSortChange(option.value as SortOption)}
+                              className={`w-full px-4 py-2 text-left text-sm hover:bg-gray-50 transition-colors ${
+                                (filters.sort || 'newest') === option.value ? 'text-brand-700 font-medium bg-brand-50' : 'text-gray-700'
+                              }`}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </div>
 
@@ -1196,6 +1268,18 @@ export function BrowseListings() {
                     Searching...
                   </div>
                 )}
+                {!isSearchingArea && (
+                  <MapAreaDrawControls
+                    isDrawing={isDrawingArea}
+                    isAddingArea={isAddingArea}
+                    hasPolygon={!!filters.searchPolygon?.length}
+                    areaName={filters.searchLocationName}
+                    onStartDraw={handleStartDrawArea}
+                    onAddArea={handleAddArea}
+                    onCancelDraw={handleCancelDrawArea}
+                    onClearArea={handleClearAreaSearch}
+                  />
+                )}
               </div>
 
               <div className="absolute top-4 right-4 z-10 flex flex-col gap-2">
@@ -1235,6 +1319,10 @@ export function BrowseListings() {
                 userLocation={userLocation}
                 searchBounds={filters.searchBounds}
                 searchLocationName={filters.searchLocationName}
+                searchPolygon={filters.searchPolygon}
+                isDrawingPolygon={isDrawingArea}
+                onPolygonDrawn={handlePolygonDrawn}
+                onDrawCancel={handleCancelDrawArea}
                 centerOnListings={centerOnListings}
                 shouldPreservePosition={shouldPreserveMapPosition}
                 isLoading={loading && isFilterClearing}
@@ -1392,6 +1480,18 @@ export function BrowseListings() {
                   Searching...
                 </div>
               )}
+              {!isSearchingArea && (
+                <MapAreaDrawControls
+                  isDrawing={isDrawingArea}
+                  isAddingArea={isAddingArea}
+                  hasPolygon={!!filters.searchPolygon?.length}
+                  areaName={filters.searchLocationName}
+                  onStartDraw={handleStartDrawArea}
+                  onAddArea={handleAddArea}
+                  onCancelDraw={handleCancelDrawArea}
+                  onClearArea={handleClearAreaSearch}
+                />
+              )}
             </div>
 
             <div className="absolute top-4 right-4 z-10 flex flex-col gap-2">
@@ -1439,6 +1539,10 @@ export function BrowseListings() {
                 userLocation={userLocation}
                 searchBounds={filters.searchBounds}
                 searchLocationName={filters.searchLocationName}
+                searchPolygon={filters.searchPolygon}
+                isDrawingPolygon={isDrawingArea}
+                onPolygonDrawn={handlePolygonDrawn}
+                onDrawCancel={handleCancelDrawArea}
                 centerOnListings={centerOnListings}
                 shouldPreservePosition={shouldPreserveMapPosition}
                 isLoading={loading && isFilterClearing}
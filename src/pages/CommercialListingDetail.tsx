@@ -4,7 +4,7 @@ import { MapPin, Star, Heart, ArrowLeft, Building, Layers, CalendarDays, Wrench,
 import { supabase, CommercialListing, CommercialSpaceType, CommercialSubtype, LeaseType } from '../config/supabase';
 import { commercialListingsService } from '../services/commercialListings';
 import { useAuth } from '@/hooks/useAuth';
-import ImageCarousel from '@/components/listing/ImageCarousel';
+import ImageCarousel, { type CarouselView } from '@/components/listing/ImageCarousel';
 import { normalizeImageUrl } from '@/utils/stockImage';
 import { gaListing } from '@/lib/ga';
 import { ShareButton } from '../components/shared/ShareButton';
@@ -38,7 +38,16 @@ import {
   type LoginGateAction,
 } from '../lib/analytics';
 import { commercialLabels, triStateLabel } from '../utils/commercialLabels';
+import { formatAvailability } from '../utils/availability';
 import { SaleStatusBadge } from '../components/listings/SaleStatusBadge';
+import { PriceReducedBadge } from '../components/listings/PriceReducedBadge';
+import { PriceHistory } from '../components/listing/PriceHistory';
+import { OpenHouseSchedule } from '../components/listing/OpenHouseSchedule';
+import { ShowingRequestForm } from '../components/listing/ShowingRequestForm';
+import { MessageOwnerForm } from '../components/listing/MessageOwnerForm';
+import { ListingAttachments } from '../components/listing/ListingAttachments';
+import { isImageFloorPlan, listingAttachmentsService } from '../services/listingAttachments';
+import type { ListingAttachment } from '../types/attachments';
 import { CommercialReportRentedButton } from '../components/listing/CommercialReportRentedButton';
 import { CommercialSimilarListings } from '../components/listings/CommercialSimilarListings';
 
@@ -203,7 +212,7 @@ function buildSpecItems(listing: CommercialListing): SpecRowItem[] {
   })());
   add(<Building className="w-4 h-4" />, 'Elevators', listing.elevator_count ? pluralize(listing.elevator_count, 'elevator') : null);
   add(<Building className="w-4 h-4" />, 'Freight Elevators', listing.freight_elevator_count ? pluralize(listing.freight_elevator_count, 'freight elevator') : null);
-  add(<CalendarDays className="w-4 h-4" />, 'Available Date', listing.available_date);
+  add(<CalendarDays className="w-4 h-4" />, 'Availability', formatAvailability(listing.available_date) ?? listing.available_date);
   add(<Activity className="w-4 h-4" />, 'Outdoor Space', listing.outdoor_space);
   add(<Activity className="w-4 h-4" />, 'Office/Warehouse Ratio', listing.office_warehouse_ratio);
   add(<Activity className="w-4 h-4" />, 'Use Breakdown', listing.use_breakdown);
@@ -479,6 +488,8 @@ export function CommercialListingDetail() {
   const [error, setError] = useState<string | null>(null);
   const [zoomModalOpen, setZoomModalOpen] = useState(false);
   const [zoomInitialIndex, setZoomInitialIndex] = useState(0);
+  const [zoomInitialView, setZoomInitialView] = useState<CarouselView>('photos');
+  const [attachments, setAttachments] = useState<ListingAttachment[]>([]);
 
   const [authModalOpen, setAuthModalOpen] = useState(false);
   const [authModalAction, setAuthModalAction] =
@@ -496,6 +507,20 @@ export function CommercialListingDetail() {
     }
   }, [id, user, authLoading]);
 
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+    listingAttachmentsService
+      .getAttachments(id, true)
+      .then((rows) => {
+        if (!cancelled) setAttachments(rows);
+      })
+      .catch((err) => console.error('Error loading listing attachments:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
   useEffect(() => {
     if (id && !hasViewedRef.current) {
       hasViewedRef.current = true;
@@ -711,11 +736,16 @@ export function CommercialListingDetail() {
     });
 
   const hasRealImages = images.length > 0;
+  const floorPlanImages = attachments
+    .filter(isImageFloorPlan)
+    .map((plan) => ({ url: plan.file_url ?? '', alt: plan.title || `${listing.title ?? 'Commercial listing'} floor plan` }));
+  const canZoom = hasRealImages || floorPlanImages.length > 0;
 
-  const handleImageZoom = (index: number) => {
+  const handleImageZoom = (index: number, view: CarouselView = 'photos') => {
     setZoomInitialIndex(index);
+    setZoomInitialView(view);
     setZoomModalOpen(true);
-    gaListing('commercial_listing_image_zoom', listing.id, { image_index: index });
+    gaListing('commercial_listing_image_zoom', listing.id, { image_index: index, view });
   };
 
   const carouselImages = images.map(img => ({ url: normalizeImageUrl(img.image_url, 'hero'), alt: listing.title ?? 'Commercial listing' }));
@@ -872,10 +902,11 @@ export function CommercialListingDetail() {
                 city: listing.neighborhood ?? undefined,
                 price: listing.price ?? listing.asking_price ?? undefined,
               }}
-              enableZoom={hasRealImages}
+              enableZoom={canZoom}
               onImageClick={handleImageZoom}
               videoUrl={listing.video_url ?? undefined}
               videoThumbnail={listing.video_thumbnail_url ?? undefined}
+              floorPlans={floorPlanImages}
             />
             <button
               onClick={handleFavoriteToggle}
@@ -923,10 +954,11 @@ export function CommercialListingDetail() {
                   city: listing.neighborhood ?? undefined,
                   price: listing.price ?? listing.asking_price ?? undefined,
                 }}
-                enableZoom={hasRealImages}
+                enableZoom={canZoom}
                 onImageClick={handleImageZoom}
                 videoUrl={listing.video_url ?? undefined}
                 videoThumbnail={listing.video_thumbnail_url ?? undefined}
+                floorPlans={floorPlanImages}
               />
               <button
                 onClick={handleFavoriteToggle}
@@ -978,6 +1010,7 @@ export function CommercialListingDetail() {
                   Featured
                 </span>
               )}
+              <PriceReducedBadge listing={listing} size="md" />
               {isSale && listing.sale_status && listing.sale_status !== 'available' && (
                 <SaleStatusBadge status={listing.sale_status as any} size="md" />
               )}
@@ -1039,6 +1072,32 @@ export function CommercialListingDetail() {
                 </div>
               )
             )}
+            <PriceHistory listingId={listing.id} isCommercial listingType={listing.listing_type} />
+            {isSale && (
+              <OpenHouseSchedule
+                listingId={listing.id}
+                isCommercial
+                title={listing.title || 'Commercial space'}
+                location={listing.full_address || [listing.cross_street_a, listing.cross_street_b].filter(Boolean).join(' & ')}
+              />
+            )}
+            {listing.user_id !== user?.id && (
+              <ShowingRequestForm
+                listingId={listing.id}
+                isCommercial
+                defaultName={profile?.full_name ?? ''}
+                defaultEmail={user?.email ?? ''}
+              />
+            )}
+            {listing.user_id !== user?.id && (
+              <MessageOwnerForm listingId={listing.id} isCommercial userId={user?.id} />
+            )}
+            <ListingAttachments
+              attachments={attachments}
+              listingId={listing.id}
+              isSignedIn={!!user}
+              onLoginRequired={() => openAuthGate('download_document')}
+            />
           </section>
 
           {/* Key Specs Grid - order 5 */}
@@ -1281,11 +1340,13 @@ export function CommercialListingDetail() {
       {/* Similar Listings */}
       <CommercialSimilarListings listing={listing} />
 
-      {zoomModalOpen && hasRealImages && (
+      {zoomModalOpen && canZoom && (
         <ImageZoomModal
           images={zoomImages}
           initialIndex={zoomInitialIndex}
           onClose={() => setZoomModalOpen(false)}
+          floorPlans={floorPlanImages}
+          initialView={zoomInitialView}
         />
       )}
 
@@ -1299,7 +1360,9 @@ export function CommercialListingDetail() {
           <p className="text-sm text-gray-500">
             {authModalAction === 'reveal_phone'
               ? "An account is required to view contact info. It's free and takes just a few seconds — we'll show the phone right after."
-              : "An account is required to send a request. It's free and takes just a few seconds — we'll send your message right after."}
+              : authModalAction === 'download_document'
+                ? "An account is required to download this document. It's free and takes just a few seconds."
+                : "An account is required to send a request. It's free and takes just a few seconds — we'll send your message right after."}
           </p>
           <AuthForm
             onAuthSuccess={handleAuthSuccessFromModal}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo } from "react";
 import { Link, useNavigate, useSearchParams } from "react-router-dom";
-import { CreditCard as Edit, Eye, MousePointerClick, MessageSquare, Star, Trash2, Zap, RefreshCw, Plus, EyeOff, AlertTriangle, Clock, Home, DollarSign, Info, CheckCircle, XCircle, Briefcase, X, Building2, Gift, ArrowUpRight, MoreVertical, Pencil, Crown, ShieldCheck } from "lucide-react";
+import { CreditCard as Edit, Eye, MousePointerClick, MessageSquare, Star, Trash2, Zap, RefreshCw, Plus, EyeOff, AlertTriangle, Clock, Home, DollarSign, Info, CheckCircle, XCircle, Briefcase, X, Building2, Gift, ArrowUpRight, MoreVertical, Pencil, Crown, ShieldCheck, CalendarClock, CalendarCheck, Paperclip } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { Listing, SaleStatus, CommercialListing, supabase } from "../config/supabase";
 import {
@@ -13,6 +13,8 @@ import { commercialListingsService } from "../services/commercialListings";
 import { profilesService } from "../services/profiles";
 import { emailService } from "../services/email";
 import { InquiriesModal, Inquiry } from "../components/listing/InquiriesModal";
+import { messagesService } from "../services/messages";
+import type { MessageThread } from "../types/messages";
 import { SaleStatusBadge } from "../components/listings/SaleStatusBadge";
 import { SaleStatusSelector } from "../components/listings/SaleStatusSelector";
 import { FeatureListingModal } from "../components/listings/FeatureListingModal";
@@ -25,6 +27,10 @@ import type { ListingSubscription, PaymentKind } from "../types/monetization";
 import { PaidListingStatusCard } from "../components/dashboard/PaidListingStatusCard";
 import { MonetizationModal, type MonetizationModalListingOption } from "../components/dashboard/MonetizationModal";
 import { QuickPayDaysModal } from "../components/dashboard/QuickPayDaysModal";
+import { ListingExportMenu } from "../components/dashboard/ListingExportMenu";
+import { OpenHouseManagerModal } from "../components/dashboard/OpenHouseManagerModal";
+import { ShowingManagerModal } from "../components/dashboard/ShowingManagerModal";
+import { AttachmentsManagerModal } from "../components/dashboard/AttachmentsManagerModal";
 import { paymentsService } from "../services/payments";
 import type { MonetizationListingFields } from "../services/payments";
 import { agentFreePostingService } from "../services/agentFreePosting";
@@ -51,6 +57,7 @@ export default function Dashboard() {
   const [modalListingId, setModalListingId] = useState<string | null>(null);
   const [modalListingTitle, setModalListingTitle] = useState<string>('');
   const [modalInquiries, setModalInquiries] = useState<Inquiry[]>([]);
+  const [modalThreads, setModalThreads] = useState<MessageThread[]>([]);
   const [modalLoading, setModalLoading] = useState(false);
   const [featureModalListing, setFeatureModalListing] = useState<Listing | null>(null);
   const [featuredPurchases, setFeaturedPurchases] = useState<Record<string, FeaturedPurchase>>({});
@@ -66,6 +73,10 @@ export default function Dashboard() {
   const [monetizationModalInitialTab, setMonetizationModalInitialTab] = useState<'pay' | 'subscribe'>('pay');
   // Small per-listing "add days" modal (opened from a row's green Pay/Renew action).
   const [quickPayListing, setQuickPayListing] = useState<{ id: string; label: string } | null>(null);
+  // Sale row whose open-house slots are being edited.
+  const [openHouseListing, setOpenHouseListing] = useState<{ id: string; title: string; isCommercial: boolean } | null>(null);
+  const [showingListing, setShowingListing] = useState<{ id: string; title: string; isCommercial: boolean } | null>(null);
+  const [attachmentsListing, setAttachmentsListing] = useState<{ id: string; title: string; isCommercial: boolean } | null>(null);
   // Which rental card's "⋯" overflow menu is open (card id), or null.
   const [openCardMenu, setOpenCardMenu] = useState<string | null>(null);
   // Phase J: master switch. When false, dashboard hides monetization UI.
@@ -330,14 +341,24 @@ export default function Dashboard() {
     if (!user) return;
 
     try {
-      const [data, counts, commercialData] = await Promise.all([
+      const [data, counts, commercialData, threads] = await Promise.all([
         listingsService.getUserListings(user.id),
         listingsService.getInquiryCountsForUser(),
         commercialListingsService.getUserCommercialListings(user.id).catch((err) => {
           console.error("[Dashboard] Failed to load commercial listings:", err);
           return [] as CommercialListing[];
         }),
+        messagesService.getThreads(user.id).catch((err) => {
+          console.error("[Dashboard] Failed to load message threads:", err);
+          return [] as MessageThread[];
+        }),
       ]);
+      // Message threads on the user's own listings count as inquiries too.
+      for (const thread of threads) {
+        const threadListingId = thread.listing_id ?? thread.commercial_listing_id;
+        if (thread.owner_user_id !== user.id || !threadListingId) continue;
+        counts[threadListingId] = (counts[threadListingId] ?? 0) + 1;
+      }
       setListings(data);
       setInquiryCounts(counts);
       setCommercialListings(commercialData);
@@ -637,10 +658,18 @@ export default function Dashboard() {
     setModalOpen(true);
     setModalLoading(true);
     setModalInquiries([]);
+    setModalThreads([]);
 
     try {
-      const inquiries = await listingsService.getInquiriesForListing(listingId);
+      const [inquiries, threads] = await Promise.all([
+        listingsService.getInquiriesForListing(listingId),
+        messagesService.getThreadsForListing(listingId).catch((err) => {
+          console.error('Error loading message threads:', err);
+          return [] as MessageThread[];
+        }),
+      ]);
       setModalInquiries(inquiries);
+      setModalThreads(threads);
     } catch (error) {
       console.error('Error loading inquiries:', error);
     } finally {
@@ -653,6 +682,7 @@ export default function Dashboard() {
     setModalListingId(null);
     setModalListingTitle('');
     setModalInquiries([]);
+    setModalThreads([]);
   };
 
   const formatPrice = (price: number | null) => {
@@ -892,13 +922,21 @@ export default function Dashboard() {
       <div>
         <div className="flex items-center justify-between mb-6">
           <p className="text-gray-600">Manage your property listings</p>
-          <Link
-            to="/post"
-            className="bg-accent-500 text-white px-4 py-2 rounded-md font-medium hover:bg-accent-600 transition-colors flex items-center"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Add New Listing
-          </Link>
+          <div className="flex items-center gap-3">
+            {user && (
+              <ListingExportMenu
+                userId={user.id}
+                filePrefix={(currentUserProfile || profile)?.agency || (currentUserProfile || profile)?.full_name}
+              />
+            )}
+            <Link
+              to="/post"
+              className="bg-accent-500 text-white px-4 py-2 rounded-md font-medium hover:bg-accent-600 transition-colors flex items-center"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add New Listing
+            </Link>
+          </div>
         </div>
 
         {/* Tabs */}
@@ -1218,6 +1256,20 @@ export default function Dashboard() {
                                       <Zap className="w-4 h-4 text-accent-500" /> Get Featured
                                     </button>
                                   )}
+                                  <button
+                                    type="button"
+                                    onClick={() => { setOpenCardMenu(null); setShowingListing({ id: listing.id, title: listing.title ?? '', isCommercial }); }}
+                                    className="w-full flex items-center gap-2 px-3 py-2 text-gray-700 hover:bg-gray-50"
+                                  >
+                                    <CalendarCheck className="w-4 h-4 text-gray-500" /> Showings
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => { setOpenCardMenu(null); setAttachmentsListing({ id: listing.id, title: listing.title ?? '', isCommercial }); }}
+                                    className="w-full flex items-center gap-2 px-3 py-2 text-gray-700 hover:bg-gray-50"
+                                  >
+                                    <Paperclip className="w-4 h-4 text-gray-500" /> Floor plans & docs
+                                  </button>
                                   {listing.is_active ? (
                                     <button
                                       type="button"
@@ -1469,6 +1521,27 @@ export default function Dashboard() {
                                       <Zap className="w-4 h-4 text-accent-500" /> Get Featured
                                     </button>
                                   )}
+                                  <button
+                                    type="button"
+                                    onClick={() => { setOpenCardMenu(null); setOpenHouseListing({ id: listing.id, title: listing.title ?? '', isCommercial }); }}
+                                    className="w-full flex items-center gap-2 px-3 py-2 text-gray-700 hover:bg-gray-50"
+                                  >
+                                    <CalendarClock className="w-4 h-4 text-gray-500" /> Open houses
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => { setOpenCardMenu(null); setShowingListing({ id: listing.id, title: listing.title ?? '', isCommercial }); }}
+                                    className="w-full flex items-center gap-2 px-3 py-2 text-gray-700 hover:bg-gray-50"
+                                  >
+                                    <CalendarCheck className="w-4 h-4 text-gray-500" /> Showings
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => { setOpenCardMenu(null); setAttachmentsListing({ id: listing.id, title: listing.title ?? '', isCommercial }); }}
+                                    className="w-full flex items-center gap-2 px-3 py-2 text-gray-700 hover:bg-gray-50"
+                                  >
+                                    <Paperclip className="w-4 h-4 text-gray-500" /> Floor plans & docs
+                                  </button>
                                   {listing.is_active ? (
                                     <button
                                       type="button"
@@ -1607,6 +1680,7 @@ export default function Dashboard() {
         onClose={handleCloseModal}
         listingTitle={modalListingTitle}
         inquiries={modalInquiries}
+        threads={modalThreads}
         loading={modalLoading}
       />
 
@@ -1649,6 +1723,27 @@ export default function Dashboard() {
         onClose={() => setQuickPayListing(null)}
         listing={quickPayListing}
       />
+
+      <OpenHouseManagerModal
+        open={openHouseListing !== null}
+        onClose={() => setOpenHouseListing(null)}
+        listing={openHouseListing}
+        userId={user?.id}
+      />
+
+      <ShowingManagerModal
+        open={showingListing !== null}
+        onClose={() => setShowingListing(null)}
+        listing={showingListing}
+        userId={user?.id}
+      />
+
+      <AttachmentsManagerModal
+        open={attachmentsListing !== null}
+        onClose={() => setAttachmentsListing(null)}
+        listing={attachmentsListing}
+        userId={user?.id}
+      />
     </div>
   );
 }
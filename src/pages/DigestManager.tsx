@@ -1,13 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Mail, Save, Eye, Send, Copy, Plus, CreditCard as Edit2, Trash2, ChevronDown, ChevronUp, Check, Settings as SettingsIcon } from 'lucide-react';
+import { Mail, Save, Eye, Send, Copy, Plus, CreditCard as Edit2, Trash2, ChevronDown, ChevronUp, Check, MessageCircle, Settings as SettingsIcon } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { digestService, DigestTemplate, CollectionConfig, ListingGroup } from '@/services/digest';
 import { WhatsAppFormatter, CollectionLink, FormattedListing } from '@/utils/whatsappFormatter';
 import { supabase, Listing } from '@/config/supabase';
 import { CollectionConfigEditor } from '@/components/admin/CollectionConfigEditor';
 import { ListingGroupsBuilder } from '@/components/admin/ListingGroupsBuilder';
+import { DigestSendHistory } from '@/components/admin/DigestSendHistory';
+import { DigestSubscribersPanel } from '@/components/admin/DigestSubscribersPanel';
 import { digestGlobalSettingsService } from '@/services/digestGlobalSettings';
+import { whatsappService } from '@/services/whatsapp';
 
 export function DigestManager() {
   const { profile } = useAuth();
@@ -49,11 +52,13 @@ export function DigestManager() {
   const [previewListings, setPreviewListings] = useState<FormattedListing[]>([]);
   const [previewCollections, setPreviewCollections] = useState<CollectionLink[]>([]);
   const [copySuccess, setCopySuccess] = useState(false);
+  const [sendingWhatsApp, setSendingWhatsApp] = useState(false);
 
   // Send modal state
   const [showSendModal, setShowSendModal] = useState(false);
   const [sending, setSending] = useState(false);
   const [sendResult, setSendResult] = useState<any>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
 
   // Toast
   const [toast, setToast] = useState<{ message: string; tone: 'success' | 'error' } | null>(null);
@@ -385,6 +390,28 @@ export function DigestManager() {
     }
   };
 
+  // Straight to every WhatsApp subscriber, instead of pasting into groups.
+  const handleSendWhatsApp = async () => {
+    if (!previewText) return;
+    if (!confirm('Send this digest on WhatsApp to everyone subscribed to it?')) return;
+
+    setSendingWhatsApp(true);
+    try {
+      const result = await whatsappService.sendDigest(previewText);
+      const queued = result.deferred > 0 ? `, ${result.deferred} queued` : '';
+      const failed = result.failed > 0 ? `, ${result.failed} failed` : '';
+      setToast({
+        message: `WhatsApp digest: ${result.sent} of ${result.recipients} sent${queued}${failed}`,
+        tone: result.failed > 0 ? 'error' : 'success',
+      });
+    } catch (error) {
+      console.error('Error sending WhatsApp digest:', error);
+      setToast({ message: `Failed to send on WhatsApp: ${error instanceof Error ? error.message : 'Unknown error'}`, tone: 'error' });
+    } finally {
+      setSendingWhatsApp(false);
+    }
+  };
+
   const handleSendDigest = async (dryRun: boolean = false) => {
     if (!previewText) {
       setToast({ message: 'Please generate a preview first', tone: 'error' });
@@ -421,6 +448,7 @@ export function DigestManager() {
       const response = await supabase.functions.invoke('send-email', {
         body: {
           type: 'admin_notification',
+          category: 'digests',
           subject: `WhatsApp Digest - ${currentTemplate.name || 'Preview'}`,
           html: `
             <h2>WhatsApp Digest</h2>
@@ -449,6 +477,29 @@ export function DigestManager() {
 
       console.log('Email sent successfully:', data);
 
+      // Log it in digest_sends so the history can show delivery / bounce rates.
+      // A failed log doesn't fail the send.
+      try {
+        await digestService.recordDigestSend({
+          template_id: selectedTemplateId || undefined,
+          template_name: currentTemplate.name || 'WhatsApp Digest',
+          template_type: currentTemplate.template_type || 'custom_query',
+          sent_by: profile?.id,
+          recipient_emails: [],
+          recipient_count: typeof data.recipientCount === 'number' ? data.recipientCount : 1,
+          total_listings_sent: previewListings.length,
+          listings_by_category: {},
+          filter_links_included: previewCollections,
+          success: true,
+          config_snapshot: currentTemplate,
+          email_message_ids: data.ids ?? [],
+          outbox_message_ids: data.outboxIds ?? [],
+        });
+        setHistoryRefreshKey((k) => k + 1);
+      } catch (logError) {
+        console.error('Failed to record digest send:', logError);
+      }
+
       // Calculate recipient count from the response
       let recipientCount = 1;
       if (data.to && Array.isArray(data.to)) {
@@ -1065,6 +1116,15 @@ export function DigestManager() {
                       </>
                     )}
                   </button>
+
+                  <button
+                    onClick={handleSendWhatsApp}
+                    disabled={sendingWhatsApp}
+                    className="w-full flex items-center justify-center px-4 py-2 border border-green-600 text-green-700 rounded-lg hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <MessageCircle className="w-4 h-4 mr-2" />
+                    {sendingWhatsApp ? 'Sending...' : 'Send on WhatsApp'}
+                  </button>
                 </div>
               ) : (
                 <div className="text-center py-12 text-gray-500">
@@ -1124,6 +1184,10 @@ export function DigestManager() {
           </button>
         </div>
 
+        <DigestSendHistory refreshKey={historyRefreshKey} />
+
+        <DigestSubscribersPanel templates={templates} />
+
         {/* Send Confirmation Modal */}
         {showSendModal && (
           <div className="fixed inset-0 bg-black bg-opacity-50 z-[100] flex items-center justify-center p-4">
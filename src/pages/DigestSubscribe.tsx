@@ -0,0 +1,168 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircle, Loader2, Mail, MessageCircle } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { gaEvent } from '@/lib/ga';
+import { DigestPreferenceFields } from '../components/digest/DigestPreferenceFields';
+import { digestSubscriptionsService } from '../services/digestSubscriptions';
+import type { DigestChannel, DigestPreferences, DigestSubscribeResult } from '../types/digestSubscriptions';
+import { DIGEST_CHANNEL_LABELS } from '../types/digestSubscriptions';
+
+const DEFAULT_PREFERENCES: DigestPreferences = {
+  listing_type: 'rental',
+  neighborhoods: [],
+  bedrooms: [],
+  frequency: 'daily',
+};
+
+// Public sign-up for a subscriber digest: new listings matching the picked
+// neighborhoods and bedrooms, by email or WhatsApp. See digest-subscribe.
+export function DigestSubscribe() {
+  const { user, profile } = useAuth();
+  const [searchParams] = useSearchParams();
+  const [prefs, setPrefs] = useState<DigestPreferences>(() => ({
+    ...DEFAULT_PREFERENCES,
+    listing_type: searchParams.get('type') === 'sale' ? 'sale' : 'rental',
+  }));
+  const [channel, setChannel] = useState<DigestChannel>('email');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<DigestSubscribeResult | null>(null);
+
+  useEffect(() => {
+    if (user?.email) setEmail((current) => current || user.email!);
+    if (profile?.phone) setPhone((current) => current || profile.phone!);
+  }, [user, profile]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await digestSubscriptionsService.subscribe({
+        ...prefs,
+        channel,
+        email: channel === 'email' ? email : undefined,
+        phone: channel === 'whatsapp' ? phone : undefined,
+      });
+      gaEvent('digest_subscribe', { channel, frequency: prefs.frequency, listing_type: prefs.listing_type });
+      setResult(res);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not subscribe. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (result) {
+    let message: string;
+    if (result.status === 'check_email') {
+      message = `Check ${email} — we sent a link to confirm your digest (or to change the one you already have).`;
+    } else if (result.status === 'already_subscribed') {
+      message = 'That number already gets a digest. Use the link at the bottom of it to change what it sends you.';
+    } else if (channel === 'whatsapp' && !result.whatsapp_opted_in) {
+      message = "You're subscribed. Send START to Hadirot on WhatsApp (or turn WhatsApp on in Account Settings) and your digest starts with the next one.";
+    } else {
+      message = result.updated ? 'Your digest was updated.' : "You're subscribed — your first digest goes out with the next one.";
+    }
+
+    return (
+      <div className="min-h-screen bg-gray-50 px-4 py-16">
+        <div className="mx-auto max-w-lg rounded-2xl border border-gray-100 bg-white p-6 text-center shadow-sm">
+          <CheckCircle className="mx-auto mb-3 h-8 w-8 text-green-600" />
+          <p className="text-gray-700">{message}</p>
+          <div className="mt-4 flex justify-center gap-4 text-sm font-medium">
+            {result.token && (
+              <Link to={`/digest/${result.token}`} className="text-brand-700 hover:text-brand-800">
+                Manage digest
+              </Link>
+            )}
+            <Link to="/browse" className="text-brand-700 hover:text-brand-800">
+              Browse listings
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-16">
+      <div className="mx-auto max-w-lg">
+        <form onSubmit={handleSubmit} className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+          <h1 className="text-xl font-bold text-[#273140]">Get a digest of new listings</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Pick what you're looking for and we'll send you only the new listings that match — never the same one twice.
+          </p>
+
+          <div className="mt-6">
+            <DigestPreferenceFields value={prefs} onChange={setPrefs} disabled={saving} />
+          </div>
+
+          <div className="mt-5">
+            <label className="mb-2 block text-sm font-medium text-gray-700">Send it by</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(DIGEST_CHANNEL_LABELS) as DigestChannel[]).map((c) => (
+                <button
+                  key={c}
+                  type="button"
+                  disabled={saving}
+                  onClick={() => setChannel(c)}
+                  className={`inline-flex items-center justify-center gap-2 rounded-md border px-3 py-2 text-sm font-medium transition-colors disabled:opacity-50 ${
+                    channel === c
+                      ? 'border-brand-700 bg-brand-700 text-white'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {c === 'email' ? <Mail className="h-4 w-4" /> : <MessageCircle className="h-4 w-4" />}
+                  {DIGEST_CHANNEL_LABELS[c]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="mt-4">
+            {channel === 'email' ? (
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                required
+                className="w-full rounded-md border border-gray-300 px-3 py-2 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-brand-700"
+              />
+            ) : (
+              <>
+                <input
+                  type="tel"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  placeholder="(718) 555-0123"
+                  required
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-brand-700"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  WhatsApp digests start once this number has opted in — send START to Hadirot on WhatsApp.
+                </p>
+              </>
+            )}
+          </div>
+
+          {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="mt-6 inline-flex w-full items-center justify-center gap-2 rounded-md bg-brand-700 px-4 py-2.5 text-sm font-medium text-white hover:bg-brand-800 disabled:opacity-60"
+          >
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Subscribe
+          </button>
+          <p className="mt-3 text-center text-xs text-gray-400">Unsubscribe any time from the link in every digest.</p>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -924,6 +924,7 @@ export function EditListing() {
             to: adminAssignUser.email,
             subject: `Listing Assigned: ${formData.title} - HaDirot`,
             html: assignedHtml,
+            category: "listing_updates",
           });
 
           console.log("✅ Listing assignment email sent to user:", adminAssignUser.email);
@@ -8,6 +8,7 @@ import {
   Star,
   Heart,
   Calendar,
+  CalendarCheck,
   Home as HomeIcon,
   ArrowLeft,
   Flame,
@@ -35,7 +36,7 @@ import { Listing } from "../config/supabase";
 import { listingsService } from "../services/listings";
 import { useAuth } from "@/hooks/useAuth";
 import { SimilarListings } from "../components/listings/SimilarListings";
-import ImageCarousel from "@/components/listing/ImageCarousel";
+import ImageCarousel, { type CarouselView } from "@/components/listing/ImageCarousel";
 import { normalizeImageUrl } from "@/utils/stockImage";
 import { gaEvent, gaListing } from "@/lib/ga";
 import { trackListingView, trackPhoneReveal } from "../lib/analytics";
@@ -47,8 +48,17 @@ import { ImageZoomModal } from "../components/listing/ImageZoomModal";
 import { ListingContactForm, type ListingContactFormData } from "../components/listing/ListingContactForm";
 import { AdminListingBanner } from "../components/listing/AdminListingBanner";
 import { formatLeaseLength } from "../utils/formatters";
+import { formatAvailability } from "../utils/availability";
 import { ListingLocationMap } from "../components/listing/ListingLocationMapLazy";
 import { SaleStatusBadge } from "../components/listings/SaleStatusBadge";
+import { PriceReducedBadge } from "../components/listings/PriceReducedBadge";
+import { PriceHistory } from "../components/listing/PriceHistory";
+import { OpenHouseSchedule } from "../components/listing/OpenHouseSchedule";
+import { ShowingRequestForm } from "../components/listing/ShowingRequestForm";
+import { MessageOwnerForm } from "../components/listing/MessageOwnerForm";
+import { ListingAttachments } from "../components/listing/ListingAttachments";
+import { isImageFloorPlan, listingAttachmentsService } from "../services/listingAttachments";
+import type { ListingAttachment } from "../types/attachments";
 import { ContactProfileBubble } from "../components/common/ContactProfileBubble";
 import {
   PhoneNumberReveal,
@@ -92,6 +102,8 @@ export function ListingDetail() {
   const hasViewedRef = React.useRef(false);
   const [zoomModalOpen, setZoomModalOpen] = useState(false);
   const [zoomInitialIndex, setZoomInitialIndex] = useState(0);
+  const [zoomInitialView, setZoomInitialView] = useState<CarouselView>("photos");
+  const [attachments, setAttachments] = useState<ListingAttachment[]>([]);
 
   // Login-gate state. When a logged-out user clicks reveal-phone or submits
   // the callback form, we save what they were trying to do and open the
@@ -245,6 +257,20 @@ export function ListingDetail() {
     void replayPendingListingAction();
   }, [user, id, authLoading, authModalAction, replayPendingListingAction]);
 
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+    listingAttachmentsService
+      .getAttachments(id)
+      .then((rows) => {
+        if (!cancelled) setAttachments(rows);
+      })
+      .catch((err) => console.error("Error loading listing attachments:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
   // Separate useEffect for view increment - runs only once per listing ID
   useEffect(() => {
     if (id && !hasViewedRef.current) {
@@ -630,11 +656,16 @@ export function ListingDetail() {
       }) || [];
 
   const hasRealImages = images && images.length > 0;
+  const floorPlanImages = attachments
+    .filter(isImageFloorPlan)
+    .map((plan) => ({ url: plan.file_url ?? "", alt: plan.title || `${listing.title} floor plan` }));
+  const canZoom = hasRealImages || floorPlanImages.length > 0;
 
-  const handleImageZoom = (index: number) => {
+  const handleImageZoom = (index: number, view: CarouselView = "photos") => {
     setZoomInitialIndex(index);
+    setZoomInitialView(view);
     setZoomModalOpen(true);
-    gaListing("listing_image_zoom", listing.id, { image_index: index });
+    gaListing("listing_image_zoom", listing.id, { image_index: index, view });
   };
 
   const handleBackToBrowse = () => {
@@ -689,10 +720,11 @@ export function ListingDetail() {
               }}
               propertyType={listing.property_type}
               leaseLength={listing.lease_length}
-              enableZoom={hasRealImages}
+              enableZoom={canZoom}
               onImageClick={handleImageZoom}
               videoUrl={listing.video_url}
               videoThumbnail={listing.video_thumbnail_url}
+              floorPlans={floorPlanImages}
             />
             <button
               onClick={handleFavoriteToggle}
@@ -749,10 +781,11 @@ export function ListingDetail() {
                 }}
                 propertyType={listing.property_type}
                 leaseLength={listing.lease_length}
-                enableZoom={hasRealImages}
+                enableZoom={canZoom}
                 onImageClick={handleImageZoom}
                 videoUrl={listing.video_url}
                 videoThumbnail={listing.video_thumbnail_url}
+                floorPlans={floorPlanImages}
               />
               <button
                 onClick={handleFavoriteToggle}
@@ -904,6 +937,7 @@ export function ListingDetail() {
                   </div>
                 )
               )}
+              <PriceReducedBadge listing={listing} size="md" />
               {isSaleListing && listing.sale_status && listing.sale_status !== 'available' && (
                 <SaleStatusBadge status={listing.sale_status} size="md" />
               )}
@@ -913,6 +947,30 @@ export function ListingDetail() {
                 </span>
               )}
             </div>
+            <PriceHistory listingId={listing.id} listingType={listing.listing_type} />
+            {isSaleListing && (
+              <OpenHouseSchedule
+                listingId={listing.id}
+                title={listing.title}
+                location={listing.full_address || listing.location}
+              />
+            )}
+            {listing.user_id !== user?.id && (
+              <ShowingRequestForm
+                listingId={listing.id}
+                defaultName={profile?.full_name ?? ""}
+                defaultEmail={user?.email ?? ""}
+              />
+            )}
+            {listing.user_id !== user?.id && (
+              <MessageOwnerForm listingId={listing.id} userId={user?.id} />
+            )}
+            <ListingAttachments
+              attachments={attachments}
+              listingId={listing.id}
+              isSignedIn={!!user}
+              onLoginRequired={() => openAuthGate("download_document")}
+            />
           </section>
 
           {/* Basic info - Fifth on mobile */}
@@ -1343,6 +1401,13 @@ export function ListingDetail() {
                     </div>
                   )}
 
+                  {listing.listing_type !== "sale" && formatAvailability(listing.available_date) && (
+                    <div className="flex items-center">
+                      <CalendarCheck className="w-5 h-5 text-[#273140] mr-3" />
+                      <span>{formatAvailability(listing.available_date)}</span>
+                    </div>
+                  )}
+
                   {listing.ac_type && (
                     <div className="flex items-center">
                       <Wind className="w-5 h-5 text-[#273140] mr-3" />
@@ -1436,11 +1501,13 @@ export function ListingDetail() {
       <SimilarListings listing={listing} />
 
       {/* Image Zoom Modal — full resolution so users can actually zoom in */}
-      {zoomModalOpen && hasRealImages && (
+      {zoomModalOpen && canZoom && (
         <ImageZoomModal
           images={images.map((img) => ({ url: normalizeImageUrl(img.image_url, 'full'), alt: listing.title }))}
           initialIndex={zoomInitialIndex}
           onClose={() => setZoomModalOpen(false)}
+          floorPlans={floorPlanImages}
+          initialView={zoomInitialView}
         />
       )}
 
@@ -1454,7 +1521,9 @@ export function ListingDetail() {
           <p className="text-sm text-gray-500">
             {authModalAction === "reveal_phone"
               ? "An account is required to view contact info. It's free and takes just a few seconds — we'll show the phone right after."
-              : "An account is required to send a request. It's free and takes just a few seconds — we'll send your message right after."}
+              : authModalAction === "download_document"
+                ? "An account is required to download this document. It's free and takes just a few seconds."
+                : "An account is required to send a request. It's free and takes just a few seconds — we'll send your message right after."}
           </p>
           <AuthForm
             onAuthSuccess={handleAuthSuccessFromModal}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { BellOff, Loader2, MailCheck } from 'lucide-react';
+import { gaEvent } from '@/lib/ga';
+import { DigestPreferenceFields } from '../components/digest/DigestPreferenceFields';
+import { digestSubscriptionsService } from '../services/digestSubscriptions';
+import type { DigestPreferences, ManagedDigestSubscription } from '../types/digestSubscriptions';
+
+function toPreferences(sub: ManagedDigestSubscription): DigestPreferences {
+  return {
+    listing_type: sub.listing_type,
+    neighborhoods: sub.neighborhoods,
+    bedrooms: sub.bedrooms,
+    frequency: sub.frequency,
+  };
+}
+
+// Manage link from the confirmation email and every subscriber digest:
+// /digest/:token. Loading it changes nothing — mail filters open every link —
+// so confirming takes a click. See digest-subscribe.
+export function ManageDigestSubscription() {
+  const { token = '' } = useParams<{ token: string }>();
+  const [data, setData] = useState<ManagedDigestSubscription | null>(null);
+  const [prefs, setPrefs] = useState<DigestPreferences | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    digestSubscriptionsService
+      .getManaged(token)
+      .then((res) => {
+        if (cancelled) return;
+        setData(res);
+        setPrefs(toPreferences(res));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load this digest.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const runAction = async (action: 'confirm' | 'update' | 'unsubscribe') => {
+    if (!data || !prefs) return;
+    if (action === 'unsubscribe' && !window.confirm('Stop sending this digest?')) return;
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res =
+        action === 'confirm'
+          ? await digestSubscriptionsService.confirm(token)
+          : action === 'update'
+            ? await digestSubscriptionsService.update(token, prefs)
+            : await digestSubscriptionsService.unsubscribe(token);
+      setData(res);
+      setPrefs(toPreferences(res));
+      setNotice(action === 'confirm' ? "You're subscribed." : action === 'update' ? 'Saved.' : null);
+      gaEvent(`digest_${action}`, { channel: res.channel });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update this digest.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-300" />
+      </div>
+    );
+  }
+
+  if (!data || !prefs) {
+    return (
+      <div className="min-h-screen bg-gray-50 px-4 py-16">
+        <div className="mx-auto max-w-lg rounded-2xl border border-gray-100 bg-white p-6 text-center shadow-sm">
+          <BellOff className="mx-auto mb-3 h-8 w-8 text-gray-400" />
+          <p className="text-gray-700">{error || 'This link is invalid.'}</p>
+          <Link to="/digest" className="mt-4 inline-block text-sm font-medium text-brand-700 hover:text-brand-800">
+            Subscribe to a digest
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const address = data.channel === 'email' ? data.email : `${data.phone_number} on WhatsApp`;
+
+  if (data.unsubscribed) {
+    return (
+      <div className="min-h-screen bg-gray-50 px-4 py-16">
+        <div className="mx-auto max-w-lg rounded-2xl border border-gray-100 bg-white p-6 text-center shadow-sm">
+          <BellOff className="mx-auto mb-3 h-8 w-8 text-gray-400" />
+          <p className="text-gray-700">{address} is unsubscribed from this digest.</p>
+          <Link to="/digest" className="mt-4 inline-block text-sm font-medium text-brand-700 hover:text-brand-800">
+            Subscribe again
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-16">
+      <div className="mx-auto max-w-lg">
+        <div className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+          <h1 className="text-xl font-bold text-[#273140]">Your Hadirot digest</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Sent to {address}
+            {data.last_sent_at ? ` · last sent ${new Date(data.last_sent_at).toLocaleDateString()}` : ''}
+          </p>
+
+          {!data.confirmed && (
+            <div className="mt-5 rounded-md border border-amber-200 bg-amber-50 p-4">
+              <p className="text-sm text-amber-800">Confirm this address to start getting the digest.</p>
+              <button
+                type="button"
+                onClick={() => runAction('confirm')}
+                disabled={busy}
+                className="mt-3 inline-flex items-center gap-2 rounded-md bg-brand-700 px-4 py-2 text-sm font-medium text-white hover:bg-brand-800 disabled:opacity-60"
+              >
+                {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <MailCheck className="h-4 w-4" />}
+                Confirm subscription
+              </button>
+            </div>
+          )}
+
+          {data.channel === 'whatsapp' && !data.whatsapp_opted_in && (
+            <p className="mt-5 rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+              This number hasn't opted in to WhatsApp messages from Hadirot yet. Send START to Hadirot on WhatsApp and the
+              digest starts with the next one.
+            </p>
+          )}
+
+          <div className="mt-6">
+            <DigestPreferenceFields value={prefs} onChange={setPrefs} disabled={busy} />
+          </div>
+
+          {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+          {notice && <p className="mt-4 text-sm text-green-700">{notice}</p>}
+
+          <div className="mt-6 flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => runAction('update')}
+              disabled={busy}
+              className="inline-flex items-center gap-2 rounded-md bg-brand-700 px-4 py-2 text-sm font-medium text-white hover:bg-brand-800 disabled:opacity-60"
+            >
+              {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save changes
+            </button>
+            <button
+              type="button"
+              onClick={() => runAction('unsubscribe')}
+              disabled={busy}
+              className="rounded-md border border-red-200 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-60"
+            >
+              Unsubscribe
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { CalendarCheck, CalendarX, Clock, Loader2, MapPin, Phone } from 'lucide-react';
+import type { ManagedShowing, ShowingSlot } from '../types/showings';
+import { SHOWING_STATUS_LABELS } from '../types/showings';
+import { showingsService } from '../services/showings';
+import { formatShowingWhen } from '../utils/showings';
+import { ShowingSlotPicker } from '../components/listing/ShowingSlotPicker';
+import { gaEvent } from '../lib/ga';
+
+// Manage link from the showing SMS/emails: /showing/:token. The token alone
+// decides who's looking (requester or lister) — see manage-showing.
+export function ManageShowing() {
+  const { token = '' } = useParams<{ token: string }>();
+  const [data, setData] = useState<ManagedShowing | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rescheduling, setRescheduling] = useState(false);
+  const [slots, setSlots] = useState<ShowingSlot[]>([]);
+  const [selected, setSelected] = useState<ShowingSlot | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    showingsService
+      .getManagedShowing(token)
+      .then((res) => {
+        if (!cancelled) setData(res);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load this viewing.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const runAction = async (action: 'confirm' | 'cancel' | 'reschedule', slot?: ShowingSlot) => {
+    if (!data) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await showingsService.manageShowing(token, action, slot);
+      setData(res);
+      setRescheduling(false);
+      setSelected(null);
+      gaEvent(`showing_${action}`, { listing_id: res.listing.id, role: res.role });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update this viewing.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startReschedule = async () => {
+    if (!data) return;
+    setError(null);
+    setRescheduling(true);
+    try {
+      setSlots(await showingsService.getOpenSlots(data.listing.id, data.listing.is_commercial));
+    } catch (err) {
+      console.error('Error loading showing slots:', err);
+      setError('Could not load available times.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-300" />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-gray-50 px-4 py-16">
+        <div className="mx-auto max-w-lg rounded-2xl border border-gray-100 bg-white p-6 text-center shadow-sm">
+          <CalendarX className="mx-auto mb-3 h-8 w-8 text-gray-400" />
+          <p className="text-gray-700">{error || 'This link is invalid.'}</p>
+          <Link to="/" className="mt-4 inline-block text-sm font-medium text-brand-700 hover:text-brand-800">
+            Go to Hadirot
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { role, showing, listing } = data;
+  const isLister = role === 'lister';
+  const isOpen = showing.status !== 'cancelled' && new Date(showing.starts_at).getTime() > Date.now();
+  const statusClass =
+    showing.status === 'confirmed'
+      ? 'bg-green-50 text-green-700 border-green-200'
+      : showing.status === 'cancelled'
+        ? 'bg-gray-100 text-gray-600 border-gray-200'
+        : 'bg-amber-50 text-amber-700 border-amber-200';
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-16">
+      <div className="mx-auto max-w-lg">
+        <div className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <h1 className="text-xl font-bold text-[#273140]">
+                {isLister ? `Viewing request from ${showing.requester_name}` : 'Your viewing'}
+              </h1>
+              <a href={listing.url} className="mt-1 block text-sm text-brand-700 hover:text-brand-800">
+                {listing.desc}
+              </a>
+            </div>
+            <span className={`flex-shrink-0 rounded-full border px-2.5 py-0.5 text-xs font-medium ${statusClass}`}>
+              {SHOWING_STATUS_LABELS[showing.status]}
+            </span>
+          </div>
+
+          <div className="mt-5 space-y-2 text-sm text-gray-700">
+            <div className="flex items-center gap-2">
+              <Clock className="h-4 w-4 text-gray-400" />
+              {formatShowingWhen(showing.starts_at)} <span className="text-gray-400">(New York time)</span>
+            </div>
+            {listing.address && (
+              <div className="flex items-center gap-2">
+                <MapPin className="h-4 w-4 text-gray-400" />
+                {listing.address}
+              </div>
+            )}
+            {isLister && showing.requester_phone && (
+              <div className="flex items-center gap-2">
+                <Phone className="h-4 w-4 text-gray-400" />
+                <a href={`tel:${showing.requester_phone}`} className="text-brand-700 hover:text-brand-800">
+                  {showing.requester_phone}
+                </a>
+              </div>
+            )}
+            {isLister && showing.message && (
+              <p className="rounded-md bg-gray-50 px-3 py-2 text-gray-600">&ldquo;{showing.message}&rdquo;</p>
+            )}
+            {showing.status === 'cancelled' && (
+              <p className="text-gray-500">
+                Cancelled by {showing.cancelled_by === role ? 'you' : showing.cancelled_by === 'lister' ? 'the lister' : showing.requester_name}.
+              </p>
+            )}
+          </div>
+
+          {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+          {isOpen && !rescheduling && (
+            <div className="mt-6 flex flex-wrap gap-2">
+              {isLister && showing.status === 'requested' && (
+                <button
+                  type="button"
+                  onClick={() => runAction('confirm')}
+                  disabled={busy}
+                  className="inline-flex items-center gap-2 rounded-md bg-brand-700 px-4 py-2 text-sm font-medium text-white hover:bg-brand-800 disabled:opacity-60"
+                >
+                  {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <CalendarCheck className="h-4 w-4" />}
+                  Confirm
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={startReschedule}
+                disabled={busy}
+                className="rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+              >
+                Reschedule
+              </button>
+              <button
+                type="button"
+                onClick={() => runAction('cancel')}
+                disabled={busy}
+                className="rounded-md border border-red-200 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-60"
+              >
+                Cancel viewing
+              </button>
+            </div>
+          )}
+
+          {isOpen && rescheduling && (
+            <div className="mt-6 space-y-3 border-t border-gray-100 pt-4">
+              <h2 className="text-sm font-semibold text-[#273140]">Pick a new time</h2>
+              {slots.length === 0 ? (
+                <p className="text-sm text-gray-500">No other times are open right now.</p>
+              ) : (
+                <ShowingSlotPicker slots={slots} selected={selected} onSelect={setSelected} disabled={busy} />
+              )}
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => selected && runAction('reschedule', selected)}
+                  disabled={busy || !selected}
+                  className="inline-flex items-center gap-2 rounded-md bg-brand-700 px-4 py-2 text-sm font-medium text-white hover:bg-brand-800 disabled:opacity-60"
+                >
+                  {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+                  {selected ? `Move to ${formatShowingWhen(selected.starts_at)}` : 'Move viewing'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setRescheduling(false)}
+                  disabled={busy}
+                  className="rounded-md px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+                >
+                  Back
+                </button>
+              </div>
+              {!isLister && (
+                <p className="text-xs text-gray-400">The lister will be asked to confirm the new time.</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {isLister && (
+          <p className="mt-4 text-center text-xs text-gray-500">
+            Tip: you can also reply CONFIRM or CANCEL to the text message.{' '}
+            <Link to="/dashboard" className="text-brand-700 hover:text-brand-800">Manage availability</Link>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -497,6 +497,7 @@ export function PostCommercialListing() {
           to: user.email!,
           subject: `Commercial Listing Submitted — HaDirot`,
           html: `<p>Your commercial listing has been submitted and is pending approval. You will be notified once it goes live.</p><p><a href="${origin}/account">View your listings</a></p>`,
+          category: "listing_updates",
         });
       } catch (err) {
         console.warn("Failed to send confirmation email", err);
@@ -1232,6 +1232,7 @@ export function PostListing() {
             to: adminAssignUser.email,
             subject: `Listing Assigned: ${formData.title} - HaDirot`,
             html: assignedHtml,
+            category: "listing_updates",
           });
 
           console.log("✅ Listing assignment email sent to user:", adminAssignUser.email);
@@ -1253,6 +1254,7 @@ export function PostListing() {
           to: user.email!,
           subject: `Listing Submitted: ${formData.title} - HaDirot`,
           html,
+          category: "listing_updates",
         });
 
         console.log("✅ Listing submission email sent successfully");
@@ -1,5 +1,6 @@
 import type { GoogleStreetFeature } from "../../components/listing/GoogleStreetAutocomplete";
 import type { ListingFormData } from "./types";
+import { todayISODate } from "../../utils/availability";
 
 export interface AIParseMappingResult {
   updatedFormData: Partial<ListingFormData>;
@@ -189,6 +190,8 @@ export function mapAIParsedDataToFormFields(
   if (data.property_type) updatedFormData.property_type = data.property_type;
   if (data.building_type) updatedFormData.building_type = data.building_type;
   if (data.lease_length) updatedFormData.lease_length = data.lease_length;
+  if (data.available_date) updatedFormData.available_date = data.available_date;
+  else if (data.available_immediately === true) updatedFormData.available_date = todayISODate();
   if (data.ac_type) updatedFormData.ac_type = data.ac_type;
   if (data.property_condition) updatedFormData.property_condition = data.property_condition;
   if (data.occupancy_status) updatedFormData.occupancy_status = data.occupancy_status;
@@ -284,6 +287,55 @@ export function mapAIParsedDataToFormFields(
   return { updatedFormData, crossStreetA, crossStreetB };
 }
 
+// ParsedListing fields the model can name in uncertain_fields, keyed to the
+// form field the wizard should highlight. Anything else is the same name.
+const UNCERTAIN_FIELD_ALIASES: Record<string, keyof ListingFormData> = {
+  cross_street_1: 'location',
+  cross_street_2: 'location',
+  cross_streets_raw: 'location',
+  price_note: 'price',
+  contact_phone_display: 'contact_phone',
+  available_immediately: 'available_date',
+  listing_kind: 'listing_type',
+};
+
+// Below this the whole parse is suspect, so every key field it filled is
+// flagged rather than only the ones the model named.
+const LOW_CONFIDENCE = 0.6;
+
+const KEY_REVIEW_FIELDS: (keyof ListingFormData)[] = [
+  'property_type',
+  'bedrooms',
+  'bathrooms',
+  'price',
+  'asking_price',
+  'location',
+  'neighborhood',
+  'contact_name',
+  'contact_phone',
+];
+
+/**
+ * Form fields the user should double-check after an AI fill: the ones the
+ * model reported as uncertain, limited to fields the fill actually set.
+ */
+export function getAIReviewFields(
+  parsedData: { confidence?: number; uncertain_fields?: string[] },
+  updatedFormData: Partial<ListingFormData>
+): string[] {
+  const filled = new Set(Object.keys(updatedFormData));
+  if (updatedFormData.call_for_price) filled.add('price');
+
+  const fields = new Set<string>(
+    (parsedData.uncertain_fields ?? []).map((f) => UNCERTAIN_FIELD_ALIASES[f] ?? f)
+  );
+  if ((parsedData.confidence ?? 1) < LOW_CONFIDENCE) {
+    KEY_REVIEW_FIELDS.forEach((f) => fields.add(f));
+  }
+
+  return [...fields].filter((f) => filled.has(f));
+}
+
 export function validatePrice(
   listingType: string,
   callForPrice: boolean,
@@ -50,6 +50,7 @@ export interface ListingFormData {
   washer_dryer_hookup: boolean;
   dishwasher: boolean;
   lease_length?: LeaseLength | null;
+  available_date?: string | null;
   heat: HeatType;
   heating_type?: HeatingType | null;
   property_type: PropertyType | '';
@@ -115,6 +116,7 @@ export const INITIAL_FORM_DATA: ListingFormData = {
   washer_dryer_hookup: false,
   dishwasher: false,
   lease_length: null,
+  available_date: null,
   heat: "tenant_pays",
   heating_type: null,
   property_type: "",
@@ -78,6 +78,7 @@ function listingToFormData(data: Listing): ListingFormData {
     washer_dryer_hookup: data.washer_dryer_hookup,
     dishwasher: data.dishwasher,
     lease_length: data.lease_length || null,
+    available_date: data.available_date || null,
     heat: data.heat,
     property_type: data.property_type,
     contact_name: data.contact_name,
@@ -415,6 +416,7 @@ export function EditListingWizard() {
           price: wizard.formData.call_for_price ? null : wizard.formData.price,
           call_for_price: !!wizard.formData.call_for_price,
           lease_length: wizard.formData.lease_length || null,
+          available_date: wizard.formData.available_date || null,
           square_footage: wizard.formData.square_footage || null,
         });
       }
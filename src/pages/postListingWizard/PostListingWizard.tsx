@@ -28,6 +28,9 @@ import { Step5SaleConditionAndStatus } from './steps/sale/Step5SaleConditionAndS
 import { Step6SaleOptionalFeatures } from './steps/sale/Step6SaleOptionalFeatures';
 import { Step7SaleContactAndReview } from './steps/sale/Step7SaleContactAndReview';
 import { CommercialStepsRouter } from './CommercialStepsRouter';
+import { AiQuickFill } from './components/AiQuickFill';
+import { mapAIParsedDataToFormFields, getAIReviewFields } from '../postListing/aiParseMapper';
+import type { AiParsedListing } from '../../types/aiParse';
 import { commercialListingsService } from '../../services/commercialListings';
 import { emailService, renderBrandEmail } from '../../services/email';
 import { paymentsService } from '../../services/payments';
@@ -105,6 +108,16 @@ const COMMERCIAL_STEP_LABELS = [
   'Contact & Review',
 ];
 
+// Same list as the location steps' neighborhood select.
+const NEIGHBORHOOD_OPTIONS = [
+  'Midwood',
+  'Homecrest',
+  'Marine Park',
+  'Flatbush',
+  'Gravesend',
+  'Boro Park',
+];
+
 // ── Change Listing Type dropdown ──────────────────────────────────────────────
 
 const LISTING_TYPE_OPTIONS: { path: WizardPath; label: string; sub: string; comingSoon?: boolean }[] = [
@@ -626,6 +639,7 @@ export function PostListingWizard() {
           to: authedUser.email!,
           subject: `Listing Submitted: ${titleForEmail} - HaDirot`,
           html,
+          category: 'listing_updates',
         });
       } catch (emailErr) {
         console.warn('Failed to send commercial listing submission email', emailErr);
@@ -757,6 +771,7 @@ export function PostListingWizard() {
         tenant_notes: wizard.formData.tenant_notes || null,
         // Enum fields that default to "" must be null — DB rejects empty strings
         lease_length: wizard.formData.lease_length || null,
+        available_date: wizard.formData.available_date || null,
         basement_type: wizard.formData.basement_type || null,
         building_type: wizard.formData.building_type || null,
         delivery_condition: (wizard.formData as any).delivery_condition || null,
@@ -928,6 +943,7 @@ export function PostListingWizard() {
           to: authedUser.email!,
           subject: `Listing Submitted: ${autoTitle} - HaDirot`,
           html,
+          category: 'listing_updates',
         });
       } catch (emailErr) {
         console.warn('Failed to send residential listing submission email', emailErr);
@@ -974,6 +990,50 @@ export function PostListingWizard() {
     setShowAuthModal(true);
   };
 
+  // "Paste your ad" fill from step 1. Returns how many fields were flagged
+  // for review so the card can say so.
+  const handleAiFill = (parsed: AiParsedListing): number => {
+    // The mapper turns explicit nulls into defaults (bedrooms → 1, floor → 0);
+    // drop them so only what the ad actually says is filled in. The path
+    // picker already decided rental vs sale, whatever the AI thought.
+    const stated: Record<string, unknown> = Object.fromEntries(
+      Object.entries(parsed).filter(([, v]) => v !== null),
+    );
+    stated.listing_kind = wizard.formData.listing_type;
+    const { updatedFormData, crossStreetA, crossStreetB } = mapAIParsedDataToFormFields(
+      stated,
+      wizard.formData.listing_type,
+    );
+    delete updatedFormData.listing_type;
+
+    // The mapper only reads cross streets on rentals; sales use them too.
+    let streetA = crossStreetA;
+    let streetB = crossStreetB;
+    if (!streetA && typeof parsed.cross_street_1 === 'string' && typeof parsed.cross_street_2 === 'string') {
+      streetA = { placeId: 'ai-parsed-street-a', streetName: parsed.cross_street_1, formattedName: parsed.cross_street_1 };
+      streetB = { placeId: 'ai-parsed-street-b', streetName: parsed.cross_street_2, formattedName: parsed.cross_street_2 };
+      updatedFormData.location = `${parsed.cross_street_1} & ${parsed.cross_street_2}`;
+    }
+
+    wizard.updateFormData(updatedFormData);
+    if (streetA) wizard.setCrossStreetAFeature(streetA);
+    if (streetB) wizard.setCrossStreetBFeature(streetB);
+    if (parsed.neighborhood && typeof parsed.neighborhood === 'string') {
+      const n = parsed.neighborhood;
+      const matched = NEIGHBORHOOD_OPTIONS.find(o => o.toLowerCase() === n.toLowerCase());
+      wizard.setNeighborhoodSelectValue(matched ?? 'other');
+      wizard.setCustomNeighborhoodInput(matched ? '' : n);
+    }
+    wizard.setIsLocationConfirmed(false);
+
+    const reviewFields = getAIReviewFields(parsed, {
+      ...updatedFormData,
+      ...(parsed.neighborhood ? { neighborhood: String(parsed.neighborhood) } : {}),
+    });
+    wizard.setAiReviewFields(reviewFields);
+    return reviewFields.length;
+  };
+
   if (!wizard.selectedPath) {
     return (
       <>
@@ -1157,7 +1217,7 @@ export function PostListingWizard() {
   const totalSteps = totalStepsForFunnel;
 
   return (
-    <WizardUIContext.Provider value={{ currentStep: wizard.currentStep, totalSteps, lastSavedAt: wizard.lastSavedAt }}>
+    <WizardUIContext.Provider value={{ currentStep: wizard.currentStep, totalSteps, lastSavedAt: wizard.lastSavedAt, aiReviewFields: wizard.aiReviewFields }}>
     <>
       <WizardBreadcrumb
         currentStep={wizard.currentStep}
@@ -1191,6 +1251,14 @@ export function PostListingWizard() {
       <div className="max-w-5xl mx-auto px-4 py-4">
         <div className="flex gap-8 items-start">
           <div className="flex-1 min-w-0">
+            {!isCommercial && wizard.currentStep === 0 && (
+              <AiQuickFill
+                listingType={isSalePath ? 'sale' : 'rental'}
+                isAuthenticated={!!user}
+                onRequestAccount={handleRequestAccount}
+                onApply={handleAiFill}
+              />
+            )}
             {renderStep()}
           </div>
         </div>
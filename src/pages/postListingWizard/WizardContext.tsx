@@ -4,6 +4,8 @@ interface WizardUIContextValue {
   currentStep: number;
   totalSteps: number;
   lastSavedAt: Date | null;
+  /** Form fields to highlight after an AI fill (PostListingWizard only). */
+  aiReviewFields?: string[];
 }
 
 export const WizardUIContext = createContext<WizardUIContextValue>({
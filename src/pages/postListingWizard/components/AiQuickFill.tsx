@@ -0,0 +1,199 @@
+// "Paste your ad" card at the top of step 1 of the residential wizard. The
+// poster pastes the WhatsApp blurb they already have (or uploads a flyer
+// photo) and parse-listing pre-fills every step; PostListingWizard applies the
+// result and flags the fields the AI was unsure about (AiReviewFlag).
+//
+// Signed-in users only — each fill costs real tokens and counts against a
+// daily quota (services/aiParse.ts). Anonymous posters get a sign-up prompt.
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Sparkles, Loader2, AlertCircle, CheckCircle2, ChevronDown, ChevronUp, ImagePlus, X } from 'lucide-react';
+import { aiParseService } from '../../../services/aiParse';
+import type { AiParsedListing } from '../../../types/aiParse';
+
+const FLYER_ACCEPT = 'image/jpeg,image/png,image/webp,image/gif';
+
+interface AiQuickFillProps {
+  listingType: 'rental' | 'sale';
+  isAuthenticated: boolean;
+  onRequestAccount: () => void;
+  /** Applies the parsed listing to the wizard; returns how many fields need a second look. */
+  onApply: (listing: AiParsedListing) => number;
+}
+
+export function AiQuickFill({ listingType, isAuthenticated, onRequestAccount, onApply }: AiQuickFillProps) {
+  const [open, setOpen] = useState(true);
+  const [text, setText] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    aiParseService
+      .getQuota()
+      .then(q => setRemaining(q.remaining))
+      .catch(err => console.error('Error loading AI fill quota:', err));
+  }, [isAuthenticated]);
+
+  const outOfFills = remaining === 0;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0] ?? null;
+    e.target.value = '';
+    setFile(picked);
+    setError(null);
+  };
+
+  const handleFill = async () => {
+    if (!file && !text.trim()) {
+      setError('Paste your ad or upload a flyer first');
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    setResult(null);
+    try {
+      const parsed = await aiParseService.parse(file ? { file } : { text }, listingType);
+      setRemaining(parsed.remaining);
+      const flagged = onApply(parsed.listing);
+      setResult(
+        flagged > 0
+          ? `Done! Please check the ${flagged} field${flagged !== 1 ? 's' : ''} marked "Check this" as you go.`
+          : 'Done! Review each step and fix anything that looks off.',
+      );
+      setText('');
+      setFile(null);
+    } catch (err) {
+      console.error('AI fill error:', err);
+      setError(err instanceof Error && err.message ? err.message : "Couldn't read that ad. Please try again or fill in the form yourself.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 border-l-4 border-l-accent-500 p-6 mb-6">
+      <button
+        type="button"
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-start justify-between gap-3 text-left"
+      >
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Sparkles className="w-5 h-5 text-accent-500" />
+            Already have an ad? Let us fill this in
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Paste the text you send on WhatsApp, or upload a photo of your flyer.
+          </p>
+        </div>
+        {open ? <ChevronUp className="w-5 h-5 text-gray-400 flex-shrink-0" /> : <ChevronDown className="w-5 h-5 text-gray-400 flex-shrink-0" />}
+      </button>
+
+      {open && (
+        <div className="mt-4">
+          {!isAuthenticated ? (
+            <div className="flex items-center justify-between gap-3 flex-wrap bg-gray-50 border border-gray-200 rounded-lg px-4 py-3">
+              <p className="text-sm text-gray-700">Create a free account to fill the form from your ad.</p>
+              <button
+                type="button"
+                onClick={onRequestAccount}
+                className="px-4 py-2 text-sm font-medium text-white bg-brand-700 rounded-lg hover:bg-brand-800 transition-colors"
+              >
+                Sign up
+              </button>
+            </div>
+          ) : (
+            <>
+              {file ? (
+                <div className="flex items-center justify-between gap-3 border border-gray-300 rounded-md px-3 py-2 text-sm">
+                  <span className="flex items-center gap-2 text-gray-700 min-w-0">
+                    <ImagePlus className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                    <span className="truncate">{file.name}</span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setFile(null)}
+                    disabled={loading}
+                    className="text-gray-400 hover:text-gray-600"
+                    aria-label="Remove flyer"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <textarea
+                  value={text}
+                  onChange={e => {
+                    setText(e.target.value);
+                    setError(null);
+                  }}
+                  rows={5}
+                  maxLength={4000}
+                  disabled={loading || outOfFills}
+                  placeholder={'e.g. "Beautiful 3 bed 2 bath on 14th Ave & 50th St, $2,800, available Sept 1. Call Moshe 718-555-1234"'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-accent-500 focus:border-accent-500 disabled:bg-gray-50"
+                />
+              )}
+
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={FLYER_ACCEPT}
+                onChange={handleFileChange}
+                className="hidden"
+              />
+
+              {error && (
+                <p className="mt-2 flex items-start gap-1.5 text-sm text-red-600">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                  {error}
+                </p>
+              )}
+              {result && (
+                <p className="mt-2 flex items-start gap-1.5 text-sm text-green-700">
+                  <CheckCircle2 className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                  {result}
+                </p>
+              )}
+
+              <div className="mt-3 flex items-center gap-3 flex-wrap">
+                <button
+                  type="button"
+                  onClick={handleFill}
+                  disabled={loading || outOfFills}
+                  className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-accent-500 rounded-lg hover:bg-accent-600 disabled:opacity-50 transition-colors"
+                >
+                  {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                  {loading ? 'Reading your ad…' : 'Fill the form'}
+                </button>
+                {!file && (
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={loading || outOfFills}
+                    className="inline-flex items-center gap-1.5 text-sm font-medium text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                  >
+                    <ImagePlus className="w-4 h-4" />
+                    Upload a flyer instead
+                  </button>
+                )}
+                {remaining !== null && (
+                  <span className="ml-auto text-xs text-gray-500">
+                    {outOfFills
+                      ? 'No AI fills left today — fill in the form below.'
+                      : `${remaining} AI fill${remaining !== 1 ? 's' : ''} left today`}
+                  </span>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
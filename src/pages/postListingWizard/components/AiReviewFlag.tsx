@@ -0,0 +1,21 @@
+// "Check this" badge next to a wizard field label after an AI fill
+// (components/AiQuickFill.tsx). Reads the flagged fields from WizardUIContext,
+// so steps rendered outside PostListingWizard (the edit wizards) never show it.
+
+import { Sparkles } from 'lucide-react';
+import { useWizardUI } from '../WizardContext';
+
+export function AiReviewFlag({ field }: { field: string }) {
+  const { aiReviewFields } = useWizardUI();
+  if (!aiReviewFields?.includes(field)) return null;
+
+  return (
+    <span
+      className="ml-2 inline-flex items-center gap-1 text-xs font-normal text-amber-700 bg-amber-50 border border-amber-200 px-1.5 py-0.5 rounded"
+      title="Filled in from your ad — the AI wasn't sure about this one"
+    >
+      <Sparkles className="w-2.5 h-2.5" />
+      Check this
+    </span>
+  );
+}
@@ -173,6 +173,8 @@ export function Step4CommercialSpaceDetails({ formData, updateFormData, isSale,
   // Require the square footage before continuing — it's the field tenants filter
   // on most and the core of this step (fixes users skipping through empty).
   const canContinue = !!formData.available_sf && Number(formData.available_sf) > 0;
+  // 'now' is the same value the original space-details form stored for "Immediately".
+  const availableNow = formData.available_date === 'now';
 
   return (
     <StepShell title="Space Details" onBack={onBack} onNext={onNext} canContinue={canContinue} tips={TIPS}>
@@ -258,10 +260,20 @@ export function Step4CommercialSpaceDetails({ formData, updateFormData, isSale,
             </label>
             <input
               type="date"
-              value={formData.available_date || ''}
+              value={availableNow ? '' : formData.available_date || ''}
               onChange={e => updateFormData({ available_date: e.target.value })}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-accent-500 focus:border-accent-500 text-sm"
+              disabled={availableNow}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-accent-500 focus:border-accent-500 text-sm disabled:bg-gray-50 disabled:text-gray-400"
             />
+            <label className="mt-1.5 flex items-center gap-2 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={availableNow}
+                onChange={e => updateFormData({ available_date: e.target.checked ? 'now' : '' })}
+                className="h-4 w-4 text-accent-500 focus:ring-accent-500 border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-700">Available immediately</span>
+            </label>
           </div>
           {!isSale && (
             <div>
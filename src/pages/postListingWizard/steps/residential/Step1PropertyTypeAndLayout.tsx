@@ -2,6 +2,7 @@ import React from 'react';
 import { ArrowLeft, ArrowRight, Building2, Home, Layers, ArrowDownToLine } from 'lucide-react';
 import type { ListingFormData } from '../../../postListing/types';
 import { StepTips } from '../../StepTips';
+import { AiReviewFlag } from '../../components/AiReviewFlag';
 
 const TIPS = {
   heading: 'Property & Layout',
@@ -70,6 +71,7 @@ export function Step1PropertyTypeAndLayout({ formData, updateFormData, onNext, o
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-3">
               Property Type <span className="text-red-500">*</span>
+              <AiReviewFlag field="property_type" />
             </label>
             <div className="grid grid-cols-3 sm:grid-cols-5 gap-3">
               {PROPERTY_TYPES.map(pt => {
@@ -101,6 +103,7 @@ export function Step1PropertyTypeAndLayout({ formData, updateFormData, onNext, o
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Bedrooms <span className="text-red-500">*</span>
+              <AiReviewFlag field="bedrooms" />
               {isLocked && (
                 <span className="ml-2 inline-flex items-center gap-1 text-xs font-normal text-amber-700 bg-amber-50 border border-amber-200 px-1.5 py-0.5 rounded">
                   <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><rect x="3" y="11" width="18" height="11" rx="2"/><path d="M7 11V7a5 5 0 0 1 10 0v4"/></svg>
@@ -158,7 +161,10 @@ export function Step1PropertyTypeAndLayout({ formData, updateFormData, onNext, o
 
           {/* Bathrooms */}
           <div className="mb-6">
-            <label className="block text-sm font-medium text-gray-700 mb-2">Bathrooms</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Bathrooms
+              <AiReviewFlag field="bathrooms" />
+            </label>
             <div className="flex flex-wrap gap-2">
               {BATHROOM_OPTIONS.map(opt => (
                 <button
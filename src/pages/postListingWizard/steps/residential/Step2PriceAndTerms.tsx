@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import { ArrowLeft, ArrowRight, AlertTriangle, X } from 'lucide-react';
 import type { ListingFormData } from '../../../postListing/types';
 import { StepTips } from '../../StepTips';
+import { AiReviewFlag } from '../../components/AiReviewFlag';
+import { isAvailableNow, todayISODate } from '../../../../utils/availability';
 
 const TIPS = {
   heading: 'Price & Terms',
@@ -27,6 +29,10 @@ interface Step2Props {
 
 export function Step2PriceAndTerms({ formData, updateFormData, onNext, onBack }: Step2Props) {
   const [showBrokerModal, setShowBrokerModal] = useState(false);
+  const [pickingDate, setPickingDate] = useState(
+    !!formData.available_date && !isAvailableNow(formData.available_date),
+  );
+  const availableNowSelected = !pickingDate && isAvailableNow(formData.available_date);
 
   const canContinue = formData.call_for_price || (!!formData.price && formData.price > 0);
 
@@ -58,6 +64,7 @@ export function Step2PriceAndTerms({ formData, updateFormData, onNext, onBack }:
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Monthly Rent <span className="text-red-500">*</span>
+              <AiReviewFlag field="price" />
             </label>
             <div className="flex items-center gap-3 flex-wrap">
               <div className="relative">
@@ -92,7 +99,10 @@ export function Step2PriceAndTerms({ formData, updateFormData, onNext, onBack }:
 
           {/* Lease Length */}
           <div className="mb-6">
-            <label className="block text-sm font-medium text-gray-700 mb-2">Lease Length</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Lease Length
+              <AiReviewFlag field="lease_length" />
+            </label>
             <div className="flex flex-wrap gap-2">
               {LEASE_LENGTH_OPTIONS.map(opt => (
                 <button
@@ -113,6 +123,61 @@ export function Step2PriceAndTerms({ formData, updateFormData, onNext, onBack }:
             </div>
           </div>
 
+          {/* Availability */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Available
+              <AiReviewFlag field="available_date" />
+            </label>
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setPickingDate(false);
+                  updateFormData({ available_date: availableNowSelected ? null : todayISODate() });
+                }}
+                className={`px-4 py-2 rounded-lg border text-sm font-medium transition-all ${
+                  availableNowSelected
+                    ? 'bg-brand-700 border-brand-700 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:border-brand-300'
+                }`}
+              >
+                Immediately
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  if (pickingDate) {
+                    setPickingDate(false);
+                    updateFormData({ available_date: null });
+                  } else {
+                    setPickingDate(true);
+                    if (isAvailableNow(formData.available_date)) updateFormData({ available_date: null });
+                  }
+                }}
+                className={`px-4 py-2 rounded-lg border text-sm font-medium transition-all ${
+                  pickingDate
+                    ? 'bg-brand-700 border-brand-700 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:border-brand-300'
+                }`}
+              >
+                From a date
+              </button>
+              {pickingDate && (
+                <input
+                  type="date"
+                  min={todayISODate()}
+                  value={formData.available_date ?? ''}
+                  onChange={e => updateFormData({ available_date: e.target.value || null })}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-accent-500 focus:border-accent-500"
+                />
+              )}
+            </div>
+            <p className="text-xs text-gray-400 mt-1.5">
+              Renters searching for a move-in date (e.g. Pesach or summer) will find your listing.
+            </p>
+          </div>
+
           {/* Broker Fee */}
           <div className="pt-5 border-t border-gray-100">
             <label className="flex items-start gap-3 cursor-pointer select-none">
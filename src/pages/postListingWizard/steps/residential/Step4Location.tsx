@@ -5,6 +5,7 @@ import { GoogleStreetAutocomplete, GoogleStreetFeature } from '../../../../compo
 import { GoogleAddressAutocomplete, GooglePlaceResult } from '../../../../components/listing/GoogleAddressAutocomplete';
 import { LocationPicker } from '../../../../components/listing/LocationPicker';
 import { StepTips } from '../../StepTips';
+import { AiReviewFlag } from '../../components/AiReviewFlag';
 
 const TIPS = {
   heading: 'Location',
@@ -220,6 +221,7 @@ export function Step4Location({
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Street A <span className="text-red-500">*</span>
+                  <AiReviewFlag field="location" />
                 </label>
                 <GoogleStreetAutocomplete
                   value={crossStreetAFeature?.streetName}
@@ -313,6 +315,7 @@ export function Step4Location({
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Neighborhood <span className="text-red-500">*</span>
+              <AiReviewFlag field="neighborhood" />
             </label>
             <div className="max-h-52 overflow-y-auto border border-gray-200 rounded-xl">
               {NEIGHBORHOOD_OPTIONS.map(n => (
@@ -5,6 +5,8 @@ import type { ListingFormData } from '../../../postListing/types';
 import type { MediaFile } from '../../../../components/shared/MediaUploader';
 import type { Profile } from '../../../../config/supabase';
 import { StepTips } from '../../StepTips';
+import { AiReviewFlag } from '../../components/AiReviewFlag';
+import { formatAvailability } from '../../../../utils/availability';
 import { useMonetizationGate } from '../../../../hooks/useMonetizationGate';
 import {
   PaymentChoice,
@@ -242,6 +244,7 @@ export function Step6ContactAndReview({
           label: 'Lease',
           value: formData.lease_length ? LEASE_LABELS[formData.lease_length] || formData.lease_length : '',
         },
+        { label: 'Move-in', value: formatAvailability(formData.available_date) || '' },
         { label: 'Broker Fee', value: formData.broker_fee ? 'Yes (disclosed)' : 'No Fee' },
       ].filter(r => r.value),
     },
@@ -280,6 +283,7 @@ export function Step6ContactAndReview({
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Your Name <span className="text-red-500">*</span>
+                <AiReviewFlag field="contact_name" />
               </label>
               <input
                 type="text"
@@ -292,6 +296,7 @@ export function Step6ContactAndReview({
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Phone Number <span className="text-red-500">*</span>
+                <AiReviewFlag field="contact_phone" />
                 {isLocked && (
                   <span className="ml-2 inline-flex items-center gap-1 text-xs font-normal text-amber-700 bg-amber-50 border border-amber-200 px-1.5 py-0.5 rounded">
                     <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><rect x="3" y="11" width="18" height="11" rx="2"/><path d="M7 11V7a5 5 0 0 1 10 0v4"/></svg>
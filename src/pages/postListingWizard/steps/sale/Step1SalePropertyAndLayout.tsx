@@ -10,6 +10,7 @@ import {
 } from 'react-icons/tb';
 import type { ListingFormData } from '../../../postListing/types';
 import { StepTips } from '../../StepTips';
+import { AiReviewFlag } from '../../components/AiReviewFlag';
 
 const TIPS = {
   heading: 'Basic Info',
@@ -92,6 +93,7 @@ export function Step1SalePropertyAndLayout({ formData, updateFormData, onNext, o
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-3">
               Property Type <span className="text-red-500">*</span>
+              <AiReviewFlag field="property_type" />
             </label>
             <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
               {PROPERTY_TYPES.map(pt => {
@@ -142,6 +144,7 @@ export function Step1SalePropertyAndLayout({ formData, updateFormData, onNext, o
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Bedrooms <span className="text-red-500">*</span>
+              <AiReviewFlag field="bedrooms" />
             </label>
             <div className="flex flex-wrap gap-2">
               {BEDROOM_OPTIONS.map(opt => (
@@ -165,6 +168,7 @@ export function Step1SalePropertyAndLayout({ formData, updateFormData, onNext, o
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Bathrooms <span className="text-red-500">*</span>
+              <AiReviewFlag field="bathrooms" />
             </label>
             <div className="flex flex-wrap gap-2">
               {BATHROOM_OPTIONS.map(opt => (
@@ -188,6 +192,7 @@ export function Step1SalePropertyAndLayout({ formData, updateFormData, onNext, o
           <div className="pt-2 border-t border-gray-100">
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Asking Price <span className="text-red-500">*</span>
+              <AiReviewFlag field="asking_price" />
             </label>
             <div className="flex items-center gap-4">
               <div className="relative w-56">
@@ -4,6 +4,7 @@ import type { ListingFormData } from '../../../postListing/types';
 import type { MediaFile } from '../../../../components/shared/MediaUploader';
 import type { Profile } from '../../../../config/supabase';
 import { StepTips } from '../../StepTips';
+import { AiReviewFlag } from '../../components/AiReviewFlag';
 
 const TIPS = {
   heading: 'Contact & Review',
@@ -185,6 +186,7 @@ export function Step7SaleContactAndReview({
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Your Name <span className="text-red-500">*</span>
+                <AiReviewFlag field="contact_name" />
               </label>
               <input
                 type="text"
@@ -197,6 +199,7 @@ export function Step7SaleContactAndReview({
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Phone Number <span className="text-red-500">*</span>
+                <AiReviewFlag field="contact_phone" />
               </label>
               <input
                 type="tel"
@@ -31,6 +31,8 @@ interface PersistedState {
   crossStreetBFeature: GoogleStreetFeature | null;
   neighborhoodSelectValue: string;
   customNeighborhoodInput: string;
+  /** Fields an AI fill was unsure about; each clears once the user edits it. */
+  aiReviewFields?: string[];
 }
 
 // Anonymous wizard drafts live under a single shared key — there is at most
@@ -117,6 +119,7 @@ export function useWizardState(userId: string | null) {
   const [neighborhoodSelectValue, setNeighborhoodSelectValue] = useState('');
   const [customNeighborhoodInput, setCustomNeighborhoodInput] = useState('');
   const [isLocationConfirmed, setIsLocationConfirmed] = useState(false);
+  const [aiReviewFields, setAiReviewFields] = useState<string[]>([]);
   const [initialized, setInitialized] = useState(false);
   const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
 
@@ -141,6 +144,7 @@ export function useWizardState(userId: string | null) {
       setCrossStreetBFeature(saved.crossStreetBFeature);
       setNeighborhoodSelectValue(saved.neighborhoodSelectValue);
       setCustomNeighborhoodInput(saved.customNeighborhoodInput);
+      setAiReviewFields(saved.aiReviewFields ?? []);
     }
     setInitialized(true);
   }, [userId]);
@@ -159,9 +163,10 @@ export function useWizardState(userId: string | null) {
       crossStreetBFeature,
       neighborhoodSelectValue,
       customNeighborhoodInput,
+      aiReviewFields,
     });
     setLastSavedAt(new Date());
-  }, [initialized, userId, selectedPath, currentStep, highWaterStep, formData, commercialFormData, crossStreetAFeature, crossStreetBFeature, neighborhoodSelectValue, customNeighborhoodInput]);
+  }, [initialized, userId, selectedPath, currentStep, highWaterStep, formData, commercialFormData, crossStreetAFeature, crossStreetBFeature, neighborhoodSelectValue, customNeighborhoodInput, aiReviewFields]);
 
   // heat ↔ utilities_included bidirectional sync (verbatim from PostListing.tsx)
   useEffect(() => {
@@ -178,6 +183,7 @@ export function useWizardState(userId: string | null) {
 
   const updateFormData = useCallback((updates: Partial<ListingFormData>) => {
     setFormData(prev => ({ ...prev, ...updates }));
+    setAiReviewFields(prev => (prev.length > 0 ? prev.filter(f => !(f in updates)) : prev));
   }, []);
 
   const updateCommercialFormData = useCallback((updates: Partial<CommercialListingFormData>) => {
@@ -188,6 +194,7 @@ export function useWizardState(userId: string | null) {
     setSelectedPathRaw(path);
     setCurrentStep(0);
     setIsLocationConfirmed(false);
+    setAiReviewFields([]);
     if (path === 'residential_rent') {
       setFormData({ ...RENTAL_INITIAL });
       setCrossStreetAFeature(null);
@@ -238,6 +245,7 @@ export function useWizardState(userId: string | null) {
     setNeighborhoodSelectValue('');
     setCustomNeighborhoodInput('');
     setIsLocationConfirmed(false);
+    setAiReviewFields([]);
   }, [userId]);
 
   const resolvedNeighborhood =
@@ -270,6 +278,8 @@ export function useWizardState(userId: string | null) {
     setCustomNeighborhoodInput,
     isLocationConfirmed,
     setIsLocationConfirmed,
+    aiReviewFields,
+    setAiReviewFields,
     resolvedNeighborhood,
     setHighWaterStep,
     clearDraft,
@@ -0,0 +1,119 @@
+// Self-serve AI "paste your ad" fills for the posting wizard. Parsing goes
+// through the parse-listing edge function, which enforces the per-user quota
+// and daily budget and meters every call into ai_parse_usage
+// (20261018220000_self_serve_ai_listing_parse.sql).
+//
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  AiParseInput,
+  AiParseQuota,
+  AiParseResult,
+  AiParseSettings,
+  AiParseUsageDay,
+} from '../types/aiParse';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+const MAX_FLYER_BYTES = 5 * 1024 * 1024;
+
+/** Calls parse-listing and surfaces its `error` message (non-2xx bodies arrive on error.context). */
+async function invokeParseListing(payload: Record<string, unknown>): Promise<any> {
+  const { data, error } = await supabase.functions.invoke('parse-listing', { body: payload });
+
+  if (error) {
+    const ctx = (error as { context?: unknown })?.context;
+    if (ctx && typeof (ctx as Response).json === 'function') {
+      const body = await (ctx as Response).clone().json().catch(() => null);
+      if (body?.error) throw new Error(body.error);
+    }
+    throw error;
+  }
+  if (data?.error) throw new Error(data.error);
+  return data;
+}
+
+/** Base64 payload of a file, without the data: URL prefix. */
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+export const aiParseService = {
+  async getQuota(): Promise<AiParseQuota> {
+    return (await invokeParseListing({ quota_only: true })) as AiParseQuota;
+  },
+
+  /** Parse a pasted ad or a flyer photo into ParsedListing fields. Counts against the caller's daily quota. */
+  async parse(input: AiParseInput, typeHint: 'rental' | 'sale' | 'auto'): Promise<AiParseResult> {
+    if ('file' in input) {
+      if (input.file.size > MAX_FLYER_BYTES) {
+        throw new Error('That image is too large — please upload one under 5 MB.');
+      }
+      const data = await readFileAsBase64(input.file);
+      return (await invokeParseListing({
+        image: { media_type: input.file.type, data },
+        type_hint: typeHint,
+      })) as AiParseResult;
+    }
+    return (await invokeParseListing({ text: input.text, type_hint: typeHint })) as AiParseResult;
+  },
+
+  // -----------------------------------------------------------
+  // Admin
+  // -----------------------------------------------------------
+
+  async getUsageSummary(since: Date): Promise<AiParseUsageDay[]> {
+    const { data, error } = await sb.rpc('admin_ai_parse_usage', { p_since: since.toISOString() });
+
+    if (error) throw error;
+    return ((data as AiParseUsageDay[] | null) ?? []).map((row) => ({
+      day: row.day,
+      calls: Number(row.calls),
+      users: Number(row.users),
+      failed: Number(row.failed),
+      admin_calls: Number(row.admin_calls),
+      input_tokens: Number(row.input_tokens),
+      output_tokens: Number(row.output_tokens),
+      cost_usd: Number(row.cost_usd),
+    }));
+  },
+
+  async getSettings(): Promise<AiParseSettings> {
+    const { data, error } = await sb
+      .from('admin_settings')
+      .select('ai_parse_daily_limit, ai_parse_daily_budget_usd')
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    return {
+      daily_limit: data?.ai_parse_daily_limit ?? 5,
+      daily_budget_usd: Number(data?.ai_parse_daily_budget_usd ?? 25),
+    };
+  },
+
+  async updateSettings(settings: AiParseSettings): Promise<void> {
+    const { data: row, error: selErr } = await sb
+      .from('admin_settings')
+      .select('id')
+      .limit(1)
+      .maybeSingle();
+    if (selErr) throw selErr;
+    if (!row?.id) throw new Error('Admin settings not found');
+
+    const { error } = await sb
+      .from('admin_settings')
+      .update({
+        ai_parse_daily_limit: settings.daily_limit,
+        ai_parse_daily_budget_usd: settings.daily_budget_usd,
+      })
+      .eq('id', row.id);
+    if (error) throw error;
+  },
+};
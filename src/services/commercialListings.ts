@@ -1,10 +1,14 @@
 import * as Sentry from '@sentry/react';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { supabase, CommercialListing, CommercialListingImage } from '../config/supabase';
 import { capitalizeName } from '../utils/formatters';
 import { getExpirationDate, getAdminActiveDays, MapBounds } from './listings';
 import { resizeImageForUpload } from '../utils/imageResize';
+import { getPriceReducedCutoff } from './priceHistory';
+import { applyOpenHouseEmbedFilters, openHousesEmbed } from './openHouses';
+import type { SearchPolygon } from '../utils/searchPolygon';
 
-export type CommercialSortOption = 'newest' | 'oldest' | 'price_asc' | 'price_desc' | 'sf_asc' | 'sf_desc';
+export type CommercialSortOption = 'newest' | 'oldest' | 'price_asc' | 'price_desc' | 'sf_asc' | 'sf_desc' | 'price_reduced';
 
 export interface GetCommercialListingsFilters {
   commercial_space_types?: string[];
@@ -19,8 +23,12 @@ export interface GetCommercialListingsFilters {
   commercial_conditions?: string[];
   building_classes?: string[];
   listing_type?: 'rental' | 'sale';
+  price_reduced_only?: boolean;
+  /** Sale listings only — has an open house in the next 7 days. */
+  open_house_this_week?: boolean;
   sort?: CommercialSortOption;
   bounds?: MapBounds;
+  polygon?: SearchPolygon;
 }
 
 export type CommercialListingCreateInput = Omit<
@@ -30,6 +38,19 @@ export type CommercialListingCreateInput = Omit<
 
 export type CommercialListingUpdateInput = Partial<CommercialListingCreateInput>;
 
+/**
+ * Base `commercial_listings` select, routed through
+ * commercial_listings_in_search_polygon() when a search polygon is set.
+ */
+function selectCommercialListings(columns: string, polygon?: SearchPolygon, options?: { count: 'exact' }) {
+  const fromTable = () => supabase.from('commercial_listings').select(columns, options);
+  if (!polygon || polygon.length === 0) return fromTable();
+  const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+  return sb
+    .rpc('commercial_listings_in_search_polygon', { p_polygon: polygon }, options)
+    .select(columns) as unknown as ReturnType<typeof fromTable>;
+}
+
 function applyCommercialSort(query: any, sort?: CommercialSortOption): any {
   switch (sort) {
     case 'oldest':
@@ -42,6 +63,8 @@ function applyCommercialSort(query: any, sort?: CommercialSortOption): any {
       return query.order('available_sf', { ascending: true, nullsFirst: false }).order('created_at', { ascending: false });
     case 'sf_desc':
       return query.order('available_sf', { ascending: false, nullsFirst: false }).order('created_at', { ascending: false });
+    case 'price_reduced':
+      return query.order('price_reduced_at', { ascending: false, nullsFirst: false }).order('created_at', { ascending: false });
     case 'newest':
     default:
       return query.order('created_at', { ascending: false });
@@ -72,6 +95,9 @@ function applyCommercialFilters(query: any, filters: GetCommercialListingsFilter
   if (filters.building_classes && filters.building_classes.length > 0) {
     query = query.in('building_class', filters.building_classes);
   }
+  if (filters.price_reduced_only) {
+    query = query.gte('price_reduced_at', getPriceReducedCutoff());
+  }
   if (filters.bounds) {
     query = query
       .gte('latitude', filters.bounds.south)
@@ -91,9 +117,7 @@ export const commercialListingsService = {
     applyPagination = true,
     is_featured_only?: boolean,
   ): Promise<{ data: CommercialListing[]; totalCount: number }> {
-    let query = supabase
-      .from('commercial_listings')
-      .select('*,owner:profiles(id,full_name,role,agency),listing_images:commercial_listing_images(*)', { count: 'exact' })
+    let query = selectCommercialListings('*,owner:profiles(id,full_name,role,agency),listing_images:commercial_listing_images(*)', filters.polygon, { count: 'exact' })
       .eq('is_active', true)
       .eq('approved', true)
       .eq('listing_type', 'rental');
@@ -155,13 +179,13 @@ export const commercialListingsService = {
     applyPagination = true,
     is_featured_only?: boolean,
   ): Promise<{ data: CommercialListing[]; totalCount: number }> {
-    let query = supabase
-      .from('commercial_listings')
-      .select('*,owner:profiles(id,full_name,role,agency),listing_images:commercial_listing_images(*)', { count: 'exact' })
+    let query = selectCommercialListings(`*,owner:profiles(id,full_name,role,agency),listing_images:commercial_listing_images(*),${openHousesEmbed(filters.open_house_this_week)}`, filters.polygon, { count: 'exact' })
       .eq('is_active', true)
       .eq('approved', true)
       .eq('listing_type', 'sale');
 
+    query = applyOpenHouseEmbedFilters(query, filters.open_house_this_week);
+
     if (filters.min_price) {
       query = query.gte('asking_price', filters.min_price);
     }
@@ -257,10 +281,12 @@ export const commercialListingsService = {
   async getCommercialMapPins(
     bounds: MapBounds,
     listingType: 'rental' | 'sale' = 'rental',
+    polygon?: SearchPolygon,
   ) {
-    const { data, error } = await supabase
-      .from('commercial_listings')
-      .select('id,latitude,longitude,price,asking_price,listing_type,commercial_space_type,neighborhood,is_featured,featured_expires_at')
+    const { data, error } = await selectCommercialListings(
+      'id,latitude,longitude,price,asking_price,listing_type,commercial_space_type,neighborhood,is_featured,featured_expires_at',
+      polygon,
+    )
       .eq('is_active', true)
       .eq('approved', true)
       .not('latitude', 'is', null)
@@ -911,15 +937,19 @@ export const commercialListingsService = {
   ): Promise<CommercialListing[]> {
     const now = new Date().toISOString();
 
-    let query = supabase
-      .from('commercial_listings')
-      .select('*,owner:profiles(id,full_name,role,agency),listing_images:commercial_listing_images(*)')
+    const openHouseSelect = listingType === 'sale' ? `,${openHousesEmbed(filters.open_house_this_week)}` : '';
+
+    let query = selectCommercialListings(`*,owner:profiles(id,full_name,role,agency),listing_images:commercial_listing_images(*)${openHouseSelect}`, filters.polygon)
       .eq('is_active', true)
       .eq('approved', true)
       .eq('is_featured', true)
       .gt('featured_expires_at', now)
       .eq('listing_type', listingType);
 
+    if (listingType === 'sale') {
+      query = applyOpenHouseEmbedFilters(query, filters.open_house_this_week);
+    }
+
     if (filters.min_price && listingType === 'rental') {
       query = query.gte('price', filters.min_price);
     }
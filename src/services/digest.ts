@@ -1,4 +1,10 @@
 import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DigestDeliveryStats } from '../types/emailDelivery';
+
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated
+// (digest_sends' email columns, admin_digest_delivery_stats).
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
 
 // Type definitions matching database schema
 export interface CollectionConfig {
@@ -87,6 +93,9 @@ export interface DigestSend {
   success: boolean;
   error_message?: string;
   config_snapshot: any;
+  /** The emails that carried it, one per recipient; see admin_digest_delivery_stats. */
+  email_message_ids?: string[];
+  outbox_message_ids?: string[];
   sent_at: string;
   created_at: string;
 }
@@ -380,6 +389,38 @@ export const digestService = {
     return data || [];
   },
 
+  /** Records a digest sent from the manager (it mails admins through send-email). */
+  async recordDigestSend(send: Omit<DigestSend, 'id' | 'sent_at' | 'created_at'>): Promise<void> {
+    const { error } = await sb.from('digest_sends').insert(send);
+
+    if (error) {
+      console.error('Error recording digest send:', error);
+      throw new Error(`Failed to record digest send: ${error.message}`);
+    }
+  },
+
+  /** Distinct delivered / bounced / complained recipients per send, from ZeptoMail events. */
+  async getDigestDeliveryStats(sendIds: string[]): Promise<Record<string, DigestDeliveryStats>> {
+    if (sendIds.length === 0) return {};
+    const { data, error } = await sb.rpc('admin_digest_delivery_stats', { p_send_ids: sendIds });
+
+    if (error) {
+      console.error('Error fetching digest delivery stats:', error);
+      throw new Error(`Failed to fetch delivery stats: ${error.message}`);
+    }
+
+    const stats: Record<string, DigestDeliveryStats> = {};
+    ((data as DigestDeliveryStats[] | null) ?? []).forEach((row) => {
+      stats[row.digest_send_id] = {
+        digest_send_id: row.digest_send_id,
+        delivered: Number(row.delivered),
+        bounced: Number(row.bounced),
+        complained: Number(row.complained),
+      };
+    });
+    return stats;
+  },
+
   async getDigestSendDetails(sendId: string): Promise<DigestSend | null> {
     const { data, error } = await supabase
       .from('digest_sends')
@@ -0,0 +1,100 @@
+// Public subscriber digests — subscribe from /digest, manage from the
+// /digest/:token link. Schema in
+// supabase/migrations/20261018230000_public_digest_subscriptions.sql; rows are
+// written only by the digest-subscribe edge function and the digests are
+// sent by send-subscriber-digests.
+//
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  DigestPreferences,
+  DigestSubscribeInput,
+  DigestSubscribeResult,
+  DigestSubscription,
+  ManagedDigestSubscription,
+} from '../types/digestSubscriptions';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+const SUBSCRIPTION_COLUMNS =
+  'id, user_id, channel, email, phone_number, listing_type, neighborhoods, bedrooms, frequency, confirmed_at, unsubscribed_at, last_sent_at, created_at';
+
+// functions.invoke sends the signed-in user's token when there is one, so
+// digest-subscribe can link the subscription to the account.
+async function invokeSubscribe(payload: Record<string, unknown>): Promise<any> {
+  const { data, error } = await supabase.functions.invoke('digest-subscribe', { body: payload });
+
+  if (error) {
+    const ctx = (error as { context?: unknown })?.context;
+    if (ctx && typeof (ctx as Response).json === 'function') {
+      const body = await (ctx as Response).clone().json().catch(() => null);
+      if (body?.error) throw new Error(body.error);
+    }
+    throw error;
+  }
+  if (data?.error) throw new Error(data.error);
+  return data;
+}
+
+export const digestSubscriptionsService = {
+  async subscribe(input: DigestSubscribeInput): Promise<DigestSubscribeResult> {
+    return (await invokeSubscribe({ action: 'subscribe', ...input })) as DigestSubscribeResult;
+  },
+
+  async getManaged(token: string): Promise<ManagedDigestSubscription> {
+    return (await invokeSubscribe({ action: 'get', token })).subscription as ManagedDigestSubscription;
+  },
+
+  async confirm(token: string): Promise<ManagedDigestSubscription> {
+    return (await invokeSubscribe({ action: 'confirm', token })).subscription as ManagedDigestSubscription;
+  },
+
+  async update(token: string, prefs: DigestPreferences): Promise<ManagedDigestSubscription> {
+    return (await invokeSubscribe({ action: 'update', token, ...prefs })).subscription as ManagedDigestSubscription;
+  },
+
+  async unsubscribe(token: string): Promise<ManagedDigestSubscription> {
+    return (await invokeSubscribe({ action: 'unsubscribe', token })).subscription as ManagedDigestSubscription;
+  },
+
+  /** Admin only (RLS): every subscription, newest first. */
+  async getAll(): Promise<DigestSubscription[]> {
+    const { data, error } = await sb
+      .from('digest_subscriptions')
+      .select(SUBSCRIPTION_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(500);
+
+    if (error) throw error;
+    return (data as DigestSubscription[] | null) ?? [];
+  },
+
+  async getTemplateId(): Promise<string | null> {
+    const { data, error } = await sb
+      .from('admin_settings')
+      .select('subscriber_digest_template_id')
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.subscriber_digest_template_id ?? null;
+  },
+
+  async setTemplateId(templateId: string | null): Promise<void> {
+    const { data: row, error: readError } = await sb
+      .from('admin_settings')
+      .select('id')
+      .limit(1)
+      .maybeSingle();
+    if (readError) throw readError;
+    if (!row) throw new Error('Admin settings not found');
+
+    const { error } = await sb
+      .from('admin_settings')
+      .update({ subscriber_digest_template_id: templateId })
+      .eq('id', row.id);
+    if (error) throw error;
+  },
+};
@@ -1,4 +1,5 @@
 import { supabase } from "../config/supabase";
+import type { NotificationCategory } from "../types/notificationPreferences";
 
 export interface EmailRequest {
   to: string | string[];
@@ -6,11 +7,20 @@ export interface EmailRequest {
   html: string;
   from?: string;
   type?: "password_reset" | "general" | "admin_notification";
+  /**
+   * Preference category. Recipients who turned it off are skipped, and the
+   * rest get a one-click unsubscribe link (send-email sends one per recipient).
+   */
+  category?: NotificationCategory;
 }
 
 export interface EmailResponse {
   success: boolean;
   id?: string;
+  /** One per recipient when `category` was set. */
+  ids?: string[];
+  outboxIds?: string[];
+  recipientCount?: number;
   error?: string;
   details?: string;
 }
@@ -153,6 +163,7 @@ export const emailService = {
       to,
       subject: "Welcome to Hadirot",
       html,
+      category: "account",
     });
   },
 
@@ -196,6 +207,7 @@ export const emailService = {
       to: userEmail,
       subject: `Listing Updated: ${listingTitle} - Hadirot`,
       html,
+      category: "listing_updates",
     });
   },
 
@@ -216,6 +228,7 @@ export const emailService = {
       to: userEmail,
       subject: `Listing Deactivated: ${listingTitle} - Hadirot`,
       html,
+      category: "listing_updates",
     });
   },
 
@@ -236,6 +249,7 @@ export const emailService = {
       to: userEmail,
       subject: `Listing Reactivated: ${listingTitle} - Hadirot`,
       html,
+      category: "listing_updates",
     });
   },
 
@@ -257,6 +271,7 @@ export const emailService = {
       to: userEmail,
       subject: `Listing Approved: ${listingTitle} is now live! - Hadirot`,
       html,
+      category: "listing_updates",
     });
   },
 
@@ -280,6 +295,7 @@ export const emailService = {
       to: userEmail,
       subject: `${isFeatured ? "Listing Featured" : "Featured Status Removed"}: ${listingTitle} - Hadirot`,
       html,
+      category: "listing_updates",
     });
   },
 
@@ -310,6 +326,7 @@ export const emailService = {
       to: userEmail,
       subject: "Account Permissions Updated - Hadirot",
       html,
+      category: "account",
     });
   },
 
@@ -330,6 +347,7 @@ export const emailService = {
       to: userEmail,
       subject: `Listing Deleted: ${listingTitle} - Hadirot`,
       html,
+      category: "listing_updates",
     });
   },
 
@@ -527,6 +545,7 @@ export const emailService = {
       to: userEmail,
       subject: `Sale Status Updated: ${listingTitle} - Hadirot`,
       html,
+      category: "listing_updates",
     });
   },
 };
@@ -0,0 +1,33 @@
+// Email suppression list for the admin panel. zepto-email-webhook adds
+// bounced / complaining addresses and the outbox stops mailing them;
+// removing an entry lets mail go to the address again.
+// Schema: supabase/migrations/20261018160000_email_events.sql.
+//
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { EmailSuppression } from '../types/emailDelivery';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+export const emailSuppressionService = {
+  /** Keyed by lowercased address, for lookups against profiles.email. */
+  async getSuppressions(): Promise<Record<string, EmailSuppression>> {
+    const { data, error } = await sb
+      .from('email_suppressions')
+      .select('email, reason, details, created_at');
+
+    if (error) throw error;
+    const byEmail: Record<string, EmailSuppression> = {};
+    ((data as EmailSuppression[] | null) ?? []).forEach((s) => {
+      byEmail[s.email] = s;
+    });
+    return byEmail;
+  },
+
+  async removeSuppression(email: string): Promise<void> {
+    const { error } = await sb.from('email_suppressions').delete().eq('email', email.trim().toLowerCase());
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,173 @@
+// Floor plans, documents and virtual tour links on listings.
+// Schema: supabase/migrations/20261018090000_listing_attachments.sql.
+// Files are uploaded to the caller's temp folder in the private
+// listing-documents bucket and attached by the finalize-listing-attachments
+// edge function, which validates them and decides where they end up.
+//
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ListingAttachment } from '../types/attachments';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+const ATTACHMENT_COLUMNS =
+  'id, listing_id, commercial_listing_id, kind, title, file_url, file_path, url, mime_type, file_size, requires_login, sort_order, created_at';
+
+const DOCUMENTS_BUCKET = 'listing-documents';
+const SIGNED_URL_TTL_SECONDS = 60;
+
+export const ATTACHMENT_ACCEPT = 'application/pdf,image/jpeg,image/png,image/webp';
+export const MAX_FLOOR_PLAN_BYTES = 15 * 1024 * 1024;
+export const MAX_DOCUMENT_BYTES = 25 * 1024 * 1024;
+
+/** Image floor plans render in the carousel's "Floor plan" tab; PDFs are listed with the documents. */
+export function isImageFloorPlan(attachment: ListingAttachment): boolean {
+  return attachment.kind === 'floor_plan' && !!attachment.file_url;
+}
+
+export function formatFileSize(bytes: number | null): string {
+  if (!bytes) return '';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export const listingAttachmentsService = {
+  async getAttachments(listingId: string, isCommercial = false): Promise<ListingAttachment[]> {
+    const { data, error } = await sb
+      .from('listing_attachments')
+      .select(ATTACHMENT_COLUMNS)
+      .eq(isCommercial ? 'commercial_listing_id' : 'listing_id', listingId)
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data as ListingAttachment[] | null) ?? [];
+  },
+
+  /**
+   * Uploads the files to the caller's temp folder, then asks the edge
+   * function to validate and attach them. Returns what was attached plus a
+   * message per rejected file.
+   */
+  async uploadAttachments(
+    listingId: string,
+    isCommercial: boolean,
+    userId: string,
+    files: { file: File; kind: 'floor_plan' | 'document'; title?: string; requiresLogin?: boolean }[],
+  ): Promise<{ attachments: ListingAttachment[]; errors: string[] }> {
+    const uploads = [];
+    for (const [i, { file, kind, title, requiresLogin }] of files.entries()) {
+      const fileExt = file.name.split('.').pop()?.toLowerCase();
+      const filePath = `user_${userId}/temp/${Date.now()}_${i}.${fileExt}`;
+      const { error } = await supabase.storage
+        .from(DOCUMENTS_BUCKET)
+        .upload(filePath, file, { contentType: file.type });
+
+      if (error) throw error;
+      uploads.push({ filePath, originalName: file.name, kind, title, requiresLogin });
+    }
+
+    const { data, error } = await supabase.functions.invoke('finalize-listing-attachments', {
+      body: { listingId, isCommercial, files: uploads },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return {
+      attachments: (data?.attachments as ListingAttachment[] | undefined) ?? [],
+      errors: (data?.errors as string[] | undefined) ?? [],
+    };
+  },
+
+  async addVirtualTour(
+    listingId: string,
+    isCommercial: boolean,
+    url: string,
+    title?: string,
+  ): Promise<ListingAttachment> {
+    const { data, error } = await sb
+      .from('listing_attachments')
+      .insert({
+        [isCommercial ? 'commercial_listing_id' : 'listing_id']: listingId,
+        kind: 'virtual_tour',
+        url: url.trim(),
+        title: title?.trim() || null,
+      })
+      .select(ATTACHMENT_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return data as ListingAttachment;
+  },
+
+  async updateAttachment(
+    attachmentId: string,
+    updates: { title?: string | null; requires_login?: boolean; sort_order?: number },
+  ): Promise<void> {
+    const { error } = await sb
+      .from('listing_attachments')
+      .update(updates)
+      .eq('id', attachmentId);
+
+    if (error) throw error;
+  },
+
+  async deleteAttachment(attachment: ListingAttachment): Promise<void> {
+    // The listing-documents delete policy looks the object up through its
+    // attachment row, so the file has to go before the row does.
+    if (attachment.file_path) {
+      const { error: storageError } = await supabase.storage
+        .from(DOCUMENTS_BUCKET)
+        .remove([attachment.file_path]);
+      if (storageError) {
+        console.error('Error deleting listing document from storage:', storageError);
+      }
+    }
+
+    const { error } = await sb
+      .from('listing_attachments')
+      .delete()
+      .eq('id', attachment.id);
+
+    if (error) throw error;
+
+    if (attachment.file_url) {
+      try {
+        // file_url is a full public URL (…/object/public/listing-images/{path});
+        // storage.remove() expects the object path, not the URL.
+        const marker = '/listing-images/';
+        const idx = attachment.file_url.indexOf(marker);
+        if (idx >= 0) {
+          const { error: storageError } = await supabase.storage
+            .from('listing-images')
+            .remove([attachment.file_url.slice(idx + marker.length)]);
+          if (storageError) {
+            console.error('Error deleting floor plan from storage:', storageError);
+          }
+        }
+      } catch (storageError) {
+        console.error('Unexpected error deleting floor plan from storage:', storageError);
+      }
+    }
+  },
+
+  /**
+   * Short-lived download link for a private file. Storage RLS refuses
+   * `requires_login` documents to signed-out visitors, so callers gate the
+   * click first and treat an error here as "sign in".
+   */
+  async getDownloadUrl(attachment: ListingAttachment): Promise<string> {
+    if (!attachment.file_path) {
+      return attachment.file_url ?? attachment.url ?? '';
+    }
+
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .createSignedUrl(attachment.file_path, SIGNED_URL_TTL_SECONDS);
+
+    if (error) throw error;
+    return data.signedUrl;
+  },
+};
@@ -0,0 +1,125 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase, SUPABASE_URL } from '../config/supabase';
+import { listingsService } from './listings';
+import { commercialListingsService } from './commercialListings';
+import { canonicalUrl } from '../utils/url';
+import {
+  getExportStatus,
+  sortedImageUrls,
+  type ListingExportRow,
+} from '../utils/listingExport';
+
+// agency_feed_tokens / regenerate_agency_feed_token aren't in the generated
+// Database types yet.
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+export const listingExportService = {
+  /** Every listing the user posted — rentals, sales and commercial — with
+   *  images, status, expiry, inquiry counts and the same direct views /
+   *  impressions the dashboard shows (listing_metrics_v1 for residential,
+   *  merged in by getUserListings). */
+  async getExportRows(userId: string): Promise<ListingExportRow[]> {
+    const [residential, commercial, inquiryCounts] = await Promise.all([
+      listingsService.getUserListings(userId),
+      commercialListingsService.getUserCommercialListings(userId),
+      listingsService.getInquiryCountsForUser(),
+    ]);
+
+    const rows: ListingExportRow[] = [];
+
+    for (const l of residential as any[]) {
+      const isSale = l.listing_type === 'sale';
+      rows.push({
+        id: l.id,
+        category: isSale ? 'sale' : 'rental',
+        title: l.title,
+        status: getExportStatus(l),
+        sale_status: isSale ? l.sale_status ?? null : null,
+        price: isSale ? l.asking_price ?? null : l.price ?? null,
+        call_for_price: !!l.call_for_price,
+        bedrooms: l.bedrooms ?? null,
+        bathrooms: l.bathrooms ?? null,
+        property_type: l.property_type ?? null,
+        neighborhood: l.neighborhood ?? null,
+        location: l.location ?? null,
+        full_address: l.full_address ?? null,
+        latitude: l.latitude ?? null,
+        longitude: l.longitude ?? null,
+        available_date: l.available_date ?? null,
+        contact_name: l.contact_name ?? null,
+        contact_phone: l.contact_phone ?? null,
+        is_featured: !!l.is_featured,
+        direct_views: Number(l.direct_views ?? 0) || 0,
+        impressions: Number(l.impressions ?? 0) || 0,
+        inquiries: inquiryCounts[l.id] ?? 0,
+        created_at: l.created_at,
+        last_published_at: l.last_published_at ?? null,
+        expires_at: l.expires_at ?? null,
+        url: canonicalUrl(`/listing/${l.id}`),
+        images: sortedImageUrls(l.listing_images),
+      });
+    }
+
+    for (const l of commercial) {
+      const isSale = l.listing_type === 'sale';
+      rows.push({
+        id: l.id,
+        category: isSale ? 'commercial_sale' : 'commercial_rental',
+        title: l.title ?? '',
+        status: getExportStatus(l),
+        sale_status: isSale ? l.sale_status ?? null : null,
+        price: isSale ? l.asking_price : l.price,
+        call_for_price: !!l.call_for_price,
+        bedrooms: null,
+        bathrooms: null,
+        property_type: l.commercial_space_type,
+        neighborhood: l.neighborhood,
+        location: [l.cross_street_a, l.cross_street_b].filter(Boolean).join(' & ') || null,
+        full_address: l.full_address,
+        latitude: l.latitude,
+        longitude: l.longitude,
+        available_date: l.available_date,
+        contact_name: l.contact_name,
+        contact_phone: l.contact_phone,
+        is_featured: !!l.is_featured,
+        direct_views: Number(l.direct_views ?? 0) || 0,
+        impressions: Number(l.impressions ?? 0) || 0,
+        inquiries: inquiryCounts[l.id] ?? 0,
+        created_at: l.created_at,
+        last_published_at: l.last_published_at,
+        expires_at: l.expires_at,
+        url: canonicalUrl(`/commercial-listing/${l.id}`),
+        images: sortedImageUrls(l.listing_images),
+      });
+    }
+
+    return rows.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  },
+
+  /** Current feed token for the agency, or null if one was never issued. */
+  async getFeedToken(agencyId: string): Promise<string | null> {
+    const { data, error } = await sb
+      .from('agency_feed_tokens')
+      .select('token')
+      .eq('agency_id', agencyId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data?.token as string | undefined) ?? null;
+  },
+
+  /** Issues a new token; the previous feed URL stops working immediately. */
+  async regenerateFeedToken(agencyId: string): Promise<string> {
+    const { data, error } = await sb.rpc('regenerate_agency_feed_token', { p_agency_id: agencyId });
+    if (error) throw error;
+    return data as string;
+  },
+
+  getFeedUrl(agencySlug: string, token: string): string {
+    const params = new URLSearchParams({ agency: agencySlug, token });
+    // Same base the supabase client uses for functions.invoke.
+    const functionDomain = import.meta.env.VITE_SUPABASE_FUNCTION_DOMAIN?.trim();
+    const base = functionDomain ? `https://${functionDomain}` : `${SUPABASE_URL}/functions/v1`;
+    return `${base}/agency-listing-feed?${params.toString()}`;
+  },
+};
@@ -0,0 +1,138 @@
+import { geocodeCrossStreets } from './geocoding';
+import { getAdminActiveDays, getExpirationDate, listingsService } from './listings';
+import { importDraftTitle, type ImportRow } from '../utils/listingImport';
+
+export interface ImportGeocode {
+  latitude: number;
+  longitude: number;
+  neighborhood: string;
+}
+
+/** What the dry run resolved for a row: coordinates, or why it failed. */
+export interface ImportRowPreview extends ImportRow {
+  geocode: ImportGeocode | null;
+}
+
+export interface ImportContext {
+  userId: string;
+  agencyId: string | null;
+  /** listings.payment_kind for the poster's monetization mode; null when
+   *  monetization is off or the poster is an admin. */
+  paymentKind: 'subscription' | 'legacy_free' | null;
+}
+
+export interface ImportRowResult {
+  rowNumber: number;
+  listingId: string | null;
+  error: string | null;
+  imageErrors: string[];
+}
+
+export const listingImportService = {
+  /**
+   * Dry run for one row: geocodes the cross streets (same edge function the
+   * wizard's map pin uses) and adds an error when neither the sheet nor the
+   * lookup yields a neighborhood. Rows that already failed validation are
+   * returned untouched so a bad sheet doesn't burn geocoding calls.
+   */
+  async previewRow(row: ImportRow): Promise<ImportRowPreview> {
+    if (row.errors.length > 0) return { ...row, geocode: null };
+
+    const result = await geocodeCrossStreets({
+      crossStreets: row.draft.cross_streets,
+      neighborhood: row.draft.neighborhood || undefined,
+    });
+
+    if (!result.success || !result.coordinates) {
+      return {
+        ...row,
+        geocode: null,
+        errors: [...row.errors, `Couldn't locate "${row.draft.cross_streets}"${result.error ? ` (${result.error})` : ''}`],
+      };
+    }
+
+    const neighborhood = row.draft.neighborhood || result.neighborhood || '';
+    return {
+      ...row,
+      geocode: {
+        latitude: result.coordinates.latitude,
+        longitude: result.coordinates.longitude,
+        neighborhood,
+      },
+      errors: neighborhood ? row.errors : [...row.errors, 'Neighborhood is required (not found from cross streets)'],
+    };
+  },
+
+  /**
+   * Creates one rental listing from a validated, geocoded row, then pulls its
+   * image URLs into storage. Listings go in pending approval exactly like a
+   * wizard post. Image failures don't fail the row — they're reported
+   * alongside the new listing id.
+   */
+  async importRow(row: ImportRowPreview, ctx: ImportContext, rentalDays?: number): Promise<ImportRowResult> {
+    if (row.errors.length > 0 || !row.geocode) {
+      return { rowNumber: row.rowNumber, listingId: null, error: row.errors[0] ?? 'Not geocoded', imageErrors: [] };
+    }
+
+    const { draft, geocode } = row;
+    const activeDays = rentalDays ?? (await getAdminActiveDays()).rentalDays;
+    const expiresAt = getExpirationDate('rental', null, activeDays);
+
+    try {
+      const listing = (await listingsService.createListing({
+        listing_type: 'rental',
+        user_id: ctx.userId,
+        agency_id: ctx.agencyId,
+        title: importDraftTitle(draft, geocode.neighborhood),
+        description: draft.description || undefined,
+        location: draft.cross_streets,
+        neighborhood: geocode.neighborhood,
+        latitude: geocode.latitude,
+        longitude: geocode.longitude,
+        property_type: draft.property_type,
+        bedrooms: draft.bedrooms,
+        bathrooms: draft.bathrooms,
+        floor: draft.floor ?? undefined,
+        square_footage: draft.square_footage ?? undefined,
+        price: draft.call_for_price ? null : draft.price,
+        call_for_price: draft.call_for_price,
+        parking: draft.parking,
+        heat: draft.heat,
+        lease_length: draft.lease_length,
+        available_date: draft.available_date,
+        washer_dryer_hookup: draft.washer_dryer_hookup,
+        dishwasher: draft.dishwasher,
+        broker_fee: false,
+        contact_name: draft.contact_name,
+        contact_phone: draft.contact_phone,
+        is_active: false,
+        approved: false,
+        is_featured: false,
+        expires_at: expiresAt.toISOString(),
+        ...(ctx.paymentKind ? { payment_kind: ctx.paymentKind } : {}),
+      } as any)) as unknown as { id: string } | null;
+
+      if (!listing?.id) {
+        throw new Error('Failed to create listing');
+      }
+
+      let imageErrors: string[] = [];
+      if (draft.image_urls.length > 0) {
+        try {
+          ({ errors: imageErrors } = await listingsService.importListingImagesFromUrls(listing.id, draft.image_urls));
+        } catch (err) {
+          imageErrors = [(err as Error).message || 'Failed to import images'];
+        }
+      }
+
+      return { rowNumber: row.rowNumber, listingId: listing.id, error: null, imageErrors };
+    } catch (err) {
+      return {
+        rowNumber: row.rowNumber,
+        listingId: null,
+        error: (err as Error).message || 'Failed to create listing',
+        imageErrors: [],
+      };
+    }
+  },
+};
@@ -1,7 +1,12 @@
 import * as Sentry from '@sentry/react';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { supabase, Listing, SaleStatus } from '../config/supabase';
 import { capitalizeName } from '../utils/formatters';
 import { resizeImageForUpload } from '../utils/imageResize';
+import { getPriceReducedCutoff } from './priceHistory';
+import { applyOpenHouseEmbedFilters, openHousesEmbed } from './openHouses';
+import { todayISODate } from '../utils/availability';
+import type { SearchPolygon } from '../utils/searchPolygon';
 
 export const LISTING_DURATION_DAYS = {
   RENTAL: 30,
@@ -78,7 +83,7 @@ export function getDaysUntilExpiration(expiresAt: string | null | undefined): nu
   return Math.ceil((expires.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
 }
 
-export type SortOption = 'newest' | 'oldest' | 'price_asc' | 'price_desc' | 'bedrooms_asc' | 'bedrooms_desc' | 'bathrooms_asc' | 'bathrooms_desc';
+export type SortOption = 'newest' | 'oldest' | 'price_asc' | 'price_desc' | 'bedrooms_asc' | 'bedrooms_desc' | 'bathrooms_asc' | 'bathrooms_desc' | 'price_reduced';
 
 export interface MapBounds {
   north: number;
@@ -99,10 +104,30 @@ interface GetListingsFilters {
   neighborhoods?: string[];
   is_featured_only?: boolean;
   noFeeOnly?: boolean;
+  price_reduced_only?: boolean;
+  /** Sale listings only — has an open house in the next 7 days. */
+  open_house_this_week?: boolean;
+  available_from?: string;
+  available_by?: string;
   poster_type?: string;
   agency_name?: string;
   sort?: SortOption;
   bounds?: MapBounds;
+  polygon?: SearchPolygon;
+}
+
+/**
+ * Base `listings` select. With a search polygon the rows come from the
+ * listings_in_search_polygon() RPC instead; it returns SETOF listings, so the
+ * filters, ordering, ranges and embeds chained by callers work unchanged.
+ */
+function selectListings(columns: string, polygon?: SearchPolygon, options?: { count: 'exact' }) {
+  const fromTable = () => supabase.from('listings').select(columns, options);
+  if (!polygon || polygon.length === 0) return fromTable();
+  const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+  return sb
+    .rpc('listings_in_search_polygon', { p_polygon: polygon }, options)
+    .select(columns) as unknown as ReturnType<typeof fromTable>;
 }
 
 export type ListingCreateInput = Omit<Listing, 'id' | 'created_at' | 'updated_at'> & {
@@ -164,9 +189,7 @@ export const listingsService = {
 
     const selectStr = `*,${ownerSelect},listing_images(*)`;
 
-    let query = supabase
-      .from('listings')
-      .select(selectStr, { count: 'exact' })
+    let query = selectListings(selectStr, filters.polygon, { count: 'exact' })
       .eq('is_active', true)
       .eq('approved', true)
       .or('listing_type.eq.rental,listing_type.is.null');
@@ -197,6 +220,20 @@ export const listingsService = {
     if (filters.noFeeOnly) {
       query = query.eq('broker_fee', false);
     }
+    if (filters.price_reduced_only) {
+      query = query.gte('price_reduced_at', getPriceReducedCutoff());
+    }
+    // Same rules as isAvailableInRange(): undated listings never match, and
+    // a "from" date on or before today doesn't narrow anything further.
+    if (filters.available_from || filters.available_by) {
+      query = query.not('available_date', 'is', null);
+      if (filters.available_by) {
+        query = query.lte('available_date', filters.available_by);
+      }
+      if (filters.available_from && filters.available_from > todayISODate()) {
+        query = query.gte('available_date', filters.available_from);
+      }
+    }
 
     if (filters.bounds) {
       query = query
@@ -246,6 +283,9 @@ export const listingsService = {
       case 'bathrooms_desc':
         query = query.order('bathrooms', { ascending: false }).order('created_at', { ascending: false });
         break;
+      case 'price_reduced':
+        query = query.order('price_reduced_at', { ascending: false, nullsFirst: false }).order('created_at', { ascending: false });
+        break;
       case 'newest':
       default:
         query = query.order('created_at', { ascending: false });
@@ -850,9 +890,9 @@ export const listingsService = {
         ? 'owner:public_profiles!inner(id,full_name,role,agency)'
         : 'owner:public_profiles(id,full_name,role,agency)';
 
-    let query = supabase
-      .from('listings')
-      .select(`*,${ownerSelect},listing_images(*)`)
+    const openHouseSelect = listingType === 'sale' ? `,${openHousesEmbed(filters.open_house_this_week)}` : '';
+
+    let query = selectListings(`*,${ownerSelect},listing_images(*)${openHouseSelect}`, filters.polygon)
       .eq('is_active', true)
       .eq('approved', true)
       .eq('is_featured', true)
@@ -860,6 +900,7 @@ export const listingsService = {
 
     if (listingType === 'sale') {
       query = query.eq('listing_type', 'sale');
+      query = applyOpenHouseEmbedFilters(query, filters.open_house_this_week);
     } else {
       query = query.or('listing_type.eq.rental,listing_type.is.null');
     }
@@ -894,6 +935,18 @@ export const listingsService = {
     if (filters.noFeeOnly) {
       query = query.eq('broker_fee', false);
     }
+    if (filters.price_reduced_only) {
+      query = query.gte('price_reduced_at', getPriceReducedCutoff());
+    }
+    if (filters.available_from || filters.available_by) {
+      query = query.not('available_date', 'is', null);
+      if (filters.available_by) {
+        query = query.lte('available_date', filters.available_by);
+      }
+      if (filters.available_from && filters.available_from > todayISODate()) {
+        query = query.gte('available_date', filters.available_from);
+      }
+    }
     if (filters.bounds) {
       query = query
         .gte('latitude', filters.bounds.south)
@@ -1164,6 +1217,25 @@ export const listingsService = {
     }
   },
 
+  /** Downloads remote image URLs into listing-images (bulk import). Returns
+   *  per-image failures; the listing keeps whatever images did succeed. */
+  async importListingImagesFromUrls(listingId: string, imageUrls: string[]): Promise<{ imported: number; errors: string[] }> {
+    if (imageUrls.length === 0) return { imported: 0, errors: [] };
+
+    const { data, error } = await supabase.functions.invoke('import-listing-images', {
+      body: { listingId, imageUrls },
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to import images');
+    }
+
+    return {
+      imported: data?.imageCount ?? data?.successfulImages ?? 0,
+      errors: data?.errors ?? [],
+    };
+  },
+
   async uploadListingImage(file: File, listingId: string) {
     const resized = await resizeImageForUpload(file);
     const fileExt = resized.name.split('.').pop();
@@ -1638,6 +1710,18 @@ async getInquiriesForListing(listingId: string): Promise<{ user_name: string; us
     if (filters.noFeeOnly) {
       query = query.eq('broker_fee', false);
     }
+    if (filters.price_reduced_only) {
+      query = query.gte('price_reduced_at', getPriceReducedCutoff());
+    }
+    if (filters.available_from || filters.available_by) {
+      query = query.not('available_date', 'is', null);
+      if (filters.available_by) {
+        query = query.lte('available_date', filters.available_by);
+      }
+      if (filters.available_from && filters.available_from > todayISODate()) {
+        query = query.gte('available_date', filters.available_from);
+      }
+    }
 
     if (posterType === 'owner') {
       query = query.or('role.eq.landlord,role.eq.tenant', { foreignTable: 'owner' });
@@ -1682,15 +1766,15 @@ async getInquiriesForListing(listingId: string): Promise<{ user_name: string; us
         ? 'owner:public_profiles!inner(id,full_name,role,agency)'
         : 'owner:public_profiles(id,full_name,role,agency)';
 
-    const selectStr = `*,${ownerSelect},listing_images(*)`;
+    const selectStr = `*,${ownerSelect},listing_images(*),${openHousesEmbed(filters.open_house_this_week)}`;
 
-    let query = supabase
-      .from('listings')
-      .select(selectStr, { count: 'exact' })
+    let query = selectListings(selectStr, filters.polygon, { count: 'exact' })
       .eq('is_active', true)
       .eq('approved', true)
       .eq('listing_type', 'sale');
 
+    query = applyOpenHouseEmbedFilters(query, filters.open_house_this_week);
+
     if (filters.bedrooms !== undefined && filters.bedrooms.length > 0) {
       query = query.in('bedrooms', filters.bedrooms);
     }
@@ -1717,6 +1801,9 @@ async getInquiriesForListing(listingId: string): Promise<{ user_name: string; us
     if (filters.neighborhoods && filters.neighborhoods.length > 0) {
       query = query.in('neighborhood', filters.neighborhoods);
     }
+    if (filters.price_reduced_only) {
+      query = query.gte('price_reduced_at', getPriceReducedCutoff());
+    }
 
     if (filters.bounds) {
       query = query
@@ -1763,6 +1850,9 @@ async getInquiriesForListing(listingId: string): Promise<{ user_name: string; us
       case 'bathrooms_desc':
         query = query.order('bathrooms', { ascending: false }).order('created_at', { ascending: false });
         break;
+      case 'price_reduced':
+        query = query.order('price_reduced_at', { ascending: false, nullsFirst: false }).order('created_at', { ascending: false });
+        break;
       case 'newest':
       default:
         query = query.order('created_at', { ascending: false });
@@ -1827,7 +1917,11 @@ async getInquiriesForListing(listingId: string): Promise<{ user_name: string; us
     return true;
   },
 
-  async getMapPins(bounds: { north: number; south: number; east: number; west: number }, listingType: 'rental' | 'sale' = 'rental') {
+  async getMapPins(
+    bounds: { north: number; south: number; east: number; west: number },
+    listingType: 'rental' | 'sale' = 'rental',
+    polygon?: SearchPolygon,
+  ) {
     const selectStr = `
       id,
       latitude,
@@ -1844,9 +1938,7 @@ async getInquiriesForListing(listingId: string): Promise<{ user_name: string; us
       owner:public_profiles!listings_user_id_fkey(role, agency)
     `;
 
-    let query = supabase
-      .from('listings')
-      .select(selectStr)
+    let query = selectListings(selectStr, polygon)
       .eq('is_active', true)
       .eq('approved', true)
       .not('latitude', 'is', null)
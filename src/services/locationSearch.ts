@@ -1,4 +1,5 @@
 import { supabase } from "../config/supabase";
+import { geoJsonToSearchPolygon, type SearchPolygon } from "../utils/searchPolygon";
 
 export interface LocationResult {
   id: string;
@@ -245,3 +246,36 @@ export async function getLocationByZipCode(zipCode: string): Promise<LocationRes
   }
 }
 
+
+/**
+ * Fetches the boundary for a neighborhood or ZIP result from
+ * get-neighborhood-polygon / get-zipcode-polygon. Boroughs have no boundary
+ * source, so callers fall back to the location's bounds box.
+ */
+export async function getLocationBoundary(location: LocationResult): Promise<SearchPolygon | null> {
+  if (location.type === 'borough') return null;
+
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  const endpoint = location.type === 'zip'
+    ? `get-zipcode-polygon?zip=${encodeURIComponent(location.name)}`
+    : `get-neighborhood-polygon?name=${encodeURIComponent(location.name)}`;
+
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/${endpoint}`, {
+      headers: {
+        'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      },
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const data = await response.json();
+    return geoJsonToSearchPolygon(data?.polygon);
+  } catch (err) {
+    console.error('Get location boundary error:', err);
+    return null;
+  }
+}
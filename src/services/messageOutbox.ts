@@ -0,0 +1,71 @@
+// Outbox monitoring for the admin panel: queue depth per channel, the
+// messages themselves, and the two manual actions — cancel a message that is
+// still waiting, or put a dead-lettered / failed one back in the queue.
+// Schema: supabase/migrations/20261018150000_message_outbox.sql; the worker
+// is supabase/functions/process-message-outbox.
+//
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { OutboxFilter, OutboxMessage, OutboxStats } from '../types/messageOutbox';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+const MESSAGE_COLUMNS =
+  'id, channel, recipient, subject, body, message_source, reason, send_after, status, attempts, max_attempts, last_error, respect_send_window, idempotency_key, provider, provider_message_id, sent_at, created_at';
+
+export const messageOutboxService = {
+  async getStats(): Promise<OutboxStats[]> {
+    const { data, error } = await sb.rpc('admin_message_outbox_stats');
+    if (error) throw error;
+    return ((data as OutboxStats[] | null) ?? []).map((row) => ({
+      ...row,
+      queued: Number(row.queued),
+      retrying: Number(row.retrying),
+      held: Number(row.held),
+      sending: Number(row.sending),
+      dead: Number(row.dead),
+      failed_24h: Number(row.failed_24h),
+      sent_24h: Number(row.sent_24h),
+    }));
+  },
+
+  /** 'pending' is everything still to go out, soonest first; the rest newest first. */
+  async getMessages(filter: OutboxFilter): Promise<OutboxMessage[]> {
+    let query = sb.from('message_outbox').select(MESSAGE_COLUMNS);
+
+    if (filter === 'pending') {
+      query = query.in('status', ['queued', 'sending']).order('send_after', { ascending: true });
+    } else {
+      if (filter !== 'all') query = query.eq('status', filter);
+      query = query.order('created_at', { ascending: false });
+    }
+
+    const { data, error } = await query.limit(200);
+    if (error) throw error;
+    return (data as OutboxMessage[] | null) ?? [];
+  },
+
+  /** Only rows still waiting can be cancelled; one the worker already claimed goes out. */
+  async cancel(id: string): Promise<void> {
+    const { error } = await sb
+      .from('message_outbox')
+      .update({ status: 'cancelled', last_error: 'Cancelled by admin' })
+      .eq('id', id)
+      .eq('status', 'queued');
+
+    if (error) throw error;
+  },
+
+  /** Fresh attempt budget, due on the worker's next run. */
+  async retry(id: string): Promise<void> {
+    const { error } = await sb
+      .from('message_outbox')
+      .update({ status: 'queued', reason: 'retry', attempts: 0, send_after: new Date().toISOString(), locked_at: null })
+      .eq('id', id)
+      .in('status', ['dead', 'failed']);
+
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,110 @@
+// In-app message threads between inquirers and listing owners.
+// Schema: supabase/migrations/20261018080000_message_threads.sql.
+// Messages are written only by the send-thread-message edge function (and
+// the SMS / email reply relays), which also notifies the other side.
+//
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MessageThread, ThreadMessage, ThreadRole } from '../types/messages';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+const THREAD_COLUMNS =
+  'id, listing_id, commercial_listing_id, inquirer_user_id, owner_user_id, inquirer_name, owner_name, last_message_at, last_message_preview, last_message_role, inquirer_last_read_at, owner_last_read_at, created_at, listing:listings(id, title), commercial_listing:commercial_listings(id, title)';
+const MESSAGE_COLUMNS = 'id, thread_id, sender_role, body, channel, created_at';
+
+export function threadRoleFor(thread: MessageThread, userId: string): ThreadRole {
+  return thread.owner_user_id === userId ? 'owner' : 'inquirer';
+}
+
+/** Unread for this user: the newest message is from the other side and newer than their last read. */
+export function isThreadUnread(thread: MessageThread, userId: string): boolean {
+  const role = threadRoleFor(thread, userId);
+  if (!thread.last_message_role || thread.last_message_role === role) return false;
+  const lastRead = role === 'owner' ? thread.owner_last_read_at : thread.inquirer_last_read_at;
+  return !lastRead || new Date(thread.last_message_at) > new Date(lastRead);
+}
+
+export function threadCounterpartName(thread: MessageThread, userId: string): string {
+  return threadRoleFor(thread, userId) === 'owner'
+    ? thread.inquirer_name || 'Inquirer'
+    : thread.owner_name || 'Listing owner';
+}
+
+export function threadListingTitle(thread: MessageThread): string {
+  return thread.listing?.title || thread.commercial_listing?.title || 'Listing';
+}
+
+export function threadListingPath(thread: MessageThread): string {
+  return thread.commercial_listing_id
+    ? `/commercial-listing/${thread.commercial_listing_id}`
+    : `/listing/${thread.listing_id}`;
+}
+
+export const messagesService = {
+  /** Every thread the user is part of, as inquirer or owner — newest activity first. */
+  async getThreads(userId: string): Promise<MessageThread[]> {
+    const { data, error } = await sb
+      .from('message_threads')
+      .select(THREAD_COLUMNS)
+      .or(`inquirer_user_id.eq.${userId},owner_user_id.eq.${userId}`)
+      .order('last_message_at', { ascending: false });
+
+    if (error) throw error;
+    return (data as unknown as MessageThread[] | null) ?? [];
+  },
+
+  /** Threads on one listing (owner's InquiriesModal). */
+  async getThreadsForListing(listingId: string): Promise<MessageThread[]> {
+    const { data, error } = await sb
+      .from('message_threads')
+      .select(THREAD_COLUMNS)
+      .or(`listing_id.eq.${listingId},commercial_listing_id.eq.${listingId}`)
+      .order('last_message_at', { ascending: false });
+
+    if (error) throw error;
+    return (data as unknown as MessageThread[] | null) ?? [];
+  },
+
+  async getMessages(threadId: string): Promise<ThreadMessage[]> {
+    const { data, error } = await sb
+      .from('thread_messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('thread_id', threadId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data as ThreadMessage[] | null) ?? [];
+  },
+
+  /**
+   * Sends a message in an existing thread, or starts one with a listing's
+   * owner. Returns the thread id and the saved message.
+   */
+  async sendMessage(
+    target: { threadId: string } | { listingId: string; isCommercial?: boolean },
+    body: string,
+  ): Promise<{ threadId: string; message: ThreadMessage }> {
+    const { data, error } = await supabase.functions.invoke('send-thread-message', {
+      body: { ...target, body: body.trim() },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data as { threadId: string; message: ThreadMessage };
+  },
+
+  async markRead(threadId: string): Promise<void> {
+    const { error } = await sb.rpc('mark_message_thread_read', { p_thread_id: threadId });
+    if (error) throw error;
+  },
+
+  /** Threads with a message the user hasn't opened yet (header badge). */
+  async getUnreadCount(): Promise<number> {
+    const { data, error } = await sb.rpc('get_unread_message_thread_count');
+    if (error) throw error;
+    return (data as number | null) ?? 0;
+  },
+};
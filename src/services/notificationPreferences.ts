@@ -0,0 +1,39 @@
+// The signed-in user's notification preferences (Account → Settings).
+// Schema: supabase/migrations/20261018170000_notification_preferences.sql.
+// Senders check them in supabase/functions/_shared/notificationPreferences.ts;
+// the email-unsubscribe function writes email opt-outs from unsubscribe links.
+//
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NotificationCategory, NotificationPreferences } from '../types/notificationPreferences';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+export const notificationPreferencesService = {
+  async getPreferences(userId: string): Promise<NotificationPreferences | null> {
+    const { data, error } = await sb
+      .from('notification_preferences')
+      .select('user_id, email_opt_outs, sms_opt_outs, updated_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as NotificationPreferences | null;
+  },
+
+  async savePreferences(
+    userId: string,
+    optOuts: { email_opt_outs: NotificationCategory[]; sms_opt_outs: NotificationCategory[] },
+  ): Promise<NotificationPreferences> {
+    const { data, error } = await sb
+      .from('notification_preferences')
+      .upsert({ user_id: userId, ...optOuts, updated_at: new Date().toISOString() }, { onConflict: 'user_id' })
+      .select('user_id, email_opt_outs, sms_opt_outs, updated_at')
+      .single();
+
+    if (error) throw error;
+    return data as NotificationPreferences;
+  },
+};
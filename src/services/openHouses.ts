@@ -0,0 +1,106 @@
+// Open houses on sale listings (residential and commercial).
+// Schema: supabase/migrations/20261018060000_open_houses.sql.
+//
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { OpenHouse } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+/** "Open house this week" is a rolling window from now. */
+export const OPEN_HOUSE_WINDOW_DAYS = 7;
+
+const OPEN_HOUSE_COLUMNS = 'id, listing_id, commercial_listing_id, starts_at, ends_at, notes, created_at';
+
+export function getOpenHouseWindow(now: Date = new Date()): { from: string; to: string } {
+  return {
+    from: now.toISOString(),
+    to: new Date(now.getTime() + OPEN_HOUSE_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+  };
+}
+
+/**
+ * Embed for the sale browse selects. With `thisWeekOnly` it's an inner join,
+ * so listings without a slot in the window drop out of the results — the
+ * same trick the poster/agency filters use on `owner`.
+ */
+export function openHousesEmbed(thisWeekOnly?: boolean): string {
+  return `open_houses${thisWeekOnly ? '!inner' : ''}(id,starts_at,ends_at)`;
+}
+
+/** Narrows the embedded open_houses rows to upcoming (or this week's) slots. */
+export function applyOpenHouseEmbedFilters(query: any, thisWeekOnly?: boolean): any {
+  const { from, to } = getOpenHouseWindow();
+  query = query.gte('open_houses.ends_at', from);
+  if (thisWeekOnly) {
+    query = query.lt('open_houses.starts_at', to);
+  }
+  return query;
+}
+
+/** Earliest slot that hasn't ended yet, or null. */
+export function getNextOpenHouse<T extends Pick<OpenHouse, 'starts_at' | 'ends_at'>>(
+  slots: T[] | null | undefined,
+  now: Date = new Date(),
+): T | null {
+  const upcoming = (slots ?? [])
+    .filter((s) => new Date(s.ends_at).getTime() > now.getTime())
+    .sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+  return upcoming[0] ?? null;
+}
+
+export function isOpenHouseThisWeek(slot: Pick<OpenHouse, 'starts_at' | 'ends_at'> | null): boolean {
+  if (!slot) return false;
+  const { from, to } = getOpenHouseWindow();
+  return (
+    new Date(slot.ends_at).getTime() >= new Date(from).getTime() &&
+    new Date(slot.starts_at).getTime() < new Date(to).getTime()
+  );
+}
+
+export const openHousesService = {
+  /** Slots that haven't ended yet, soonest first. */
+  async getUpcomingOpenHouses(listingId: string, isCommercial = false): Promise<OpenHouse[]> {
+    const { data, error } = await sb
+      .from('open_houses')
+      .select(OPEN_HOUSE_COLUMNS)
+      .eq(isCommercial ? 'commercial_listing_id' : 'listing_id', listingId)
+      .gte('ends_at', new Date().toISOString())
+      .order('starts_at', { ascending: true });
+
+    if (error) throw error;
+    return (data as OpenHouse[] | null) ?? [];
+  },
+
+  async addOpenHouse(input: {
+    listingId: string;
+    isCommercial?: boolean;
+    startsAt: string;
+    endsAt: string;
+    notes?: string | null;
+    createdBy?: string | null;
+  }): Promise<OpenHouse> {
+    const { data, error } = await sb
+      .from('open_houses')
+      .insert({
+        listing_id: input.isCommercial ? null : input.listingId,
+        commercial_listing_id: input.isCommercial ? input.listingId : null,
+        starts_at: input.startsAt,
+        ends_at: input.endsAt,
+        notes: input.notes?.trim() || null,
+        created_by: input.createdBy ?? null,
+      })
+      .select(OPEN_HOUSE_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return data as OpenHouse;
+  },
+
+  async deleteOpenHouse(id: string): Promise<void> {
+    const { error } = await sb.from('open_houses').delete().eq('id', id);
+    if (error) throw error;
+  },
+};
@@ -1,12 +1,48 @@
-import { supabase, CallStatus, ScrapedListing, ScrapeRun } from '@/config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase, CallStatus, MatchStatus, ScrapedListing, ScrapeRun } from '@/config/supabase';
 import { getAdminActiveDays, getExpirationDate } from './listings';
+import type {
+  PipelineCaller,
+  PipelineFunnelRow,
+  ScrapedListingStatusChange,
+  ScrapeRunDiffRow,
+} from '@/types/pipeline';
+
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated
+// (call queue columns, status history, admin_pipeline_funnel, issue diffing).
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+/** Statuses that still need a phone call — the only ones a callback applies to. */
+export const CALLABLE_STATUSES: CallStatus[] = ['pending_call', 'called_no_answer'];
 
 export interface PipelineFilters {
   callStatus: CallStatus | 'all';
-  matchStatus: 'all' | 'no_match' | 'matched' | 'partial_match';
+  matchStatus: 'all' | MatchStatus;
+  /** 'all', 'unassigned', or a caller's profile id. */
+  callerId: string;
   lowConfidenceOnly: boolean;
 }
 
+/** The live listing a scraped row matched, for the side-by-side in PipelineListingDetail. */
+export interface MatchedLiveListing {
+  id: string;
+  title: string | null;
+  contact_name: string | null;
+  contact_phone: string | null;
+  cross_street_a: string | null;
+  cross_street_b: string | null;
+  full_address: string | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  price: number | null;
+  asking_price: number | null;
+  call_for_price: boolean | null;
+  listing_type: string;
+  is_active: boolean;
+  approved: boolean;
+  created_at: string;
+}
+
 const VALID_TRANSITIONS: Record<CallStatus, CallStatus[]> = {
   pending_call: ['called_no_answer', 'called_declined', 'approved', 'suppressed'],
   called_no_answer: ['called_declined', 'approved', 'suppressed'],
@@ -42,12 +78,79 @@ export const pipelineService = {
     return data;
   },
 
+  /** Completed issues, newest first — the Issues tab's picker. */
+  async getCompletedRuns(limit: number = 52): Promise<ScrapeRun[]> {
+    const { data, error } = await sb
+      .from('scrape_runs')
+      .select('*')
+      .eq('status', 'completed')
+      .order('pdf_date', { ascending: false })
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data as ScrapeRun[] | null) ?? [];
+  },
+
+  /** What is new, back, dropped or repriced in `runId` versus `previousRunId` (null = everything is new). */
+  async compareRuns(runId: string, previousRunId: string | null): Promise<ScrapeRunDiffRow[]> {
+    const { data, error } = await sb.rpc('admin_compare_scrape_runs', {
+      p_run_id: runId,
+      p_previous_run_id: previousRunId,
+    });
+    if (error) throw error;
+    return ((data as ScrapeRunDiffRow[] | null) ?? []).map((row) => ({
+      ...row,
+      previous_price: row.previous_price == null ? null : Number(row.previous_price),
+      current_price: row.current_price == null ? null : Number(row.current_price),
+    }));
+  },
+
+  /** admin_settings.pipeline_missed_issues_limit: issues a lead may miss before it counts as dropped. */
+  async getMissedIssuesLimit(): Promise<number> {
+    const { data, error } = await sb
+      .from('admin_settings')
+      .select('pipeline_missed_issues_limit')
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    return (data as { pipeline_missed_issues_limit?: number } | null)?.pipeline_missed_issues_limit ?? 3;
+  },
+
+  async setMissedIssuesLimit(value: number): Promise<void> {
+    const { data: row, error: selErr } = await sb
+      .from('admin_settings')
+      .select('id')
+      .limit(1)
+      .maybeSingle();
+    if (selErr) throw selErr;
+    if (!row?.id) throw new Error('Admin settings not found');
+
+    const { error } = await sb
+      .from('admin_settings')
+      .update({ pipeline_missed_issues_limit: value })
+      .eq('id', row.id);
+    if (error) throw error;
+  },
+
+  /** Texts the owners of the matched live listings asking if they are still available (send-still-available-sms). */
+  async sendStillAvailableSms(scrapedListingIds: string[]): Promise<{ sent: number; skipped: number }> {
+    const { data, error } = await supabase.functions.invoke('send-still-available-sms', {
+      body: { scrapedListingIds },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return { sent: data?.sent ?? 0, skipped: Object.keys(data?.skipped ?? {}).length };
+  },
+
   async getScrapedListings(
     filters: PipelineFilters,
     page: number,
     pageSize: number = 25,
   ): Promise<{ data: ScrapedListing[]; count: number }> {
-    let query = supabase
+    // match_status / caller_id aren't in the generated types yet.
+    let query = sb
       .from('scraped_listings')
       .select('*', { count: 'exact' });
 
@@ -59,6 +162,12 @@ export const pipelineService = {
       query = query.eq('match_status', filters.matchStatus);
     }
 
+    if (filters.callerId === 'unassigned') {
+      query = query.is('caller_id', null);
+    } else if (filters.callerId !== 'all') {
+      query = query.eq('caller_id', filters.callerId);
+    }
+
     if (filters.lowConfidenceOnly) {
       query = query.lt('parse_confidence', 0.5);
     }
@@ -71,7 +180,30 @@ export const pipelineService = {
       .range(from, to);
 
     if (error) throw error;
-    return { data: data ?? [], count: count ?? 0 };
+    return { data: (data as ScrapedListing[] | null) ?? [], count: count ?? 0 };
+  },
+
+  async getMatchedListing(listingId: string): Promise<MatchedLiveListing | null> {
+    const { data, error } = await supabase
+      .from('listings')
+      .select(
+        'id, title, contact_name, contact_phone, cross_street_a, cross_street_b, full_address, bedrooms, bathrooms, price, asking_price, call_for_price, listing_type, is_active, approved, created_at',
+      )
+      .eq('id', listingId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as MatchedLiveListing | null;
+  },
+
+  /** Re-runs the live-listing match (match-scraped-listings) for these rows. */
+  async recheckMatches(ids: string[]): Promise<void> {
+    const { data, error } = await supabase.functions.invoke('match-scraped-listings', {
+      body: { ids },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
   },
 
   async updateCallStatus(id: string, newStatus: CallStatus): Promise<void> {
@@ -92,6 +224,104 @@ export const pipelineService = {
     if (error) throw error;
   },
 
+  /** Admins, who are the ones making the calls. */
+  async getCallers(): Promise<PipelineCaller[]> {
+    const { data, error } = await sb
+      .from('profiles')
+      .select('id, full_name')
+      .eq('is_admin', true)
+      .order('full_name');
+
+    if (error) throw error;
+    return (data as PipelineCaller[] | null) ?? [];
+  },
+
+  /**
+   * A day's calls for one caller ('all' / 'unassigned' as in PipelineFilters):
+   * callbacks due by the end of `day` (overdue ones included), soonest first,
+   * then leads nobody has called yet, newest sighting first.
+   */
+  async getCallQueue(
+    callerId: string,
+    day: Date,
+  ): Promise<{ callbacks: ScrapedListing[]; fresh: ScrapedListing[] }> {
+    const endOfDay = new Date(day);
+    endOfDay.setHours(23, 59, 59, 999);
+
+    let callbackQuery = sb
+      .from('scraped_listings')
+      .select('*')
+      .in('call_status', CALLABLE_STATUSES)
+      .lte('callback_at', endOfDay.toISOString());
+    let freshQuery = sb
+      .from('scraped_listings')
+      .select('*')
+      .eq('call_status', 'pending_call')
+      .is('callback_at', null);
+
+    if (callerId === 'unassigned') {
+      callbackQuery = callbackQuery.is('caller_id', null);
+      freshQuery = freshQuery.is('caller_id', null);
+    } else if (callerId !== 'all') {
+      callbackQuery = callbackQuery.eq('caller_id', callerId);
+      freshQuery = freshQuery.eq('caller_id', callerId);
+    }
+
+    const [callbacks, fresh] = await Promise.all([
+      callbackQuery.order('callback_at', { ascending: true }),
+      freshQuery.order('date_last_seen', { ascending: false }).limit(50),
+    ]);
+
+    if (callbacks.error) throw callbacks.error;
+    if (fresh.error) throw fresh.error;
+    return {
+      callbacks: (callbacks.data as ScrapedListing[] | null) ?? [],
+      fresh: (fresh.data as ScrapedListing[] | null) ?? [],
+    };
+  },
+
+  async assignCaller(id: string, callerId: string | null): Promise<void> {
+    const { error } = await sb
+      .from('scraped_listings')
+      .update({ caller_id: callerId })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async setCallback(id: string, callbackAt: string | null): Promise<void> {
+    const { error } = await sb
+      .from('scraped_listings')
+      .update({ callback_at: callbackAt })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async getStatusHistory(id: string): Promise<ScrapedListingStatusChange[]> {
+    const { data, error } = await sb
+      .from('scraped_listing_status_history')
+      .select('*, changed_by_profile:profiles!scraped_listing_status_history_changed_by_fkey(full_name)')
+      .eq('scraped_listing_id', id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data as ScrapedListingStatusChange[] | null) ?? [];
+  },
+
+  /** Leads first called since `since`: called → approved → published → paid, by source, caller and week. */
+  async getFunnel(since: Date): Promise<PipelineFunnelRow[]> {
+    const { data, error } = await sb.rpc('admin_pipeline_funnel', { p_since: since.toISOString() });
+    if (error) throw error;
+    return ((data as PipelineFunnelRow[] | null) ?? []).map((row) => ({
+      ...row,
+      called: Number(row.called),
+      approved: Number(row.approved),
+      published: Number(row.published),
+      paid: Number(row.paid),
+    }));
+  },
+
   async publishToListings(
     scraped: ScrapedListing,
     formData: Record<string, any>,
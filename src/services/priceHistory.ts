@@ -0,0 +1,42 @@
+// Listing price history — read side of listing_price_changes, which is
+// written only by the record_listing_price_change() trigger.
+//
+// Same targeted cast as services/subscriptions.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ListingPriceChange } from '../types/priceHistory';
+import { PRICE_REDUCED_WINDOW_DAYS } from '../types/priceHistory';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+/** ISO cutoff for "recently reduced" — listings with price_reduced_at on or
+ *  after this qualify. */
+export function getPriceReducedCutoff(now: Date = new Date()): string {
+  return new Date(now.getTime() - PRICE_REDUCED_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export function isRecentlyReduced(listing: {
+  price_reduced_at?: string | null;
+  previous_price?: number | null;
+  call_for_price?: boolean | null;
+}): boolean {
+  if (!listing.price_reduced_at || listing.previous_price == null || listing.call_for_price) {
+    return false;
+  }
+  return new Date(listing.price_reduced_at).getTime() >= new Date(getPriceReducedCutoff()).getTime();
+}
+
+export const priceHistoryService = {
+  async getPriceHistory(listingId: string, isCommercial = false): Promise<ListingPriceChange[]> {
+    const { data, error } = await sb
+      .from('listing_price_changes')
+      .select('id, listing_id, is_commercial, listing_type, old_price, new_price, changed_at')
+      .eq('listing_id', listingId)
+      .eq('is_commercial', isCommercial)
+      .order('changed_at', { ascending: true });
+
+    if (error) throw error;
+    return (data as ListingPriceChange[] | null) ?? [];
+  },
+};
@@ -98,6 +98,7 @@ export const queryKeys = {
   ownedAgency: (profileId: string): QueryKey => ["ownedAgency", profileId],
   agencyByOwner: (profileId: string): QueryKey => ["agencyByOwner", profileId],
   agencyBySlug: (slug: string): QueryKey => ["agencyBySlug", slug],
+  unreadMessageThreads: (userId: string): QueryKey => ["unreadMessageThreads", userId],
 };
 
 export function shareAgencyAcrossCaches(agency: Agency | null | undefined) {
@@ -324,6 +324,7 @@ export const salesService = {
         to: userEmail,
         subject: 'Your Sales Listing Permission Request Has Been Approved',
         html,
+        category: 'account',
       });
 
       if (!result.success) {
@@ -380,6 +381,7 @@ export const salesService = {
         to: userEmail,
         subject: 'Update on Your Sales Listing Permission Request',
         html,
+        category: 'account',
       });
 
       if (!result.success) {
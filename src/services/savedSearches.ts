@@ -0,0 +1,134 @@
+// Saved searches service — named /browse and /sales filter sets with
+// new-match alerts. Schema in supabase/migrations/20261018010000_saved_searches.sql;
+// alerts are sent by the send-saved-search-alerts edge function.
+//
+// Same targeted cast as services/subscriptions.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FilterState } from '../hooks/useBrowseFilters';
+import type {
+  SavedSearch,
+  SavedSearchChannel,
+  SavedSearchFrequency,
+  SavedSearchMode,
+} from '../types/savedSearches';
+import { MAX_SAVED_SEARCHES_PER_USER } from '../types/savedSearches';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+/** Drop view-only state (sort) and empty values so two searches that return
+ *  the same listings store identically. */
+export function toSavedSearchFilters(filters: FilterState): FilterState {
+  const { sort: _sort, ...rest } = filters;
+  const cleaned: FilterState = {};
+  for (const [key, value] of Object.entries(rest)) {
+    if (value === undefined || value === null || value === '' || value === false) continue;
+    if (Array.isArray(value) && value.length === 0) continue;
+    (cleaned as Record<string, unknown>)[key] = value;
+  }
+  return cleaned;
+}
+
+/** Short human label for a filter set, e.g. "3 BR in Boro Park under $3,000".
+ *  Used as the default search name and in the Alerts tab. */
+export function summarizeSearchFilters(filters: FilterState, mode: SavedSearchMode): string {
+  const parts: string[] = [];
+
+  if (filters.bedrooms && filters.bedrooms.length > 0) {
+    const beds = [...filters.bedrooms].sort((a, b) => a - b).map((b) => (b === 0 ? 'Studio' : `${b}`));
+    parts.push(beds.length === 1 && beds[0] === 'Studio' ? 'Studio' : `${beds.join('/')} BR`);
+  } else if (filters.listingTypeFilter === 'commercial') {
+    parts.push('Commercial');
+  } else {
+    parts.push(mode === 'sale' ? 'Homes for sale' : 'Rentals');
+  }
+
+  if (filters.searchLocationName) {
+    parts.push(`in ${filters.searchLocationName}`);
+  } else if (filters.neighborhoods && filters.neighborhoods.length > 0) {
+    const [first, ...rest] = filters.neighborhoods;
+    parts.push(rest.length > 0 ? `in ${first} +${rest.length}` : `in ${first}`);
+  }
+
+  if (filters.min_price && filters.max_price) {
+    parts.push(`$${filters.min_price.toLocaleString()}–$${filters.max_price.toLocaleString()}`);
+  } else if (filters.max_price) {
+    parts.push(`under $${filters.max_price.toLocaleString()}`);
+  } else if (filters.min_price) {
+    parts.push(`over $${filters.min_price.toLocaleString()}`);
+  }
+
+  return parts.join(' ');
+}
+
+export const savedSearchesService = {
+  async getMySavedSearches(): Promise<SavedSearch[]> {
+    const { data, error } = await sb
+      .from('saved_searches')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data as SavedSearch[] | null) ?? [];
+  },
+
+  async createSavedSearch(params: {
+    userId: string;
+    name: string;
+    mode: SavedSearchMode;
+    filters: FilterState;
+    channel: SavedSearchChannel;
+    frequency: SavedSearchFrequency;
+  }): Promise<SavedSearch> {
+    const { count, error: countError } = await sb
+      .from('saved_searches')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', params.userId);
+
+    if (countError) throw countError;
+    if ((count ?? 0) >= MAX_SAVED_SEARCHES_PER_USER) {
+      throw new Error(`You can save up to ${MAX_SAVED_SEARCHES_PER_USER} searches. Delete one to add another.`);
+    }
+
+    const { data, error } = await sb
+      .from('saved_searches')
+      .insert({
+        user_id: params.userId,
+        name: params.name.trim(),
+        search_mode: params.mode,
+        filters: toSavedSearchFilters(params.filters),
+        channel: params.channel,
+        frequency: params.frequency,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as SavedSearch;
+  },
+
+  async updateSavedSearch(
+    id: string,
+    updates: Partial<Pick<SavedSearch, 'name' | 'channel' | 'frequency' | 'is_active'>>,
+  ): Promise<SavedSearch> {
+    const { data, error } = await sb
+      .from('saved_searches')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as SavedSearch;
+  },
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    const { error } = await sb
+      .from('saved_searches')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,66 @@
+// Send window policy and blocked holiday dates for the admin panel.
+// Schema: supabase/migrations/20261018140000_send_window.sql. The edge
+// functions read the policy (supabase/functions/_shared/sendWindow.ts); held
+// messages are managed from the outbox (services/messageOutbox.ts).
+//
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  SendWindowBlockedDate,
+  SendWindowPolicy,
+  SendWindowPolicyUpdate,
+} from '../types/sendWindow';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+export const sendWindowService = {
+  async getPolicy(): Promise<SendWindowPolicy | null> {
+    const { data, error } = await sb
+      .from('send_window_policy')
+      .select(
+        'timezone, daily_start, daily_end, observe_shabbat, latitude, longitude, candle_lighting_minutes, havdalah_minutes, updated_by, updated_at',
+      )
+      .eq('id', 1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as SendWindowPolicy | null;
+  },
+
+  async updatePolicy(update: SendWindowPolicyUpdate, adminId: string): Promise<void> {
+    const { error } = await sb
+      .from('send_window_policy')
+      .update({ ...update, updated_by: adminId, updated_at: new Date().toISOString() })
+      .eq('id', 1);
+
+    if (error) throw error;
+  },
+
+  /** Today onward; past dates no longer affect the window. */
+  async getBlockedDates(): Promise<SendWindowBlockedDate[]> {
+    const today = new Date().toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+    const { data, error } = await sb
+      .from('send_window_blocked_dates')
+      .select('blocked_on, label, created_by, created_at')
+      .gte('blocked_on', today)
+      .order('blocked_on', { ascending: true });
+
+    if (error) throw error;
+    return (data as SendWindowBlockedDate[] | null) ?? [];
+  },
+
+  async addBlockedDate(blockedOn: string, label: string, adminId: string): Promise<void> {
+    const { error } = await sb
+      .from('send_window_blocked_dates')
+      .upsert({ blocked_on: blockedOn, label: label.trim(), created_by: adminId }, { onConflict: 'blocked_on' });
+
+    if (error) throw error;
+  },
+
+  async removeBlockedDate(blockedOn: string): Promise<void> {
+    const { error } = await sb.from('send_window_blocked_dates').delete().eq('blocked_on', blockedOn);
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,162 @@
+// Showing (viewing) appointments — lister availability windows, the public
+// booking call and the token-based manage link.
+// Schema: supabase/migrations/20261018070000_showing_appointments.sql.
+// Requests are written only by the request-showing / manage-showing edge
+// functions (they send the SMS/email confirmations).
+//
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  ManagedShowing,
+  ShowingAvailability,
+  ShowingRequest,
+  ShowingSlot,
+} from '../types/showings';
+import { buildShowingSlots } from '../utils/showings';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+const AVAILABILITY_COLUMNS = 'id, listing_id, commercial_listing_id, starts_at, ends_at, slot_minutes, created_at';
+const REQUEST_COLUMNS =
+  'id, listing_id, commercial_listing_id, starts_at, ends_at, requester_name, requester_phone, requester_email, message, status, cancelled_by, created_at';
+
+async function callFunction<T>(name: string, body: Record<string, unknown>, fallbackError: string): Promise<T> {
+  // The signed-in user's session when there is one — request-showing links the
+  // request to that account — otherwise the anon key.
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data?.error || fallbackError);
+  }
+  return data as T;
+}
+
+export const showingsService = {
+  /** Windows that haven't ended yet, soonest first. */
+  async getAvailability(listingId: string, isCommercial = false): Promise<ShowingAvailability[]> {
+    const { data, error } = await sb
+      .from('showing_availability')
+      .select(AVAILABILITY_COLUMNS)
+      .eq(isCommercial ? 'commercial_listing_id' : 'listing_id', listingId)
+      .gt('ends_at', new Date().toISOString())
+      .order('starts_at', { ascending: true });
+
+    if (error) throw error;
+    return (data as ShowingAvailability[] | null) ?? [];
+  },
+
+  async addAvailability(input: {
+    listingId: string;
+    isCommercial?: boolean;
+    startsAt: string;
+    endsAt: string;
+    slotMinutes: number;
+    createdBy?: string | null;
+  }): Promise<ShowingAvailability> {
+    const { data, error } = await sb
+      .from('showing_availability')
+      .insert({
+        listing_id: input.isCommercial ? null : input.listingId,
+        commercial_listing_id: input.isCommercial ? input.listingId : null,
+        starts_at: input.startsAt,
+        ends_at: input.endsAt,
+        slot_minutes: input.slotMinutes,
+        created_by: input.createdBy ?? null,
+      })
+      .select(AVAILABILITY_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return data as ShowingAvailability;
+  },
+
+  async deleteAvailability(id: string): Promise<void> {
+    const { error } = await sb.from('showing_availability').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  /** Free slots for the public booking widget (windows minus held slots). */
+  async getOpenSlots(listingId: string, isCommercial = false): Promise<ShowingSlot[]> {
+    const [windows, busy] = await Promise.all([
+      this.getAvailability(listingId, isCommercial),
+      sb.rpc('get_showing_busy_slots', { p_listing_id: listingId }),
+    ]);
+    if (busy.error) throw busy.error;
+    return buildShowingSlots(windows, (busy.data as ShowingSlot[] | null) ?? []);
+  },
+
+  /** Upcoming requests on one listing — owner/admin only (RLS). */
+  async getUpcomingRequests(listingId: string, isCommercial = false): Promise<ShowingRequest[]> {
+    const { data, error } = await sb
+      .from('showing_requests')
+      .select(REQUEST_COLUMNS)
+      .eq(isCommercial ? 'commercial_listing_id' : 'listing_id', listingId)
+      .gt('ends_at', new Date().toISOString())
+      .order('starts_at', { ascending: true });
+
+    if (error) throw error;
+    return (data as ShowingRequest[] | null) ?? [];
+  },
+
+  /** Returns the requester's manage token. */
+  async requestShowing(input: {
+    listingId: string;
+    isCommercial?: boolean;
+    slot: ShowingSlot;
+    name: string;
+    phone: string;
+    email?: string | null;
+    message?: string | null;
+  }): Promise<string> {
+    const data = await callFunction<{ manageToken: string }>(
+      'request-showing',
+      {
+        listingId: input.listingId,
+        isCommercial: input.isCommercial ?? false,
+        startsAt: input.slot.starts_at,
+        endsAt: input.slot.ends_at,
+        name: input.name.trim(),
+        phone: input.phone,
+        email: input.email?.trim() || undefined,
+        message: input.message?.trim() || undefined,
+      },
+      'Failed to request a viewing',
+    );
+    return data.manageToken;
+  },
+
+  async getManagedShowing(token: string): Promise<ManagedShowing> {
+    return callFunction<ManagedShowing>('manage-showing', { token, action: 'get' }, 'Could not load this viewing');
+  },
+
+  async manageShowing(
+    token: string,
+    action: 'confirm' | 'cancel' | 'reschedule',
+    slot?: ShowingSlot,
+  ): Promise<ManagedShowing> {
+    return callFunction<ManagedShowing>(
+      'manage-showing',
+      { token, action, startsAt: slot?.starts_at, endsAt: slot?.ends_at },
+      'Could not update this viewing',
+    );
+  },
+
+  /** The listing owner acting from the dashboard — by request id and their
+   *  session, since the manage tokens aren't readable from the client. */
+  async manageShowingAsLister(
+    requestId: string,
+    action: 'get' | 'confirm' | 'cancel',
+  ): Promise<ManagedShowing> {
+    return callFunction<ManagedShowing>('manage-showing', { requestId, action }, 'Could not update this viewing');
+  },
+};
@@ -0,0 +1,83 @@
+// SMS opt-out registry for the admin panel.
+// Schema: supabase/migrations/20261018100000_sms_consent.sql.
+// The edge functions keep it current from STOP / START replies and Twilio
+// carrier blocks (supabase/functions/_shared/smsConsent.ts); admins can only
+// read it and opt numbers in or out by hand.
+//
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SmsConsent, SmsConsentEvent } from '../types/smsConsent';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+const CONSENT_COLUMNS =
+  'phone_number, opted_out, opted_out_at, opted_in_at, reason, keyword, note, updated_by, created_at, updated_at';
+
+/** E.164 for US numbers, the format the registry is keyed on. Null when it isn't a usable number. */
+export function toE164(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return null;
+}
+
+export const smsConsentService = {
+  async getOptedOutNumbers(): Promise<SmsConsent[]> {
+    const { data, error } = await sb
+      .from('sms_consent')
+      .select(CONSENT_COLUMNS)
+      .eq('opted_out', true)
+      .order('opted_out_at', { ascending: false });
+
+    if (error) throw error;
+    return (data as SmsConsent[] | null) ?? [];
+  },
+
+  async getHistory(phoneNumber: string): Promise<SmsConsentEvent[]> {
+    const { data, error } = await sb
+      .from('sms_consent_events')
+      .select('id, phone_number, action, reason, keyword, note, actor_user_id, created_at')
+      .eq('phone_number', phoneNumber)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data as SmsConsentEvent[] | null) ?? [];
+  },
+
+  /** Opts a number out by hand, e.g. after a complaint by email. */
+  async optOut(phoneNumber: string, note: string, adminId: string): Promise<void> {
+    const { error } = await sb
+      .from('sms_consent')
+      .upsert(
+        {
+          phone_number: phoneNumber,
+          opted_out: true,
+          reason: 'admin',
+          keyword: null,
+          note: note.trim() || null,
+          updated_by: adminId,
+        },
+        { onConflict: 'phone_number' },
+      );
+
+    if (error) throw error;
+  },
+
+  /** Removes an opt-out — only on the number owner's explicit request. */
+  async optIn(phoneNumber: string, note: string, adminId: string): Promise<void> {
+    const { error } = await sb
+      .from('sms_consent')
+      .update({
+        opted_out: false,
+        reason: 'admin',
+        keyword: null,
+        note: note.trim() || null,
+        updated_by: adminId,
+      })
+      .eq('phone_number', phoneNumber);
+
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,144 @@
+// Admin SMS inbox: every number's thread from sms_messages plus its
+// listing_renewal_conversations. Reads go straight to the database
+// (admin_sms_inbox(), 20261018130000_sms_inbox.sql); replies, force-resolves
+// and reminder re-sends go through the admin-sms-inbox edge function.
+//
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  SmsConversation,
+  SmsInboxFilter,
+  SmsInboxThread,
+  SmsMessage,
+  SmsThreadDetail,
+  SmsThreadListing,
+} from '../types/smsInbox';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+/** Calls admin-sms-inbox and surfaces its `error` message (non-2xx bodies arrive on error.context). */
+async function invokeInbox(payload: Record<string, unknown>): Promise<any> {
+  const { data, error } = await supabase.functions.invoke('admin-sms-inbox', { body: payload });
+
+  if (error) {
+    const ctx = (error as { context?: unknown })?.context;
+    if (ctx && typeof (ctx as Response).json === 'function') {
+      const body = await (ctx as Response).clone().json().catch(() => null);
+      if (body?.error) throw new Error(body.error);
+    }
+    throw error;
+  }
+  if (data?.error) throw new Error(data.error);
+  return data;
+}
+
+export const smsInboxService = {
+  async getThreads(search: string, filter: SmsInboxFilter): Promise<SmsInboxThread[]> {
+    const { data, error } = await sb.rpc('admin_sms_inbox', {
+      p_search: search.trim() || null,
+      p_filter: filter,
+      p_limit: 200,
+    });
+
+    if (error) throw error;
+    return (data as SmsInboxThread[] | null) ?? [];
+  },
+
+  async getThread(phoneNumber: string): Promise<SmsThreadDetail> {
+    const [messagesResult, conversationsResult] = await Promise.all([
+      sb
+        .from('sms_messages')
+        .select('id, conversation_id, direction, phone_number, message_body, message_sid, message_source, listing_id, status, channel, metadata, created_at')
+        .eq('phone_number', phoneNumber)
+        .order('created_at', { ascending: true })
+        .limit(500),
+      sb
+        .from('listing_renewal_conversations')
+        .select(
+          'id, listing_id, user_id, phone_number, batch_id, listing_index, total_in_batch, conversation_type, state, action_taken, reply_text, is_commercial, metadata, resolved_by, expires_at, created_at, updated_at',
+        )
+        .eq('phone_number', phoneNumber)
+        .order('created_at', { ascending: false })
+        .limit(100),
+    ]);
+
+    if (messagesResult.error) throw messagesResult.error;
+    if (conversationsResult.error) throw conversationsResult.error;
+
+    const messages = (messagesResult.data as SmsMessage[] | null) ?? [];
+    const conversations = (conversationsResult.data as SmsConversation[] | null) ?? [];
+
+    // sms_messages.listing_id is polymorphic with no is_commercial flag, so
+    // look every id up in both tables.
+    const listingIds = [
+      ...new Set(
+        [...messages.map((m) => m.listing_id), ...conversations.map((c) => c.listing_id)].filter(
+          (id): id is string => !!id,
+        ),
+      ),
+    ];
+
+    let listings: SmsThreadListing[] = [];
+    if (listingIds.length > 0) {
+      const [residential, commercial] = await Promise.all([
+        sb
+          .from('listings')
+          .select('id, bedrooms, location, neighborhood, full_address, is_active, expires_at')
+          .in('id', listingIds),
+        sb
+          .from('commercial_listings')
+          .select('id, commercial_space_type, full_address, neighborhood, is_active, expires_at')
+          .in('id', listingIds),
+      ]);
+
+      if (residential.error) throw residential.error;
+      if (commercial.error) throw commercial.error;
+
+      listings = [
+        ...(residential.data ?? []).map((l: any) => ({
+          id: l.id,
+          is_commercial: false,
+          title: `${l.bedrooms === 0 ? 'Studio' : `${l.bedrooms} bd`} · ${l.full_address || l.location || l.neighborhood || 'No address'}`,
+          is_active: l.is_active === true,
+          expires_at: l.expires_at,
+        })),
+        ...(commercial.data ?? []).map((l: any) => ({
+          id: l.id,
+          is_commercial: true,
+          title: `${l.commercial_space_type || 'Commercial'} · ${l.full_address || l.neighborhood || 'No address'}`,
+          is_active: l.is_active === true,
+          expires_at: l.expires_at,
+        })),
+      ];
+    }
+
+    return { messages, conversations, listings };
+  },
+
+  async sendReply(
+    phoneNumber: string,
+    body: string,
+    context: { conversationId?: string | null; listingId?: string | null } = {},
+  ): Promise<void> {
+    await invokeInbox({
+      action: 'reply',
+      phone: phoneNumber,
+      body: body.trim(),
+      conversationId: context.conversationId ?? undefined,
+      listingId: context.listingId ?? undefined,
+    });
+  },
+
+  /** Renews or deactivates the conversation's listing(s) as if the owner had replied YES / NO. */
+  async resolveConversation(conversationId: string, resolution: 'renew' | 'deactivate'): Promise<void> {
+    await invokeInbox({ action: 'resolve', conversationId, resolution });
+  },
+
+  /** Returns when the reminder will go out if it was queued for the send window, otherwise null. */
+  async resendReminder(listingId: string): Promise<{ deferredUntil: string | null }> {
+    const data = await invokeInbox({ action: 'resend_reminder', listingId });
+    return { deferredUntil: data?.deferredUntil ?? null };
+  },
+};
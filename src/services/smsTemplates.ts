@@ -0,0 +1,76 @@
+// Admin-editable SMS copy.
+// Schema: supabase/migrations/20261018120000_sms_templates.sql. A trigger
+// bumps `version` and writes sms_template_versions on every body change, so
+// saving and rolling back are both plain updates here.
+//
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SmsTemplate, SmsTemplateVersion } from '../types/smsTemplates';
+import type { PreviewListing } from '../utils/smsTemplates';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+const TEMPLATE_COLUMNS =
+  'key, name, description, body, variables, version, change_note, updated_by, created_at, updated_at';
+
+export const smsTemplatesService = {
+  async getTemplates(): Promise<SmsTemplate[]> {
+    const { data, error } = await sb.from('sms_templates').select(TEMPLATE_COLUMNS).order('name');
+
+    if (error) throw error;
+    return (data as SmsTemplate[] | null) ?? [];
+  },
+
+  async getVersions(key: string): Promise<SmsTemplateVersion[]> {
+    const { data, error } = await sb
+      .from('sms_template_versions')
+      .select('id, template_key, version, body, change_note, created_by, created_at')
+      .eq('template_key', key)
+      .order('version', { ascending: false });
+
+    if (error) throw error;
+    return (data as SmsTemplateVersion[] | null) ?? [];
+  },
+
+  async updateBody(key: string, body: string, note: string, adminId: string): Promise<SmsTemplate> {
+    const { data, error } = await sb
+      .from('sms_templates')
+      .update({ body, change_note: note.trim() || null, updated_by: adminId })
+      .eq('key', key)
+      .select(TEMPLATE_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return data as SmsTemplate;
+  },
+
+  /** Restores an old body as a new version. */
+  async rollback(template: SmsTemplate, version: SmsTemplateVersion, adminId: string): Promise<SmsTemplate> {
+    return this.updateBody(template.key, version.body, `Rolled back to v${version.version}`, adminId);
+  },
+
+  /** Residential listings to preview against, matched on location / cross streets. */
+  async searchPreviewListings(query: string): Promise<PreviewListing[]> {
+    let request = sb
+      .from('listings')
+      .select(
+        'id, listing_type, bedrooms, location, neighborhood, cross_street_a, cross_street_b, price, asking_price, call_for_price, expires_at',
+      )
+      .eq('is_active', true)
+      .order('updated_at', { ascending: false })
+      .limit(10);
+
+    const term = query.trim().replace(/[%,()]/g, '');
+    if (term) {
+      request = request.or(
+        `location.ilike.%${term}%,neighborhood.ilike.%${term}%,cross_street_a.ilike.%${term}%,cross_street_b.ilike.%${term}%`,
+      );
+    }
+
+    const { data, error } = await request;
+    if (error) throw error;
+    return (data as PreviewListing[] | null) ?? [];
+  },
+};
@@ -0,0 +1,50 @@
+// WhatsApp opt-in for the signed-in user (Account → Settings) and the admin
+// digest send. Schema: supabase/migrations/20261018180000_whatsapp_channel.sql.
+// The opt-in is written through set_whatsapp_preferences(), which keys it on
+// the caller's profile phone.
+//
+// Same targeted cast as services/priceHistory.ts until db:types is regenerated.
+
+import { supabase } from '../config/supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { WhatsAppContact, WhatsAppDigestResult, WhatsAppPreferences } from '../types/whatsapp';
+
+const sb = supabase as unknown as SupabaseClient<any, 'public', any>;
+
+const CONTACT_COLUMNS =
+  'phone_number, user_id, opted_in, receive_digest, listing_messages, opted_in_at, opted_out_at, last_inbound_at, created_at, updated_at';
+
+export const whatsappService = {
+  async getMyContact(userId: string): Promise<WhatsAppContact | null> {
+    const { data, error } = await sb
+      .from('whatsapp_contacts')
+      .select(CONTACT_COLUMNS)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as WhatsAppContact | null;
+  },
+
+  async setPreferences(prefs: WhatsAppPreferences): Promise<WhatsAppContact> {
+    const { data, error } = await sb.rpc('set_whatsapp_preferences', {
+      p_opted_in: prefs.optedIn,
+      p_receive_digest: prefs.receiveDigest,
+      p_listing_messages: prefs.listingMessages,
+    });
+
+    if (error) throw error;
+    return data as WhatsAppContact;
+  },
+
+  /** Admin only: sends digest text to every number subscribed to the digest. */
+  async sendDigest(text: string): Promise<WhatsAppDigestResult> {
+    const { data, error } = await supabase.functions.invoke('send-whatsapp-digest', {
+      body: { text },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data as WhatsAppDigestResult;
+  },
+};
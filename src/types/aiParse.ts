@@ -0,0 +1,46 @@
+// Type definitions for self-serve AI "paste your ad" fills (parse-listing).
+// Schema lives in supabase/migrations/20261018220000_self_serve_ai_listing_parse.sql.
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new tables until `npm run db:types`.
+
+/** `limit` / `remaining` are null for admins, who are metered but not capped. */
+export interface AiParseQuota {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+/** One ParsedListing from _shared/intake.ts, as parse-listing returns it. */
+export interface AiParsedListing {
+  listing_kind: 'rental' | 'sale';
+  confidence: number;
+  uncertain_fields: string[];
+  raw_text: string;
+  [field: string]: unknown;
+}
+
+export interface AiParseResult {
+  listing: AiParsedListing;
+  count: number;
+  remaining: number | null;
+}
+
+export type AiParseInput = { text: string } | { file: File };
+
+/** One row of admin_ai_parse_usage(): a day in New York time. */
+export interface AiParseUsageDay {
+  day: string;
+  calls: number;
+  users: number;
+  failed: number;
+  admin_calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+export interface AiParseSettings {
+  daily_limit: number;
+  daily_budget_usd: number;
+}
@@ -0,0 +1,33 @@
+// Type definitions for listing attachments: floor plans, documents and
+// virtual tour links. Schema lives in
+// supabase/migrations/20261018090000_listing_attachments.sql.
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new tables until `npm run db:types`.
+
+export type AttachmentKind = 'floor_plan' | 'document' | 'virtual_tour';
+
+export interface ListingAttachment {
+  id: string;
+  listing_id: string | null;
+  commercial_listing_id: string | null;
+  kind: AttachmentKind;
+  title: string | null;
+  /** Public URL — image floor plans only (shown in the carousel). */
+  file_url: string | null;
+  /** Object path in the private listing-documents bucket (PDFs, documents). */
+  file_path: string | null;
+  /** External link — virtual tours only. */
+  url: string | null;
+  mime_type: string | null;
+  file_size: number | null;
+  requires_login: boolean;
+  sort_order: number;
+  created_at: string;
+}
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+  floor_plan: 'Floor plan',
+  document: 'Document',
+  virtual_tour: 'Virtual tour',
+};
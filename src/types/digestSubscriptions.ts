@@ -0,0 +1,74 @@
+// Type definitions + display constants for public subscriber digests.
+// Schema lives in supabase/migrations/20261018230000_public_digest_subscriptions.sql.
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new tables until `npm run db:types`.
+
+export type DigestChannel = 'email' | 'whatsapp';
+export type DigestFrequency = 'daily' | 'weekly';
+export type DigestListingType = 'rental' | 'sale';
+
+export interface DigestPreferences {
+  listing_type: DigestListingType;
+  neighborhoods: string[];
+  /** 0 is a studio, 4 means 4+. Empty means any. */
+  bedrooms: number[];
+  frequency: DigestFrequency;
+}
+
+export interface DigestSubscribeInput extends DigestPreferences {
+  channel: DigestChannel;
+  email?: string;
+  phone?: string;
+}
+
+export interface DigestSubscribeResult {
+  /** check_email: a confirmation (or manage) link went to the address. */
+  status: 'subscribed' | 'check_email' | 'already_subscribed';
+  /** Only when the address is the signed-in user's own. */
+  token?: string;
+  updated?: boolean;
+  whatsapp_opted_in?: boolean;
+}
+
+/** What the /digest/:token page gets back from digest-subscribe. */
+export interface ManagedDigestSubscription extends DigestPreferences {
+  channel: DigestChannel;
+  email: string | null;
+  phone_number: string | null;
+  confirmed: boolean;
+  unsubscribed: boolean;
+  last_sent_at: string | null;
+  whatsapp_opted_in: boolean;
+}
+
+/** A digest_subscriptions row, as admins read it. */
+export interface DigestSubscription extends DigestPreferences {
+  id: string;
+  user_id: string | null;
+  channel: DigestChannel;
+  email: string | null;
+  phone_number: string | null;
+  confirmed_at: string | null;
+  unsubscribed_at: string | null;
+  last_sent_at: string | null;
+  created_at: string;
+}
+
+export const DIGEST_CHANNEL_LABELS: Record<DigestChannel, string> = {
+  email: 'Email',
+  whatsapp: 'WhatsApp',
+};
+
+export const DIGEST_FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+};
+
+export const DIGEST_BEDROOM_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'Studio' },
+  { value: 1, label: '1' },
+  { value: 2, label: '2' },
+  { value: 3, label: '3' },
+  { value: 4, label: '4+' },
+];
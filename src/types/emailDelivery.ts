@@ -0,0 +1,30 @@
+// Type definitions for email delivery tracking: ZeptoMail bounce / complaint
+// / delivery events and the per-address suppression list built from them.
+// Schema lives in supabase/migrations/20261018160000_email_events.sql.
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new tables until `npm run db:types`.
+
+export type EmailSuppressionReason = 'hard_bounce' | 'soft_bounce' | 'complaint' | 'manual';
+
+export interface EmailSuppression {
+  email: string;
+  reason: EmailSuppressionReason;
+  details: string | null;
+  created_at: string;
+}
+
+/** One row per digest send from admin_digest_delivery_stats(). */
+export interface DigestDeliveryStats {
+  digest_send_id: string;
+  delivered: number;
+  bounced: number;
+  complained: number;
+}
+
+export const EMAIL_SUPPRESSION_REASON_LABELS: Record<EmailSuppressionReason, string> = {
+  hard_bounce: 'Email bounced',
+  soft_bounce: 'Email keeps bouncing',
+  complaint: 'Marked as spam',
+  manual: 'Email suppressed',
+};
@@ -0,0 +1,56 @@
+// Type definitions for the durable SMS / email outbox: every automated and
+// transactional message, whether it went out first try, is waiting on the
+// send window / a retry / the rate limit, or was dead-lettered.
+// Schema lives in supabase/migrations/20261018150000_message_outbox.sql.
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new tables until `npm run db:types`.
+
+export type OutboxChannel = 'sms' | 'email';
+
+export type OutboxReason = 'quiet_hours' | 'shabbat' | 'holiday' | 'retry' | 'rate_limit';
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'dead' | 'cancelled';
+
+export interface OutboxMessage {
+  id: string;
+  channel: OutboxChannel;
+  recipient: string;
+  subject: string | null;
+  body: string;
+  message_source: string | null;
+  reason: OutboxReason | null;
+  send_after: string;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  respect_send_window: boolean;
+  idempotency_key: string | null;
+  provider: string | null;
+  provider_message_id: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+/** One row per channel from admin_message_outbox_stats(). */
+export interface OutboxStats {
+  channel: OutboxChannel;
+  queued: number;
+  retrying: number;
+  held: number;
+  sending: number;
+  oldest_due_at: string | null;
+  dead: number;
+  failed_24h: number;
+  sent_24h: number;
+}
+
+export type OutboxFilter = 'pending' | 'dead' | 'failed' | 'all';
+
+export const OUTBOX_REASON_LABELS: Record<OutboxReason, string> = {
+  quiet_hours: 'Quiet hours',
+  shabbat: 'Shabbos',
+  holiday: 'Yom tov',
+  retry: 'Retrying',
+  rate_limit: 'Rate limited',
+};
@@ -0,0 +1,42 @@
+// Type definitions for in-app message threads between inquirers and listing
+// owners. Schema lives in supabase/migrations/20261018080000_message_threads.sql.
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new tables until `npm run db:types`.
+
+export type ThreadRole = 'inquirer' | 'owner';
+export type ThreadChannel = 'web' | 'sms' | 'email';
+
+export interface MessageThread {
+  id: string;
+  listing_id: string | null;
+  commercial_listing_id: string | null;
+  inquirer_user_id: string;
+  owner_user_id: string;
+  inquirer_name: string | null;
+  owner_name: string | null;
+  last_message_at: string;
+  last_message_preview: string | null;
+  last_message_role: ThreadRole | null;
+  inquirer_last_read_at: string;
+  owner_last_read_at: string | null;
+  created_at: string;
+  /** Embedded via the listing FKs; null when the listing is hidden by RLS. */
+  listing?: { id: string; title: string | null } | null;
+  commercial_listing?: { id: string; title: string | null } | null;
+}
+
+export interface ThreadMessage {
+  id: string;
+  thread_id?: string;
+  sender_role: ThreadRole;
+  body: string;
+  channel: ThreadChannel;
+  created_at: string;
+}
+
+export const THREAD_CHANNEL_LABELS: Record<ThreadChannel, string> = {
+  web: 'Hadirot',
+  sms: 'Text',
+  email: 'Email',
+};
@@ -0,0 +1,71 @@
+// Type definitions for per-category notification preferences. Categories
+// mirror supabase/functions/_shared/notificationPreferences.ts; schema lives
+// in supabase/migrations/20261018170000_notification_preferences.sql.
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new tables until `npm run db:types`.
+
+export type NotificationChannel = 'email' | 'sms';
+
+export type NotificationCategory =
+  | 'listing_updates'
+  | 'listing_expiry'
+  | 'alerts'
+  | 'weekly_reports'
+  | 'digests'
+  | 'account';
+
+/** No row means everything is on. */
+export interface NotificationPreferences {
+  user_id: string;
+  email_opt_outs: NotificationCategory[];
+  sms_opt_outs: NotificationCategory[];
+  updated_at: string;
+}
+
+export interface NotificationCategoryInfo {
+  id: NotificationCategory;
+  label: string;
+  description: string;
+  /** Channels we actually send this category on. */
+  channels: NotificationChannel[];
+}
+
+export const NOTIFICATION_CATEGORIES: NotificationCategoryInfo[] = [
+  {
+    id: 'listing_updates',
+    label: 'Listing updates',
+    description: 'When a listing is submitted, approved, edited, featured or removed',
+    channels: ['email'],
+  },
+  {
+    id: 'listing_expiry',
+    label: 'Expiry reminders',
+    description: 'Before and after a listing expires, with a link to renew',
+    channels: ['email', 'sms'],
+  },
+  {
+    id: 'alerts',
+    label: 'Search alerts',
+    description: 'New matches for your saved searches and price drops on saved listings',
+    channels: ['email', 'sms'],
+  },
+  {
+    id: 'weekly_reports',
+    label: 'Weekly reports',
+    description: 'Views and inquiries on your active listings',
+    channels: ['sms'],
+  },
+  {
+    id: 'digests',
+    label: 'Listing digests',
+    description: 'Roundups of new listings',
+    channels: ['email'],
+  },
+  {
+    id: 'account',
+    label: 'Account notices',
+    description: 'Welcome email and changes to your account permissions',
+    channels: ['email'],
+  },
+];
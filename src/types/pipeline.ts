@@ -0,0 +1,51 @@
+// Type definitions for the pipeline's call queue: the per-lead status
+// history and the source / caller / week conversion funnel
+// (supabase/migrations/20261018200000_pipeline_call_queue.sql), and the
+// issue-to-issue comparison (20261018210000_pamphlet_issue_diffing.sql).
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new tables until `npm run db:types`.
+
+import type { CallStatus, ScrapedListing } from '../config/supabase';
+
+export interface ScrapedListingStatusChange {
+  id: string;
+  scraped_listing_id: string;
+  from_status: CallStatus | null;
+  to_status: CallStatus;
+  changed_by: string | null;
+  caller_id: string | null;
+  created_at: string;
+  changed_by_profile?: { full_name: string | null } | null;
+}
+
+/** An admin who can be assigned leads to call. */
+export interface PipelineCaller {
+  id: string;
+  full_name: string | null;
+}
+
+export type PipelineFunnelDimension = 'source' | 'caller' | 'week';
+
+/** One row of admin_pipeline_funnel: leads first called in the period, and how far they got. */
+export interface PipelineFunnelRow {
+  dimension: PipelineFunnelDimension;
+  /** Source key, caller profile id ('unassigned'), or the Monday of the week (yyyy-mm-dd). */
+  bucket: string;
+  label: string;
+  called: number;
+  approved: number;
+  published: number;
+  paid: number;
+}
+
+export type ScrapeRunChange = 'new' | 'returned' | 'dropped' | 'price_changed';
+
+/** One row of admin_compare_scrape_runs: a listing that differs between two issues. */
+export interface ScrapeRunDiffRow {
+  change: ScrapeRunChange;
+  /** Price printed in each issue (from source_history); null when not in that issue. */
+  previous_price: number | null;
+  current_price: number | null;
+  listing: ScrapedListing;
+}
@@ -0,0 +1,20 @@
+// Type definitions for listing price history / price-drop tracking.
+// Schema lives in supabase/migrations/20261018020000_listing_price_history.sql.
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new table until `npm run db:types`.
+
+export interface ListingPriceChange {
+  id: string;
+  listing_id: string;
+  is_commercial: boolean;
+  listing_type: string | null;
+  /** NULL on the opening-price row and while the listing was "call for price". */
+  old_price: number | null;
+  new_price: number | null;
+  changed_at: string;
+}
+
+/** How long a drop keeps the "Price reduced" badge and counts as
+ *  "recently reduced" for sort/filter. */
+export const PRICE_REDUCED_WINDOW_DAYS = 30;
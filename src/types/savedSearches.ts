@@ -0,0 +1,40 @@
+// Type definitions + display constants for saved searches / new-match alerts.
+// Schema lives in supabase/migrations/20261018010000_saved_searches.sql.
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new tables until `npm run db:types`.
+
+import type { FilterState } from '../hooks/useBrowseFilters';
+
+export type SavedSearchMode = 'rental' | 'sale';
+export type SavedSearchChannel = 'email' | 'sms' | 'whatsapp';
+export type SavedSearchFrequency = 'instant' | 'daily' | 'weekly';
+
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  search_mode: SavedSearchMode;
+  filters: FilterState;
+  channel: SavedSearchChannel;
+  frequency: SavedSearchFrequency;
+  is_active: boolean;
+  last_notified_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Per-user cap — keeps the per-approval matching loop bounded. */
+export const MAX_SAVED_SEARCHES_PER_USER = 10;
+
+export const SAVED_SEARCH_FREQUENCY_LABELS: Record<SavedSearchFrequency, string> = {
+  instant: 'Instantly',
+  daily: 'Daily digest',
+  weekly: 'Weekly digest',
+};
+
+export const SAVED_SEARCH_CHANNEL_LABELS: Record<SavedSearchChannel, string> = {
+  email: 'Email',
+  sms: 'Text message',
+  whatsapp: 'WhatsApp',
+};
@@ -0,0 +1,33 @@
+// Type definitions for the send window (quiet hours, Shabbos, holidays).
+// Messages held back outside it live in the outbox (types/messageOutbox.ts).
+// Schema lives in supabase/migrations/20261018140000_send_window.sql.
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new tables until `npm run db:types`.
+
+export interface SendWindowPolicy {
+  timezone: string;
+  /** "HH:MM:SS", local to `timezone`. */
+  daily_start: string;
+  daily_end: string;
+  observe_shabbat: boolean;
+  latitude: number;
+  longitude: number;
+  candle_lighting_minutes: number;
+  havdalah_minutes: number;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export type SendWindowPolicyUpdate = Pick<
+  SendWindowPolicy,
+  'daily_start' | 'daily_end' | 'observe_shabbat' | 'candle_lighting_minutes' | 'havdalah_minutes'
+>;
+
+export interface SendWindowBlockedDate {
+  /** YYYY-MM-DD */
+  blocked_on: string;
+  label: string;
+  created_by: string | null;
+  created_at: string;
+}
@@ -0,0 +1,72 @@
+// Type definitions + display constants for showing (viewing) appointments.
+// Schema lives in supabase/migrations/20261018070000_showing_appointments.sql.
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new tables until `npm run db:types`.
+
+export type ShowingStatus = 'requested' | 'confirmed' | 'cancelled';
+export type ShowingRole = 'requester' | 'lister';
+
+/** A window the lister is free to show the listing, cut into equal slots. */
+export interface ShowingAvailability {
+  id: string;
+  listing_id?: string | null;
+  commercial_listing_id?: string | null;
+  starts_at: string;
+  ends_at: string;
+  slot_minutes: number;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export interface ShowingRequest {
+  id: string;
+  listing_id: string | null;
+  commercial_listing_id: string | null;
+  starts_at: string;
+  ends_at: string;
+  requester_name: string;
+  requester_phone: string;
+  requester_email: string | null;
+  message: string | null;
+  status: ShowingStatus;
+  cancelled_by: ShowingRole | null;
+  created_at: string;
+}
+
+export interface ShowingSlot {
+  starts_at: string;
+  ends_at: string;
+}
+
+/** Response of the manage-showing edge function (/showing/:token page). */
+export interface ManagedShowing {
+  role: ShowingRole;
+  /** The lister's manage token — only when managed by requestId from the dashboard. */
+  manage_token?: string;
+  showing: {
+    id: string;
+    status: ShowingStatus;
+    cancelled_by: ShowingRole | null;
+    starts_at: string;
+    ends_at: string;
+    requester_name: string;
+    requester_phone: string | null;
+    message: string | null;
+  };
+  listing: {
+    id: string;
+    is_commercial: boolean;
+    desc: string;
+    address: string | null;
+    url: string;
+  };
+}
+
+export const SHOWING_SLOT_MINUTE_OPTIONS = [15, 20, 30, 45, 60] as const;
+
+export const SHOWING_STATUS_LABELS: Record<ShowingStatus, string> = {
+  requested: 'Awaiting confirmation',
+  confirmed: 'Confirmed',
+  cancelled: 'Cancelled',
+};
@@ -0,0 +1,38 @@
+// Type definitions for the SMS consent / opt-out registry.
+// Schema lives in supabase/migrations/20261018100000_sms_consent.sql.
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new tables until `npm run db:types`.
+
+/** keyword = the number texted STOP; carrier = the provider reported a carrier opt-out (Twilio 21610, Telnyx 40300); admin = added by hand. */
+export type SmsConsentReason = 'keyword' | 'carrier' | 'admin';
+
+export interface SmsConsent {
+  phone_number: string;
+  opted_out: boolean;
+  opted_out_at: string | null;
+  opted_in_at: string | null;
+  reason: SmsConsentReason | null;
+  keyword: string | null;
+  note: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SmsConsentEvent {
+  id: string;
+  phone_number: string;
+  action: 'opt_out' | 'opt_in';
+  reason: SmsConsentReason | null;
+  keyword: string | null;
+  note: string | null;
+  actor_user_id: string | null;
+  created_at: string;
+}
+
+export const SMS_CONSENT_REASON_LABELS: Record<SmsConsentReason, string> = {
+  keyword: 'Replied STOP',
+  carrier: 'Carrier block',
+  admin: 'Added by admin',
+};
@@ -0,0 +1,108 @@
+// Type definitions for the admin SMS inbox.
+// Schema lives in supabase/migrations/20260223193848_sms_system_v2.sql
+// (sms_messages) and 20261018130000_sms_inbox.sql (admin_sms_inbox()).
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new tables until `npm run db:types`.
+
+export type SmsInboxFilter = 'all' | 'attention' | 'failed' | 'opted_out';
+
+/** One row of admin_sms_inbox(): a phone number and the state of its thread. */
+export interface SmsInboxThread {
+  phone_number: string;
+  last_activity_at: string | null;
+  last_message_body: string | null;
+  last_direction: 'inbound' | 'outbound' | null;
+  last_status: string | null;
+  message_count: number;
+  failed_count: number;
+  open_conversations: number;
+  latest_state: string | null;
+  latest_conversation_type: string | null;
+  opted_out: boolean;
+}
+
+export interface SmsMessage {
+  id: string;
+  conversation_id: string | null;
+  direction: 'inbound' | 'outbound';
+  phone_number: string;
+  message_body: string;
+  message_sid: string | null;
+  message_source: string | null;
+  listing_id: string | null;
+  /** sent / received at write time; delivered / undelivered / failed from sms-status-webhook. */
+  status: string | null;
+  /** 'whatsapp' for messages through the WhatsApp Business channel. */
+  channel: 'sms' | 'whatsapp';
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface SmsConversation {
+  id: string;
+  listing_id: string | null;
+  user_id: string | null;
+  phone_number: string;
+  batch_id: string | null;
+  listing_index: number | null;
+  total_in_batch: number | null;
+  conversation_type: string | null;
+  state: string;
+  action_taken: string | null;
+  reply_text: string | null;
+  is_commercial: boolean | null;
+  metadata: Record<string, unknown> | null;
+  resolved_by: string | null;
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A listing referenced by the thread's messages or conversations. */
+export interface SmsThreadListing {
+  id: string;
+  is_commercial: boolean;
+  title: string;
+  is_active: boolean;
+  expires_at: string | null;
+}
+
+export interface SmsThreadDetail {
+  messages: SmsMessage[];
+  conversations: SmsConversation[];
+  listings: SmsThreadListing[];
+}
+
+/** States the webhook is still waiting on a reply in (cleanup-expired-renewals times these out). */
+export const OPEN_CONVERSATION_STATES = [
+  'pending',
+  'awaiting_availability',
+  'awaiting_hadirot_question',
+  'awaiting_listing_selection',
+  'awaiting_report_response',
+  'callback_sent',
+  'awaiting_disambiguation',
+  'awaiting_showing_confirmation',
+  'awaiting_message_reply',
+];
+
+export const SMS_MESSAGE_SOURCE_LABELS: Record<string, string> = {
+  renewal_reminder: 'Renewal reminder',
+  paid_listing_reminder: 'Payment reminder',
+  contact_notification: 'Callback request',
+  boost_upsell: 'Boost offer',
+  report_rented: 'Report rented',
+  pamphlet_check: 'Pamphlet check',
+  weekly_report: 'Weekly report',
+  saved_search_alert: 'Saved search alert',
+  showing_notification: 'Viewing request',
+  message_relay: 'Message relay',
+  lister_command: 'Text command',
+  consent_confirmation: 'STOP / START reply',
+  webhook_reply: 'Reply',
+  system_response: 'Auto reply',
+  fallback_response: 'Fallback reply',
+  admin_reply: 'Admin reply',
+  whatsapp_digest: 'WhatsApp digest',
+};
@@ -0,0 +1,58 @@
+// Type definitions for the admin-editable SMS templates.
+// Schema lives in supabase/migrations/20261018120000_sms_templates.sql; the
+// edge-function side (rendering, defaults) is supabase/functions/_shared/smsTemplates.ts.
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new tables until `npm run db:types`.
+
+export interface SmsTemplate {
+  key: string;
+  name: string;
+  description: string | null;
+  body: string;
+  /** Placeholders the sending function fills in for this message. */
+  variables: string[];
+  version: number;
+  change_note: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SmsTemplateVersion {
+  id: string;
+  template_key: string;
+  version: number;
+  body: string;
+  change_note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+/** What each placeholder means, plus the value the preview uses when there's no listing to draw from. */
+export const SMS_TEMPLATE_VARIABLES: Record<string, { label: string; sample: string }> = {
+  listing: { label: 'Listing identifier', sample: '2 bd at Ave J & E 15th' },
+  price: { label: 'Price', sample: '$2,400' },
+  days_left: { label: 'Time until expiry', sample: '5 days' },
+  expires_on: { label: 'Expiry date', sample: 'Oct 23' },
+  pay_link: { label: 'Payment link', sample: 'https://hadirot.com/pay/3f9a2c' },
+  renewal_price: { label: 'Renewal price', sample: '$15' },
+  listing_count: { label: 'Number of listings', sample: '3' },
+  listing_word: { label: '"listing" / "listings"', sample: 'listings' },
+  listing_list: {
+    label: 'Numbered list of listings',
+    sample: '1. Ave J & E 15th for $2,400\n2. Kings Hwy & E 4th for $1,950\n3. Ocean Pkwy for $3,100',
+  },
+  more_count: { label: 'Listings beyond the first 10', sample: '' },
+  rented_or_sold: { label: '"rented" / "sold"', sample: 'rented' },
+  caller_name: { label: 'Caller name', sample: 'Moshe Cohen' },
+  caller_phone: { label: 'Caller phone', sample: '(718) 555-0142' },
+  listing_link: { label: 'Short listing link', sample: 'https://hadirot.com/l/x7Kp2' },
+  boost_link: { label: 'Boost checkout link', sample: 'https://hadirot.com/boost/…' },
+  source_name: { label: 'Pamphlet name', sample: 'the Luach' },
+  avg_impressions: { label: 'Avg. impressions per listing', sample: '142' },
+  avg_views: { label: 'Avg. clicks per listing', sample: '18' },
+  total_leads: { label: 'Total leads', sample: '4' },
+  total_callbacks: { label: 'Callback requests', sample: '1' },
+  total_phone_reveals: { label: 'Phone number reveals', sample: '3' },
+};
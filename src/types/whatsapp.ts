@@ -0,0 +1,37 @@
+// Type definitions for the WhatsApp Business channel. Schema lives in
+// supabase/migrations/20261018180000_whatsapp_channel.sql; senders check
+// consent in supabase/functions/_shared/whatsappConsent.ts.
+//
+// Hand-defined for the same reason as types/monetization.ts: database.ts is
+// auto-generated and won't carry the new tables until `npm run db:types`.
+
+/** One row per E.164 number; no row means never opted in. */
+export interface WhatsAppContact {
+  phone_number: string;
+  user_id: string | null;
+  /** Consent to messages Hadirot starts. */
+  opted_in: boolean;
+  receive_digest: boolean;
+  /** Renewal prompts and other messages about the user's own listings. */
+  listing_messages: boolean;
+  opted_in_at: string | null;
+  opted_out_at: string | null;
+  last_inbound_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WhatsAppPreferences {
+  optedIn: boolean;
+  receiveDigest: boolean;
+  listingMessages: boolean;
+}
+
+/** send-whatsapp-digest response. */
+export interface WhatsAppDigestResult {
+  success: boolean;
+  recipients: number;
+  sent: number;
+  deferred: number;
+  failed: number;
+}
@@ -0,0 +1,70 @@
+// Move-in / availability dates.
+//
+// listings.available_date is a plain `date` (YYYY-MM-DD). "Available now" is
+// saved as the day it was picked, so anything on or before today is
+// immediate. commercial_listings.available_date is text and can still hold
+// the legacy 'now' / 'N_days' values from the old space-details form.
+
+const LEGACY_COMMERCIAL_LABELS: Record<string, string> = {
+  now: 'Available now',
+  '30_days': 'Available within 30 days',
+  '60_days': 'Available within 60 days',
+  '90_days': 'Available within 90 days',
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Today's date in the browser's timezone as YYYY-MM-DD. */
+export function todayISODate(now: Date = new Date()): string {
+  const y = now.getFullYear();
+  const m = String(now.getMonth() + 1).padStart(2, '0');
+  const d = String(now.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+export function isAvailableNow(availableDate: string | null | undefined): boolean {
+  if (!availableDate) return false;
+  if (availableDate === 'now') return true;
+  return ISO_DATE.test(availableDate) && availableDate <= todayISODate();
+}
+
+/**
+ * "Available now", "Available Apr 1" (year added when it isn't this year),
+ * or the legacy commercial labels. Returns null when no date was given.
+ */
+export function formatAvailability(availableDate: string | null | undefined): string | null {
+  if (!availableDate) return null;
+  if (LEGACY_COMMERCIAL_LABELS[availableDate]) return LEGACY_COMMERCIAL_LABELS[availableDate];
+  if (!ISO_DATE.test(availableDate)) return null;
+  if (isAvailableNow(availableDate)) return 'Available now';
+  return `Available ${formatShortDate(availableDate)}`;
+}
+
+/** "Apr 1", or "Apr 1, 2027" outside the current year. */
+export function formatShortDate(isoDate: string): string {
+  // Parse as a local date — new Date('2026-04-01') would be UTC midnight and
+  // can render as the day before in New York.
+  const [y, m, d] = isoDate.split('-').map(Number);
+  const date = new Date(y, m - 1, d);
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    ...(y !== new Date().getFullYear() ? { year: 'numeric' } : {}),
+  });
+}
+
+/**
+ * Mirrors the available_from / available_by browse filter: immediate
+ * listings count as available today, undated listings never match.
+ */
+export function isAvailableInRange(
+  availableDate: string | null | undefined,
+  from?: string,
+  by?: string,
+): boolean {
+  if (!from && !by) return true;
+  if (!availableDate || !ISO_DATE.test(availableDate)) return false;
+  if (by && availableDate > by) return false;
+  if (from && from > todayISODate() && availableDate < from) return false;
+  return true;
+}
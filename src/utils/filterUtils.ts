@@ -1,4 +1,6 @@
 import type { FilterState, MapBounds } from '../hooks/useBrowseFilters';
+import { isPointInSearchPolygon } from './searchPolygon';
+import { isAvailableInRange } from './availability';
 
 export type { FilterState, MapBounds } from '../hooks/useBrowseFilters';
 
@@ -49,6 +51,7 @@ export interface FilterableListing {
   parking: string | null;
   neighborhood: string | null;
   lease_length?: string | null;
+  available_date?: string | null;
   latitude?: number | null;
   longitude?: number | null;
   owner?: { role: string; agency?: string | null } | null;
@@ -86,9 +89,11 @@ export function applyFilters<T extends FilterableListing>(
   const hasMinBathroomsFilter = filters.min_bathrooms != null && filters.min_bathrooms > 0;
   const hasNeighborhoodFilter = filters.neighborhoods && filters.neighborhoods.length > 0;
   const hasLeaseTermFilter = filters.lease_terms && filters.lease_terms.length > 0;
+  const hasAvailabilityFilter = !!(filters.available_from || filters.available_by);
   const hasMinPrice = filters.min_price != null;
   const hasMaxPrice = filters.max_price != null;
   const hasBoundsFilter = filters.searchBounds != null;
+  const hasPolygonFilter = filters.searchPolygon != null && filters.searchPolygon.length > 0;
 
   const hasAnyFilter =
     hasBedroomFilter ||
@@ -101,9 +106,11 @@ export function applyFilters<T extends FilterableListing>(
     filters.no_fee_only ||
     hasNeighborhoodFilter ||
     hasLeaseTermFilter ||
+    hasAvailabilityFilter ||
     filters.poster_type ||
     filters.agency_name ||
-    hasBoundsFilter;
+    hasBoundsFilter ||
+    hasPolygonFilter;
 
   if (!hasAnyFilter) return listings;
 
@@ -180,6 +187,12 @@ export function applyFilters<T extends FilterableListing>(
       }
     }
 
+    if (hasAvailabilityFilter && !isSale) {
+      if (!isAvailableInRange(listing.available_date, filters.available_from, filters.available_by)) {
+        return false;
+      }
+    }
+
     if (filters.poster_type === 'owner') {
       if (!listing.owner || (listing.owner.role !== 'landlord' && listing.owner.role !== 'tenant')) {
         return false;
@@ -201,6 +214,12 @@ export function applyFilters<T extends FilterableListing>(
       }
     }
 
+    if (hasPolygonFilter && listing.latitude != null && listing.longitude != null) {
+      if (!isPointInSearchPolygon(listing.latitude, listing.longitude, filters.searchPolygon!)) {
+        return false;
+      }
+    }
+
     return true;
   });
 }
@@ -301,6 +320,11 @@ export function getVisiblePinIds(
       continue;
     }
 
+    if (filters.searchPolygon && filters.searchPolygon.length > 0 &&
+        !isPointInSearchPolygon(pin.latitude, pin.longitude, filters.searchPolygon)) {
+      continue;
+    }
+
     visibleIds.add(pin.id);
   }
 
@@ -0,0 +1,135 @@
+// Listing export (CSV / JSON) from the dashboard and Agency Settings.
+//
+// Rentals, sales and commercial listings are flattened into one row shape so
+// a single spreadsheet covers everything the poster has. Images are listed
+// featured-first; in CSV they're joined with " | " in one column.
+
+export type ListingExportCategory = 'rental' | 'sale' | 'commercial_rental' | 'commercial_sale';
+
+export type ListingExportStatus = 'active' | 'pending_approval' | 'inactive' | 'expired';
+
+export interface ListingExportRow {
+  id: string;
+  category: ListingExportCategory;
+  title: string;
+  status: ListingExportStatus;
+  sale_status: string | null;
+  price: number | null;
+  call_for_price: boolean;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  property_type: string | null;
+  neighborhood: string | null;
+  location: string | null;
+  full_address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  available_date: string | null;
+  contact_name: string | null;
+  contact_phone: string | null;
+  is_featured: boolean;
+  direct_views: number;
+  impressions: number;
+  inquiries: number;
+  created_at: string;
+  last_published_at: string | null;
+  expires_at: string | null;
+  url: string;
+  images: string[];
+}
+
+interface ExportImage {
+  image_url: string;
+  is_featured?: boolean | null;
+  sort_order?: number | null;
+}
+
+export function sortedImageUrls(images: ExportImage[] | null | undefined): string[] {
+  return [...(images ?? [])]
+    .sort((a, b) => {
+      if (a.is_featured && !b.is_featured) return -1;
+      if (!a.is_featured && b.is_featured) return 1;
+      return (a.sort_order ?? 0) - (b.sort_order ?? 0);
+    })
+    .map((img) => img.image_url);
+}
+
+export function getExportStatus(listing: {
+  is_active: boolean;
+  approved: boolean;
+  expires_at?: string | null;
+}): ListingExportStatus {
+  if (listing.is_active && listing.approved) return 'active';
+  if (!listing.approved) return 'pending_approval';
+  if (listing.expires_at && new Date(listing.expires_at).getTime() < Date.now()) return 'expired';
+  return 'inactive';
+}
+
+const CSV_COLUMNS: (keyof ListingExportRow)[] = [
+  'id',
+  'category',
+  'title',
+  'status',
+  'sale_status',
+  'price',
+  'call_for_price',
+  'bedrooms',
+  'bathrooms',
+  'property_type',
+  'neighborhood',
+  'location',
+  'full_address',
+  'latitude',
+  'longitude',
+  'available_date',
+  'contact_name',
+  'contact_phone',
+  'is_featured',
+  'direct_views',
+  'impressions',
+  'inquiries',
+  'created_at',
+  'last_published_at',
+  'expires_at',
+  'url',
+  'images',
+];
+
+// Spreadsheets run a cell that starts with one of these as a formula
+// (=HYPERLINK(...) in a listing title), so such text gets a leading quote.
+const FORMULA_PREFIX_RE = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = Array.isArray(value) ? value.join(' | ') : String(value);
+  if (typeof value !== 'number' && FORMULA_PREFIX_RE.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function listingsToCsv(rows: ListingExportRow[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map((col) => csvCell(row[col])).join(','));
+  }
+  return lines.join('\r\n');
+}
+
+export function listingsToJson(rows: ListingExportRow[]): string {
+  return JSON.stringify({ exported_at: new Date().toISOString(), count: rows.length, listings: rows }, null, 2);
+}
+
+/** Hands a generated file to the browser as a download. */
+export function downloadTextFile(fileName: string, content: string, mimeType: string): void {
+  // Leading BOM so Excel opens UTF-8 CSVs (Hebrew names, "—") correctly.
+  const blob = new Blob([mimeType === 'text/csv' ? '\uFEFF' + content : content], {
+    type: `${mimeType};charset=utf-8`,
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
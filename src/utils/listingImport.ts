@@ -0,0 +1,490 @@
+// Bulk listing import (CSV / XLSX) for agencies.
+//
+// The spreadsheet is parsed entirely in the browser: CSV with a small
+// RFC 4180 reader, XLSX by unzipping the workbook (DecompressionStream) and
+// reading the first worksheet's XML. Columns are mapped onto IMPORT_FIELDS —
+// auto-matched by header aliases, adjustable on the mapping screen — and each
+// row is turned into an ImportDraft plus the errors the posting wizard would
+// have blocked on. Geocoding and inserts live in services/listingImport.ts.
+
+import type { HeatType, LeaseLength, ParkingType, PropertyType } from '../config/supabase';
+
+export type ImportFieldKey =
+  | 'property_type'
+  | 'bedrooms'
+  | 'bathrooms'
+  | 'price'
+  | 'call_for_price'
+  | 'cross_streets'
+  | 'neighborhood'
+  | 'contact_name'
+  | 'contact_phone'
+  | 'title'
+  | 'description'
+  | 'floor'
+  | 'square_footage'
+  | 'parking'
+  | 'heat'
+  | 'lease_length'
+  | 'available_date'
+  | 'washer_dryer_hookup'
+  | 'dishwasher'
+  | 'image_urls';
+
+export interface ImportField {
+  key: ImportFieldKey;
+  label: string;
+  required: boolean;
+  hint?: string;
+  /** Lower-cased header spellings that auto-map to this field. */
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: 'property_type', label: 'Property type', required: true, hint: 'Apartment, apartment in house, full house, duplex, basement', aliases: ['property type', 'type', 'unit type'] },
+  { key: 'bedrooms', label: 'Bedrooms', required: true, hint: 'Number, or "studio"', aliases: ['bedrooms', 'beds', 'br', 'bedroom'] },
+  { key: 'bathrooms', label: 'Bathrooms', required: true, aliases: ['bathrooms', 'baths', 'ba', 'bathroom'] },
+  { key: 'price', label: 'Monthly rent', required: true, hint: 'Leave blank or write "call" for call-for-price', aliases: ['price', 'rent', 'monthly rent', 'asking'] },
+  { key: 'call_for_price', label: 'Call for price', required: false, hint: 'yes / no', aliases: ['call for price'] },
+  { key: 'cross_streets', label: 'Cross streets', required: true, hint: 'e.g. "Avenue J & East 15th Street"', aliases: ['cross streets', 'cross street', 'intersection', 'location'] },
+  { key: 'neighborhood', label: 'Neighborhood', required: false, hint: 'Looked up from the cross streets when blank', aliases: ['neighborhood', 'neighbourhood', 'area'] },
+  { key: 'contact_name', label: 'Contact name', required: false, hint: 'Defaults to the contact below', aliases: ['contact name', 'contact', 'agent', 'agent name'] },
+  { key: 'contact_phone', label: 'Contact phone', required: false, hint: 'Defaults to the contact below', aliases: ['contact phone', 'phone', 'agent phone'] },
+  { key: 'title', label: 'Title', required: false, aliases: ['title', 'headline'] },
+  { key: 'description', label: 'Description', required: false, aliases: ['description', 'details', 'notes'] },
+  { key: 'floor', label: 'Floor', required: false, aliases: ['floor'] },
+  { key: 'square_footage', label: 'Square feet', required: false, aliases: ['square footage', 'square feet', 'sqft', 'sq ft', 'size'] },
+  { key: 'parking', label: 'Parking', required: false, hint: 'yes, included, optional, no, carport', aliases: ['parking'] },
+  { key: 'heat', label: 'Heat', required: false, hint: 'included / tenant pays', aliases: ['heat'] },
+  { key: 'lease_length', label: 'Lease length', required: false, hint: 'annual, short term, summer, winter', aliases: ['lease length', 'lease', 'lease term'] },
+  { key: 'available_date', label: 'Move-in date', required: false, hint: 'YYYY-MM-DD or "now"', aliases: ['available date', 'available', 'move in', 'move-in', 'move in date', 'move-in date'] },
+  { key: 'washer_dryer_hookup', label: 'Washer/dryer hookup', required: false, hint: 'yes / no', aliases: ['washer dryer', 'washer/dryer', 'washer dryer hookup', 'w/d'] },
+  { key: 'dishwasher', label: 'Dishwasher', required: false, hint: 'yes / no', aliases: ['dishwasher'] },
+  { key: 'image_urls', label: 'Image URLs', required: false, hint: 'https links separated by spaces, commas or "|"', aliases: ['images', 'image urls', 'photos', 'photo urls', 'pictures'] },
+];
+
+export const MAX_IMPORT_ROWS = 200;
+export const MAX_IMPORT_IMAGES_PER_ROW = 20;
+
+/** Column index per field; -1 when the field isn't mapped. */
+export type ImportColumnMapping = Record<ImportFieldKey, number>;
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportDefaults {
+  contact_name: string;
+  contact_phone: string;
+}
+
+export interface ImportDraft {
+  property_type: PropertyType | '';
+  bedrooms: number | null;
+  bathrooms: number | null;
+  price: number | null;
+  call_for_price: boolean;
+  cross_streets: string;
+  neighborhood: string;
+  contact_name: string;
+  contact_phone: string;
+  title: string;
+  description: string;
+  floor: number | null;
+  square_footage: number | null;
+  parking: ParkingType;
+  heat: HeatType;
+  lease_length: LeaseLength | null;
+  available_date: string | null;
+  washer_dryer_hookup: boolean;
+  dishwasher: boolean;
+  image_urls: string[];
+}
+
+export interface ImportRow {
+  /** 1-based spreadsheet row number (header is row 1). */
+  rowNumber: number;
+  draft: ImportDraft;
+  errors: string[];
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+/** RFC 4180: quoted fields, doubled quotes, embedded newlines, CRLF or LF. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Minimal zip reader: returns the named entries (stored or deflated). */
+async function readZipEntries(buffer: ArrayBuffer, wanted: (name: string) => boolean): Promise<Map<string, string>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid .xlsx file');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, string>();
+
+  for (let n = 0; n < entryCount; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!wanted(name)) continue;
+
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      entries.set(name, decoder.decode(raw));
+    } else if (method === 8) {
+      entries.set(name, decoder.decode(await inflateRaw(raw)));
+    }
+  }
+  return entries;
+}
+
+function columnIndexFromRef(ref: string): number {
+  const letters = ref.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+/** First worksheet of an .xlsx workbook as a grid of strings. */
+export async function parseXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const entries = await readZipEntries(
+    buffer,
+    (name) => name === 'xl/sharedStrings.xml' || name.startsWith('xl/worksheets/sheet'),
+  );
+  const sheetName = [...entries.keys()]
+    .filter((name) => name.startsWith('xl/worksheets/sheet'))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))[0];
+  if (!sheetName) throw new Error('The workbook has no worksheets');
+
+  const parser = new DOMParser();
+  const shared: string[] = [];
+  const sharedXml = entries.get('xl/sharedStrings.xml');
+  if (sharedXml) {
+    const doc = parser.parseFromString(sharedXml, 'application/xml');
+    for (const si of Array.from(doc.getElementsByTagName('si'))) {
+      shared.push(Array.from(si.getElementsByTagName('t')).map((t) => t.textContent ?? '').join(''));
+    }
+  }
+
+  const sheet = parser.parseFromString(entries.get(sheetName)!, 'application/xml');
+  const grid: string[][] = [];
+  for (const rowEl of Array.from(sheet.getElementsByTagName('row'))) {
+    const rowIndex = Number(rowEl.getAttribute('r') ?? grid.length + 1) - 1;
+    const cells: string[] = [];
+    for (const c of Array.from(rowEl.getElementsByTagName('c'))) {
+      const ref = c.getAttribute('r');
+      const col = ref ? columnIndexFromRef(ref) : cells.length;
+      const type = c.getAttribute('t');
+      const v = c.getElementsByTagName('v')[0]?.textContent ?? '';
+      let value: string;
+      if (type === 's') value = shared[Number(v)] ?? '';
+      else if (type === 'inlineStr') value = Array.from(c.getElementsByTagName('t')).map((t) => t.textContent ?? '').join('');
+      else if (type === 'b') value = v === '1' ? 'TRUE' : 'FALSE';
+      else value = v;
+      while (cells.length < col) cells.push('');
+      cells[col] = value;
+    }
+    grid[rowIndex] = cells;
+  }
+  return Array.from(grid, (row) => row ?? []);
+}
+
+/** Reads a .csv or .xlsx upload into headers + non-blank data rows. */
+export async function readImportFile(file: File): Promise<ImportSheet> {
+  const name = file.name.toLowerCase();
+  let grid: string[][];
+  if (name.endsWith('.xlsx')) {
+    grid = await parseXlsx(await file.arrayBuffer());
+  } else if (name.endsWith('.csv') || file.type === 'text/csv') {
+    grid = parseCsv(await file.text());
+  } else {
+    throw new Error('Upload a .csv or .xlsx file');
+  }
+
+  const nonBlank = grid.filter((row) => row.some((cell) => cell.trim() !== ''));
+  if (nonBlank.length < 2) {
+    throw new Error('The file needs a header row and at least one listing');
+  }
+  const [headers, ...rows] = nonBlank;
+  return { headers: headers.map((h) => h.trim()), rows };
+}
+
+// ─── Mapping ─────────────────────────────────────────────────────────────────
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export function autoMapColumns(headers: string[]): ImportColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ImportColumnMapping;
+  for (const field of IMPORT_FIELDS) {
+    const index = normalized.findIndex(
+      (h, i) => !used.has(i) && (h === normalizeHeader(field.key) || field.aliases.includes(h)),
+    );
+    mapping[field.key] = index;
+    if (index >= 0) used.add(index);
+  }
+  return mapping;
+}
+
+const PROPERTY_TYPE_ALIASES: Record<string, PropertyType> = {
+  'apartment': 'apartment_building',
+  'apartment building': 'apartment_building',
+  'apt': 'apartment_building',
+  'apartment in house': 'apartment_house',
+  'apartment house': 'apartment_house',
+  'house apartment': 'apartment_house',
+  'full house': 'full_house',
+  'house': 'full_house',
+  'duplex': 'duplex',
+  'basement': 'basement',
+  'basement apartment': 'basement',
+};
+
+const PARKING_VALUES: ParkingType[] = ['yes', 'included', 'optional', 'no', 'carport'];
+
+const LEASE_ALIASES: Record<string, LeaseLength> = {
+  'annual': 'long_term_annual',
+  'long term': 'long_term_annual',
+  'long term annual': 'long_term_annual',
+  'yearly': 'long_term_annual',
+  '1 year': 'long_term_annual',
+  '12 months': 'long_term_annual',
+  'short term': 'short_term',
+  'summer': 'summer_rental',
+  'summer rental': 'summer_rental',
+  'winter': 'winter_rental',
+  'winter rental': 'winter_rental',
+};
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'x'];
+const FALSE_VALUES = ['no', 'n', 'false', '0', ''];
+
+function normalizeToken(value: string): string {
+  return value.toLowerCase().replace(/[_\-/]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function parseNumber(value: string): number | null {
+  const cleaned = value.replace(/[$,\s]/g, '').replace(/\+$/, '');
+  if (!cleaned) return null;
+  const n = Number(cleaned);
+  return isFinite(n) ? n : null;
+}
+
+/** Excel stores dates as days since 1899-12-30 when the cell is date-formatted. */
+function excelSerialToISODate(serial: number): string {
+  const ms = Math.round((serial - 25569) * 86400 * 1000);
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/** YYYY-MM-DD, or null when blank, or undefined when it can't be read. */
+function parseAvailableDate(value: string, today: string): string | null | undefined {
+  const v = value.trim();
+  if (!v) return null;
+  if (/^(now|immediate(ly)?|asap)$/i.test(v)) return today;
+
+  let iso: string | undefined;
+  const us = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(v)) iso = v;
+  else if (us) iso = `${us[3].length === 2 ? `20${us[3]}` : us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  else if (/^\d{5}(\.\d+)?$/.test(v)) iso = excelSerialToISODate(Number(v));
+
+  if (!iso || isNaN(new Date(`${iso}T00:00:00Z`).getTime())) return undefined;
+  return iso;
+}
+
+/** Splits on whitespace, commas, semicolons and pipes. */
+function parseImageUrls(value: string): string[] {
+  return value.split(/[\s,;|]+/).map((s) => s.trim()).filter(Boolean);
+}
+
+function cell(row: string[], mapping: ImportColumnMapping, key: ImportFieldKey): string {
+  const index = mapping[key];
+  return index >= 0 ? (row[index] ?? '').trim() : '';
+}
+
+/**
+ * Turns one spreadsheet row into a listing draft and collects the errors the
+ * posting wizard would block on. Geocoding happens later, so a missing
+ * neighborhood is only an error once the lookup has also come up empty.
+ */
+export function buildImportRow(
+  row: string[],
+  rowNumber: number,
+  mapping: ImportColumnMapping,
+  defaults: ImportDefaults,
+  today: string,
+): ImportRow {
+  const errors: string[] = [];
+  const get = (key: ImportFieldKey) => cell(row, mapping, key);
+
+  const rawType = normalizeToken(get('property_type'));
+  // normalizeToken turns the enum spellings (apartment_house) into the
+  // alias spellings (apartment house), so one lookup covers both.
+  const property_type: PropertyType | '' = PROPERTY_TYPE_ALIASES[rawType] ?? '';
+  if (!rawType) errors.push('Property type is required');
+  else if (!property_type) errors.push(`Unknown property type "${get('property_type')}"`);
+
+  const rawBedrooms = get('bedrooms');
+  const bedrooms = /^studio$/i.test(rawBedrooms) ? 0 : parseNumber(rawBedrooms);
+  if (bedrooms === null) errors.push('Bedrooms is required');
+  else if (!Number.isInteger(bedrooms) || bedrooms < 0 || bedrooms > 20) errors.push(`Invalid bedrooms "${rawBedrooms}"`);
+
+  const bathrooms = parseNumber(get('bathrooms'));
+  if (bathrooms === null || bathrooms <= 0) errors.push('Bathrooms must be greater than 0');
+
+  const rawPrice = get('price');
+  const call_for_price = TRUE_VALUES.includes(get('call_for_price').toLowerCase()) || /^call/i.test(rawPrice);
+  const price = call_for_price ? null : parseNumber(rawPrice);
+  if (!call_for_price && (price === null || price <= 0)) {
+    errors.push(rawPrice ? `Invalid price "${rawPrice}"` : 'Price is required (or mark call for price)');
+  }
+
+  const cross_streets = get('cross_streets').replace(/\s+(and|\/)\s+/i, ' & ');
+  if (!cross_streets) errors.push('Cross streets are required');
+
+  const contact_name = get('contact_name') || defaults.contact_name.trim();
+  const contact_phone = get('contact_phone') || defaults.contact_phone.trim();
+  if (!contact_name) errors.push('Contact name is required');
+  if (!contact_phone) errors.push('Contact phone is required');
+  else if (contact_phone.replace(/\D/g, '').length < 10) errors.push(`Invalid contact phone "${contact_phone}"`);
+
+  const rawParking = normalizeToken(get('parking'));
+  let parking: ParkingType = 'no';
+  if (rawParking) {
+    if ((PARKING_VALUES as string[]).includes(rawParking)) parking = rawParking as ParkingType;
+    else if (TRUE_VALUES.includes(rawParking)) parking = 'yes';
+    else if (!FALSE_VALUES.includes(rawParking)) errors.push(`Unknown parking value "${get('parking')}"`);
+  }
+
+  const rawHeat = normalizeToken(get('heat'));
+  let heat: HeatType = 'tenant_pays';
+  if (rawHeat) {
+    if (rawHeat === 'included' || TRUE_VALUES.includes(rawHeat)) heat = 'included';
+    else if (!['tenant pays', 'tenant', 'not included', ...FALSE_VALUES].includes(rawHeat)) {
+      errors.push(`Unknown heat value "${get('heat')}"`);
+    }
+  }
+
+  const rawLease = normalizeToken(get('lease_length'));
+  const lease_length = rawLease ? LEASE_ALIASES[rawLease] ?? null : null;
+  if (rawLease && !lease_length) errors.push(`Unknown lease length "${get('lease_length')}"`);
+
+  const available_date = parseAvailableDate(get('available_date'), today);
+  if (available_date === undefined) errors.push(`Invalid move-in date "${get('available_date')}"`);
+
+  const image_urls = parseImageUrls(get('image_urls'));
+  if (image_urls.some((url) => !/^https:\/\//i.test(url))) errors.push('Image URLs must start with https://');
+  if (image_urls.length > MAX_IMPORT_IMAGES_PER_ROW) errors.push(`At most ${MAX_IMPORT_IMAGES_PER_ROW} images per listing`);
+
+  return {
+    rowNumber,
+    errors,
+    draft: {
+      property_type,
+      bedrooms,
+      bathrooms,
+      price,
+      call_for_price,
+      cross_streets,
+      neighborhood: get('neighborhood'),
+      contact_name,
+      contact_phone,
+      title: get('title'),
+      description: get('description'),
+      floor: parseNumber(get('floor')),
+      square_footage: parseNumber(get('square_footage')),
+      parking,
+      heat,
+      lease_length,
+      available_date: available_date ?? null,
+      washer_dryer_hookup: TRUE_VALUES.includes(get('washer_dryer_hookup').toLowerCase()),
+      dishwasher: TRUE_VALUES.includes(get('dishwasher').toLowerCase()),
+      image_urls,
+    },
+  };
+}
+
+/** Same auto-title the wizard uses when the poster leaves the title blank. */
+export function importDraftTitle(draft: ImportDraft, neighborhood: string): string {
+  if (draft.title) return draft.title;
+  const typeLabels: Record<string, string> = {
+    apartment_building: 'Apartment',
+    apartment_house: 'Apartment',
+    full_house: 'Full House',
+    duplex: 'Duplex',
+    basement: 'Basement Apt',
+  };
+  const bedroomLabel = draft.bedrooms === 0 ? 'Studio' : `${draft.bedrooms} BR`;
+  const typeLabel = typeLabels[draft.property_type] || '';
+  const locationPart = neighborhood || draft.cross_streets;
+  return [bedroomLabel, typeLabel, locationPart ? `— ${locationPart}` : ''].filter(Boolean).join(' ');
+}
@@ -0,0 +1,139 @@
+// Open-house slots: New York wall-clock conversion, display labels and the
+// .ics "add to calendar" file.
+//
+// open_houses.starts_at / ends_at are timestamptz. Slots are always entered
+// and shown in America/New_York regardless of the browser's timezone — an
+// open house on 13th Ave is at 1 PM Brooklyn time for everyone.
+
+import type { OpenHouse } from '../config/supabase';
+import { downloadTextFile } from './listingExport';
+
+export const OPEN_HOUSE_TIME_ZONE = 'America/New_York';
+
+/** Minutes New York is ahead of UTC at `at` (negative: -240 / -300). */
+function nyOffsetMinutes(at: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: OPEN_HOUSE_TIME_ZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(at);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+  return Math.round((asUtc - Math.floor(at.getTime() / 60000) * 60000) / 60000);
+}
+
+/** "2026-10-19" + "13:00" in New York → ISO timestamp. */
+export function nyLocalToISO(date: string, time: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  const [hh, mm] = time.split(':').map(Number);
+  const wallClock = Date.UTC(y, m - 1, d, hh, mm);
+  const offset = nyOffsetMinutes(new Date(wallClock));
+  let ts = wallClock - offset * 60000;
+  // The guess used the offset at the wall-clock instant; re-check in case
+  // that sits on the other side of a DST switch.
+  const corrected = nyOffsetMinutes(new Date(ts));
+  if (corrected !== offset) ts = wallClock - corrected * 60000;
+  return new Date(ts).toISOString();
+}
+
+/** Today's date in New York as YYYY-MM-DD (min for the date picker). */
+export function todayInNewYork(now: Date = new Date()): string {
+  return now.toLocaleDateString('en-CA', { timeZone: OPEN_HOUSE_TIME_ZONE });
+}
+
+function formatTime(iso: string, withPeriod = true): string {
+  const label = new Date(iso).toLocaleTimeString('en-US', {
+    timeZone: OPEN_HOUSE_TIME_ZONE,
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+  const trimmed = label.replace(':00', '');
+  return withPeriod ? trimmed : trimmed.replace(/\s?[AP]M$/, '');
+}
+
+/** "1 – 3 PM", "11 AM – 1 PM". */
+export function formatOpenHouseTimeRange(slot: Pick<OpenHouse, 'starts_at' | 'ends_at'>): string {
+  const start = formatTime(slot.starts_at);
+  const end = formatTime(slot.ends_at);
+  const samePeriod = start.slice(-2) === end.slice(-2);
+  return `${samePeriod ? formatTime(slot.starts_at, false) : start} – ${end}`;
+}
+
+/** "Sun, Oct 19" */
+export function formatOpenHouseDay(slot: Pick<OpenHouse, 'starts_at'>): string {
+  return new Date(slot.starts_at).toLocaleDateString('en-US', {
+    timeZone: OPEN_HOUSE_TIME_ZONE,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+/** Compact badge label: "Open house Sun 1 – 3 PM". */
+export function formatOpenHouseBadge(slot: Pick<OpenHouse, 'starts_at' | 'ends_at'>): string {
+  const weekday = new Date(slot.starts_at).toLocaleDateString('en-US', {
+    timeZone: OPEN_HOUSE_TIME_ZONE,
+    weekday: 'short',
+  });
+  return `Open house ${weekday} ${formatOpenHouseTimeRange(slot)}`;
+}
+
+// ----------------------------------------------------------------------------
+// iCalendar (RFC 5545)
+// ----------------------------------------------------------------------------
+
+function icsDate(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function icsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Lines longer than 75 characters are folded with CRLF + space. */
+function foldLine(line: string): string {
+  if (line.length <= 75) return line;
+  const chunks: string[] = [];
+  for (let i = 0; i < line.length; i += 74) {
+    chunks.push(line.slice(i, i + 74));
+  }
+  return chunks.join('\r\n ');
+}
+
+export interface OpenHouseEventDetails {
+  title: string;
+  location?: string | null;
+  url: string;
+}
+
+export function buildOpenHouseIcs(slot: OpenHouse, event: OpenHouseEventDetails): string {
+  const description = [slot.notes, event.url].filter(Boolean).join('\n\n');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Hadirot//Open House//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:open-house-${slot.id}@hadirot.com`,
+    `DTSTAMP:${icsDate(new Date().toISOString())}`,
+    `DTSTART:${icsDate(slot.starts_at)}`,
+    `DTEND:${icsDate(slot.ends_at)}`,
+    `SUMMARY:${icsText(`Open house: ${event.title}`)}`,
+    event.location ? `LOCATION:${icsText(event.location)}` : '',
+    `DESCRIPTION:${icsText(description)}`,
+    `URL:${event.url}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].filter(Boolean);
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function downloadOpenHouseIcs(slot: OpenHouse, event: OpenHouseEventDetails): void {
+  const day = new Date(slot.starts_at).toLocaleDateString('en-CA', { timeZone: OPEN_HOUSE_TIME_ZONE });
+  downloadTextFile(`open-house-${day}.ics`, buildOpenHouseIcs(slot, event), 'text/calendar');
+}
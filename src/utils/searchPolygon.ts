@@ -0,0 +1,165 @@
+// Polygon search shapes for the browse map.
+//
+// A SearchPolygon is a list of rings, each ring a list of [lng, lat] vertices
+// (GeoJSON order, not closed). A point matches when it falls inside ANY ring,
+// so a freehand drawing is one ring and "Williamsburg + 11211" is several.
+// The same shape is sent to the listings_in_search_polygon() RPCs and kept in
+// the `poly` URL param so shared links reproduce the search.
+
+export type SearchPolygonRing = [number, number][];
+export type SearchPolygon = SearchPolygonRing[];
+
+interface PolygonBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// Mirrored in search_polygon_shapes() — the server ignores rings past 20.
+export const MAX_SEARCH_POLYGON_RINGS = 20;
+// Keeps URLs and RPC payloads small; freehand strokes and census ZIP
+// boundaries are downsampled to this many vertices per ring.
+export const MAX_SEARCH_POLYGON_VERTICES = 150;
+
+const COORD_DECIMALS = 5; // ~1m at NYC latitudes
+
+function roundCoord(value: number): number {
+  const factor = 10 ** COORD_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Rounds, drops the closing vertex and consecutive duplicates, and
+ * downsamples to MAX_SEARCH_POLYGON_VERTICES. Returns null when fewer than
+ * three distinct vertices remain.
+ */
+export function normalizeSearchPolygonRing(ring: SearchPolygonRing): SearchPolygonRing | null {
+  const cleaned: SearchPolygonRing = [];
+  for (const [lng, lat] of ring) {
+    if (!isFinite(lng) || !isFinite(lat)) continue;
+    const vertex: [number, number] = [roundCoord(lng), roundCoord(lat)];
+    const prev = cleaned[cleaned.length - 1];
+    if (prev && prev[0] === vertex[0] && prev[1] === vertex[1]) continue;
+    cleaned.push(vertex);
+  }
+
+  if (cleaned.length > 1) {
+    const first = cleaned[0];
+    const last = cleaned[cleaned.length - 1];
+    if (first[0] === last[0] && first[1] === last[1]) cleaned.pop();
+  }
+
+  let result = cleaned;
+  if (result.length > MAX_SEARCH_POLYGON_VERTICES) {
+    const step = result.length / MAX_SEARCH_POLYGON_VERTICES;
+    const sampled: SearchPolygonRing = [];
+    for (let i = 0; i < MAX_SEARCH_POLYGON_VERTICES; i++) {
+      sampled.push(result[Math.floor(i * step)]);
+    }
+    result = sampled;
+  }
+
+  return result.length >= 3 ? result : null;
+}
+
+/** Unions shapes, keeping at most MAX_SEARCH_POLYGON_RINGS rings. */
+export function mergeSearchPolygons(...polygons: (SearchPolygon | null | undefined)[]): SearchPolygon {
+  const rings: SearchPolygon = [];
+  for (const polygon of polygons) {
+    for (const ring of polygon ?? []) {
+      const normalized = normalizeSearchPolygonRing(ring);
+      if (normalized) rings.push(normalized);
+    }
+  }
+  return rings.slice(0, MAX_SEARCH_POLYGON_RINGS);
+}
+
+/** `lng,lat;lng,lat;…` per ring, rings separated by `|`. */
+export function encodeSearchPolygon(polygon: SearchPolygon): string {
+  return polygon
+    .map((ring) => ring.map(([lng, lat]) => `${lng},${lat}`).join(';'))
+    .join('|');
+}
+
+export function decodeSearchPolygon(value: string | null | undefined): SearchPolygon | null {
+  if (!value) return null;
+  const rings: SearchPolygon = [];
+  for (const ringStr of value.split('|')) {
+    const ring: SearchPolygonRing = [];
+    for (const vertexStr of ringStr.split(';')) {
+      const [lngStr, latStr] = vertexStr.split(',');
+      const lng = parseFloat(lngStr);
+      const lat = parseFloat(latStr);
+      if (isNaN(lng) || isNaN(lat)) continue;
+      ring.push([lng, lat]);
+    }
+    rings.push(ring);
+  }
+  const merged = mergeSearchPolygons(rings);
+  return merged.length > 0 ? merged : null;
+}
+
+export function getSearchPolygonBounds(polygon: SearchPolygon): PolygonBounds | null {
+  let north = -Infinity;
+  let south = Infinity;
+  let east = -Infinity;
+  let west = Infinity;
+  for (const ring of polygon) {
+    for (const [lng, lat] of ring) {
+      north = Math.max(north, lat);
+      south = Math.min(south, lat);
+      east = Math.max(east, lng);
+      west = Math.min(west, lng);
+    }
+  }
+  if (!isFinite(north) || !isFinite(south) || !isFinite(east) || !isFinite(west)) return null;
+  return { north, south, east, west };
+}
+
+/** Even-odd ray cast against each ring; true if inside any of them. */
+export function isPointInSearchPolygon(lat: number, lng: number, polygon: SearchPolygon): boolean {
+  return polygon.some((ring) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  });
+}
+
+/**
+ * Converts a GeoJSON Polygon / MultiPolygon (as returned by
+ * get-neighborhood-polygon and get-zipcode-polygon) to a SearchPolygon.
+ * Only outer rings are kept — holes are rare in neighborhood and ZIP
+ * boundaries and not worth a more complex encoding.
+ */
+export function geoJsonToSearchPolygon(geometry: { type: string; coordinates: unknown } | null | undefined): SearchPolygon | null {
+  if (!geometry || !Array.isArray(geometry.coordinates)) return null;
+  let outerRings: SearchPolygonRing[] = [];
+  if (geometry.type === 'Polygon') {
+    outerRings = [(geometry.coordinates as SearchPolygonRing[])[0]];
+  } else if (geometry.type === 'MultiPolygon') {
+    outerRings = (geometry.coordinates as SearchPolygonRing[][]).map((polygon) => polygon[0]);
+  }
+  const merged = mergeSearchPolygons(outerRings.filter(Array.isArray));
+  return merged.length > 0 ? merged : null;
+}
+
+export function searchPolygonToGeoJson(polygon: SearchPolygon) {
+  return {
+    type: 'FeatureCollection' as const,
+    features: polygon.map((ring) => ({
+      type: 'Feature' as const,
+      properties: {},
+      geometry: {
+        type: 'Polygon' as const,
+        coordinates: [[...ring, ring[0]]],
+      },
+    })),
+  };
+}
@@ -0,0 +1,58 @@
+// Showing slots: cut availability windows into bookable slots and label them.
+//
+// Must stay in step with isSlotInAvailability in
+// supabase/functions/_shared/showings.ts — a slot starts on a slot_minutes
+// boundary from the window start and ends one slot later, inside the window.
+// Times are shown in New York time, same as open houses.
+
+import type { ShowingAvailability, ShowingSlot } from '../types/showings';
+import { OPEN_HOUSE_TIME_ZONE } from './openHouses';
+
+/** Upcoming free slots across all windows, soonest first. */
+export function buildShowingSlots(
+  windows: ShowingAvailability[],
+  busy: ShowingSlot[],
+  now: Date = new Date(),
+): ShowingSlot[] {
+  const taken = new Set(busy.map((b) => new Date(b.starts_at).getTime()));
+  const slots: ShowingSlot[] = [];
+
+  for (const w of windows) {
+    const slotMs = w.slot_minutes * 60 * 1000;
+    const end = new Date(w.ends_at).getTime();
+    for (let start = new Date(w.starts_at).getTime(); start + slotMs <= end; start += slotMs) {
+      if (start <= now.getTime() || taken.has(start)) continue;
+      slots.push({
+        starts_at: new Date(start).toISOString(),
+        ends_at: new Date(start + slotMs).toISOString(),
+      });
+    }
+  }
+
+  return slots.sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+}
+
+/** New York calendar day (YYYY-MM-DD) of a slot — used to group slots by day. */
+export function showingSlotDay(slot: Pick<ShowingSlot, 'starts_at'>): string {
+  return new Date(slot.starts_at).toLocaleDateString('en-CA', { timeZone: OPEN_HOUSE_TIME_ZONE });
+}
+
+/** "1:30 PM" */
+export function formatShowingTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('en-US', {
+    timeZone: OPEN_HOUSE_TIME_ZONE,
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/** "Sun, Oct 19 at 1:30 PM" — matches the SMS wording. */
+export function formatShowingWhen(iso: string): string {
+  const day = new Date(iso).toLocaleDateString('en-US', {
+    timeZone: OPEN_HOUSE_TIME_ZONE,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+  return `${day} at ${formatShowingTime(iso)}`;
+}
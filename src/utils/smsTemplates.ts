@@ -0,0 +1,120 @@
+// SMS template preview helpers for the admin editor.
+//
+// renderSmsTemplate must stay in step with the one in
+// supabase/functions/_shared/smsTemplates.ts — a line is dropped when any
+// placeholder on it renders blank, unknown placeholders are left as-is.
+
+import { SMS_TEMPLATE_VARIABLES } from '../types/smsTemplates';
+
+export type SmsTemplateVars = Record<string, string | number | null | undefined>;
+
+const PLACEHOLDER_RE = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+export function renderSmsTemplate(body: string, vars: SmsTemplateVars): string {
+  const valueOf = (name: string): string | null => {
+    if (!(name in vars)) return null;
+    const value = vars[name];
+    return value === null || value === undefined ? '' : String(value);
+  };
+
+  return body
+    .split('\n')
+    .filter((line) => {
+      for (const match of line.matchAll(PLACEHOLDER_RE)) {
+        if (valueOf(match[1]) === '') return false;
+      }
+      return true;
+    })
+    .map((line) => line.replace(PLACEHOLDER_RE, (whole, name: string) => valueOf(name) ?? whole))
+    .join('\n');
+}
+
+/** Distinct placeholder names used in a body, in order of appearance. */
+export function findPlaceholders(body: string): string[] {
+  return [...new Set([...body.matchAll(PLACEHOLDER_RE)].map((m) => m[1]))];
+}
+
+// GSM 03.38 basic set, plus the extension table (each of those costs two
+// septets). Anything else forces the whole message into UCS-2.
+const GSM7_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM7_EXTENDED = '^{}\\[~]|€\f';
+
+export interface SmsSegmentInfo {
+  encoding: 'GSM-7' | 'UCS-2';
+  /** Characters as carriers count them (septets for GSM-7, UTF-16 units for UCS-2). */
+  length: number;
+  segments: number;
+  /** Characters per segment at this length. */
+  perSegment: number;
+  /** Distinct characters that forced UCS-2. */
+  nonGsmChars: string[];
+}
+
+export function analyzeSmsSegments(text: string): SmsSegmentInfo {
+  const nonGsm = new Set<string>();
+  let septets = 0;
+  for (const ch of text) {
+    if (GSM7_BASIC.includes(ch)) septets += 1;
+    else if (GSM7_EXTENDED.includes(ch)) septets += 2;
+    else nonGsm.add(ch);
+  }
+
+  if (nonGsm.size === 0) {
+    const perSegment = septets <= 160 ? 160 : 153;
+    return { encoding: 'GSM-7', length: septets, segments: Math.max(1, Math.ceil(septets / perSegment)), perSegment, nonGsmChars: [] };
+  }
+
+  const units = text.length;
+  const perSegment = units <= 70 ? 70 : 67;
+  return { encoding: 'UCS-2', length: units, segments: Math.max(1, Math.ceil(units / perSegment)), perSegment, nonGsmChars: [...nonGsm] };
+}
+
+export interface PreviewListing {
+  id: string;
+  listing_type: string;
+  bedrooms: number | null;
+  location: string | null;
+  neighborhood: string | null;
+  cross_street_a: string | null;
+  cross_street_b: string | null;
+  price: number | null;
+  asking_price: number | null;
+  call_for_price: boolean | null;
+  expires_at: string | null;
+}
+
+/**
+ * Preview values for a real listing. The senders each word the listing a
+ * little differently, so this is the common shape ("2 bd at Ave J & E 15th");
+ * values a listing can't supply fall back to the samples.
+ */
+export function buildPreviewVariables(listing: PreviewListing | null, siteUrl: string): SmsTemplateVars {
+  const vars: SmsTemplateVars = Object.fromEntries(
+    Object.entries(SMS_TEMPLATE_VARIABLES).map(([name, v]) => [name, v.sample]),
+  );
+  if (!listing) return vars;
+
+  const isSale = listing.listing_type === 'sale';
+  const place =
+    listing.cross_street_a && listing.cross_street_b
+      ? `${listing.cross_street_a} & ${listing.cross_street_b}`
+      : listing.location || listing.neighborhood || 'your listing';
+  const amount = isSale ? listing.asking_price : listing.price;
+
+  vars.listing = `${listing.bedrooms === 0 ? 'Studio' : `${listing.bedrooms} bd`} at ${place}`;
+  vars.price = listing.call_for_price || !amount ? 'Call for price' : `$${amount.toLocaleString()}`;
+  vars.rented_or_sold = isSale ? 'sold' : 'rented';
+  vars.boost_link = `${siteUrl}/boost/${listing.id}`;
+  if (listing.expires_at) {
+    const days = Math.max(1, Math.ceil((new Date(listing.expires_at).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+    vars.days_left = `${days} day${days === 1 ? '' : 's'}`;
+    vars.expires_on = new Date(listing.expires_at).toLocaleDateString('en-US', {
+      timeZone: 'America/New_York',
+      month: 'short',
+      day: 'numeric',
+    });
+  }
+  return vars;
+}
@@ -0,0 +1,252 @@
+// Server-side twin of the Digest Manager's WhatsApp digest: the listing-group
+// query and collection links from src/services/digest.ts and the text layout
+// from src/utils/whatsappFormatter.ts. Used by send-subscriber-digests, which
+// builds each subscriber's digest from an admin's digest template.
+//
+// Keep the two in sync: a subscriber's digest should read exactly like the
+// preview the admin gets from the same template. Residential listings only —
+// digest_sent_listings (the dedup) references listings.
+
+// deno-lint-ignore no-explicit-any
+type SupabaseLike = any;
+
+const SITE_URL = "https://hadirot.com";
+
+/** src/services/digest.ts ListingGroup */
+export interface DigestListingGroup {
+  id: string;
+  enabled: boolean;
+  limit: number;
+  // deno-lint-ignore no-explicit-any
+  filters: Record<string, any>;
+  time_filter: string;
+  kind?: "residential" | "commercial";
+}
+
+/** src/services/digest.ts CollectionConfig */
+export interface DigestCollectionConfig {
+  id: string;
+  enabled: boolean;
+  label: string;
+  // deno-lint-ignore no-explicit-any
+  filters: Record<string, any>;
+  cta_format: string;
+  order: number;
+}
+
+export interface DigestCollectionLink {
+  label: string;
+  url: string;
+}
+
+export interface DigestListing {
+  id: string;
+  listing_type: "rental" | "sale";
+  price: number | null;
+  asking_price: number | null;
+  call_for_price: boolean | null;
+  bedrooms: number;
+  bathrooms: number;
+  broker_fee: boolean | null;
+  property_type: string | null;
+  neighborhood: string | null;
+  location: string | null;
+  cross_streets: string | null;
+  created_at: string;
+  owner?: { agency: string | null } | null;
+}
+
+export const DIGEST_LISTING_SELECT =
+  "id, listing_type, price, asking_price, call_for_price, bedrooms, bathrooms, broker_fee, property_type, neighborhood, location, cross_streets, created_at, owner:profiles!listings_user_id_fkey(agency)";
+
+export const TIME_FILTER_HOURS: Record<string, number> = {
+  "24h": 24,
+  "48h": 48,
+  "3d": 72,
+  "7d": 168,
+  "14d": 336,
+  "30d": 720,
+};
+
+/** The filters fetchListingsByGroup / getCollectionCount apply, on any listings query. */
+// deno-lint-ignore no-explicit-any
+export function applyDigestFilters(query: any, filters: Record<string, any>): any {
+  if (filters.listing_type) {
+    query = query.eq("listing_type", filters.listing_type);
+  }
+  if (filters.bedrooms !== undefined) {
+    query = Array.isArray(filters.bedrooms)
+      ? query.in("bedrooms", filters.bedrooms)
+      : query.eq("bedrooms", filters.bedrooms);
+  }
+  if (filters.property_type) {
+    query = Array.isArray(filters.property_type)
+      ? query.in("property_type", filters.property_type)
+      : query.eq("property_type", filters.property_type);
+  }
+  // Rentals price on `price`, sales on `asking_price`.
+  if (filters.price_min !== undefined) {
+    if (filters.listing_type === "sale") query = query.gte("asking_price", filters.price_min);
+    else if (filters.listing_type === "rental") query = query.gte("price", filters.price_min);
+    else query = query.or(`price.gte.${filters.price_min},asking_price.gte.${filters.price_min}`);
+  }
+  if (filters.price_max !== undefined) {
+    if (filters.listing_type === "sale") query = query.lte("asking_price", filters.price_max);
+    else if (filters.listing_type === "rental") query = query.lte("price", filters.price_max);
+    else query = query.or(`price.lte.${filters.price_max},asking_price.lte.${filters.price_max}`);
+  }
+  if (filters.broker_fee !== undefined) {
+    query = query.eq("broker_fee", filters.broker_fee);
+  }
+  if (filters.parking !== undefined && filters.parking !== null && filters.parking !== "") {
+    query = query.eq("parking", filters.parking);
+  }
+  if (filters.location) {
+    query = Array.isArray(filters.location)
+      ? query.in("location", filters.location)
+      : query.eq("location", filters.location);
+  }
+  if (filters.neighborhood) {
+    query = Array.isArray(filters.neighborhood)
+      ? query.in("neighborhood", filters.neighborhood)
+      : query.eq("neighborhood", filters.neighborhood);
+  }
+  return query;
+}
+
+// ------------------------------------------------------------------
+// Collection links
+// ------------------------------------------------------------------
+
+/** Exact under 10, otherwise rounded to the nearest 5 with a "+". */
+function formatCollectionCount(count: number): string {
+  return count < 10 ? count.toString() : `${Math.round(count / 5) * 5}+`;
+}
+
+/** The Digest Manager's generateBrowseUrl. */
+export function buildBrowseUrl(filters: Record<string, unknown>): string {
+  const params = new URLSearchParams();
+  const list = (value: unknown) => (Array.isArray(value) ? value.join(",") : String(value));
+  if (filters.bedrooms !== undefined) params.set("bedrooms", list(filters.bedrooms));
+  if (filters.property_type) params.set("property_type", list(filters.property_type));
+  if (filters.price_min !== undefined) params.set("price_min", String(filters.price_min));
+  if (filters.price_max !== undefined) params.set("price_max", String(filters.price_max));
+  if (filters.broker_fee !== undefined) params.set("broker_fee", String(filters.broker_fee));
+  if (filters.parking !== undefined) params.set("parking", String(filters.parking));
+  const basePath = filters.listing_type === "sale" ? "/browse-sales" : "/browse";
+  const queryString = params.toString();
+  return `${SITE_URL}${basePath}${queryString ? `?${queryString}` : ""}`;
+}
+
+/** digestService.deriveCollectionAlias */
+function collectionAlias(url: string): string {
+  let path: string;
+  try {
+    const parsed = new URL(url);
+    path = parsed.pathname + parsed.search;
+  } catch {
+    path = url;
+  }
+  return path.replace(/^\//, "").replace(/[/?&=]/g, "-").toLowerCase().slice(0, 100);
+}
+
+/** The enabled collections as CTA text + short link, counted against live listings. */
+export async function buildCollectionLinks(
+  supabase: SupabaseLike,
+  configs: DigestCollectionConfig[],
+): Promise<DigestCollectionLink[]> {
+  const links: DigestCollectionLink[] = [];
+  for (const config of configs.filter((c) => c.enabled).sort((a, b) => a.order - b.order)) {
+    const { count } = await applyDigestFilters(
+      supabase.from("listings").select("id", { count: "exact", head: true }).eq("approved", true).eq("is_active", true),
+      config.filters || {},
+    );
+    const fullUrl = buildBrowseUrl(config.filters || {});
+    const { data: shortCode, error } = await supabase.rpc("get_or_create_collection_short_url", {
+      p_alias: collectionAlias(fullUrl),
+      p_original_url: fullUrl,
+      p_source: "digest_collection",
+    });
+    if (error) console.error("Failed to get/create collection short URL:", error);
+    links.push({
+      label: (config.cta_format || "Click here to see all {count} of our {label}")
+        .replace("{count}", formatCollectionCount(count ?? 0))
+        .replace("{label}", config.label),
+      url: shortCode ? `${SITE_URL}/l/${shortCode}` : fullUrl,
+    });
+  }
+  return links;
+}
+
+// ------------------------------------------------------------------
+// Text
+// ------------------------------------------------------------------
+
+const PROPERTY_TYPE_LABELS: Record<string, string> = {
+  apartment_building: "Apartment",
+  apartment_in_building: "Apartment",
+  apartment_house: "Apartment",
+  apartment_in_house: "Apartment",
+  single_family: "Single Family",
+  full_house: "Full House",
+  duplex: "Duplex",
+  basement: "Basement",
+  townhouse: "Townhouse",
+  condo: "Condo",
+  studio: "Studio",
+  multi_family: "Multi Family",
+  land: "Land",
+};
+
+function formatPropertyType(type: string): string {
+  return PROPERTY_TYPE_LABELS[type.toLowerCase()] ??
+    type.split("_").map((w) => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join(" ");
+}
+
+function abbreviateSalePrice(price: number): string {
+  if (price >= 1000000) return `$${(price / 1000000).toFixed(1).replace(/\.0$/, "")}M`;
+  if (price >= 1000) return `$${Math.round(price / 1000)}K`;
+  return `$${price}`;
+}
+
+/** WhatsAppFormatter.formatListingData + formatSingleListing. */
+export function formatDigestListing(listing: DigestListing, shortCode: string | null): string {
+  const isSale = listing.listing_type === "sale";
+  let price: string;
+  if (listing.call_for_price) {
+    price = "Call for Price";
+  } else if (isSale) {
+    price = listing.asking_price ? abbreviateSalePrice(listing.asking_price) : "Call for Price";
+  } else {
+    price = listing.price ? `$${listing.price.toLocaleString("en-US")}/month` : "Price Not Available";
+  }
+
+  const specs = [listing.bedrooms === 0 ? "Studio" : `${listing.bedrooms} bed`, `${listing.bathrooms} bath`];
+  if (!isSale) specs.push(listing.broker_fee ? "Fee" : "No Fee");
+  if (listing.property_type) specs.push(formatPropertyType(listing.property_type));
+
+  const displayLocation = listing.cross_streets || listing.location || "Location not specified";
+  const location = listing.neighborhood ? `${listing.neighborhood}, ${displayLocation}` : displayLocation;
+  const postedBy = listing.owner?.agency ? `Posted by ${listing.owner.agency}` : "Posted by Owner";
+  const url = shortCode ? `${SITE_URL}/l/${shortCode}` : `${SITE_URL}/listing/${listing.id}`;
+
+  return [`*${price}*`, specs.join(" | "), location, postedBy, url].join("\n");
+}
+
+/** WhatsAppFormatter.formatDigest, unsectioned. */
+export function formatDigestText(options: {
+  introText: string;
+  outroText: string;
+  collections: DigestCollectionLink[];
+  listings: string[];
+}): string {
+  const sections: string[] = [options.introText, ""];
+  if (options.collections.length > 0) {
+    sections.push(options.collections.map((c) => `*${c.label}*\n${c.url}`).join("\n\n"), "");
+  }
+  if (options.listings.length > 0) {
+    sections.push(options.listings.join("\n\n"), "");
+  }
+  sections.push(options.outroText);
+  return sections.join("\n");
+}
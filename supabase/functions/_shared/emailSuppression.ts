@@ -0,0 +1,62 @@
+// Per-address email suppression list (email_suppressions,
+// 20261018160000_email_events.sql). The outbox (_shared/outbox.ts) drops
+// suppressed addresses before every send; zepto-email-webhook adds them from
+// ZeptoMail's hard bounce, repeated soft bounce and complaint events.
+//
+// Checks fail open on query errors, like the SMS consent registry: a bounce
+// costs us a little sender reputation, a lost password reset costs a user.
+
+// deno-lint-ignore no-explicit-any
+type SupabaseLike = any;
+
+export type SuppressionReason = "hard_bounce" | "soft_bounce" | "complaint" | "manual";
+
+/** The list key; ZeptoMail reports addresses in whatever case we sent. */
+export function normalizeEmail(address: string): string {
+  return address.trim().toLowerCase();
+}
+
+/** Splits `addresses` into those we may mail and those on the list. */
+export async function filterSuppressedEmails(
+  supabase: SupabaseLike,
+  addresses: string[],
+): Promise<{ allowed: string[]; suppressed: string[] }> {
+  if (addresses.length === 0) return { allowed: [], suppressed: [] };
+  try {
+    const { data, error } = await supabase
+      .from("email_suppressions")
+      .select("email")
+      .in("email", addresses.map(normalizeEmail));
+    if (error) throw error;
+
+    const blocked = new Set(((data ?? []) as { email: string }[]).map((r) => r.email));
+    return {
+      allowed: addresses.filter((a) => !blocked.has(normalizeEmail(a))),
+      suppressed: addresses.filter((a) => blocked.has(normalizeEmail(a))),
+    };
+  } catch (err) {
+    console.error("Email suppression check failed, sending anyway:", err);
+    return { allowed: addresses, suppressed: [] };
+  }
+}
+
+/**
+ * Adds an address to the list. A complaint or hard bounce replaces an
+ * earlier entry; a soft-bounce entry never replaces a stronger one.
+ */
+export async function suppressEmail(
+  supabase: SupabaseLike,
+  address: string,
+  reason: SuppressionReason,
+  details: string | null,
+  eventId: string | null = null,
+): Promise<void> {
+  const { error } = await supabase
+    .from("email_suppressions")
+    .upsert(
+      { email: normalizeEmail(address), reason, details, event_id: eventId, created_at: new Date().toISOString() },
+      { onConflict: "email", ignoreDuplicates: reason === "soft_bounce" },
+    );
+  if (error) console.error(`Failed to suppress ${address}:`, error);
+  else console.log(`Suppressed ${address} (${reason})`);
+}
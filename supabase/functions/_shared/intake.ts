@@ -16,6 +16,7 @@ import { z } from 'npm:zod@4';
 import { zodOutputFormat } from 'npm:@anthropic-ai/sdk/helpers/zod';
 import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
 import { createHash } from 'node:crypto';
+import { applyLiveListingMatch, type ScrapedMatchInput } from './scrapedListingMatch.ts';
 
 // Sonnet on extracted TEXT matches Opus-on-vision on the metrics that matter
 // (July 20 2026 bake-off: vague-street decoding 15/15 = Opus on all three
@@ -60,6 +61,8 @@ export const ParsedListingSchema = z.object({
   lease_length: z
     .enum(['long_term_annual', 'short_term', 'summer_rental', 'winter_rental'])
     .nullable(),
+  available_date: z.string().nullable(),
+  available_immediately: z.boolean(),
   is_furnished: z.boolean(),
   broker_fee: z.boolean(),
   section_8_ok: z.boolean(),
@@ -77,6 +80,7 @@ export const ParsedListingSchema = z.object({
   agency_name: z.string().nullable(),
   additional_notes: z.string().nullable(),
   confidence: z.number(),
+  uncertain_fields: z.array(z.string()),
   raw_text: z.string(),
 });
 
@@ -112,15 +116,17 @@ CRITICAL RULES:
 12. parking: "included" if parking comes with the listing at no extra charge, "optional" if available for extra cost, "yes" if parking exists but details unclear, "carport" if a carport is mentioned, otherwise "no".
 13. heat: "included" only if heat/utilities are stated as included; otherwise "tenant_pays".
 14. lease_length: "short_term" for short-term/temporary, "summer_rental"/"winter_rental" when seasonal, "long_term_annual" when a year lease is implied, null when unknown. Sales: null.
-15. Identify if the contact is an agent/broker (look for: "Realty", company names, multiple stacked listings, "broker", "Call Broker") vs an individual owner.
-16. contact_phone = digits only; contact_phone_display = formatted as written.
-17. title: short marketing title like "Spacious 3BR on 53rd & 14th" or "2 Family House for Sale — Flatbush". Never include the phone number in the title.
-18. description: 1-3 sentence clean marketing description summarizing the unit's selling points from the text. Do NOT invent details that are not in the text. Do NOT include contact info in the description.
-19. additional_notes: anything parsed that does not fit other fields.
-20. confidence: 0-1 — how confident you are the extraction is complete and correct. Lower it when the source is a blurry scan or the text is ambiguous.
-21. raw_text: the exact original text fragment for this listing.
-22. Skip pure advertisements/promotions that are not property listings. Skip job posts, services, gemachs, vouchers, and non-real-estate classifieds. Skip Hebrew-only ad boilerplate and publication headers/footers.
-23. NEVER invent data. Missing value => null (or false for booleans). Accuracy matters far more than completeness — it is better to leave a field null than to guess.`;
+15. Availability / move-in: "available now", "immediate", "vacant", "ready to move in" => available_immediately=true, available_date=null. A stated date ("avail. 4/1", "from Pesach", "June 1st") => available_date as YYYY-MM-DD, using the next occurrence of that date on or after today's date (given in the request), and available_immediately=false. Holidays: resolve Pesach, Sukkos, etc. to the first day of that holiday in the coming year only when you are certain of the date; otherwise leave available_date null and mention it in additional_notes. No availability mentioned => available_date=null, available_immediately=false.
+16. Identify if the contact is an agent/broker (look for: "Realty", company names, multiple stacked listings, "broker", "Call Broker") vs an individual owner.
+17. contact_phone = digits only; contact_phone_display = formatted as written.
+18. title: short marketing title like "Spacious 3BR on 53rd & 14th" or "2 Family House for Sale — Flatbush". Never include the phone number in the title.
+19. description: 1-3 sentence clean marketing description summarizing the unit's selling points from the text. Do NOT invent details that are not in the text. Do NOT include contact info in the description.
+20. additional_notes: anything parsed that does not fit other fields.
+21. confidence: 0-1 — how confident you are the extraction is complete and correct. Lower it when the source is a blurry scan or the text is ambiguous.
+22. uncertain_fields: the names of the fields above whose value you inferred or could not read clearly (e.g. "price" when it might be weekly, "cross_street_1" for an ambiguous street, "bedrooms" when only "large apt" is said). Leave out fields set to null because the text says nothing. Empty array when everything was stated plainly.
+23. raw_text: the exact original text fragment for this listing.
+24. Skip pure advertisements/promotions that are not property listings. Skip job posts, services, gemachs, vouchers, and non-real-estate classifieds. Skip Hebrew-only ad boilerplate and publication headers/footers.
+25. NEVER invent data. Missing value => null (or false for booleans). Accuracy matters far more than completeness — it is better to leave a field null than to guess.`;
 
 export function buildUserPrompt(typeHint: string, extraContext?: string): string {
   const hintLine =
@@ -128,12 +134,16 @@ export function buildUserPrompt(typeHint: string, extraContext?: string): string
       ? `The admin says these are ${typeHint.toUpperCase()} listings.`
       : 'The admin did not specify a listing kind — detect rental vs sale per listing.';
   const ctx = extraContext ? `\n${extraContext}` : '';
-  return `${hintLine}${ctx}\n\nExtract every real estate listing you can find. Return them in the "listings" array.`;
+  // en-CA formats as YYYY-MM-DD; lets the model resolve "avail. 4/1" to a year.
+  const today = new Date().toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+  return `${hintLine}${ctx}\nToday's date is ${today}.\n\nExtract every real estate listing you can find. Return them in the "listings" array.`;
 }
 
 // ---------------------------------------------------------------------------
 // Claude parse — content may be plain text OR document/image blocks (a PDF or
 // scanned pamphlet pages). Same prompt + schema either way.
+// parseContentWithUsage also returns the token usage, for callers that meter
+// the bill (parse-listing's self-serve quota).
 // ---------------------------------------------------------------------------
 export async function parseContent(
   anthropic: Anthropic,
@@ -142,6 +152,17 @@ export async function parseContent(
   typeHint: string,
   extraContext?: string,
 ): Promise<ParsedListing[]> {
+  const { listings } = await parseContentWithUsage(anthropic, model, content, typeHint, extraContext);
+  return listings;
+}
+
+export async function parseContentWithUsage(
+  anthropic: Anthropic,
+  model: string,
+  content: string | Anthropic.MessageParam['content'],
+  typeHint: string,
+  extraContext?: string,
+): Promise<{ listings: ParsedListing[]; usage: Anthropic.Usage }> {
   const userContent =
     typeof content === 'string'
       ? `${buildUserPrompt(typeHint, extraContext)}\n---\n${content}\n---`
@@ -181,7 +202,21 @@ export async function parseContent(
     .map((b) => b.text)
     .join('');
   const parsed = ParseResultSchema.parse(JSON.parse(text));
-  return parsed.listings;
+  return { listings: parsed.listings, usage: message.usage };
+}
+
+// USD per million tokens at Sonnet list prices. An estimate for budgeting —
+// update alongside DEFAULT_MODEL. Thinking tokens bill as output.
+const PRICE_PER_MTOK = { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 };
+
+export function estimateParseCostUsd(usage: Anthropic.Usage): number {
+  return (
+    (usage.input_tokens * PRICE_PER_MTOK.input +
+      usage.output_tokens * PRICE_PER_MTOK.output +
+      (usage.cache_creation_input_tokens ?? 0) * PRICE_PER_MTOK.cacheWrite +
+      (usage.cache_read_input_tokens ?? 0) * PRICE_PER_MTOK.cacheRead) /
+    1_000_000
+  );
 }
 
 // ---------------------------------------------------------------------------
@@ -267,6 +302,9 @@ export async function geocodeListing(
 //                                previously unknown; NEVER touch the admin's
 //                                call_status / call_notes / edits / assignment
 //                                / reviewed state.
+// Either way the row is then (re-)matched against the live listings
+// (_shared/scrapedListingMatch.ts) — a landlord may have posted on the site
+// since the last sighting.
 // Returns 'inserted' | 'updated'.
 // ---------------------------------------------------------------------------
 export interface UpsertContext {
@@ -300,6 +338,17 @@ export async function upsertScrapedListing(
     seen_at: seenAt,
   };
 
+  const matchInput: ScrapedMatchInput = {
+    listing_kind: listing.listing_kind,
+    contact_phone: phoneDigits || null,
+    cross_street_1: listing.cross_street_1,
+    cross_street_2: listing.cross_street_2,
+    bedrooms: listing.bedrooms,
+    price: listing.listing_kind === 'sale' ? listing.asking_price : price,
+    latitude: geo.latitude,
+    longitude: geo.longitude,
+  };
+
   // --- Does this real-world listing already exist? ------------------------
   const { data: existing } = await supabase
     .from('scraped_listings')
@@ -318,6 +367,10 @@ export async function upsertScrapedListing(
       date_last_seen: ctx.pdfDate,
       times_seen: (existing.times_seen ?? 1) + 1,
       source_history: [...history, sighting],
+      // Back in the pamphlet: no longer missing or dropped
+      // (20261018210000_pamphlet_issue_diffing.sql).
+      missed_issues: 0,
+      dropped_at: null,
     };
     // Only fill a price we didn't already have — never overwrite an admin edit.
     if ((existing.price == null || existing.price === 0) && price != null) {
@@ -330,6 +383,7 @@ export async function upsertScrapedListing(
     }
     const { error } = await supabase.from('scraped_listings').update(patch).eq('id', existing.id);
     if (error) throw new Error(`update failed: ${error.message}`);
+    await applyLiveListingMatch(supabase, existing.id, matchInput);
     return 'updated';
   }
 
@@ -397,19 +451,25 @@ export async function upsertScrapedListing(
       heat: listing.heat,
       washer_dryer_hookup: listing.washer_dryer_hookup,
       lease_length: listing.lease_length,
+      // "Immediately" is stored as the publication date, same as
+      // listings.available_date (on or before today = available now).
+      available_date: listing.available_immediately
+        ? ctx.pdfDate
+        : /^\d{4}-\d{2}-\d{2}$/.test(listing.available_date ?? '') ? listing.available_date : null,
       call_for_price: listing.call_for_price,
       asking_price: listing.listing_kind === 'sale' ? listing.asking_price : null,
       broker_fee: listing.broker_fee,
     },
   };
 
-  const { error } = await supabase.from('scraped_listings').insert(row);
+  const { data: inserted, error } = await supabase.from('scraped_listings').insert(row).select('id').single();
   if (error) {
     // A concurrent run may have inserted the same key between our SELECT and
     // INSERT — treat the unique-violation as an update we lost the race on.
     if (error.code === '23505') return 'updated';
     throw new Error(`insert failed: ${error.message}`);
   }
+  await applyLiveListingMatch(supabase, inserted.id, matchInput);
   return 'inserted';
 }
 
@@ -0,0 +1,416 @@
+// Text commands for listers — used by the inbound SMS webhook.
+//
+//   LIST               numbered list of the sender's listings
+//   STATUS [n]         live/paused, expiry, views and link for one listing
+//   PRICE [n] 2900     change the price ("2.9k", "$1,250,000" and "1.25m" work too)
+//   PAUSE [n]          take a live listing off the site
+//   RESUME [n]         put a paused listing back up
+//   EXTEND [n]         push a live listing's expiry out by SMS_RENEWAL_DAYS
+//
+// "n" is the number from LIST. Without it, a sender with one matching
+// listing gets it directly and a sender with several gets the webhook's
+// usual "which listing?" prompt.
+//
+// Listings are found by contact_phone_e164 across `listings` and
+// `commercial_listings`, like the webhook's unsolicited RENTED flow. The
+// writes follow the web rules: renewListingViaSMS for EXTEND / RESUME,
+// updateListing's call_for_price and featured handling for PRICE / PAUSE,
+// and the dashboard's "needs payment to republish" check for RESUME.
+
+// deno-lint-ignore no-explicit-any
+type SupabaseLike = any;
+
+export type ListerCommandName = "list" | "status" | "price" | "pause" | "resume" | "extend";
+
+export interface ListerCommand {
+  name: ListerCommandName;
+  /** 1-based number from LIST, when the sender gave one. */
+  listingNumber: number | null;
+  /** New price for PRICE. */
+  price: number | null;
+}
+
+export interface CommandListing {
+  id: string;
+  is_commercial: boolean;
+  user_id: string;
+  listing_type: string | null;
+  is_active: boolean;
+  price: number | null;
+  asking_price: number | null;
+  call_for_price: boolean | null;
+  expires_at: string | null;
+  deactivated_at: string | null;
+  sale_status: string | null;
+  is_featured: boolean | null;
+  views: number | null;
+  bedrooms?: number | null;
+  location?: string | null;
+  full_address: string | null;
+  neighborhood: string | null;
+  cross_street_a: string | null;
+  commercial_space_type?: string | null;
+  payment_kind?: string | null;
+  trial_started_at?: string | null;
+  paused_paid_days?: number | null;
+  last_published_at?: string | null;
+}
+
+export interface CommandResult {
+  ok: boolean;
+  reply: string;
+  /** Short machine-readable outcome for the sms_messages log. */
+  outcome: string;
+}
+
+export const LISTER_COMMAND_SOURCE = "lister_command";
+
+const SMS_RENEWAL_DAYS = 14;
+const TRIAL_DAYS = 14;
+// Paused listings stay addressable (RESUME / STATUS) for this long.
+const PAUSED_LOOKBACK_DAYS = 30;
+const MAX_LISTINGS = 20;
+
+const RESIDENTIAL_COLUMNS =
+  "id, user_id, listing_type, is_active, price, asking_price, call_for_price, expires_at, deactivated_at, sale_status, is_featured, views, bedrooms, location, full_address, neighborhood, cross_street_a, payment_kind, trial_started_at, paused_paid_days, last_published_at";
+const COMMERCIAL_COLUMNS =
+  "id, user_id, listing_type, is_active, price, asking_price, call_for_price, expires_at, deactivated_at, sale_status, is_featured, views, full_address, neighborhood, cross_street_a, commercial_space_type, last_published_at";
+
+const SPACE_TYPE_LABELS: Record<string, string> = {
+  storefront: "Retail",
+  retail: "Retail",
+  restaurant: "Restaurant",
+  office: "Office",
+  warehouse: "Warehouse",
+  medical: "Medical",
+  flex: "Flex Space",
+  industrial: "Industrial",
+  mixed_use: "Mixed Use",
+  coworking: "Coworking",
+  gallery: "Gallery",
+  event_space: "Event Space",
+  community_facility: "Community Facility",
+  basement_commercial: "Basement Commercial",
+};
+
+function parsePrice(token: string): number | null {
+  const match = token.replace(/^\$/, "").replace(/,/g, "").match(/^(\d+(?:\.\d+)?)(k|m)?$/);
+  if (!match) return null;
+  const multiplier = match[2] === "m" ? 1_000_000 : match[2] === "k" ? 1_000 : 1;
+  const value = Math.round(parseFloat(match[1]) * multiplier);
+  return value > 0 && value <= 100_000_000 ? value : null;
+}
+
+function parseListingNumber(token: string): number | null {
+  const match = token.replace(/^#/, "").match(/^\d{1,2}$/);
+  if (!match) return null;
+  const n = parseInt(match[0], 10);
+  return n >= 1 ? n : null;
+}
+
+/**
+ * Returns the command when the whole message is one, otherwise null so the
+ * message goes through the normal conversation routing.
+ */
+export function parseListerCommand(body: string): ListerCommand | null {
+  const words = body.trim().toLowerCase().replace(/[.!]+$/, "").split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+
+  const [keyword, ...args] = words;
+  switch (keyword) {
+    case "list":
+      return args.length === 0 ? { name: "list", listingNumber: null, price: null } : null;
+
+    case "status":
+    case "pause":
+    case "resume":
+    case "extend": {
+      if (args.length === 0) return { name: keyword, listingNumber: null, price: null };
+      if (args.length !== 1) return null;
+      const listingNumber = parseListingNumber(args[0]);
+      return listingNumber ? { name: keyword, listingNumber, price: null } : null;
+    }
+
+    case "price": {
+      if (args.length === 1) {
+        const price = parsePrice(args[0]);
+        return price ? { name: "price", listingNumber: null, price } : null;
+      }
+      if (args.length === 2) {
+        const listingNumber = parseListingNumber(args[0]);
+        const price = parsePrice(args[1]);
+        return listingNumber && price ? { name: "price", listingNumber, price } : null;
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/** Live listings first (newest first), then recently paused ones — the numbering LIST shows. */
+export async function loadCommandListings(supabase: SupabaseLike, phone: string): Promise<CommandListing[]> {
+  const pausedSince = new Date(Date.now() - PAUSED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const [residential, commercial] = await Promise.all(
+    [
+      { table: "listings", columns: RESIDENTIAL_COLUMNS },
+      { table: "commercial_listings", columns: COMMERCIAL_COLUMNS },
+    ].map(({ table, columns }) =>
+      supabase
+        .from(table)
+        .select(columns)
+        .eq("contact_phone_e164", phone)
+        .eq("approved", true)
+        .or(`is_active.eq.true,deactivated_at.gte.${pausedSince}`)
+        .order("last_published_at", { ascending: false })
+        .limit(MAX_LISTINGS)
+    ),
+  );
+
+  if (residential.error) console.error("Error loading residential listings for SMS command:", residential.error);
+  if (commercial.error) console.error("Error loading commercial listings for SMS command:", commercial.error);
+
+  const rows: CommandListing[] = [
+    ...((residential.data ?? []) as CommandListing[]).map((l) => ({ ...l, is_commercial: false })),
+    ...((commercial.data ?? []) as CommandListing[]).map((l) => ({ ...l, is_commercial: true })),
+  ];
+
+  rows.sort((a, b) => {
+    if (a.is_active !== b.is_active) return a.is_active ? -1 : 1;
+    return (b.last_published_at ?? "").localeCompare(a.last_published_at ?? "");
+  });
+  return rows.slice(0, MAX_LISTINGS);
+}
+
+export async function loadCommandListing(
+  supabase: SupabaseLike,
+  id: string,
+  isCommercial: boolean,
+): Promise<CommandListing | null> {
+  const { data, error } = await supabase
+    .from(isCommercial ? "commercial_listings" : "listings")
+    .select(isCommercial ? COMMERCIAL_COLUMNS : RESIDENTIAL_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+  if (error) console.error("Error loading listing for SMS command:", error);
+  return data ? { ...(data as CommandListing), is_commercial: isCommercial } : null;
+}
+
+function effectivePrice(l: CommandListing): number | null {
+  if (l.call_for_price) return null;
+  return l.listing_type === "sale" ? l.asking_price : l.price;
+}
+
+function formatPrice(l: CommandListing): string {
+  const value = effectivePrice(l);
+  if (!value) return "Call for price";
+  const text = `$${value.toLocaleString("en-US")}`;
+  return l.is_commercial && l.listing_type !== "sale" ? `${text}/mo` : text;
+}
+
+/** "2BR on Ave J ($2,900)" / "Retail at 1402 Coney Island Ave ($6,500/mo)". */
+export function describeCommandListing(l: CommandListing): string {
+  const street = l.full_address || l.cross_street_a || l.location || l.neighborhood || "";
+  let desc: string;
+  if (l.is_commercial) {
+    const space = SPACE_TYPE_LABELS[(l.commercial_space_type ?? "").toLowerCase()] ?? "Commercial";
+    desc = street ? `${space} at ${street}` : space;
+  } else {
+    const bed = l.bedrooms === 0 ? "Studio" : l.bedrooms ? `${l.bedrooms}BR` : "";
+    desc = [bed, street].filter(Boolean).join(" on ") || "Listing";
+  }
+  return `${desc} (${formatPrice(l)})`;
+}
+
+export function formatListingList(listings: CommandListing[]): string {
+  const lines = listings.map((l, i) => `${i + 1}. ${describeCommandListing(l)}${l.is_active ? "" : " - paused"}`);
+  return `Hadirot Alert: Your listings:\n${lines.join("\n")}\n` +
+    `Text STATUS, PRICE, PAUSE, RESUME or EXTEND with the number, e.g. PRICE 1 2900.`;
+}
+
+/** Listings a command without a number could mean — used to skip or build the "which listing?" prompt. */
+export function commandCandidates(command: ListerCommand, listings: CommandListing[]): CommandListing[] {
+  switch (command.name) {
+    case "pause":
+    case "extend":
+      return listings.filter((l) => l.is_active);
+    case "resume":
+      return listings.filter((l) => !l.is_active);
+    default:
+      return listings;
+  }
+}
+
+export function noCandidatesReply(command: ListerCommand): string {
+  if (command.name === "resume") return "Hadirot Alert: You don't have any paused listings. Text LIST to see your listings.";
+  return "Hadirot Alert: You don't have any live listings. Text LIST to see your listings, or RESUME to put one back up.";
+}
+
+function formatDate(iso: string | null): string {
+  if (!iso) return "";
+  return new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "America/New_York" });
+}
+
+function renewalExpiry(l: CommandListing): Date {
+  const current = l.expires_at ? new Date(l.expires_at) : new Date();
+  const base = current > new Date() ? current : new Date();
+  return new Date(base.getTime() + SMS_RENEWAL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Same test as the dashboard's Republish button: a residential rental with
+ * an exhausted trial or paid balance, or one never paid for, has to be paid
+ * for before it goes back up — the nightly job would take a free republish
+ * straight back down.
+ */
+async function needsPaymentToResume(supabase: SupabaseLike, l: CommandListing): Promise<boolean> {
+  if (l.is_commercial || l.listing_type !== "rental") return false;
+
+  const { data: settings } = await supabase
+    .from("admin_settings")
+    .select("monetization_enabled")
+    .limit(1)
+    .maybeSingle();
+  if (settings?.monetization_enabled !== true) return false;
+
+  const trialExpired = l.payment_kind === "individual_trial" && !!l.trial_started_at &&
+    Date.now() > new Date(l.trial_started_at).getTime() + TRIAL_DAYS * 24 * 60 * 60 * 1000;
+  const paidExhausted = l.payment_kind === "individual_paid" && (l.paused_paid_days ?? 0) <= 0;
+  const unpaid = l.payment_kind === "pending_payment";
+  if (!trialExpired && !paidExhausted && !unpaid) return false;
+
+  const { data: isFreeAgent } = await supabase.rpc("is_free_posting_agent", { p_user_id: l.user_id });
+  return isFreeAgent !== true;
+}
+
+/** Re-applies a still-running boost after a residential listing goes back up, like renewListing. */
+async function restoreFeatured(supabase: SupabaseLike, l: CommandListing, nowIso: string): Promise<void> {
+  if (l.is_commercial) return;
+  const { data: activePurchase } = await supabase
+    .from("featured_purchases")
+    .select("featured_start, featured_end, plan")
+    .eq("listing_id", l.id)
+    .in("status", ["active", "free"])
+    .gt("featured_end", nowIso)
+    .order("featured_end", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (!activePurchase) return;
+  await supabase
+    .from("listings")
+    .update({
+      is_featured: true,
+      featured_started_at: activePurchase.featured_start,
+      featured_expires_at: activePurchase.featured_end,
+      featured_plan: activePurchase.plan,
+    })
+    .eq("id", l.id);
+}
+
+export async function applyListerCommand(
+  supabase: SupabaseLike,
+  command: ListerCommand,
+  l: CommandListing,
+  siteUrl: string,
+): Promise<CommandResult> {
+  const table = l.is_commercial ? "commercial_listings" : "listings";
+  const desc = describeCommandListing(l);
+  const nowIso = new Date().toISOString();
+
+  switch (command.name) {
+    case "list":
+      // LIST is answered before a listing is picked; nothing to apply.
+      return { ok: true, reply: "", outcome: "listed" };
+
+    case "status": {
+      const url = `${siteUrl}/${l.is_commercial ? "commercial-listing" : "listing"}/${l.id}`;
+      const state = l.is_active
+        ? `is live${l.expires_at ? ` until ${formatDate(l.expires_at)}` : ""}`
+        : `is paused${l.deactivated_at ? ` since ${formatDate(l.deactivated_at)}` : ""}`;
+      const views = l.views ? ` ${l.views.toLocaleString("en-US")} views.` : "";
+      return { ok: true, reply: `Hadirot Alert: ${desc} ${state}.${views}\n${url}`, outcome: "status_sent" };
+    }
+
+    case "price": {
+      const column = l.listing_type === "sale" ? "asking_price" : "price";
+      if (effectivePrice(l) === command.price) {
+        return { ok: true, reply: `Hadirot Alert: ${desc} is already at that price.`, outcome: "price_unchanged" };
+      }
+      const { error } = await supabase
+        .from(table)
+        .update({ [column]: command.price, call_for_price: false, updated_at: nowIso })
+        .eq("id", l.id);
+      if (error) {
+        console.error("Error updating price via SMS:", error);
+        return { ok: false, reply: "Hadirot Alert: We couldn't update the price. Please try again or use hadirot.com/dashboard.", outcome: "error" };
+      }
+      const updated = describeCommandListing({ ...l, [column]: command.price, call_for_price: false });
+      return { ok: true, reply: `Hadirot Alert: Price updated. ${updated}`, outcome: "price_updated" };
+    }
+
+    case "pause": {
+      if (!l.is_active) {
+        return { ok: true, reply: `Hadirot Alert: ${desc} is already paused. Text RESUME to put it back up.`, outcome: "already_paused" };
+      }
+      const { error } = await supabase
+        .from(table)
+        .update({
+          is_active: false,
+          deactivated_at: nowIso,
+          updated_at: nowIso,
+          // A paused listing can't stay featured (updateListing does the same).
+          ...(l.is_featured ? { is_featured: false, featured_expires_at: null } : {}),
+        })
+        .eq("id", l.id);
+      if (error) {
+        console.error("Error pausing listing via SMS:", error);
+        return { ok: false, reply: "Hadirot Alert: We couldn't pause this listing. Please try again or use hadirot.com/dashboard.", outcome: "error" };
+      }
+      return { ok: true, reply: `Hadirot Alert: ${desc} is paused and off the site. Text RESUME to put it back up.`, outcome: "paused" };
+    }
+
+    case "resume":
+    case "extend": {
+      if (command.name === "extend" && !l.is_active) {
+        return { ok: true, reply: `Hadirot Alert: ${desc} is paused. Text RESUME to put it back up.`, outcome: "not_active" };
+      }
+      if (command.name === "resume" && l.is_active) {
+        return { ok: true, reply: `Hadirot Alert: ${desc} is already live. Text EXTEND to keep it up longer.`, outcome: "already_active" };
+      }
+      if (l.listing_type === "sale" && l.sale_status === "sold") {
+        return { ok: true, reply: `Hadirot Alert: ${desc} is marked sold and can't be renewed. Update it at hadirot.com/dashboard.`, outcome: "sold" };
+      }
+      if (command.name === "resume" && await needsPaymentToResume(supabase, l)) {
+        return { ok: true, reply: `Hadirot Alert: ${desc} needs more days before it can go back up. Add days at ${siteUrl}/dashboard`, outcome: "payment_required" };
+      }
+
+      const newExpiry = renewalExpiry(l);
+      const { error } = await supabase
+        .from(table)
+        .update({
+          is_active: true,
+          last_published_at: nowIso,
+          expires_at: newExpiry.toISOString(),
+          deactivated_at: null,
+          updated_at: nowIso,
+        })
+        .eq("id", l.id);
+      if (error) {
+        console.error(`Error running ${command.name} via SMS:`, error);
+        return { ok: false, reply: "Hadirot Alert: We couldn't update this listing. Please try again or use hadirot.com/dashboard.", outcome: "error" };
+      }
+      if (command.name === "resume") {
+        await restoreFeatured(supabase, l, nowIso);
+      }
+
+      // The lifecycle trigger may clamp expires_at to paid coverage — report what stuck.
+      const { data: after } = await supabase.from(table).select("expires_at").eq("id", l.id).maybeSingle();
+      const until = formatDate(after?.expires_at ?? newExpiry.toISOString());
+      return command.name === "resume"
+        ? { ok: true, reply: `Hadirot Alert: ${desc} is live again until ${until}.`, outcome: "resumed" }
+        : { ok: true, reply: `Hadirot Alert: ${desc} has been extended until ${until}.`, outcome: "extended" };
+    }
+  }
+}
@@ -0,0 +1,74 @@
+// Helpers shared by the emails that describe listings — saved-search alerts,
+// price-drop alerts, subscriber digests, showing notifications — plus the
+// HTML escaping every hand-built email body and page needs.
+
+/** Fields describeListing / listingUrl read; both tables' rows fit it. */
+export interface EmailListing {
+  id: string;
+  neighborhood?: string | null;
+  location?: string | null;
+  full_address?: string | null;
+  cross_street_a?: string | null;
+  cross_street_b?: string | null;
+  bedrooms?: number | null;
+  commercial_space_type?: string | null;
+  isCommercial: boolean;
+}
+
+export function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Weekday name in New York ("Friday"), for the Shabbat skip. */
+export function todayInNY(): string {
+  return new Date().toLocaleDateString("en-US", {
+    timeZone: "America/New_York",
+    weekday: "long",
+  });
+}
+
+/** "2 bd at Ave J & E 15th St", "Retail at Kings Hwy". */
+export function describeListing(l: EmailListing): string {
+  const where =
+    l.cross_street_a && l.cross_street_b
+      ? `${l.cross_street_a} & ${l.cross_street_b}`
+      : l.neighborhood || l.full_address || l.location || "Brooklyn";
+  if (l.isCommercial) {
+    const space = (l.commercial_space_type || "commercial").replace(/_/g, " ");
+    return `${space.charAt(0).toUpperCase()}${space.slice(1)} at ${where}`;
+  }
+  const beds = l.bedrooms === 0 ? "Studio" : `${l.bedrooms} bd`;
+  return `${beds} at ${where}`;
+}
+
+export function listingUrl(siteUrl: string, l: Pick<EmailListing, "id" | "isCommercial">): string {
+  return l.isCommercial ? `${siteUrl}/commercial-listing/${l.id}` : `${siteUrl}/listing/${l.id}`;
+}
+
+/**
+ * Loads `ids` from listings or commercial_listings with the caller's column
+ * list and tags each row with isCommercial. Errors are logged and yield [].
+ */
+export async function loadListings<T extends EmailListing>(
+  // deno-lint-ignore no-explicit-any
+  supabase: any,
+  ids: string[],
+  isCommercial: boolean,
+  select: string,
+): Promise<T[]> {
+  if (ids.length === 0) return [];
+  const { data, error } = await supabase
+    .from(isCommercial ? "commercial_listings" : "listings")
+    .select(select)
+    .in("id", ids);
+  if (error) {
+    console.error(`Error loading ${isCommercial ? "commercial " : ""}listings:`, error);
+    return [];
+  }
+  return ((data || []) as T[]).map((r) => ({ ...r, isCommercial }));
+}
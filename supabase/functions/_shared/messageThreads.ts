@@ -0,0 +1,241 @@
+// In-app message threads — shared by send-thread-message (web), the inbound
+// email relay (inbound-message-email) and the SMS webhook (owner replies).
+//
+// Schema: supabase/migrations/20261018080000_message_threads.sql.
+//
+// Every new message is relayed to the other side: the owner gets an SMS (and
+// an `awaiting_message_reply` conversation so a plain-text reply is appended
+// to the thread) plus an email; the inquirer gets an email. Relay emails use
+// a per-side reply-to address (thread+<token>@MESSAGE_REPLY_DOMAIN) when the
+// inbound domain is configured, otherwise they just link to the inbox.
+// Both go through the outbox (_shared/outbox.ts) and respect the send window.
+//
+// Listing lookup, phone formatting and the SMS context are shared with
+// the showing notifications (_shared/showings.ts).
+
+import { renderBrandEmail } from "./zepto.ts";
+import { isSmsOptedOut, recordCarrierOptOut } from "./smsConsent.ts";
+import { sendEmailViaOutbox, sendSmsViaOutbox } from "./outbox.ts";
+import { escapeHtml } from "./listingEmail.ts";
+import {
+  formatPhoneForSMS,
+  loadShowingListing,
+  type ShowingContext,
+  type ShowingListing,
+} from "./showings.ts";
+
+export const MESSAGE_CONVERSATION_STATE = "awaiting_message_reply";
+export const MESSAGE_SMS_SOURCE = "message_relay";
+export const MAX_THREAD_MESSAGE_LENGTH = 2000;
+
+// An unanswered relay stops routing SMS replies after a week; the owner can
+// still answer from the inbox.
+const MESSAGE_CONVERSATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type ThreadRole = "inquirer" | "owner";
+export type ThreadChannel = "web" | "sms" | "email";
+
+export interface MessageThreadRow {
+  id: string;
+  listing_id: string | null;
+  commercial_listing_id: string | null;
+  inquirer_user_id: string;
+  owner_user_id: string;
+  inquirer_reply_token: string;
+  owner_reply_token: string;
+}
+
+export const THREAD_COLUMNS =
+  "id, listing_id, commercial_listing_id, inquirer_user_id, owner_user_id, inquirer_reply_token, owner_reply_token";
+
+export function threadInboxUrl(siteUrl: string, threadId: string): string {
+  return `${siteUrl}/account?tab=messages&thread=${threadId}`;
+}
+
+/** thread+<token>@<domain>, or undefined when inbound email isn't set up. */
+export function threadReplyAddress(token: string): string | undefined {
+  const domain = Deno.env.get("MESSAGE_REPLY_DOMAIN");
+  return domain ? `thread+${token}@${domain}` : undefined;
+}
+
+export async function loadThreadListing(ctx: ShowingContext, thread: MessageThreadRow): Promise<ShowingListing | null> {
+  const isCommercial = !!thread.commercial_listing_id;
+  return loadShowingListing(ctx.supabase, (thread.commercial_listing_id ?? thread.listing_id)!, isCommercial);
+}
+
+// deno-lint-ignore no-explicit-any
+async function loadProfile(supabase: any, userId: string): Promise<{ full_name: string | null; email: string | null }> {
+  const { data } = await supabase.from("profiles").select("full_name, email").eq("id", userId).maybeSingle();
+  return { full_name: data?.full_name ?? null, email: data?.email ?? null };
+}
+
+/** Inserts one message; the DB trigger updates the thread summary/read state. */
+export async function appendThreadMessage(
+  ctx: ShowingContext,
+  thread: MessageThreadRow,
+  role: ThreadRole,
+  body: string,
+  channel: ThreadChannel,
+): Promise<{ id: string; created_at: string }> {
+  const { data, error } = await ctx.supabase
+    .from("thread_messages")
+    .insert({
+      thread_id: thread.id,
+      sender_role: role,
+      sender_user_id: role === "owner" ? thread.owner_user_id : thread.inquirer_user_id,
+      body: body.slice(0, MAX_THREAD_MESSAGE_LENGTH),
+      channel,
+    })
+    .select("id, created_at")
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** Sends and logs the owner's relay SMS. Returns the provider message id, or null when not sent. */
+async function sendRelaySms(
+  ctx: ShowingContext,
+  to: string,
+  body: string,
+  refs: { listingId: string; threadId: string },
+): Promise<string | null> {
+  const phone = formatPhoneForSMS(to);
+  if (!ctx.smsEnabled || !phone) {
+    console.warn("Skipping message relay SMS (SMS not configured or bad phone)", { threadId: refs.threadId });
+    return null;
+  }
+  if (await isSmsOptedOut(ctx.supabase, phone)) {
+    console.log("Skipping message relay SMS to opted-out number", { threadId: refs.threadId });
+    return null;
+  }
+
+  const result = await sendSmsViaOutbox(ctx.supabase, phone, body, MESSAGE_SMS_SOURCE);
+  await ctx.supabase.from("sms_messages").insert({
+    direction: "outbound",
+    phone_number: phone,
+    message_body: body,
+    message_sid: result.messageId,
+    message_source: MESSAGE_SMS_SOURCE,
+    listing_id: refs.listingId,
+    status: result.deferredUntil ? "queued" : result.ok ? "sent" : "failed",
+    metadata: { thread_id: refs.threadId },
+  });
+
+  if (!result.ok) {
+    console.error(`${result.provider} error sending message relay SMS:`, result.errorCode, result.errorMessage);
+    await recordCarrierOptOut(ctx.supabase, phone, result);
+    return null;
+  }
+  return result.messageId;
+}
+
+/** Supersedes any open SMS-reply conversation for this thread. */
+export async function closeMessageConversations(ctx: ShowingContext, threadId: string, actionTaken: string): Promise<void> {
+  const { error } = await ctx.supabase
+    .from("listing_renewal_conversations")
+    .update({ state: "completed", action_taken: actionTaken, updated_at: new Date().toISOString() })
+    .eq("state", MESSAGE_CONVERSATION_STATE)
+    .eq("metadata->>thread_id", threadId);
+  if (error) console.error("Error closing message conversations:", error);
+}
+
+/**
+ * Relays a new message to the side that didn't write it. Notification
+ * failures are logged, never thrown — the message is already saved and shows
+ * up in the recipient's inbox either way.
+ */
+export async function relayThreadMessage(
+  ctx: ShowingContext,
+  thread: MessageThreadRow,
+  listing: ShowingListing,
+  from: ThreadRole,
+  body: string,
+): Promise<void> {
+  const [inquirer, owner] = await Promise.all([
+    loadProfile(ctx.supabase, thread.inquirer_user_id),
+    loadProfile(ctx.supabase, thread.owner_user_id),
+  ]);
+  const inboxUrl = threadInboxUrl(ctx.siteUrl, thread.id);
+
+  if (from === "inquirer") {
+    const senderName = inquirer.full_name?.trim() || "A Hadirot user";
+    const sms = [
+      `Hadirot Alert: New message from ${senderName} about your ${listing.desc}:`,
+      `"${body.slice(0, 300)}${body.length > 300 ? "…" : ""}"`,
+      `Reply to this text to answer, or view the thread: ${inboxUrl}`,
+    ].join("\n");
+
+    await closeMessageConversations(ctx, thread.id, "superseded");
+    const sid = await sendRelaySms(ctx, listing.contactPhone, sms, { listingId: listing.id, threadId: thread.id });
+
+    const ownerPhone = formatPhoneForSMS(listing.contactPhone);
+    if (ownerPhone) {
+      const { error: convError } = await ctx.supabase
+        .from("listing_renewal_conversations")
+        .insert({
+          listing_id: listing.id,
+          user_id: listing.userId,
+          phone_number: ownerPhone,
+          batch_id: null,
+          listing_index: null,
+          total_in_batch: null,
+          message_sent_at: new Date().toISOString(),
+          message_sid: sid,
+          expires_at: new Date(Date.now() + MESSAGE_CONVERSATION_TTL_MS).toISOString(),
+          state: MESSAGE_CONVERSATION_STATE,
+          conversation_type: "message",
+          is_commercial: listing.isCommercial,
+          metadata: { thread_id: thread.id, inquiry_from: senderName },
+        });
+      if (convError) console.error("Error creating message conversation:", convError);
+    }
+
+    await sendRelayEmail(ctx, owner.email, threadReplyAddress(thread.owner_reply_token), {
+      subject: `New message about ${listing.desc} - Hadirot`,
+      title: `Message from ${senderName}`,
+      intro: `About your <a href="${listing.url}" style="color:#1E4A74;">${escapeHtml(listing.desc)}</a>:`,
+      body,
+      inboxUrl,
+    });
+    return;
+  }
+
+  const ownerName = listing.contactName?.trim() || owner.full_name?.trim() || "The lister";
+  await sendRelayEmail(ctx, inquirer.email, threadReplyAddress(thread.inquirer_reply_token), {
+    subject: `Reply about ${listing.desc} - Hadirot`,
+    title: `${ownerName} replied`,
+    intro: `About <a href="${listing.url}" style="color:#1E4A74;">${escapeHtml(listing.desc)}</a>:`,
+    body,
+    inboxUrl,
+  });
+}
+
+async function sendRelayEmail(
+  ctx: ShowingContext,
+  to: string | null,
+  replyTo: string | undefined,
+  params: { subject: string; title: string; intro: string; body: string; inboxUrl: string },
+): Promise<void> {
+  if (!to) return;
+  const quoted = escapeHtml(params.body).replace(/\n/g, "<br>");
+  const footer = replyTo
+    ? "Reply to this email to answer — your reply is added to the conversation on Hadirot."
+    : "Open the conversation on Hadirot to reply.";
+  try {
+    await sendEmailViaOutbox(ctx.supabase, {
+      to,
+      subject: params.subject,
+      replyTo,
+      html: renderBrandEmail({
+        title: escapeHtml(params.title),
+        intro: params.intro,
+        bodyHtml: `<blockquote style="margin:0 0 16px 0;padding:12px 16px;background-color:#F3F4F6;border-left:3px solid #1E4A74;">${quoted}</blockquote>
+          <p style="font-size:13px;color:#6B7280;">${footer}</p>`,
+        ctaLabel: "View Conversation",
+        ctaHref: params.inboxUrl,
+      }),
+    }, MESSAGE_SMS_SOURCE);
+  } catch (err) {
+    console.error("Failed to send message relay email:", err);
+  }
+}
@@ -0,0 +1,265 @@
+// Per-category notification preferences (notification_preferences,
+// 20261018170000_notification_preferences.sql) and the signed one-click
+// unsubscribe link every category email carries.
+//
+// Senders call prepareCategoryEmail() per recipient: it returns null when
+// the recipient turned the category off, otherwise the html with an
+// unsubscribe footer and the List-Unsubscribe headers mail clients use for
+// their own unsubscribe button (RFC 8058). SMS senders check
+// isNotificationOptedOut() directly; STOP still opts a number out of
+// everything through the SMS consent registry.
+//
+// Unsubscribe tokens are signed like _shared/sms-link-token.ts (HMAC keyed
+// by SUPABASE_SERVICE_ROLE_KEY) but don't expire — an unsubscribe link in a
+// year-old email must still work. The public email-unsubscribe function
+// verifies them.
+//
+// Checks fail open on query errors, like the suppression list.
+
+// deno-lint-ignore no-explicit-any
+type SupabaseLike = any;
+
+export type NotificationChannel = "email" | "sms";
+
+export type NotificationCategory =
+  | "listing_updates"
+  | "listing_expiry"
+  | "alerts"
+  | "weekly_reports"
+  | "digests"
+  | "account";
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  listing_updates: "listing updates",
+  listing_expiry: "listing expiry reminders",
+  alerts: "saved search and price drop alerts",
+  weekly_reports: "weekly listing reports",
+  digests: "listing digests",
+  account: "account notices",
+};
+
+export function isNotificationCategory(value: unknown): value is NotificationCategory {
+  return typeof value === "string" && value in NOTIFICATION_CATEGORY_LABELS;
+}
+
+const SITE_URL = Deno.env.get("PUBLIC_SITE_URL") || "https://hadirot.com";
+
+export const PREFERENCES_URL = `${SITE_URL.replace(/\/+$/, "")}/account?tab=settings`;
+
+/** True when the user turned `category` off for `channel`. */
+export async function isNotificationOptedOut(
+  supabase: SupabaseLike,
+  userId: string | null | undefined,
+  channel: NotificationChannel,
+  category: NotificationCategory,
+): Promise<boolean> {
+  if (!userId) return false;
+  try {
+    const { data, error } = await supabase
+      .from("notification_preferences")
+      .select("email_opt_outs, sms_opt_outs")
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) throw error;
+    const optOuts: string[] = (channel === "email" ? data?.email_opt_outs : data?.sms_opt_outs) ?? [];
+    return optOuts.includes(category);
+  } catch (err) {
+    console.error("Notification preference check failed, sending anyway:", err);
+    return false;
+  }
+}
+
+/** Users who turned `category` off for `channel`, for batch senders. */
+export async function getOptedOutUserIds(
+  supabase: SupabaseLike,
+  channel: NotificationChannel,
+  category: NotificationCategory,
+): Promise<Set<string>> {
+  try {
+    const { data, error } = await supabase
+      .from("notification_preferences")
+      .select("user_id")
+      .contains(channel === "email" ? "email_opt_outs" : "sms_opt_outs", [category]);
+    if (error) throw error;
+    return new Set(((data ?? []) as { user_id: string }[]).map((r) => r.user_id));
+  } catch (err) {
+    console.error("Notification preference lookup failed, sending to everyone:", err);
+    return new Set();
+  }
+}
+
+/** The account behind an address, for senders that only have the email. */
+export async function findUserIdByEmail(supabase: SupabaseLike, address: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id")
+    // ilike for case; escape its wildcards, "_" is common in addresses.
+    .ilike("email", address.trim().replace(/[\\%_]/g, "\\$&"))
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    console.error(`Error looking up profile for ${address}:`, error);
+    return null;
+  }
+  return data?.id ?? null;
+}
+
+/** Adds `categories` to a user's email opt-outs. */
+export async function addEmailOptOut(
+  supabase: SupabaseLike,
+  userId: string,
+  categories: NotificationCategory[],
+): Promise<void> {
+  const { data, error: readError } = await supabase
+    .from("notification_preferences")
+    .select("email_opt_outs")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (readError) throw readError;
+
+  const optOuts = new Set<string>(data?.email_opt_outs ?? []);
+  categories.forEach((c) => optOuts.add(c));
+
+  const { error } = await supabase
+    .from("notification_preferences")
+    .upsert(
+      { user_id: userId, email_opt_outs: [...optOuts], updated_at: new Date().toISOString() },
+      { onConflict: "user_id" },
+    );
+  if (error) throw error;
+}
+
+// ------------------------------------------------------------------
+// Unsubscribe tokens
+// ------------------------------------------------------------------
+
+export interface UnsubscribeTokenPayload {
+  u: string | null; // user_id; null for an address with no account
+  m: string; // recipient address
+  c: NotificationCategory;
+}
+
+function base64urlEncode(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64urlDecode(str: string): Uint8Array {
+  const pad = str.length % 4 === 0 ? "" : "=".repeat(4 - (str.length % 4));
+  const bin = atob(str.replace(/-/g, "+").replace(/_/g, "/") + pad);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+async function importKey(secret: string): Promise<CryptoKey> {
+  return await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+export async function signUnsubscribeToken(payload: UnsubscribeTokenPayload, secret: string): Promise<string> {
+  const body = base64urlEncode(new TextEncoder().encode(JSON.stringify(payload)));
+  const key = await importKey(secret);
+  const sigBuf = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(body));
+  return `${body}.${base64urlEncode(new Uint8Array(sigBuf))}`;
+}
+
+export async function verifyUnsubscribeToken(token: string, secret: string): Promise<UnsubscribeTokenPayload | null> {
+  const parts = token.split(".");
+  if (parts.length !== 2) return null;
+  const [body, sig] = parts;
+
+  try {
+    const key = await importKey(secret);
+    const expected = new Uint8Array(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(body)));
+    if (!timingSafeEqual(expected, base64urlDecode(sig))) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(base64urlDecode(body))) as UnsubscribeTokenPayload;
+    if (!payload.m || !isNotificationCategory(payload.c)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export async function unsubscribeUrl(payload: UnsubscribeTokenPayload): Promise<string> {
+  const token = await signUnsubscribeToken(payload, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "");
+  return `${Deno.env.get("SUPABASE_URL")}/functions/v1/email-unsubscribe?token=${token}`;
+}
+
+// ------------------------------------------------------------------
+// Category emails
+// ------------------------------------------------------------------
+
+export interface CategoryEmail {
+  html: string;
+  /** List-Unsubscribe headers for ZeptoParams.headers. */
+  headers: Record<string, string>;
+  /** For senders that also send a plain-text part. */
+  unsubscribeUrl: string;
+}
+
+function unsubscribeFooter(url: string, category: NotificationCategory): string {
+  return `
+    <div style="font-family:Arial,sans-serif;max-width:600px;margin:0 auto;padding:12px 24px;color:#6B7280;font-size:12px;text-align:center;">
+      You're receiving this because you get Hadirot ${NOTIFICATION_CATEGORY_LABELS[category]}.
+      <a href="${url}" style="color:#6B7280;">Unsubscribe</a> ·
+      <a href="${PREFERENCES_URL}" style="color:#6B7280;">Manage email preferences</a>
+    </div>
+  `;
+}
+
+/**
+ * Adds the unsubscribe footer and headers to one recipient's copy of a
+ * `category` email, for senders that checked isNotificationOptedOut()
+ * themselves.
+ */
+export async function withUnsubscribeLink(
+  to: string,
+  html: string,
+  category: NotificationCategory,
+  userId: string | null,
+): Promise<CategoryEmail> {
+  const url = await unsubscribeUrl({ u: userId, m: to.trim().toLowerCase(), c: category });
+  return {
+    html: html + unsubscribeFooter(url, category),
+    headers: {
+      "List-Unsubscribe": `<${url}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+    unsubscribeUrl: url,
+  };
+}
+
+/**
+ * Prepares one recipient's copy of a `category` email: null when they've
+ * unsubscribed from it, otherwise withUnsubscribeLink(). Pass `userId` when
+ * the sender already has it.
+ */
+export async function prepareCategoryEmail(
+  supabase: SupabaseLike,
+  to: string,
+  html: string,
+  category: NotificationCategory,
+  userId?: string | null,
+): Promise<CategoryEmail | null> {
+  const resolvedUserId = userId ?? await findUserIdByEmail(supabase, to);
+  if (await isNotificationOptedOut(supabase, resolvedUserId, "email", category)) {
+    console.log(`${to} unsubscribed from ${category} email, skipping`);
+    return null;
+  }
+  return await withUnsubscribeLink(to, html, category, resolvedUserId);
+}
@@ -0,0 +1,529 @@
+// Durable outbox for every outbound SMS and email
+// (message_outbox, 20261018150000_message_outbox.sql).
+//
+// sendSmsViaOutbox() / sendEmailViaOutbox() record the message and, unless
+// it has to wait, try it right away — so in the normal case the caller gets
+// the provider's id exactly as from sendSms() / sendViaZepto(). A message
+// waits when:
+//   - the send window is closed (_shared/sendWindow.ts) and the message
+//     respects it — automated messages do; replies to someone who just
+//     texted us, admin messages and transactional email pass
+//     `respectSendWindow: false`;
+//   - the recipient already got RATE_LIMITS' worth this hour;
+//   - the first try failed with something retryable (network error, 429,
+//     5xx). Retries back off exponentially up to the row's max_attempts,
+//     then the row is parked as 'dead' for an admin.
+// process-message-outbox sends waiting rows once they're due.
+//
+// A waiting SMS comes back as ok with messageId "deferred:<outbox id>" and
+// `deferredUntil` set. Callers log and link it exactly like a sent one (use
+// status "queued"); the worker swaps in the provider's id on sms_messages
+// and listing_renewal_conversations when it goes out, and the outbox
+// trigger marks them failed / cancelled if it never does. Callers that
+// start a reply timeout should count it from `deferredUntil`.
+//
+// WhatsApp messages (`channel: "whatsapp"`) are SMS rows with the channel
+// in the payload: same queue, send window and per-number rate limit, but
+// checked against WhatsApp consent and sent through the WhatsApp provider.
+//
+// `idempotencyKey` (unique) makes a repeat of the same logical message — a
+// cron re-run, a double submit — return the first one instead of sending
+// again.
+//
+// Email to an address on the suppression list (_shared/emailSuppression.ts)
+// is dropped, both on the first try and when a queued row comes due; an
+// email with no deliverable recipient left is recorded as 'cancelled'.
+//
+// If the outbox itself can't be written the message is sent directly, so
+// this never loses a message the old inline send would have delivered.
+
+import { getSmsProvider, sendSms, type MessagingChannel, type SmsSendResult } from "./sms.ts";
+import { sendViaZepto, ZeptoError, type ZeptoParams } from "./zepto.ts";
+import { checkSendWindow, type SendWindowReason } from "./sendWindow.ts";
+import { isSmsOptedOut, recordCarrierOptOut } from "./smsConsent.ts";
+import { isWhatsAppOptedOut } from "./whatsappConsent.ts";
+import { filterSuppressedEmails } from "./emailSuppression.ts";
+
+// deno-lint-ignore no-explicit-any
+type SupabaseLike = any;
+
+export const DEFERRED_SID_PREFIX = "deferred:";
+
+export type OutboxChannel = "sms" | "email";
+export type OutboxStatus = "queued" | "sending" | "sent" | "failed" | "dead" | "cancelled";
+export type OutboxReason = SendWindowReason | "retry" | "rate_limit";
+
+export interface OutboxRow {
+  id: string;
+  channel: OutboxChannel;
+  recipient: string;
+  subject: string | null;
+  body: string;
+  payload: Record<string, unknown> | null;
+  message_source: string | null;
+  reason: OutboxReason | null;
+  send_after: string;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  respect_send_window: boolean;
+  provider_message_id: string | null;
+  last_error: string | null;
+}
+
+export const OUTBOX_COLUMNS =
+  "id, channel, recipient, subject, body, payload, message_source, reason, send_after, status, attempts, max_attempts, respect_send_window, provider_message_id, last_error";
+
+export interface OutboxOptions {
+  /** Hold the message while the send window is closed. Default true. */
+  respectSendWindow?: boolean;
+  idempotencyKey?: string;
+}
+
+/** Sends per recipient per rolling hour before the rest wait. */
+export const RATE_LIMITS: Record<OutboxChannel, number> = { sms: 15, email: 30 };
+const RATE_WINDOW_MS = 60 * 60 * 1000;
+
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 2 * 60 * 60 * 1000;
+
+/** 1, 2, 4 … minutes, capped at two hours, with ±20% jitter so a burst doesn't retry in lockstep. */
+export function retryDelayMs(attempts: number): number {
+  const base = Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+// ------------------------------------------------------------------
+// Queue bookkeeping
+// ------------------------------------------------------------------
+
+async function findByIdempotencyKey(supabase: SupabaseLike, key: string): Promise<OutboxRow | null> {
+  const { data, error } = await supabase
+    .from("message_outbox")
+    .select(OUTBOX_COLUMNS)
+    .eq("idempotency_key", key)
+    .maybeSingle();
+  if (error) {
+    console.error("Outbox idempotency lookup failed:", error);
+    return null;
+  }
+  return data as OutboxRow | null;
+}
+
+/** When the recipient may get another message, or null if they're under the limit. Fails open. */
+export async function rateLimitedUntil(
+  supabase: SupabaseLike,
+  channel: OutboxChannel,
+  recipient: string,
+): Promise<Date | null> {
+  try {
+    const since = new Date(Date.now() - RATE_WINDOW_MS).toISOString();
+    const { data, count, error } = await supabase
+      .from("message_outbox")
+      .select("sent_at", { count: "exact" })
+      .eq("channel", channel)
+      .eq("recipient", recipient)
+      .eq("status", "sent")
+      .gte("sent_at", since)
+      .order("sent_at", { ascending: true })
+      .limit(1);
+    if (error) {
+      console.error("Outbox rate-limit check failed, not limiting:", error);
+      return null;
+    }
+    if ((count ?? 0) < RATE_LIMITS[channel] || !data?.[0]?.sent_at) return null;
+    return new Date(new Date(data[0].sent_at).getTime() + RATE_WINDOW_MS);
+  } catch (err) {
+    console.error("Outbox rate-limit check threw, not limiting:", err);
+    return null;
+  }
+}
+
+/** Why and until when a new message has to wait; null to send it now. */
+async function holdFor(
+  supabase: SupabaseLike,
+  channel: OutboxChannel,
+  recipient: string,
+  respectSendWindow: boolean,
+): Promise<{ reason: OutboxReason; until: Date } | null> {
+  if (respectSendWindow) {
+    const window = await checkSendWindow(supabase);
+    if (!window.open && window.opensAt) return { reason: window.reason!, until: window.opensAt };
+  }
+  const limited = await rateLimitedUntil(supabase, channel, recipient);
+  return limited ? { reason: "rate_limit", until: limited } : null;
+}
+
+async function insertRow(
+  supabase: SupabaseLike,
+  row: Record<string, unknown>,
+  idempotencyKey: string | undefined,
+): Promise<{ row: OutboxRow | null; duplicate: boolean }> {
+  try {
+    const { data, error } = await supabase
+      .from("message_outbox")
+      .insert({ ...row, idempotency_key: idempotencyKey ?? null })
+      .select(OUTBOX_COLUMNS)
+      .single();
+    if (error) {
+      // Unique violation on idempotency_key: a concurrent send won the race.
+      if (error.code === "23505" && idempotencyKey) {
+        const existing = await findByIdempotencyKey(supabase, idempotencyKey);
+        if (existing) return { row: existing, duplicate: true };
+      }
+      console.error("Outbox insert failed, sending directly:", error);
+      return { row: null, duplicate: false };
+    }
+    return { row: data as OutboxRow, duplicate: false };
+  } catch (err) {
+    console.error("Outbox insert threw, sending directly:", err);
+    return { row: null, duplicate: false };
+  }
+}
+
+interface AttemptOutcome {
+  ok: boolean;
+  retryable: boolean;
+  provider: string | null;
+  messageId: string | null;
+  error: string | null;
+}
+
+/**
+ * Records the result of one attempt on a claimed ('sending') row and returns
+ * its new status and, when it's waiting again, when it's next due.
+ */
+async function settle(
+  supabase: SupabaseLike,
+  row: OutboxRow,
+  attempts: number,
+  outcome: AttemptOutcome,
+): Promise<{ status: OutboxStatus; sendAfter: string | null }> {
+  let update: Record<string, unknown>;
+  let sendAfter: string | null = null;
+
+  if (outcome.ok) {
+    update = {
+      status: "sent",
+      sent_at: new Date().toISOString(),
+      provider: outcome.provider,
+      provider_message_id: outcome.messageId,
+      last_error: null,
+    };
+  } else if (outcome.retryable && attempts < row.max_attempts) {
+    sendAfter = new Date(Date.now() + retryDelayMs(attempts)).toISOString();
+    update = { status: "queued", reason: "retry", send_after: sendAfter, provider: outcome.provider, last_error: outcome.error };
+  } else {
+    update = { status: outcome.retryable ? "dead" : "failed", provider: outcome.provider, last_error: outcome.error };
+  }
+
+  const { error } = await supabase
+    .from("message_outbox")
+    .update({ ...update, locked_at: null })
+    .eq("id", row.id);
+  if (error) console.error(`Outbox row ${row.id} update failed:`, error);
+
+  return { status: update.status as OutboxStatus, sendAfter };
+}
+
+async function attemptEmail(params: ZeptoParams): Promise<AttemptOutcome> {
+  try {
+    const result = await sendViaZepto(params);
+    return { ok: true, retryable: false, provider: "zeptomail", messageId: result?.request_id ?? null, error: null };
+  } catch (err) {
+    return {
+      ok: false,
+      // Anything that isn't a ZeptoError (a bug, a bad payload) won't fix itself.
+      retryable: err instanceof ZeptoError ? err.retryable : false,
+      provider: "zeptomail",
+      messageId: null,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+function smsOutcome(result: SmsSendResult): AttemptOutcome {
+  return {
+    ok: result.ok,
+    retryable: result.retryable,
+    provider: result.provider,
+    messageId: result.messageId,
+    error: result.ok ? null : [result.errorCode, result.errorMessage].filter(Boolean).join(" ") || "Send failed",
+  };
+}
+
+function messagingChannel(row: OutboxRow): MessagingChannel {
+  return row.payload?.channel === "whatsapp" ? "whatsapp" : "sms";
+}
+
+function emailParamsFromRow(row: OutboxRow): ZeptoParams {
+  return {
+    ...((row.payload ?? {}) as Partial<ZeptoParams>),
+    to: row.recipient.split(","),
+    subject: row.subject ?? "",
+    html: row.body,
+  };
+}
+
+// ------------------------------------------------------------------
+// Senders
+// ------------------------------------------------------------------
+
+export type OutboxSmsResult = SmsSendResult & {
+  /** ISO time a waiting message is next due; null when it was sent now. */
+  deferredUntil: string | null;
+};
+
+function waitingSmsResult(row: OutboxRow, until: string): OutboxSmsResult {
+  return {
+    ok: true,
+    provider: messagingChannel(row) === "whatsapp" ? "whatsapp" : getSmsProvider().name,
+    messageId: `${DEFERRED_SID_PREFIX}${row.id}`,
+    errorCode: null,
+    errorMessage: null,
+    optedOut: false,
+    retryable: false,
+    deferredUntil: until,
+  };
+}
+
+/** What an idempotent repeat returns: the first message's outcome. */
+function existingSmsResult(row: OutboxRow): OutboxSmsResult {
+  if (row.status === "sent") {
+    return { ...waitingSmsResult(row, row.send_after), messageId: row.provider_message_id, deferredUntil: null };
+  }
+  if (row.status === "queued" || row.status === "sending") return waitingSmsResult(row, row.send_after);
+  return {
+    ...waitingSmsResult(row, row.send_after),
+    ok: false,
+    messageId: null,
+    errorMessage: row.last_error ?? `Message ${row.status}`,
+    deferredUntil: null,
+  };
+}
+
+/** sendSms() through the outbox. Never throws. */
+export async function sendSmsViaOutbox(
+  supabase: SupabaseLike,
+  to: string,
+  body: string,
+  source: string,
+  opts: OutboxOptions & {
+    /** Keyword confirmations (STOP / START / HELP) still reach an opted-out number. */
+    allowOptedOut?: boolean;
+    /** "whatsapp" for a number that opted in to WhatsApp. Default "sms". */
+    channel?: MessagingChannel;
+  } = {},
+): Promise<OutboxSmsResult> {
+  const channel = opts.channel ?? "sms";
+  if (opts.idempotencyKey) {
+    const existing = await findByIdempotencyKey(supabase, opts.idempotencyKey);
+    if (existing) {
+      console.log(`SMS ${opts.idempotencyKey} already in outbox (${existing.status}), not sending again`);
+      return existingSmsResult(existing);
+    }
+  }
+
+  const payload: Record<string, unknown> = {};
+  if (opts.allowOptedOut) payload.allow_opted_out = true;
+  if (channel !== "sms") payload.channel = channel;
+
+  const respectSendWindow = opts.respectSendWindow ?? true;
+  const hold = await holdFor(supabase, "sms", to, respectSendWindow);
+  const { row, duplicate } = await insertRow(supabase, {
+    channel: "sms",
+    recipient: to,
+    body,
+    payload: Object.keys(payload).length > 0 ? payload : null,
+    message_source: source,
+    respect_send_window: respectSendWindow,
+    reason: hold?.reason ?? null,
+    send_after: (hold?.until ?? new Date()).toISOString(),
+    status: hold ? "queued" : "sending",
+    attempts: hold ? 0 : 1,
+    locked_at: hold ? null : new Date().toISOString(),
+  }, opts.idempotencyKey);
+
+  if (duplicate && row) return existingSmsResult(row);
+  if (!row) return { ...(await sendSms(to, body, channel)), deferredUntil: null };
+
+  if (hold) {
+    console.log(`${channel === "whatsapp" ? "WhatsApp" : "SMS"} to ${to} held (${hold.reason}) until ${hold.until.toISOString()}`);
+    return waitingSmsResult(row, hold.until.toISOString());
+  }
+
+  const result = await sendSms(to, body, channel);
+  const settled = await settle(supabase, row, 1, smsOutcome(result));
+  if (settled.status === "queued" && settled.sendAfter) {
+    console.warn(`SMS to ${to} failed (${result.errorCode ?? result.errorMessage}), retrying at ${settled.sendAfter}`);
+    return waitingSmsResult(row, settled.sendAfter);
+  }
+  return { ...result, deferredUntil: null };
+}
+
+export interface OutboxEmailResult {
+  /** ZeptoMail request id; null while the email is waiting. */
+  messageId: string | null;
+  deferredUntil: string | null;
+  /** The message_outbox row; null when the outbox couldn't be written. */
+  outboxId: string | null;
+  /** Recipients dropped because they're on the suppression list. */
+  suppressed: string[];
+}
+
+/**
+ * sendViaZepto() through the outbox. Throws like sendViaZepto when the
+ * email is rejected outright or every recipient is suppressed; a retryable
+ * failure resolves with `deferredUntil` set instead.
+ */
+export async function sendEmailViaOutbox(
+  supabase: SupabaseLike,
+  params: ZeptoParams,
+  source: string,
+  opts: OutboxOptions = {},
+): Promise<OutboxEmailResult> {
+  const existingResult = (row: OutboxRow): OutboxEmailResult => {
+    if (row.status === "failed" || row.status === "dead" || row.status === "cancelled") {
+      throw new ZeptoError(row.last_error ?? `Email ${row.status}`, null, false);
+    }
+    return row.status === "sent"
+      ? { messageId: row.provider_message_id, deferredUntil: null, outboxId: row.id, suppressed: [] }
+      : { messageId: null, deferredUntil: row.send_after, outboxId: row.id, suppressed: [] };
+  };
+
+  if (opts.idempotencyKey) {
+    const existing = await findByIdempotencyKey(supabase, opts.idempotencyKey);
+    if (existing) {
+      console.log(`Email ${opts.idempotencyKey} already in outbox (${existing.status}), not sending again`);
+      return existingResult(existing);
+    }
+  }
+
+  const { to, subject, html, ...extras } = params;
+  const { allowed, suppressed } = await filterSuppressedEmails(supabase, Array.isArray(to) ? to : [to]);
+  const respectSendWindow = opts.respectSendWindow ?? true;
+
+  if (allowed.length === 0) {
+    const reason = `All recipients are on the suppression list: ${suppressed.join(", ")}`;
+    console.warn(`Email "${subject}" not sent. ${reason}`);
+    await insertRow(supabase, {
+      channel: "email",
+      recipient: suppressed.join(","),
+      subject,
+      body: html,
+      payload: Object.keys(extras).length > 0 ? extras : null,
+      message_source: source,
+      respect_send_window: respectSendWindow,
+      send_after: new Date().toISOString(),
+      status: "cancelled",
+      attempts: 0,
+      last_error: reason,
+    }, opts.idempotencyKey);
+    throw new ZeptoError(reason, null, false);
+  }
+  if (suppressed.length > 0) console.warn(`Email "${subject}" skipping suppressed: ${suppressed.join(", ")}`);
+
+  const recipient = allowed.join(",");
+  const hold = await holdFor(supabase, "email", recipient, respectSendWindow);
+  const { row, duplicate } = await insertRow(supabase, {
+    channel: "email",
+    recipient,
+    subject,
+    body: html,
+    payload: Object.keys(extras).length > 0 ? extras : null,
+    message_source: source,
+    respect_send_window: respectSendWindow,
+    reason: hold?.reason ?? null,
+    send_after: (hold?.until ?? new Date()).toISOString(),
+    status: hold ? "queued" : "sending",
+    attempts: hold ? 0 : 1,
+    locked_at: hold ? null : new Date().toISOString(),
+  }, opts.idempotencyKey);
+
+  if (duplicate && row) return existingResult(row);
+  if (!row) {
+    const result = await sendViaZepto({ ...params, to: allowed });
+    return { messageId: result?.request_id ?? null, deferredUntil: null, outboxId: null, suppressed };
+  }
+
+  if (hold) {
+    console.log(`Email to ${recipient} held (${hold.reason}) until ${hold.until.toISOString()}`);
+    return { messageId: null, deferredUntil: hold.until.toISOString(), outboxId: row.id, suppressed };
+  }
+
+  const outcome = await attemptEmail({ ...params, to: allowed });
+  const settled = await settle(supabase, row, 1, outcome);
+  if (settled.status === "queued" && settled.sendAfter) {
+    console.warn(`Email to ${recipient} failed (${outcome.error}), retrying at ${settled.sendAfter}`);
+    return { messageId: null, deferredUntil: settled.sendAfter, outboxId: row.id, suppressed };
+  }
+  if (!outcome.ok) throw new ZeptoError(outcome.error ?? "ZeptoMail error", null, false);
+  return { messageId: outcome.messageId, deferredUntil: null, outboxId: row.id, suppressed };
+}
+
+// ------------------------------------------------------------------
+// Worker
+// ------------------------------------------------------------------
+
+/**
+ * Claims one due 'queued' row and tries it (process-message-outbox).
+ * Returns its new status, or null when another run claimed it first.
+ * The caller has already checked the send window and rate limit.
+ */
+export async function deliverOutboxRow(supabase: SupabaseLike, row: OutboxRow): Promise<OutboxStatus | null> {
+  const attempts = row.attempts + 1;
+  const { data: claimed } = await supabase
+    .from("message_outbox")
+    .update({ status: "sending", attempts, locked_at: new Date().toISOString() })
+    .eq("id", row.id)
+    .eq("status", "queued")
+    .select("id")
+    .maybeSingle();
+  if (!claimed) return null;
+
+  if (row.channel === "email") {
+    // Suppressed while it waited (a bounce on an earlier email to the same address).
+    const params = emailParamsFromRow(row);
+    const { allowed, suppressed } = await filterSuppressedEmails(supabase, params.to as string[]);
+    if (allowed.length === 0) {
+      await supabase
+        .from("message_outbox")
+        .update({ status: "cancelled", last_error: `All recipients are on the suppression list: ${suppressed.join(", ")}`, locked_at: null })
+        .eq("id", row.id);
+      return "cancelled";
+    }
+    const outcome = await attemptEmail({ ...params, to: allowed });
+    if (!outcome.ok) console.error(`Outbox email ${row.id} attempt ${attempts} failed:`, outcome.error);
+    return (await settle(supabase, row, attempts, outcome)).status;
+  }
+
+  const channel = messagingChannel(row);
+  const optedOut = channel === "whatsapp" ? isWhatsAppOptedOut : isSmsOptedOut;
+  if (row.payload?.allow_opted_out !== true && await optedOut(supabase, row.recipient)) {
+    // The outbox trigger marks the log row and closes its conversation.
+    await supabase
+      .from("message_outbox")
+      .update({ status: "cancelled", last_error: "Number opted out while queued", locked_at: null })
+      .eq("id", row.id);
+    return "cancelled";
+  }
+
+  const result = await sendSms(row.recipient, row.body, channel);
+  if (!result.ok) {
+    console.error(`Outbox SMS ${row.id} attempt ${attempts} via ${result.provider} failed:`, result.errorCode, result.errorMessage);
+    await recordCarrierOptOut(supabase, row.recipient, result);
+  } else {
+    // Swap the placeholder for the real id so status callbacks and replies match.
+    const placeholderSid = `${DEFERRED_SID_PREFIX}${row.id}`;
+    await supabase
+      .from("sms_messages")
+      .update({ message_sid: result.messageId, status: "sent" })
+      .eq("message_sid", placeholderSid);
+    await supabase
+      .from("listing_renewal_conversations")
+      .update({ message_sid: result.messageId, message_sent_at: new Date().toISOString() })
+      .eq("message_sid", placeholderSid);
+  }
+  const settled = await settle(supabase, row, attempts, smsOutcome(result));
+  return settled.status;
+}
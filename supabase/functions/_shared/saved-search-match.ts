@@ -0,0 +1,232 @@
+// Server-side twin of src/utils/filterUtils.ts#applyFilters for saved-search
+// alerts. A saved search stores the FilterState JSON from useBrowseFilters; a
+// listing "matches" when /browse (or /sales) would show it for those filters.
+//
+// Keep the two in sync: if a filter is added to useBrowseFilters and the
+// browse queries, add it here too or alerts will over-match.
+
+export type SavedSearchMode = 'rental' | 'sale';
+
+export interface SavedSearchFilters {
+  bedrooms?: number[];
+  min_bathrooms?: number;
+  poster_type?: string;
+  agency_name?: string;
+  property_type?: string;
+  property_types?: string[];
+  building_types?: string[];
+  min_price?: number;
+  max_price?: number;
+  parking_included?: boolean;
+  no_fee_only?: boolean;
+  price_reduced_only?: boolean;
+  // Not matched: whether a listing has an open house "this week" depends on
+  // when you look, and a new listing rarely has one scheduled on approval.
+  open_house_this_week?: boolean;
+  neighborhoods?: string[];
+  lease_terms?: string[];
+  // YYYY-MM-DD move-in window; see src/utils/availability.ts.
+  available_from?: string;
+  available_by?: string;
+  searchBounds?: { north: number; south: number; east: number; west: number } | null;
+  // Rings of [lng, lat]; see src/utils/searchPolygon.ts.
+  searchPolygon?: [number, number][][];
+  listingTypeFilter?: 'all' | 'residential' | 'commercial';
+  commercial_space_types?: string[];
+  min_sf?: number;
+  max_sf?: number;
+  commercial_lease_types?: string[];
+  commercial_conditions?: string[];
+  building_classes?: string[];
+}
+
+export interface MatchableListing {
+  listing_type: string | null;
+  price: number | null;
+  asking_price: number | null;
+  neighborhood: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  price_reduced_at?: string | null;
+  // residential
+  bedrooms?: number | null;
+  bathrooms?: number | null;
+  property_type?: string | null;
+  building_type?: string | null;
+  parking?: string | null;
+  broker_fee?: boolean | null;
+  lease_length?: string | null;
+  available_date?: string | null;
+  owner?: { role: string | null; agency: string | null } | null;
+  // commercial
+  commercial_space_type?: string | null;
+  available_sf?: number | null;
+  lease_type?: string | null;
+  build_out_condition?: string | null;
+  building_class?: string | null;
+}
+
+// Keep in sync with PRICE_REDUCED_WINDOW_DAYS in src/types/priceHistory.ts.
+const PRICE_REDUCED_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+function hasValues(arr: unknown[] | undefined): arr is unknown[] {
+  return Array.isArray(arr) && arr.length > 0;
+}
+
+function matchesLeaseTerms(selected: string[], leaseLength: string | null | undefined): boolean {
+  const hasLongTerm = selected.includes('long_term_annual');
+  const special = selected.filter((t) => t !== 'long_term_annual');
+  const isNullOrLongTerm = !leaseLength || leaseLength === 'long_term_annual';
+
+  if (hasLongTerm && special.length > 0) {
+    return isNullOrLongTerm || special.includes(leaseLength!);
+  }
+  if (hasLongTerm) return isNullOrLongTerm;
+  return !!leaseLength && special.includes(leaseLength);
+}
+
+function todayInNYDate(): string {
+  // en-CA formats as YYYY-MM-DD.
+  return new Date().toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+}
+
+// Mirrors isAvailableInRange in src/utils/availability.ts: undated listings
+// never match, and a "from" date that has already arrived doesn't narrow.
+function matchesAvailability(f: SavedSearchFilters, availableDate: string | null | undefined): boolean {
+  if (!f.available_from && !f.available_by) return true;
+  if (!availableDate) return false;
+  const date = availableDate.slice(0, 10);
+  if (f.available_by && date > f.available_by) return false;
+  if (f.available_from && f.available_from > todayInNYDate() && date < f.available_from) return false;
+  return true;
+}
+
+// Same even-odd test as isPointInSearchPolygon in src/utils/searchPolygon.ts
+// and the `point <@ polygon` check in listings_in_search_polygon().
+function isPointInPolygon(lat: number, lng: number, rings: [number, number][][]): boolean {
+  return rings.some((ring) => {
+    if (!Array.isArray(ring) || ring.length < 3) return false;
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  });
+}
+
+function matchesShared(f: SavedSearchFilters, l: MatchableListing): boolean {
+  const isSale = l.listing_type === 'sale';
+  const price = isSale ? l.asking_price : l.price;
+
+  // Call-for-price listings (price NULL) pass price filters, same as browse.
+  if (f.min_price != null && price != null && price < f.min_price) return false;
+  if (f.max_price != null && price != null && price > f.max_price) return false;
+
+  if (hasValues(f.neighborhoods)) {
+    if (!l.neighborhood || !f.neighborhoods!.includes(l.neighborhood)) return false;
+  }
+
+  if (f.price_reduced_only) {
+    if (!l.price_reduced_at) return false;
+    if (Date.now() - new Date(l.price_reduced_at).getTime() > PRICE_REDUCED_WINDOW_MS) return false;
+  }
+
+  if (f.searchBounds) {
+    // Browse excludes un-geocoded listings from a bounded search server-side.
+    if (l.latitude == null || l.longitude == null) return false;
+    const b = f.searchBounds;
+    if (l.latitude < b.south || l.latitude > b.north || l.longitude < b.west || l.longitude > b.east) {
+      return false;
+    }
+  }
+
+  if (hasValues(f.searchPolygon)) {
+    if (l.latitude == null || l.longitude == null) return false;
+    if (!isPointInPolygon(l.latitude, l.longitude, f.searchPolygon!)) return false;
+  }
+
+  return true;
+}
+
+function matchesResidential(f: SavedSearchFilters, l: MatchableListing): boolean {
+  if (hasValues(f.bedrooms) && (l.bedrooms == null || !f.bedrooms!.includes(l.bedrooms))) return false;
+
+  if (f.min_bathrooms && f.min_bathrooms > 0) {
+    if (l.bathrooms == null || l.bathrooms < f.min_bathrooms) return false;
+  }
+
+  const propertyTypes = hasValues(f.property_types)
+    ? f.property_types!
+    : f.property_type ? [f.property_type] : [];
+  if (propertyTypes.length > 0 && (!l.property_type || !propertyTypes.includes(l.property_type))) {
+    return false;
+  }
+
+  if (hasValues(f.building_types) && (!l.building_type || !f.building_types!.includes(l.building_type))) {
+    return false;
+  }
+
+  if (f.parking_included && l.parking !== 'yes' && l.parking !== 'included') return false;
+  if (f.no_fee_only && l.broker_fee !== false) return false;
+
+  if (hasValues(f.lease_terms) && !matchesLeaseTerms(f.lease_terms!, l.lease_length)) return false;
+  if (!matchesAvailability(f, l.available_date)) return false;
+
+  if (f.poster_type === 'owner') {
+    if (!l.owner || (l.owner.role !== 'landlord' && l.owner.role !== 'tenant')) return false;
+  } else if (f.poster_type === 'agent') {
+    if (!l.owner || l.owner.role !== 'agent') return false;
+    if (f.agency_name && l.owner.agency !== f.agency_name) return false;
+  }
+
+  return matchesShared(f, l);
+}
+
+function matchesCommercial(f: SavedSearchFilters, l: MatchableListing): boolean {
+  if (hasValues(f.commercial_space_types)) {
+    if (!l.commercial_space_type || !f.commercial_space_types!.includes(l.commercial_space_type)) return false;
+  }
+  if (f.min_sf && (l.available_sf == null || l.available_sf < f.min_sf)) return false;
+  if (f.max_sf && (l.available_sf == null || l.available_sf > f.max_sf)) return false;
+  if (hasValues(f.commercial_lease_types)) {
+    if (!l.lease_type || !f.commercial_lease_types!.includes(l.lease_type)) return false;
+  }
+  if (hasValues(f.commercial_conditions)) {
+    if (!l.build_out_condition || !f.commercial_conditions!.includes(l.build_out_condition)) return false;
+  }
+  if (hasValues(f.building_classes)) {
+    if (!l.building_class || !f.building_classes!.includes(l.building_class)) return false;
+  }
+
+  return matchesShared(f, l);
+}
+
+/**
+ * Does `listing` belong in the results of a saved search?
+ *
+ * Mirrors the browse pages: residential filters (beds, baths, lease terms,
+ * poster type…) only constrain residential listings and commercial filters
+ * only constrain commercial ones, exactly as BrowseListings passes
+ * `serviceFilters` vs `commercialServiceFilters`.
+ */
+export function listingMatchesSavedSearch(
+  mode: SavedSearchMode,
+  filters: SavedSearchFilters,
+  listing: MatchableListing,
+  isCommercial: boolean,
+): boolean {
+  const listingType = listing.listing_type || 'rental';
+  if (listingType !== mode) return false;
+
+  const typeFilter = filters.listingTypeFilter || 'all';
+  if (isCommercial) {
+    if (typeFilter === 'residential') return false;
+    return matchesCommercial(filters, listing);
+  }
+  if (typeFilter === 'commercial') return false;
+  return matchesResidential(filters, listing);
+}
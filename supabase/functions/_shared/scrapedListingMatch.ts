@@ -0,0 +1,228 @@
+// _shared/scrapedListingMatch.ts
+//
+// Scores a scraped listing against the live (active + approved) listings of
+// the same kind and records the best candidate on the scraped_listings row
+// (match_status / match_score / existing_listing_id / match_details, see
+// 20261018190000_scraped_listing_matching.sql). Used by:
+//   - _shared/intake.ts        (every insert / re-sighting)
+//   - match-scraped-listings   (hourly re-check + the pipeline's "Re-check")
+//
+// Candidates are the listings with the same phone plus the listings within
+// ~300 m of the scraped coordinates. Each is scored out of 100:
+//
+//   phone (last 10 digits)                +40
+//   both cross streets / one of them      +25 / +10   (geocode normalizer)
+//   within 75 m / 200 m                   +15 / +8
+//   same bedrooms / different             +10 / -15
+//   price within 5% / 15% / off by >25%   +10 / +5 / -10
+//
+// >= 70 is 'matched' (same apartment — don't call), >= 40 'partial_match'
+// (same landlord or same corner — check before calling), else 'no_match'.
+// A landlord with several units scores phone + streets on each; bedrooms and
+// price are what separate them.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { normalizeStreet } from '../geocode-cross-streets/normalizer.ts';
+
+export const MATCHED_SCORE = 70;
+export const PARTIAL_MATCH_SCORE = 40;
+
+const NEARBY_METERS = 300;
+const CANDIDATE_LIMIT = 50;
+
+const LISTING_COLUMNS =
+  'id, contact_phone_e164, cross_street_a, cross_street_b, latitude, longitude, bedrooms, price, asking_price';
+
+export type ScrapedMatchStatus = 'no_match' | 'partial_match' | 'matched';
+
+export interface ScrapedMatchInput {
+  listing_kind: 'rental' | 'sale';
+  contact_phone: string | null;
+  cross_street_1: string | null;
+  cross_street_2: string | null;
+  bedrooms: number | null;
+  /** Monthly rent for rentals, asking price for sales. */
+  price: number | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+/** Which signals agreed with the matched listing; null where either side had no value. */
+export interface ScrapedMatchDetails {
+  phone: boolean | null;
+  streets: 'both' | 'one' | 'none' | null;
+  distance_m: number | null;
+  bedrooms: boolean | null;
+  price_diff_pct: number | null;
+  candidates: number;
+}
+
+export interface ScrapedMatchResult {
+  match_status: ScrapedMatchStatus;
+  match_score: number;
+  existing_listing_id: string | null;
+  match_details: ScrapedMatchDetails;
+}
+
+interface LiveListing {
+  id: string;
+  contact_phone_e164: string | null;
+  cross_street_a: string | null;
+  cross_street_b: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  bedrooms: number | null;
+  price: number | null;
+  asking_price: number | null;
+}
+
+/** listings.contact_phone_e164 is '+1' + the last 10 digits (normalize_contact_phone trigger). */
+function toListingPhone(phone: string | null): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 10 ? `+1${digits.slice(-10)}` : null;
+}
+
+function streetKey(name: string | null | undefined): string | null {
+  if (!name?.trim()) return null;
+  return normalizeStreet(name).normalized.toLowerCase();
+}
+
+function distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const rad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * rad;
+  const dLng = (lng2 - lng1) * rad;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(a));
+}
+
+function scoreCandidate(
+  input: ScrapedMatchInput,
+  inputPhone: string | null,
+  inputStreets: string[],
+  live: LiveListing,
+): { score: number; details: Omit<ScrapedMatchDetails, 'candidates'> } {
+  let score = 0;
+
+  const phone = inputPhone && live.contact_phone_e164 ? inputPhone === live.contact_phone_e164 : null;
+  if (phone) score += 40;
+
+  let streets: ScrapedMatchDetails['streets'] = null;
+  const liveStreets = [streetKey(live.cross_street_a), streetKey(live.cross_street_b)].filter((s): s is string => !!s);
+  if (inputStreets.length > 0 && liveStreets.length > 0) {
+    const shared = inputStreets.filter((s) => liveStreets.includes(s)).length;
+    streets = shared >= 2 ? 'both' : shared === 1 ? 'one' : 'none';
+    if (streets === 'both') score += 25;
+    else if (streets === 'one') score += 10;
+  }
+
+  let distance: number | null = null;
+  if (input.latitude != null && input.longitude != null && live.latitude != null && live.longitude != null) {
+    distance = Math.round(distanceMeters(input.latitude, input.longitude, live.latitude, live.longitude));
+    if (distance <= 75) score += 15;
+    else if (distance <= 200) score += 8;
+  }
+
+  let bedrooms: boolean | null = null;
+  if (input.bedrooms != null && live.bedrooms != null) {
+    bedrooms = input.bedrooms === live.bedrooms;
+    score += bedrooms ? 10 : -15;
+  }
+
+  let priceDiff: number | null = null;
+  const livePrice = input.listing_kind === 'sale' ? live.asking_price : live.price;
+  if (input.price && livePrice) {
+    priceDiff = Math.round((Math.abs(input.price - livePrice) / livePrice) * 100);
+    if (priceDiff <= 5) score += 10;
+    else if (priceDiff <= 15) score += 5;
+    else if (priceDiff > 25) score -= 10;
+  }
+
+  return {
+    score: Math.max(0, Math.min(100, score)),
+    details: { phone, streets, distance_m: distance, bedrooms, price_diff_pct: priceDiff },
+  };
+}
+
+/** Finds and scores the live listings that could be the same apartment. */
+export async function findLiveListingMatch(
+  supabase: SupabaseClient,
+  input: ScrapedMatchInput,
+): Promise<ScrapedMatchResult> {
+  const phone = toListingPhone(input.contact_phone);
+  const live = () =>
+    supabase
+      .from('listings')
+      .select(LISTING_COLUMNS)
+      .eq('is_active', true)
+      .eq('approved', true)
+      .eq('listing_type', input.listing_kind);
+
+  const candidates = new Map<string, LiveListing>();
+
+  if (phone) {
+    const { data, error } = await live().eq('contact_phone_e164', phone).limit(CANDIDATE_LIMIT);
+    if (error) throw new Error(`phone candidates: ${error.message}`);
+    for (const row of (data ?? []) as LiveListing[]) candidates.set(row.id, row);
+  }
+
+  if (input.latitude != null && input.longitude != null) {
+    const dLat = NEARBY_METERS / 111320;
+    const dLng = NEARBY_METERS / (111320 * Math.cos((input.latitude * Math.PI) / 180));
+    const { data, error } = await live()
+      .gte('latitude', input.latitude - dLat)
+      .lte('latitude', input.latitude + dLat)
+      .gte('longitude', input.longitude - dLng)
+      .lte('longitude', input.longitude + dLng)
+      .limit(CANDIDATE_LIMIT);
+    if (error) throw new Error(`nearby candidates: ${error.message}`);
+    for (const row of (data ?? []) as LiveListing[]) candidates.set(row.id, row);
+  }
+
+  const inputStreets = [...new Set(
+    [streetKey(input.cross_street_1), streetKey(input.cross_street_2)].filter((s): s is string => !!s),
+  )];
+
+  let best: { id: string; score: number; details: Omit<ScrapedMatchDetails, 'candidates'> } | null = null;
+  for (const candidate of candidates.values()) {
+    const { score, details } = scoreCandidate(input, phone, inputStreets, candidate);
+    if (!best || score > best.score) best = { id: candidate.id, score, details };
+  }
+
+  const score = best?.score ?? 0;
+  const status: ScrapedMatchStatus =
+    score >= MATCHED_SCORE ? 'matched' : score >= PARTIAL_MATCH_SCORE ? 'partial_match' : 'no_match';
+
+  return {
+    match_status: status,
+    match_score: score,
+    existing_listing_id: status === 'no_match' ? null : best!.id,
+    match_details: {
+      ...(best?.details ?? { phone: null, streets: null, distance_m: null, bedrooms: null, price_diff_pct: null }),
+      candidates: candidates.size,
+    },
+  };
+}
+
+/**
+ * Scores the scraped row and stores the result. Never throws — a failed
+ * check leaves the row as it was ('unchecked' for new rows) for the hourly
+ * re-check to pick up.
+ */
+export async function applyLiveListingMatch(
+  supabase: SupabaseClient,
+  scrapedId: string,
+  input: ScrapedMatchInput,
+): Promise<ScrapedMatchResult | null> {
+  try {
+    const result = await findLiveListingMatch(supabase, input);
+    const { error } = await supabase
+      .from('scraped_listings')
+      .update({ ...result, match_checked_at: new Date().toISOString() })
+      .eq('id', scrapedId);
+    if (error) throw new Error(`update failed: ${error.message}`);
+    return result;
+  } catch (err) {
+    console.error(`[match] scraped listing ${scrapedId}:`, err);
+    return null;
+  }
+}
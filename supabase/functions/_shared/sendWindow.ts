@@ -0,0 +1,203 @@
+// Global send window for automated SMS and email
+// (send_window_policy / send_window_blocked_dates,
+// 20261018140000_send_window.sql).
+//
+// Closed before daily_start and after daily_end, from Friday candle lighting
+// to Saturday nightfall, and over any blocked holiday date. The outbox
+// (_shared/outbox.ts) holds messages that respect the window until it opens.
+//
+// The policy load fails open to DEFAULT_SEND_WINDOW_POLICY.
+
+// deno-lint-ignore no-explicit-any
+type SupabaseLike = any;
+
+export type SendWindowReason = "quiet_hours" | "shabbat" | "holiday";
+
+export interface SendWindowPolicy {
+  timezone: string;
+  /** "HH:MM", local. */
+  dailyStart: string;
+  dailyEnd: string;
+  observeShabbat: boolean;
+  latitude: number;
+  longitude: number;
+  candleLightingMinutes: number;
+  havdalahMinutes: number;
+  /** YYYY-MM-DD, local; each is blocked like a Shabbos. */
+  blockedDates: string[];
+}
+
+export interface SendWindowStatus {
+  open: boolean;
+  reason: SendWindowReason | null;
+  /** When the window next opens; null while it's open. */
+  opensAt: Date | null;
+}
+
+export const DEFAULT_SEND_WINDOW_POLICY: SendWindowPolicy = {
+  timezone: "America/New_York",
+  dailyStart: "09:00",
+  dailyEnd: "21:00",
+  observeShabbat: true,
+  latitude: 40.625,
+  longitude: -73.961,
+  candleLightingMinutes: 18,
+  havdalahMinutes: 50,
+  blockedDates: [],
+};
+
+// ------------------------------------------------------------------
+// Policy
+// ------------------------------------------------------------------
+
+// One read per minute per isolate: the crons check the window for every
+// message they send.
+const CACHE_TTL_MS = 60_000;
+let cached: { policy: SendWindowPolicy; loadedAt: number } | null = null;
+
+export async function loadSendWindowPolicy(supabase: SupabaseLike): Promise<SendWindowPolicy> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.policy;
+
+  let policy = DEFAULT_SEND_WINDOW_POLICY;
+  try {
+    // From yesterday (UTC): late evening in New York is already tomorrow in
+    // UTC, and today's holiday must still count until nightfall.
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const [{ data: row, error: policyError }, { data: dates, error: datesError }] = await Promise.all([
+      supabase
+        .from("send_window_policy")
+        .select("timezone, daily_start, daily_end, observe_shabbat, latitude, longitude, candle_lighting_minutes, havdalah_minutes")
+        .eq("id", 1)
+        .maybeSingle(),
+      supabase
+        .from("send_window_blocked_dates")
+        .select("blocked_on")
+        .gte("blocked_on", since),
+    ]);
+    if (policyError || datesError) {
+      console.error("Send window policy load failed, using defaults:", policyError ?? datesError);
+    } else if (row) {
+      policy = {
+        timezone: row.timezone,
+        dailyStart: String(row.daily_start).slice(0, 5),
+        dailyEnd: String(row.daily_end).slice(0, 5),
+        observeShabbat: row.observe_shabbat,
+        latitude: Number(row.latitude),
+        longitude: Number(row.longitude),
+        candleLightingMinutes: row.candle_lighting_minutes,
+        havdalahMinutes: row.havdalah_minutes,
+        blockedDates: (dates ?? []).map((d: { blocked_on: string }) => d.blocked_on),
+      };
+    }
+  } catch (err) {
+    console.error("Send window policy load threw, using defaults:", err);
+  }
+
+  cached = { policy, loadedAt: Date.now() };
+  return policy;
+}
+
+// ------------------------------------------------------------------
+// Window arithmetic
+// ------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STEP_MS = 5 * 60 * 1000;
+const MAX_LOOKAHEAD_MS = 14 * DAY_MS;
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function localParts(at: Date, timezone: string): { date: string; minutes: number } {
+  let fmt = formatters.get(timezone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-CA", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timezone, fmt);
+  }
+  const parts = Object.fromEntries(fmt.formatToParts(at).map((p) => [p.type, p.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + m;
+}
+
+function addDays(date: string, days: number): string {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekday(date: string): number {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+const rad = (deg: number) => (deg * Math.PI) / 180;
+const deg = (r: number) => (r * 180) / Math.PI;
+
+/**
+ * Sunset on `date` at latitude / longitude (east positive), from the
+ * standard sunrise equation — within a minute or two, which the candle
+ * lighting / nightfall margins absorb.
+ */
+export function sunsetOn(date: string, latitude: number, longitude: number): Date {
+  const [y, m, d] = date.split("-").map(Number);
+  const julianMidnight = Date.UTC(y, m - 1, d) / DAY_MS + 2440587.5;
+  const n = Math.ceil(julianMidnight - 2451545.0 + 0.0008);
+  const meanSolarTime = n - longitude / 360;
+  const anomaly = (357.5291 + 0.98560028 * meanSolarTime) % 360;
+  const center = 1.9148 * Math.sin(rad(anomaly)) + 0.02 * Math.sin(rad(2 * anomaly)) + 0.0003 * Math.sin(rad(3 * anomaly));
+  const eclipticLongitude = (anomaly + center + 180 + 102.9372) % 360;
+  const transit = 2451545.0 + meanSolarTime + 0.0053 * Math.sin(rad(anomaly)) - 0.0069 * Math.sin(rad(2 * eclipticLongitude));
+  const declination = Math.asin(Math.sin(rad(eclipticLongitude)) * Math.sin(rad(23.4397)));
+  const cosHourAngle =
+    (Math.sin(rad(-0.833)) - Math.sin(rad(latitude)) * Math.sin(declination)) /
+    (Math.cos(rad(latitude)) * Math.cos(declination));
+  const hourAngle = deg(Math.acos(Math.max(-1, Math.min(1, cosHourAngle))));
+  return new Date((transit + hourAngle / 360 - 2440587.5) * DAY_MS);
+}
+
+function closedReason(policy: SendWindowPolicy, at: Date): SendWindowReason | null {
+  const { date, minutes } = localParts(at, policy.timezone);
+
+  // A rest day runs from candle lighting the evening before to nightfall, so
+  // both today and tomorrow can cover this moment.
+  for (const day of [date, addDays(date, 1)]) {
+    const isHoliday = policy.blockedDates.includes(day);
+    const isShabbat = policy.observeShabbat && weekday(day) === 6;
+    if (!isHoliday && !isShabbat) continue;
+
+    const starts = sunsetOn(addDays(day, -1), policy.latitude, policy.longitude).getTime() - policy.candleLightingMinutes * 60_000;
+    const ends = sunsetOn(day, policy.latitude, policy.longitude).getTime() + policy.havdalahMinutes * 60_000;
+    if (at.getTime() >= starts && at.getTime() < ends) return isShabbat ? "shabbat" : "holiday";
+  }
+
+  if (minutes < toMinutes(policy.dailyStart) || minutes >= toMinutes(policy.dailyEnd)) return "quiet_hours";
+  return null;
+}
+
+export function sendWindowStatus(policy: SendWindowPolicy, at: Date = new Date()): SendWindowStatus {
+  const reason = closedReason(policy, at);
+  if (!reason) return { open: true, reason: null, opensAt: null };
+
+  // Walk forward in 5-minute steps; a yom tov running into Shabbos is the
+  // longest closure (three days), well inside the lookahead.
+  let t = Math.ceil(at.getTime() / STEP_MS) * STEP_MS;
+  const limit = at.getTime() + MAX_LOOKAHEAD_MS;
+  while (t < limit && closedReason(policy, new Date(t))) t += STEP_MS;
+  return { open: false, reason, opensAt: new Date(t) };
+}
+
+export async function checkSendWindow(supabase: SupabaseLike, at: Date = new Date()): Promise<SendWindowStatus> {
+  return sendWindowStatus(await loadSendWindowPolicy(supabase), at);
+}
@@ -0,0 +1,486 @@
+// Showing appointments — shared by request-showing, manage-showing and the
+// inbound SMS webhook (lister CONFIRM / CANCEL replies).
+//
+// Schema: supabase/migrations/20261018070000_showing_appointments.sql.
+//
+// Both sides get a manage link (/showing/<token>): the requester's token lets
+// them reschedule or cancel; the lister's token also lets them confirm. The
+// lister's SMS additionally opens an `awaiting_showing_confirmation`
+// conversation so a plain-text CONFIRM / CANCEL reply works too.
+//
+// Every SMS and email here goes through the outbox (_shared/outbox.ts) and
+// respects the send window: a request made on Shabbos reaches the lister
+// after nightfall.
+
+import { renderBrandEmail } from "./zepto.ts";
+import { escapeHtml } from "./listingEmail.ts";
+import { isSmsOptedOut, recordCarrierOptOut } from "./smsConsent.ts";
+import { formatPhoneForSMS, isSmsConfigured } from "./sms.ts";
+import { sendEmailViaOutbox, sendSmsViaOutbox } from "./outbox.ts";
+
+export { formatPhoneForSMS };
+
+export const SHOWING_TIME_ZONE = "America/New_York";
+export const SHOWING_SMS_SOURCE = "showing_notification";
+export const SHOWING_CONVERSATION_STATE = "awaiting_showing_confirmation";
+
+export type ShowingStatus = "requested" | "confirmed" | "cancelled";
+export type ShowingActor = "requester" | "lister";
+
+export interface ShowingRequestRow {
+  id: string;
+  listing_id: string | null;
+  commercial_listing_id: string | null;
+  starts_at: string;
+  ends_at: string;
+  requester_name: string;
+  requester_phone: string;
+  requester_email: string | null;
+  message: string | null;
+  status: ShowingStatus;
+  cancelled_by: ShowingActor | null;
+  requester_token: string;
+  lister_token: string;
+}
+
+export interface ShowingAvailabilityRow {
+  id: string;
+  starts_at: string;
+  ends_at: string;
+  slot_minutes: number;
+}
+
+export interface ShowingListing {
+  id: string;
+  isCommercial: boolean;
+  userId: string;
+  contactPhone: string;
+  contactName: string | null;
+  listingType: string;
+  /** "2 bd at Ave J & E 15th" / "Retail at 1234 Coney Island Ave" */
+  desc: string;
+  /** Full address or cross streets, for the confirmed-showing message. */
+  address: string;
+  url: string;
+}
+
+export interface ShowingContext {
+  // deno-lint-ignore no-explicit-any
+  supabase: any;
+  siteUrl: string;
+  supabaseUrl: string;
+  /** An SMS provider is configured (see _shared/sms.ts). */
+  smsEnabled: boolean;
+}
+
+export const SHOWING_COLUMNS =
+  "id, listing_id, commercial_listing_id, starts_at, ends_at, requester_name, requester_phone, requester_email, message, status, cancelled_by, requester_token, lister_token";
+
+// deno-lint-ignore no-explicit-any
+export function showingContextFromEnv(supabase: any): ShowingContext {
+  return {
+    supabase,
+    siteUrl: Deno.env.get("PUBLIC_SITE_URL") || "https://hadirot.com",
+    supabaseUrl: Deno.env.get("SUPABASE_URL") || "",
+    smsEnabled: isSmsConfigured(),
+  };
+}
+
+function formatPhoneForDisplay(e164: string): string {
+  const digits = e164.replace(/\D/g, "").slice(-10);
+  return digits.length === 10 ? `${digits.slice(0, 3)}-${digits.slice(3, 6)}-${digits.slice(6)}` : e164;
+}
+
+/** "Sun, Oct 19 at 1:30 PM" in New York time. */
+export function formatShowingWhen(iso: string): string {
+  const d = new Date(iso);
+  const day = d.toLocaleDateString("en-US", {
+    timeZone: SHOWING_TIME_ZONE,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+  const time = d.toLocaleTimeString("en-US", {
+    timeZone: SHOWING_TIME_ZONE,
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  return `${day} at ${time}`;
+}
+
+export function showingManageUrl(siteUrl: string, token: string): string {
+  return `${siteUrl}/showing/${token}`;
+}
+
+/**
+ * A requested slot is bookable when it starts on a slot boundary of one of
+ * the listing's availability windows and ends exactly one slot later, inside
+ * that window. The browser builds its slot list with the same rule
+ * (src/utils/showings.ts).
+ */
+export function isSlotInAvailability(
+  windows: ShowingAvailabilityRow[],
+  startsAt: string,
+  endsAt: string,
+): boolean {
+  const start = new Date(startsAt).getTime();
+  const end = new Date(endsAt).getTime();
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return false;
+  return windows.some((w) => {
+    const wStart = new Date(w.starts_at).getTime();
+    const wEnd = new Date(w.ends_at).getTime();
+    const slotMs = w.slot_minutes * 60 * 1000;
+    return (
+      start >= wStart &&
+      end <= wEnd &&
+      end - start === slotMs &&
+      (start - wStart) % slotMs === 0
+    );
+  });
+}
+
+// deno-lint-ignore no-explicit-any
+export async function loadAvailabilityWindows(supabase: any, listingId: string, isCommercial: boolean): Promise<ShowingAvailabilityRow[]> {
+  const { data, error } = await supabase
+    .from("showing_availability")
+    .select("id, starts_at, ends_at, slot_minutes")
+    .eq(isCommercial ? "commercial_listing_id" : "listing_id", listingId)
+    .gt("ends_at", new Date().toISOString());
+  if (error) {
+    console.error("Error loading showing availability:", error);
+    return [];
+  }
+  return (data ?? []) as ShowingAvailabilityRow[];
+}
+
+function formatSpaceType(raw: string): string {
+  const label = (raw || "commercial").replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+// deno-lint-ignore no-explicit-any
+export async function loadShowingListing(supabase: any, listingId: string, isCommercial: boolean): Promise<ShowingListing | null> {
+  if (isCommercial) {
+    const { data } = await supabase
+      .from("commercial_listings")
+      .select("id, user_id, contact_phone, contact_name, listing_type, commercial_space_type, full_address, cross_street_a, cross_street_b, neighborhood")
+      .eq("id", listingId)
+      .maybeSingle();
+    if (!data) return null;
+    const address = data.full_address
+      || (data.cross_street_a && data.cross_street_b ? `${data.cross_street_a} & ${data.cross_street_b}` : data.neighborhood || "");
+    return {
+      id: data.id,
+      isCommercial: true,
+      userId: data.user_id,
+      contactPhone: data.contact_phone,
+      contactName: data.contact_name ?? null,
+      listingType: data.listing_type,
+      desc: address ? `${formatSpaceType(data.commercial_space_type)} at ${address}` : formatSpaceType(data.commercial_space_type),
+      address,
+      url: `${Deno.env.get("PUBLIC_SITE_URL") || "https://hadirot.com"}/commercial-listing/${data.id}`,
+    };
+  }
+
+  const { data } = await supabase
+    .from("listings")
+    .select("id, user_id, contact_phone, contact_name, listing_type, bedrooms, location, full_address, cross_street_a, cross_street_b, neighborhood")
+    .eq("id", listingId)
+    .maybeSingle();
+  if (!data) return null;
+  const streets = data.cross_street_a && data.cross_street_b
+    ? `${data.cross_street_a} & ${data.cross_street_b}`
+    : data.location || data.neighborhood || "";
+  const bedroomText = data.bedrooms === 0 ? "Studio" : data.bedrooms ? `${data.bedrooms} bd` : "Listing";
+  return {
+    id: data.id,
+    isCommercial: false,
+    userId: data.user_id,
+    contactPhone: data.contact_phone,
+    contactName: data.contact_name ?? null,
+    listingType: data.listing_type,
+    desc: streets ? `${bedroomText} at ${streets}` : bedroomText,
+    address: data.full_address || streets,
+    url: `${Deno.env.get("PUBLIC_SITE_URL") || "https://hadirot.com"}/listing/${data.id}`,
+  };
+}
+
+export async function loadShowingListingForRequest(ctx: ShowingContext, showing: ShowingRequestRow): Promise<ShowingListing | null> {
+  const isCommercial = !!showing.commercial_listing_id;
+  return loadShowingListing(ctx.supabase, (showing.commercial_listing_id ?? showing.listing_id)!, isCommercial);
+}
+
+/**
+ * Sends (or queues, via the outbox) and logs one SMS. Returns the
+ * provider message id — "deferred:<id>" when queued — or null when not sent.
+ */
+export async function sendShowingSms(
+  ctx: ShowingContext,
+  to: string,
+  body: string,
+  refs: { listingId: string; showingId: string; conversationId?: string | null },
+): Promise<string | null> {
+  const phone = formatPhoneForSMS(to);
+  if (!ctx.smsEnabled || !phone) {
+    console.warn("Skipping showing SMS (SMS not configured or bad phone)", { showingId: refs.showingId });
+    return null;
+  }
+  if (await isSmsOptedOut(ctx.supabase, phone)) {
+    console.log("Skipping showing SMS to opted-out number", { showingId: refs.showingId });
+    return null;
+  }
+
+  const result = await sendSmsViaOutbox(ctx.supabase, phone, body, SHOWING_SMS_SOURCE);
+  await ctx.supabase.from("sms_messages").insert({
+    conversation_id: refs.conversationId ?? null,
+    direction: "outbound",
+    phone_number: phone,
+    message_body: body,
+    message_sid: result.messageId,
+    message_source: SHOWING_SMS_SOURCE,
+    listing_id: refs.listingId,
+    status: result.deferredUntil ? "queued" : result.ok ? "sent" : "failed",
+    metadata: { showing_request_id: refs.showingId },
+  });
+
+  if (!result.ok) {
+    console.error(`${result.provider} error sending showing SMS:`, result.errorCode, result.errorMessage);
+    await recordCarrierOptOut(ctx.supabase, phone, result);
+    return null;
+  }
+  return result.messageId;
+}
+
+async function sendShowingEmail(
+  ctx: ShowingContext,
+  to: string | null,
+  params: { subject: string; title: string; intro: string; ctaLabel: string; ctaHref: string },
+): Promise<void> {
+  if (!to) return;
+  try {
+    await sendEmailViaOutbox(ctx.supabase, {
+      to,
+      subject: params.subject,
+      html: renderBrandEmail({
+        title: params.title,
+        intro: params.intro,
+        bodyHtml: `<p style="font-size:13px;color:#6B7280;">Times are New York time.</p>`,
+        ctaLabel: params.ctaLabel,
+        ctaHref: params.ctaHref,
+      }),
+    }, SHOWING_SMS_SOURCE);
+  } catch (err) {
+    console.error("Failed to send showing email:", err);
+  }
+}
+
+// deno-lint-ignore no-explicit-any
+async function getListerEmail(supabase: any, userId: string): Promise<string | null> {
+  const { data } = await supabase.from("profiles").select("email").eq("id", userId).maybeSingle();
+  return data?.email ?? null;
+}
+
+/** Completes any open CONFIRM/CANCEL conversation for this showing. */
+export async function closeShowingConversations(ctx: ShowingContext, showingId: string, actionTaken: string): Promise<void> {
+  const { error } = await ctx.supabase
+    .from("listing_renewal_conversations")
+    .update({ state: "completed", action_taken: actionTaken, updated_at: new Date().toISOString() })
+    .eq("state", SHOWING_CONVERSATION_STATE)
+    .eq("metadata->>showing_request_id", showingId);
+  if (error) console.error("Error closing showing conversations:", error);
+}
+
+/**
+ * New (or rescheduled-by-requester) request: text + email the lister with
+ * CONFIRM / CANCEL instructions and open the SMS conversation, then tell the
+ * requester it's pending.
+ */
+export async function notifyShowingRequested(
+  ctx: ShowingContext,
+  showing: ShowingRequestRow,
+  listing: ShowingListing,
+  opts: { rescheduled?: boolean } = {},
+): Promise<void> {
+  const when = formatShowingWhen(showing.starts_at);
+  const listerUrl = showingManageUrl(ctx.siteUrl, showing.lister_token);
+  const requesterUrl = showingManageUrl(ctx.siteUrl, showing.requester_token);
+  const requesterPhone = formatPhoneForDisplay(showing.requester_phone);
+
+  await closeShowingConversations(ctx, showing.id, "superseded");
+
+  const listerSms = [
+    opts.rescheduled
+      ? `Hadirot Alert: ${showing.requester_name} moved their viewing of your ${listing.desc} to ${when}.`
+      : `Hadirot Alert: ${showing.requester_name} wants to see your ${listing.desc} on ${when}.`,
+    `Phone: ${requesterPhone}`,
+    showing.message ? `"${showing.message.slice(0, 160)}"` : "",
+    `Reply CONFIRM or CANCEL, or manage: ${listerUrl}`,
+  ].filter(Boolean).join("\n");
+
+  const sid = await sendShowingSms(ctx, listing.contactPhone, listerSms, { listingId: listing.id, showingId: showing.id });
+
+  const listerPhone = formatPhoneForSMS(listing.contactPhone);
+  if (listerPhone) {
+    const { error: convError } = await ctx.supabase
+      .from("listing_renewal_conversations")
+      .insert({
+        listing_id: listing.id,
+        user_id: listing.userId,
+        phone_number: listerPhone,
+        batch_id: null,
+        listing_index: null,
+        total_in_batch: null,
+        message_sent_at: new Date().toISOString(),
+        message_sid: sid,
+        // Replies after the slot starts are meaningless — let it expire then.
+        expires_at: showing.starts_at,
+        state: SHOWING_CONVERSATION_STATE,
+        conversation_type: "showing",
+        is_commercial: listing.isCommercial,
+        metadata: {
+          showing_request_id: showing.id,
+          inquiry_from: showing.requester_name,
+          inquiry_phone: requesterPhone,
+        },
+      });
+    if (convError) console.error("Error creating showing conversation:", convError);
+  }
+
+  await sendShowingEmail(ctx, await getListerEmail(ctx.supabase, listing.userId), {
+    subject: `Viewing request: ${listing.desc} - Hadirot`,
+    title: opts.rescheduled ? "A viewing was rescheduled" : "New viewing request",
+    intro: `<strong>${escapeHtml(showing.requester_name)}</strong> (${escapeHtml(requesterPhone)}) would like to see your
+      <a href="${listing.url}" style="color:#1E4A74;">${escapeHtml(listing.desc)}</a> on <strong>${escapeHtml(when)}</strong>.
+      ${showing.message ? `<br><br>&ldquo;${escapeHtml(showing.message)}&rdquo;` : ""}`,
+    ctaLabel: "Confirm or Cancel",
+    ctaHref: listerUrl,
+  });
+
+  await sendShowingSms(
+    ctx,
+    showing.requester_phone,
+    `Hadirot Alert: Your viewing request for ${listing.desc} on ${when} was sent. We'll text you once it's confirmed. Reschedule or cancel: ${requesterUrl}`,
+    { listingId: listing.id, showingId: showing.id },
+  );
+  await sendShowingEmail(ctx, showing.requester_email, {
+    subject: `Viewing requested: ${listing.desc} - Hadirot`,
+    title: "Viewing requested",
+    intro: `Your request to see <a href="${listing.url}" style="color:#1E4A74;">${escapeHtml(listing.desc)}</a> on
+      <strong>${escapeHtml(when)}</strong> was sent. We'll let you know once it's confirmed.`,
+    ctaLabel: "Reschedule or Cancel",
+    ctaHref: requesterUrl,
+  });
+}
+
+/**
+ * Confirms or cancels a showing and tells the other side. The acting side
+ * already knows (they tapped the button or texted the reply), so they're
+ * only messaged when `notifyActor` is set.
+ */
+export async function applyShowingStatus(
+  ctx: ShowingContext,
+  showing: ShowingRequestRow,
+  listing: ShowingListing,
+  status: "confirmed" | "cancelled",
+  actor: ShowingActor,
+  opts: { closeConversations?: boolean } = {},
+): Promise<ShowingRequestRow> {
+  const now = new Date().toISOString();
+  const { data, error } = await ctx.supabase
+    .from("showing_requests")
+    .update(status === "confirmed"
+      ? { status, confirmed_at: now, cancelled_by: null, cancelled_at: null }
+      : { status, cancelled_by: actor, cancelled_at: now })
+    .eq("id", showing.id)
+    .select(SHOWING_COLUMNS)
+    .single();
+  if (error) throw error;
+  const updated = data as ShowingRequestRow;
+
+  if (opts.closeConversations !== false) {
+    await closeShowingConversations(ctx, showing.id, status === "confirmed" ? "showing_confirmed" : "showing_cancelled");
+  }
+
+  const when = formatShowingWhen(updated.starts_at);
+  const requesterUrl = showingManageUrl(ctx.siteUrl, updated.requester_token);
+  const listerUrl = showingManageUrl(ctx.siteUrl, updated.lister_token);
+
+  if (status === "confirmed") {
+    const where = listing.address ? ` at ${listing.address}` : "";
+    await sendShowingSms(
+      ctx,
+      updated.requester_phone,
+      `Hadirot Alert: Your viewing of ${listing.desc} on ${when} is confirmed${where}. Reschedule or cancel: ${requesterUrl}`,
+      { listingId: listing.id, showingId: updated.id },
+    );
+    await sendShowingEmail(ctx, updated.requester_email, {
+      subject: `Viewing confirmed: ${listing.desc} - Hadirot`,
+      title: "Your viewing is confirmed",
+      intro: `See you on <strong>${escapeHtml(when)}</strong> for
+        <a href="${listing.url}" style="color:#1E4A74;">${escapeHtml(listing.desc)}</a>${listing.address ? ` at ${escapeHtml(listing.address)}` : ""}.`,
+      ctaLabel: "Reschedule or Cancel",
+      ctaHref: requesterUrl,
+    });
+    return updated;
+  }
+
+  if (actor === "lister") {
+    await sendShowingSms(
+      ctx,
+      updated.requester_phone,
+      `Hadirot Alert: The ${when} viewing of ${listing.desc} was cancelled by the lister. Pick another time: ${listing.url}`,
+      { listingId: listing.id, showingId: updated.id },
+    );
+    await sendShowingEmail(ctx, updated.requester_email, {
+      subject: `Viewing cancelled: ${listing.desc} - Hadirot`,
+      title: "Your viewing was cancelled",
+      intro: `The lister can't make <strong>${escapeHtml(when)}</strong> for ${escapeHtml(listing.desc)}. You can request another time on the listing page.`,
+      ctaLabel: "Pick Another Time",
+      ctaHref: listing.url,
+    });
+  } else {
+    await sendShowingSms(
+      ctx,
+      listing.contactPhone,
+      `Hadirot Alert: ${updated.requester_name} cancelled the ${when} viewing of your ${listing.desc}.`,
+      { listingId: listing.id, showingId: updated.id },
+    );
+    await sendShowingEmail(ctx, await getListerEmail(ctx.supabase, listing.userId), {
+      subject: `Viewing cancelled: ${listing.desc} - Hadirot`,
+      title: "A viewing was cancelled",
+      intro: `${escapeHtml(updated.requester_name)} cancelled the <strong>${escapeHtml(when)}</strong> viewing of ${escapeHtml(listing.desc)}.`,
+      ctaLabel: "View Details",
+      ctaHref: listerUrl,
+    });
+  }
+  return updated;
+}
+
+/**
+ * Lister moved a showing: it's their calendar, so the new time is confirmed
+ * straight away and the requester gets their manage link to cancel or pick
+ * again if it doesn't work for them.
+ */
+export async function notifyShowingRescheduledByLister(
+  ctx: ShowingContext,
+  showing: ShowingRequestRow,
+  listing: ShowingListing,
+): Promise<void> {
+  await closeShowingConversations(ctx, showing.id, "showing_rescheduled");
+  const when = formatShowingWhen(showing.starts_at);
+  const requesterUrl = showingManageUrl(ctx.siteUrl, showing.requester_token);
+  await sendShowingSms(
+    ctx,
+    showing.requester_phone,
+    `Hadirot Alert: The lister moved your viewing of ${listing.desc} to ${when}. If that doesn't work, reschedule or cancel: ${requesterUrl}`,
+    { listingId: listing.id, showingId: showing.id },
+  );
+  await sendShowingEmail(ctx, showing.requester_email, {
+    subject: `Viewing moved: ${listing.desc} - Hadirot`,
+    title: "Your viewing was moved",
+    intro: `The lister moved your viewing of <a href="${listing.url}" style="color:#1E4A74;">${escapeHtml(listing.desc)}</a>
+      to <strong>${escapeHtml(when)}</strong>.`,
+    ctaLabel: "Reschedule or Cancel",
+    ctaHref: requesterUrl,
+  });
+}
@@ -0,0 +1,418 @@
+// Outbound / inbound SMS behind one provider interface. Every function that
+// texts goes through the outbox (_shared/outbox.ts), which calls sendSms();
+// handle-renewal-sms-webhook and sms-status-webhook parse provider callbacks
+// through inboundSmsProvider().
+//
+// Providers:
+//   twilio — the production provider (TWILIO_ACCOUNT_SID / _AUTH_TOKEN / _PHONE_NUMBER).
+//   telnyx — second carrier, normally configured as SMS_FAILOVER_PROVIDER
+//            (TELNYX_API_KEY / TELNYX_PHONE_NUMBER; TELNYX_PUBLIC_KEY to
+//            verify its webhooks).
+//   fake   — records sends in sms_fake_messages instead of texting anyone.
+//            Paired with the sms-fake-provider function, which injects
+//            inbound replies, so the renewal / report-rented conversations
+//            can run end to end in a local or staging project.
+//   whatsapp — WhatsApp Business (_shared/whatsapp.ts). Not a carrier:
+//            it's only used when a caller asks for the "whatsapp" channel
+//            for a number that opted in (_shared/whatsappConsent.ts), and
+//            never as SMS_PROVIDER or a failover.
+//
+// SMS_PROVIDER picks the primary (default twilio). When it fails with
+// something worth retrying — network error, 429, 5xx — or isn't configured,
+// sendSms() hands the message to SMS_FAILOVER_PROVIDER. Rejections such as
+// an opted-out or invalid number are final and never fail over.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { whatsappProvider } from "./whatsapp.ts";
+
+export type SmsProviderName = "twilio" | "telnyx" | "fake" | "whatsapp";
+
+/** Where a message goes: a text, or WhatsApp to an opted-in number. */
+export type MessagingChannel = "sms" | "whatsapp";
+
+export interface SmsSendResult {
+  ok: boolean;
+  provider: SmsProviderName;
+  /** Provider message id — stored as sms_messages.message_sid. */
+  messageId: string | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+  /** The carrier says this number opted out (Twilio 21610, Telnyx 40300). */
+  optedOut: boolean;
+  /** Worth trying again, or trying on another provider. */
+  retryable: boolean;
+}
+
+export interface InboundSms {
+  from: string;
+  to: string;
+  body: string;
+  messageId: string;
+}
+
+export interface SmsStatusEvent {
+  messageId: string;
+  /** Normalised to Twilio's vocabulary: queued|sending|sent|delivered|undelivered|failed. */
+  status: string;
+  errorCode: string | null;
+  optedOut: boolean;
+}
+
+export interface SmsProvider {
+  name: SmsProviderName;
+  isConfigured(): boolean;
+  send(to: string, body: string): Promise<SmsSendResult>;
+  /** Null when the request isn't an inbound message (e.g. a Telnyx delivery event). */
+  parseInbound(req: Request): Promise<InboundSms | null>;
+  parseStatus(req: Request): Promise<SmsStatusEvent | null>;
+  /** The empty 2xx the provider expects back from the inbound webhook. */
+  inboundAck(): Response;
+  /**
+   * False when a webhook request isn't provably from the provider — the
+   * webhooks answer 401 without parsing it. Reads a clone, so the body is
+   * still there for parseInbound / parseStatus. Absent means nothing to check.
+   */
+  verifyWebhook?(req: Request): Promise<boolean>;
+}
+
+export const TWILIO_OPTED_OUT_ERROR = "21610";
+export const TELNYX_OPTED_OUT_ERROR = "40300";
+
+/** E.164: 10 digits → +1, 11 starting with 1 → +, "+" plus 8–15 digits kept as-is. "" when unusable. */
+export function formatPhoneForSMS(phone: string): string {
+  const trimmed = phone.trim();
+  if (trimmed.startsWith("+")) {
+    const e164 = `+${trimmed.replace(/\D/g, "")}`;
+    if (/^\+[0-9]{8,15}$/.test(e164)) return e164;
+  }
+  const cleaned = trimmed.replace(/\D/g, "");
+  if (cleaned.length === 10) return `+1${cleaned}`;
+  if (cleaned.length === 11 && cleaned.startsWith("1")) return `+${cleaned}`;
+  return "";
+}
+
+function statusCallbackUrl(provider: SmsProviderName): string | null {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  return supabaseUrl ? `${supabaseUrl}/functions/v1/sms-status-webhook?provider=${provider}` : null;
+}
+
+function failure(
+  provider: SmsProviderName,
+  errorMessage: string,
+  opts: { errorCode?: string | null; optedOut?: boolean; retryable?: boolean } = {},
+): SmsSendResult {
+  return {
+    ok: false,
+    provider,
+    messageId: null,
+    errorCode: opts.errorCode ?? null,
+    errorMessage,
+    optedOut: opts.optedOut ?? false,
+    retryable: opts.retryable ?? false,
+  };
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+const twilioProvider: SmsProvider = {
+  name: "twilio",
+
+  isConfigured() {
+    return !!(Deno.env.get("TWILIO_ACCOUNT_SID") && Deno.env.get("TWILIO_AUTH_TOKEN") && Deno.env.get("TWILIO_PHONE_NUMBER"));
+  },
+
+  async send(to, body) {
+    const accountSid = Deno.env.get("TWILIO_ACCOUNT_SID")!;
+    const authToken = Deno.env.get("TWILIO_AUTH_TOKEN")!;
+    const params = new URLSearchParams({ To: to, From: Deno.env.get("TWILIO_PHONE_NUMBER")!, Body: body });
+    const callback = statusCallbackUrl("twilio");
+    if (callback) params.set("StatusCallback", callback);
+
+    try {
+      const resp = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: params,
+      });
+      const data = await resp.json().catch(() => ({}));
+      if (!resp.ok) {
+        const errorCode = data?.code != null ? String(data.code) : null;
+        return failure("twilio", data?.message || `HTTP ${resp.status}`, {
+          errorCode,
+          optedOut: errorCode === TWILIO_OPTED_OUT_ERROR,
+          retryable: isRetryableStatus(resp.status),
+        });
+      }
+      return { ok: true, provider: "twilio", messageId: data.sid, errorCode: null, errorMessage: null, optedOut: false, retryable: false };
+    } catch (err) {
+      return failure("twilio", err instanceof Error ? err.message : String(err), { retryable: true });
+    }
+  },
+
+  async parseInbound(req) {
+    const formData = await req.formData();
+    return {
+      from: formData.get("From")?.toString() || "",
+      to: formData.get("To")?.toString() || "",
+      body: formData.get("Body")?.toString() || "",
+      messageId: formData.get("MessageSid")?.toString() || "",
+    };
+  },
+
+  async parseStatus(req) {
+    const formData = await req.formData();
+    const messageId = formData.get("MessageSid")?.toString() || "";
+    const status = formData.get("MessageStatus")?.toString() || "";
+    if (!messageId || !status) return null;
+    const errorCode = formData.get("ErrorCode")?.toString() || null;
+    return { messageId, status, errorCode, optedOut: errorCode === TWILIO_OPTED_OUT_ERROR };
+  },
+
+  inboundAck() {
+    return new Response('<?xml version="1.0" encoding="UTF-8"?><Response></Response>', {
+      headers: { "Content-Type": "text/xml" },
+    });
+  },
+};
+
+// Telnyx v2 messaging. Webhooks are JSON envelopes: { data: { event_type, payload } }.
+const TELNYX_STATUS_MAP: Record<string, string> = {
+  queued: "queued",
+  sending: "sending",
+  sent: "sent",
+  delivered: "delivered",
+  delivery_failed: "undelivered",
+  sending_failed: "failed",
+  delivery_unconfirmed: "sent",
+};
+
+// Telnyx signs webhooks with Ed25519 over "<telnyx-timestamp>|<raw body>";
+// TELNYX_PUBLIC_KEY is the base64 key from the Telnyx portal. Timestamps
+// further than this from now are refused so a captured request can't be
+// replayed.
+const TELNYX_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+function base64ToBytes(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+async function verifyTelnyxSignature(req: Request): Promise<boolean> {
+  const publicKey = Deno.env.get("TELNYX_PUBLIC_KEY");
+  const signature = req.headers.get("telnyx-signature-ed25519");
+  const timestamp = req.headers.get("telnyx-timestamp");
+  if (!publicKey || !signature || !timestamp) return false;
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > TELNYX_SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  try {
+    const rawBody = await req.clone().text();
+    const key = await crypto.subtle.importKey("raw", base64ToBytes(publicKey), { name: "Ed25519" }, false, ["verify"]);
+    return await crypto.subtle.verify(
+      "Ed25519",
+      key,
+      base64ToBytes(signature),
+      new TextEncoder().encode(`${timestamp}|${rawBody}`),
+    );
+  } catch (err) {
+    console.error("Telnyx signature check failed:", err);
+    return false;
+  }
+}
+
+const telnyxProvider: SmsProvider = {
+  name: "telnyx",
+
+  isConfigured() {
+    return !!(Deno.env.get("TELNYX_API_KEY") && Deno.env.get("TELNYX_PHONE_NUMBER"));
+  },
+
+  async send(to, body) {
+    const payload: Record<string, string> = { from: Deno.env.get("TELNYX_PHONE_NUMBER")!, to, text: body };
+    const callback = statusCallbackUrl("telnyx");
+    if (callback) payload.webhook_url = callback;
+
+    try {
+      const resp = await fetch("https://api.telnyx.com/v2/messages", {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${Deno.env.get("TELNYX_API_KEY")}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+      const data = await resp.json().catch(() => ({}));
+      if (!resp.ok) {
+        const error = data?.errors?.[0];
+        const errorCode = error?.code != null ? String(error.code) : null;
+        return failure("telnyx", error?.detail || error?.title || `HTTP ${resp.status}`, {
+          errorCode,
+          optedOut: errorCode === TELNYX_OPTED_OUT_ERROR,
+          retryable: isRetryableStatus(resp.status),
+        });
+      }
+      return { ok: true, provider: "telnyx", messageId: data?.data?.id ?? null, errorCode: null, errorMessage: null, optedOut: false, retryable: false };
+    } catch (err) {
+      return failure("telnyx", err instanceof Error ? err.message : String(err), { retryable: true });
+    }
+  },
+
+  async parseInbound(req) {
+    const event = await req.json().catch(() => null);
+    if (event?.data?.event_type !== "message.received") return null;
+    const payload = event.data.payload ?? {};
+    return {
+      from: payload.from?.phone_number || "",
+      to: payload.to?.[0]?.phone_number || "",
+      body: payload.text || "",
+      messageId: payload.id || "",
+    };
+  },
+
+  async parseStatus(req) {
+    const event = await req.json().catch(() => null);
+    const eventType = event?.data?.event_type;
+    if (eventType !== "message.sent" && eventType !== "message.finalized") return null;
+    const payload = event.data.payload ?? {};
+    const recipient = payload.to?.[0] ?? {};
+    const status = TELNYX_STATUS_MAP[recipient.status] ?? recipient.status ?? "";
+    if (!payload.id || !status) return null;
+    const errorCode = payload.errors?.[0]?.code != null ? String(payload.errors[0].code) : null;
+    return { messageId: payload.id, status, errorCode, optedOut: errorCode === TELNYX_OPTED_OUT_ERROR };
+  },
+
+  inboundAck() {
+    return new Response(null, { status: 200 });
+  },
+
+  verifyWebhook(req) {
+    return verifyTelnyxSignature(req);
+  },
+};
+
+// Test double. Sends land in sms_fake_messages (service-role only) and
+// inbound replies arrive as JSON { from, to, body, messageId } posted by
+// sms-fake-provider.
+function fakeStore() {
+  return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+}
+
+export const FAKE_PROVIDER_NUMBER = "+15550000000";
+
+const fakeProvider: SmsProvider = {
+  name: "fake",
+
+  isConfigured() {
+    return Deno.env.get("SMS_PROVIDER") === "fake" && !!Deno.env.get("SUPABASE_URL") && !!Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  },
+
+  async send(to, body) {
+    const messageId = `fake_${crypto.randomUUID()}`;
+    const { error } = await fakeStore().from("sms_fake_messages").insert({
+      direction: "outbound",
+      from_number: FAKE_PROVIDER_NUMBER,
+      to_number: to,
+      body,
+      message_id: messageId,
+    });
+    if (error) return failure("fake", error.message);
+    return { ok: true, provider: "fake", messageId, errorCode: null, errorMessage: null, optedOut: false, retryable: false };
+  },
+
+  async parseInbound(req) {
+    const message = await req.json().catch(() => null);
+    if (!message?.from) return null;
+    return {
+      from: String(message.from),
+      to: String(message.to || FAKE_PROVIDER_NUMBER),
+      body: String(message.body ?? ""),
+      messageId: String(message.messageId || `fake_${crypto.randomUUID()}`),
+    };
+  },
+
+  async parseStatus(req) {
+    const event = await req.json().catch(() => null);
+    if (!event?.messageId || !event?.status) return null;
+    return { messageId: String(event.messageId), status: String(event.status), errorCode: null, optedOut: false };
+  },
+
+  inboundAck() {
+    return new Response(null, { status: 200 });
+  },
+};
+
+const PROVIDERS: Record<Exclude<SmsProviderName, "whatsapp">, SmsProvider> = {
+  twilio: twilioProvider,
+  telnyx: telnyxProvider,
+  fake: fakeProvider,
+};
+
+function providerFromEnv(key: string): SmsProvider | null {
+  const name = Deno.env.get(key)?.trim().toLowerCase();
+  return name && name in PROVIDERS ? PROVIDERS[name as keyof typeof PROVIDERS] : null;
+}
+
+export function getSmsProvider(): SmsProvider {
+  return providerFromEnv("SMS_PROVIDER") ?? twilioProvider;
+}
+
+function getFailoverProvider(): SmsProvider | null {
+  const failover = providerFromEnv("SMS_FAILOVER_PROVIDER");
+  return failover && failover !== getSmsProvider() && failover.isConfigured() ? failover : null;
+}
+
+/** True when sendSms() has at least one provider it can use. */
+export function isSmsConfigured(): boolean {
+  return getSmsProvider().isConfigured() || getFailoverProvider() !== null;
+}
+
+/**
+ * Sends one SMS through the primary provider, failing over once on a
+ * retryable error. `to` should already be E.164 (formatPhoneForSMS).
+ * The "whatsapp" channel sends through WhatsApp only — a number's WhatsApp
+ * consent says nothing about texting it. Never throws; callers log the
+ * result to sms_messages themselves.
+ */
+export async function sendSms(to: string, body: string, channel: MessagingChannel = "sms"): Promise<SmsSendResult> {
+  if (channel === "whatsapp") {
+    return whatsappProvider.isConfigured()
+      ? whatsappProvider.send(to, body)
+      : failure("whatsapp", "WhatsApp is not configured");
+  }
+
+  const primary = getSmsProvider();
+  const failover = getFailoverProvider();
+
+  let result: SmsSendResult | null = null;
+  if (primary.isConfigured()) {
+    result = await primary.send(to, body);
+    if (result.ok || !result.retryable) return result;
+    console.error(`SMS via ${primary.name} failed (${result.errorCode ?? result.errorMessage})`, failover ? `- failing over to ${failover.name}` : "");
+  }
+
+  if (failover) return failover.send(to, body);
+  return result ?? failure(primary.name, `SMS provider ${primary.name} is not configured`);
+}
+
+/**
+ * The provider behind an inbound / status webhook request, from its
+ * ?provider= query parameter (callback URLs set it; Twilio's console URL
+ * may not, so the default is twilio). Telnyx requests must pass
+ * verifyWebhook (its Ed25519 signature). The fake provider is only honoured
+ * while SMS_PROVIDER=fake, so nobody can spoof replies on a live project;
+ * WhatsApp events are only accepted when re-posted by whatsapp-webhook.
+ */
+export function inboundSmsProvider(req: Request): SmsProvider {
+  const name = new URL(req.url).searchParams.get("provider")?.toLowerCase();
+  if (name === "telnyx") return telnyxProvider;
+  if (name === "whatsapp") return whatsappProvider;
+  if (name === "fake" && fakeProvider.isConfigured()) return fakeProvider;
+  return twilioProvider;
+}
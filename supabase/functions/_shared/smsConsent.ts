@@ -0,0 +1,136 @@
+// Per-phone SMS consent registry (sms_consent,
+// 20261018100000_sms_consent.sql). Every function that texts checks it before
+// calling sendSms(); handle-renewal-sms-webhook keeps it current from the
+// STOP / START / HELP keywords.
+//
+// Checks fail open on query errors, like the rate limits: the carriers keep
+// their own STOP lists and refuse those sends (Twilio 21610, Telnyx 40300),
+// which recordCarrierOptOut then copies into the registry.
+
+import { formatPhoneForSMS } from "./sms.ts";
+
+// deno-lint-ignore no-explicit-any
+type SupabaseLike = any;
+
+export type ConsentKeyword = "stop" | "start" | "help";
+
+// CTIA / Twilio standard keyword sets. CANCEL and YES also mean other things
+// in our own conversations, so parseConsentKeyword only honours them in
+// context.
+const STOP_KEYWORDS = ["stop", "stopall", "stop all", "unsubscribe", "end", "quit", "optout", "opt out", "revoke"];
+const START_KEYWORDS = ["start", "unstop", "optin", "opt in"];
+const HELP_KEYWORDS = ["help", "info"];
+
+export const OPT_OUT_CONFIRMATION =
+  "Hadirot: You're unsubscribed and won't get any more texts from us. Reply START to resubscribe.";
+export const OPT_IN_CONFIRMATION =
+  "Hadirot: You're resubscribed to texts about your Hadirot listings. Msg & data rates may apply. Reply HELP for help, STOP to opt out.";
+export const HELP_RESPONSE =
+  "Hadirot: Texts about your listings and inquiries on hadirot.com. Msg & data rates may apply. Help: hadirot.com/contact. Reply STOP to opt out.";
+
+/** The registry key: formatPhoneForSMS from sms.ts, null when unusable. */
+export function toConsentPhone(phone: string | null | undefined): string | null {
+  return phone ? formatPhoneForSMS(phone) || null : null;
+}
+
+/**
+ * Classifies a whole inbound message as a compliance keyword. Only exact
+ * keyword messages count ("stop", "Stop.", "STOP ALL") — "stop sending me
+ * the old listing" is left to the conversation handlers.
+ *   - CANCEL opts out unless the sender has a viewing waiting on CONFIRM /
+ *     CANCEL (`expectsCancel`).
+ *   - YES re-subscribes only a number that is currently opted out.
+ */
+export function parseConsentKeyword(
+  body: string,
+  context: { optedOut: boolean; expectsCancel: boolean },
+): ConsentKeyword | null {
+  const normalized = body.toLowerCase().replace(/[^a-z ]/g, "").replace(/\s+/g, " ").trim();
+  if (!normalized) return null;
+
+  if (STOP_KEYWORDS.includes(normalized)) return "stop";
+  if (normalized === "cancel" && !context.expectsCancel) return "stop";
+  if (START_KEYWORDS.includes(normalized)) return "start";
+  if (normalized === "yes" && context.optedOut) return "start";
+  if (HELP_KEYWORDS.includes(normalized)) return "help";
+  return null;
+}
+
+export async function isSmsOptedOut(supabase: SupabaseLike, phone: string): Promise<boolean> {
+  const e164 = toConsentPhone(phone);
+  if (!e164) return false;
+  try {
+    const { data, error } = await supabase
+      .from("sms_consent")
+      .select("opted_out")
+      .eq("phone_number", e164)
+      .maybeSingle();
+    if (error) {
+      console.error("SMS consent check failed, failing open:", error);
+      return false;
+    }
+    return data?.opted_out === true;
+  } catch (err) {
+    console.error("SMS consent check threw, failing open:", err);
+    return false;
+  }
+}
+
+/** Batch form for the reminder/report senders: the E.164 numbers in `phones` that opted out. */
+export async function getOptedOutPhones(supabase: SupabaseLike, phones: string[]): Promise<Set<string>> {
+  const e164s = [...new Set(phones.map(toConsentPhone).filter((p): p is string => !!p))];
+  if (e164s.length === 0) return new Set();
+  try {
+    const { data, error } = await supabase
+      .from("sms_consent")
+      .select("phone_number")
+      .eq("opted_out", true)
+      .in("phone_number", e164s);
+    if (error) {
+      console.error("SMS consent batch check failed, failing open:", error);
+      return new Set();
+    }
+    return new Set((data ?? []).map((row: { phone_number: string }) => row.phone_number));
+  } catch (err) {
+    console.error("SMS consent batch check threw, failing open:", err);
+    return new Set();
+  }
+}
+
+async function writeConsent(
+  supabase: SupabaseLike,
+  phone: string,
+  optedOut: boolean,
+  reason: "keyword" | "carrier",
+  keyword: string | null,
+): Promise<void> {
+  const e164 = toConsentPhone(phone);
+  if (!e164) return;
+  const { error } = await supabase
+    .from("sms_consent")
+    .upsert(
+      { phone_number: e164, opted_out: optedOut, reason, keyword, note: null, updated_by: null },
+      { onConflict: "phone_number" },
+    );
+  if (error) {
+    console.error(`Error recording SMS ${optedOut ? "opt-out" : "opt-in"} for ${e164}:`, error);
+  }
+}
+
+export function recordSmsOptOut(supabase: SupabaseLike, phone: string, keyword: string): Promise<void> {
+  return writeConsent(supabase, phone, true, "keyword", keyword);
+}
+
+export function recordSmsOptIn(supabase: SupabaseLike, phone: string, keyword: string): Promise<void> {
+  return writeConsent(supabase, phone, false, "keyword", keyword);
+}
+
+/**
+ * Call with the result of a failed send (or a status callback). When the
+ * provider says the number opted out with the carrier the registry is
+ * updated so later sends are skipped before they reach the provider.
+ */
+export async function recordCarrierOptOut(supabase: SupabaseLike, phone: string, result: { optedOut: boolean }): Promise<void> {
+  if (!result.optedOut) return;
+  await writeConsent(supabase, phone, true, "carrier", null);
+}
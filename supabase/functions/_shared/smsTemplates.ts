@@ -0,0 +1,117 @@
+// Admin-editable SMS copy (sms_templates, 20261018120000_sms_templates.sql).
+// Senders build the variables and call renderSmsTemplate(); the wording
+// itself lives in the database so it can change without a deploy.
+//
+// Placeholders are {{name}}. A line whose placeholders include one that
+// renders blank is dropped entirely — that is how optional lines work
+// ("{{listing_link}}" when no short link was created, the weekly report's
+// zero stats). Unknown placeholders are left as-is so a typo is visible in
+// the admin preview rather than silently eaten.
+//
+// Loading fails open to SMS_TEMPLATE_DEFAULTS, which mirror the migration's
+// seed rows (kept in sync manually), so a missing row or a query error never
+// stops a send.
+
+// deno-lint-ignore no-explicit-any
+type SupabaseLike = any;
+
+export type SmsTemplateKey =
+  | "renewal_single"
+  | "renewal_batch"
+  | "report_rented"
+  | "weekly_report"
+  | "paid_trial_3day"
+  | "paid_trial_dayof"
+  | "paid_renew_3day"
+  | "paid_renew_dayof"
+  | "paid_reactivate"
+  | "callback_rental"
+  | "callback_sale"
+  | "boost_upsell"
+  | "pamphlet_still_available";
+
+export type SmsTemplateVars = Record<string, string | number | null | undefined>;
+
+export const SMS_TEMPLATE_DEFAULTS: Record<SmsTemplateKey, string> = {
+  renewal_single:
+    "Hadirot Alert: Your listing at {{listing}} expires in {{days_left}}. Is the listing still available? Reply YES or NO.",
+  renewal_batch:
+    "Hadirot Alert: You have {{listing_count}} listings expiring soon:\n{{listing_list}}\n(+{{more_count}} more - manage at hadirot.com/dashboard)\nAre they all still available? Reply YES to keep all, NO if none are, or the numbers that are no longer available (e.g. 2).",
+  report_rented:
+    "Hadirot Alert: We received a report that your listing - {{listing}} for {{price}} - has been {{rented_or_sold}}. Is it still available? Reply YES to keep active or NO to deactivate. If you don't respond, we will deactivate in 24 hours.",
+  weekly_report:
+    "Hadirot Update:\nThis week your {{listing_count}} {{listing_word}} got on average\n{{avg_impressions}} impressions each\n{{avg_views}} clicks each\n{{total_leads}} leads total ({{total_callbacks}} callbacks, {{total_phone_reveals}} requests for your phone number)",
+  paid_trial_3day:
+    "Hadirot Alert: Your free trial for the listing at {{listing}} ends in 3 days. Pay $25 to keep it live: {{pay_link}}",
+  paid_trial_dayof:
+    "Hadirot Alert: Your free trial for the listing at {{listing}} ends today. Pay $25 to keep it live: {{pay_link}}",
+  paid_renew_3day:
+    "Hadirot Alert: Your listing at {{listing}} expires in 3 days. Renew for {{renewal_price}}/30 days: {{pay_link}}",
+  paid_renew_dayof:
+    "Hadirot Alert: Your listing at {{listing}} expires today. Renew for {{renewal_price}}: {{pay_link}}",
+  paid_reactivate:
+    "Hadirot Alert: Your listing at {{listing}} has been off for 3 days. Reactivate for {{renewal_price}}: {{pay_link}}",
+  callback_rental:
+    "Hadirot Alert: {{caller_name}} wants a call about your {{listing}} ({{price}})\nCall: {{caller_phone}}\n{{listing_link}}\nIf this property is no longer available, reply RENTED.",
+  callback_sale:
+    "Hadirot Alert: {{caller_name}} wants a call about your {{listing}} ({{price}})\nCall: {{caller_phone}}\n{{listing_link}}\nIf this property is no longer available, please log into hadirot.com/dashboard to update the status.",
+  boost_upsell:
+    "Hadirot Tip: Want more inquiries on your {{listing}}? Boost it to the top of search results — starting at $25/wk: {{boost_link}}",
+  pamphlet_still_available:
+    "Hadirot Alert: Your listing - {{listing}} for {{price}} - is no longer in {{source_name}}. Is it still available? Reply YES to keep it active or NO if it has been {{rented_or_sold}}.",
+};
+
+const PLACEHOLDER_RE = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+/** Fills {{name}} placeholders, dropping lines where any known placeholder is blank. */
+export function renderSmsTemplate(body: string, vars: SmsTemplateVars): string {
+  const valueOf = (name: string): string | null => {
+    if (!(name in vars)) return null;
+    const value = vars[name];
+    return value === null || value === undefined ? "" : String(value);
+  };
+
+  return body
+    .split("\n")
+    .filter((line) => {
+      for (const match of line.matchAll(PLACEHOLDER_RE)) {
+        if (valueOf(match[1]) === "") return false;
+      }
+      return true;
+    })
+    .map((line) => line.replace(PLACEHOLDER_RE, (whole, name: string) => valueOf(name) ?? whole))
+    .join("\n");
+}
+
+// Bodies are cached per isolate for a minute: the batch senders render
+// hundreds of messages per run, and an admin edit should still land quickly.
+const CACHE_TTL_MS = 60_000;
+const cache = new Map<SmsTemplateKey, { body: string; loadedAt: number }>();
+
+export async function loadSmsTemplate(supabase: SupabaseLike, key: SmsTemplateKey): Promise<string> {
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.body;
+
+  let body = SMS_TEMPLATE_DEFAULTS[key];
+  try {
+    const { data, error } = await supabase
+      .from("sms_templates")
+      .select("body")
+      .eq("key", key)
+      .maybeSingle();
+    if (error) {
+      console.error(`Loading SMS template ${key} failed, using default:`, error);
+    } else if (data?.body) {
+      body = data.body;
+    }
+  } catch (err) {
+    console.error(`Loading SMS template ${key} threw, using default:`, err);
+  }
+
+  cache.set(key, { body, loadedAt: Date.now() });
+  return body;
+}
+
+export async function renderSms(supabase: SupabaseLike, key: SmsTemplateKey, vars: SmsTemplateVars): Promise<string> {
+  return renderSmsTemplate(await loadSmsTemplate(supabase, key), vars);
+}
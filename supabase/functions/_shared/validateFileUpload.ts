@@ -10,9 +10,21 @@ const ALLOWED_MIME_TYPES = [
 
 const ALLOWED_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'gif', 'mp4', 'webm', 'mov'];
 
-const IMAGE_MAX_BYTES = 8 * 1024 * 1024;
+export const IMAGE_MAX_BYTES = 8 * 1024 * 1024;
 const VIDEO_MAX_BYTES = 100 * 1024 * 1024;
 
+// Listing attachments (floor plans, documents). Photos-and-video uploads keep
+// using validateFile above; PDFs are only accepted here.
+export type AttachmentKind = 'floor_plan' | 'document';
+
+const ATTACHMENT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+const ATTACHMENT_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'pdf'];
+
+const ATTACHMENT_MAX_BYTES: Record<AttachmentKind, number> = {
+  floor_plan: 15 * 1024 * 1024,
+  document: 25 * 1024 * 1024,
+};
+
 async function checkMagicBytes(blob: Blob): Promise<string | null> {
   const buffer = await blob.slice(0, 12).arrayBuffer();
   const b = new Uint8Array(buffer);
@@ -32,6 +44,9 @@ async function checkMagicBytes(blob: Blob): Promise<string | null> {
     b[8] === 0x57 && b[9] === 0x45 && b[10] === 0x42 && b[11] === 0x50
   ) return 'image/webp';
 
+  // PDF: %PDF
+  if (b[0] === 0x25 && b[1] === 0x50 && b[2] === 0x44 && b[3] === 0x46) return 'application/pdf';
+
   // GIF: GIF8
   if (b[0] === 0x47 && b[1] === 0x49 && b[2] === 0x46 && b[3] === 0x38) return 'image/gif';
 
@@ -86,3 +101,38 @@ export async function validateFile(
 
   return { valid: true };
 }
+
+export async function validateAttachment(
+  blob: Blob,
+  filename: string,
+  kind: AttachmentKind,
+): Promise<{ valid: boolean; reason?: string; mimeType?: string }> {
+  // Check 1 — MIME type
+  if (!ATTACHMENT_MIME_TYPES.includes(blob.type)) {
+    return { valid: false, reason: `disallowed MIME type: ${blob.type}` };
+  }
+
+  // Check 2 — File extension
+  const ext = filename.split('.').pop()?.toLowerCase() ?? '';
+  if (!ATTACHMENT_EXTENSIONS.includes(ext)) {
+    return { valid: false, reason: `disallowed file extension: .${ext}` };
+  }
+
+  // Check 3 — Magic bytes, and the declared type must match exactly: a PDF
+  // renamed to .png would otherwise be served from the public image bucket.
+  const detectedType = await checkMagicBytes(blob);
+  if (detectedType === null || !ATTACHMENT_MIME_TYPES.includes(detectedType)) {
+    return { valid: false, reason: 'unrecognized file signature' };
+  }
+  if (detectedType !== blob.type && !(isImage(detectedType) && isImage(blob.type))) {
+    return { valid: false, reason: 'file signature does not match declared type' };
+  }
+
+  // Check 4 — Size
+  const maxBytes = ATTACHMENT_MAX_BYTES[kind];
+  if (blob.size > maxBytes) {
+    return { valid: false, reason: `file exceeds size limit (${maxBytes / (1024 * 1024)}MB)` };
+  }
+
+  return { valid: true, mimeType: detectedType };
+}
@@ -0,0 +1,265 @@
+// WhatsApp Business (Meta Cloud API) as an SmsProvider, so the outbox and
+// the conversation handlers treat it like another carrier. sendSms(…,
+// "whatsapp") in _shared/sms.ts sends through it; consent lives in
+// _shared/whatsappConsent.ts.
+//
+// Env: WHATSAPP_ACCESS_TOKEN, WHATSAPP_PHONE_NUMBER_ID (the business
+// number's id, not the number), WHATSAPP_APP_SECRET (webhook signatures),
+// WHATSAPP_VERIFY_TOKEN (webhook subscription handshake), and optionally
+// WHATSAPP_TEMPLATE_NAME / WHATSAPP_TEMPLATE_LANGUAGE.
+//
+// WhatsApp only lets a business send free-form text within 24 hours of the
+// person's last message. Outside that window send() uses the approved
+// utility template (default "hadirot_update", one body parameter {{1}})
+// with the message flattened into the parameter; their reply opens the
+// window again.
+//
+// Meta posts every event for the app to one URL — the whatsapp-webhook
+// function. It checks the signature, then re-posts each message / status
+// event to handle-renewal-sms-webhook / sms-status-webhook with
+// ?provider=whatsapp as { from, to, body, messageId } /
+// { messageId, status, errorCode }, authorised with the service role key.
+// parseInbound / parseStatus below read that form.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import type { SmsProvider, SmsSendResult } from "./sms.ts";
+
+const GRAPH_API_URL = "https://graph.facebook.com/v20.0";
+const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Template parameters are capped at 1024 characters and can't contain
+// newlines, tabs or more than four spaces in a row.
+const TEMPLATE_PARAM_MAX = 1000;
+
+// Meta statuses in Twilio's vocabulary (SmsStatusEvent). "read" implies
+// delivered.
+const WHATSAPP_STATUS_MAP: Record<string, string> = {
+  sent: "sent",
+  delivered: "delivered",
+  read: "delivered",
+  failed: "failed",
+};
+
+function store() {
+  return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+}
+
+function failure(
+  errorMessage: string,
+  opts: { errorCode?: string | null; retryable?: boolean } = {},
+): SmsSendResult {
+  return {
+    ok: false,
+    provider: "whatsapp",
+    messageId: null,
+    errorCode: opts.errorCode ?? null,
+    errorMessage,
+    optedOut: false,
+    retryable: opts.retryable ?? false,
+  };
+}
+
+/** Meta wants the number without the leading "+". */
+function waId(e164: string): string {
+  return e164.replace(/\D/g, "");
+}
+
+function templateParameter(body: string): string {
+  const flat = body.replace(/\s*\n\s*/g, " · ").replace(/\s+/g, " ").trim();
+  return flat.length > TEMPLATE_PARAM_MAX ? `${flat.slice(0, TEMPLATE_PARAM_MAX - 1)}…` : flat;
+}
+
+/** True inside the 24-hour window after the number last messaged us. */
+async function inServiceWindow(to: string): Promise<boolean> {
+  try {
+    const { data, error } = await store()
+      .from("whatsapp_contacts")
+      .select("last_inbound_at")
+      .eq("phone_number", to)
+      .maybeSingle();
+    if (error) throw error;
+    return !!data?.last_inbound_at && Date.now() - new Date(data.last_inbound_at).getTime() < SERVICE_WINDOW_MS;
+  } catch (err) {
+    // The template works either way, it's just less readable.
+    console.error("WhatsApp service window lookup failed, using the template:", err);
+    return false;
+  }
+}
+
+/** Authorises the re-posted events from whatsapp-webhook. */
+function isForwarded(req: Request): boolean {
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  return !!serviceKey && req.headers.get("Authorization") === `Bearer ${serviceKey}`;
+}
+
+export const whatsappProvider: SmsProvider = {
+  name: "whatsapp",
+
+  isConfigured() {
+    return !!(Deno.env.get("WHATSAPP_ACCESS_TOKEN") && Deno.env.get("WHATSAPP_PHONE_NUMBER_ID"));
+  },
+
+  async send(to, body) {
+    const message = await inServiceWindow(to)
+      ? { type: "text", text: { body, preview_url: true } }
+      : {
+        type: "template",
+        template: {
+          name: Deno.env.get("WHATSAPP_TEMPLATE_NAME") || "hadirot_update",
+          language: { code: Deno.env.get("WHATSAPP_TEMPLATE_LANGUAGE") || "en_US" },
+          components: [{ type: "body", parameters: [{ type: "text", text: templateParameter(body) }] }],
+        },
+      };
+
+    try {
+      const resp = await fetch(`${GRAPH_API_URL}/${Deno.env.get("WHATSAPP_PHONE_NUMBER_ID")}/messages`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${Deno.env.get("WHATSAPP_ACCESS_TOKEN")}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ messaging_product: "whatsapp", recipient_type: "individual", to: waId(to), ...message }),
+      });
+      const data = await resp.json().catch(() => ({}));
+      if (!resp.ok) {
+        const error = data?.error;
+        return failure(error?.error_data?.details || error?.message || `HTTP ${resp.status}`, {
+          errorCode: error?.code != null ? String(error.code) : null,
+          retryable: resp.status === 429 || resp.status >= 500,
+        });
+      }
+      return { ok: true, provider: "whatsapp", messageId: data?.messages?.[0]?.id ?? null, errorCode: null, errorMessage: null, optedOut: false, retryable: false };
+    } catch (err) {
+      return failure(err instanceof Error ? err.message : String(err), { retryable: true });
+    }
+  },
+
+  async parseInbound(req) {
+    if (!isForwarded(req)) {
+      console.warn("Rejected WhatsApp inbound that didn't come from whatsapp-webhook");
+      return null;
+    }
+    const message = await req.json().catch(() => null);
+    if (!message?.from || !message?.messageId) return null;
+    return {
+      from: String(message.from),
+      to: String(message.to ?? ""),
+      body: String(message.body ?? ""),
+      messageId: String(message.messageId),
+    };
+  },
+
+  async parseStatus(req) {
+    if (!isForwarded(req)) return null;
+    const event = await req.json().catch(() => null);
+    if (!event?.messageId || !event?.status) return null;
+    return {
+      messageId: String(event.messageId),
+      status: String(event.status),
+      errorCode: event.errorCode != null ? String(event.errorCode) : null,
+      optedOut: false,
+    };
+  },
+
+  inboundAck() {
+    return new Response(null, { status: 200 });
+  },
+};
+
+export function isWhatsAppConfigured(): boolean {
+  return whatsappProvider.isConfigured();
+}
+
+// ------------------------------------------------------------------
+// Meta webhook payloads (whatsapp-webhook)
+// ------------------------------------------------------------------
+
+export interface WhatsAppInboundEvent {
+  from: string;
+  to: string;
+  body: string;
+  messageId: string;
+}
+
+export interface WhatsAppStatusEvent {
+  messageId: string;
+  status: string;
+  errorCode: string | null;
+}
+
+/** Checks Meta's X-Hub-Signature-256 (HMAC-SHA256 of the raw body with the app secret). */
+export async function verifyWhatsAppSignature(rawBody: string, signatureHeader: string | null): Promise<boolean> {
+  const secret = Deno.env.get("WHATSAPP_APP_SECRET");
+  if (!secret || !signatureHeader?.startsWith("sha256=")) return false;
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const sig = new Uint8Array(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(rawBody)));
+  const expected = Array.from(sig, (b) => b.toString(16).padStart(2, "0")).join("");
+  const given = signatureHeader.slice("sha256=".length).toLowerCase();
+
+  if (given.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ given.charCodeAt(i);
+  return diff === 0;
+}
+
+/** The text of a message: typed text, a quick-reply button, or an interactive reply. Null for media etc. */
+// deno-lint-ignore no-explicit-any
+function messageText(message: any): string | null {
+  switch (message?.type) {
+    case "text":
+      return message.text?.body ?? null;
+    case "button":
+      return message.button?.text ?? message.button?.payload ?? null;
+    case "interactive":
+      return message.interactive?.button_reply?.title ?? message.interactive?.list_reply?.title ?? null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Splits a Meta webhook body ({ entry[].changes[].value }) into inbound
+ * messages and status updates, numbers normalised to E.164.
+ */
+// deno-lint-ignore no-explicit-any
+export function parseWhatsAppWebhook(payload: any): { messages: WhatsAppInboundEvent[]; statuses: WhatsAppStatusEvent[] } {
+  const messages: WhatsAppInboundEvent[] = [];
+  const statuses: WhatsAppStatusEvent[] = [];
+
+  for (const entry of payload?.entry ?? []) {
+    for (const change of entry?.changes ?? []) {
+      const value = change?.value ?? {};
+      const to = value.metadata?.display_phone_number ? `+${waId(String(value.metadata.display_phone_number))}` : "";
+
+      for (const message of value.messages ?? []) {
+        const body = messageText(message);
+        if (!message?.from || !message?.id) continue;
+        if (body === null) {
+          console.log(`Ignoring WhatsApp ${message.type} message ${message.id} from ${message.from}`);
+          continue;
+        }
+        messages.push({ from: `+${waId(String(message.from))}`, to, body, messageId: String(message.id) });
+      }
+
+      for (const status of value.statuses ?? []) {
+        if (!status?.id || !status?.status) continue;
+        const errorCode = status.errors?.[0]?.code;
+        statuses.push({
+          messageId: String(status.id),
+          status: WHATSAPP_STATUS_MAP[status.status] ?? String(status.status),
+          errorCode: errorCode != null ? String(errorCode) : null,
+        });
+      }
+    }
+  }
+
+  return { messages, statuses };
+}
@@ -0,0 +1,101 @@
+// WhatsApp opt-in registry (whatsapp_contacts,
+// 20261018180000_whatsapp_channel.sql). Unlike SMS, WhatsApp is opt-in: a
+// number only gets messages we start — digests, saved-search matches,
+// renewal prompts — once it has opted in from Account → Settings or by
+// sending START on WhatsApp. Replies to someone who just messaged us only
+// need them not to have sent STOP.
+//
+// Lookups fail closed for opt-in (no consent on record, no message) and
+// open for opt-out, like _shared/smsConsent.ts.
+
+import { toConsentPhone } from "./smsConsent.ts";
+
+// deno-lint-ignore no-explicit-any
+type SupabaseLike = any;
+
+/** What an opted-in number asked for. */
+export type WhatsAppPurpose = "receive_digest" | "listing_messages";
+
+export const WHATSAPP_OPT_OUT_CONFIRMATION =
+  "Hadirot: You're unsubscribed and won't get any more WhatsApp messages from us. Reply START to resubscribe.";
+export const WHATSAPP_OPT_IN_CONFIRMATION =
+  "Hadirot: You're subscribed to Hadirot on WhatsApp — listing digests and messages about your listings. Reply HELP for help, STOP to opt out.";
+export const WHATSAPP_HELP_RESPONSE =
+  "Hadirot: Listing digests and messages about your listings on hadirot.com. Help: hadirot.com/contact. Reply STOP to opt out.";
+
+/** The opted-in numbers among `phones`, optionally only those that want `purpose`. */
+export async function getWhatsAppRecipients(
+  supabase: SupabaseLike,
+  phones: string[],
+  purpose?: WhatsAppPurpose,
+): Promise<Set<string>> {
+  const e164s = [...new Set(phones.map(toConsentPhone).filter((p): p is string => !!p))];
+  if (e164s.length === 0) return new Set();
+  try {
+    let query = supabase
+      .from("whatsapp_contacts")
+      .select("phone_number")
+      .eq("opted_in", true)
+      .in("phone_number", e164s);
+    if (purpose) query = query.eq(purpose, true);
+    const { data, error } = await query;
+    if (error) {
+      console.error("WhatsApp opt-in lookup failed, using SMS:", error);
+      return new Set();
+    }
+    return new Set((data ?? []).map((row: { phone_number: string }) => row.phone_number));
+  } catch (err) {
+    console.error("WhatsApp opt-in lookup threw, using SMS:", err);
+    return new Set();
+  }
+}
+
+export async function isWhatsAppOptedIn(supabase: SupabaseLike, phone: string, purpose?: WhatsAppPurpose): Promise<boolean> {
+  return (await getWhatsAppRecipients(supabase, [phone], purpose)).size > 0;
+}
+
+/** True once the number sent STOP on WhatsApp (or turned it off in settings). */
+export async function isWhatsAppOptedOut(supabase: SupabaseLike, phone: string): Promise<boolean> {
+  const e164 = toConsentPhone(phone);
+  if (!e164) return false;
+  try {
+    const { data, error } = await supabase
+      .from("whatsapp_contacts")
+      .select("opted_in, opted_out_at")
+      .eq("phone_number", e164)
+      .maybeSingle();
+    if (error) {
+      console.error("WhatsApp consent check failed, failing open:", error);
+      return false;
+    }
+    return !!data && data.opted_in !== true && data.opted_out_at != null;
+  } catch (err) {
+    console.error("WhatsApp consent check threw, failing open:", err);
+    return false;
+  }
+}
+
+async function upsertContact(supabase: SupabaseLike, phone: string, fields: Record<string, unknown>): Promise<void> {
+  const e164 = toConsentPhone(phone);
+  if (!e164) return;
+  const { error } = await supabase
+    .from("whatsapp_contacts")
+    .upsert({ phone_number: e164, ...fields, updated_at: new Date().toISOString() }, { onConflict: "phone_number" });
+  if (error) {
+    console.error(`Error updating WhatsApp contact ${e164}:`, error);
+  }
+}
+
+/** Stamps the start of a new 24-hour service window. */
+export function recordWhatsAppInbound(supabase: SupabaseLike, phone: string): Promise<void> {
+  return upsertContact(supabase, phone, { last_inbound_at: new Date().toISOString() });
+}
+
+export function recordWhatsAppOptIn(supabase: SupabaseLike, phone: string): Promise<void> {
+  const now = new Date().toISOString();
+  return upsertContact(supabase, phone, { opted_in: true, opted_in_at: now, opted_out_at: null });
+}
+
+export function recordWhatsAppOptOut(supabase: SupabaseLike, phone: string): Promise<void> {
+  return upsertContact(supabase, phone, { opted_in: false, opted_out_at: new Date().toISOString() });
+}
@@ -6,7 +6,7 @@ interface ZeptoAttachment {
   name: string;
 }
 
-interface ZeptoParams {
+export interface ZeptoParams {
   to: string | string[];
   subject: string;
   html: string;
@@ -15,16 +15,34 @@ interface ZeptoParams {
   fromName?: string;
   replyTo?: string;
   attachments?: ZeptoAttachment[];
+  /** Extra MIME headers, e.g. List-Unsubscribe. */
+  headers?: Record<string, string>;
 }
 
-export async function sendViaZepto({ to, subject, html, text, from, fromName, replyTo, attachments }: ZeptoParams) {
+/**
+ * Thrown by sendViaZepto. `retryable` is true for network errors, 429 and
+ * 5xx — the outbox (_shared/outbox.ts) tries those again later.
+ */
+export class ZeptoError extends Error {
+  status: number | null;
+  retryable: boolean;
+
+  constructor(message: string, status: number | null, retryable: boolean) {
+    super(message);
+    this.name = "ZeptoError";
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+export async function sendViaZepto({ to, subject, html, text, from, fromName, replyTo, attachments, headers }: ZeptoParams) {
   const token = Deno.env.get("ZEPTO_TOKEN");
   const address = from || Deno.env.get("ZEPTO_FROM_ADDRESS") || "";
   const name = fromName || Deno.env.get("ZEPTO_FROM_NAME") || "";
   const replyToAddress = replyTo || Deno.env.get("ZEPTO_REPLY_TO") || undefined;
 
   if (!token || !address || !name) {
-    throw new Error("ZeptoMail is not configured" );
+    throw new ZeptoError("ZeptoMail is not configured", null, false);
   }
 
   const toList = Array.isArray(to) ? to : [to];
@@ -38,21 +56,27 @@ export async function sendViaZepto({ to, subject, html, text, from, fromName, re
     track_opens: false,
     track_clicks: false,
     attachments: attachments || undefined,
+    mime_headers: headers || undefined,
   };
 
-  const res = await fetch(ZEPTO_API_URL, {
-    method: "POST",
-    headers: {
-      Authorization: `Zoho-enczapikey ${token}`,
-      "Content-Type": "application/json",
-      Accept: "application/json",
-    },
-    body: JSON.stringify(payload),
-  });
+  let res: Response;
+  try {
+    res = await fetch(ZEPTO_API_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Zoho-enczapikey ${token}`,
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: JSON.stringify(payload),
+    });
+  } catch (err) {
+    throw new ZeptoError(`ZeptoMail network error: ${err instanceof Error ? err.message : String(err)}`, null, true);
+  }
 
   if (!res.ok) {
     const text = await res.text();
-    throw new Error(`ZeptoMail error: ${res.status} ${text}`);
+    throw new ZeptoError(`ZeptoMail error: ${res.status} ${text}`, res.status, res.status === 429 || res.status >= 500);
   }
   return await res.json();
 }
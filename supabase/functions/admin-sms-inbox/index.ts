@@ -0,0 +1,301 @@
+// Actions behind the admin SMS inbox (admin panel → SMS → Inbox). The thread
+// list and transcripts are read straight from the database
+// (admin_sms_inbox(), 20261018130000_sms_inbox.sql); everything that texts
+// someone or changes a listing goes through here.
+//
+// POST { action: "reply", phone, body, conversationId?, listingId? }
+//   — manual text to the number, logged to sms_messages as 'admin_reply'.
+// POST { action: "resolve", conversationId, resolution: "renew" | "deactivate" }
+//   — what a YES / NO reply would have done, without texting the owner. An
+//     open bulk batch is resolved as a whole, like a single reply would.
+// POST { action: "resend_reminder", listingId }
+//   — re-sends the renewal reminder now (send-renewal-reminders, targeted).
+//     When it's held in the outbox (send window, rate limit or a retry) the
+//     response carries `deferredUntil`.
+//
+// Admins only.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { isSmsOptedOut, recordCarrierOptOut } from "../_shared/smsConsent.ts";
+import { formatPhoneForSMS, isSmsConfigured } from "../_shared/sms.ts";
+import { sendSmsViaOutbox } from "../_shared/outbox.ts";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_REPLY_LENGTH = 1600;
+const SMS_RENEWAL_DAYS = 14;
+const OPEN_STATES = [
+  "pending",
+  "awaiting_availability",
+  "awaiting_hadirot_question",
+  "awaiting_listing_selection",
+  "awaiting_report_response",
+  "callback_sent",
+  "awaiting_disambiguation",
+  "awaiting_showing_confirmation",
+  "awaiting_message_reply",
+];
+
+interface AdminSmsRequest {
+  action?: "reply" | "resolve" | "resend_reminder";
+  phone?: string;
+  body?: string;
+  conversationId?: string;
+  listingId?: string;
+  resolution?: "renew" | "deactivate";
+}
+
+interface ConversationRow {
+  id: string;
+  listing_id: string | null;
+  batch_id: string | null;
+  state: string;
+  is_commercial: boolean | null;
+  metadata: Record<string, unknown> | null;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Missing authorization" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing Supabase configuration");
+      return jsonResponse({ error: "Database service not configured" }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return jsonResponse({ error: "Invalid authorization" }, 401);
+    }
+
+    const { data: adminProfile } = await supabase
+      .from("profiles")
+      .select("is_admin")
+      .eq("id", user.id)
+      .maybeSingle();
+    if (adminProfile?.is_admin !== true) {
+      return jsonResponse({ error: "Admin privileges required" }, 403);
+    }
+
+    let input: AdminSmsRequest;
+    try {
+      input = await req.json();
+    } catch (_error) {
+      return jsonResponse({ error: "Invalid JSON" }, 400);
+    }
+
+    if ((input.conversationId && !UUID_RE.test(input.conversationId)) || (input.listingId && !UUID_RE.test(input.listingId))) {
+      return jsonResponse({ error: "Invalid id format" }, 400);
+    }
+
+    // ----------------------------------------------------------------
+    // Manual reply
+    // ----------------------------------------------------------------
+    if (input.action === "reply") {
+      const phone = formatPhoneForSMS(input.phone ?? "");
+      const body = input.body?.trim() ?? "";
+      if (!phone) {
+        return jsonResponse({ error: "Invalid phone number" }, 400);
+      }
+      if (!body) {
+        return jsonResponse({ error: "Message is empty" }, 400);
+      }
+      if (body.length > MAX_REPLY_LENGTH) {
+        return jsonResponse({ error: "Message is too long" }, 400);
+      }
+      if (!isSmsConfigured()) {
+        return jsonResponse({ error: "SMS service not configured" }, 500);
+      }
+      if (await isSmsOptedOut(supabase, phone)) {
+        return jsonResponse({ error: "This number has opted out of texts" }, 409);
+      }
+
+      // The admin is answering now — send at any hour, but through the
+      // outbox so a provider hiccup retries instead of losing the reply.
+      const result = await sendSmsViaOutbox(supabase, phone, body, "admin_reply", { respectSendWindow: false });
+      if (!result.ok) {
+        console.error(`Admin reply via ${result.provider} failed:`, result.errorCode, result.errorMessage);
+        await recordCarrierOptOut(supabase, phone, result);
+      }
+
+      const { data: message, error: logError } = await supabase
+        .from("sms_messages")
+        .insert({
+          conversation_id: input.conversationId ?? null,
+          direction: "outbound",
+          phone_number: phone,
+          message_body: body,
+          message_sid: result.messageId,
+          message_source: "admin_reply",
+          listing_id: input.listingId ?? null,
+          status: result.deferredUntil ? "queued" : result.ok ? "sent" : "failed",
+          metadata: { admin_id: user.id, provider: result.provider },
+        })
+        .select("id, conversation_id, direction, phone_number, message_body, message_sid, message_source, listing_id, status, metadata, created_at")
+        .maybeSingle();
+      if (logError) {
+        console.error("Error logging admin reply:", logError);
+      }
+
+      if (!result.ok) {
+        return jsonResponse({ error: result.errorMessage || "The message could not be sent", message }, 502);
+      }
+      return jsonResponse({ success: true, message, deferredUntil: result.deferredUntil });
+    }
+
+    // ----------------------------------------------------------------
+    // Force-resolve a conversation
+    // ----------------------------------------------------------------
+    if (input.action === "resolve") {
+      if (!input.conversationId) {
+        return jsonResponse({ error: "Missing conversationId" }, 400);
+      }
+      if (input.resolution !== "renew" && input.resolution !== "deactivate") {
+        return jsonResponse({ error: "resolution must be renew or deactivate" }, 400);
+      }
+
+      const { data: conv } = await supabase
+        .from("listing_renewal_conversations")
+        .select("id, listing_id, batch_id, state, is_commercial, metadata")
+        .eq("id", input.conversationId)
+        .maybeSingle();
+      if (!conv) {
+        return jsonResponse({ error: "Conversation not found" }, 404);
+      }
+
+      const head = conv as ConversationRow;
+      let targets: ConversationRow[] = [head];
+      if (head.batch_id && head.metadata?.bulk === true && OPEN_STATES.includes(head.state)) {
+        const { data: siblings } = await supabase
+          .from("listing_renewal_conversations")
+          .select("id, listing_id, batch_id, state, is_commercial, metadata")
+          .eq("batch_id", head.batch_id)
+          .neq("id", head.id)
+          .in("state", OPEN_STATES);
+        targets = [head, ...((siblings as ConversationRow[] | null) ?? [])];
+      }
+
+      const nowIso = new Date().toISOString();
+      const failed: string[] = [];
+
+      for (const c of targets) {
+        if (!c.listing_id) continue;
+        const table = c.is_commercial === true ? "commercial_listings" : "listings";
+
+        if (input.resolution === "renew") {
+          // Same extension as a YES reply: 14 days from the later of now and
+          // the current expiry.
+          const { data: listing } = await supabase.from(table).select("expires_at").eq("id", c.listing_id).maybeSingle();
+          const currentExpiry = listing?.expires_at ? new Date(listing.expires_at) : new Date();
+          const base = currentExpiry > new Date() ? currentExpiry : new Date();
+          const { error } = await supabase
+            .from(table)
+            .update({
+              is_active: true,
+              last_published_at: nowIso,
+              expires_at: new Date(base.getTime() + SMS_RENEWAL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+              deactivated_at: null,
+              updated_at: nowIso,
+            })
+            .eq("id", c.listing_id);
+          if (error) {
+            console.error(`Error renewing listing ${c.listing_id}:`, error);
+            failed.push(c.listing_id);
+          }
+        } else {
+          const { error } = await supabase
+            .from(table)
+            .update({ is_active: false, deactivated_at: nowIso, updated_at: nowIso })
+            .eq("id", c.listing_id);
+          if (error) {
+            console.error(`Error deactivating listing ${c.listing_id}:`, error);
+            failed.push(c.listing_id);
+          }
+        }
+      }
+
+      if (failed.length > 0) {
+        return jsonResponse({ error: `Could not update ${failed.length} listing${failed.length === 1 ? "" : "s"}` }, 500);
+      }
+
+      const { error: convError } = await supabase
+        .from("listing_renewal_conversations")
+        .update({
+          state: "completed",
+          action_taken: input.resolution === "renew" ? "extended" : "deactivated",
+          resolved_by: user.id,
+          updated_at: nowIso,
+        })
+        .in("id", targets.map((c) => c.id));
+      if (convError) {
+        console.error("Error completing conversations:", convError);
+        return jsonResponse({ error: "Listings updated, but the conversation could not be closed" }, 500);
+      }
+
+      return jsonResponse({ success: true, resolved: targets.length });
+    }
+
+    // ----------------------------------------------------------------
+    // Re-send the renewal reminder
+    // ----------------------------------------------------------------
+    if (input.action === "resend_reminder") {
+      if (!input.listingId) {
+        return jsonResponse({ error: "Missing listingId" }, 400);
+      }
+
+      const response = await fetch(`${supabaseUrl}/functions/v1/send-renewal-reminders`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${supabaseServiceKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ listingId: input.listingId }),
+      });
+      const result = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        return jsonResponse({ error: result?.error ?? "Could not send the reminder" }, 502);
+      }
+      if (result?.summary?.smsSent === 1) {
+        return jsonResponse({ success: true, deferredUntil: result.summary.deferredUntil ?? null });
+      }
+      const reason = result?.message
+        ?? (result?.summary?.skippedOptedOut ? "This number has opted out of texts" : null)
+        ?? (result?.summary?.smsErrors ? "The SMS provider rejected the message" : null)
+        ?? "The reminder was not sent";
+      return jsonResponse({ error: reason }, 409);
+    }
+
+    return jsonResponse({ error: "Unknown action" }, 400);
+  } catch (error) {
+    console.error("Error in admin-sms-inbox:", error);
+    return jsonResponse({
+      error: "Internal error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    }, 500);
+  }
+});
@@ -0,0 +1,266 @@
+// Public XML syndication feed of one agency's live listings.
+//
+//   GET /functions/v1/agency-listing-feed?agency=<slug>&token=<token>
+//
+// The token comes from agency_feed_tokens (rotated from Agency Settings), so
+// the URL can be handed to a partner site without a login. Only approved,
+// active listings posted by the agency owner are included — rentals, sales
+// and commercial.
+//
+// Element names follow the RESO Data Dictionary (ListingKey, StandardStatus,
+// PropertyType, ListPrice, BedroomsTotal, …) so RESO / RETS consumers can map
+// them without a custom schema. Deployed with verify_jwt = false.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function escapeXml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** `<Name>value</Name>`, or nothing when the value is empty. */
+function el(name: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '';
+  return `<${name}>${escapeXml(value)}</${name}>`;
+}
+
+const PROPERTY_SUBTYPE: Record<string, string> = {
+  apartment_building: 'Apartment',
+  apartment_house: 'Apartment',
+  full_house: 'SingleFamilyResidence',
+  duplex: 'Duplex',
+  basement: 'Apartment',
+  detached_house: 'SingleFamilyResidence',
+  semi_attached_house: 'SingleFamilyResidence',
+  fully_attached_townhouse: 'Townhouse',
+  condo: 'Condominium',
+  co_op: 'StockCooperative',
+  single_family: 'SingleFamilyResidence',
+  two_family: 'Duplex',
+  three_family: 'Triplex',
+  four_family: 'Quadruplex',
+};
+
+const SALE_STATUS: Record<string, string> = {
+  available: 'Active',
+  pending: 'Pending',
+  in_contract: 'ActiveUnderContract',
+  sold: 'Closed',
+};
+
+interface FeedImage {
+  image_url: string;
+  is_featured: boolean | null;
+  sort_order: number | null;
+}
+
+function mediaXml(images: FeedImage[] | null | undefined): string {
+  const sorted = [...(images ?? [])].sort((a, b) => {
+    if (a.is_featured && !b.is_featured) return -1;
+    if (!a.is_featured && b.is_featured) return 1;
+    return (a.sort_order ?? 0) - (b.sort_order ?? 0);
+  });
+  if (sorted.length === 0) return '';
+  return `<Media>${sorted
+    .map((img, i) => `<MediaItem>${el('MediaURL', img.image_url)}${el('Order', i + 1)}</MediaItem>`)
+    .join('')}</Media>`;
+}
+
+// deno-lint-ignore no-explicit-any
+function residentialXml(l: any, siteUrl: string): string {
+  const isSale = l.listing_type === 'sale';
+  const price = isSale ? l.asking_price : l.price;
+  return [
+    '<Listing>',
+    el('ListingKey', l.id),
+    el('StandardStatus', isSale ? SALE_STATUS[l.sale_status] ?? 'Active' : 'Active'),
+    el('PropertyType', isSale ? 'Residential' : 'ResidentialLease'),
+    el('PropertySubType', PROPERTY_SUBTYPE[l.property_type] ?? 'Apartment'),
+    el('ListPrice', l.call_for_price ? '' : price),
+    el('CallForPrice', l.call_for_price ? 'true' : ''),
+    el('BedroomsTotal', l.bedrooms),
+    el('BathroomsTotalDecimal', l.bathrooms),
+    el('LivingArea', l.square_footage ?? l.building_size_sqft),
+    el('LotSizeSquareFeet', isSale ? l.lot_size_sqft : ''),
+    el('YearBuilt', l.year_built),
+    el('AvailabilityDate', isSale ? '' : l.available_date),
+    el('LeaseTerm', l.lease_length),
+    el('UnparsedAddress', l.full_address),
+    el('CrossStreet', l.location),
+    el('SubdivisionName', l.neighborhood),
+    el('City', 'Brooklyn'),
+    el('StateOrProvince', 'NY'),
+    el('Latitude', l.latitude),
+    el('Longitude', l.longitude),
+    el('PublicRemarks', l.description),
+    el('ListingTitle', l.title),
+    el('ListAgentFullName', l.contact_name),
+    el('ListAgentPreferredPhone', l.contact_phone),
+    el('ListingURL', `${siteUrl}/listing/${l.id}`),
+    el('OriginalEntryTimestamp', l.created_at),
+    el('ModificationTimestamp', l.updated_at),
+    el('ExpirationDate', l.expires_at),
+    mediaXml(l.listing_images),
+    '</Listing>',
+  ].join('');
+}
+
+// deno-lint-ignore no-explicit-any
+function commercialXml(l: any, siteUrl: string): string {
+  const isSale = l.listing_type === 'sale';
+  const price = isSale ? l.asking_price : l.price;
+  return [
+    '<Listing>',
+    el('ListingKey', l.id),
+    el('StandardStatus', isSale ? SALE_STATUS[l.sale_status] ?? 'Active' : 'Active'),
+    el('PropertyType', isSale ? 'CommercialSale' : 'CommercialLease'),
+    el('PropertySubType', l.commercial_space_type),
+    el('ListPrice', l.call_for_price ? '' : price),
+    el('CallForPrice', l.call_for_price ? 'true' : ''),
+    el('LeasableArea', l.available_sf),
+    el('BuildingAreaTotal', l.total_building_sf),
+    el('LeaseAmountFrequency', !isSale && l.price ? 'Monthly' : ''),
+    el('YearBuilt', l.year_built),
+    el('AvailabilityDate', l.available_date),
+    el('UnparsedAddress', l.full_address),
+    el('CrossStreet', [l.cross_street_a, l.cross_street_b].filter(Boolean).join(' & ')),
+    el('SubdivisionName', l.neighborhood),
+    el('City', 'Brooklyn'),
+    el('StateOrProvince', 'NY'),
+    el('Latitude', l.latitude),
+    el('Longitude', l.longitude),
+    el('PublicRemarks', l.description),
+    el('ListingTitle', l.title),
+    el('ListAgentFullName', l.contact_name),
+    el('ListAgentPreferredPhone', l.contact_phone),
+    el('ListingURL', `${siteUrl}/commercial-listing/${l.id}`),
+    el('OriginalEntryTimestamp', l.created_at),
+    el('ModificationTimestamp', l.updated_at),
+    el('ExpirationDate', l.expires_at),
+    mediaXml(l.listing_images),
+    '</Listing>',
+  ].join('');
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const url = new URL(req.url);
+    const slug = url.searchParams.get('agency')?.trim();
+    const token = url.searchParams.get('token')?.trim();
+
+    if (!slug || !token) {
+      return jsonResponse({ error: 'Missing agency or token' }, 400);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      },
+    );
+
+    const { data: agency, error: agencyError } = await supabaseAdmin
+      .from('agencies')
+      .select('id, name, slug, owner_profile_id, phone, email, website')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (agencyError) {
+      console.error('Error loading agency for feed:', agencyError);
+      return jsonResponse({ error: 'Internal server error' }, 500);
+    }
+
+    const { data: feedToken } = agency
+      ? await supabaseAdmin
+          .from('agency_feed_tokens')
+          .select('token')
+          .eq('agency_id', agency.id)
+          .maybeSingle()
+      : { data: null };
+
+    // Same response for an unknown agency and a wrong token.
+    if (!agency || !feedToken || feedToken.token !== token) {
+      return jsonResponse({ error: 'Invalid feed link' }, 404);
+    }
+
+    const [residentialResult, commercialResult] = await Promise.all([
+      supabaseAdmin
+        .from('listings')
+        .select('*, listing_images(image_url, is_featured, sort_order)')
+        .eq('user_id', agency.owner_profile_id)
+        .eq('is_active', true)
+        .eq('approved', true)
+        .order('updated_at', { ascending: false }),
+      supabaseAdmin
+        .from('commercial_listings')
+        .select('*, listing_images:commercial_listing_images(image_url, is_featured, sort_order)')
+        .eq('user_id', agency.owner_profile_id)
+        .eq('is_active', true)
+        .eq('approved', true)
+        .order('updated_at', { ascending: false }),
+    ]);
+
+    if (residentialResult.error) {
+      console.error('Error loading listings for feed:', residentialResult.error);
+      return jsonResponse({ error: 'Internal server error' }, 500);
+    }
+    if (commercialResult.error) {
+      console.error('Error loading commercial listings for feed (continuing without):', commercialResult.error);
+    }
+
+    const siteUrl = (Deno.env.get('PUBLIC_SITE_URL') || 'https://hadirot.com').replace(/\/+$/, '');
+    const residential = residentialResult.data ?? [];
+    const commercial = commercialResult.data ?? [];
+
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<Listings generated="${escapeXml(new Date().toISOString())}" count="${residential.length + commercial.length}">`,
+      '<Office>',
+      el('OfficeKey', agency.id),
+      el('OfficeName', agency.name),
+      el('OfficePhone', agency.phone),
+      el('OfficeEmail', agency.email),
+      el('OfficeURL', agency.website),
+      '</Office>',
+      ...residential.map((l) => residentialXml(l, siteUrl)),
+      ...commercial.map((l) => commercialXml(l, siteUrl)),
+      '</Listings>',
+    ].join('\n');
+
+    return new Response(xml, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=900',
+      },
+    });
+  } catch (error) {
+    console.error('Error in agency-listing-feed:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
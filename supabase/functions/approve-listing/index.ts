@@ -1,17 +1,9 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
 import { corsHeaders } from '../_shared/cors.ts';
-import { sendViaZepto, renderBrandEmail } from '../_shared/zepto.ts';
-
-// Escape user-controlled strings (e.g. listing title) before interpolating into
-// email HTML. Prevents broken markup / link injection in notification emails.
-function escapeHtml(s: string): string {
-  return s
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
-}
+import { renderBrandEmail } from '../_shared/zepto.ts';
+import { sendEmailViaOutbox } from '../_shared/outbox.ts';
+import { prepareCategoryEmail } from '../_shared/notificationPreferences.ts';
+import { escapeHtml } from '../_shared/listingEmail.ts';
 
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -315,18 +307,46 @@ Deno.serve(async (req) => {
           ctaHref: listingUrl,
         });
 
-        await sendViaZepto({
-          to: ownerEmail,
-          subject: `Listing Approved: ${listingTitle} is now live! - Hadirot`,
-          html,
-        });
+        const prepared = await prepareCategoryEmail(supabaseClient, ownerEmail, html, 'listing_updates', listingData.user_id);
+        if (prepared) {
+          await sendEmailViaOutbox(supabaseClient, {
+            to: ownerEmail,
+            subject: `Listing Approved: ${listingTitle} is now live! - Hadirot`,
+            html: prepared.html,
+            headers: prepared.headers,
+          }, 'listing_approved', { respectSendWindow: false });
 
-        console.log('[EDGE] approve-listing: approval email sent', { listingId, to: ownerEmail });
+          console.log('[EDGE] approve-listing: approval email sent', { listingId, to: ownerEmail });
+        }
       } catch (emailErr) {
         console.error('[EDGE] approve-listing: failed to send approval email (approval still succeeded)', emailErr);
       }
     }
 
+    // Saved-search alerts run after the response is sent — matching every
+    // active search must not hold up the admin's approve click.
+    const alertsTask = (async () => {
+      try {
+        await fetch(`${Deno.env.get('SUPABASE_URL')!}/functions/v1/send-saved-search-alerts`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ listingId: listingData.id, isCommercial: !!isCommercial }),
+        });
+      } catch (alertErr) {
+        console.error('[EDGE] approve-listing: saved-search alerts call failed (approval still succeeded)', alertErr);
+      }
+    })();
+    // deno-lint-ignore no-explicit-any
+    const runtime = (globalThis as any).EdgeRuntime;
+    if (runtime?.waitUntil) {
+      runtime.waitUntil(alertsTask);
+    } else {
+      await alertsTask;
+    }
+
     return new Response(
       JSON.stringify({ message: 'Listing approved', listing: listingData }),
       {
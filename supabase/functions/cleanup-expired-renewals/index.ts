@@ -28,8 +28,8 @@ Deno.serve(async (req) => {
 
     const { data: expiredConversations, error: queryError } = await supabaseAdmin
       .from("listing_renewal_conversations")
-      .select("id, listing_id, state, is_commercial")
-      .in("state", ["pending", "awaiting_availability", "awaiting_hadirot_question", "awaiting_listing_selection", "awaiting_report_response", "callback_sent", "awaiting_disambiguation"])
+      .select("id, listing_id, state, is_commercial, metadata")
+      .in("state", ["pending", "awaiting_availability", "awaiting_hadirot_question", "awaiting_listing_selection", "awaiting_report_response", "callback_sent", "awaiting_disambiguation", "awaiting_showing_confirmation", "awaiting_message_reply"])
       .lt("expires_at", now);
 
     if (queryError) {
@@ -46,12 +46,12 @@ Deno.serve(async (req) => {
     let autoDeactivatedCount = 0;
 
     if (expiredConversations && expiredConversations.length > 0) {
-      const reportResponseConversations = expiredConversations.filter(
-        (c) => c.state === 'awaiting_report_response'
-      );
-      const otherConversations = expiredConversations.filter(
-        (c) => c.state !== 'awaiting_report_response'
-      );
+      // A "still available?" text after the pamphlet ad dropped out is a
+      // question, not a report — no answer leaves the listing alone.
+      const isReportTimeout = (c: { state: string; metadata: { report_type?: string } | null }) =>
+        c.state === 'awaiting_report_response' && c.metadata?.report_type !== 'pamphlet_dropped';
+      const reportResponseConversations = expiredConversations.filter(isReportTimeout);
+      const otherConversations = expiredConversations.filter((c) => !isReportTimeout(c));
 
       if (reportResponseConversations.length > 0) {
         // Report timeouts deactivate from the correct table (residential vs commercial).
@@ -1,6 +1,7 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
-import { renderBrandEmail, sendViaZepto } from "../_shared/zepto.ts";
+import { renderBrandEmail } from "../_shared/zepto.ts";
+import { sendEmailViaOutbox } from "../_shared/outbox.ts";
 
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
@@ -179,11 +180,11 @@ Deno.serve(async (req) => {
           bodyHtml: `<p>Your Hadirot account has been deleted.</p>${reason ? `<p>${reason}</p>` : ""}<p>If you have questions, contact support@hadirot.com.</p>`,
         });
 
-        await sendViaZepto({
+        await sendEmailViaOutbox(supabaseAdmin, {
           to: targetEmail,
           subject: "Your Hadirot account has been deleted",
           html,
-        });
+        }, "account_deleted", { respectSendWindow: false });
 
         console.log("✅ Account deletion email sent via ZeptoMail");
       } catch (emailError) {
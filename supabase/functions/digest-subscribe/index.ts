@@ -0,0 +1,322 @@
+// Public subscribe / manage endpoint for subscriber digests (/digest and the
+// /digest/:token page). Schema: 20261018230000_public_digest_subscriptions.sql.
+//
+// POST { action: "subscribe", channel, email | phone, listing_type,
+//        neighborhoods, bedrooms, frequency }
+//   — anyone. An email subscription stays pending until the link in the
+//     confirmation email is opened, unless the caller is signed in with that
+//     address. A WhatsApp one is live right away but only sends once the
+//     number has opted in to WhatsApp (START, or Account → Settings).
+//     Subscribing an address that already has a live subscription changes
+//     nothing: the owner is signed in and it's updated, or the manage link
+//     goes to the address again.
+// POST { action: "get" | "confirm" | "update" | "unsubscribe", token, ... }
+//   — the manage link. The token alone decides whose subscription it is, so
+//     any change made through it also confirms the address. "get" never
+//     changes anything: mail filters fetch every link in an email.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { renderBrandEmail } from "../_shared/zepto.ts";
+import { sendEmailViaOutbox } from "../_shared/outbox.ts";
+import { formatPhoneForSMS } from "../_shared/sms.ts";
+import { isWhatsAppOptedIn } from "../_shared/whatsappConsent.ts";
+import { escapeHtml } from "../_shared/listingEmail.ts";
+
+const TOKEN_RE = /^[0-9a-f]{48}$/;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_NEIGHBORHOODS = 20;
+// A pending address isn't sent another confirmation email sooner than this.
+const RESEND_INTERVAL_MS = 10 * 60 * 1000;
+const SOURCE_KEY = "digest_subscription";
+
+const SUBSCRIPTION_COLUMNS =
+  "id, user_id, channel, email, phone_number, listing_type, neighborhoods, bedrooms, frequency, token, confirmed_at, unsubscribed_at, last_sent_at, updated_at";
+
+type ManageAction = "subscribe" | "get" | "confirm" | "update" | "unsubscribe";
+
+interface SubscriptionRow {
+  id: string;
+  user_id: string | null;
+  channel: "email" | "whatsapp";
+  email: string | null;
+  phone_number: string | null;
+  listing_type: "rental" | "sale";
+  neighborhoods: string[];
+  bedrooms: number[];
+  frequency: "daily" | "weekly";
+  token: string;
+  confirmed_at: string | null;
+  unsubscribed_at: string | null;
+  last_sent_at: string | null;
+  updated_at: string;
+}
+
+interface Preferences {
+  listing_type: "rental" | "sale";
+  neighborhoods: string[];
+  bedrooms: number[];
+  frequency: "daily" | "weekly";
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/** Validated preferences from the request, or an error message. */
+// deno-lint-ignore no-explicit-any
+function parsePreferences(input: any): Preferences | string {
+  const listingType = input?.listing_type ?? "rental";
+  if (listingType !== "rental" && listingType !== "sale") return "Pick rentals or sales.";
+  const frequency = input?.frequency ?? "daily";
+  if (frequency !== "daily" && frequency !== "weekly") return "Pick daily or weekly.";
+
+  const neighborhoods = Array.isArray(input?.neighborhoods)
+    ? [...new Set(
+      input.neighborhoods
+        .filter((n: unknown): n is string => typeof n === "string")
+        .map((n: string) => n.trim())
+        .filter((n: string) => n.length > 0 && n.length <= 60),
+    )] as string[]
+    : [];
+  if (neighborhoods.length > MAX_NEIGHBORHOODS) return `Pick up to ${MAX_NEIGHBORHOODS} neighborhoods.`;
+
+  const bedrooms = Array.isArray(input?.bedrooms)
+    ? [...new Set(input.bedrooms.filter((b: unknown): b is number => Number.isInteger(b) && (b as number) >= 0 && (b as number) <= 4))] as number[]
+    : [];
+
+  return { listing_type: listingType, neighborhoods, bedrooms: bedrooms.sort((a, b) => a - b), frequency };
+}
+
+/** "Rentals in Midwood or Flatbush · 2 or 3 bedrooms · daily" */
+function describePreferences(prefs: Preferences): string {
+  const parts = [
+    `${prefs.listing_type === "sale" ? "Homes for sale" : "Rentals"}${
+      prefs.neighborhoods.length > 0 ? ` in ${prefs.neighborhoods.join(" or ")}` : ""
+    }`,
+  ];
+  if (prefs.bedrooms.length > 0) {
+    const labels = prefs.bedrooms.map((b) => (b === 0 ? "studio" : b === 4 ? "4+" : String(b)));
+    parts.push(`${labels.join(" or ")} bedrooms`);
+  }
+  parts.push(prefs.frequency);
+  return parts.join(" · ");
+}
+
+function publicView(row: SubscriptionRow, whatsappOptedIn: boolean) {
+  return {
+    channel: row.channel,
+    email: row.email,
+    phone_number: row.phone_number,
+    listing_type: row.listing_type,
+    neighborhoods: row.neighborhoods,
+    bedrooms: row.bedrooms,
+    frequency: row.frequency,
+    confirmed: row.confirmed_at != null,
+    unsubscribed: row.unsubscribed_at != null,
+    last_sent_at: row.last_sent_at,
+    whatsapp_opted_in: whatsappOptedIn,
+  };
+}
+
+// deno-lint-ignore no-explicit-any
+async function sendManageEmail(supabase: any, row: SubscriptionRow, siteUrl: string, confirm: boolean) {
+  const link = `${siteUrl}/digest/${row.token}`;
+  const html = renderBrandEmail({
+    title: confirm ? "Confirm your Hadirot digest" : "Your Hadirot digest",
+    intro: confirm
+      ? "Someone — hopefully you — asked for new Hadirot listings by email. Confirm and your first digest goes out with the next one."
+      : "You're already subscribed to a Hadirot digest. Use the link below to change what it sends you or to unsubscribe.",
+    bodyHtml: `<p style="color:#6B7280;">${escapeHtml(describePreferences(row))}</p>
+      <p style="font-size:13px;color:#6B7280;">Didn't ask for this? Ignore this email and you won't hear from us.</p>`,
+    ctaLabel: confirm ? "Confirm subscription" : "Manage your digest",
+    ctaHref: link,
+  });
+  await sendEmailViaOutbox(supabase, {
+    to: row.email!,
+    subject: confirm ? "Confirm your Hadirot listing digest" : "Manage your Hadirot listing digest",
+    html,
+  }, SOURCE_KEY);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    // deno-lint-ignore no-explicit-any
+    let input: any;
+    try {
+      input = await req.json();
+    } catch (_error) {
+      return jsonResponse({ error: "Invalid JSON" }, 400);
+    }
+
+    const action: ManageAction = input?.action ?? "get";
+    if (!["subscribe", "get", "confirm", "update", "unsubscribe"].includes(action)) {
+      return jsonResponse({ error: "Unknown action" }, 400);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+    const siteUrl = Deno.env.get("PUBLIC_SITE_URL") || "https://hadirot.com";
+
+    // --- Manage link ----------------------------------------------------------
+    if (action !== "subscribe") {
+      const token = typeof input?.token === "string" ? input.token : "";
+      if (!TOKEN_RE.test(token)) {
+        return jsonResponse({ error: "This link is invalid." }, 404);
+      }
+      const { data: found } = await supabase
+        .from("digest_subscriptions")
+        .select(SUBSCRIPTION_COLUMNS)
+        .eq("token", token)
+        .maybeSingle();
+      if (!found) {
+        return jsonResponse({ error: "This link is invalid or the subscription was removed." }, 404);
+      }
+      let row = found as SubscriptionRow;
+
+      if (action !== "get") {
+        if (row.unsubscribed_at) {
+          return jsonResponse({ error: "This digest was unsubscribed. Subscribe again from hadirot.com/digest." }, 409);
+        }
+        const now = new Date().toISOString();
+        const changes: Record<string, unknown> = { updated_at: now, confirmed_at: row.confirmed_at ?? now };
+        if (action === "update") {
+          const prefs = parsePreferences(input);
+          if (typeof prefs === "string") return jsonResponse({ error: prefs }, 400);
+          Object.assign(changes, prefs);
+        }
+        if (action === "unsubscribe") {
+          changes.unsubscribed_at = now;
+        }
+        const { data: updated, error: updateError } = await supabase
+          .from("digest_subscriptions")
+          .update(changes)
+          .eq("id", row.id)
+          .select(SUBSCRIPTION_COLUMNS)
+          .single();
+        if (updateError) throw updateError;
+        row = updated as SubscriptionRow;
+        console.log(`Digest subscription ${row.id}: ${action}`);
+      }
+
+      const optedIn = row.channel === "whatsapp" && !!row.phone_number &&
+        await isWhatsAppOptedIn(supabase, row.phone_number);
+      return jsonResponse({ subscription: publicView(row, optedIn) });
+    }
+
+    // --- Subscribe ------------------------------------------------------------
+    const prefs = parsePreferences(input);
+    if (typeof prefs === "string") return jsonResponse({ error: prefs }, 400);
+
+    const channel = input?.channel;
+    if (channel !== "email" && channel !== "whatsapp") {
+      return jsonResponse({ error: "Pick email or WhatsApp." }, 400);
+    }
+
+    let email: string | null = null;
+    let phone: string | null = null;
+    if (channel === "email") {
+      email = typeof input?.email === "string" ? input.email.trim().toLowerCase() : "";
+      if (!email || email.length > 254 || !EMAIL_RE.test(email)) {
+        return jsonResponse({ error: "Please enter a valid email address." }, 400);
+      }
+    } else {
+      phone = formatPhoneForSMS(typeof input?.phone === "string" ? input.phone : "");
+      if (!phone) {
+        return jsonResponse({ error: "Please enter a valid phone number." }, 400);
+      }
+    }
+
+    // Signed in (not just the anon key): the subscription is linked to the
+    // account, and an email one for the account's own address needs no
+    // confirmation.
+    const bearer = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+    const { data: authData } = bearer ? await supabase.auth.getUser(bearer) : { data: { user: null } };
+    const user = authData?.user ?? null;
+    let ownsAddress = false;
+    if (user && channel === "email") {
+      ownsAddress = user.email?.toLowerCase() === email;
+    } else if (user) {
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("phone")
+        .eq("id", user.id)
+        .maybeSingle();
+      ownsAddress = formatPhoneForSMS(profile?.phone || "") === phone;
+    }
+
+    let existingQuery = supabase
+      .from("digest_subscriptions")
+      .select(SUBSCRIPTION_COLUMNS)
+      .eq("channel", channel)
+      .eq("listing_type", prefs.listing_type)
+      .is("unsubscribed_at", null);
+    existingQuery = channel === "email" ? existingQuery.eq("email", email!) : existingQuery.eq("phone_number", phone!);
+    const { data: existing } = await existingQuery.maybeSingle();
+    const now = new Date().toISOString();
+
+    if (existing) {
+      const row = existing as SubscriptionRow;
+      if (ownsAddress) {
+        const { error: updateError } = await supabase
+          .from("digest_subscriptions")
+          .update({ ...prefs, user_id: user!.id, confirmed_at: row.confirmed_at ?? now, updated_at: now })
+          .eq("id", row.id);
+        if (updateError) throw updateError;
+        return jsonResponse({ status: "subscribed", token: row.token, updated: true });
+      }
+      // Anyone can type an address in — only its owner gets to change it.
+      if (channel === "email" && Date.now() - new Date(row.updated_at).getTime() >= RESEND_INTERVAL_MS) {
+        await sendManageEmail(supabase, row, siteUrl, row.confirmed_at == null);
+        await supabase.from("digest_subscriptions").update({ updated_at: now }).eq("id", row.id);
+      }
+      return jsonResponse({ status: channel === "email" ? "check_email" : "already_subscribed" });
+    }
+
+    const confirmed = channel === "whatsapp" || ownsAddress;
+    const { data: inserted, error: insertError } = await supabase
+      .from("digest_subscriptions")
+      .insert({
+        ...prefs,
+        user_id: ownsAddress ? user!.id : null,
+        channel,
+        email,
+        phone_number: phone,
+        confirmed_at: confirmed ? now : null,
+      })
+      .select(SUBSCRIPTION_COLUMNS)
+      .single();
+    if (insertError) throw insertError;
+    const row = inserted as SubscriptionRow;
+    console.log(`Digest subscription ${row.id} created (${channel}, ${describePreferences(prefs)})`);
+
+    if (!confirmed) {
+      await sendManageEmail(supabase, row, siteUrl, true);
+      return jsonResponse({ status: "check_email" });
+    }
+
+    const whatsappOptedIn = channel === "whatsapp" && await isWhatsAppOptedIn(supabase, phone!);
+    return jsonResponse({
+      status: "subscribed",
+      // A WhatsApp number is only shown its manage link once it's the
+      // caller's own; otherwise it comes with the first digest.
+      token: ownsAddress ? row.token : undefined,
+      whatsapp_opted_in: channel === "whatsapp" ? whatsappOptedIn : undefined,
+    });
+  } catch (error) {
+    console.error("Error in digest-subscribe:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,108 @@
+// Public, no-login unsubscribe endpoint for the link and List-Unsubscribe
+// header in every category email (_shared/notificationPreferences.ts).
+//
+//   GET  ?token=…  confirm page. Link scanners in mail filters fetch every
+//                  link in an email, so a GET never changes anything.
+//   POST ?token=…  unsubscribes. Mail clients' own unsubscribe button posts
+//                  "List-Unsubscribe=One-Click" (RFC 8058); the confirm page
+//                  posts scope=category or scope=all.
+//
+// The category goes on the user's email_opt_outs, which they can turn back
+// on from Account → Settings. An address with no account can't hold
+// preferences, so it goes on the email suppression list instead. Either way
+// a digests (or all-email) unsubscribe also ends the address's subscriber
+// digests (digest_subscriptions).
+//
+// verify_jwt = false (see supabase/config.toml) — the signed token IS the auth.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { suppressEmail } from "../_shared/emailSuppression.ts";
+import { escapeHtml } from "../_shared/listingEmail.ts";
+import {
+  addEmailOptOut,
+  NOTIFICATION_CATEGORY_LABELS,
+  PREFERENCES_URL,
+  verifyUnsubscribeToken,
+  type NotificationCategory,
+} from "../_shared/notificationPreferences.ts";
+
+const ALL_CATEGORIES = Object.keys(NOTIFICATION_CATEGORY_LABELS) as NotificationCategory[];
+
+function page(bodyHtml: string, status = 200): Response {
+  const html = `<!doctype html><html><head><meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>Hadirot</title>
+    <style>body{font-family:Arial,sans-serif;background:#F7F9FC;color:#374151;margin:0;padding:24px;text-align:center}
+    .card{max-width:480px;margin:48px auto;background:#fff;border:1px solid #E5E7EB;border-radius:8px;overflow:hidden}
+    .hd{background:#1E4A74;color:#fff;padding:20px;font-size:22px;font-weight:bold}
+    .bd{padding:24px;font-size:16px;line-height:1.5}
+    button{display:block;width:100%;margin-top:12px;border:0;border-radius:6px;padding:12px 20px;font-size:16px;cursor:pointer}
+    .primary{background:#1E4A74;color:#fff}.secondary{background:#E5E7EB;color:#374151}
+    a{color:#1E4A74}</style>
+    </head><body><div class="card"><div class="hd">Hadirot</div>
+    <div class="bd">${bodyHtml}
+    <p style="margin-top:24px;font-size:14px"><a href="${PREFERENCES_URL}">Manage all email preferences</a></p></div></div></body></html>`;
+  return new Response(html, {
+    status,
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
+
+Deno.serve(async (req) => {
+  try {
+    const url = new URL(req.url);
+    const token = url.searchParams.get("token");
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const payload = token ? await verifyUnsubscribeToken(token, serviceKey) : null;
+    if (!payload) {
+      return page("<p>This unsubscribe link is invalid. You can change which emails you get from your account settings.</p>", 400);
+    }
+
+    const label = NOTIFICATION_CATEGORY_LABELS[payload.c];
+    const address = escapeHtml(payload.m);
+
+    if (req.method === "GET") {
+      const action = `?token=${encodeURIComponent(token!)}`;
+      return page(`<p>Stop sending <strong>${label}</strong> to ${address}?</p>
+        <form method="post" action="${action}"><input type="hidden" name="scope" value="category">
+        <button class="primary" type="submit">Unsubscribe from ${label}</button></form>
+        <form method="post" action="${action}"><input type="hidden" name="scope" value="all">
+        <button class="secondary" type="submit">Unsubscribe from all Hadirot emails</button></form>`);
+    }
+
+    if (req.method !== "POST") {
+      return new Response("Method not allowed", { status: 405 });
+    }
+
+    const form = await req.formData().catch(() => null);
+    const all = form?.get("scope") === "all";
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    if (payload.u) {
+      await addEmailOptOut(supabase, payload.u, all ? ALL_CATEGORIES : [payload.c]);
+    } else {
+      await suppressEmail(supabase, payload.m, "manual", `Unsubscribed via email link (${payload.c})`);
+    }
+    // Subscriber digests (digest-subscribe) go to addresses, not accounts.
+    if (all || !payload.u || payload.c === "digests") {
+      const now = new Date().toISOString();
+      await supabase
+        .from("digest_subscriptions")
+        .update({ unsubscribed_at: now, updated_at: now })
+        .eq("channel", "email")
+        .eq("email", payload.m)
+        .is("unsubscribed_at", null);
+    }
+    console.log(`${payload.m} unsubscribed from ${all || !payload.u ? "all email" : payload.c}`);
+
+    const what = all || !payload.u ? "any more emails" : label;
+    return page(`<p>Done — ${address} won't get ${what} from Hadirot.</p>
+      <p style="font-size:14px;color:#6B7280">Password resets and other security emails still go out.</p>`);
+  } catch (error) {
+    console.error("Error in email-unsubscribe:", error);
+    return page("<p>Something went wrong and you haven't been unsubscribed. Please try again, or change your email preferences from your account settings.</p>", 500);
+  }
+});
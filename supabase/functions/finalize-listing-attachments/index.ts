@@ -0,0 +1,244 @@
+// Moves uploaded floor plans / documents out of the caller's temp folder and
+// attaches them to a listing.
+//
+// POST { listingId, isCommercial?, files: [{ filePath, originalName, kind, title?, requiresLogin? }] }
+//
+// The browser uploads each file to listing-documents/user_{uid}/temp/ first
+// (the only place the storage policies let it write). This function checks
+// the caller owns the listing (or is an admin), validates every file with
+// _shared/validateFileUpload.ts#validateAttachment, then:
+//   - image floor plans → public listing-images bucket, under the listing's
+//     prefix so cleanup removes them with the photos, stored as `file_url`;
+//   - PDFs and documents → private listing-documents bucket, stored as
+//     `file_path` and served through signed URLs.
+// Returns the inserted rows; 207 with `errors` when some files were rejected.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { validateAttachment, type AttachmentKind } from "../_shared/validateFileUpload.ts";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_FILES_PER_REQUEST = 10;
+const MAX_ATTACHMENTS_PER_LISTING = 30;
+const ATTACHMENT_COLUMNS =
+  "id, listing_id, commercial_listing_id, kind, title, file_url, file_path, url, mime_type, file_size, requires_login, sort_order, created_at";
+
+interface AttachmentUpload {
+  filePath?: string;
+  originalName?: string;
+  kind?: string;
+  title?: string;
+  requiresLogin?: boolean;
+}
+
+interface FinalizeAttachmentsBody {
+  listingId?: string;
+  isCommercial?: boolean;
+  files?: AttachmentUpload[];
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Missing authorization" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing Supabase configuration");
+      return jsonResponse({ error: "Database service not configured" }, 500);
+    }
+
+    const supabaseAuth = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: "Please sign in to upload attachments" }, 401);
+    }
+
+    let input: FinalizeAttachmentsBody;
+    try {
+      input = await req.json();
+    } catch (_error) {
+      return jsonResponse({ error: "Invalid JSON" }, 400);
+    }
+
+    const { listingId, files } = input;
+    const isCommercial = !!input.isCommercial;
+    if (!listingId || !UUID_RE.test(listingId)) {
+      return jsonResponse({ error: "Invalid listingId format" }, 400);
+    }
+    if (!Array.isArray(files) || files.length === 0) {
+      return jsonResponse({ error: "Missing required parameter: files (array)" }, 400);
+    }
+    if (files.length > MAX_FILES_PER_REQUEST) {
+      return jsonResponse({ error: `Too many files (max ${MAX_FILES_PER_REQUEST})` }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    // ----------------------------------------------------------------
+    // Ownership: listing owner or admin
+    // ----------------------------------------------------------------
+    const { data: listing } = await supabase
+      .from(isCommercial ? "commercial_listings" : "listings")
+      .select("id, user_id")
+      .eq("id", listingId)
+      .maybeSingle();
+    if (!listing) {
+      return jsonResponse({ error: "Listing not found" }, 404);
+    }
+
+    if (listing.user_id !== user.id) {
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("is_admin")
+        .eq("id", user.id)
+        .maybeSingle();
+      if (!profile?.is_admin) {
+        return jsonResponse({ error: "You can only add attachments to your own listings" }, 403);
+      }
+    }
+
+    const listingColumn = isCommercial ? "commercial_listing_id" : "listing_id";
+    const { count: existingCount } = await supabase
+      .from("listing_attachments")
+      .select("id", { count: "exact", head: true })
+      .eq(listingColumn, listingId);
+    if ((existingCount ?? 0) + files.length > MAX_ATTACHMENTS_PER_LISTING) {
+      return jsonResponse({ error: `A listing can have at most ${MAX_ATTACHMENTS_PER_LISTING} attachments` }, 400);
+    }
+
+    // ----------------------------------------------------------------
+    // Validate and move each file
+    // ----------------------------------------------------------------
+    const tempPrefix = `user_${user.id}/temp/`;
+    const listingPrefix = isCommercial ? `commercial/${listingId}/` : `${listingId}/`;
+    const records: Record<string, unknown>[] = [];
+    const errors: string[] = [];
+    let sortOrder = existingCount ?? 0;
+
+    for (let i = 0; i < files.length; i++) {
+      const { filePath, originalName, title, requiresLogin } = files[i];
+      const kind = files[i].kind as AttachmentKind;
+      const label = originalName || `File ${i + 1}`;
+
+      if (!filePath || !filePath.startsWith(tempPrefix) || filePath.includes("..")) {
+        errors.push(`${label}: invalid filePath`);
+        continue;
+      }
+      if (kind !== "floor_plan" && kind !== "document") {
+        errors.push(`${label}: unknown attachment kind`);
+        await supabase.storage.from("listing-documents").remove([filePath]);
+        continue;
+      }
+
+      try {
+        const { data: fileData, error: downloadError } = await supabase.storage
+          .from("listing-documents")
+          .download(filePath);
+        if (downloadError || !fileData) {
+          console.error(`Error downloading temp attachment ${filePath}:`, downloadError);
+          errors.push(`${label}: upload not found`);
+          continue;
+        }
+
+        // Server-side validation: MIME type, extension, magic bytes, size
+        const validation = await validateAttachment(fileData, originalName || filePath, kind);
+        if (!validation.valid || !validation.mimeType) {
+          console.error(`Validation failed for ${filePath}: ${validation.reason}`);
+          errors.push(`${label}: ${validation.reason}`);
+          await supabase.storage.from("listing-documents").remove([filePath]);
+          continue;
+        }
+
+        const mimeType = validation.mimeType;
+        const isPublicFloorPlan = kind === "floor_plan" && mimeType.startsWith("image/");
+        const fileExt = (originalName || filePath).split(".").pop()?.toLowerCase();
+        const bucket = isPublicFloorPlan ? "listing-images" : "listing-documents";
+        const newFileName = `${listingPrefix}${kind}_${Date.now()}_${i}.${fileExt}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from(bucket)
+          .upload(newFileName, fileData, {
+            cacheControl: "3600",
+            contentType: mimeType,
+            upsert: false,
+          });
+        if (uploadError) {
+          console.error(`Error uploading attachment to ${bucket}/${newFileName}:`, uploadError);
+          errors.push(`${label}: ${uploadError.message}`);
+          continue;
+        }
+
+        const fileUrl = isPublicFloorPlan
+          ? supabase.storage.from(bucket).getPublicUrl(newFileName).data.publicUrl
+          : null;
+
+        records.push({
+          [listingColumn]: listingId,
+          kind,
+          title: title?.trim().slice(0, 120) || originalName?.replace(/\.[^.]+$/, "").slice(0, 120) || null,
+          file_url: fileUrl,
+          file_path: isPublicFloorPlan ? null : newFileName,
+          mime_type: mimeType,
+          file_size: fileData.size,
+          requires_login: kind === "document" && !!requiresLogin,
+          sort_order: sortOrder++,
+          created_by: user.id,
+        });
+
+        const { error: deleteTempError } = await supabase.storage
+          .from("listing-documents")
+          .remove([filePath]);
+        if (deleteTempError) {
+          console.error(`Error deleting temp attachment ${filePath}:`, deleteTempError);
+        }
+      } catch (fileError) {
+        console.error(`Error processing attachment ${filePath}:`, fileError);
+        errors.push(`${label}: failed to process file`);
+      }
+    }
+
+    let attachments: unknown[] = [];
+    if (records.length > 0) {
+      const { data: inserted, error: insertError } = await supabase
+        .from("listing_attachments")
+        .insert(records)
+        .select(ATTACHMENT_COLUMNS);
+      if (insertError) {
+        console.error("Error inserting attachment records:", insertError);
+        return jsonResponse({ error: "Failed to save attachments" }, 500);
+      }
+      attachments = inserted ?? [];
+    }
+
+    if (errors.length > 0) {
+      return jsonResponse({ message: "Completed with errors", attachments, errors }, 207);
+    }
+    return jsonResponse({ attachments });
+  } catch (error) {
+    console.error("Error in finalize-listing-attachments:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -1,6 +1,56 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
-import { sendViaZepto } from "../_shared/zepto.ts";
+import { sendEmailViaOutbox, sendSmsViaOutbox } from "../_shared/outbox.ts";
 import { corsHeaders } from "../_shared/cors.ts";
+import {
+  applyShowingStatus,
+  formatShowingWhen,
+  loadShowingListingForRequest,
+  showingContextFromEnv,
+  showingManageUrl,
+  SHOWING_COLUMNS,
+  SHOWING_CONVERSATION_STATE,
+  type ShowingRequestRow,
+} from "../_shared/showings.ts";
+import {
+  appendThreadMessage,
+  loadThreadListing,
+  relayThreadMessage,
+  MESSAGE_CONVERSATION_STATE,
+  THREAD_COLUMNS,
+  type MessageThreadRow,
+} from "../_shared/messageThreads.ts";
+import {
+  HELP_RESPONSE,
+  OPT_IN_CONFIRMATION,
+  OPT_OUT_CONFIRMATION,
+  isSmsOptedOut,
+  parseConsentKeyword,
+  recordCarrierOptOut,
+  recordSmsOptIn,
+  recordSmsOptOut,
+} from "../_shared/smsConsent.ts";
+import {
+  WHATSAPP_HELP_RESPONSE,
+  WHATSAPP_OPT_IN_CONFIRMATION,
+  WHATSAPP_OPT_OUT_CONFIRMATION,
+  isWhatsAppOptedOut,
+  recordWhatsAppOptIn,
+  recordWhatsAppOptOut,
+} from "../_shared/whatsappConsent.ts";
+import { inboundSmsProvider, isSmsConfigured, type MessagingChannel } from "../_shared/sms.ts";
+import {
+  applyListerCommand,
+  commandCandidates,
+  describeCommandListing,
+  formatListingList,
+  loadCommandListing,
+  loadCommandListings,
+  noCandidatesReply,
+  parseListerCommand,
+  LISTER_COMMAND_SOURCE,
+  type CommandListing,
+  type ListerCommand,
+} from "../_shared/listerCommands.ts";
 
 interface ListingMetadata {
   id: string;
@@ -27,15 +77,26 @@ interface ConversationMetadata {
   bulk?: boolean;
   listing_count?: number;
   deactivated_refs?: Array<{ id: string; is_commercial: boolean }>;
+  // Viewing requests (request-showing / manage-showing).
+  showing_request_id?: string;
+  // Message relay (send-thread-message / _shared/messageThreads.ts).
+  thread_id?: string;
 }
 
 interface DisambiguationMetadata {
   original_reply: string;
   candidates: Array<{
-    conversation_id: string;
+    // Null for lister-command prompts, which pick a listing rather than a
+    // conversation.
+    conversation_id: string | null;
     listing_desc: string;
     type: string;
+    listing_id?: string;
+    is_commercial?: boolean;
   }>;
+  // Set when the prompt is for a text command (PRICE 2900, PAUSE, ...); the
+  // selected listing gets the command.
+  command?: ListerCommand;
 }
 
 interface RenewalConversation {
@@ -128,6 +189,18 @@ function parseMessageIntent(text: string, conversationState: string | null): Mes
     return { type: 'unknown', confidence: 'low' };
   }
 
+  if (conversationState === 'awaiting_showing_confirmation') {
+    const cancelKeywords = ['cancel', 'decline', "can't", 'cant', 'not available', 'busy'];
+    const confirmKeywords = ['confirm', 'works', 'see you'];
+    if (negativeExact.includes(normalized) || cancelKeywords.some(kw => normalized.includes(kw))) {
+      return { type: 'negative', confidence: 'high' };
+    }
+    if (affirmativeExact.includes(normalized) || confirmKeywords.some(kw => normalized.includes(kw))) {
+      return { type: 'affirmative', confidence: 'high' };
+    }
+    return { type: 'unknown', confidence: 'low' };
+  }
+
   if (conversationState === 'awaiting_hadirot_question') {
     if (affirmativeExact.includes(normalized)) {
       return { type: 'affirmative', confidence: 'high' };
@@ -217,6 +290,8 @@ function formatExpirationDate(date: Date): string {
   return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 }
 
+const MAX_DISAMBIGUATION_CANDIDATES = 5;
+
 const ACK_KEYWORDS = ['thanks', 'thank you', 'thank', 'thx', 'ty', 'got it', 'ok thanks',
   'okay thanks', 'noted', 'great', 'perfect', 'awesome', 'cool'];
 
@@ -225,32 +300,44 @@ Deno.serve(async (req) => {
     return new Response("ok", { headers: corsHeaders });
   }
 
-  const emptyTwiML = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+  // Twilio by default; Telnyx, the fake provider and whatsapp-webhook call
+  // with ?provider=.
+  const inboundProvider = inboundSmsProvider(req);
+  // A WhatsApp message is answered on WhatsApp; everyone else it touches
+  // (the other side of a relay, an admin) still gets a text.
+  const channel: MessagingChannel = inboundProvider.name === "whatsapp" ? "whatsapp" : "sms";
   let from = "";
   let body = "";
 
   try {
-    const twilioAccountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
-    const twilioAuthToken = Deno.env.get("TWILIO_AUTH_TOKEN");
-    const twilioPhoneNumber = Deno.env.get("TWILIO_PHONE_NUMBER");
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const siteUrl = Deno.env.get("PUBLIC_SITE_URL") || "https://hadirot.com";
 
-    if (!twilioAccountSid || !twilioAuthToken || !twilioPhoneNumber || !supabaseUrl || !supabaseServiceKey) {
+    if (!(channel === "whatsapp" ? inboundProvider.isConfigured() : isSmsConfigured()) || !supabaseUrl || !supabaseServiceKey) {
       console.error("Missing configuration");
-      return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+      return inboundProvider.inboundAck();
     }
 
-    const formData = await req.formData();
-    from = formData.get("From")?.toString() || "";
-    body = formData.get("Body")?.toString() || "";
-    const messageSid = formData.get("MessageSid")?.toString() || "";
+    if (inboundProvider.verifyWebhook && !await inboundProvider.verifyWebhook(req)) {
+      console.warn(`Rejected unsigned ${inboundProvider.name} inbound webhook`);
+      return new Response("Invalid signature", { status: 401, headers: corsHeaders });
+    }
 
-    console.log(`Received SMS from ${from}: ${body} (SID: ${messageSid})`);
+    const inbound = await inboundProvider.parseInbound(req);
+    if (!inbound) {
+      // Delivery receipts and other non-message events on the same URL.
+      return inboundProvider.inboundAck();
+    }
+    from = inbound.from;
+    body = inbound.body;
+    const messageSid = inbound.messageId;
+
+    console.log(`Received ${channel === "whatsapp" ? "WhatsApp message" : "SMS"} via ${inboundProvider.name} from ${from}: ${body} (SID: ${messageSid})`);
 
     if (!from || !body) {
       console.error("Missing From or Body in webhook");
-      return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+      return inboundProvider.inboundAck();
     }
 
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
@@ -268,6 +355,7 @@ Deno.serve(async (req) => {
       messageSource: string;
       listingId?: string | null;
       status?: string;
+      channel?: MessagingChannel;
     }) {
       try {
         await supabaseAdmin.from("sms_messages").insert({
@@ -279,6 +367,7 @@ Deno.serve(async (req) => {
           message_source: params.messageSource,
           listing_id: params.listingId || null,
           status: params.status ?? (params.direction === 'outbound' ? 'sent' : 'received'),
+          channel: params.channel ?? 'sms',
         });
       } catch (error) {
         console.error("Error logging message:", error);
@@ -290,46 +379,38 @@ Deno.serve(async (req) => {
       message: string,
       source: string = 'system_response',
       listingId?: string | null,
-      conversationId?: string | null
+      conversationId?: string | null,
+      ignoreOptOut = false
     ): Promise<void> {
-      const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${twilioAccountSid}/Messages.json`;
-      const twilioAuth = btoa(`${twilioAccountSid}:${twilioAuthToken}`);
-      const statusCallbackUrl = `${supabaseUrl}/functions/v1/sms-status-webhook`;
-      try {
-        const response = await fetch(twilioUrl, {
-          method: "POST",
-          headers: {
-            "Authorization": `Basic ${twilioAuth}`,
-            "Content-Type": "application/x-www-form-urlencoded",
-          },
-          body: new URLSearchParams({
-            To: toPhone,
-            From: twilioPhoneNumber!,
-            Body: message,
-            StatusCallback: statusCallbackUrl,
-          }),
-        });
-        let twilioSid: string | null = null;
-        if (!response.ok) {
-          const errData = await response.json();
-          console.error("Failed to send SMS:", errData);
-        } else {
-          const data = await response.json();
-          twilioSid = data?.sid || null;
-        }
-        await logMessage({
-          conversationId,
-          direction: 'outbound',
-          phoneNumber: toPhone,
-          messageBody: message,
-          messageSid: twilioSid,
-          messageSource: source,
-          listingId: listingId || null,
-          status: response.ok ? 'sent' : 'failed',
-        });
-      } catch (error) {
-        console.error("Error sending SMS:", error);
+      const replyChannel: MessagingChannel = channel === 'whatsapp' && toPhone === normalizedPhone ? 'whatsapp' : 'sms';
+      const optedOut = replyChannel === 'whatsapp' ? isWhatsAppOptedOut : isSmsOptedOut;
+      // Keyword confirmations (STOP / START / HELP) are the only texts an
+      // opted-out number may still receive.
+      if (!ignoreOptOut && await optedOut(supabaseAdmin, toPhone)) {
+        console.log(`Skipping ${replyChannel} message to opted-out number ${toPhone}`);
+        return;
       }
+      // A reply to a text they just sent: any hour, but retried on failure.
+      const result = await sendSmsViaOutbox(supabaseAdmin, toPhone, message, source, {
+        respectSendWindow: false,
+        allowOptedOut: ignoreOptOut,
+        channel: replyChannel,
+      });
+      if (!result.ok) {
+        console.error(`Failed to send SMS via ${result.provider}:`, result.errorCode, result.errorMessage);
+        await recordCarrierOptOut(supabaseAdmin, toPhone, result);
+      }
+      await logMessage({
+        conversationId,
+        direction: 'outbound',
+        phoneNumber: toPhone,
+        messageBody: message,
+        messageSid: result.messageId,
+        messageSource: source,
+        listingId: listingId || null,
+        status: result.deferredUntil ? 'queued' : result.ok ? 'sent' : 'failed',
+        channel: replyChannel,
+      });
     }
 
     async function notifyAdmin(subject: string, details: string, kind: 'error' | 'unrecognized' = 'error'): Promise<void> {
@@ -363,12 +444,12 @@ Deno.serve(async (req) => {
           </div>
         `;
 
-        await sendViaZepto({
+        await sendEmailViaOutbox(supabaseAdmin, {
           to: config.admin_email,
           subject: `Hadirot SMS Alert: ${subject}`,
           html: htmlBody,
           fromName: "Hadirot SMS System",
-        });
+        }, "sms_admin_alert", { respectSendWindow: false });
       } catch (error) {
         console.error("Error sending admin notification:", error);
       }
@@ -457,6 +538,16 @@ Deno.serve(async (req) => {
         if (selectionConv) return selectionConv;
       }
 
+      // Anything other than a bare command word goes to the one open message
+      // relay — "thanks, come by at 5" is meant for the inquirer, not an
+      // acknowledgement of some other conversation.
+      const bareKeywords = ['yes', 'y', 'yeah', 'yup', 'yep', 'sure', 'no', 'n', 'nope', 'nah',
+        'confirm', 'confirmed', 'cancel', 'rented', 'sold', 'taken', 'leased'];
+      const messageConvs = conversations.filter(c => c.state === MESSAGE_CONVERSATION_STATE);
+      if (messageConvs.length === 1 && !bareKeywords.includes(normalized)) {
+        return messageConvs[0];
+      }
+
       if (ACK_KEYWORDS.some(kw => normalized.includes(kw))) {
         const newest = conversations[0];
         await supabaseAdmin
@@ -496,6 +587,13 @@ Deno.serve(async (req) => {
         }
       }
 
+      if (['confirm', 'confirmed', 'cancel'].includes(normalized)) {
+        const showingConvs = conversations.filter(c => c.state === SHOWING_CONVERSATION_STATE);
+        if (showingConvs.length === 1) {
+          return showingConvs[0];
+        }
+      }
+
       const yesNoStates = ['awaiting_availability', 'awaiting_hadirot_question', 'awaiting_report_response'];
       if (['yes', 'y', 'yeah', 'yup', 'yep', 'sure', 'no', 'n', 'nope', 'nah'].includes(normalized)) {
         const yesNoConvs = conversations.filter(c => yesNoStates.includes(c.state));
@@ -537,6 +635,8 @@ Deno.serve(async (req) => {
           'callback': 'inquiry',
           'report_rented': 'rented report',
           'report': 'rented report',
+          'showing': 'viewing request',
+          'message': 'message',
         };
         const label = typeLabel[conv.conversation_type || 'renewal'] || '';
         return label ? `${desc} (${label})` : desc;
@@ -559,6 +659,8 @@ Deno.serve(async (req) => {
         'callback': 'inquiry',
         'report_rented': 'rented report',
         'report': 'rented report',
+        'showing': 'viewing request',
+        'message': 'message',
       };
       const label = typeLabel[conv.conversation_type || 'renewal'] || '';
 
@@ -570,7 +672,7 @@ Deno.serve(async (req) => {
       phone: string,
       conversations: RenewalConversation[],
     ): Promise<void> {
-      const candidates = conversations.slice(0, 5);
+      const candidates = conversations.slice(0, MAX_DISAMBIGUATION_CANDIDATES);
 
       const candidateDescriptions: Array<{
         conversation_id: string;
@@ -587,13 +689,31 @@ Deno.serve(async (req) => {
         });
       }
 
-      let message = "Hadirot Alert: You have messages about multiple listings. Which are you responding to?\n";
-      candidateDescriptions.forEach((c, i) => {
+      await openDisambiguation(
+        phone,
+        candidates[0].user_id,
+        "Hadirot Alert: You have messages about multiple listings. Which are you responding to?",
+        { original_reply: originalBody, candidates: candidateDescriptions },
+      );
+    }
+
+    // Sends the numbered "which listing?" prompt and opens the
+    // awaiting_disambiguation conversation that handleDisambiguationReply
+    // resolves.
+    async function openDisambiguation(
+      phone: string,
+      userId: string,
+      heading: string,
+      metadata: DisambiguationMetadata,
+      listingId?: string | null,
+    ): Promise<void> {
+      let message = `${heading}\n`;
+      metadata.candidates.forEach((c, i) => {
         message += `${i + 1}. ${c.listing_desc}\n`;
       });
       message += "Reply with the number.";
 
-      await sendSMS(phone, message);
+      await sendSMS(phone, message, metadata.command ? LISTER_COMMAND_SOURCE : 'system_response', listingId ?? null);
 
       const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
 
@@ -603,16 +723,119 @@ Deno.serve(async (req) => {
           phone_number: phone,
           state: "awaiting_disambiguation",
           conversation_type: "disambiguation",
-          user_id: candidates[0].user_id,
+          user_id: userId,
           message_sent_at: new Date().toISOString(),
           expires_at: expiresAt.toISOString(),
+          metadata,
+        });
+
+      console.log(`Sent disambiguation prompt to ${phone} with ${metadata.candidates.length} candidates`);
+    }
+
+    // ============================================
+    // LISTER TEXT COMMANDS
+    // ============================================
+    // PRICE / PAUSE / RESUME / EXTEND / LIST / STATUS (_shared/listerCommands.ts).
+    // The inbound message is re-tagged as a lister_command in sms_messages
+    // with the parsed command and outcome; replies are logged under the same
+    // source.
+
+    async function tagCommandMessage(
+      command: ListerCommand,
+      outcome: string,
+      listing?: CommandListing | null,
+    ): Promise<void> {
+      if (!messageSid) return;
+      const { error } = await supabaseAdmin
+        .from("sms_messages")
+        .update({
+          message_source: LISTER_COMMAND_SOURCE,
+          listing_id: listing?.id ?? null,
           metadata: {
-            original_reply: originalBody,
-            candidates: candidateDescriptions,
+            command: command.name,
+            listing_number: command.listingNumber,
+            price: command.price,
+            is_commercial: listing?.is_commercial ?? null,
+            outcome,
           },
-        });
+        })
+        .eq("message_sid", messageSid)
+        .eq("direction", "inbound");
+      if (error) {
+        console.error("Error tagging lister command message:", error);
+      }
+    }
 
-      console.log(`Sent disambiguation prompt to ${phone} with ${candidateDescriptions.length} candidates`);
+    async function runListerCommand(command: ListerCommand, listing: CommandListing, phone: string): Promise<void> {
+      const result = await applyListerCommand(supabaseAdmin, command, listing, siteUrl);
+      console.log(`Lister command ${command.name} on ${listing.id}: ${result.outcome}`);
+      await sendSMS(phone, result.reply, LISTER_COMMAND_SOURCE, listing.id);
+      await tagCommandMessage(command, result.outcome, listing);
+      if (!result.ok) {
+        await notifyAdmin("SMS command failed", `Phone: ${phone}\nCommand: ${body}\nListing: ${listing.id}`);
+      }
+    }
+
+    async function handleListerCommand(command: ListerCommand, phone: string): Promise<void> {
+      const listings = await loadCommandListings(supabaseAdmin, phone);
+
+      if (listings.length === 0) {
+        await sendSMS(phone, "Hadirot Alert: We couldn't find any listings for this phone number. Manage your listings at hadirot.com/dashboard.", LISTER_COMMAND_SOURCE);
+        await tagCommandMessage(command, "no_listings");
+        return;
+      }
+
+      if (command.name === 'list') {
+        await sendSMS(phone, formatListingList(listings), LISTER_COMMAND_SOURCE);
+        await tagCommandMessage(command, "listed");
+        return;
+      }
+
+      if (command.listingNumber !== null) {
+        const listing = listings[command.listingNumber - 1];
+        if (!listing) {
+          await sendSMS(phone, `Hadirot Alert: You don't have a listing #${command.listingNumber}. Text LIST to see your listings.`, LISTER_COMMAND_SOURCE);
+          await tagCommandMessage(command, "bad_number");
+          return;
+        }
+        await runListerCommand(command, listing, phone);
+        return;
+      }
+
+      const candidates = commandCandidates(command, listings);
+      if (candidates.length === 0) {
+        await sendSMS(phone, noCandidatesReply(command), LISTER_COMMAND_SOURCE);
+        await tagCommandMessage(command, "no_candidates");
+        return;
+      }
+      if (candidates.length === 1) {
+        await runListerCommand(command, candidates[0], phone);
+        return;
+      }
+      if (candidates.length > MAX_DISAMBIGUATION_CANDIDATES) {
+        const example = command.name === 'price' ? `PRICE 1 ${command.price}` : `${command.name.toUpperCase()} 1`;
+        await sendSMS(phone, `Hadirot Alert: You have ${candidates.length} listings. Add the listing number, e.g. ${example}. Text LIST to see the numbers.`, LISTER_COMMAND_SOURCE);
+        await tagCommandMessage(command, "needs_number");
+        return;
+      }
+
+      await openDisambiguation(
+        phone,
+        candidates[0].user_id,
+        "Hadirot Alert: Which listing?",
+        {
+          original_reply: body,
+          command,
+          candidates: candidates.map((l) => ({
+            conversation_id: null,
+            listing_desc: describeCommandListing(l),
+            type: 'command',
+            listing_id: l.id,
+            is_commercial: l.is_commercial,
+          })),
+        },
+      );
+      await tagCommandMessage(command, "disambiguation_sent");
     }
 
     // ============================================
@@ -764,10 +987,120 @@ Deno.serve(async (req) => {
       await sendSMS(phone, `Hadirot Alert: Your expiring listings:\n${lines.join('\n')}\nReply YES to keep all, NO if none are available, or the numbers that are no longer available (e.g. 2).`, 'system_response', headConv.listing_id, headConv.id);
     }
 
+    // ============================================
+    // SHOWING CONFIRM / CANCEL
+    // ============================================
+    // Lister replies to a viewing request (request-showing). The showing_requests
+    // row is the source of truth — it may already have been confirmed or
+    // cancelled from the manage link, so re-read it before acting. Shared by the
+    // main routing and disambiguation paths.
+
+    async function handleShowingReply(
+      conv: RenewalConversation,
+      replyBody: string,
+      phone: string,
+    ): Promise<void> {
+      const intent = parseMessageIntent(replyBody, SHOWING_CONVERSATION_STATE);
+
+      if (intent.type !== 'affirmative' && intent.type !== 'negative') {
+        await sendSMS(phone, "Hadirot Alert: Reply CONFIRM to confirm the viewing or CANCEL to cancel it.", 'system_response', conv.listing_id, conv.id);
+        return;
+      }
+
+      const completeConversation = (actionTaken: string) => supabaseAdmin
+        .from("listing_renewal_conversations")
+        .update({
+          state: "completed",
+          action_taken: actionTaken,
+          reply_received_at: new Date().toISOString(),
+          reply_text: replyBody,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", conv.id);
+
+      const showingId = (conv.metadata as ConversationMetadata | null)?.showing_request_id;
+      const { data: showingRow } = showingId
+        ? await supabaseAdmin.from("showing_requests").select(SHOWING_COLUMNS).eq("id", showingId).maybeSingle()
+        : { data: null };
+      const showing = showingRow as ShowingRequestRow | null;
+      const showingCtx = showingContextFromEnv(supabaseAdmin);
+      const showingListing = showing ? await loadShowingListingForRequest(showingCtx, showing) : null;
+
+      if (!showing || !showingListing || showing.status === 'cancelled') {
+        await completeConversation("showing_unavailable");
+        await sendSMS(phone, "Hadirot Alert: That viewing was already cancelled. Nothing else to do.", 'system_response', conv.listing_id, conv.id);
+        return;
+      }
+
+      const when = formatShowingWhen(showing.starts_at);
+
+      if (intent.type === 'affirmative') {
+        if (showing.status !== 'confirmed') {
+          await applyShowingStatus(showingCtx, showing, showingListing, "confirmed", "lister", { closeConversations: false });
+        }
+        await completeConversation("showing_confirmed");
+        await sendSMS(phone, `Hadirot Alert: Confirmed. ${showing.requester_name} will see the ${showingListing.desc} on ${when}. To reschedule or cancel: ${showingManageUrl(showingCtx.siteUrl, showing.lister_token)}`, 'system_response', conv.listing_id, conv.id);
+      } else {
+        await applyShowingStatus(showingCtx, showing, showingListing, "cancelled", "lister", { closeConversations: false });
+        await completeConversation("showing_cancelled");
+        await sendSMS(phone, `Hadirot Alert: Cancelled. We've let ${showing.requester_name} know the ${when} viewing is off.`, 'system_response', conv.listing_id, conv.id);
+      }
+    }
+
+    // ============================================
+    // MESSAGE RELAY REPLIES
+    // ============================================
+    // Owner replies to a relayed in-app message (send-thread-message). The text
+    // is appended to the thread verbatim and relayed to the inquirer; the
+    // conversation stays open so follow-up texts keep landing in the thread
+    // until it expires or a newer message supersedes it. Shared by the main
+    // routing and disambiguation paths.
+
+    async function handleMessageReply(
+      conv: RenewalConversation,
+      replyBody: string,
+      phone: string,
+    ): Promise<void> {
+      const threadId = (conv.metadata as ConversationMetadata | null)?.thread_id;
+      const { data: threadRow } = threadId
+        ? await supabaseAdmin.from("message_threads").select(THREAD_COLUMNS).eq("id", threadId).maybeSingle()
+        : { data: null };
+      const thread = threadRow as MessageThreadRow | null;
+      const relayCtx = showingContextFromEnv(supabaseAdmin);
+      const threadListing = thread ? await loadThreadListing(relayCtx, thread) : null;
+
+      if (!thread || !threadListing) {
+        await supabaseAdmin
+          .from("listing_renewal_conversations")
+          .update({ state: "completed", action_taken: "message_unavailable", updated_at: new Date().toISOString() })
+          .eq("id", conv.id);
+        await sendSMS(phone, "Hadirot Alert: That conversation is no longer available.", 'system_response', conv.listing_id, conv.id);
+        return;
+      }
+
+      await appendThreadMessage(relayCtx, thread, "owner", replyBody, "sms");
+      await relayThreadMessage(relayCtx, thread, threadListing, "owner", replyBody);
+
+      await supabaseAdmin
+        .from("listing_renewal_conversations")
+        .update({
+          action_taken: "message_relayed",
+          reply_received_at: new Date().toISOString(),
+          reply_text: replyBody,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", conv.id);
+
+      const inquirerName = (conv.metadata as ConversationMetadata | null)?.inquiry_from;
+      await sendSMS(phone, `Hadirot Alert: Sent${inquirerName ? ` to ${inquirerName}` : ''}.`, 'system_response', conv.listing_id, conv.id);
+    }
+
     // MAINTENANCE NOTE: The state handling logic below mirrors the main state handlers
     // in the conversation routing section. If you modify the behavior for any state
     // (awaiting_availability, awaiting_hadirot_question, awaiting_report_response,
     // callback_sent), you MUST also update the corresponding logic here.
+    // awaiting_showing_confirmation goes through handleShowingReply on both paths,
+    // awaiting_message_reply through handleMessageReply.
     async function handleDisambiguationReply(
       disambigConv: RenewalConversation,
       replyBody: string,
@@ -806,6 +1139,19 @@ Deno.serve(async (req) => {
           })
           .eq("id", disambigConv.id);
 
+        if (metadata.command) {
+          const listing = selected.listing_id
+            ? await loadCommandListing(supabaseAdmin, selected.listing_id, selected.is_commercial === true)
+            : null;
+          if (!listing) {
+            await sendSMS(phone, "Hadirot Alert: We couldn't find that listing. Text LIST to see your listings.", LISTER_COMMAND_SOURCE);
+            await tagCommandMessage(metadata.command, "listing_missing");
+            return;
+          }
+          await runListerCommand(metadata.command, listing, phone);
+          return;
+        }
+
         const targetConv = allConversations.find(c => c.id === selected.conversation_id);
 
         if (!targetConv) {
@@ -977,6 +1323,12 @@ Deno.serve(async (req) => {
             await sendSMS(phone, `Hadirot Alert: Listing deactivated. Did the ${word} find you through Hadirot? Reply YES or NO.`);
           }
 
+        } else if (targetConv.state === SHOWING_CONVERSATION_STATE) {
+          await handleShowingReply(targetConv, originalReply, phone);
+
+        } else if (targetConv.state === MESSAGE_CONVERSATION_STATE) {
+          await handleMessageReply(targetConv, originalReply, phone);
+
         } else if (targetConv.state === 'callback_sent') {
           const intent = parseMessageIntent(originalReply, 'callback_sent');
 
@@ -1071,6 +1423,7 @@ Deno.serve(async (req) => {
       messageBody: body,
       messageSid: messageSid,
       messageSource: 'webhook_reply',
+      channel,
     });
 
     // ============================================
@@ -1083,12 +1436,79 @@ Deno.serve(async (req) => {
       .eq("phone_number", normalizedPhone)
       .in("state", ["awaiting_availability", "awaiting_hadirot_question",
         "awaiting_listing_selection", "awaiting_report_response", "callback_sent",
-        "awaiting_disambiguation"])
+        "awaiting_disambiguation", SHOWING_CONVERSATION_STATE, MESSAGE_CONVERSATION_STATE])
       .order("updated_at", { ascending: false });
 
     if (convError) {
       console.error("Error querying conversations:", convError);
-      return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+      return inboundProvider.inboundAck();
+    }
+
+    // ============================================
+    // CONSENT KEYWORDS (STOP / START / HELP)
+    // ============================================
+    // Handled before any conversation routing: carriers require these to
+    // work from any state, and an opted-out number gets no other replies.
+    // On WhatsApp they opt in and out of WhatsApp only.
+
+    const whatsapp = channel === 'whatsapp';
+    const optedOut = whatsapp
+      ? await isWhatsAppOptedOut(supabaseAdmin, normalizedPhone)
+      : await isSmsOptedOut(supabaseAdmin, normalizedPhone);
+    const consentKeyword = parseConsentKeyword(body, {
+      optedOut,
+      expectsCancel: !!activeConversations?.some(c => c.state === SHOWING_CONVERSATION_STATE),
+    });
+
+    if (consentKeyword === 'stop') {
+      if (whatsapp) {
+        await recordWhatsAppOptOut(supabaseAdmin, normalizedPhone);
+      } else {
+        await recordSmsOptOut(supabaseAdmin, normalizedPhone, body.trim().toLowerCase());
+      }
+      if (activeConversations && activeConversations.length > 0) {
+        const { error: closeError } = await supabaseAdmin
+          .from("listing_renewal_conversations")
+          .update({ state: "completed", action_taken: "opted_out", updated_at: new Date().toISOString() })
+          .in("id", activeConversations.map(c => c.id));
+        if (closeError) {
+          console.error("Error closing conversations after opt-out:", closeError);
+        }
+      }
+      await sendSMS(normalizedPhone, whatsapp ? WHATSAPP_OPT_OUT_CONFIRMATION : OPT_OUT_CONFIRMATION, 'consent_confirmation', null, null, true);
+      return inboundProvider.inboundAck();
+    }
+
+    if (consentKeyword === 'start') {
+      if (whatsapp) {
+        await recordWhatsAppOptIn(supabaseAdmin, normalizedPhone);
+      } else {
+        await recordSmsOptIn(supabaseAdmin, normalizedPhone, body.trim().toLowerCase());
+      }
+      await sendSMS(normalizedPhone, whatsapp ? WHATSAPP_OPT_IN_CONFIRMATION : OPT_IN_CONFIRMATION, 'consent_confirmation', null, null, true);
+      return inboundProvider.inboundAck();
+    }
+
+    if (consentKeyword === 'help') {
+      await sendSMS(normalizedPhone, whatsapp ? WHATSAPP_HELP_RESPONSE : HELP_RESPONSE, 'consent_confirmation', null, null, true);
+      return inboundProvider.inboundAck();
+    }
+
+    if (optedOut) {
+      console.log(`Ignoring message from opted-out number ${normalizedPhone}`);
+      return inboundProvider.inboundAck();
+    }
+
+    // ============================================
+    // LISTER COMMANDS
+    // ============================================
+    // A message that is exactly a command ("PRICE 2900", "PAUSE 2", "LIST")
+    // runs before conversation routing, so it works whatever is open.
+
+    const listerCommand = parseListerCommand(body);
+    if (listerCommand) {
+      await handleListerCommand(listerCommand, normalizedPhone);
+      return inboundProvider.inboundAck();
     }
 
     // ============================================
@@ -1100,7 +1520,7 @@ Deno.serve(async (req) => {
     const disambigConv = (activeConversations as RenewalConversation[] | null)?.find(c => c.state === 'awaiting_disambiguation');
     if (disambigConv) {
       await handleDisambiguationReply(disambigConv, body, normalizedPhone, (activeConversations || []) as RenewalConversation[]);
-      return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+      return inboundProvider.inboundAck();
     }
 
     if (activeConversations?.length === 1) {
@@ -1120,7 +1540,7 @@ Deno.serve(async (req) => {
         if (!isAck) {
           await sendDisambiguationPrompt(body, normalizedPhone, activeConversations as RenewalConversation[]);
         }
-        return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+        return inboundProvider.inboundAck();
       }
     }
 
@@ -1187,7 +1607,7 @@ Deno.serve(async (req) => {
         if (allActiveListings.length === 0) {
           console.log(`No active listings found for ${normalizedPhone}`);
           await sendSMS(normalizedPhone, "Hadirot Alert: We couldn't find an active listing for this number. Please log into hadirot.com/dashboard to manage your listings.", 'system_response');
-          return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+          return inboundProvider.inboundAck();
         }
 
         if (allActiveListings.length === 1) {
@@ -1207,7 +1627,7 @@ Deno.serve(async (req) => {
           if (updateError) {
             console.error("Error deactivating listing:", updateError);
             await sendSMS(normalizedPhone, "Hadirot Alert: Sorry, there was an error deactivating your listing. Please try again via hadirot.com/dashboard.", 'system_response', singleListing.id);
-            return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+            return inboundProvider.inboundAck();
           }
 
           const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
@@ -1237,7 +1657,7 @@ Deno.serve(async (req) => {
           const typeWord = listingTypeWord(singleListing.listing_type, singleListing.is_commercial);
           await sendSMS(normalizedPhone, `Hadirot Alert: Listing deactivated. Did the ${typeWord} find you through Hadirot? Reply YES or NO.`, 'system_response', singleListing.id, newConv?.id);
 
-          return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+          return inboundProvider.inboundAck();
         }
 
         if (allActiveListings.length >= 2 && allActiveListings.length <= 3) {
@@ -1296,12 +1716,12 @@ Deno.serve(async (req) => {
             .maybeSingle();
 
           await sendSMS(normalizedPhone, selectionMessage, 'system_response', null, newConv?.id);
-          return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+          return inboundProvider.inboundAck();
         }
 
         console.log(`Found ${allActiveListings.length} listings, directing to dashboard...`);
         await sendSMS(normalizedPhone, `Hadirot Alert: You have ${allActiveListings.length} active listings. Please log into hadirot.com/dashboard to deactivate the unavailable one.`, 'system_response');
-        return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+        return inboundProvider.inboundAck();
       }
 
       const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
@@ -1350,7 +1770,7 @@ Deno.serve(async (req) => {
         console.log(`Skipping fallback - already sent one in last 24h to ${normalizedPhone}`);
       }
 
-      return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+      return inboundProvider.inboundAck();
     }
 
     // ============================================
@@ -1373,8 +1793,12 @@ Deno.serve(async (req) => {
           })
           .eq("id", conv.id);
 
-        await sendSMS(normalizedPhone, "Hadirot Alert: This renewal link has expired. Please log into your Hadirot dashboard at hadirot.com/dashboard to manage your listings.", 'system_response', conv.listing_id, conv.id);
-        return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+        await sendSMS(normalizedPhone, conv.conversation_type === 'showing'
+          ? "Hadirot Alert: That viewing time has already passed. Please log into hadirot.com/dashboard to manage your showings."
+          : conv.conversation_type === 'message'
+          ? "Hadirot Alert: This conversation has expired. Please reply from hadirot.com/account?tab=messages."
+          : "Hadirot Alert: This renewal link has expired. Please log into your Hadirot dashboard at hadirot.com/dashboard to manage your listings.", 'system_response', conv.listing_id, conv.id);
+        return inboundProvider.inboundAck();
       }
 
       const { data: listing, error: listingError } = conv.listing_id
@@ -1383,7 +1807,7 @@ Deno.serve(async (req) => {
 
       if (listingError) {
         console.error("Error fetching listing:", listingError);
-        return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+        return inboundProvider.inboundAck();
       }
 
       const typeWord = listingTypeWord(listing?.listing_type ?? null, conv.is_commercial === true);
@@ -1441,12 +1865,12 @@ Deno.serve(async (req) => {
         // Bulk batch: one reply resolves every listing in the batch.
         if (conv.batch_id && (conv.metadata as ConversationMetadata | null)?.bulk === true) {
           await handleBulkAvailabilityReply(conv, body, normalizedPhone);
-          return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+          return inboundProvider.inboundAck();
         }
 
         if (!listing) {
           console.error("No listing found for awaiting_availability conversation");
-          return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+          return inboundProvider.inboundAck();
         }
 
         if (intent.type === 'affirmative') {
@@ -1459,7 +1883,7 @@ Deno.serve(async (req) => {
           if (updateListingError) {
             console.error("Error extending listing:", updateListingError);
             await sendSMS(normalizedPhone, "Hadirot Alert: Sorry, there was an error extending your listing. Please try again via hadirot.com/dashboard.", 'system_response', conv.listing_id, conv.id);
-            return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+            return inboundProvider.inboundAck();
           }
 
           await supabaseAdmin
@@ -1560,14 +1984,14 @@ Deno.serve(async (req) => {
         if (!conv.metadata || !('listings' in conv.metadata) || !conv.metadata.listings || !Array.isArray(conv.metadata.listings)) {
           console.error("Invalid metadata for listing selection");
           await sendSMS(normalizedPhone, "Hadirot Alert: Sorry, there was an error. Please text RENTED again to restart.", 'system_response', null, conv.id);
-          return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+          return inboundProvider.inboundAck();
         }
 
         const availableListings = conv.metadata.listings;
 
         if (isNaN(selectionNumber) || selectionNumber < 1 || selectionNumber > availableListings.length) {
           await sendSMS(normalizedPhone, `Hadirot Alert: Please reply with a number from 1 to ${availableListings.length}.`, 'system_response', null, conv.id);
-          return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+          return inboundProvider.inboundAck();
         }
 
         const selectedListing = availableListings[selectionNumber - 1];
@@ -1586,7 +2010,7 @@ Deno.serve(async (req) => {
         if (updateError) {
           console.error("Error deactivating selected listing:", updateError);
           await sendSMS(normalizedPhone, "Hadirot Alert: Sorry, there was an error deactivating your listing. Please try again via hadirot.com/dashboard.", 'system_response', selectedListing.id, conv.id);
-          return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+          return inboundProvider.inboundAck();
         }
 
         await supabaseAdmin
@@ -1609,7 +2033,7 @@ Deno.serve(async (req) => {
         if (reportListingError || !reportListing) {
           console.error("Error fetching listing for report response:", reportListingError);
           await sendSMS(normalizedPhone, "Hadirot Alert: Sorry, there was an error. Please log into hadirot.com/dashboard to manage your listing.", 'system_response', conv.listing_id, conv.id);
-          return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+          return inboundProvider.inboundAck();
         }
 
         if (intent.type === 'affirmative') {
@@ -1632,7 +2056,7 @@ Deno.serve(async (req) => {
           if (updateError) {
             console.error("Error deactivating listing:", updateError);
             await sendSMS(normalizedPhone, "Hadirot Alert: Sorry, there was an error deactivating your listing. Please try again via hadirot.com/dashboard.", 'system_response', conv.listing_id, conv.id);
-            return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+            return inboundProvider.inboundAck();
           }
 
           await supabaseAdmin
@@ -1654,6 +2078,12 @@ Deno.serve(async (req) => {
           await sendSMS(normalizedPhone, `Hadirot Alert: Please reply YES if the listing is still available, or NO if it has been ${rentedSoldWord}.`, 'system_response', conv.listing_id, conv.id);
         }
 
+      } else if (conv.state === SHOWING_CONVERSATION_STATE) {
+        await handleShowingReply(conv, body, normalizedPhone);
+
+      } else if (conv.state === MESSAGE_CONVERSATION_STATE) {
+        await handleMessageReply(conv, body, normalizedPhone);
+
       } else if (conv.state === "callback_sent") {
         if (intent.type === 'deactivation') {
           if (conv.listing_id) {
@@ -1662,7 +2092,7 @@ Deno.serve(async (req) => {
             if (updateError) {
               console.error("Error deactivating listing:", updateError);
               await sendSMS(normalizedPhone, "Hadirot Alert: Sorry, there was an error. Please try via hadirot.com/dashboard.", 'system_response', conv.listing_id, conv.id);
-              return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+              return inboundProvider.inboundAck();
             }
 
             const { data: cbListing } = await fetchListingForConv(conv, "listing_type");
@@ -1696,7 +2126,7 @@ Deno.serve(async (req) => {
       }
     }
 
-    return new Response(emptyTwiML, { headers: { "Content-Type": "text/xml" } });
+    return inboundProvider.inboundAck();
 
   } catch (error) {
     console.error("Unexpected error in handle-renewal-sms-webhook:", error);
@@ -1713,20 +2143,17 @@ Deno.serve(async (req) => {
           .eq("id", 1)
           .maybeSingle();
         if (config?.admin_email) {
-          await sendViaZepto({
+          await sendEmailViaOutbox(supabaseAdmin, {
             to: config.admin_email,
             subject: `Hadirot SMS Alert: Webhook Error`,
             html: `<pre>Error: ${error instanceof Error ? error.message : String(error)}\nFrom: ${from}\nBody: ${body}</pre>`,
             fromName: "Hadirot SMS System",
-          });
+          }, "sms_admin_alert", { respectSendWindow: false });
         }
       }
     } catch (notifyErr) {
       console.error("Failed to notify admin of error:", notifyErr);
     }
-    return new Response(
-      '<?xml version="1.0" encoding="UTF-8"?><Response></Response>',
-      { headers: { "Content-Type": "text/xml" } }
-    );
+    return inboundProvider.inboundAck();
   }
 });
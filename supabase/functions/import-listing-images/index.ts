@@ -0,0 +1,322 @@
+// Pulls remote image URLs into storage for a listing — the bulk-import
+// counterpart of move-temp-images. Each URL is downloaded server-side, run
+// through the same validateFile() checks as wizard uploads, written to
+// `listing-images/<listingId>/…`, and recorded in listing_images.
+//
+// Caller must be signed in and own the listing (or be an admin). Only public
+// https URLs are fetched; localhost / private-network hosts — by name or by
+// what they resolve to — are refused so the function can't be pointed at
+// internal services.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { IMAGE_MAX_BYTES, validateFile } from '../_shared/validateFileUpload.ts';
+
+const MAX_IMAGES = 20;
+const FETCH_TIMEOUT_MS = 15_000;
+const MAX_REDIRECTS = 5;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const EXT_BY_MIME: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function isPublicHttpsUrl(raw: string): URL | null {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:') return null;
+  const host = url.hostname.toLowerCase();
+  if (
+    host === 'localhost' ||
+    host.endsWith('.local') ||
+    host.endsWith('.internal') ||
+    /^127\./.test(host) ||
+    /^10\./.test(host) ||
+    /^192\.168\./.test(host) ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(host) ||
+    /^169\.254\./.test(host) ||
+    /^0\./.test(host) ||
+    host.startsWith('[')
+  ) {
+    return null;
+  }
+  return url;
+}
+
+/** Loopback, private, link-local, CGNAT, unspecified and IPv6 ULA / link-local
+ *  addresses (plus IPv4-mapped forms of those). */
+function isPrivateAddress(ip: string): boolean {
+  const addr = ip.toLowerCase();
+  const v4 = addr.startsWith('::ffff:') ? addr.slice(7) : addr;
+  const octets = v4.split('.').map(Number);
+  if (octets.length === 4 && octets.every((o) => Number.isInteger(o) && o >= 0 && o <= 255)) {
+    const [a, b] = octets;
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    );
+  }
+  return (
+    addr === '::' ||
+    addr === '::1' ||
+    /^f[cd][0-9a-f]{2}:/.test(addr) ||
+    /^fe[89ab][0-9a-f]:/.test(addr)
+  );
+}
+
+/** Throws unless every address the host resolves to is public. */
+async function assertPublicHost(host: string): Promise<void> {
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) {
+    if (isPrivateAddress(host)) throw new Error('host is not a public address');
+    return;
+  }
+  const lookups = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')]);
+  const addresses = lookups.flatMap((r) => (r.status === 'fulfilled' ? r.value : []));
+  if (addresses.length === 0) throw new Error('host did not resolve');
+  if (addresses.some(isPrivateAddress)) throw new Error('host resolves to a private address');
+}
+
+/** Fetches an image URL, following at most MAX_REDIRECTS redirects by hand so
+ *  every hop passes isPublicHttpsUrl and assertPublicHost — fetch's own
+ *  redirect handling would let a public URL bounce to an internal or metadata
+ *  address. */
+async function fetchPublicImage(start: URL, signal: AbortSignal): Promise<{ response: Response; url: URL }> {
+  let url = start;
+  for (let hop = 0; ; hop++) {
+    await assertPublicHost(url.hostname);
+    const response = await fetch(url, { signal, redirect: 'manual' });
+    if (response.status < 300 || response.status >= 400) return { response, url };
+
+    await response.body?.cancel();
+    const location = response.headers.get('location');
+    if (!location) throw new Error(`redirect (${response.status}) without a location`);
+    if (hop >= MAX_REDIRECTS) throw new Error('too many redirects');
+    const next = isPublicHttpsUrl(new URL(location, url).toString());
+    if (!next) throw new Error('redirected to a URL that is not public https');
+    url = next;
+  }
+}
+
+/** Reads a response body, aborting as soon as it passes IMAGE_MAX_BYTES —
+ *  the size is attacker-chosen, so it can't be buffered whole first. */
+async function readCappedBody(response: Response): Promise<Uint8Array> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > IMAGE_MAX_BYTES) {
+    await response.body?.cancel();
+    throw new Error('file exceeds size limit');
+  }
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > IMAGE_MAX_BYTES) {
+      await reader.cancel();
+      throw new Error('file exceeds size limit');
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+/** Name used for validateFile's extension check: the URL's own file name when
+ *  it has a known image extension, otherwise one derived from Content-Type. */
+function fileNameFor(url: URL, mimeType: string): string {
+  const last = url.pathname.split('/').pop() || 'image';
+  const ext = last.includes('.') ? last.split('.').pop()!.toLowerCase() : '';
+  if (['jpg', 'jpeg', 'png', 'webp', 'gif'].includes(ext)) return last;
+  return `${last || 'image'}.${EXT_BY_MIME[mimeType] ?? 'bin'}`;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization' }, 401);
+    }
+
+    const supabaseAuth = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } },
+    );
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { listingId, imageUrls } = await req.json();
+
+    if (!listingId || !Array.isArray(imageUrls)) {
+      return jsonResponse({ error: 'Missing required parameters: listingId and imageUrls (array)' }, 400);
+    }
+    if (!UUID_RE.test(listingId)) {
+      return jsonResponse({ error: 'Invalid listingId format' }, 400);
+    }
+    if (imageUrls.length > MAX_IMAGES) {
+      return jsonResponse({ error: `Too many images (max ${MAX_IMAGES})` }, 400);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      },
+    );
+
+    const { data: listing, error: listingError } = await supabaseAdmin
+      .from('listings')
+      .select('id, user_id')
+      .eq('id', listingId)
+      .maybeSingle();
+    if (listingError || !listing) {
+      return jsonResponse({ error: 'Listing not found' }, 404);
+    }
+
+    if (listing.user_id !== user.id) {
+      const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('is_admin')
+        .eq('id', user.id)
+        .maybeSingle();
+      if (!profile?.is_admin) {
+        return jsonResponse({ error: 'Forbidden' }, 403);
+      }
+    }
+
+    // Append after any images the listing already has.
+    const { count: existingCount } = await supabaseAdmin
+      .from('listing_images')
+      .select('id', { count: 'exact', head: true })
+      .eq('listing_id', listingId);
+    const sortOffset = existingCount ?? 0;
+
+    const newImageRecords = [];
+    const errors: string[] = [];
+
+    for (let i = 0; i < imageUrls.length; i++) {
+      const raw = String(imageUrls[i] ?? '').trim();
+      const url = isPublicHttpsUrl(raw);
+      if (!url) {
+        errors.push(`Image ${i + 1}: not a public https URL`);
+        continue;
+      }
+
+      try {
+        const { response, url: finalUrl } = await fetchPublicImage(url, AbortSignal.timeout(FETCH_TIMEOUT_MS));
+        if (!response.ok) {
+          errors.push(`Image ${i + 1}: download failed (${response.status})`);
+          continue;
+        }
+
+        const mimeType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+        const imageData = new Blob([await readCappedBody(response)], { type: mimeType });
+        const fileName = fileNameFor(finalUrl, mimeType);
+
+        const validation = await validateFile(imageData, fileName);
+        if (!validation.valid || !mimeType.startsWith('image/')) {
+          errors.push(`Image ${i + 1}: rejected (${validation.reason ?? 'not an image'})`);
+          continue;
+        }
+
+        const fileExt = EXT_BY_MIME[mimeType] ?? fileName.split('.').pop();
+        const newFileName = `${listingId}/${Date.now()}_${i}.${fileExt}`;
+
+        const { error: uploadError } = await supabaseAdmin.storage
+          .from('listing-images')
+          .upload(newFileName, imageData, {
+            cacheControl: '3600',
+            contentType: mimeType,
+            upsert: false,
+          });
+
+        if (uploadError) {
+          console.error(`Error uploading imported image ${newFileName}:`, uploadError);
+          errors.push(`Image ${i + 1}: upload failed (${uploadError.message})`);
+          continue;
+        }
+
+        const { data: { publicUrl } } = supabaseAdmin.storage
+          .from('listing-images')
+          .getPublicUrl(newFileName);
+
+        newImageRecords.push({
+          listing_id: listingId,
+          image_url: publicUrl,
+          is_featured: sortOffset === 0 && newImageRecords.length === 0,
+          sort_order: sortOffset + newImageRecords.length,
+        });
+      } catch (imageError) {
+        console.error(`Error importing image ${raw}:`, imageError);
+        errors.push(`Image ${i + 1}: ${(imageError as Error).message}`);
+      }
+    }
+
+    if (newImageRecords.length > 0) {
+      const { error: insertError } = await supabaseAdmin
+        .from('listing_images')
+        .insert(newImageRecords);
+
+      if (insertError) {
+        console.error('Error inserting imported image records:', insertError);
+        errors.push(`Failed to insert image records: ${insertError.message}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      return jsonResponse({
+        message: 'Completed with errors',
+        errors,
+        successfulImages: newImageRecords.length,
+      }, 207);
+    }
+
+    return jsonResponse({
+      message: 'Images imported successfully',
+      imageCount: newImageRecords.length,
+    });
+  } catch (error) {
+    console.error('Error in import-listing-images:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,150 @@
+// Inbound email relay for message threads. The relay emails sent by
+// _shared/messageThreads.ts reply-to thread+<token>@MESSAGE_REPLY_DOMAIN;
+// the inbound mail provider for that domain posts each reply here.
+//
+// POST /inbound-message-email?secret=<INBOUND_EMAIL_SECRET>
+//   JSON or form body with the recipient (`recipient` / `to`), sender
+//   (`sender` / `from`) and plain-text body (`stripped-text` / `text`) —
+//   the field names the common inbound-parse webhooks use.
+//
+// The token picks the thread and side (owner_reply_token / inquirer_reply_token);
+// the sender address must also match that side's profile email so a
+// forwarded relay email can't post as someone else. Ignored mail still gets a
+// 200 so the provider doesn't retry it.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { showingContextFromEnv } from "../_shared/showings.ts";
+import {
+  appendThreadMessage,
+  loadThreadListing,
+  MAX_THREAD_MESSAGE_LENGTH,
+  relayThreadMessage,
+  THREAD_COLUMNS,
+  type MessageThreadRow,
+  type ThreadRole,
+} from "../_shared/messageThreads.ts";
+
+const TOKEN_RE = /thread\+([0-9a-f]{48})@/i;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function extractEmail(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim().toLowerCase();
+}
+
+/** Drops the quoted original below the reply ("On … wrote:", "> …", signatures). */
+function stripQuotedReply(text: string): string {
+  const kept: string[] = [];
+  for (const line of text.replace(/\r\n/g, "\n").split("\n")) {
+    const trimmed = line.trim();
+    if (/^On .+wrote:$/i.test(trimmed)) break;
+    if (/^-{2,}\s*Original Message\s*-{2,}$/i.test(trimmed)) break;
+    if (/^From:\s/i.test(trimmed) && kept.length > 0) break;
+    if (trimmed === "--" || trimmed === "-- ") break;
+    if (trimmed.startsWith(">")) continue;
+    kept.push(line);
+  }
+  return kept.join("\n").trim();
+}
+
+async function readPayload(req: Request): Promise<{ recipient: string; sender: string; text: string }> {
+  const contentType = req.headers.get("content-type") || "";
+  const fields: Record<string, string> = {};
+  if (contentType.includes("application/json")) {
+    const json = await req.json();
+    for (const [key, value] of Object.entries(json ?? {})) {
+      if (typeof value === "string") fields[key] = value;
+    }
+  } else {
+    const form = await req.formData();
+    for (const [key, value] of form.entries()) {
+      if (typeof value === "string") fields[key] = value;
+    }
+  }
+  return {
+    recipient: fields["recipient"] || fields["to"] || fields["To"] || "",
+    sender: fields["sender"] || fields["from"] || fields["From"] || "",
+    text: fields["stripped-text"] || fields["text"] || fields["body-plain"] || "",
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const expectedSecret = Deno.env.get("INBOUND_EMAIL_SECRET");
+    const secret = new URL(req.url).searchParams.get("secret");
+    if (!expectedSecret || secret !== expectedSecret) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing Supabase configuration");
+      return jsonResponse({ error: "Database service not configured" }, 500);
+    }
+
+    const payload = await readPayload(req);
+    const token = payload.recipient.match(TOKEN_RE)?.[1]?.toLowerCase();
+    const body = stripQuotedReply(payload.text).slice(0, MAX_THREAD_MESSAGE_LENGTH);
+    if (!token || !body) {
+      console.warn("Ignoring inbound email without a thread token or body", { recipient: payload.recipient });
+      return jsonResponse({ ignored: true });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const ctx = showingContextFromEnv(supabase);
+
+    const { data } = await supabase
+      .from("message_threads")
+      .select(THREAD_COLUMNS)
+      .or(`owner_reply_token.eq.${token},inquirer_reply_token.eq.${token}`)
+      .maybeSingle();
+    const thread = data as MessageThreadRow | null;
+    if (!thread) {
+      console.warn("Ignoring inbound email for unknown thread token");
+      return jsonResponse({ ignored: true });
+    }
+
+    const role: ThreadRole = thread.owner_reply_token === token ? "owner" : "inquirer";
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("email")
+      .eq("id", role === "owner" ? thread.owner_user_id : thread.inquirer_user_id)
+      .maybeSingle();
+    if (!profile?.email || profile.email.toLowerCase() !== extractEmail(payload.sender)) {
+      console.warn("Ignoring inbound email from an address that doesn't match the thread participant", { threadId: thread.id });
+      return jsonResponse({ ignored: true });
+    }
+
+    const listing = await loadThreadListing(ctx, thread);
+    if (!listing) {
+      return jsonResponse({ ignored: true });
+    }
+
+    await appendThreadMessage(ctx, thread, role, body, "email");
+    await relayThreadMessage(ctx, thread, listing, role, body);
+
+    return jsonResponse({ success: true, threadId: thread.id });
+  } catch (error) {
+    console.error("Error in inbound-message-email:", error);
+    return jsonResponse({
+      error: "Internal error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    }, 500);
+  }
+});
@@ -0,0 +1,204 @@
+// Public manage endpoint behind the /showing/:token page (ManageShowing).
+//
+// POST { token, action: "get" | "confirm" | "cancel" | "reschedule", startsAt?, endsAt? }
+// POST { requestId, action, ... } — with the lister's (or an admin's) session
+//   in the Authorization header; the dashboard's ShowingManagerModal uses
+//   this, since clients can't read the tokens. The response then carries
+//   `manage_token` (the lister link) for the reschedule page.
+//
+// The token is either the request's requester_token or its lister_token and
+// decides what the caller may do:
+//   requester — cancel, or reschedule (back to "requested"; the lister is
+//               asked to confirm the new time)
+//   lister    — confirm, cancel, or reschedule (stays "confirmed"; the
+//               requester is told and can still cancel)
+// The same confirm / cancel can be done by SMS reply; see the
+// awaiting_showing_confirmation state in handle-renewal-sms-webhook.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  applyShowingStatus,
+  isSlotInAvailability,
+  loadAvailabilityWindows,
+  loadShowingListingForRequest,
+  notifyShowingRequested,
+  notifyShowingRescheduledByLister,
+  showingContextFromEnv,
+  SHOWING_COLUMNS,
+  type ShowingActor,
+  type ShowingRequestRow,
+} from "../_shared/showings.ts";
+
+const TOKEN_RE = /^[0-9a-f]{48}$/;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type ManageAction = "get" | "confirm" | "cancel" | "reschedule";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    let input: { token?: string; requestId?: string; action?: ManageAction; startsAt?: string; endsAt?: string };
+    try {
+      input = await req.json();
+    } catch (_error) {
+      return jsonResponse({ error: "Invalid JSON" }, 400);
+    }
+
+    const token = input.token ?? "";
+    const requestId = input.requestId ?? "";
+    const action: ManageAction = input.action ?? "get";
+    const bySession = !token && UUID_RE.test(requestId);
+    if (!bySession && !TOKEN_RE.test(token)) {
+      return jsonResponse({ error: "This link is invalid." }, 404);
+    }
+    if (!["get", "confirm", "cancel", "reschedule"].includes(action)) {
+      return jsonResponse({ error: "Unknown action" }, 400);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const ctx = showingContextFromEnv(supabase);
+
+    const { data: row } = bySession
+      ? await supabase.from("showing_requests").select(SHOWING_COLUMNS).eq("id", requestId).maybeSingle()
+      : await supabase
+        .from("showing_requests")
+        .select(SHOWING_COLUMNS)
+        .or(`requester_token.eq.${token},lister_token.eq.${token}`)
+        .maybeSingle();
+    if (!row) {
+      return jsonResponse({ error: "This link is invalid or the viewing was removed." }, 404);
+    }
+
+    let showing = row as ShowingRequestRow;
+    const role: ShowingActor = bySession || showing.lister_token === token ? "lister" : "requester";
+    const listing = await loadShowingListingForRequest(ctx, showing);
+    if (!listing) {
+      return jsonResponse({ error: "This listing is no longer available." }, 404);
+    }
+
+    if (bySession) {
+      const authToken = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+      const { data: { user } } = await supabase.auth.getUser(authToken);
+      if (!user) {
+        return jsonResponse({ error: "Please sign in to manage this viewing." }, 401);
+      }
+      if (user.id !== listing.userId) {
+        const { data: profile } = await supabase
+          .from("profiles")
+          .select("is_admin")
+          .eq("id", user.id)
+          .maybeSingle();
+        if (!profile?.is_admin) {
+          return jsonResponse({ error: "Forbidden" }, 403);
+        }
+      }
+    }
+
+    const isPast = new Date(showing.starts_at).getTime() <= Date.now();
+
+    if (action !== "get") {
+      if (showing.status === "cancelled") {
+        return jsonResponse({ error: "This viewing was already cancelled." }, 409);
+      }
+      if (isPast) {
+        return jsonResponse({ error: "This viewing time has already passed." }, 409);
+      }
+    }
+
+    if (action === "confirm") {
+      if (role !== "lister") {
+        return jsonResponse({ error: "Only the lister can confirm a viewing." }, 403);
+      }
+      if (showing.status !== "confirmed") {
+        showing = await applyShowingStatus(ctx, showing, listing, "confirmed", role);
+      }
+    } else if (action === "cancel") {
+      showing = await applyShowingStatus(ctx, showing, listing, "cancelled", role);
+    } else if (action === "reschedule") {
+      const startsAt = new Date(input.startsAt ?? "");
+      const endsAt = new Date(input.endsAt ?? "");
+      if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime()) || startsAt.getTime() <= Date.now()) {
+        return jsonResponse({ error: "Please pick an upcoming time." }, 400);
+      }
+
+      const windows = await loadAvailabilityWindows(supabase, listing.id, listing.isCommercial);
+      if (!isSlotInAvailability(windows, startsAt.toISOString(), endsAt.toISOString())) {
+        return jsonResponse({ error: "That time is no longer offered. Please pick another slot." }, 409);
+      }
+
+      const now = new Date().toISOString();
+      const { data: moved, error: moveError } = await supabase
+        .from("showing_requests")
+        .update({
+          starts_at: startsAt.toISOString(),
+          ends_at: endsAt.toISOString(),
+          rescheduled_at: now,
+          ...(role === "requester"
+            ? { status: "requested", confirmed_at: null }
+            : { status: "confirmed", confirmed_at: now }),
+        })
+        .eq("id", showing.id)
+        .select(SHOWING_COLUMNS)
+        .single();
+
+      if (moveError) {
+        if (moveError.code === "23505") {
+          return jsonResponse({ error: "Someone just booked that time. Please pick another slot." }, 409);
+        }
+        throw moveError;
+      }
+
+      showing = moved as ShowingRequestRow;
+      if (role === "requester") {
+        await notifyShowingRequested(ctx, showing, listing, { rescheduled: true });
+      } else {
+        await notifyShowingRescheduledByLister(ctx, showing, listing);
+      }
+    }
+
+    return jsonResponse({
+      role,
+      ...(bySession ? { manage_token: showing.lister_token } : {}),
+      showing: {
+        id: showing.id,
+        status: showing.status,
+        cancelled_by: showing.cancelled_by,
+        starts_at: showing.starts_at,
+        ends_at: showing.ends_at,
+        requester_name: showing.requester_name,
+        // The requester already knows their own details; only the lister
+        // needs the contact info and note.
+        requester_phone: role === "lister" ? showing.requester_phone : null,
+        message: role === "lister" ? showing.message : null,
+      },
+      listing: {
+        id: listing.id,
+        is_commercial: listing.isCommercial,
+        desc: listing.desc,
+        address: showing.status === "confirmed" || role === "lister" ? listing.address : null,
+        url: listing.url,
+      },
+    });
+  } catch (error) {
+    console.error("Error in manage-showing:", error);
+    return jsonResponse({
+      error: "Internal error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    }, 500);
+  }
+});
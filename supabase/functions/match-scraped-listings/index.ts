@@ -0,0 +1,135 @@
+// Re-matches scraped listings against the live listings
+// (_shared/scrapedListingMatch.ts). Intake matches each row as it lands, but
+// a landlord may post on Hadirot after their ad was scraped, and a live
+// listing that matched may since have expired.
+//
+// POST {}
+//   — hourly from pg_cron: up to BATCH_SIZE rows still to be called
+//     (pending_call / called_no_answer), never-checked and oldest-checked
+//     first.
+// POST { ids: string[] }
+//   — the pipeline's "Re-check" on specific rows, whatever their status.
+//
+// Service role or admins.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { applyLiveListingMatch } from "../_shared/scrapedListingMatch.ts";
+
+const BATCH_SIZE = 200;
+const MAX_IDS = 100;
+
+const SCRAPED_COLUMNS =
+  "id, listing_kind, contact_phone, cross_street_1, cross_street_2, bedrooms, price, intake_extra, latitude, longitude";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing Supabase configuration");
+      return jsonResponse({ error: "Database service not configured" }, 500);
+    }
+
+    const token = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+    if (!token) {
+      return jsonResponse({ error: "Missing authorization" }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    if (token !== supabaseServiceKey) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+      if (authError || !user) {
+        return jsonResponse({ error: "Invalid authorization" }, 401);
+      }
+      const { data: adminProfile } = await supabase
+        .from("profiles")
+        .select("is_admin")
+        .eq("id", user.id)
+        .maybeSingle();
+      if (adminProfile?.is_admin !== true) {
+        return jsonResponse({ error: "Admin privileges required" }, 403);
+      }
+    }
+
+    let input: { ids?: unknown } = {};
+    try {
+      input = await req.json();
+    } catch (_error) {
+      // Empty body — the cron run.
+    }
+
+    let query = supabase.from("scraped_listings").select(SCRAPED_COLUMNS);
+    if (Array.isArray(input.ids)) {
+      const ids = input.ids.filter((id): id is string => typeof id === "string").slice(0, MAX_IDS);
+      if (ids.length === 0) {
+        return jsonResponse({ error: "No listing ids" }, 400);
+      }
+      query = query.in("id", ids);
+    } else {
+      query = query
+        .in("call_status", ["pending_call", "called_no_answer"])
+        .order("match_checked_at", { ascending: true, nullsFirst: true })
+        .limit(BATCH_SIZE);
+    }
+
+    const { data: rows, error: rowsError } = await query;
+    if (rowsError) throw rowsError;
+
+    const counts = { matched: 0, partial_match: 0, no_match: 0, failed: 0 };
+    const results: Record<string, unknown> = {};
+
+    for (const row of rows ?? []) {
+      const kind = row.listing_kind === "sale" ? "sale" : "rental";
+      const result = await applyLiveListingMatch(supabase, row.id, {
+        listing_kind: kind,
+        contact_phone: row.contact_phone,
+        cross_street_1: row.cross_street_1,
+        cross_street_2: row.cross_street_2,
+        bedrooms: row.bedrooms,
+        price: kind === "sale" ? row.intake_extra?.asking_price ?? null : row.price,
+        latitude: row.latitude,
+        longitude: row.longitude,
+      });
+      if (!result) {
+        counts.failed++;
+        continue;
+      }
+      counts[result.match_status]++;
+      results[row.id] = result;
+    }
+
+    console.log(
+      `Matched ${rows?.length ?? 0} scraped listings: ${counts.matched} on site, ${counts.partial_match} partial, ` +
+        `${counts.no_match} new, ${counts.failed} failed`,
+    );
+    // Only the pipeline's re-check needs the per-row results.
+    return jsonResponse({
+      success: true,
+      checked: rows?.length ?? 0,
+      ...counts,
+      ...(Array.isArray(input.ids) ? { results } : {}),
+    });
+  } catch (error) {
+    console.error("Error in match-scraped-listings:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Internal server error" }, 500);
+  }
+});
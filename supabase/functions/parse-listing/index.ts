@@ -1,22 +1,43 @@
 // parse-listing
 //
-// Single-listing AI parse for the Post Listing form's "Quick Fill from Text"
-// (admin-only). Takes one block of pasted listing text, runs it through the
-// SAME Claude prompt + schema as the admin AI Intake pipeline
+// Single-listing AI parse for "paste your ad": the posting wizard's step 1
+// (any signed-in user) and the admin Post Listing form's "Quick Fill from
+// Text". Takes one block of pasted listing text OR one flyer photo, runs it
+// through the SAME Claude prompt + schema as the admin AI Intake pipeline
 // (_shared/intake.ts → parseContent), and returns the structured fields for
 // the form to populate.
 //
-// Unlike parse-bulk-listings, this function NEVER touches the database — it is
-// a pure text → structured-fields transform. Nothing lands in scraped_listings.
-// This is the replacement for the decommissioned n8n webhook the old form used.
+// Unlike parse-bulk-listings, this function never touches scraped_listings —
+// it is a pure content → structured-fields transform. The only write is the
+// ai_parse_usage meter row (20261018220000_self_serve_ai_listing_parse.sql).
+//
+// Non-admins are limited to admin_settings.ai_parse_daily_limit calls (failed
+// ones don't count) and, together, ai_parse_daily_budget_usd of estimated
+// spend in any 24 hours.
+// Admins (app_metadata.is_admin) are metered but never blocked.
+//
+// POST { text, type_hint? }                       — parse pasted text
+// POST { image: { media_type, data }, type_hint? } — parse a flyer (base64)
+// POST { quota_only: true }                       — { limit, used, remaining }
 //
-// Admin-only: the caller's JWT must carry app_metadata.is_admin = true.
 // Required secrets: ANTHROPIC_API_KEY
 
 import { createClient } from 'npm:@supabase/supabase-js@2';
 import Anthropic from 'npm:@anthropic-ai/sdk';
 import { corsHeaders } from '../_shared/cors.ts';
-import { DEFAULT_MODEL, parseContent } from '../_shared/intake.ts';
+import { DEFAULT_MODEL, estimateParseCostUsd, parseContentWithUsage } from '../_shared/intake.ts';
+
+const WINDOW_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DAILY_LIMIT = 5;
+const DEFAULT_DAILY_BUDGET_USD = 25;
+// A landlord's ad is a few hundred characters; the cap keeps one call cheap.
+const MAX_USER_TEXT_CHARS = 4000;
+// What a call still in flight counts against the daily budget until its real
+// cost is known — a generous single-listing parse at Sonnet prices.
+const PENDING_COST_ESTIMATE_USD = 0.1;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const IMAGE_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'] as const;
+type ImageMediaType = (typeof IMAGE_MEDIA_TYPES)[number];
 
 Deno.serve(async (req: Request) => {
   const requestId = crypto.randomUUID().substring(0, 8);
@@ -44,7 +65,7 @@ Deno.serve(async (req: Request) => {
 
     const supabase = createClient(supabaseUrl, serviceKey);
 
-    // --- Admin auth ---------------------------------------------------------
+    // --- Auth ---------------------------------------------------------------
     const authHeader = req.headers.get('Authorization');
     if (!authHeader) return json({ error: 'Authentication required' }, 401);
     const token = authHeader.replace('Bearer ', '');
@@ -52,31 +73,136 @@ Deno.serve(async (req: Request) => {
       data: { user },
       error: authError,
     } = await supabase.auth.getUser(token);
-    if (authError || !user) return json({ error: 'Invalid authentication' }, 401);
-    if (user.app_metadata?.is_admin !== true) {
-      console.error(`[parse-listing:${requestId}] Not admin:`, user.id);
-      return json({ error: 'Admin privileges required' }, 403);
-    }
+    if (authError || !user) return json({ error: 'Please sign in to use AI fill.' }, 401);
+    const isAdmin = user.app_metadata?.is_admin === true;
 
-    // --- Validate input -----------------------------------------------------
     const body = await req.json();
-    const text: string = typeof body?.text === 'string' ? body.text : '';
-    if (!text.trim()) return json({ error: 'No listing text provided' }, 400);
 
+    const { data: settings } = await supabase
+      .from('admin_settings')
+      .select('ai_parse_daily_limit, ai_parse_daily_budget_usd')
+      .limit(1)
+      .maybeSingle();
+    const dailyLimit = settings?.ai_parse_daily_limit ?? DEFAULT_DAILY_LIMIT;
+    const dailyBudget = Number(settings?.ai_parse_daily_budget_usd ?? DEFAULT_DAILY_BUDGET_USD);
+
+    if (body?.quota_only === true) {
+      const { count: usedCount, error: usedError } = await supabase
+        .from('ai_parse_usage')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .neq('status', 'failed')
+        .gte('created_at', new Date(Date.now() - WINDOW_MS).toISOString());
+      if (usedError) throw usedError;
+      const used = usedCount ?? 0;
+      return json({
+        limit: isAdmin ? null : dailyLimit,
+        used,
+        remaining: isAdmin ? null : Math.max(0, dailyLimit - used),
+      });
+    }
+
+    // --- Validate input -----------------------------------------------------
     const rawHint = body?.type_hint;
     const typeHint: 'auto' | 'rental' | 'sale' =
       rawHint === 'rental' || rawHint === 'sale' ? rawHint : 'auto';
 
+    let content: string | Anthropic.ContentBlockParam[];
+    let inputKind: 'text' | 'image';
+    if (body?.image) {
+      const mediaType = body.image.media_type as ImageMediaType;
+      const data: string = typeof body.image.data === 'string' ? body.image.data : '';
+      if (!IMAGE_MEDIA_TYPES.includes(mediaType)) {
+        return json({ error: 'Please upload a JPG, PNG, WebP or GIF image.' }, 400);
+      }
+      if (!data || (data.length * 3) / 4 > MAX_IMAGE_BYTES) {
+        return json({ error: 'That image is too large — please upload one under 5 MB.' }, 400);
+      }
+      content = [{ type: 'image', source: { type: 'base64', media_type: mediaType, data } }];
+      inputKind = 'image';
+    } else {
+      const text: string = typeof body?.text === 'string' ? body.text : '';
+      if (!text.trim()) return json({ error: 'No listing text provided' }, 400);
+      if (!isAdmin && text.length > MAX_USER_TEXT_CHARS) {
+        return json({ error: `Please paste one listing (up to ${MAX_USER_TEXT_CHARS.toLocaleString()} characters).` }, 400);
+      }
+      content = text;
+      inputKind = 'text';
+    }
+
+    // --- Quota --------------------------------------------------------------
+    // Check and insert the pending usage row in one locked transaction
+    // (reserve_ai_parse), so parallel requests can't all pass the same count.
+    const { data: reservation, error: reserveError } = await supabase
+      .rpc('reserve_ai_parse', {
+        p_user: user.id,
+        p_is_admin: isAdmin,
+        p_input_kind: inputKind,
+        p_model: model,
+        p_limit: dailyLimit,
+        p_budget_usd: dailyBudget,
+        p_pending_cost_usd: PENDING_COST_ESTIMATE_USD,
+      })
+      .single();
+    if (reserveError) throw reserveError;
+    const { usage_id: usageId, used, blocked } = reservation as {
+      usage_id: string | null;
+      used: number;
+      blocked: 'limit' | 'budget' | null;
+    };
+    const remaining = isAdmin ? null : Math.max(0, dailyLimit - used);
+
+    if (blocked === 'limit') {
+      return json(
+        { error: `You've used your ${dailyLimit} AI fills for today. Please fill in the form yourself, or try again tomorrow.`, remaining: 0 },
+        429,
+      );
+    }
+    if (blocked === 'budget' || !usageId) {
+      console.warn(`[parse-listing:${requestId}] Daily budget of $${dailyBudget} reached`);
+      return json({ error: 'AI fill is unavailable right now. Please fill in the form yourself.', remaining }, 429);
+    }
+
     console.log(
-      `[parse-listing:${requestId}] Admin ${user.id}: parsing ${text.length} chars, hint ${typeHint}, model ${model}`,
+      `[parse-listing:${requestId}] ${isAdmin ? 'Admin' : 'User'} ${user.id}: parsing ${inputKind}, hint ${typeHint}, model ${model}`,
     );
 
-    // --- Parse (no DB writes) ----------------------------------------------
+    // --- Parse (no listing writes) -----------------------------------------
     const anthropic = new Anthropic({ apiKey: anthropicKey });
-    const listings = await parseContent(anthropic, model, text, typeHint);
+    let listings;
+    try {
+      const result = await parseContentWithUsage(anthropic, model, content, typeHint);
+      listings = result.listings;
+      const costUsd = estimateParseCostUsd(result.usage);
+      await supabase
+        .from('ai_parse_usage')
+        .update({
+          status: 'succeeded',
+          input_tokens: result.usage.input_tokens,
+          output_tokens: result.usage.output_tokens,
+          cache_read_tokens: result.usage.cache_read_input_tokens ?? 0,
+          cache_write_tokens: result.usage.cache_creation_input_tokens ?? 0,
+          cost_usd: costUsd,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', usageId);
+      console.log(`[parse-listing:${requestId}] Usage: ${result.usage.input_tokens} in / ${result.usage.output_tokens} out, ~$${costUsd.toFixed(4)}`);
+    } catch (err) {
+      await supabase
+        .from('ai_parse_usage')
+        .update({
+          status: 'failed',
+          error: (err instanceof Error ? err.message : String(err)).slice(0, 500),
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', usageId);
+      throw err;
+    }
+
+    const remainingAfter = remaining === null ? null : remaining - 1;
 
     if (listings.length === 0) {
-      return json({ error: 'No listing could be extracted from that text.' }, 422);
+      return json({ error: 'No listing could be extracted from that.', remaining: remainingAfter }, 422);
     }
 
     console.log(
@@ -85,7 +211,7 @@ Deno.serve(async (req: Request) => {
 
     // The form fills one listing at a time — return the first, plus the full
     // set and count in case a pasted block held more than one.
-    return json({ listing: listings[0], listings, count: listings.length });
+    return json({ listing: listings[0], listings, count: listings.length, remaining: remainingAfter });
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     console.error(`[parse-listing:${requestId}] Fatal:`, message);
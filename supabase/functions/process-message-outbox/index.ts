@@ -0,0 +1,133 @@
+// Outbox worker (message_outbox, 20261018150000_message_outbox.sql). Runs
+// every minute from pg_cron and sends every queued SMS / email that is due:
+// held for the send window, held by the per-recipient rate limit, or
+// waiting to retry after a failure. The sending itself — opt-out re-check,
+// backoff, dead-lettering, swapping the "deferred:<id>" placeholder for the
+// provider's id — lives in _shared/outbox.ts, shared with the first attempt
+// each sender makes inline.
+//
+// Each run also:
+//   - requeues rows stuck in 'sending' for STALE_LOCK_MS (a function that
+//     died mid-send; the message may go out twice, which beats never);
+//   - prunes sent / cancelled rows after RETENTION_DAYS.
+//
+// Service role only.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { checkSendWindow } from "../_shared/sendWindow.ts";
+import { deliverOutboxRow, OUTBOX_COLUMNS, rateLimitedUntil, type OutboxRow } from "../_shared/outbox.ts";
+
+const BATCH_SIZE = 200;
+const STALE_LOCK_MS = 10 * 60 * 1000;
+const RETENTION_DAYS = 30;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing Supabase configuration");
+      return jsonResponse({ error: "Database service not configured" }, 500);
+    }
+
+    const bearer = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+    if (bearer !== supabaseServiceKey) {
+      return jsonResponse({ error: "Forbidden: service role only" }, 403);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const now = new Date();
+
+    const { data: recovered, error: recoverError } = await supabase
+      .from("message_outbox")
+      .update({ status: "queued", reason: "retry", send_after: now.toISOString(), locked_at: null })
+      .eq("status", "sending")
+      .lt("locked_at", new Date(now.getTime() - STALE_LOCK_MS).toISOString())
+      .select("id");
+    if (recoverError) console.error("Error requeueing stale outbox rows:", recoverError);
+
+    const { data: due, error: dueError } = await supabase
+      .from("message_outbox")
+      .select(OUTBOX_COLUMNS)
+      .eq("status", "queued")
+      .lte("send_after", now.toISOString())
+      .order("send_after", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (dueError) {
+      console.error("Error loading outbox:", dueError);
+      return jsonResponse({ error: "Failed to load outbox" }, 500);
+    }
+
+    const window = await checkSendWindow(supabase, now);
+    const counts = { sent: 0, retrying: 0, failed: 0, dead: 0, cancelled: 0, held: 0 };
+
+    for (const row of (due ?? []) as OutboxRow[]) {
+      // Still closed, or the recipient has had their share this hour: push it
+      // back without spending an attempt.
+      let holdUntil: Date | null = null;
+      let holdReason: string | null = null;
+      if (row.respect_send_window && !window.open && window.opensAt) {
+        holdUntil = window.opensAt;
+        holdReason = window.reason;
+      } else {
+        holdUntil = await rateLimitedUntil(supabase, row.channel, row.recipient);
+        holdReason = holdUntil ? "rate_limit" : null;
+      }
+      if (holdUntil) {
+        await supabase
+          .from("message_outbox")
+          .update({ send_after: holdUntil.toISOString(), reason: holdReason })
+          .eq("id", row.id)
+          .eq("status", "queued");
+        counts.held++;
+        continue;
+      }
+
+      const status = await deliverOutboxRow(supabase, row);
+      if (status === "sent") counts.sent++;
+      else if (status === "queued") counts.retrying++;
+      else if (status === "failed") counts.failed++;
+      else if (status === "dead") counts.dead++;
+      else if (status === "cancelled") counts.cancelled++;
+    }
+
+    const cutoff = new Date(now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { error: pruneError } = await supabase
+      .from("message_outbox")
+      .delete()
+      .in("status", ["sent", "cancelled"])
+      .lt("created_at", cutoff);
+    if (pruneError) console.error("Error pruning outbox:", pruneError);
+
+    const summary = {
+      due: due?.length ?? 0,
+      recovered: recovered?.length ?? 0,
+      ...counts,
+      timestamp: now.toISOString(),
+    };
+    console.log("process-message-outbox completed:", summary);
+    return jsonResponse({ success: true, summary });
+  } catch (error) {
+    console.error("Unexpected error in process-message-outbox:", error);
+    return jsonResponse({
+      error: "Internal error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    }, 500);
+  }
+});
@@ -0,0 +1,218 @@
+// Public "request a viewing" endpoint behind the showing widget on listing
+// pages (ShowingRequestForm).
+//
+// POST { listingId, isCommercial?, startsAt, endsAt, name, phone, email?, message? }
+//
+// The slot must sit inside one of the listing's showing_availability windows
+// (_shared/showings.ts#isSlotInAvailability) and not already be held — the
+// partial unique index on showing_requests is the real guard against two
+// visitors grabbing the same slot. On success the lister is texted/emailed
+// with CONFIRM / CANCEL instructions and the requester gets a manage link.
+//
+// Like send-listing-contact-sms this is reachable with just the anon key, so
+// it's rate limited per requester phone. The requester is linked to an
+// account only when the Authorization header carries that user's session —
+// never from the body.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  formatPhoneForSMS,
+  isSlotInAvailability,
+  loadAvailabilityWindows,
+  loadShowingListing,
+  notifyShowingRequested,
+  showingContextFromEnv,
+  SHOWING_COLUMNS,
+  type ShowingRequestRow,
+} from "../_shared/showings.ts";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_REQUESTS_PER_HOUR = 5;
+
+interface RequestShowingBody {
+  listingId?: string;
+  isCommercial?: boolean;
+  startsAt?: string;
+  endsAt?: string;
+  name?: string;
+  phone?: string;
+  email?: string;
+  message?: string;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing Supabase configuration");
+      return jsonResponse({ error: "Database service not configured" }, 500);
+    }
+
+    let input: RequestShowingBody;
+    try {
+      input = await req.json();
+    } catch (_error) {
+      return jsonResponse({ error: "Invalid JSON" }, 400);
+    }
+
+    const name = input.name?.trim() ?? "";
+    const email = input.email?.trim() || null;
+    const message = input.message?.trim() || null;
+    const phone = formatPhoneForSMS(input.phone ?? "");
+    const isCommercial = input.isCommercial === true;
+
+    if (!input.listingId || !input.startsAt || !input.endsAt || !name || !input.phone) {
+      return jsonResponse({ error: "Missing required fields" }, 400);
+    }
+    if (!UUID_RE.test(input.listingId)) {
+      return jsonResponse({ error: "Invalid listingId format" }, 400);
+    }
+    if (!phone) {
+      return jsonResponse({ error: "Invalid phone number format" }, 400);
+    }
+    if (name.length > 200) {
+      return jsonResponse({ error: "Field too long: name" }, 400);
+    }
+    if (email && (email.length > 320 || !EMAIL_RE.test(email))) {
+      return jsonResponse({ error: "Invalid email address" }, 400);
+    }
+    if (message && message.length > 500) {
+      return jsonResponse({ error: "Field too long: message" }, 400);
+    }
+
+    const startsAt = new Date(input.startsAt);
+    const endsAt = new Date(input.endsAt);
+    if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+      return jsonResponse({ error: "Invalid slot time" }, 400);
+    }
+    if (startsAt.getTime() <= Date.now()) {
+      return jsonResponse({ error: "That time has already passed. Please pick another slot." }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const ctx = showingContextFromEnv(supabase);
+
+    // ----------------------------------------------------------------
+    // Rate limiting — fails open on query errors, same as the callback form.
+    // ----------------------------------------------------------------
+    try {
+      const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      const { count, error: countError } = await supabase
+        .from("showing_requests")
+        .select("id", { count: "exact", head: true })
+        .eq("requester_phone", phone)
+        .gt("created_at", oneHourAgo);
+
+      if (countError) {
+        console.error("Rate limit check (showing_requests) failed, failing open:", countError);
+      } else if ((count ?? 0) >= MAX_REQUESTS_PER_HOUR) {
+        return jsonResponse({ error: "Too many viewing requests right now. Please try again later." }, 429);
+      }
+    } catch (rateLimitErr) {
+      console.error("Rate limit check (showing_requests) threw, failing open:", rateLimitErr);
+    }
+
+    const { data: existing } = await supabase
+      .from("showing_requests")
+      .select("id")
+      .eq(isCommercial ? "commercial_listing_id" : "listing_id", input.listingId)
+      .eq("requester_phone", phone)
+      .in("status", ["requested", "confirmed"])
+      .gt("ends_at", new Date().toISOString())
+      .limit(1)
+      .maybeSingle();
+    if (existing) {
+      return jsonResponse({
+        error: "You already have a viewing booked for this listing. Use the link we texted you to reschedule or cancel it.",
+      }, 409);
+    }
+
+    // ----------------------------------------------------------------
+    // Listing + slot checks
+    // ----------------------------------------------------------------
+    const { data: listingRow } = await supabase
+      .from(isCommercial ? "commercial_listings" : "listings")
+      .select("id, is_active, approved")
+      .eq("id", input.listingId)
+      .maybeSingle();
+    if (!listingRow || !listingRow.is_active || !listingRow.approved) {
+      return jsonResponse({ error: "Listing not found" }, 404);
+    }
+
+    // Anonymous callers send the anon key, which getUser rejects — they stay
+    // unlinked.
+    let requesterUserId: string | null = null;
+    const authToken = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (authToken) {
+      const { data: { user } } = await supabase.auth.getUser(authToken);
+      requesterUserId = user?.id ?? null;
+    }
+
+    const listing = await loadShowingListing(supabase, input.listingId, isCommercial);
+    if (!listing) {
+      return jsonResponse({ error: "Listing not found" }, 404);
+    }
+
+    const windows = await loadAvailabilityWindows(supabase, input.listingId, isCommercial);
+    if (!isSlotInAvailability(windows, startsAt.toISOString(), endsAt.toISOString())) {
+      return jsonResponse({ error: "That time is no longer offered. Please pick another slot." }, 409);
+    }
+
+    const { data: inserted, error: insertError } = await supabase
+      .from("showing_requests")
+      .insert({
+        listing_id: isCommercial ? null : input.listingId,
+        commercial_listing_id: isCommercial ? input.listingId : null,
+        starts_at: startsAt.toISOString(),
+        ends_at: endsAt.toISOString(),
+        requester_name: name,
+        requester_phone: phone,
+        requester_email: email,
+        requester_user_id: requesterUserId,
+        message,
+      })
+      .select(SHOWING_COLUMNS)
+      .single();
+
+    if (insertError) {
+      if (insertError.code === "23505") {
+        return jsonResponse({ error: "Someone just booked that time. Please pick another slot." }, 409);
+      }
+      console.error("Error creating showing request:", insertError);
+      return jsonResponse({ error: "Could not save your request" }, 500);
+    }
+
+    const showing = inserted as ShowingRequestRow;
+    await notifyShowingRequested(ctx, showing, listing);
+
+    return jsonResponse({
+      success: true,
+      showing: { id: showing.id, starts_at: showing.starts_at, ends_at: showing.ends_at, status: showing.status },
+      manageToken: showing.requester_token,
+    });
+  } catch (error) {
+    console.error("Error in request-showing:", error);
+    return jsonResponse({
+      error: "Internal error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    }, 500);
+  }
+});
@@ -1,5 +1,7 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
-import { renderBrandEmail, sendViaZepto } from "../_shared/zepto.ts";
+import { renderBrandEmail } from "../_shared/zepto.ts";
+import { sendEmailViaOutbox } from "../_shared/outbox.ts";
 
 interface ContactFormData {
   name: string;
@@ -226,14 +228,19 @@ Deno.serve(async (req) => {
     console.log("Sending email to:", contactRecipient);
 
     try {
-      await sendViaZepto({
+      const supabaseAdmin = createClient(
+        Deno.env.get("SUPABASE_URL") ?? "",
+        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+        { auth: { autoRefreshToken: false, persistSession: false } },
+      );
+      await sendEmailViaOutbox(supabaseAdmin, {
         to: [contactRecipient],
         subject: `New Contact Form Message from ${safeName}`,
         html: emailHtml,
         from: zeptoFromAddress,
         fromName: zeptoFromName,
         replyTo: formData.email,
-      });
+      }, "contact_form", { respectSendWindow: false });
 
       console.log("Email sent successfully");
 
@@ -1,6 +1,7 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
-import { sendViaZepto } from "../_shared/zepto.ts";
+import { sendEmailViaOutbox } from "../_shared/outbox.ts";
+import { prepareCategoryEmail } from "../_shared/notificationPreferences.ts";
 
 function wrapPlainTextAsHtml(plainText: string): string {
   return `<pre style="font-family: inherit; white-space: pre-wrap; word-wrap: break-word;">${plainText}</pre>`;
@@ -550,14 +551,30 @@ https://chat.whatsapp.com/C3qmgo7DNOI63OE0RAZRgt`;
     console.log("✅ Email configuration verified");
 
     try {
-      await sendViaZepto({
-        to: adminEmails,
-        subject: `Daily Listing Digest - ${currentDate}`,
-        html: emailHtml,
-        text: emailPlainText,
-        fromName: "HaDirot Admin",
-      });
-      console.log("✅ Email sent successfully");
+      // One email per admin, each with its own unsubscribe link.
+      let sentCount = 0;
+      let lastSendError: unknown = null;
+      for (const admin of adminProfiles) {
+        if (!admin.email) continue;
+        const prepared = await prepareCategoryEmail(supabaseAdmin, admin.email, emailHtml, "digests", admin.id);
+        if (!prepared) continue;
+        try {
+          await sendEmailViaOutbox(supabaseAdmin, {
+            to: admin.email,
+            subject: `Daily Listing Digest - ${currentDate}`,
+            html: prepared.html,
+            text: `${emailPlainText}\n\nUnsubscribe from digests: ${prepared.unsubscribeUrl}`,
+            fromName: "HaDirot Admin",
+            headers: prepared.headers,
+          }, "daily_admin_digest", { respectSendWindow: false });
+          sentCount++;
+        } catch (error) {
+          console.error(`⚠️ Digest to ${admin.email} not sent:`, error);
+          lastSendError = error;
+        }
+      }
+      if (sentCount === 0 && lastSendError) throw lastSendError;
+      console.log(`✅ Email sent to ${sentCount} admin(s)`);
     } catch (emailError) {
       console.error("❌ Failed to send email:", emailError);
       return new Response(
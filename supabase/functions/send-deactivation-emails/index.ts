@@ -1,6 +1,8 @@
 import { corsHeaders } from "../_shared/cors.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { renderBrandEmail } from "../_shared/zepto.ts";
+import { sendEmailViaOutbox } from "../_shared/outbox.ts";
+import { prepareCategoryEmail } from "../_shared/notificationPreferences.ts";
 
 interface DeactivatedListing {
   id: string;
@@ -196,22 +198,30 @@ Deno.serve(async (req) => {
             : `Listing deactivated: ${listingLabel} - HaDirot`;
         }
 
-        const { error: emailError } = await supabaseAdmin.functions.invoke(
-          "send-email",
-          {
-            body: {
+        // Through the outbox (held outside the send window, retried on
+        // failure); the timestamp below still marks it handled so the next
+        // run doesn't queue it again. An owner who turned off expiry emails
+        // is stamped too, without sending.
+        const prepared = await prepareCategoryEmail(
+          supabaseAdmin,
+          listing.owner_email,
+          emailHtml,
+          "listing_expiry",
+          listing.user_id,
+        );
+        if (prepared) {
+          try {
+            await sendEmailViaOutbox(supabaseAdmin, {
               to: listing.owner_email,
               subject: emailSubject,
-              html: emailHtml,
-              type: "general",
-            },
-          },
-        );
-
-        if (emailError) {
-          console.error(`Error sending email for listing ${listing.id}:`, emailError);
-          emailErrors++;
-          continue;
+              html: prepared.html,
+              headers: prepared.headers,
+            }, "deactivation_email", { idempotencyKey: `deactivation_email:${listing.id}:${listing.deactivated_at}` });
+          } catch (emailError) {
+            console.error(`Error sending email for listing ${listing.id}:`, emailError);
+            emailErrors++;
+            continue;
+          }
         }
 
         const table = listing.is_commercial ? "commercial_listings" : "listings";
@@ -226,6 +236,11 @@ Deno.serve(async (req) => {
           continue;
         }
 
+        if (!prepared) {
+          emailsSkipped++;
+          continue;
+        }
+
         emailsSent++;
         console.log(`Email sent for ${listing.is_commercial ? "commercial" : "residential"} listing ${listing.id}`);
 
@@ -1,6 +1,13 @@
 import { corsHeaders } from "../_shared/cors.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
-import { renderBrandEmail, sendViaZepto } from "../_shared/zepto.ts";
+import { renderBrandEmail } from "../_shared/zepto.ts";
+import { sendEmailViaOutbox, type OutboxEmailResult } from "../_shared/outbox.ts";
+import { filterSuppressedEmails } from "../_shared/emailSuppression.ts";
+import {
+  isNotificationCategory,
+  prepareCategoryEmail,
+  type NotificationCategory,
+} from "../_shared/notificationPreferences.ts";
 
 interface EmailRequest {
   to: string | string[];
@@ -8,6 +15,12 @@ interface EmailRequest {
   html: string;
   from?: string;
   type?: "password_reset" | "general" | "admin_notification";
+  /**
+   * Preference category (_shared/notificationPreferences.ts). Set, the email
+   * goes to each recipient separately with their own unsubscribe link, and
+   * recipients who turned the category off are skipped.
+   */
+  category?: NotificationCategory;
 }
 
 Deno.serve(async (req) => {
@@ -368,25 +381,70 @@ Deno.serve(async (req) => {
     });
 
     try {
-      const zeptoData = await sendViaZepto({
-        to: toAddresses,
-        subject: emailData.subject,
-        html: emailData.html,
-        from: zeptoFromAddress,
-        fromName: zeptoFromName,
-      });
+      const source = `send_email:${emailData.type || "general"}`;
+      const category = !isPasswordReset && isNotificationCategory(emailData.category) ? emailData.category : null;
+      const results: OutboxEmailResult[] = [];
+      let suppressedCount = 0;
+      let optedOutCount = 0;
+
+      if (category) {
+        // Checked up front so a suppressed address is counted, not thrown.
+        const { allowed, suppressed } = await filterSuppressedEmails(supabaseAdmin, toAddresses);
+        suppressedCount = suppressed.length;
+        for (const address of allowed) {
+          const prepared = await prepareCategoryEmail(supabaseAdmin, address, emailData.html, category);
+          if (!prepared) {
+            optedOutCount++;
+            continue;
+          }
+          try {
+            results.push(await sendEmailViaOutbox(supabaseAdmin, {
+              to: address,
+              subject: emailData.subject,
+              html: prepared.html,
+              from: zeptoFromAddress,
+              fromName: zeptoFromName,
+              headers: prepared.headers,
+            }, source, { respectSendWindow: false }));
+          } catch (error) {
+            // One bad address shouldn't stop the rest of a multi-recipient send.
+            if (allowed.length === 1) throw error;
+            console.error(`❌ Error sending to ${address}:`, error.message);
+          }
+        }
+      } else {
+        results.push(await sendEmailViaOutbox(supabaseAdmin, {
+          to: toAddresses,
+          subject: emailData.subject,
+          html: emailData.html,
+          from: zeptoFromAddress,
+          fromName: zeptoFromName,
+        }, source, { respectSendWindow: false }));
+      }
+
+      if (!category) suppressedCount = results[0].suppressed.length;
+      const recipientCount = category ? results.length : toAddresses.length - suppressedCount;
 
       console.log("✅ Email sent successfully via ZeptoMail:", {
-        messageId: zeptoData?.data?.message_id,
+        messageIds: results.map((r) => r.messageId),
+        queuedUntil: results.map((r) => r.deferredUntil).filter(Boolean),
         to: toAddresses,
         subject: emailData.subject,
         type: emailData.type || "general",
+        category,
+        optedOutCount,
       });
 
       return new Response(
         JSON.stringify({
           success: true,
-          id: zeptoData?.data?.message_id,
+          id: results[0]?.messageId ?? null,
+          outboxId: results[0]?.outboxId ?? null,
+          ids: results.map((r) => r.messageId).filter(Boolean),
+          outboxIds: results.map((r) => r.outboxId).filter(Boolean),
+          recipientCount,
+          suppressedCount,
+          optedOutCount,
           provider: "zeptomail",
         }),
         {
@@ -1,7 +1,8 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
 import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
-import { sendViaZepto } from "../_shared/zepto.ts";
+import { sendEmailViaOutbox, type OutboxEmailResult } from "../_shared/outbox.ts";
+import { prepareCategoryEmail } from "../_shared/notificationPreferences.ts";
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -133,6 +134,7 @@ interface DigestResponse {
   template_type?: DigestTemplateType;
   listings_by_category?: Record<string, number>;
   filter_links?: FilterLinkWithCount[];
+  open_house_count?: number;
   digest_send_id?: string;
   message?: string;
 }
@@ -144,6 +146,22 @@ interface CategoryGroup {
   limit?: number;
 }
 
+interface UpcomingOpenHouse {
+  id: string;
+  starts_at: string;
+  ends_at: string;
+  notes: string | null;
+  is_commercial: boolean;
+  listing_id: string;
+  title: string | null;
+  asking_price: number | null;
+  call_for_price: boolean;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  location: string | null;
+  neighborhood: string | null;
+}
+
 // ============================================================================
 // QUERY BUILDER
 // ============================================================================
@@ -343,6 +361,63 @@ function buildFilterUrl(filterParams: Record<string, any>): string {
   return `/browse?${params.toString()}`;
 }
 
+// Open houses on active sale listings (residential + commercial) in the next
+// `days` days, soonest first.
+async function getUpcomingOpenHouses(
+  supabase: SupabaseClient,
+  days = 7
+): Promise<UpcomingOpenHouse[]> {
+  const now = new Date();
+  const windowEnd = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from('open_houses')
+    .select(`
+      id,
+      starts_at,
+      ends_at,
+      notes,
+      listing:listings(id, title, listing_type, asking_price, call_for_price, bedrooms, bathrooms, location, neighborhood, is_active, approved),
+      commercial_listing:commercial_listings(id, title, listing_type, asking_price, call_for_price, cross_street_a, cross_street_b, neighborhood, is_active, approved)
+    `)
+    .gte('ends_at', now.toISOString())
+    .lt('starts_at', windowEnd.toISOString())
+    .order('starts_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching open houses:', error);
+    return [];
+  }
+
+  const upcoming: UpcomingOpenHouse[] = [];
+  for (const row of (data || []) as any[]) {
+    const residential = row.listing;
+    const commercial = row.commercial_listing;
+    const l = residential ?? commercial;
+    if (!l || !l.is_active || !l.approved || l.listing_type !== 'sale') continue;
+
+    upcoming.push({
+      id: row.id,
+      starts_at: row.starts_at,
+      ends_at: row.ends_at,
+      notes: row.notes,
+      is_commercial: !residential,
+      listing_id: l.id,
+      title: l.title,
+      asking_price: l.asking_price,
+      call_for_price: !!l.call_for_price,
+      bedrooms: residential ? residential.bedrooms : null,
+      bathrooms: residential ? residential.bathrooms : null,
+      location: residential
+        ? residential.location
+        : [commercial.cross_street_a, commercial.cross_street_b].filter(Boolean).join(' & ') || null,
+      neighborhood: l.neighborhood,
+    });
+  }
+
+  return upcoming;
+}
+
 // ============================================================================
 // CATEGORIZER
 // ============================================================================
@@ -386,6 +461,18 @@ function categorizeByBedrooms(
 // EMAIL TEMPLATES
 // ============================================================================
 
+// Abbreviate sale prices: $1.2M, $850K
+function formatSalePrice(amount: number): string {
+  if (amount >= 1000000) {
+    const millions = amount / 1000000;
+    return `$${millions.toFixed(1).replace(/\.0$/, '')}M`;
+  } else if (amount >= 1000) {
+    const thousands = amount / 1000;
+    return `$${Math.round(thousands)}K`;
+  }
+  return `$${amount}`;
+}
+
 function formatPrice(listing: Listing): string {
   // Determine if this is a sale or rental listing
   const isSale = listing.listing_type === 'sale';
@@ -395,16 +482,7 @@ function formatPrice(listing: Listing): string {
   if (isSale) {
     // For sales, use asking_price with abbreviation
     if (listing.asking_price != null) {
-      // Abbreviate sale prices
-      if (listing.asking_price >= 1000000) {
-        const millions = listing.asking_price / 1000000;
-        return `$${millions.toFixed(1).replace(/\.0$/, '')}M`;
-      } else if (listing.asking_price >= 1000) {
-        const thousands = listing.asking_price / 1000;
-        return `$${Math.round(thousands)}K`;
-      } else {
-        return `$${listing.asking_price}`;
-      }
+      return formatSalePrice(listing.asking_price);
     }
     return "Call for Price";
   } else {
@@ -541,9 +619,61 @@ ${url}
 `;
 }
 
+function formatOpenHouseWhen(openHouse: UpcomingOpenHouse): string {
+  const timeZone = "America/New_York";
+  const day = new Date(openHouse.starts_at).toLocaleDateString("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+  const time = (iso: string) =>
+    new Date(iso)
+      .toLocaleTimeString("en-US", { timeZone, hour: "numeric", minute: "2-digit" })
+      .replace(":00", "");
+  return `${day} · ${time(openHouse.starts_at)} – ${time(openHouse.ends_at)}`;
+}
+
+async function renderOpenHousesSection(
+  openHouses: UpcomingOpenHouse[],
+  siteUrl: string,
+  createShortUrl: (listingId: string, originalUrl: string) => Promise<string>
+): Promise<string> {
+  let section = `━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+UPCOMING OPEN HOUSES (${openHouses.length})
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+`;
+
+  for (const openHouse of openHouses) {
+    // Short links are keyed to residential listings only.
+    const url = openHouse.is_commercial
+      ? `${siteUrl}/commercial-listing/${openHouse.listing_id}`
+      : await createShortUrl(openHouse.listing_id, `${siteUrl}/listing/${openHouse.listing_id}`);
+
+    const price = openHouse.call_for_price || openHouse.asking_price == null
+      ? "Call for Price"
+      : formatSalePrice(openHouse.asking_price);
+    const specs = openHouse.is_commercial
+      ? "Commercial"
+      : `${openHouse.bedrooms === 0 ? "Studio" : `${openHouse.bedrooms} bed`} | ${openHouse.bathrooms} bath`;
+    const where = [openHouse.neighborhood, openHouse.location].filter(Boolean).join(", ");
+
+    section += `${formatOpenHouseWhen(openHouse)}
+${price} | ${specs}
+${where || openHouse.title || ""}
+${openHouse.notes ? `${openHouse.notes}\n` : ""}${url}
+
+`;
+  }
+
+  return section;
+}
+
 async function renderPlainTextEmail(
   categories: CategoryGroup[],
   filterLinks: FilterLinkWithCount[],
+  openHouses: UpcomingOpenHouse[],
   siteUrl: string,
   totalActive: number,
   createShortUrl: (listingId: string, originalUrl: string) => Promise<string>
@@ -574,6 +704,10 @@ BROWSE BY CATEGORY
     email += section;
   }
 
+  if (openHouses.length > 0) {
+    email += await renderOpenHousesSection(openHouses, siteUrl, createShortUrl);
+  }
+
   email += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 Join the Hadirot WhatsApp Community:
@@ -857,6 +991,9 @@ Deno.serve(async (req) => {
 
     const totalListings = categories.reduce((sum, cat) => sum + cat.listings.length, 0);
 
+    const openHouses = await getUpcomingOpenHouses(supabaseAdmin);
+    console.log(`🏠 Found ${openHouses.length} upcoming open house(s)`);
+
     if (dry_run) {
       const listingsByCategory: Record<string, number> = {};
       for (const cat of categories) {
@@ -874,6 +1011,7 @@ Deno.serve(async (req) => {
         template_type: template.template_type,
         listings_by_category: listingsByCategory,
         filter_links: filterLinks,
+        open_house_count: openHouses.length,
         message: "Preview: This digest would send to the specified recipients",
       };
 
@@ -915,6 +1053,7 @@ Deno.serve(async (req) => {
     const emailContent = await renderPlainTextEmail(
       categories,
       filterLinks,
+      openHouses,
       siteUrl,
       totalActive || 0,
       createShortUrl
@@ -928,15 +1067,29 @@ Deno.serve(async (req) => {
 
     console.log(`📤 Sending email to ${adminEmails.length} admin(s)`);
 
-    await sendViaZepto({
-      to: adminEmails,
-      subject,
-      html: wrapPlainTextAsHtml(emailContent),
-      text: emailContent,
-      fromName: "HaDirot Admin",
-    });
+    // One email per recipient, each with its own unsubscribe link.
+    const emailResults: OutboxEmailResult[] = [];
+    let lastSendError: unknown = null;
+    for (const address of adminEmails) {
+      const prepared = await prepareCategoryEmail(supabaseAdmin, address, wrapPlainTextAsHtml(emailContent), "digests");
+      if (!prepared) continue;
+      try {
+        emailResults.push(await sendEmailViaOutbox(supabaseAdmin, {
+          to: address,
+          subject,
+          html: prepared.html,
+          text: `${emailContent}\n\nUnsubscribe from digests: ${prepared.unsubscribeUrl}`,
+          fromName: "HaDirot Admin",
+          headers: prepared.headers,
+        }, "enhanced_digest", { respectSendWindow: false }));
+      } catch (error) {
+        console.error(`⚠️ Digest to ${address} not sent:`, error);
+        lastSendError = error;
+      }
+    }
+    if (emailResults.length === 0 && lastSendError) throw lastSendError;
 
-    console.log("✅ Email sent successfully");
+    console.log(`✅ Email sent to ${emailResults.length} recipient(s)`);
 
     const digestSendRecord = {
       template_id: template_id || null,
@@ -944,7 +1097,7 @@ Deno.serve(async (req) => {
       template_type: template.template_type,
       sent_by: user.id,
       recipient_emails: adminEmails,
-      recipient_count: adminEmails.length,
+      recipient_count: emailResults.length,
       total_listings_sent: totalListings,
       listings_by_category: categories.reduce((obj, cat) => {
         obj[cat.key] = cat.listings.length;
@@ -954,6 +1107,9 @@ Deno.serve(async (req) => {
       execution_time_ms: Date.now() - startTime,
       success: true,
       config_snapshot: template,
+      // Matched against email_events for the delivery / bounce rates in history.
+      email_message_ids: emailResults.map((r) => r.messageId).filter(Boolean),
+      outbox_message_ids: emailResults.map((r) => r.outboxId).filter(Boolean),
     };
 
     const { data: digestSend, error: sendError } = await supabaseAdmin
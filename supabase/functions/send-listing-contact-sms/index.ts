@@ -1,6 +1,9 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
-import { sendViaZepto } from "../_shared/zepto.ts";
+import { isSmsOptedOut, recordCarrierOptOut } from "../_shared/smsConsent.ts";
+import { isSmsConfigured } from "../_shared/sms.ts";
+import { sendEmailViaOutbox, sendSmsViaOutbox } from "../_shared/outbox.ts";
+import { renderSms } from "../_shared/smsTemplates.ts";
 
 // A failed conversation insert means a later "RENTED" reply has nothing to
 // match — alert the SMS admin instead of failing silently (this is how the
@@ -13,11 +16,11 @@ async function alertAdminSmsFailure(supabase: any, context: string, detail: unkn
       .limit(1)
       .maybeSingle();
     if (cfg?.admin_email && cfg?.notify_on_errors !== false) {
-      await sendViaZepto({
+      await sendEmailViaOutbox(supabase, {
         to: cfg.admin_email,
         subject: `Hadirot SMS alert: ${context}`,
         html: `<p>${context}</p><pre>${JSON.stringify(detail, null, 2)?.slice(0, 2000)}</pre>`,
-      });
+      }, "sms_admin_alert", { respectSendWindow: false });
     }
   } catch (e) {
     console.error("Failed to send SMS admin alert:", e);
@@ -36,13 +39,6 @@ interface ContactFormData {
   userAgent?: string;
 }
 
-interface TwilioResponse {
-  sid: string;
-  status: string;
-  error_code?: string;
-  error_message?: string;
-}
-
 function formatSpaceType(raw: string): string {
   const map: Record<string, string> = {
     storefront: "Retail",
@@ -76,14 +72,11 @@ Deno.serve(async (req) => {
       });
     }
 
-    const twilioAccountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
-    const twilioAuthToken = Deno.env.get("TWILIO_AUTH_TOKEN");
-    const twilioPhoneNumber = Deno.env.get("TWILIO_PHONE_NUMBER");
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
-    if (!twilioAccountSid || !twilioAuthToken || !twilioPhoneNumber) {
-      console.error("Missing Twilio configuration");
+    if (!isSmsConfigured()) {
+      console.error("Missing SMS provider configuration");
       return new Response(
         JSON.stringify({ error: "SMS service not configured" }),
         {
@@ -194,7 +187,7 @@ Deno.serve(async (req) => {
     // Rate limiting — this endpoint is reachable with just the anon key
     // (verify_jwt passes for any authenticated-or-anon caller), so without
     // limits here it can be looped to SMS-bomb listing owners and burn
-    // Twilio spend. Each check fails OPEN on its own query error:
+    // SMS spend. Each check fails OPEN on its own query error:
     // availability of the real feature matters more than the limit if the
     // rate-limit check itself breaks.
     // ----------------------------------------------------------------
@@ -332,6 +325,14 @@ Deno.serve(async (req) => {
       isCommercial,
     });
 
+    if (await isSmsOptedOut(supabase, formatPhoneForSMS(listing.contact_phone))) {
+      console.log("Listing contact opted out of SMS, not sending callback request");
+      return new Response(
+        JSON.stringify({ error: "This lister isn't receiving text callback requests. Please call them directly." }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // ----------------------------------------------------------------
     // Build location and description strings
     // ----------------------------------------------------------------
@@ -396,57 +397,32 @@ Deno.serve(async (req) => {
     // ----------------------------------------------------------------
     // Build SMS message
     // ----------------------------------------------------------------
-    const messageParts = [
-      `Hadirot Alert: ${formData.userName} wants a call about your ${listingDescText} (${formattedPrice})`,
-      `Call: ${formData.userPhone}`,
-    ];
-
-    if (shortCode) {
-      messageParts.push(`${siteUrl}/l/${shortCode}`);
-    }
-
-    if (isSale) {
-      messageParts.push(`If this property is no longer available, please log into hadirot.com/dashboard to update the status.`);
-    } else {
-      messageParts.push(`If this property is no longer available, reply RENTED.`);
-    }
-
-    const smsMessage = messageParts.join("\n");
+    const smsMessage = await renderSms(supabase, isSale ? "callback_sale" : "callback_rental", {
+      caller_name: formData.userName,
+      caller_phone: formData.userPhone,
+      listing: listingDescText,
+      price: formattedPrice,
+      listing_link: shortCode ? `${siteUrl}/l/${shortCode}` : null,
+    });
 
     console.log("Sending SMS to:", listing.contact_phone);
 
     // ----------------------------------------------------------------
-    // Send via Twilio
+    // Send via the SMS provider layer (_shared/sms.ts), held back outside
+    // the send window (_shared/sendWindow.ts)
     // ----------------------------------------------------------------
-    const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${twilioAccountSid}/Messages.json`;
-    const twilioAuth = btoa(`${twilioAccountSid}:${twilioAuthToken}`);
-    const statusCallbackUrl = `${supabaseUrl}/functions/v1/sms-status-webhook`;
-
-    const twilioResponse = await fetch(twilioUrl, {
-      method: "POST",
-      headers: {
-        "Authorization": `Basic ${twilioAuth}`,
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        To: formatPhoneForSMS(listing.contact_phone),
-        From: twilioPhoneNumber,
-        Body: smsMessage,
-        StatusCallback: statusCallbackUrl,
-      }),
-    });
-
-    const twilioData: TwilioResponse = await twilioResponse.json();
+    const smsResult = await sendSmsViaOutbox(supabase, formatPhoneForSMS(listing.contact_phone), smsMessage, "contact_notification");
 
-    if (!twilioResponse.ok) {
-      console.error("Twilio error:", twilioData);
+    if (!smsResult.ok) {
+      console.error(`${smsResult.provider} error:`, smsResult.errorCode, smsResult.errorMessage);
+      await recordCarrierOptOut(supabase, formatPhoneForSMS(listing.contact_phone), smsResult);
       return new Response(
-        JSON.stringify({ error: "Failed to send SMS", details: twilioData.error_message }),
+        JSON.stringify({ error: "Failed to send SMS", details: smsResult.errorMessage }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    console.log("SMS sent successfully:", twilioData.sid);
+    console.log(smsResult.deferredUntil ? "SMS queued in outbox:" : "SMS sent successfully:", smsResult.messageId);
 
     // ----------------------------------------------------------------
     // Log to sms_messages
@@ -456,10 +432,10 @@ Deno.serve(async (req) => {
         direction: "outbound",
         phone_number: formatPhoneForSMS(listing.contact_phone),
         message_body: smsMessage,
-        message_sid: twilioData.sid,
+        message_sid: smsResult.messageId,
         message_source: "contact_notification",
         listing_id: formData.listingId,
-        status: "sent",
+        status: smsResult.deferredUntil ? "queued" : "sent",
       });
     } catch (logErr) {
       console.error("Error logging SMS:", logErr);
@@ -497,7 +473,8 @@ Deno.serve(async (req) => {
     // ----------------------------------------------------------------
     let callbackConversationCreated = true; // sales don't create one — not a failure
     if (!isSale && listing.user_id) {
-      const callbackExpires = new Date(Date.now() + 72 * 60 * 60 * 1000);
+      const sentAt = smsResult.deferredUntil ? new Date(smsResult.deferredUntil) : new Date();
+      const callbackExpires = new Date(sentAt.getTime() + 72 * 60 * 60 * 1000);
       const { error: convError } = await supabase
         .from("listing_renewal_conversations")
         .insert({
@@ -507,8 +484,8 @@ Deno.serve(async (req) => {
           batch_id: null,
           listing_index: null,
           total_in_batch: null,
-          message_sent_at: new Date().toISOString(),
-          message_sid: twilioData.sid,
+          message_sent_at: sentAt.toISOString(),
+          message_sid: smsResult.messageId,
           expires_at: callbackExpires.toISOString(),
           state: "callback_sent",
           conversation_type: "callback",
@@ -564,7 +541,7 @@ Deno.serve(async (req) => {
             .select("id")
             .eq("phone_number", agentPhone)
             .eq("message_source", "contact_notification")
-            .neq("message_sid", twilioData.sid)
+            .neq("message_sid", smsResult.messageId)
             .limit(1)
             .maybeSingle();
 
@@ -581,37 +558,26 @@ Deno.serve(async (req) => {
               listingDesc = listing.bedrooms ? `${bedroomUpsellText} on ${street}` : street;
             }
 
-            const upsellMessage = `Hadirot Tip: Want more inquiries on your ${listingDesc}? Boost it to the top of search results — starting at $25/wk: ${siteUrl}/boost/${formData.listingId}`;
-
-            const upsellTwilioResponse = await fetch(twilioUrl, {
-              method: "POST",
-              headers: {
-                "Authorization": `Basic ${twilioAuth}`,
-                "Content-Type": "application/x-www-form-urlencoded",
-              },
-              body: new URLSearchParams({
-                To: agentPhone,
-                From: twilioPhoneNumber,
-                Body: upsellMessage,
-                StatusCallback: statusCallbackUrl,
-              }),
+            const upsellMessage = await renderSms(supabase, "boost_upsell", {
+              listing: listingDesc,
+              boost_link: `${siteUrl}/boost/${formData.listingId}`,
             });
 
-            const upsellTwilioData: TwilioResponse = await upsellTwilioResponse.json();
+            const upsellResult = await sendSmsViaOutbox(supabase, agentPhone, upsellMessage, "boost_upsell");
 
-            if (upsellTwilioResponse.ok) {
-              console.log("Boost upsell SMS sent:", upsellTwilioData.sid);
+            if (upsellResult.ok) {
+              console.log(upsellResult.deferredUntil ? "Boost upsell SMS queued:" : "Boost upsell SMS sent:", upsellResult.messageId);
               await supabase.from("sms_messages").insert({
                 direction: "outbound",
                 phone_number: agentPhone,
                 message_body: upsellMessage,
-                message_sid: upsellTwilioData.sid,
+                message_sid: upsellResult.messageId,
                 message_source: "boost_upsell",
                 listing_id: formData.listingId,
-                status: "sent",
+                status: upsellResult.deferredUntil ? "queued" : "sent",
               });
             } else {
-              console.error("Boost upsell Twilio error:", upsellTwilioData);
+              console.error(`Boost upsell ${upsellResult.provider} error:`, upsellResult.errorCode, upsellResult.errorMessage);
             }
           }
         }
@@ -632,7 +598,7 @@ Deno.serve(async (req) => {
       JSON.stringify({
         success: true,
         message: "Contact request sent successfully!",
-        smsId: twilioData.sid,
+        smsId: smsResult.messageId,
         conversation_created: callbackConversationCreated,
       }),
       {
@@ -1,6 +1,6 @@
 import { corsHeaders } from "../_shared/cors.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
-import { sendViaZepto } from "../_shared/zepto.ts";
+import { sendEmailViaOutbox } from "../_shared/outbox.ts";
 import { generateListingCardHTML } from "../_shared/listingCardTemplate.ts";
 
 interface ManualEmailRequest {
@@ -358,7 +358,7 @@ Deno.serve(async (req) => {
 
     console.log(`📤 Sending email to ${adminEmails.length} admin(s) with attachment`);
 
-    await sendViaZepto({
+    await sendEmailViaOutbox(supabaseAdmin, {
       to: adminEmails,
       subject: `New Approved Listing - ${listing.title}`,
       html: emailHtml,
@@ -369,7 +369,7 @@ Deno.serve(async (req) => {
         mime_type: "image/png",
         name: `listing-${listing.id}.png`,
       }],
-    });
+    }, "listing_email_manual", { respectSendWindow: false });
 
     console.log("✅ Email sent successfully");
 
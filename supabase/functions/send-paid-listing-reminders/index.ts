@@ -8,15 +8,23 @@
 // Subscribers are excluded (their listings are covered until subscription ends;
 // the existing 5-day "is it still available?" cron handles their freshness).
 //
-// Tone mirrors the existing send-renewal-reminders / handle-renewal-sms-webhook:
-//   "Hadirot Alert: ..." prefix
-//   Listing identifier format: "{neighborhood or location} for ${price}"
+// Copy lives in sms_templates (paid_trial_*, paid_renew_*, paid_reactivate);
+// see _shared/smsTemplates.ts. This function supplies the variables:
+//   {{listing}} — "{neighborhood or location} for ${price}"
+//   {{expires_on}}, {{renewal_price}}, {{pay_link}}
 //
-// Shabbat-aware (skips Friday/Saturday in America/New_York).
+// Shabbat-aware (skips Friday/Saturday in America/New_York), and held for the
+// send window (_shared/sendWindow.ts) like every automated text.
 
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
 import { signListingPayToken } from "../_shared/sms-link-token.ts";
+import { getOptedOutPhones, recordCarrierOptOut } from "../_shared/smsConsent.ts";
+import { getOptedOutUserIds } from "../_shared/notificationPreferences.ts";
+import { isSmsConfigured } from "../_shared/sms.ts";
+import { sendSmsViaOutbox } from "../_shared/outbox.ts";
+import { renderSms } from "../_shared/smsTemplates.ts";
+import { todayInNY } from "../_shared/listingEmail.ts";
 
 const SOURCE_KEY = "paid_listing_reminder";
 
@@ -39,13 +47,6 @@ interface ListingRow {
   deactivated_at: string | null;
 }
 
-interface TwilioResponse {
-  sid: string;
-  status: string;
-  error_code?: string;
-  error_message?: string;
-}
-
 function formatPhoneForSMS(phone: string): string {
   const cleaned = phone.replace(/\D/g, "");
   if (cleaned.length === 10) return `+1${cleaned}`;
@@ -53,19 +54,19 @@ function formatPhoneForSMS(phone: string): string {
   return `+1${cleaned}`;
 }
 
+/** "Oct 21" in New York time; blank when unknown. */
+function formatShortDate(iso: string | null): string {
+  return iso
+    ? new Date(iso).toLocaleDateString("en-US", { timeZone: "America/New_York", month: "short", day: "numeric" })
+    : "";
+}
+
 function formatListingIdentifier(l: ListingRow): string {
   const loc = l.neighborhood || l.location || "your listing";
   const priceStr = l.price ? `$${l.price.toLocaleString()}` : "Call for price";
   return `${loc} for ${priceStr}`;
 }
 
-function todayInNY(): string {
-  return new Date().toLocaleDateString("en-US", {
-    timeZone: "America/New_York",
-    weekday: "long",
-  });
-}
-
 function isoStartOfUtcDay(offsetDays: number): string {
   const d = new Date();
   d.setUTCDate(d.getUTCDate() + offsetDays);
@@ -103,14 +104,11 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const twilioAccountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
-    const twilioAuthToken = Deno.env.get("TWILIO_AUTH_TOKEN");
-    const twilioPhoneNumber = Deno.env.get("TWILIO_PHONE_NUMBER");
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
-    if (!twilioAccountSid || !twilioAuthToken || !twilioPhoneNumber) {
-      return new Response(JSON.stringify({ error: "Twilio not configured" }), {
+    if (!isSmsConfigured()) {
+      return new Response(JSON.stringify({ error: "SMS provider not configured" }), {
         status: 500,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
@@ -155,10 +153,6 @@ Deno.serve(async (req) => {
       });
     }
 
-    const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${twilioAccountSid}/Messages.json`;
-    const twilioAuth = btoa(`${twilioAccountSid}:${twilioAuthToken}`);
-    const statusCallbackUrl = `${supabaseUrl}/functions/v1/sms-status-webhook`;
-
     const reminders: Array<{ listing: ListingRow; message: string; kind: string }> = [];
 
     // -------------------------------------------------------------
@@ -188,11 +182,15 @@ Deno.serve(async (req) => {
         .not("contact_phone_e164", "is", null);
 
       for (const l of (trialListings || []) as ListingRow[]) {
-        const id = formatListingIdentifier(l);
         const url = await buildPayLink(supabaseUrl, supabaseServiceKey, l.id, 30, 'pay');
-        const message = offset === 0
-          ? `Hadirot Alert: Your free trial for the listing at ${id} ends today. Pay $25 to keep it live: ${url}`
-          : `Hadirot Alert: Your free trial for the listing at ${id} ends in 3 days. Pay $25 to keep it live: ${url}`;
+        const trialEnds = l.trial_started_at
+          ? new Date(new Date(l.trial_started_at).getTime() + 14 * 24 * 60 * 60 * 1000).toISOString()
+          : null;
+        const message = await renderSms(supabaseAdmin, offset === 0 ? "paid_trial_dayof" : "paid_trial_3day", {
+          listing: formatListingIdentifier(l),
+          expires_on: formatShortDate(trialEnds),
+          pay_link: url,
+        });
         reminders.push({ listing: l, message, kind: offset === 0 ? "trial_dayof" : "trial_3day" });
       }
     }
@@ -215,7 +213,6 @@ Deno.serve(async (req) => {
         .not("contact_phone_e164", "is", null);
 
       for (const l of (paidListings || []) as ListingRow[]) {
-        const id = formatListingIdentifier(l);
         const url = await buildPayLink(supabaseUrl, supabaseServiceKey, l.id, 30, 'pay');
 
         // Renewal pricing: $15 if listing has prior payments, else $25.
@@ -225,9 +222,12 @@ Deno.serve(async (req) => {
           .eq("listing_id", l.id);
         const priceStr = (priorCount ?? 0) >= 1 ? "$15" : "$25";
 
-        const message = offset === 0
-          ? `Hadirot Alert: Your listing at ${id} expires today. Renew for ${priceStr}: ${url}`
-          : `Hadirot Alert: Your listing at ${id} expires in 3 days. Renew for ${priceStr}/30 days: ${url}`;
+        const message = await renderSms(supabaseAdmin, offset === 0 ? "paid_renew_dayof" : "paid_renew_3day", {
+          listing: formatListingIdentifier(l),
+          expires_on: formatShortDate(l.paid_until),
+          renewal_price: priceStr,
+          pay_link: url,
+        });
         reminders.push({ listing: l, message, kind: offset === 0 ? "paid_dayof" : "paid_3day" });
       }
     }
@@ -258,7 +258,6 @@ Deno.serve(async (req) => {
         .not("contact_phone_e164", "is", null);
 
       for (const l of (deactivatedListings || []) as ListingRow[]) {
-        const id = formatListingIdentifier(l);
         const url = await buildPayLink(supabaseUrl, supabaseServiceKey, l.id, 30, 'reactivate');
 
         // Renewal pricing for reactivation: same rule.
@@ -268,7 +267,11 @@ Deno.serve(async (req) => {
           .eq("listing_id", l.id);
         const priceStr = (priorCount ?? 0) >= 1 ? "$15" : "$25";
 
-        const message = `Hadirot Alert: Your listing at ${id} has been off for 3 days. Reactivate for ${priceStr}: ${url}`;
+        const message = await renderSms(supabaseAdmin, "paid_reactivate", {
+          listing: formatListingIdentifier(l),
+          renewal_price: priceStr,
+          pay_link: url,
+        });
         reminders.push({ listing: l, message, kind: "post_deactivation_3day" });
       }
     }
@@ -283,9 +286,16 @@ Deno.serve(async (req) => {
     let smsErrors = 0;
     let skipped = 0;
 
+    const optedOutPhones = await getOptedOutPhones(
+      supabaseAdmin,
+      reminders.map((r) => formatPhoneForSMS(r.listing.contact_phone_e164 || r.listing.contact_phone || "")),
+    );
+    // Owners who turned off expiry texts in Account → Settings.
+    const expiryOptOuts = await getOptedOutUserIds(supabaseAdmin, "sms", "listing_expiry");
+
     for (const r of reminders) {
       const phone = formatPhoneForSMS(r.listing.contact_phone_e164 || r.listing.contact_phone || "");
-      if (!phone) {
+      if (!phone || optedOutPhones.has(phone) || expiryOptOuts.has(r.listing.user_id)) {
         skipped++;
         continue;
       }
@@ -307,23 +317,13 @@ Deno.serve(async (req) => {
       }
 
       try {
-        const resp = await fetch(twilioUrl, {
-          method: "POST",
-          headers: {
-            "Authorization": `Basic ${twilioAuth}`,
-            "Content-Type": "application/x-www-form-urlencoded",
-          },
-          body: new URLSearchParams({
-            To: phone,
-            From: twilioPhoneNumber,
-            Body: r.message,
-            StatusCallback: statusCallbackUrl,
-          }),
+        const result = await sendSmsViaOutbox(supabaseAdmin, phone, r.message, SOURCE_KEY, {
+          idempotencyKey: `${SOURCE_KEY}:${r.listing.id}:${todayStart.toISOString().slice(0, 10)}`,
         });
-        const data: TwilioResponse = await resp.json();
 
-        if (!resp.ok) {
-          console.error(`Twilio error sending ${r.kind} reminder for listing ${r.listing.id}:`, data);
+        if (!result.ok) {
+          console.error(`${result.provider} error sending ${r.kind} reminder for listing ${r.listing.id}:`, result.errorCode, result.errorMessage);
+          await recordCarrierOptOut(supabaseAdmin, phone, result);
           smsErrors++;
           await supabaseAdmin.from("sms_messages").insert({
             direction: "outbound",
@@ -341,10 +341,10 @@ Deno.serve(async (req) => {
           direction: "outbound",
           phone_number: phone,
           message_body: r.message,
-          message_sid: data.sid,
+          message_sid: result.messageId,
           message_source: SOURCE_KEY,
           listing_id: r.listing.id,
-          status: "sent",
+          status: result.deferredUntil ? "queued" : "sent",
         });
       } catch (sendErr) {
         console.error(`Network error sending ${r.kind} for listing ${r.listing.id}:`, sendErr);
@@ -1,6 +1,7 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
-import { renderBrandEmail, sendViaZepto } from "../_shared/zepto.ts";
+import { renderBrandEmail } from "../_shared/zepto.ts";
+import { sendEmailViaOutbox } from "../_shared/outbox.ts";
 
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -103,23 +104,23 @@ Deno.serve(async (req) => {
       ctaHref: actionLink,
     });
 
-    const zeptoData = await sendViaZepto({
+    const zeptoData = await sendEmailViaOutbox(supabaseAdmin, {
       to,
       subject: "Reset your password",
       html,
       from: zeptoFromAddress,
       fromName: zeptoFromName,
-    });
+    }, "password_reset", { respectSendWindow: false });
 
-    console.log("✅ Password reset email sent via ZeptoMail:", {
-      messageId: zeptoData?.data?.message_id,
+    console.log(zeptoData.deferredUntil ? "Password reset email queued for retry:" : "✅ Password reset email sent via ZeptoMail:", {
+      messageId: zeptoData.messageId,
       to,
     });
 
     return new Response(
       JSON.stringify({
         success: true,
-        id: zeptoData?.data?.message_id,
+        id: zeptoData.messageId,
         provider: "zeptomail",
       }),
       {
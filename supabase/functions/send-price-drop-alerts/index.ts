@@ -0,0 +1,264 @@
+// Price-drop alerts — emails everyone who favorited a listing when its price
+// goes down.
+//
+// Cron-driven (every 30 min, service role). The record_listing_price_change()
+// trigger queues each drop in listing_price_changes with
+// favoriters_notified_at = NULL; this function drains that queue:
+//   1. Collapse queued drops per listing (several edits in one window become
+//      one "was $X, now $Y" line, using the earliest old and latest new price).
+//   2. Drop listings that are no longer live or whose price has since gone
+//      back up (price_reduced_at cleared by the trigger).
+//   3. Fan out to favorites / commercial_favorites, skipping the owner, and
+//      send one email per user covering all of their favorites that dropped.
+//   4. Stamp favoriters_notified_at on every processed row.
+//
+// Shabbat-aware (skip Friday/Saturday in America/New_York). Drops older than
+// STALE_AFTER_MS are stamped without sending so a long outage doesn't produce
+// a burst of week-old news.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { renderBrandEmail } from "../_shared/zepto.ts";
+import { sendEmailViaOutbox } from "../_shared/outbox.ts";
+import { isNotificationOptedOut, withUnsubscribeLink } from "../_shared/notificationPreferences.ts";
+import { describeListing, escapeHtml, listingUrl, loadListings, todayInNY } from "../_shared/listingEmail.ts";
+
+const STALE_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+const RESIDENTIAL_SELECT =
+  "id, user_id, listing_type, price, asking_price, neighborhood, location, cross_street_a, cross_street_b, bedrooms, is_active, approved, price_reduced_at";
+const COMMERCIAL_SELECT =
+  "id, user_id, listing_type, price, asking_price, neighborhood, full_address, cross_street_a, cross_street_b, commercial_space_type, is_active, approved, price_reduced_at";
+
+interface PriceChangeRow {
+  id: string;
+  listing_id: string;
+  is_commercial: boolean;
+  old_price: number | null;
+  new_price: number | null;
+  changed_at: string;
+}
+
+interface DropListing {
+  id: string;
+  user_id: string | null;
+  listing_type: string | null;
+  neighborhood: string | null;
+  location?: string | null;
+  full_address?: string | null;
+  cross_street_a?: string | null;
+  cross_street_b?: string | null;
+  bedrooms?: number | null;
+  commercial_space_type?: string | null;
+  is_active: boolean;
+  approved: boolean;
+  price_reduced_at: string | null;
+  isCommercial: boolean;
+}
+
+interface Drop {
+  listing: DropListing;
+  fromPrice: number;
+  toPrice: number;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function formatAmount(value: number, listingType: string | null): string {
+  const formatted = `$${Number(value).toLocaleString("en-US")}`;
+  return listingType === "sale" ? formatted : `${formatted}/mo`;
+}
+
+// deno-lint-ignore no-explicit-any
+async function loadFavoriters(supabase: any, ids: string[], isCommercial: boolean): Promise<{ user_id: string; listing_id: string }[]> {
+  if (ids.length === 0) return [];
+  const { data, error } = await supabase
+    .from(isCommercial ? "commercial_favorites" : "favorites")
+    .select("user_id, listing_id")
+    .in("listing_id", ids);
+  if (error) {
+    console.error(`Error loading ${isCommercial ? "commercial_" : ""}favorites:`, error);
+    return [];
+  }
+  return data || [];
+}
+
+// deno-lint-ignore no-explicit-any
+async function sendDropEmail(supabase: any, siteUrl: string, userId: string, drops: Drop[]): Promise<boolean> {
+  const { data: userData, error: userError } = await supabase.auth.admin.getUserById(userId);
+  const email = userData?.user?.email ?? null;
+  if (userError || !email) {
+    console.warn("No email for favoriter — skipping price-drop alert", { userId, userError });
+    return false;
+  }
+
+  const rows = drops.map(({ listing, fromPrice, toPrice }) => `
+      <tr>
+        <td style="padding:12px 0;border-bottom:1px solid #E5E7EB;">
+          <a href="${listingUrl(siteUrl, listing)}" style="color:#1E4A74;font-weight:bold;text-decoration:none;">${escapeHtml(describeListing(listing))}</a>
+          <div style="font-size:14px;">
+            <span style="color:#9CA3AF;text-decoration:line-through;">${escapeHtml(formatAmount(fromPrice, listing.listing_type))}</span>
+            <span style="color:#047857;font-weight:bold;margin-left:8px;">${escapeHtml(formatAmount(toPrice, listing.listing_type))}</span>
+          </div>
+        </td>
+      </tr>`).join("");
+
+  const html = renderBrandEmail({
+    title: drops.length === 1 ? "A listing you saved just dropped in price" : `${drops.length} listings you saved just dropped in price`,
+    intro: "Good news — the price went down on a listing in your favorites.",
+    bodyHtml: `<table style="width:100%;border-collapse:collapse;">${rows}</table>
+      <p style="margin-top:24px;font-size:13px;color:#6B7280;">You're receiving this because you favorited ${drops.length === 1 ? "this listing" : "these listings"} on Hadirot.
+      Remove a listing from your favorites to stop hearing about it.</p>`,
+    ctaLabel: "View Favorites",
+    ctaHref: `${siteUrl}/account?tab=favorites`,
+  });
+
+  try {
+    const withLink = await withUnsubscribeLink(email, html, "alerts", userId);
+    await sendEmailViaOutbox(supabase, {
+      to: email,
+      subject: drops.length === 1
+        ? `Price drop: ${describeListing(drops[0].listing)} - Hadirot`
+        : `${drops.length} of your favorites dropped in price - Hadirot`,
+      html: withLink.html,
+      headers: withLink.headers,
+    }, "price_drop_alert");
+    return true;
+  } catch (err) {
+    console.error("Failed to send price-drop email:", err);
+    return false;
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: "Supabase not configured" }, 500);
+    }
+
+    const bearer = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+    if (bearer !== supabaseServiceKey) {
+      return jsonResponse({ error: "Forbidden: service role only" }, 403);
+    }
+
+    const day = todayInNY();
+    if (day === "Friday" || day === "Saturday") {
+      return jsonResponse({ success: true, skipped: true, reason: `Shabbat observance (${day})` });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+    const siteUrl = Deno.env.get("PUBLIC_SITE_URL") || "https://hadirot.com";
+
+    const { data: pending, error } = await supabase
+      .from("listing_price_changes")
+      .select("id, listing_id, is_commercial, old_price, new_price, changed_at")
+      .is("favoriters_notified_at", null)
+      .order("changed_at", { ascending: true });
+    if (error) throw error;
+
+    const rows = (pending || []) as PriceChangeRow[];
+    if (rows.length === 0) {
+      return jsonResponse({ success: true, summary: { pending: 0 } });
+    }
+
+    const staleCutoff = Date.now() - STALE_AFTER_MS;
+    const byListing = new Map<string, { isCommercial: boolean; fromPrice: number; toPrice: number }>();
+    for (const r of rows) {
+      if (r.old_price == null || r.new_price == null) continue;
+      if (new Date(r.changed_at).getTime() < staleCutoff) continue;
+      const key = `${r.is_commercial ? "c" : "r"}:${r.listing_id}`;
+      const existing = byListing.get(key);
+      // Rows are oldest-first: keep the first old_price, take the latest new_price.
+      byListing.set(key, {
+        isCommercial: r.is_commercial,
+        fromPrice: existing ? existing.fromPrice : Number(r.old_price),
+        toPrice: Number(r.new_price),
+      });
+    }
+
+    const residentialIds: string[] = [];
+    const commercialIds: string[] = [];
+    for (const [key, v] of byListing) {
+      (v.isCommercial ? commercialIds : residentialIds).push(key.slice(2));
+    }
+
+    const [residential, commercial, residentialFavs, commercialFavs] = await Promise.all([
+      loadListings<DropListing>(supabase, residentialIds, false, RESIDENTIAL_SELECT),
+      loadListings<DropListing>(supabase, commercialIds, true, COMMERCIAL_SELECT),
+      loadFavoriters(supabase, residentialIds, false),
+      loadFavoriters(supabase, commercialIds, true),
+    ]);
+
+    const drops = new Map<string, Drop>();
+    for (const l of [...residential, ...commercial]) {
+      const entry = byListing.get(`${l.isCommercial ? "c" : "r"}:${l.id}`);
+      if (!entry || !l.is_active || !l.approved || !l.price_reduced_at) continue;
+      if (entry.toPrice >= entry.fromPrice) continue;
+      drops.set(`${l.isCommercial ? "c" : "r"}:${l.id}`, { listing: l, ...entry });
+    }
+
+    const byUser = new Map<string, Drop[]>();
+    const addFavs = (favs: { user_id: string; listing_id: string }[], isCommercial: boolean) => {
+      for (const f of favs) {
+        const drop = drops.get(`${isCommercial ? "c" : "r"}:${f.listing_id}`);
+        if (!drop || drop.listing.user_id === f.user_id) continue;
+        const list = byUser.get(f.user_id) ?? [];
+        list.push(drop);
+        byUser.set(f.user_id, list);
+      }
+    };
+    addFavs(residentialFavs, false);
+    addFavs(commercialFavs, true);
+
+    let emailsSent = 0;
+    let emailsFailed = 0;
+    let emailsSkipped = 0;
+    for (const [userId, userDrops] of byUser) {
+      if (await isNotificationOptedOut(supabase, userId, "email", "alerts")) {
+        emailsSkipped++;
+        continue;
+      }
+      if (await sendDropEmail(supabase, siteUrl, userId, userDrops)) {
+        emailsSent++;
+      } else {
+        emailsFailed++;
+      }
+    }
+
+    // Stamp everything we looked at — including stale, non-live and
+    // no-favoriter drops — so the queue only ever holds fresh work. A failed
+    // email is not retried; the next drop on the listing will alert again.
+    const { error: stampError } = await supabase
+      .from("listing_price_changes")
+      .update({ favoriters_notified_at: new Date().toISOString() })
+      .in("id", rows.map((r) => r.id));
+    if (stampError) throw stampError;
+
+    const summary = {
+      pending: rows.length,
+      listings_dropped: drops.size,
+      users: byUser.size,
+      emails_sent: emailsSent,
+      emails_failed: emailsFailed,
+      emails_skipped: emailsSkipped,
+    };
+    console.log("send-price-drop-alerts complete:", summary);
+    return jsonResponse({ success: true, summary });
+  } catch (error) {
+    console.error("send-price-drop-alerts error:", error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -1,6 +1,11 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
-import { sendViaZepto } from "../_shared/zepto.ts";
+import { getOptedOutPhones, recordCarrierOptOut } from "../_shared/smsConsent.ts";
+import { getWhatsAppRecipients } from "../_shared/whatsappConsent.ts";
+import { getOptedOutUserIds } from "../_shared/notificationPreferences.ts";
+import { isSmsConfigured } from "../_shared/sms.ts";
+import { sendEmailViaOutbox, sendSmsViaOutbox } from "../_shared/outbox.ts";
+import { renderSms } from "../_shared/smsTemplates.ts";
 
 // A failed conversation insert means a later YES/NO reply has nothing to
 // match — alert the SMS admin instead of failing silently (this is how the
@@ -14,11 +19,11 @@ async function alertAdminSmsFailure(supabase: any, context: string, detail: unkn
       .limit(1)
       .maybeSingle();
     if (cfg?.admin_email && cfg?.notify_on_errors !== false) {
-      await sendViaZepto({
+      await sendEmailViaOutbox(supabase, {
         to: cfg.admin_email,
         subject: `Hadirot SMS alert: ${context}`,
         html: `<p>${context}</p><pre>${JSON.stringify(detail, null, 2)?.slice(0, 2000)}</pre>`,
-      });
+      }, "sms_admin_alert", { respectSendWindow: false });
     }
   } catch (e) {
     console.error("Failed to send SMS admin alert:", e);
@@ -40,11 +45,12 @@ interface ExpiringListing {
   commercial_space_type?: string;
 }
 
-interface TwilioResponse {
-  sid: string;
-  status: string;
-  error_code?: string;
-  error_message?: string;
+// POST { listingId } re-sends the reminder for one listing right away — the
+// "re-send reminder" button in the admin SMS inbox (admin-sms-inbox). Skips
+// the expiry window, the Shabbat check and the once-a-day dedup; opt-outs and
+// the monetized-listing exclusion still apply. Service role only.
+interface TargetedRequest {
+  listingId?: string;
 }
 
 const SMS_RENEWAL_DAYS = 14;
@@ -102,6 +108,13 @@ function formatListingIdentifier(listing: ExpiringListing): string {
   return `${locationStr} for ${priceStr}`;
 }
 
+/** "Oct 21" in New York time; blank when the listing has no expiry. */
+function formatExpiryDate(iso: string | null): string {
+  return iso
+    ? new Date(iso).toLocaleDateString("en-US", { timeZone: "America/New_York", month: "short", day: "numeric" })
+    : "";
+}
+
 function formatPhoneForSMS(phone: string): string {
   const cleaned = phone.replace(/\D/g, "");
   if (cleaned.length === 10) return `+1${cleaned}`;
@@ -117,14 +130,11 @@ Deno.serve(async (req) => {
   try {
     console.log("Starting send-renewal-reminders job...");
 
-    const twilioAccountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
-    const twilioAuthToken = Deno.env.get("TWILIO_AUTH_TOKEN");
-    const twilioPhoneNumber = Deno.env.get("TWILIO_PHONE_NUMBER");
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
-    if (!twilioAccountSid || !twilioAuthToken || !twilioPhoneNumber) {
-      console.error("Missing Twilio configuration");
+    if (!isSmsConfigured()) {
+      console.error("Missing SMS provider configuration");
       return new Response(
         JSON.stringify({ error: "SMS service not configured" }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -139,6 +149,20 @@ Deno.serve(async (req) => {
       );
     }
 
+    let targetListingId: string | null = null;
+    if (req.method === "POST") {
+      const input: TargetedRequest = await req.json().catch(() => ({}));
+      if (input?.listingId) {
+        if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+          return new Response(
+            JSON.stringify({ error: "Forbidden" }),
+            { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        targetListingId = input.listingId;
+      }
+    }
+
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
       auth: { autoRefreshToken: false, persistSession: false },
     });
@@ -148,7 +172,7 @@ Deno.serve(async (req) => {
       weekday: "long",
     });
 
-    if (nyDayOfWeek === "Friday" || nyDayOfWeek === "Saturday") {
+    if (!targetListingId && (nyDayOfWeek === "Friday" || nyDayOfWeek === "Saturday")) {
       console.log(`Skipping SMS renewals - today is ${nyDayOfWeek} (Shabbat observance)`);
       return new Response(
         JSON.stringify({
@@ -177,19 +201,31 @@ Deno.serve(async (req) => {
     windowEnd.setDate(windowEnd.getDate() + 5);
     windowEnd.setHours(23, 59, 59, 999);
 
-    console.log(`Looking for listings expiring between ${windowStart.toISOString()} and ${windowEnd.toISOString()}`);
+    // Expiry window for the daily run, or just the one listing when targeted
+    // (ids are UUIDs, so at most one of the two tables matches).
+    // deno-lint-ignore no-explicit-any
+    const inScope = (query: any) =>
+      targetListingId
+        ? query.eq("id", targetListingId)
+        : query.gte("expires_at", windowStart.toISOString()).lte("expires_at", windowEnd.toISOString());
+
+    if (targetListingId) {
+      console.log(`Targeted reminder for listing ${targetListingId}`);
+    } else {
+      console.log(`Looking for listings expiring between ${windowStart.toISOString()} and ${windowEnd.toISOString()}`);
+    }
 
     // ----------------------------------------------------------------
     // Query residential listings
     // ----------------------------------------------------------------
-    const { data: residentialListings, error: residentialError } = await supabaseAdmin
-      .from("listings")
-      .select("id, user_id, listing_type, location, full_address, neighborhood, price, contact_phone, expires_at, payment_kind")
-      .eq("is_active", true)
-      .eq("approved", true)
-      .not("contact_phone", "is", null)
-      .gte("expires_at", windowStart.toISOString())
-      .lte("expires_at", windowEnd.toISOString());
+    const { data: residentialListings, error: residentialError } = await inScope(
+      supabaseAdmin
+        .from("listings")
+        .select("id, user_id, listing_type, location, full_address, neighborhood, price, contact_phone, expires_at, payment_kind")
+        .eq("is_active", true)
+        .eq("approved", true)
+        .not("contact_phone", "is", null),
+    );
 
     if (residentialError) {
       console.error("Error querying expiring residential listings:", residentialError);
@@ -202,14 +238,14 @@ Deno.serve(async (req) => {
     // ----------------------------------------------------------------
     // Query commercial listings
     // ----------------------------------------------------------------
-    const { data: commercialListings, error: commercialError } = await supabaseAdmin
-      .from("commercial_listings")
-      .select("id, user_id, listing_type, full_address, neighborhood, price, contact_phone, expires_at, commercial_space_type")
-      .eq("is_active", true)
-      .eq("approved", true)
-      .not("contact_phone", "is", null)
-      .gte("expires_at", windowStart.toISOString())
-      .lte("expires_at", windowEnd.toISOString());
+    const { data: commercialListings, error: commercialError } = await inScope(
+      supabaseAdmin
+        .from("commercial_listings")
+        .select("id, user_id, listing_type, full_address, neighborhood, price, contact_phone, expires_at, commercial_space_type")
+        .eq("is_active", true)
+        .eq("approved", true)
+        .not("contact_phone", "is", null),
+    );
 
     if (commercialError) {
       console.error("Error querying expiring commercial listings:", commercialError);
@@ -251,7 +287,15 @@ Deno.serve(async (req) => {
 
     if (allListings.length === 0) {
       return new Response(
-        JSON.stringify({ success: true, message: "No expiring listings found", processed: 0 }),
+        JSON.stringify({
+          success: true,
+          message: targetListingId
+            ? monetizedSkipped > 0
+              ? "Listing is monetized; it gets payment reminders instead"
+              : "Listing not found, inactive, unapproved or without a contact phone"
+            : "No expiring listings found",
+          processed: 0,
+        }),
         { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -259,9 +303,20 @@ Deno.serve(async (req) => {
     // ----------------------------------------------------------------
     // Group by normalized phone number
     // ----------------------------------------------------------------
+    // Owners who turned off expiry texts (Account → Settings) are left out;
+    // an admin re-send of one listing still goes.
+    const expiryOptOuts = targetListingId
+      ? new Set<string>()
+      : await getOptedOutUserIds(supabaseAdmin, "sms", "listing_expiry");
+    let skippedByPreference = 0;
+
     const listingsByPhone = new Map<string, ExpiringListing[]>();
     for (const listing of allListings) {
       if (!listing.contact_phone) continue;
+      if (expiryOptOuts.has(listing.user_id)) {
+        skippedByPreference++;
+        continue;
+      }
       const phone = formatPhoneForSMS(listing.contact_phone);
       if (!listingsByPhone.has(phone)) {
         listingsByPhone.set(phone, []);
@@ -276,11 +331,16 @@ Deno.serve(async (req) => {
 
     let smsSent = 0;
     let smsErrors = 0;
+    let smsDeferred = 0;
+    let lastDeferredUntil: string | null = null;
     let skippedDuplicates = 0;
+    let skippedOptedOut = 0;
+    let whatsappSent = 0;
 
-    const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${twilioAccountSid}/Messages.json`;
-    const twilioAuth = btoa(`${twilioAccountSid}:${twilioAuthToken}`);
-    const statusCallbackUrl = `${supabaseUrl}/functions/v1/sms-status-webhook`;
+    const optedOutPhones = await getOptedOutPhones(supabaseAdmin, [...listingsByPhone.keys()]);
+    // Owners who opted in to listing messages on WhatsApp get the prompt
+    // there instead, and answer it there.
+    const whatsappPhones = await getWhatsAppRecipients(supabaseAdmin, [...listingsByPhone.keys()], "listing_messages");
 
     const daysUntil = (iso: string | null): number => {
       if (!iso) return 5;
@@ -289,11 +349,31 @@ Deno.serve(async (req) => {
     };
 
     for (const [phoneNumber, listings] of listingsByPhone) {
+      const channel = whatsappPhones.has(phoneNumber) ? "whatsapp" : "sms";
+      if (channel === "sms" && optedOutPhones.has(phoneNumber)) {
+        console.log(`Skipping ${phoneNumber} - opted out of SMS`);
+        skippedOptedOut++;
+        continue;
+      }
+
       // Dedup FIRST, then batch — otherwise a same-day conversation on the
       // first listing would strand the rest of the batch in 'pending' with
       // no head message ever sent.
       const fresh: ExpiringListing[] = [];
       for (const listing of listings) {
+        if (targetListingId) {
+          // The re-sent reminder replaces any unanswered one, so the owner's
+          // reply can't be matched to the stale conversation.
+          await supabaseAdmin
+            .from("listing_renewal_conversations")
+            .update({ state: "timeout", action_taken: "resent", updated_at: new Date().toISOString() })
+            .eq("listing_id", listing.id)
+            .eq("conversation_type", "renewal")
+            .in("state", ["awaiting_availability", "pending"]);
+          fresh.push(listing);
+          continue;
+        }
+
         const { data: existingConv } = await supabaseAdmin
           .from("listing_renewal_conversations")
           .select("id")
@@ -316,50 +396,44 @@ Deno.serve(async (req) => {
       const batchId = isBatch ? crypto.randomUUID() : null;
       const totalInBatch = isBatch ? batchListings.length : null;
       const timeoutHours = isBatch ? BATCH_TIMEOUT_HOURS : SINGLE_LISTING_TIMEOUT_HOURS;
-      const expiresAt = new Date(Date.now() + timeoutHours * 60 * 60 * 1000);
+      let expiresAt = new Date(Date.now() + timeoutHours * 60 * 60 * 1000);
 
       let smsMessage: string;
       if (!isBatch) {
         const listing = batchListings[0];
         const days = daysUntil(listing.expires_at);
-        smsMessage = `Hadirot Alert: Your listing at ${formatListingIdentifier(listing)} expires in ${days} day${days === 1 ? "" : "s"}. Is the listing still available? Reply YES or NO.`;
+        smsMessage = await renderSms(supabaseAdmin, "renewal_single", {
+          listing: formatListingIdentifier(listing),
+          days_left: `${days} day${days === 1 ? "" : "s"}`,
+          expires_on: formatExpiryDate(listing.expires_at),
+        });
       } else {
         // One bulk message covering the whole batch. A single reply resolves
         // every listing (the old one-at-a-time chain meant listings 2..N were
         // almost never asked about — owners rarely replied N times).
-        const lines = batchListings.map((l, i) => `${i + 1}. ${formatListingIdentifier(l)}`);
-        const extra = fresh.length > MAX_BATCH_SIZE
-          ? `\n(+${fresh.length - MAX_BATCH_SIZE} more - manage at hadirot.com/dashboard)`
-          : "";
-        smsMessage =
-          `Hadirot Alert: You have ${batchListings.length} listings expiring soon:\n` +
-          `${lines.join("\n")}${extra}\n` +
-          `Are they all still available? Reply YES to keep all, NO if none are, ` +
-          `or the numbers that are no longer available (e.g. 2).`;
+        smsMessage = await renderSms(supabaseAdmin, "renewal_batch", {
+          listing_count: batchListings.length,
+          listing_list: batchListings.map((l, i) => `${i + 1}. ${formatListingIdentifier(l)}`).join("\n"),
+          more_count: fresh.length > MAX_BATCH_SIZE ? fresh.length - MAX_BATCH_SIZE : null,
+        });
       }
 
       const head = batchListings[0];
       let messageSid: string | null = null;
 
       try {
-        const twilioResponse = await fetch(twilioUrl, {
-          method: "POST",
-          headers: {
-            "Authorization": `Basic ${twilioAuth}`,
-            "Content-Type": "application/x-www-form-urlencoded",
-          },
-          body: new URLSearchParams({
-            To: phoneNumber,
-            From: twilioPhoneNumber,
-            Body: smsMessage,
-            StatusCallback: statusCallbackUrl,
-          }),
+        // A re-run of the daily job on the same day never texts the same
+        // batch twice; an admin re-send is always sent.
+        const smsResult = await sendSmsViaOutbox(supabaseAdmin, phoneNumber, smsMessage, "renewal_reminder", {
+          channel,
+          idempotencyKey: targetListingId
+            ? undefined
+            : `renewal_reminder:${todayStart.toISOString().slice(0, 10)}:${batchListings.map((l) => l.id).join(",")}`,
         });
 
-        const twilioData: TwilioResponse = await twilioResponse.json();
-
-        if (!twilioResponse.ok) {
-          console.error(`Twilio error for phone ${phoneNumber}:`, twilioData);
+        if (!smsResult.ok) {
+          console.error(`${smsResult.provider} error for phone ${phoneNumber}:`, smsResult.errorCode, smsResult.errorMessage);
+          await recordCarrierOptOut(supabaseAdmin, phoneNumber, smsResult);
           // Record the failure on the head only; no children are created, so
           // nothing is stranded in 'pending'.
           await supabaseAdmin
@@ -380,9 +454,17 @@ Deno.serve(async (req) => {
           continue;
         }
 
-        messageSid = twilioData.sid;
+        messageSid = smsResult.messageId;
         smsSent++;
-        console.log(`SMS sent to ${phoneNumber} (${batchListings.length} listing${isBatch ? "s" : ""}): ${messageSid}`);
+        if (channel === "whatsapp") whatsappSent++;
+        if (smsResult.deferredUntil) {
+          // Held in the outbox (send window or retry): the owner's reply
+          // timeout starts when the text actually goes out.
+          smsDeferred++;
+          lastDeferredUntil = smsResult.deferredUntil;
+          expiresAt = new Date(new Date(smsResult.deferredUntil).getTime() + timeoutHours * 60 * 60 * 1000);
+        }
+        console.log(`${channel === "whatsapp" ? "WhatsApp" : "SMS"} sent to ${phoneNumber} (${batchListings.length} listing${isBatch ? "s" : ""}): ${messageSid}`);
 
         try {
           await supabaseAdmin.from("sms_messages").insert({
@@ -392,7 +474,8 @@ Deno.serve(async (req) => {
             message_sid: messageSid,
             message_source: "renewal_reminder",
             listing_id: head.id,
-            status: "sent",
+            status: smsResult.deferredUntil ? "queued" : "sent",
+            channel,
           });
         } catch (logErr) {
           console.error("Error logging SMS:", logErr);
@@ -491,8 +574,14 @@ Deno.serve(async (req) => {
       commercialExpiring: commercialCount,
       uniquePhones: listingsByPhone.size,
       smsSent,
+      whatsappSent,
+      smsDeferred,
+      deferredUntil: lastDeferredUntil,
       smsErrors,
       skippedDuplicates,
+      skippedOptedOut,
+      skippedByPreference,
+      monetizedSkipped,
       timestamp: new Date().toISOString(),
     };
 
@@ -1,6 +1,9 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
-import { sendViaZepto } from "../_shared/zepto.ts";
+import { isSmsOptedOut, recordCarrierOptOut } from "../_shared/smsConsent.ts";
+import { isSmsConfigured } from "../_shared/sms.ts";
+import { sendEmailViaOutbox, sendSmsViaOutbox } from "../_shared/outbox.ts";
+import { renderSms } from "../_shared/smsTemplates.ts";
 
 // A failed conversation insert means the owner's YES/NO reply has nothing to
 // attach to — alert the SMS admin instead of failing silently (this is how
@@ -13,11 +16,11 @@ async function alertAdminSmsFailure(supabase: any, context: string, detail: unkn
       .limit(1)
       .maybeSingle();
     if (cfg?.admin_email && cfg?.notify_on_errors !== false) {
-      await sendViaZepto({
+      await sendEmailViaOutbox(supabase, {
         to: cfg.admin_email,
         subject: `Hadirot SMS alert: ${context}`,
         html: `<p>${context}</p><pre>${JSON.stringify(detail, null, 2)?.slice(0, 2000)}</pre>`,
-      });
+      }, "sms_admin_alert", { respectSendWindow: false });
     }
   } catch (e) {
     console.error("Failed to send SMS admin alert:", e);
@@ -42,13 +45,6 @@ const SPACE_TYPE_SHORT: Record<string, string> = {
   basement_commercial: "Basement",
 };
 
-interface TwilioResponse {
-  sid: string;
-  status: string;
-  error_code?: string;
-  error_message?: string;
-}
-
 function formatPhoneForSMS(phone: string): string {
   const cleaned = phone.replace(/\D/g, "");
   if (cleaned.length === 10) {
@@ -72,14 +68,11 @@ Deno.serve(async (req) => {
       });
     }
 
-    const twilioAccountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
-    const twilioAuthToken = Deno.env.get("TWILIO_AUTH_TOKEN");
-    const twilioPhoneNumber = Deno.env.get("TWILIO_PHONE_NUMBER");
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
-    if (!twilioAccountSid || !twilioAuthToken || !twilioPhoneNumber) {
-      console.error("Missing Twilio configuration");
+    if (!isSmsConfigured()) {
+      console.error("Missing SMS provider configuration");
       return new Response(
         JSON.stringify({ error: "SMS service not configured" }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -165,6 +158,18 @@ Deno.serve(async (req) => {
 
     const formattedPhone = formatPhoneForSMS(listing.contact_phone);
 
+    if (await isSmsOptedOut(supabase, formattedPhone)) {
+      console.log("Listing contact opted out of SMS, signaling email fallback");
+      return new Response(
+        JSON.stringify({
+          success: false,
+          fallback: true,
+          message: "Owner has opted out of SMS, please use email fallback"
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     const isSale = listing.listing_type === 'sale';
     const priceValue = isSale ? listing.asking_price : listing.price;
     const priceText = priceValue ? `$${priceValue.toLocaleString()}` : 'Call for price';
@@ -185,58 +190,47 @@ Deno.serve(async (req) => {
       locationText = listing.neighborhood || listing.location;
     }
 
-    const smsMessage = `Hadirot Alert: We received a report that your listing - ${descriptor} at ${locationText} for ${priceText} - has been ${rentedSoldWord}. Is it still available? Reply YES to keep active or NO to deactivate. If you don't respond, we will deactivate in 24 hours.`;
+    const smsMessage = await renderSms(supabase, "report_rented", {
+      listing: `${descriptor} at ${locationText}`,
+      price: priceText,
+      rented_or_sold: rentedSoldWord,
+    });
 
     console.log("Sending report SMS to:", formattedPhone);
 
-    const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${twilioAccountSid}/Messages.json`;
-    const twilioAuth = btoa(`${twilioAccountSid}:${twilioAuthToken}`);
-    const statusCallbackUrl = `${supabaseUrl}/functions/v1/sms-status-webhook`;
-
-    const twilioResponse = await fetch(twilioUrl, {
-      method: "POST",
-      headers: {
-        "Authorization": `Basic ${twilioAuth}`,
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        To: formattedPhone,
-        From: twilioPhoneNumber,
-        Body: smsMessage,
-        StatusCallback: statusCallbackUrl,
-      }),
-    });
-
-    const twilioData: TwilioResponse = await twilioResponse.json();
+    const smsResult = await sendSmsViaOutbox(supabase, formattedPhone, smsMessage, "report_rented");
 
-    if (!twilioResponse.ok) {
-      console.error("Twilio error:", twilioData);
+    if (!smsResult.ok) {
+      console.error(`${smsResult.provider} error:`, smsResult.errorCode, smsResult.errorMessage);
+      await recordCarrierOptOut(supabase, formattedPhone, smsResult);
       return new Response(
         JSON.stringify({
           error: "Failed to send SMS",
-          details: twilioData.error_message
+          details: smsResult.errorMessage
         }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    console.log("SMS sent successfully:", twilioData.sid);
+    console.log(smsResult.deferredUntil ? "SMS queued in outbox:" : "SMS sent successfully:", smsResult.messageId);
 
     try {
       await supabase.from("sms_messages").insert({
         direction: "outbound",
         phone_number: formattedPhone,
         message_body: smsMessage,
-        message_sid: twilioData.sid,
+        message_sid: smsResult.messageId,
         message_source: "report_rented",
         listing_id: listing.id,
-        status: "sent",
+        status: smsResult.deferredUntil ? "queued" : "sent",
       });
     } catch (logErr) {
       console.error("Error logging SMS:", logErr);
     }
 
-    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    // The owner has 24 hours from when the text actually goes out.
+    const sentAt = smsResult.deferredUntil ? new Date(smsResult.deferredUntil) : new Date();
+    const expiresAt = new Date(sentAt.getTime() + 24 * 60 * 60 * 1000);
 
     const { data: newConv, error: insertError } = await supabase
       .from("listing_renewal_conversations")
@@ -247,8 +241,8 @@ Deno.serve(async (req) => {
         batch_id: null,
         listing_index: null,
         total_in_batch: null,
-        message_sent_at: new Date().toISOString(),
-        message_sid: twilioData.sid,
+        message_sent_at: sentAt.toISOString(),
+        message_sid: smsResult.messageId,
         expires_at: expiresAt.toISOString(),
         state: 'awaiting_report_response',
         conversation_type: 'report',
@@ -275,7 +269,7 @@ Deno.serve(async (req) => {
       try {
         await supabase.from("sms_messages").update({
           conversation_id: newConv.id,
-        }).eq("message_sid", twilioData.sid);
+        }).eq("message_sid", smsResult.messageId);
       } catch (linkErr) {
         console.error("Error linking SMS to conversation:", linkErr);
       }
@@ -285,7 +279,7 @@ Deno.serve(async (req) => {
       JSON.stringify({
         success: true,
         message: "Report sent! The listing owner has been notified via SMS.",
-        smsId: twilioData.sid,
+        smsId: smsResult.messageId,
         conversation_created: !insertError && !!newConv,
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -0,0 +1,417 @@
+// Saved-search alerts — tells users when a newly approved listing matches one
+// of their saved /browse or /sales searches.
+//
+// Two entry points, both service-role only:
+//   POST { listingId, isCommercial }  — fired by approve-listing. Records a
+//     saved_search_matches row for every active search the listing satisfies
+//     and sends the "instant" ones right away.
+//   POST { mode: "digest" }           — daily cron. Bundles queued matches for
+//     "daily" searches (and "weekly" ones once 7 days have passed since their
+//     last alert) into one message per search.
+//
+// Matching rules live in _shared/saved-search-match.ts (mirror of the browse
+// filters). The UNIQUE(saved_search_id, listing_id) constraint is the dedup —
+// a listing that gets re-approved never alerts the same search twice.
+//
+// Digest runs are Shabbat-aware (skip Friday/Saturday in America/New_York);
+// queued matches simply wait for the next run.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { renderBrandEmail } from "../_shared/zepto.ts";
+import {
+  listingMatchesSavedSearch,
+  type MatchableListing,
+  type SavedSearchFilters,
+  type SavedSearchMode,
+} from "../_shared/saved-search-match.ts";
+import { isSmsOptedOut, recordCarrierOptOut } from "../_shared/smsConsent.ts";
+import { formatPhoneForSMS, isSmsConfigured, type MessagingChannel } from "../_shared/sms.ts";
+import { isWhatsAppConfigured } from "../_shared/whatsapp.ts";
+import { isWhatsAppOptedIn } from "../_shared/whatsappConsent.ts";
+import { sendEmailViaOutbox, sendSmsViaOutbox } from "../_shared/outbox.ts";
+import { isNotificationOptedOut, withUnsubscribeLink } from "../_shared/notificationPreferences.ts";
+import { describeListing, escapeHtml, listingUrl, loadListings, todayInNY } from "../_shared/listingEmail.ts";
+
+const SOURCE_KEY = "saved_search_alert";
+const SMS_MAX_LISTINGS = 3;
+const WEEKLY_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000 - 60 * 60 * 1000; // 1h slack for cron drift
+
+const RESIDENTIAL_SELECT =
+  "id, user_id, listing_type, price, asking_price, call_for_price, neighborhood, location, cross_street_a, cross_street_b, latitude, longitude, bedrooms, bathrooms, property_type, building_type, parking, broker_fee, lease_length, available_date, price_reduced_at, is_active, approved";
+const COMMERCIAL_SELECT =
+  "id, user_id, listing_type, price, asking_price, call_for_price, neighborhood, full_address, cross_street_a, cross_street_b, latitude, longitude, commercial_space_type, available_sf, lease_type, build_out_condition, building_class, price_reduced_at, is_active, approved";
+
+interface SavedSearchRow {
+  id: string;
+  user_id: string;
+  name: string;
+  search_mode: SavedSearchMode;
+  filters: SavedSearchFilters;
+  channel: "email" | "sms" | "whatsapp";
+  frequency: "instant" | "daily" | "weekly";
+  last_notified_at: string | null;
+}
+
+type AlertListing = MatchableListing & {
+  id: string;
+  user_id: string | null;
+  call_for_price: boolean | null;
+  location?: string | null;
+  full_address?: string | null;
+  cross_street_a?: string | null;
+  cross_street_b?: string | null;
+  is_active: boolean;
+  approved: boolean;
+  isCommercial: boolean;
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function formatPrice(l: AlertListing): string {
+  if (l.call_for_price) return "Call for price";
+  const isSale = l.listing_type === "sale";
+  const value = isSale ? l.asking_price : l.price;
+  if (value == null) return "Call for price";
+  const formatted = `$${Number(value).toLocaleString("en-US")}`;
+  return isSale ? formatted : `${formatted}/mo`;
+}
+
+// deno-lint-ignore no-explicit-any
+async function loadAlertListings(supabase: any, ids: string[], isCommercial: boolean): Promise<AlertListing[]> {
+  const rows = await loadListings<AlertListing>(
+    supabase,
+    ids,
+    isCommercial,
+    isCommercial ? COMMERCIAL_SELECT : RESIDENTIAL_SELECT,
+  );
+
+  if (!isCommercial) {
+    // poster_type / agency_name filters need the owner's role + agency.
+    const ownerIds = [...new Set(rows.map((r) => r.user_id).filter(Boolean))] as string[];
+    if (ownerIds.length > 0) {
+      const { data: owners } = await supabase
+        .from("profiles")
+        .select("id, role, agency")
+        .in("id", ownerIds);
+      const byId = new Map((owners || []).map((o: { id: string; role: string | null; agency: string | null }) => [o.id, o]));
+      for (const r of rows) {
+        const o = r.user_id ? byId.get(r.user_id) as { role: string | null; agency: string | null } | undefined : undefined;
+        r.owner = o ? { role: o.role, agency: o.agency } : null;
+      }
+    }
+  }
+
+  return rows;
+}
+
+interface SendContext {
+  // deno-lint-ignore no-explicit-any
+  supabase: any;
+  siteUrl: string;
+  supabaseUrl: string;
+  smsEnabled: boolean;
+  whatsappEnabled: boolean;
+}
+
+async function sendSmsAlert(
+  ctx: SendContext,
+  search: SavedSearchRow,
+  listings: AlertListing[],
+  channel: MessagingChannel = "sms",
+): Promise<boolean> {
+  if (!(channel === "whatsapp" ? ctx.whatsappEnabled : ctx.smsEnabled)) {
+    console.warn(`${channel} not configured — skipping ${channel} saved-search alert`, { searchId: search.id });
+    return false;
+  }
+
+  const { data: profile } = await ctx.supabase
+    .from("profiles")
+    .select("phone")
+    .eq("id", search.user_id)
+    .maybeSingle();
+  const phone = formatPhoneForSMS(profile?.phone || "");
+  if (!phone) {
+    console.warn("No valid phone on profile — skipping SMS saved-search alert", { searchId: search.id });
+    return false;
+  }
+  if (channel === "whatsapp" && !await isWhatsAppOptedIn(ctx.supabase, phone)) {
+    // Never opted in, or sent STOP on WhatsApp since.
+    console.log("Phone not opted in to WhatsApp — sending saved-search alert by email", { searchId: search.id });
+    return await sendEmailAlert(ctx, search, listings);
+  }
+  if (channel === "sms" && await isSmsOptedOut(ctx.supabase, phone)) {
+    // The number texted STOP — the alert still goes out, by email.
+    console.log("Phone opted out of SMS — sending saved-search alert by email", { searchId: search.id });
+    return await sendEmailAlert(ctx, search, listings);
+  }
+
+  const lines: string[] = [];
+  if (listings.length === 1) {
+    const l = listings[0];
+    lines.push(`Hadirot Alert: New match for "${search.name}": ${describeListing(l)} (${formatPrice(l)})`);
+    lines.push(listingUrl(ctx.siteUrl, l));
+  } else {
+    lines.push(`Hadirot Alert: ${listings.length} new matches for "${search.name}":`);
+    for (const l of listings.slice(0, SMS_MAX_LISTINGS)) {
+      lines.push(`${describeListing(l)} (${formatPrice(l)}) ${listingUrl(ctx.siteUrl, l)}`);
+    }
+    if (listings.length > SMS_MAX_LISTINGS) {
+      lines.push(`+${listings.length - SMS_MAX_LISTINGS} more`);
+    }
+  }
+  lines.push(`Manage alerts: ${ctx.siteUrl}/account?tab=alerts`);
+  const body = lines.join("\n");
+
+  const result = await sendSmsViaOutbox(ctx.supabase, phone, body, SOURCE_KEY, { channel });
+  await ctx.supabase.from("sms_messages").insert({
+    direction: "outbound",
+    phone_number: phone,
+    message_body: body,
+    message_sid: result.messageId,
+    message_source: SOURCE_KEY,
+    listing_id: listings.length === 1 ? listings[0].id : null,
+    status: result.deferredUntil ? "queued" : result.ok ? "sent" : "failed",
+    metadata: { saved_search_id: search.id, listing_ids: listings.map((l) => l.id) },
+    channel,
+  });
+
+  if (!result.ok) {
+    console.error(`${result.provider} error sending saved-search alert:`, result.errorCode, result.errorMessage);
+    await recordCarrierOptOut(ctx.supabase, phone, result);
+    return false;
+  }
+  return true;
+}
+
+async function sendEmailAlert(ctx: SendContext, search: SavedSearchRow, listings: AlertListing[]): Promise<boolean> {
+  // Counts as handled, so the digest doesn't keep picking the match up.
+  if (await isNotificationOptedOut(ctx.supabase, search.user_id, "email", "alerts")) {
+    console.log("User turned off email alerts — skipping saved-search alert", { searchId: search.id });
+    return true;
+  }
+
+  const { data: userData, error: userError } = await ctx.supabase.auth.admin.getUserById(search.user_id);
+  const email = userData?.user?.email ?? null;
+  if (userError || !email) {
+    console.warn("No email for saved-search owner — skipping", { searchId: search.id, userError });
+    return false;
+  }
+
+  const rows = listings.map((l) => `
+      <tr>
+        <td style="padding:12px 0;border-bottom:1px solid #E5E7EB;">
+          <a href="${listingUrl(ctx.siteUrl, l)}" style="color:#1E4A74;font-weight:bold;text-decoration:none;">${escapeHtml(describeListing(l))}</a>
+          <div style="color:#6B7280;font-size:14px;">${escapeHtml(formatPrice(l))}${l.neighborhood ? ` · ${escapeHtml(l.neighborhood)}` : ""}</div>
+        </td>
+      </tr>`).join("");
+
+  const html = renderBrandEmail({
+    title: listings.length === 1 ? "A new listing matches your search" : `${listings.length} new listings match your search`,
+    intro: `Your saved search <strong>${escapeHtml(search.name)}</strong> has new results.`,
+    bodyHtml: `<table style="width:100%;border-collapse:collapse;">${rows}</table>
+      <p style="margin-top:24px;font-size:13px;color:#6B7280;">You're receiving this because you saved this search on Hadirot.
+      <a href="${ctx.siteUrl}/account?tab=alerts" style="color:#1E4A74;">Change or turn off this alert</a>.</p>`,
+    ctaLabel: "Manage Alerts",
+    ctaHref: `${ctx.siteUrl}/account?tab=alerts`,
+  });
+
+  try {
+    const withLink = await withUnsubscribeLink(email, html, "alerts", search.user_id);
+    await sendEmailViaOutbox(ctx.supabase, {
+      to: email,
+      subject: listings.length === 1
+        ? `New match for "${search.name}" - Hadirot`
+        : `${listings.length} new matches for "${search.name}" - Hadirot`,
+      html: withLink.html,
+      headers: withLink.headers,
+    }, SOURCE_KEY);
+    return true;
+  } catch (err) {
+    console.error("Failed to send saved-search email:", err);
+    return false;
+  }
+}
+
+// Text alerts a user turned off in Account → Settings go by email instead,
+// like a STOP. WhatsApp searches only need the number's WhatsApp opt-in.
+async function deliver(ctx: SendContext, search: SavedSearchRow, listings: AlertListing[]): Promise<boolean> {
+  if (search.channel === "whatsapp") return await sendSmsAlert(ctx, search, listings, "whatsapp");
+  const smsOff = search.channel === "sms" &&
+    await isNotificationOptedOut(ctx.supabase, search.user_id, "sms", "alerts");
+  return search.channel === "sms" && !smsOff
+    ? await sendSmsAlert(ctx, search, listings)
+    : await sendEmailAlert(ctx, search, listings);
+}
+
+async function markNotified(ctx: SendContext, searchId: string, matchIds: string[]) {
+  const now = new Date().toISOString();
+  if (matchIds.length > 0) {
+    await ctx.supabase.from("saved_search_matches").update({ notified_at: now }).in("id", matchIds);
+  }
+  await ctx.supabase.from("saved_searches").update({ last_notified_at: now }).eq("id", searchId);
+}
+
+async function handleApprovedListing(ctx: SendContext, listingId: string, isCommercial: boolean) {
+  const [listing] = await loadAlertListings(ctx.supabase, [listingId], isCommercial);
+  if (!listing || !listing.is_active || !listing.approved) {
+    return { matched: 0, sent: 0, reason: "listing not live" };
+  }
+
+  const mode: SavedSearchMode = listing.listing_type === "sale" ? "sale" : "rental";
+  const { data: searches, error } = await ctx.supabase
+    .from("saved_searches")
+    .select("id, user_id, name, search_mode, filters, channel, frequency, last_notified_at")
+    .eq("is_active", true)
+    .eq("search_mode", mode);
+  if (error) throw error;
+
+  const matching = ((searches || []) as SavedSearchRow[]).filter(
+    (s) => s.user_id !== listing.user_id && listingMatchesSavedSearch(mode, s.filters || {}, listing, isCommercial),
+  );
+  if (matching.length === 0) return { matched: 0, sent: 0 };
+
+  // ignoreDuplicates + select returns only the rows actually inserted, so a
+  // re-approval yields nothing for searches that were already alerted.
+  const { data: inserted, error: insertError } = await ctx.supabase
+    .from("saved_search_matches")
+    .upsert(
+      matching.map((s) => ({ saved_search_id: s.id, listing_id: listingId, is_commercial: isCommercial })),
+      { onConflict: "saved_search_id,listing_id", ignoreDuplicates: true },
+    )
+    .select("id, saved_search_id");
+  if (insertError) throw insertError;
+
+  const newMatches = (inserted || []) as { id: string; saved_search_id: string }[];
+  let sent = 0;
+  for (const m of newMatches) {
+    const search = matching.find((s) => s.id === m.saved_search_id);
+    if (!search || search.frequency !== "instant") continue;
+    if (await deliver(ctx, search, [listing])) {
+      sent++;
+      await markNotified(ctx, search.id, [m.id]);
+    }
+  }
+
+  return { matched: newMatches.length, sent };
+}
+
+async function handleDigest(ctx: SendContext) {
+  const { data: pending, error } = await ctx.supabase
+    .from("saved_search_matches")
+    .select("id, listing_id, is_commercial, saved_search:saved_searches!inner(id, user_id, name, search_mode, filters, channel, frequency, last_notified_at, is_active)")
+    .is("notified_at", null)
+    .eq("saved_search.is_active", true)
+    .order("matched_at", { ascending: true });
+  if (error) throw error;
+
+  type PendingRow = { id: string; listing_id: string; is_commercial: boolean; saved_search: SavedSearchRow };
+  const bySearch = new Map<string, { search: SavedSearchRow; matches: PendingRow[] }>();
+  for (const row of (pending || []) as PendingRow[]) {
+    const s = row.saved_search;
+    // Instant matches that failed to send are retried here too.
+    if (s.frequency === "weekly" && s.last_notified_at &&
+        Date.now() - new Date(s.last_notified_at).getTime() < WEEKLY_INTERVAL_MS) {
+      continue;
+    }
+    const entry = bySearch.get(s.id) ?? { search: s, matches: [] };
+    entry.matches.push(row);
+    bySearch.set(s.id, entry);
+  }
+
+  const allResidential = new Set<string>();
+  const allCommercial = new Set<string>();
+  for (const { matches } of bySearch.values()) {
+    for (const m of matches) (m.is_commercial ? allCommercial : allResidential).add(m.listing_id);
+  }
+  const [residential, commercial] = await Promise.all([
+    loadAlertListings(ctx.supabase, [...allResidential], false),
+    loadAlertListings(ctx.supabase, [...allCommercial], true),
+  ]);
+  const listingsById = new Map([...residential, ...commercial].map((l) => [l.id, l]));
+
+  let searchesAlerted = 0;
+  let dropped = 0;
+  for (const { search, matches } of bySearch.values()) {
+    // Listings that went inactive (rented, expired) since matching are dropped
+    // silently — stamping them notified keeps them out of the next run.
+    const live = matches
+      .map((m) => listingsById.get(m.listing_id))
+      .filter((l): l is AlertListing => !!l && l.is_active && l.approved);
+    if (live.length === 0) {
+      dropped += matches.length;
+      await ctx.supabase
+        .from("saved_search_matches")
+        .update({ notified_at: new Date().toISOString() })
+        .in("id", matches.map((m) => m.id));
+      continue;
+    }
+    if (await deliver(ctx, search, live)) {
+      searchesAlerted++;
+      await markNotified(ctx, search.id, matches.map((m) => m.id));
+    }
+  }
+
+  return { searches_due: bySearch.size, searches_alerted: searchesAlerted, dropped };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: "Supabase not configured" }, 500);
+    }
+
+    // Sends to arbitrary users — only approve-listing and the cron (both
+    // service role) may call this.
+    const bearer = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+    if (bearer !== supabaseServiceKey) {
+      return jsonResponse({ error: "Forbidden: service role only" }, 403);
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    const ctx: SendContext = {
+      supabase: createClient(supabaseUrl, supabaseServiceKey, {
+        auth: { autoRefreshToken: false, persistSession: false },
+      }),
+      siteUrl: Deno.env.get("PUBLIC_SITE_URL") || "https://hadirot.com",
+      supabaseUrl,
+      smsEnabled: isSmsConfigured(),
+      whatsappEnabled: isWhatsAppConfigured(),
+    };
+
+    if (body?.mode === "digest") {
+      const day = todayInNY();
+      if (day === "Friday" || day === "Saturday") {
+        return jsonResponse({ success: true, skipped: true, reason: `Shabbat observance (${day})` });
+      }
+      const summary = await handleDigest(ctx);
+      console.log("send-saved-search-alerts digest complete:", summary);
+      return jsonResponse({ success: true, summary });
+    }
+
+    const listingId: string | undefined = body?.listingId;
+    const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!listingId || !UUID_RE.test(listingId)) {
+      return jsonResponse({ error: "Missing or invalid listingId" }, 400);
+    }
+
+    const summary = await handleApprovedListing(ctx, listingId, body?.isCommercial === true);
+    console.log("send-saved-search-alerts instant complete:", { listingId, ...summary });
+    return jsonResponse({ success: true, summary });
+  } catch (error) {
+    console.error("send-saved-search-alerts error:", error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,238 @@
+// "Is it still available?" texts to the owners of live listings whose
+// pamphlet ad dropped out of the latest issue (the pipeline's Issues tab,
+// 20261018210000_pamphlet_issue_diffing.sql).
+//
+// POST { scrapedListingIds: string[] }
+//   — scraped rows matched to a live listing. Each owner is asked once
+//     (scraped_listings.still_available_sms_at); inactive listings, numbers
+//     that opted out of texts and owners who turned off listing updates are
+//     skipped.
+//
+// The reply goes through the SMS webhook like a "report rented" text — YES
+// keeps the listing, NO deactivates it — but an unanswered one just times
+// out (cleanup-expired-renewals), since nobody actually reported it.
+//
+// Admins only.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { isSmsOptedOut, recordCarrierOptOut } from "../_shared/smsConsent.ts";
+import { isSmsConfigured } from "../_shared/sms.ts";
+import { sendSmsViaOutbox } from "../_shared/outbox.ts";
+import { renderSms } from "../_shared/smsTemplates.ts";
+import { isNotificationOptedOut } from "../_shared/notificationPreferences.ts";
+
+const MAX_IDS = 100;
+const REPLY_WINDOW_HOURS = 48;
+
+type SkipReason = "not_matched" | "already_asked" | "listing_inactive" | "no_phone" | "opted_out" | "send_failed";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function formatPhoneForSMS(phone: string): string {
+  const cleaned = phone.replace(/\D/g, "");
+  if (cleaned.length === 11 && cleaned.startsWith("1")) {
+    return `+${cleaned}`;
+  }
+  return `+1${cleaned}`;
+}
+
+function formatSourceName(source: string | null): string {
+  if (!source) return "the pamphlet";
+  return source.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing Supabase configuration");
+      return jsonResponse({ error: "Database service not configured" }, 500);
+    }
+    if (!isSmsConfigured()) {
+      console.error("Missing SMS provider configuration");
+      return jsonResponse({ error: "SMS service not configured" }, 500);
+    }
+
+    const token = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+    if (!token) {
+      return jsonResponse({ error: "Missing authorization" }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: "Invalid authorization" }, 401);
+    }
+    const { data: adminProfile } = await supabase
+      .from("profiles")
+      .select("is_admin")
+      .eq("id", user.id)
+      .maybeSingle();
+    if (adminProfile?.is_admin !== true) {
+      return jsonResponse({ error: "Admin privileges required" }, 403);
+    }
+
+    let input: { scrapedListingIds?: unknown };
+    try {
+      input = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid JSON" }, 400);
+    }
+
+    const ids = Array.isArray(input.scrapedListingIds)
+      ? input.scrapedListingIds.filter((id): id is string => typeof id === "string").slice(0, MAX_IDS)
+      : [];
+    if (ids.length === 0) {
+      return jsonResponse({ error: "No listing ids" }, 400);
+    }
+
+    const { data: rows, error: rowsError } = await supabase
+      .from("scraped_listings")
+      .select("id, source, match_status, existing_listing_id, still_available_sms_at")
+      .in("id", ids);
+    if (rowsError) throw rowsError;
+
+    let sent = 0;
+    const skipped: Record<string, SkipReason> = {};
+
+    for (const row of rows ?? []) {
+      if (row.match_status !== "matched" || !row.existing_listing_id) {
+        skipped[row.id] = "not_matched";
+        continue;
+      }
+      if (row.still_available_sms_at) {
+        skipped[row.id] = "already_asked";
+        continue;
+      }
+
+      const { data: listing } = await supabase
+        .from("listings")
+        .select("id, user_id, listing_type, location, neighborhood, price, asking_price, bedrooms, contact_phone, is_active")
+        .eq("id", row.existing_listing_id)
+        .maybeSingle();
+
+      if (!listing || !listing.is_active) {
+        skipped[row.id] = "listing_inactive";
+        continue;
+      }
+      if (!listing.contact_phone) {
+        skipped[row.id] = "no_phone";
+        continue;
+      }
+
+      const formattedPhone = formatPhoneForSMS(listing.contact_phone);
+      if (
+        await isSmsOptedOut(supabase, formattedPhone) ||
+        await isNotificationOptedOut(supabase, listing.user_id, "sms", "listing_updates")
+      ) {
+        skipped[row.id] = "opted_out";
+        continue;
+      }
+
+      const isSale = listing.listing_type === "sale";
+      const priceValue = isSale ? listing.asking_price : listing.price;
+      const descriptor = listing.bedrooms === 0 ? "Studio" : `${listing.bedrooms} bd`;
+      const smsMessage = await renderSms(supabase, "pamphlet_still_available", {
+        listing: `${descriptor} at ${listing.neighborhood || listing.location}`,
+        price: priceValue ? `$${priceValue.toLocaleString()}` : "Call for price",
+        source_name: formatSourceName(row.source),
+        rented_or_sold: isSale ? "sold" : "rented",
+      });
+
+      const smsResult = await sendSmsViaOutbox(supabase, formattedPhone, smsMessage, "pamphlet_check");
+      if (!smsResult.ok) {
+        console.error(`${smsResult.provider} error:`, smsResult.errorCode, smsResult.errorMessage);
+        await recordCarrierOptOut(supabase, formattedPhone, smsResult);
+        skipped[row.id] = "send_failed";
+        continue;
+      }
+
+      try {
+        await supabase.from("sms_messages").insert({
+          direction: "outbound",
+          phone_number: formattedPhone,
+          message_body: smsMessage,
+          message_sid: smsResult.messageId,
+          message_source: "pamphlet_check",
+          listing_id: listing.id,
+          status: smsResult.deferredUntil ? "queued" : "sent",
+        });
+      } catch (logErr) {
+        console.error("Error logging SMS:", logErr);
+      }
+
+      const sentAt = smsResult.deferredUntil ? new Date(smsResult.deferredUntil) : new Date();
+      const expiresAt = new Date(sentAt.getTime() + REPLY_WINDOW_HOURS * 60 * 60 * 1000);
+
+      const { data: newConv, error: convError } = await supabase
+        .from("listing_renewal_conversations")
+        .insert({
+          listing_id: listing.id,
+          user_id: listing.user_id,
+          phone_number: formattedPhone,
+          batch_id: null,
+          listing_index: null,
+          total_in_batch: null,
+          message_sent_at: sentAt.toISOString(),
+          message_sid: smsResult.messageId,
+          expires_at: expiresAt.toISOString(),
+          state: "awaiting_report_response",
+          conversation_type: "report",
+          is_commercial: false,
+          metadata: {
+            report_type: "pamphlet_dropped",
+            scraped_listing_id: row.id,
+            source: row.source,
+          },
+        })
+        .select("id")
+        .maybeSingle();
+
+      if (convError) {
+        console.error("Error creating conversation:", convError);
+      } else if (newConv) {
+        try {
+          await supabase.from("sms_messages").update({
+            conversation_id: newConv.id,
+          }).eq("message_sid", smsResult.messageId);
+        } catch (linkErr) {
+          console.error("Error linking SMS to conversation:", linkErr);
+        }
+      }
+
+      const { error: markError } = await supabase
+        .from("scraped_listings")
+        .update({ still_available_sms_at: new Date().toISOString() })
+        .eq("id", row.id);
+      if (markError) {
+        console.error("Error marking scraped listing as asked:", markError);
+      }
+
+      sent++;
+    }
+
+    console.log(`Still-available texts: ${sent} sent, ${Object.keys(skipped).length} skipped`);
+    return jsonResponse({ success: true, sent, skipped });
+  } catch (error) {
+    console.error("Error in send-still-available-sms:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,516 @@
+// Subscriber digests — the admin listing digest, sent to the public
+// (20261018230000_public_digest_subscriptions.sql; people subscribe through
+// digest-subscribe).
+//
+// POST {} — daily cron, service role only. Every confirmed subscription that
+//   is due (daily ones each run, weekly ones once 7 days have passed since
+//   their last digest) gets its own digest, built from the template in
+//   admin_settings.subscriber_digest_template_id: its listing groups
+//   narrowed to the subscriber's listing type, neighborhoods and bedrooms,
+//   its collection links, and its header / footer. Without a template
+//   subscribers get their newest matching listings.
+//
+// digest_sent_listings is the dedup: each listing sent is recorded against
+// the subscription, and a subscriber never gets the same listing twice. A
+// subscriber with nothing new is skipped and tried again next run. One
+// digest_sends row records each run.
+//
+// Runs are Shabbat-aware (skip Friday/Saturday in America/New_York).
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { renderBrandEmail } from "../_shared/zepto.ts";
+import { sendEmailViaOutbox, sendSmsViaOutbox } from "../_shared/outbox.ts";
+import { recordCarrierOptOut } from "../_shared/smsConsent.ts";
+import { isWhatsAppConfigured } from "../_shared/whatsapp.ts";
+import { isWhatsAppOptedIn } from "../_shared/whatsappConsent.ts";
+import { prepareCategoryEmail } from "../_shared/notificationPreferences.ts";
+import { escapeHtml, todayInNY } from "../_shared/listingEmail.ts";
+import {
+  applyDigestFilters,
+  buildCollectionLinks,
+  DIGEST_LISTING_SELECT,
+  formatDigestListing,
+  formatDigestText,
+  TIME_FILTER_HOURS,
+  type DigestCollectionConfig,
+  type DigestCollectionLink,
+  type DigestListing,
+  type DigestListingGroup,
+} from "../_shared/digestFormat.ts";
+
+const SOURCE_KEY = "subscriber_digest";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CRON_SLACK_MS = 60 * 60 * 1000;
+// Candidates fetched per group before already-sent listings are dropped.
+const CANDIDATES_PER_GROUP = 100;
+const DEFAULT_WHATSAPP_CHARACTER_LIMIT = 4000;
+
+// No template picked: the newest listings matching the subscriber.
+const DEFAULT_GROUPS: DigestListingGroup[] = [
+  { id: "newest", enabled: true, limit: 15, filters: {}, time_filter: "all" },
+];
+const DEFAULT_HEADER = "Here are the latest listings on Hadirot for you:";
+
+interface SubscriptionRow {
+  id: string;
+  user_id: string | null;
+  channel: "email" | "whatsapp";
+  email: string | null;
+  phone_number: string | null;
+  listing_type: "rental" | "sale";
+  neighborhoods: string[];
+  bedrooms: number[];
+  frequency: "daily" | "weekly";
+  token: string;
+  last_sent_at: string | null;
+}
+
+interface TemplateRow {
+  id: string;
+  name: string;
+  template_type: string;
+  // deno-lint-ignore no-explicit-any
+  listings_filter_config: { groups?: DigestListingGroup[] } & Record<string, any> | null;
+  include_collections: boolean | null;
+  collection_configs: DigestCollectionConfig[] | null;
+  use_global_header: boolean | null;
+  use_global_footer: boolean | null;
+  custom_header_override: string | null;
+  custom_footer_override: string | null;
+}
+
+interface RunContext {
+  // deno-lint-ignore no-explicit-any
+  supabase: any;
+  siteUrl: string;
+  digestSendId: string;
+  template: TemplateRow | null;
+  groups: DigestListingGroup[];
+  header: string;
+  footer: string;
+  whatsappLimit: number;
+  whatsappEnabled: boolean;
+  collectionsByType: Map<string, DigestCollectionLink[]>;
+}
+
+type Outcome = "sent" | "nothing_new" | "not_opted_in" | "opted_out" | "failed";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/** send-enhanced-digest's bedroom category keys. */
+function categoryKey(listing: DigestListing): string {
+  if (listing.bedrooms === 0) return "studio";
+  return listing.bedrooms >= 4 ? "4plus" : `${listing.bedrooms}bed`;
+}
+
+function isDue(sub: SubscriptionRow, now: number): boolean {
+  if (!sub.last_sent_at) return true;
+  const interval = sub.frequency === "weekly" ? 7 * DAY_MS : DAY_MS;
+  return now - new Date(sub.last_sent_at).getTime() >= interval - CRON_SLACK_MS;
+}
+
+/**
+ * The group's filters ANDed with the subscriber's preferences, plus a
+ * PostgREST `or` for bedrooms when 4+ can't be written as a list. Null when
+ * the group can't contain anything the subscriber wants.
+ */
+function narrowGroupFilters(
+  group: DigestListingGroup,
+  sub: SubscriptionRow,
+  // deno-lint-ignore no-explicit-any
+): { filters: Record<string, any>; bedroomsOr: string | null } | null {
+  const filters = { ...(group.filters || {}) };
+
+  if (filters.listing_type && filters.listing_type !== sub.listing_type) return null;
+  filters.listing_type = sub.listing_type;
+
+  if (sub.neighborhoods.length > 0) {
+    if (filters.neighborhood) {
+      const groupHoods: string[] = Array.isArray(filters.neighborhood) ? filters.neighborhood : [filters.neighborhood];
+      const both = groupHoods.filter((n) => sub.neighborhoods.includes(n));
+      if (both.length === 0) return null;
+      filters.neighborhood = both;
+    } else {
+      filters.neighborhood = sub.neighborhoods;
+    }
+  }
+
+  let bedroomsOr: string | null = null;
+  if (sub.bedrooms.length > 0) {
+    const wants = (b: number) => sub.bedrooms.includes(Math.min(b, 4));
+    if (filters.bedrooms !== undefined) {
+      const groupBeds: number[] = Array.isArray(filters.bedrooms) ? filters.bedrooms : [filters.bedrooms];
+      const both = groupBeds.filter(wants);
+      if (both.length === 0) return null;
+      filters.bedrooms = both;
+    } else {
+      const exact = sub.bedrooms.filter((b) => b < 4);
+      if (sub.bedrooms.includes(4)) {
+        bedroomsOr = exact.length > 0 ? `bedrooms.in.(${exact.join(",")}),bedrooms.gte.4` : "bedrooms.gte.4";
+      } else {
+        filters.bedrooms = exact;
+      }
+    }
+  }
+
+  return { filters, bedroomsOr };
+}
+
+/** Live listings for one group and subscriber, newest first, not yet capped to the group's limit. */
+async function fetchGroupCandidates(
+  ctx: RunContext,
+  group: DigestListingGroup,
+  sub: SubscriptionRow,
+): Promise<DigestListing[]> {
+  const narrowed = narrowGroupFilters(group, sub);
+  if (!narrowed) return [];
+
+  let query = ctx.supabase
+    .from("listings")
+    .select(DIGEST_LISTING_SELECT)
+    .eq("approved", true)
+    .eq("is_active", true);
+
+  // The group's window, widened to the subscriber's own (a weekly subscriber
+  // of a "last 24h" template still gets the whole week).
+  const hours = TIME_FILTER_HOURS[group.time_filter] ?? 0;
+  if (hours > 0) {
+    const windowStart = sub.last_sent_at
+      ? new Date(sub.last_sent_at).getTime()
+      : Date.now() - (sub.frequency === "weekly" ? 7 : 1) * DAY_MS;
+    const cutoff = Math.min(Date.now() - hours * 60 * 60 * 1000, windowStart);
+    query = query.gte("created_at", new Date(cutoff).toISOString());
+  }
+
+  query = applyDigestFilters(query, narrowed.filters);
+  if (narrowed.bedroomsOr) query = query.or(narrowed.bedroomsOr);
+
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .limit(CANDIDATES_PER_GROUP);
+  if (error) {
+    console.error(`Error fetching listings for group ${group.id}:`, error);
+    return [];
+  }
+  return (data || []) as DigestListing[];
+}
+
+async function pickListings(ctx: RunContext, sub: SubscriptionRow): Promise<DigestListing[]> {
+  const perGroup: { group: DigestListingGroup; candidates: DigestListing[] }[] = [];
+  for (const group of ctx.groups) {
+    perGroup.push({ group, candidates: await fetchGroupCandidates(ctx, group, sub) });
+  }
+
+  const candidateIds = [...new Set(perGroup.flatMap((g) => g.candidates.map((l) => l.id)))];
+  if (candidateIds.length === 0) return [];
+
+  const { data: sentRows, error } = await ctx.supabase
+    .from("digest_sent_listings")
+    .select("listing_id")
+    .eq("subscription_id", sub.id)
+    .in("listing_id", candidateIds);
+  if (error) throw error;
+  const taken = new Set<string>((sentRows || []).map((r: { listing_id: string }) => r.listing_id));
+
+  const picked: DigestListing[] = [];
+  for (const { group, candidates } of perGroup) {
+    let fromGroup = 0;
+    for (const listing of candidates) {
+      if (fromGroup >= (group.limit || 20)) break;
+      if (taken.has(listing.id)) continue;
+      taken.add(listing.id);
+      picked.push(listing);
+      fromGroup++;
+    }
+  }
+  return picked;
+}
+
+// deno-lint-ignore no-explicit-any
+async function shortCodeFor(supabase: any, siteUrl: string, listingId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc("create_short_url", {
+    p_listing_id: listingId,
+    p_original_url: `${siteUrl}/listing/${listingId}`,
+    p_source: SOURCE_KEY,
+    p_expires_days: 90,
+  });
+  if (error) {
+    console.error("Error creating short URL:", error);
+    return null;
+  }
+  return data as string;
+}
+
+async function collectionsFor(ctx: RunContext, listingType: string): Promise<DigestCollectionLink[]> {
+  const cached = ctx.collectionsByType.get(listingType);
+  if (cached) return cached;
+  const configs = ctx.template?.include_collections
+    ? (ctx.template.collection_configs || []).filter(
+      (c) => !c.filters?.listing_type || c.filters.listing_type === listingType,
+    )
+    : [];
+  const links = configs.length > 0 ? await buildCollectionLinks(ctx.supabase, configs) : [];
+  ctx.collectionsByType.set(listingType, links);
+  return links;
+}
+
+/** Digest text for `listings`, dropping the newest-last ones that don't fit WhatsApp. */
+async function renderDigest(
+  ctx: RunContext,
+  sub: SubscriptionRow,
+  listings: DigestListing[],
+): Promise<{ text: string; listings: DigestListing[] }> {
+  const collections = await collectionsFor(ctx, sub.listing_type);
+  const blocks: string[] = [];
+  for (const listing of listings) {
+    blocks.push(formatDigestListing(listing, await shortCodeFor(ctx.supabase, ctx.siteUrl, listing.id)));
+  }
+  const outro = `${ctx.footer}\n\nChange or stop this digest: ${ctx.siteUrl}/digest/${sub.token}`.trim();
+
+  let count = blocks.length;
+  let text = formatDigestText({ introText: ctx.header, outroText: outro, collections, listings: blocks });
+  while (sub.channel === "whatsapp" && count > 1 && text.length > ctx.whatsappLimit) {
+    count--;
+    text = formatDigestText({ introText: ctx.header, outroText: outro, collections, listings: blocks.slice(0, count) });
+  }
+  return { text, listings: listings.slice(0, count) };
+}
+
+/** The WhatsApp text as email html: links clickable, *bold* bold. */
+function textToHtml(text: string): string {
+  const html = escapeHtml(text)
+    .replace(/(https?:\/\/[^\s<]+)/g, '<a href="$1" style="color:#1E4A74;">$1</a>')
+    .replace(/\*([^*\n]+)\*/g, "<strong>$1</strong>");
+  return `<div style="white-space:pre-wrap;word-wrap:break-word;">${html}</div>`;
+}
+
+async function deliver(ctx: RunContext, sub: SubscriptionRow, text: string, count: number): Promise<Outcome> {
+  const manageUrl = `${ctx.siteUrl}/digest/${sub.token}`;
+
+  if (sub.channel === "whatsapp") {
+    if (!ctx.whatsappEnabled) {
+      console.warn("WhatsApp not configured — skipping subscriber digest", { subscriptionId: sub.id });
+      return "failed";
+    }
+    // Subscribed, but the number hasn't opted in to WhatsApp (or sent STOP since).
+    if (!await isWhatsAppOptedIn(ctx.supabase, sub.phone_number!)) return "not_opted_in";
+
+    const result = await sendSmsViaOutbox(ctx.supabase, sub.phone_number!, text, SOURCE_KEY, { channel: "whatsapp" });
+    await ctx.supabase.from("sms_messages").insert({
+      direction: "outbound",
+      phone_number: sub.phone_number,
+      message_body: text,
+      message_sid: result.messageId,
+      message_source: SOURCE_KEY,
+      status: result.deferredUntil ? "queued" : result.ok ? "sent" : "failed",
+      metadata: { digest_subscription_id: sub.id, digest_send_id: ctx.digestSendId },
+      channel: "whatsapp",
+    });
+    if (!result.ok) {
+      console.error(`${result.provider} error sending subscriber digest:`, result.errorCode, result.errorMessage);
+      await recordCarrierOptOut(ctx.supabase, sub.phone_number!, result);
+      return "failed";
+    }
+    return "sent";
+  }
+
+  const html = renderBrandEmail({
+    title: count === 1 ? "A new listing for you" : `${count} new listings for you`,
+    bodyHtml: `${textToHtml(text)}
+      <p style="margin-top:24px;font-size:13px;color:#6B7280;">You're receiving this because you subscribed to a Hadirot digest.
+      <a href="${manageUrl}" style="color:#1E4A74;">Change or stop this digest</a>.</p>`,
+    ctaLabel: "Manage Digest",
+    ctaHref: manageUrl,
+  });
+  const prepared = await prepareCategoryEmail(ctx.supabase, sub.email!, html, "digests", sub.user_id);
+  if (!prepared) return "opted_out";
+
+  try {
+    await sendEmailViaOutbox(ctx.supabase, {
+      to: sub.email!,
+      subject: count === 1 ? "A new listing for you - Hadirot" : `${count} new listings for you - Hadirot`,
+      html: prepared.html,
+      headers: prepared.headers,
+    }, SOURCE_KEY);
+    return "sent";
+  } catch (err) {
+    console.error("Failed to send subscriber digest email:", err);
+    return "failed";
+  }
+}
+
+async function sendSubscription(ctx: RunContext, sub: SubscriptionRow): Promise<{ outcome: Outcome; listings: DigestListing[] }> {
+  const candidates = await pickListings(ctx, sub);
+  if (candidates.length === 0) return { outcome: "nothing_new", listings: [] };
+
+  const { text, listings } = await renderDigest(ctx, sub, candidates);
+  const outcome = await deliver(ctx, sub, text, listings.length);
+  if (outcome !== "sent") return { outcome, listings: [] };
+
+  const { error: logError } = await ctx.supabase.from("digest_sent_listings").insert(
+    listings.map((l) => ({
+      digest_send_id: ctx.digestSendId,
+      listing_id: l.id,
+      template_id: ctx.template?.id ?? null,
+      subscription_id: sub.id,
+      category_label: categoryKey(l),
+      listing_price: l.listing_type === "sale" ? l.asking_price : l.price,
+      listing_bedrooms: l.bedrooms,
+    })),
+  );
+  if (logError) console.error("Error recording sent listings:", logError);
+
+  await ctx.supabase
+    .from("digest_subscriptions")
+    .update({ last_sent_at: new Date().toISOString() })
+    .eq("id", sub.id);
+  return { outcome, listings };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: "Supabase not configured" }, 500);
+    }
+
+    // Sends to the public — only the cron (service role) may call this.
+    const bearer = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+    if (bearer !== supabaseServiceKey) {
+      return jsonResponse({ error: "Forbidden: service role only" }, 403);
+    }
+
+    const day = todayInNY();
+    if (day === "Friday" || day === "Saturday") {
+      return jsonResponse({ success: true, skipped: true, reason: `Shabbat observance (${day})` });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const { data: subs, error: subsError } = await supabase
+      .from("digest_subscriptions")
+      .select("id, user_id, channel, email, phone_number, listing_type, neighborhoods, bedrooms, frequency, token, last_sent_at")
+      .not("confirmed_at", "is", null)
+      .is("unsubscribed_at", null);
+    if (subsError) throw subsError;
+
+    const due = ((subs || []) as SubscriptionRow[]).filter((s) => isDue(s, startTime));
+    if (due.length === 0) {
+      return jsonResponse({ success: true, summary: { due: 0 } });
+    }
+
+    const [{ data: settings }, { data: globalSettings }] = await Promise.all([
+      supabase.from("admin_settings").select("subscriber_digest_template_id").limit(1).maybeSingle(),
+      supabase
+        .from("digest_global_settings")
+        .select("default_header_text, default_footer_text, whatsapp_character_limit")
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    let template: TemplateRow | null = null;
+    if (settings?.subscriber_digest_template_id) {
+      const { data } = await supabase
+        .from("digest_templates")
+        .select("id, name, template_type, listings_filter_config, include_collections, collection_configs, use_global_header, use_global_footer, custom_header_override, custom_footer_override")
+        .eq("id", settings.subscriber_digest_template_id)
+        .maybeSingle();
+      template = data as TemplateRow | null;
+    }
+
+    // digest_sent_listings rows hang off a digest_sends row, so the run's row
+    // goes in first and its totals are filled in at the end.
+    const { data: sendRow, error: sendError } = await supabase
+      .from("digest_sends")
+      .insert({
+        template_id: template?.id ?? null,
+        template_name: template?.name ?? "Subscriber digest",
+        template_type: template?.template_type ?? "custom_query",
+        recipient_emails: [],
+        recipient_count: 0,
+        config_snapshot: { audience: "subscribers", due: due.length },
+      })
+      .select("id")
+      .single();
+    if (sendError) throw sendError;
+
+    const groups = (template?.listings_filter_config?.groups || []).filter(
+      (g) => g.enabled && g.kind !== "commercial",
+    );
+    const header = template && !template.use_global_header
+      ? template.custom_header_override || ""
+      : globalSettings?.default_header_text || DEFAULT_HEADER;
+    const footer = template && !template.use_global_footer
+      ? template.custom_footer_override || ""
+      : globalSettings?.default_footer_text || "";
+
+    const ctx: RunContext = {
+      supabase,
+      siteUrl: Deno.env.get("PUBLIC_SITE_URL") || "https://hadirot.com",
+      digestSendId: sendRow.id,
+      template,
+      groups: groups.length > 0 ? groups : DEFAULT_GROUPS,
+      header,
+      footer,
+      whatsappLimit: globalSettings?.whatsapp_character_limit || DEFAULT_WHATSAPP_CHARACTER_LIMIT,
+      whatsappEnabled: isWhatsAppConfigured(),
+      collectionsByType: new Map(),
+    };
+
+    const outcomes: Record<Outcome, number> = { sent: 0, nothing_new: 0, not_opted_in: 0, opted_out: 0, failed: 0 };
+    const emailed: string[] = [];
+    const byCategory: Record<string, number> = {};
+    let totalListings = 0;
+
+    for (const sub of due) {
+      try {
+        const { outcome, listings } = await sendSubscription(ctx, sub);
+        outcomes[outcome]++;
+        if (outcome !== "sent") continue;
+        if (sub.channel === "email") emailed.push(sub.email!);
+        totalListings += listings.length;
+        for (const l of listings) {
+          byCategory[categoryKey(l)] = (byCategory[categoryKey(l)] ?? 0) + 1;
+        }
+      } catch (err) {
+        outcomes.failed++;
+        console.error(`Error sending digest to subscription ${sub.id}:`, err);
+      }
+    }
+
+    await supabase
+      .from("digest_sends")
+      .update({
+        recipient_emails: emailed,
+        recipient_count: outcomes.sent,
+        total_listings_sent: totalListings,
+        listings_by_category: byCategory,
+        execution_time_ms: Date.now() - startTime,
+        success: outcomes.failed === 0,
+        config_snapshot: { audience: "subscribers", due: due.length, outcomes },
+      })
+      .eq("id", sendRow.id);
+
+    const summary = { due: due.length, ...outcomes, listings: totalListings };
+    console.log("send-subscriber-digests complete:", summary);
+    return jsonResponse({ success: true, digest_send_id: sendRow.id, summary });
+  } catch (error) {
+    console.error("send-subscriber-digests error:", error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
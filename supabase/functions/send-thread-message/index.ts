@@ -0,0 +1,218 @@
+// Sends one message in an in-app thread (inbox under /account, "Message the
+// owner" on listing pages).
+//
+// POST { threadId, body }                          — reply in an existing thread
+// POST { listingId, isCommercial?, body }          — first message to a listing's owner
+//
+// Requires a signed-in user. The caller's side (inquirer / owner) is derived
+// from the thread, never taken from the request. A first message reuses the
+// caller's existing thread on that listing if there is one. The other side is
+// notified via _shared/messageThreads.ts#relayThreadMessage.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { showingContextFromEnv } from "../_shared/showings.ts";
+import {
+  appendThreadMessage,
+  loadThreadListing,
+  MAX_THREAD_MESSAGE_LENGTH,
+  relayThreadMessage,
+  THREAD_COLUMNS,
+  type MessageThreadRow,
+  type ThreadRole,
+} from "../_shared/messageThreads.ts";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_MESSAGES_PER_HOUR = 30;
+
+interface SendThreadMessageBody {
+  threadId?: string;
+  listingId?: string;
+  isCommercial?: boolean;
+  body?: string;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Missing authorization" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing Supabase configuration");
+      return jsonResponse({ error: "Database service not configured" }, 500);
+    }
+
+    const supabaseAuth = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: "Please sign in to send messages" }, 401);
+    }
+
+    let input: SendThreadMessageBody;
+    try {
+      input = await req.json();
+    } catch (_error) {
+      return jsonResponse({ error: "Invalid JSON" }, 400);
+    }
+
+    const body = input.body?.trim() ?? "";
+    if (!body) {
+      return jsonResponse({ error: "Message is empty" }, 400);
+    }
+    if (body.length > MAX_THREAD_MESSAGE_LENGTH) {
+      return jsonResponse({ error: "Message is too long" }, 400);
+    }
+    if (!input.threadId && !input.listingId) {
+      return jsonResponse({ error: "Missing threadId or listingId" }, 400);
+    }
+    if ((input.threadId && !UUID_RE.test(input.threadId)) || (input.listingId && !UUID_RE.test(input.listingId))) {
+      return jsonResponse({ error: "Invalid id format" }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const ctx = showingContextFromEnv(supabase);
+
+    // ----------------------------------------------------------------
+    // Rate limiting — fails open on query errors, same as the callback form.
+    // ----------------------------------------------------------------
+    try {
+      const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      const { count, error: countError } = await supabase
+        .from("thread_messages")
+        .select("id", { count: "exact", head: true })
+        .eq("sender_user_id", user.id)
+        .gt("created_at", oneHourAgo);
+
+      if (countError) {
+        console.error("Rate limit check (thread_messages) failed, failing open:", countError);
+      } else if ((count ?? 0) >= MAX_MESSAGES_PER_HOUR) {
+        return jsonResponse({ error: "You're sending messages too quickly. Please try again later." }, 429);
+      }
+    } catch (rateLimitErr) {
+      console.error("Rate limit check (thread_messages) threw, failing open:", rateLimitErr);
+    }
+
+    // ----------------------------------------------------------------
+    // Resolve the thread and the caller's side of it
+    // ----------------------------------------------------------------
+    let thread: MessageThreadRow | null = null;
+
+    if (input.threadId) {
+      const { data } = await supabase
+        .from("message_threads")
+        .select(THREAD_COLUMNS)
+        .eq("id", input.threadId)
+        .maybeSingle();
+      thread = data as MessageThreadRow | null;
+      if (!thread || (thread.inquirer_user_id !== user.id && thread.owner_user_id !== user.id)) {
+        return jsonResponse({ error: "Conversation not found" }, 404);
+      }
+    } else {
+      const isCommercial = input.isCommercial === true;
+      const listingColumn = isCommercial ? "commercial_listing_id" : "listing_id";
+
+      const { data: listingRow } = await supabase
+        .from(isCommercial ? "commercial_listings" : "listings")
+        .select("id, user_id, contact_name, is_active, approved")
+        .eq("id", input.listingId)
+        .maybeSingle();
+      if (!listingRow || !listingRow.is_active || !listingRow.approved) {
+        return jsonResponse({ error: "Listing not found" }, 404);
+      }
+      if (listingRow.user_id === user.id) {
+        return jsonResponse({ error: "You can't message yourself about your own listing" }, 400);
+      }
+
+      const { data: existing } = await supabase
+        .from("message_threads")
+        .select(THREAD_COLUMNS)
+        .eq(listingColumn, input.listingId)
+        .eq("inquirer_user_id", user.id)
+        .maybeSingle();
+      thread = existing as MessageThreadRow | null;
+
+      if (!thread) {
+        const { data: names } = await supabase
+          .from("profiles")
+          .select("id, full_name")
+          .in("id", [user.id, listingRow.user_id]);
+        const nameOf = (id: string) =>
+          (names ?? []).find((p: { id: string; full_name: string | null }) => p.id === id)?.full_name?.trim() || null;
+
+        const { data: created, error: createError } = await supabase
+          .from("message_threads")
+          .insert({
+            listing_id: isCommercial ? null : input.listingId,
+            commercial_listing_id: isCommercial ? input.listingId : null,
+            inquirer_user_id: user.id,
+            owner_user_id: listingRow.user_id,
+            inquirer_name: nameOf(user.id),
+            owner_name: listingRow.contact_name?.trim() || nameOf(listingRow.user_id),
+          })
+          .select(THREAD_COLUMNS)
+          .single();
+
+        if (createError && createError.code === "23505") {
+          // Two first messages raced; use the thread the other one created.
+          const { data: raced } = await supabase
+            .from("message_threads")
+            .select(THREAD_COLUMNS)
+            .eq(listingColumn, input.listingId)
+            .eq("inquirer_user_id", user.id)
+            .maybeSingle();
+          thread = raced as MessageThreadRow | null;
+        } else if (createError) {
+          console.error("Error creating message thread:", createError);
+          return jsonResponse({ error: "Could not start the conversation" }, 500);
+        } else {
+          thread = created as MessageThreadRow;
+        }
+      }
+      if (!thread) {
+        return jsonResponse({ error: "Could not start the conversation" }, 500);
+      }
+    }
+
+    const role: ThreadRole = thread.owner_user_id === user.id ? "owner" : "inquirer";
+    const listing = await loadThreadListing(ctx, thread);
+    if (!listing) {
+      return jsonResponse({ error: "Listing not found" }, 404);
+    }
+
+    const message = await appendThreadMessage(ctx, thread, role, body, "web");
+    await relayThreadMessage(ctx, thread, listing, role, body);
+
+    return jsonResponse({
+      success: true,
+      threadId: thread.id,
+      message: { id: message.id, created_at: message.created_at, sender_role: role, body, channel: "web" },
+    });
+  } catch (error) {
+    console.error("Error in send-thread-message:", error);
+    return jsonResponse({
+      error: "Internal error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    }, 500);
+  }
+});
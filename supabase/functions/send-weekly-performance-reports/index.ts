@@ -1,5 +1,10 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import { getOptedOutPhones, recordCarrierOptOut } from "../_shared/smsConsent.ts";
+import { getOptedOutUserIds } from "../_shared/notificationPreferences.ts";
+import { isSmsConfigured } from "../_shared/sms.ts";
+import { sendSmsViaOutbox } from "../_shared/outbox.ts";
+import { renderSms, type SmsTemplateVars } from "../_shared/smsTemplates.ts";
 
 interface ContactMetrics {
   contact_phone: string;
@@ -13,13 +18,6 @@ interface ContactMetrics {
   total_leads: number;
 }
 
-interface TwilioResponse {
-  sid: string;
-  status: string;
-  error_code?: string;
-  error_message?: string;
-}
-
 function formatPhoneForSMS(phone: string): string {
   const cleaned = phone.replace(/\D/g, "");
 
@@ -34,31 +32,18 @@ function formatPhoneForSMS(phone: string): string {
   return `+1${cleaned}`;
 }
 
-function buildPerformanceMessage(metrics: ContactMetrics): string {
-  const listingWord = metrics.listing_count === 1 ? 'listing' : 'listings';
-
-  const lines: string[] = [
-    `Hadirot Update:`,
-    `This week your ${metrics.listing_count} ${listingWord} got on average`
-  ];
-
-  if (metrics.avg_impressions > 0) {
-    lines.push(`${metrics.avg_impressions} impressions each`);
-  }
-
-  if (metrics.avg_views > 0) {
-    lines.push(`${metrics.avg_views} clicks each`);
-  }
-
-  if (metrics.total_leads > 0) {
-    lines.push(
-      `${metrics.total_leads} leads total ` +
-      `(${metrics.total_callbacks} callbacks, ` +
-      `${metrics.total_phone_reveals} requests for your phone number)`
-    );
-  }
-
-  return lines.join('\n');
+// Variables for the weekly_report template. Zero stats are passed blank so
+// the template drops their lines.
+function buildPerformanceVars(metrics: ContactMetrics): SmsTemplateVars {
+  return {
+    listing_count: metrics.listing_count,
+    listing_word: metrics.listing_count === 1 ? 'listing' : 'listings',
+    avg_impressions: metrics.avg_impressions > 0 ? metrics.avg_impressions : null,
+    avg_views: metrics.avg_views > 0 ? metrics.avg_views : null,
+    total_leads: metrics.total_leads > 0 ? metrics.total_leads : null,
+    total_callbacks: metrics.total_callbacks,
+    total_phone_reveals: metrics.total_phone_reveals,
+  };
 }
 
 const BATCH_SIZE = 10;
@@ -71,14 +56,11 @@ Deno.serve(async (req) => {
   try {
     console.log("Starting send-weekly-performance-reports job...");
 
-    const twilioAccountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
-    const twilioAuthToken = Deno.env.get("TWILIO_AUTH_TOKEN");
-    const twilioPhoneNumber = Deno.env.get("TWILIO_PHONE_NUMBER");
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
-    if (!twilioAccountSid || !twilioAuthToken || !twilioPhoneNumber) {
-      console.error("Missing Twilio configuration");
+    if (!isSmsConfigured()) {
+      console.error("Missing SMS provider configuration");
       return new Response(
         JSON.stringify({ error: "SMS service not configured" }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -100,14 +82,14 @@ Deno.serve(async (req) => {
     const [{ data: residentialListings, error: listingsError }, { data: commercialActive, error: commercialErr }] = await Promise.all([
       supabaseAdmin
         .from('listings')
-        .select('id, contact_phone')
+        .select('id, user_id, contact_phone')
         .eq('is_active', true)
         .eq('approved', true)
         .not('contact_phone', 'is', null)
         .not('user_id', 'is', null),
       supabaseAdmin
         .from('commercial_listings')
-        .select('id, contact_phone')
+        .select('id, user_id, contact_phone')
         .eq('is_active', true)
         .eq('approved', true)
         .not('contact_phone', 'is', null)
@@ -215,8 +197,13 @@ Deno.serve(async (req) => {
     }
 
     const contactMetricsMap = new Map<string, ContactMetrics>();
+    // Owners who turned off weekly reports in Account → Settings; their
+    // listings drop out of the report for a shared phone too.
+    const reportOptOuts = await getOptedOutUserIds(supabaseAdmin, "sms", "weekly_reports");
 
     for (const listing of activeListings) {
+      if (reportOptOuts.has(listing.user_id)) continue;
+
       const normalizedPhone = formatPhoneForSMS(listing.contact_phone);
       if (!/^\+1\d{10}$/.test(normalizedPhone)) {
         console.log(`Skipping listing ${listing.id}: contact_phone does not normalize to a valid US number`);
@@ -271,36 +258,28 @@ Deno.serve(async (req) => {
     let smsSent = 0;
     let smsErrors = 0;
 
-    for (let i = 0; i < metricsArray.length; i += BATCH_SIZE) {
-      const batch = metricsArray.slice(i, i + BATCH_SIZE);
+    const optedOutPhones = await getOptedOutPhones(
+      supabaseAdmin,
+      metricsArray.map((m) => formatPhoneForSMS(m.contact_phone)),
+    );
+    const recipients = metricsArray.filter((m) => !optedOutPhones.has(formatPhoneForSMS(m.contact_phone)));
+
+    const runDate = new Date().toISOString().slice(0, 10);
+    for (let i = 0; i < recipients.length; i += BATCH_SIZE) {
+      const batch = recipients.slice(i, i + BATCH_SIZE);
 
       const results = await Promise.allSettled(
         batch.map(async (metrics) => {
           const phoneNumber = formatPhoneForSMS(metrics.contact_phone);
-          const message = buildPerformanceMessage(metrics);
-
-          const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${twilioAccountSid}/Messages.json`;
-          const twilioAuth = btoa(`${twilioAccountSid}:${twilioAuthToken}`);
-          const statusCallbackUrl = `${supabaseUrl}/functions/v1/sms-status-webhook`;
-
-          const twilioResponse = await fetch(twilioUrl, {
-            method: "POST",
-            headers: {
-              "Authorization": `Basic ${twilioAuth}`,
-              "Content-Type": "application/x-www-form-urlencoded",
-            },
-            body: new URLSearchParams({
-              To: phoneNumber,
-              From: twilioPhoneNumber,
-              Body: message,
-              StatusCallback: statusCallbackUrl,
-            }),
-          });
+          const message = await renderSms(supabaseAdmin, "weekly_report", buildPerformanceVars(metrics));
 
-          const twilioData: TwilioResponse = await twilioResponse.json();
+          const smsResult = await sendSmsViaOutbox(supabaseAdmin, phoneNumber, message, "weekly_report", {
+            idempotencyKey: `weekly_report:${runDate}:${phoneNumber}`,
+          });
 
-          if (!twilioResponse.ok) {
-            throw new Error(`Twilio error for ${phoneNumber}: ${twilioData.error_message}`);
+          if (!smsResult.ok) {
+            await recordCarrierOptOut(supabaseAdmin, phoneNumber, smsResult);
+            throw new Error(`${smsResult.provider} error for ${phoneNumber}: ${smsResult.errorMessage}`);
           }
 
           try {
@@ -308,15 +287,15 @@ Deno.serve(async (req) => {
               direction: "outbound",
               phone_number: phoneNumber,
               message_body: message,
-              message_sid: twilioData.sid,
+              message_sid: smsResult.messageId,
               message_source: "weekly_report",
-              status: "sent",
+              status: smsResult.deferredUntil ? "queued" : "sent",
             });
           } catch (logErr) {
             console.error("Error logging SMS:", logErr);
           }
 
-          return twilioData.sid;
+          return smsResult.messageId;
         })
       );
 
@@ -332,6 +311,7 @@ Deno.serve(async (req) => {
 
     const summary = {
       totalContacts: metricsArray.length,
+      skippedOptedOut: metricsArray.length - recipients.length,
       smsSent,
       smsErrors,
       timestamp: new Date().toISOString(),
@@ -0,0 +1,139 @@
+// Sends a listings digest to everyone subscribed on WhatsApp (admin panel →
+// Digest → "Send on WhatsApp"). The text is what WhatsAppFormatter builds for
+// the copy-and-paste group posts; here it goes one-to-one through the
+// WhatsApp Business API instead.
+//
+// POST { text }
+//   — one message per whatsapp_contacts row with opted_in and
+//     receive_digest, through the outbox (send window, per-number rate limit,
+//     retries) and logged to sms_messages as 'whatsapp_digest'. Sending the
+//     same text twice on the same day doesn't message anyone twice.
+//
+// Admins only.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { sendSmsViaOutbox } from "../_shared/outbox.ts";
+import { isWhatsAppConfigured } from "../_shared/whatsapp.ts";
+
+const SOURCE_KEY = "whatsapp_digest";
+// WhatsApp's limit for a text message body.
+const MAX_TEXT_LENGTH = 4096;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function textHash(text: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+  return Array.from(digest.slice(0, 8), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Missing authorization" }, 401);
+    }
+
+    if (!isWhatsAppConfigured()) {
+      return jsonResponse({ error: "WhatsApp is not configured" }, 503);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing Supabase configuration");
+      return jsonResponse({ error: "Database service not configured" }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return jsonResponse({ error: "Invalid authorization" }, 401);
+    }
+
+    const { data: adminProfile } = await supabase
+      .from("profiles")
+      .select("is_admin")
+      .eq("id", user.id)
+      .maybeSingle();
+    if (adminProfile?.is_admin !== true) {
+      return jsonResponse({ error: "Admin privileges required" }, 403);
+    }
+
+    let input: { text?: string };
+    try {
+      input = await req.json();
+    } catch (_error) {
+      return jsonResponse({ error: "Invalid JSON" }, 400);
+    }
+
+    const text = input.text?.trim() ?? "";
+    if (!text) {
+      return jsonResponse({ error: "Digest is empty" }, 400);
+    }
+    if (text.length > MAX_TEXT_LENGTH) {
+      return jsonResponse({ error: `Digest is too long for WhatsApp (${text.length}/${MAX_TEXT_LENGTH} characters)` }, 400);
+    }
+
+    const { data: contacts, error: contactsError } = await supabase
+      .from("whatsapp_contacts")
+      .select("phone_number")
+      .eq("opted_in", true)
+      .eq("receive_digest", true);
+    if (contactsError) throw contactsError;
+
+    const idempotencyPrefix = `${SOURCE_KEY}:${new Date().toISOString().slice(0, 10)}:${await textHash(text)}`;
+    let sent = 0;
+    let deferred = 0;
+    let failed = 0;
+
+    for (const { phone_number: phone } of (contacts ?? []) as { phone_number: string }[]) {
+      const result = await sendSmsViaOutbox(supabase, phone, text, SOURCE_KEY, {
+        channel: "whatsapp",
+        idempotencyKey: `${idempotencyPrefix}:${phone}`,
+      });
+
+      const { error: logError } = await supabase.from("sms_messages").insert({
+        direction: "outbound",
+        phone_number: phone,
+        message_body: text,
+        message_sid: result.messageId,
+        message_source: SOURCE_KEY,
+        status: result.deferredUntil ? "queued" : result.ok ? "sent" : "failed",
+        channel: "whatsapp",
+      });
+      if (logError) console.error(`Error logging WhatsApp digest to ${phone}:`, logError);
+
+      if (!result.ok) {
+        console.error(`WhatsApp digest to ${phone} failed:`, result.errorCode, result.errorMessage);
+        failed++;
+      } else if (result.deferredUntil) {
+        deferred++;
+      } else {
+        sent++;
+      }
+    }
+
+    console.log(`WhatsApp digest by ${user.id}: ${sent} sent, ${deferred} queued, ${failed} failed`);
+    return jsonResponse({ success: true, recipients: contacts?.length ?? 0, sent, deferred, failed });
+  } catch (error) {
+    console.error("Error in send-whatsapp-digest:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,131 @@
+// Test harness for the fake SMS provider (_shared/sms.ts). Only live while
+// SMS_PROVIDER=fake, and service role only.
+//
+// GET    ?phone=+17185551234   messages to/from that number (all when omitted)
+// POST   { from, body, to? }   injects an inbound reply: the message is routed
+//                              through handle-renewal-sms-webhook exactly like
+//                              a real one, and the response lists the texts
+//                              the webhook sent back.
+// DELETE ?phone=...            clears the log (for that number when given)
+//
+// Typical run: trigger send-renewal-reminders or send-report-rented-sms,
+// GET the owner's number to read the prompt, POST their "YES" / "NO" reply,
+// then check the conversation and listing rows.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { FAKE_PROVIDER_NUMBER, formatPhoneForSMS } from "../_shared/sms.ts";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: "Supabase not configured" }, 500);
+    }
+    if (Deno.env.get("SMS_PROVIDER") !== "fake") {
+      return jsonResponse({ error: "Fake SMS provider is not enabled (set SMS_PROVIDER=fake)" }, 404);
+    }
+
+    const bearer = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+    if (bearer !== supabaseServiceKey) {
+      return jsonResponse({ error: "Forbidden: service role only" }, 403);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+    const url = new URL(req.url);
+    const phoneParam = url.searchParams.get("phone");
+    const phone = phoneParam ? formatPhoneForSMS(phoneParam) : null;
+    if (phoneParam && !phone) {
+      return jsonResponse({ error: "Invalid phone" }, 400);
+    }
+
+    if (req.method === "GET") {
+      let query = supabase
+        .from("sms_fake_messages")
+        .select("id, direction, from_number, to_number, body, message_id, created_at")
+        .order("created_at", { ascending: true })
+        .limit(500);
+      if (phone) query = query.or(`to_number.eq.${phone},from_number.eq.${phone}`);
+      const { data, error } = await query;
+      if (error) throw error;
+      return jsonResponse({ messages: data ?? [] });
+    }
+
+    if (req.method === "DELETE") {
+      let query = supabase.from("sms_fake_messages").delete();
+      query = phone
+        ? query.or(`to_number.eq.${phone},from_number.eq.${phone}`)
+        : query.not("id", "is", null);
+      const { error } = await query;
+      if (error) throw error;
+      return jsonResponse({ success: true });
+    }
+
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const input = await req.json().catch(() => ({}));
+    const from = formatPhoneForSMS(String(input.from ?? ""));
+    const body = String(input.body ?? "").trim();
+    if (!from || !body) {
+      return jsonResponse({ error: "from and body are required" }, 400);
+    }
+
+    const message = {
+      from,
+      to: input.to ? String(input.to) : FAKE_PROVIDER_NUMBER,
+      body,
+      messageId: `fake_${crypto.randomUUID()}`,
+    };
+    const injectedAt = new Date().toISOString();
+
+    const { error: logError } = await supabase.from("sms_fake_messages").insert({
+      direction: "inbound",
+      from_number: message.from,
+      to_number: message.to,
+      body: message.body,
+      message_id: message.messageId,
+    });
+    if (logError) throw logError;
+
+    const webhookResp = await fetch(`${supabaseUrl}/functions/v1/handle-renewal-sms-webhook?provider=fake`, {
+      method: "POST",
+      headers: { "Authorization": `Bearer ${supabaseServiceKey}`, "Content-Type": "application/json" },
+      body: JSON.stringify(message),
+    });
+
+    const { data: replies, error: repliesError } = await supabase
+      .from("sms_fake_messages")
+      .select("id, body, message_id, created_at")
+      .eq("direction", "outbound")
+      .eq("to_number", from)
+      .gte("created_at", injectedAt)
+      .order("created_at", { ascending: true });
+    if (repliesError) throw repliesError;
+
+    return jsonResponse({
+      success: webhookResp.ok,
+      webhookStatus: webhookResp.status,
+      messageId: message.messageId,
+      replies: replies ?? [],
+    });
+  } catch (error) {
+    console.error("sms-fake-provider error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
@@ -1,11 +1,16 @@
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
-import { sendViaZepto } from "../_shared/zepto.ts";
+import { sendEmailViaOutbox } from "../_shared/outbox.ts";
+import { recordCarrierOptOut } from "../_shared/smsConsent.ts";
+import { inboundSmsProvider } from "../_shared/sms.ts";
 
-// Twilio StatusCallback webhook. Twilio POSTs application/x-www-form-urlencoded
+// Delivery status webhook. Twilio POSTs application/x-www-form-urlencoded
 // with MessageSid + MessageStatus (queued|sending|sent|delivered|undelivered|failed)
-// and optionally ErrorCode. Before this existed, every outbound sms_messages row
-// stayed status='sent' forever — A2P filtering and invalid numbers were invisible.
+// and optionally ErrorCode; Telnyx (?provider=telnyx) posts JSON message
+// events, which _shared/sms.ts maps onto the same statuses, and
+// whatsapp-webhook re-posts WhatsApp statuses (?provider=whatsapp). Before this
+// existed, every outbound sms_messages row stayed status='sent' forever —
+// A2P filtering and invalid numbers were invisible.
 const TERMINAL_STATUSES = new Set(["delivered", "undelivered", "failed"]);
 
 Deno.serve(async (req) => {
@@ -13,19 +18,22 @@ Deno.serve(async (req) => {
     return new Response("ok", { headers: corsHeaders });
   }
 
-  // Twilio doesn't care about the response body, just a 2xx. Always return
-  // 200 with an empty body — even on internal errors — so Twilio never
-  // retries/backs off this webhook.
+  // The providers don't care about the response body, just a 2xx. Always
+  // return 200 with an empty body — even on internal errors — so they never
+  // retry/back off this webhook.
   try {
-    const formData = await req.formData();
-    const messageSid = formData.get("MessageSid")?.toString() || "";
-    const messageStatus = formData.get("MessageStatus")?.toString() || "";
-    const errorCode = formData.get("ErrorCode")?.toString() || "";
+    const provider = inboundSmsProvider(req);
+    if (provider.verifyWebhook && !await provider.verifyWebhook(req)) {
+      console.warn(`Rejected unsigned ${provider.name} status webhook`);
+      return new Response(null, { status: 401, headers: corsHeaders });
+    }
 
-    if (!messageSid || !messageStatus) {
-      console.error("Missing MessageSid or MessageStatus in status callback");
+    const event = await provider.parseStatus(req);
+    if (!event) {
+      console.error("Missing message id or status in status callback");
       return new Response(null, { status: 400, headers: corsHeaders });
     }
+    const { messageId: messageSid, status: messageStatus, errorCode } = event;
 
     // Only persist meaningful transitions — queued/sending/sent are noise
     // (sent is already the default we write at send time).
@@ -62,6 +70,11 @@ Deno.serve(async (req) => {
       console.error("Error updating sms_messages status:", updateError);
     }
 
+    // Carrier opt-outs can also arrive asynchronously, after the send was accepted.
+    if (event.optedOut && updatedRow?.phone_number) {
+      await recordCarrierOptOut(supabaseAdmin, updatedRow.phone_number, event);
+    }
+
     if (messageStatus === "undelivered" || messageStatus === "failed") {
       try {
         const { data: config } = await supabaseAdmin
@@ -79,12 +92,12 @@ Deno.serve(async (req) => {
             updatedRow?.message_source ? `Source: ${updatedRow.message_source}` : null,
           ].filter(Boolean).join("\n");
 
-          await sendViaZepto({
+          await sendEmailViaOutbox(supabaseAdmin, {
             to: config.admin_email,
             subject: "Hadirot SMS alert: message undelivered",
             html: `<p>An outbound SMS could not be delivered.</p><pre>${details}</pre>`,
             fromName: "Hadirot SMS System",
-          });
+          }, "sms_admin_alert", { respectSendWindow: false });
         }
       } catch (notifyError) {
         console.error("Error sending admin undelivered-SMS notification:", notifyError);
@@ -1,6 +1,7 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
 import Stripe from 'https://esm.sh/stripe@14?target=denonext';
 import { LISTING_SUBSCRIPTION_PRICES } from '../_shared/stripe-prices.ts';
+import { escapeHtml } from '../_shared/listingEmail.ts';
 
 const ZEPTO_API_URL = "https://api.zeptomail.com/v1.1/email";
 
@@ -48,17 +49,6 @@ async function sendEmail(to: string | string[], subject: string, html: string) {
   }
 }
 
-// Escape user-controlled strings (e.g. listing title) before interpolating into
-// email HTML. Prevents broken markup / link injection in notification emails.
-function escapeHtml(s: string): string {
-  return s
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
-}
-
 function brandWrap(title: string, bodyHtml: string) {
   return `
     <div style="font-family:Arial,sans-serif;background-color:#F7F9FC;padding:24px;">
@@ -0,0 +1,99 @@
+// The WhatsApp Business webhook (Meta Cloud API → "Callback URL").
+//
+//   GET   subscription handshake: echoes hub.challenge when hub.verify_token
+//         matches WHATSAPP_VERIFY_TOKEN.
+//   POST  message and status events, signed with X-Hub-Signature-256.
+//
+// Each inbound message opens WhatsApp's 24-hour window (whatsapp_contacts.
+// last_inbound_at) and is re-posted to handle-renewal-sms-webhook
+// ?provider=whatsapp, so WhatsApp replies run through exactly the same
+// renewal, report, showing and lister-command handlers as texts. Status
+// events go to sms-status-webhook ?provider=whatsapp. Both calls carry the
+// service role key, which is how _shared/whatsapp.ts tells them apart from
+// anything posted to those public URLs directly.
+//
+// Meta retries anything but a prompt 200, so after the signature check this
+// always returns 200. It also redelivers, so a message id already logged in
+// sms_messages is skipped.
+//
+// verify_jwt = false (see supabase/config.toml) — the signature IS the auth.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { parseWhatsAppWebhook, verifyWhatsAppSignature } from "../_shared/whatsapp.ts";
+import { recordWhatsAppInbound } from "../_shared/whatsappConsent.ts";
+
+Deno.serve(async (req) => {
+  const url = new URL(req.url);
+
+  if (req.method === "GET") {
+    const verifyToken = Deno.env.get("WHATSAPP_VERIFY_TOKEN");
+    if (
+      verifyToken &&
+      url.searchParams.get("hub.mode") === "subscribe" &&
+      url.searchParams.get("hub.verify_token") === verifyToken
+    ) {
+      return new Response(url.searchParams.get("hub.challenge") ?? "", { status: 200 });
+    }
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const rawBody = await req.text();
+  if (!await verifyWhatsAppSignature(rawBody, req.headers.get("X-Hub-Signature-256"))) {
+    console.warn("Rejected WhatsApp webhook with a missing or bad signature");
+    return new Response("Invalid signature", { status: 401 });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing Supabase configuration");
+      return new Response(null, { status: 200 });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const forward = async (fn: string, event: unknown) => {
+      const resp = await fetch(`${supabaseUrl}/functions/v1/${fn}?provider=whatsapp`, {
+        method: "POST",
+        headers: { "Authorization": `Bearer ${supabaseServiceKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify(event),
+      });
+      if (!resp.ok) console.error(`${fn} returned ${resp.status} for a WhatsApp event`);
+    };
+
+    const { messages, statuses } = parseWhatsAppWebhook(JSON.parse(rawBody));
+
+    for (const message of messages) {
+      const { data: seen } = await supabase
+        .from("sms_messages")
+        .select("id")
+        .eq("message_sid", message.messageId)
+        .eq("direction", "inbound")
+        .limit(1)
+        .maybeSingle();
+      if (seen) {
+        console.log(`Skipping redelivered WhatsApp message ${message.messageId}`);
+        continue;
+      }
+
+      await recordWhatsAppInbound(supabase, message.from);
+      console.log(`WhatsApp message from ${message.from}: ${message.body} (${message.messageId})`);
+      await forward("handle-renewal-sms-webhook", message);
+    }
+
+    for (const status of statuses) {
+      await forward("sms-status-webhook", status);
+    }
+  } catch (error) {
+    console.error("Error handling WhatsApp webhook:", error);
+  }
+
+  return new Response(null, { status: 200 });
+});
@@ -0,0 +1,187 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { normalizeEmail, suppressEmail } from "../_shared/emailSuppression.ts";
+
+// ZeptoMail webhook (Mail Agent → Webhooks) for bounce, complaint and
+// delivery events. Each event is logged in email_events, keyed by the
+// request id the send API returned, and addresses that can't or don't want
+// to receive mail go on the suppression list the outbox honours:
+//   - hard bounce or spam complaint: suppressed right away;
+//   - soft bounce: suppressed after SOFT_BOUNCE_LIMIT of them within
+//     SOFT_BOUNCE_WINDOW_DAYS with no delivery in between.
+//
+// ZeptoMail posts JSON:
+//   { event_name: ["hardbounce"], event_message: [{ request_id,
+//     email_info: { to: [{ email_address: { address } }], processed_time },
+//     event_data: [{ object: "hardbounce", details: [{ bounced_recipient,
+//     reason, diagnostic_message, time }] }] }] }
+//
+// POST /zepto-email-webhook?secret=<ZEPTO_WEBHOOK_SECRET>
+
+type EmailEventType = "delivered" | "hard_bounce" | "soft_bounce" | "complaint";
+
+const EVENT_TYPES: Record<string, EmailEventType> = {
+  hardbounce: "hard_bounce",
+  softbounce: "soft_bounce",
+  delivered: "delivered",
+  delivery: "delivered",
+  email_delivered: "delivered",
+  complaint: "complaint",
+  spam_complaint: "complaint",
+  feedback_loop: "complaint",
+};
+
+const SOFT_BOUNCE_LIMIT = 3;
+const SOFT_BOUNCE_WINDOW_DAYS = 30;
+
+interface ParsedEvent {
+  messageId: string | null;
+  recipient: string;
+  eventType: EmailEventType;
+  reason: string | null;
+  occurredAt: string;
+  // deno-lint-ignore no-explicit-any
+  payload: any;
+}
+
+// deno-lint-ignore no-explicit-any
+function parseEvents(body: any): ParsedEvent[] {
+  const names: string[] = Array.isArray(body?.event_name) ? body.event_name : [body?.event_name];
+  const messages = Array.isArray(body?.event_message) ? body.event_message : [];
+  const events: ParsedEvent[] = [];
+
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    const info = message?.email_info ?? {};
+    const messageId = message?.request_id ?? info.email_reference ?? null;
+    const dataList = Array.isArray(message?.event_data) ? message.event_data : [{}];
+
+    for (const data of dataList) {
+      const rawName = String(data?.object ?? names[i] ?? names[0] ?? "").toLowerCase();
+      const eventType = EVENT_TYPES[rawName];
+      if (!eventType) continue;
+
+      const details = Array.isArray(data?.details) && data.details.length > 0 ? data.details : [{}];
+      for (const detail of details) {
+        const recipients: string[] = detail?.bounced_recipient
+          ? [detail.bounced_recipient]
+          : (info.to ?? []).map((t: { email_address?: { address?: string } }) => t?.email_address?.address).filter(Boolean);
+        for (const recipient of recipients) {
+          events.push({
+            messageId,
+            recipient: normalizeEmail(recipient),
+            eventType,
+            reason: detail?.reason ?? detail?.diagnostic_message ?? null,
+            occurredAt: new Date(detail?.time ?? info.processed_time ?? Date.now()).toISOString(),
+            payload: { event: rawName, detail, subject: info.subject ?? null },
+          });
+        }
+      }
+    }
+  }
+
+  return events;
+}
+
+// deno-lint-ignore no-explicit-any
+async function shouldSuppressSoftBounce(supabase: any, recipient: string): Promise<boolean> {
+  const since = new Date(Date.now() - SOFT_BOUNCE_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: lastDelivery } = await supabase
+    .from("email_events")
+    .select("occurred_at")
+    .eq("recipient", recipient)
+    .eq("event_type", "delivered")
+    .gte("occurred_at", since)
+    .order("occurred_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { count, error } = await supabase
+    .from("email_events")
+    .select("id", { count: "exact", head: true })
+    .eq("recipient", recipient)
+    .eq("event_type", "soft_bounce")
+    .gte("occurred_at", lastDelivery?.occurred_at ?? since);
+  if (error) {
+    console.error("Error counting soft bounces:", error);
+    return false;
+  }
+  return (count ?? 0) >= SOFT_BOUNCE_LIMIT;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const expectedSecret = Deno.env.get("ZEPTO_WEBHOOK_SECRET");
+  const secret = new URL(req.url).searchParams.get("secret");
+  if (!expectedSecret || secret !== expectedSecret) {
+    console.error("Rejected ZeptoMail webhook: bad or missing secret");
+    return new Response(null, { status: 401, headers: corsHeaders });
+  }
+
+  // ZeptoMail retries anything but a 2xx; past authentication, always
+  // acknowledge so one malformed event doesn't replay forever.
+  try {
+    const body = await req.json().catch(() => null);
+    const events = parseEvents(body);
+    if (events.length === 0) {
+      console.log("ZeptoMail webhook with no events we track:", body?.event_name);
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing Supabase configuration");
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    for (const event of events) {
+      const { data: inserted, error: insertError } = await supabase
+        .from("email_events")
+        .upsert({
+          message_id: event.messageId,
+          recipient: event.recipient,
+          event_type: event.eventType,
+          reason: event.reason,
+          payload: event.payload,
+          occurred_at: event.occurredAt,
+        }, { onConflict: "message_id,recipient,event_type", ignoreDuplicates: true })
+        .select("id")
+        .maybeSingle();
+
+      if (insertError) {
+        console.error("Error recording email event:", insertError);
+        continue;
+      }
+      // A replayed event: already handled.
+      if (!inserted) continue;
+
+      console.log(`Email ${event.eventType} for ${event.recipient} (${event.messageId ?? "no id"})`);
+
+      if (event.eventType === "hard_bounce" || event.eventType === "complaint") {
+        await suppressEmail(supabase, event.recipient, event.eventType, event.reason, inserted.id);
+      } else if (event.eventType === "soft_bounce" && await shouldSuppressSoftBounce(supabase, event.recipient)) {
+        await suppressEmail(
+          supabase,
+          event.recipient,
+          "soft_bounce",
+          `${SOFT_BOUNCE_LIMIT} soft bounces in ${SOFT_BOUNCE_WINDOW_DAYS} days. Last: ${event.reason ?? "unknown"}`,
+          inserted.id,
+        );
+      }
+    }
+
+    return new Response(null, { status: 200, headers: corsHeaders });
+  } catch (error) {
+    console.error("Unexpected error in zepto-email-webhook:", error);
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+});
@@ -0,0 +1,159 @@
+/*
+  # Saved searches with new-match alerts
+
+  Tenants can save the current /browse or /sales filter state as a named
+  search and get told when a newly approved listing matches it.
+
+  1. New Tables
+    - `saved_searches`
+      - `filters` is the FilterState JSON from useBrowseFilters, stored as-is so
+        "open this search" can rebuild the exact /browse URL.
+      - `search_mode` mirrors useBrowseFilters(mode): 'rental' (/browse) or
+        'sale' (/sales).
+      - `channel` is where alerts go (email via ZeptoMail, sms via Twilio to
+        profiles.phone). `frequency` is instant, daily or weekly.
+      - `last_notified_at` anchors the weekly digest window.
+    - `saved_search_matches`
+      - One row per (saved search, listing) pair, written by
+        send-saved-search-alerts when a listing is approved. `notified_at` stays
+        NULL until the match has gone out (instant sends stamp it right away;
+        daily/weekly searches are drained by the digest cron).
+      - `listing_id` is polymorphic (listings OR commercial_listings,
+        discriminated by `is_commercial`) — same pattern as sms_messages, so
+        there is no FK on it.
+      - UNIQUE(saved_search_id, listing_id) is the dedup: re-approving a
+        listing never alerts the same search twice.
+
+  2. Security
+    - RLS on both tables. Users manage their own searches and can read the
+      matches for them. Admins can read everything. Edge functions use the
+      service role and bypass RLS.
+
+  3. Cron
+    - `send-saved-search-alerts-digest` runs daily at 9:00 AM ET and drains
+      queued daily/weekly matches.
+*/
+
+-- =============================================================
+-- saved_searches
+-- =============================================================
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  search_mode text NOT NULL DEFAULT 'rental' CHECK (search_mode IN ('rental', 'sale')),
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  channel text NOT NULL DEFAULT 'email' CHECK (channel IN ('email', 'sms')),
+  frequency text NOT NULL DEFAULT 'instant' CHECK (frequency IN ('instant', 'daily', 'weekly')),
+  is_active boolean NOT NULL DEFAULT true,
+  last_notified_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_active_mode
+  ON saved_searches(search_mode, frequency)
+  WHERE is_active = true;
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own saved searches"
+  ON saved_searches FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own saved searches"
+  ON saved_searches FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own saved searches"
+  ON saved_searches FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own saved searches"
+  ON saved_searches FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all saved searches"
+  ON saved_searches FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_saved_searches_updated_at') THEN
+    CREATE TRIGGER set_saved_searches_updated_at
+      BEFORE UPDATE ON saved_searches
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- =============================================================
+-- saved_search_matches
+-- =============================================================
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  saved_search_id uuid NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  listing_id uuid NOT NULL,
+  is_commercial boolean NOT NULL DEFAULT false,
+  matched_at timestamptz NOT NULL DEFAULT now(),
+  notified_at timestamptz,
+  CONSTRAINT saved_search_matches_unique UNIQUE (saved_search_id, listing_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_pending
+  ON saved_search_matches(saved_search_id, matched_at)
+  WHERE notified_at IS NULL;
+
+ALTER TABLE saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view matches for own saved searches"
+  ON saved_search_matches FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM saved_searches s
+    WHERE s.id = saved_search_matches.saved_search_id AND s.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all saved search matches"
+  ON saved_search_matches FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+-- =============================================================
+-- Daily digest cron (pattern: 20260527150600_schedule_paid_listing_reminders)
+-- =============================================================
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('send-saved-search-alerts-digest');
+EXCEPTION
+  WHEN undefined_table THEN NULL;
+  WHEN undefined_function THEN NULL;
+  WHEN OTHERS THEN NULL;
+END $$;
+
+SELECT cron.schedule(
+  'send-saved-search-alerts-digest',
+  '0 9 * * *',
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.supabase_url') || '/functions/v1/send-saved-search-alerts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+    ),
+    body := '{"mode":"digest"}'::jsonb,
+    timeout_milliseconds := 60000
+  );
+  $$
+);
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_schema = 'cron' AND table_name = 'job' AND column_name = 'timezone') THEN
+    UPDATE cron.job SET timezone = 'America/New_York'
+    WHERE jobname = 'send-saved-search-alerts-digest';
+  END IF;
+END $$;
@@ -0,0 +1,283 @@
+/*
+  # Listing price history + price-drop tracking
+
+  updateListing / updateCommercialListing overwrite price / asking_price in
+  place, so a drop from $3,200 to $2,900 left no trace. Every change to the
+  effective price is now recorded by trigger — that covers the edit wizard,
+  the admin panel, SMS renewals and anything else that writes the row.
+
+  1. New Tables
+    - `listing_price_changes`
+      - One row per effective-price change (price for rentals, asking_price
+        for sales), plus one row for the opening price on INSERT so the
+        timeline has a starting point.
+      - `listing_id` is polymorphic (listings OR commercial_listings,
+        discriminated by `is_commercial`) — same pattern as sms_messages, so
+        there is no FK on it. Rows are cleaned up by the delete triggers below.
+      - `old_price` / `new_price` are NULL while the listing is "call for price".
+      - `favoriters_notified_at` is stamped by send-price-drop-alerts once the
+        people who favorited the listing have been told about a drop.
+
+  2. Modified Tables
+    - `listings`, `commercial_listings`
+      - `previous_price` — the price before the most recent drop.
+      - `price_reduced_at` — when the most recent drop happened. Cleared when
+        the price goes back up, so "recently reduced" never shows a listing
+        that is now more expensive than it was.
+
+  3. Security
+    - RLS on listing_price_changes. Price history is public (it's derivable
+      from what was on the site), so anyone can read rows for listings that
+      are live; owners see their own; admins see all. Writes only happen from
+      the SECURITY DEFINER trigger.
+
+  4. Cron
+    - send-price-drop-alerts runs every 30 minutes and emails favoriters.
+*/
+
+-- =============================================================
+-- Columns on the listing tables
+-- =============================================================
+ALTER TABLE listings
+  ADD COLUMN IF NOT EXISTS previous_price numeric,
+  ADD COLUMN IF NOT EXISTS price_reduced_at timestamptz;
+
+ALTER TABLE commercial_listings
+  ADD COLUMN IF NOT EXISTS previous_price numeric,
+  ADD COLUMN IF NOT EXISTS price_reduced_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_listings_price_reduced_at
+  ON listings(price_reduced_at DESC)
+  WHERE price_reduced_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_commercial_listings_price_reduced_at
+  ON commercial_listings(price_reduced_at DESC)
+  WHERE price_reduced_at IS NOT NULL;
+
+-- =============================================================
+-- listing_price_changes
+-- =============================================================
+CREATE TABLE IF NOT EXISTS listing_price_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  listing_id uuid NOT NULL,
+  is_commercial boolean NOT NULL DEFAULT false,
+  listing_type text,
+  old_price numeric,
+  new_price numeric,
+  changed_at timestamptz NOT NULL DEFAULT now(),
+  changed_by uuid,
+  favoriters_notified_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_listing_price_changes_listing
+  ON listing_price_changes(listing_id, changed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_listing_price_changes_pending_drops
+  ON listing_price_changes(changed_at)
+  WHERE favoriters_notified_at IS NULL AND new_price < old_price;
+
+ALTER TABLE listing_price_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view price history of live listings"
+  ON listing_price_changes FOR SELECT TO anon, authenticated
+  USING (
+    (NOT is_commercial AND EXISTS (
+      SELECT 1 FROM listings l
+      WHERE l.id = listing_price_changes.listing_id AND l.is_active = true AND l.approved = true
+    ))
+    OR (is_commercial AND EXISTS (
+      SELECT 1 FROM commercial_listings c
+      WHERE c.id = listing_price_changes.listing_id AND c.is_active = true AND c.approved = true
+    ))
+  );
+
+CREATE POLICY "Users can view price history of own listings"
+  ON listing_price_changes FOR SELECT TO authenticated
+  USING (
+    (NOT is_commercial AND EXISTS (
+      SELECT 1 FROM listings l
+      WHERE l.id = listing_price_changes.listing_id AND l.user_id = auth.uid()
+    ))
+    OR (is_commercial AND EXISTS (
+      SELECT 1 FROM commercial_listings c
+      WHERE c.id = listing_price_changes.listing_id AND c.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Admins can view all price history"
+  ON listing_price_changes FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+-- =============================================================
+-- Triggers
+-- =============================================================
+
+-- BEFORE UPDATE: maintain previous_price / price_reduced_at on the row itself.
+CREATE OR REPLACE FUNCTION public.track_listing_price_drop()
+  RETURNS trigger
+  LANGUAGE plpgsql
+AS $function$
+DECLARE
+  v_old numeric := CASE WHEN OLD.listing_type = 'sale' THEN OLD.asking_price ELSE OLD.price END;
+  v_new numeric := CASE WHEN NEW.listing_type = 'sale' THEN NEW.asking_price ELSE NEW.price END;
+BEGIN
+  IF OLD.listing_type IS DISTINCT FROM NEW.listing_type THEN
+    NEW.previous_price := NULL;
+    NEW.price_reduced_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF v_old IS NOT DISTINCT FROM v_new THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_old IS NOT NULL AND v_new IS NOT NULL AND v_new < v_old THEN
+    NEW.previous_price := v_old;
+    NEW.price_reduced_at := now();
+  ELSIF v_new IS NULL OR (v_old IS NOT NULL AND v_new > v_old) THEN
+    -- Went back up or switched to call-for-price: no longer "reduced".
+    NEW.previous_price := NULL;
+    NEW.price_reduced_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- AFTER INSERT OR UPDATE: append to listing_price_changes.
+CREATE OR REPLACE FUNCTION public.record_listing_price_change()
+  RETURNS trigger
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_is_commercial boolean := TG_TABLE_NAME = 'commercial_listings';
+  v_old numeric;
+  v_new numeric := CASE WHEN NEW.listing_type = 'sale' THEN NEW.asking_price ELSE NEW.price END;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO listing_price_changes (listing_id, is_commercial, listing_type, old_price, new_price, changed_by, favoriters_notified_at)
+    VALUES (NEW.id, v_is_commercial, NEW.listing_type, NULL, v_new, auth.uid(), now());
+    RETURN NEW;
+  END IF;
+
+  v_old := CASE WHEN OLD.listing_type = 'sale' THEN OLD.asking_price ELSE OLD.price END;
+  IF v_old IS NOT DISTINCT FROM v_new AND OLD.listing_type IS NOT DISTINCT FROM NEW.listing_type THEN
+    RETURN NEW;
+  END IF;
+
+  -- A rental→sale switch starts a new series; old_price from the other
+  -- series would read as a bogus drop/raise.
+  IF OLD.listing_type IS DISTINCT FROM NEW.listing_type THEN
+    v_old := NULL;
+  END IF;
+
+  INSERT INTO listing_price_changes (listing_id, is_commercial, listing_type, old_price, new_price, changed_by, favoriters_notified_at)
+  VALUES (
+    NEW.id,
+    v_is_commercial,
+    NEW.listing_type,
+    v_old,
+    v_new,
+    auth.uid(),
+    -- Only drops are queued for favoriters.
+    CASE WHEN v_old IS NOT NULL AND v_new IS NOT NULL AND v_new < v_old THEN NULL ELSE now() END
+  );
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.delete_listing_price_changes()
+  RETURNS trigger
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path TO 'public'
+AS $function$
+BEGIN
+  DELETE FROM listing_price_changes
+  WHERE listing_id = OLD.id
+    AND is_commercial = (TG_TABLE_NAME = 'commercial_listings');
+  RETURN OLD;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS track_listing_price_drop_trigger ON listings;
+CREATE TRIGGER track_listing_price_drop_trigger
+  BEFORE UPDATE OF price, asking_price, listing_type ON listings
+  FOR EACH ROW EXECUTE FUNCTION track_listing_price_drop();
+
+DROP TRIGGER IF EXISTS record_listing_price_change_trigger ON listings;
+CREATE TRIGGER record_listing_price_change_trigger
+  AFTER INSERT OR UPDATE OF price, asking_price, listing_type ON listings
+  FOR EACH ROW EXECUTE FUNCTION record_listing_price_change();
+
+DROP TRIGGER IF EXISTS delete_listing_price_changes_trigger ON listings;
+CREATE TRIGGER delete_listing_price_changes_trigger
+  AFTER DELETE ON listings
+  FOR EACH ROW EXECUTE FUNCTION delete_listing_price_changes();
+
+DROP TRIGGER IF EXISTS track_listing_price_drop_trigger ON commercial_listings;
+CREATE TRIGGER track_listing_price_drop_trigger
+  BEFORE UPDATE OF price, asking_price, listing_type ON commercial_listings
+  FOR EACH ROW EXECUTE FUNCTION track_listing_price_drop();
+
+DROP TRIGGER IF EXISTS record_listing_price_change_trigger ON commercial_listings;
+CREATE TRIGGER record_listing_price_change_trigger
+  AFTER INSERT OR UPDATE OF price, asking_price, listing_type ON commercial_listings
+  FOR EACH ROW EXECUTE FUNCTION record_listing_price_change();
+
+DROP TRIGGER IF EXISTS delete_listing_price_changes_trigger ON commercial_listings;
+CREATE TRIGGER delete_listing_price_changes_trigger
+  AFTER DELETE ON commercial_listings
+  FOR EACH ROW EXECUTE FUNCTION delete_listing_price_changes();
+
+-- Seed an opening-price row for existing listings so their timeline starts
+-- somewhere. Marked notified so the alerts cron ignores them.
+INSERT INTO listing_price_changes (listing_id, is_commercial, listing_type, old_price, new_price, changed_at, favoriters_notified_at)
+SELECT l.id, false, l.listing_type, NULL,
+       CASE WHEN l.listing_type = 'sale' THEN l.asking_price ELSE l.price END,
+       l.created_at, now()
+FROM listings l
+WHERE NOT EXISTS (SELECT 1 FROM listing_price_changes pc WHERE pc.listing_id = l.id AND NOT pc.is_commercial);
+
+INSERT INTO listing_price_changes (listing_id, is_commercial, listing_type, old_price, new_price, changed_at, favoriters_notified_at)
+SELECT c.id, true, c.listing_type, NULL,
+       CASE WHEN c.listing_type = 'sale' THEN c.asking_price ELSE c.price END,
+       c.created_at, now()
+FROM commercial_listings c
+WHERE NOT EXISTS (SELECT 1 FROM listing_price_changes pc WHERE pc.listing_id = c.id AND pc.is_commercial);
+
+COMMENT ON TABLE listing_price_changes IS
+  'Effective-price history for listings and commercial_listings (polymorphic on is_commercial). Written only by record_listing_price_change(). Drops are queued for send-price-drop-alerts via favoriters_notified_at IS NULL.';
+
+-- =============================================================
+-- Favoriter alerts cron (pattern: 20261018010000_saved_searches)
+-- =============================================================
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('send-price-drop-alerts');
+EXCEPTION
+  WHEN undefined_table THEN NULL;
+  WHEN undefined_function THEN NULL;
+  WHEN OTHERS THEN NULL;
+END $$;
+
+SELECT cron.schedule(
+  'send-price-drop-alerts',
+  '*/30 * * * *',
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.supabase_url') || '/functions/v1/send-price-drop-alerts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 60000
+  );
+  $$
+);
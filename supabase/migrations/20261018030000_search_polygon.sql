@@ -0,0 +1,91 @@
+/*
+  # Polygon search for browse
+
+  Lets the browse pages restrict results to a user-drawn shape or to the union
+  of one or more neighborhood / ZIP boundaries instead of only a rectangular
+  bounds box.
+
+  The shape is passed as jsonb: an array of rings, each ring an array of
+  [lng, lat] pairs (the same encoding the frontend keeps in the `poly` URL
+  param). A listing matches when its point falls inside ANY ring. Rings with
+  fewer than three vertices are ignored, and only the first 20 rings are used.
+
+  There is no PostGIS in this project, so containment uses the native
+  geometric types (point <@ polygon). At Brooklyn scale the planar
+  approximation is well within a block.
+
+  1. New Functions
+    - `search_polygon_shapes(jsonb)` - rings -> SETOF polygon
+    - `listings_in_search_polygon(jsonb)` - SETOF listings inside the shape
+    - `commercial_listings_in_search_polygon(jsonb)` - SETOF commercial_listings inside the shape
+
+  2. Security
+    - The listing functions are SECURITY INVOKER, so callers only ever see
+      rows the existing listings / commercial_listings RLS policies allow.
+      Because they return the table row types, PostgREST filters, ordering,
+      ranges and embeds chain onto the RPC exactly as they do on the table.
+*/
+
+CREATE OR REPLACE FUNCTION search_polygon_shapes(p_polygon jsonb)
+RETURNS SETOF polygon
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (
+    '(' || string_agg(
+      format('(%s,%s)', (v.value->>0)::double precision, (v.value->>1)::double precision),
+      ',' ORDER BY v.ord
+    ) || ')'
+  )::polygon
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(p_polygon) = 'array' THEN p_polygon ELSE '[]'::jsonb END
+  ) WITH ORDINALITY AS r(ring, ring_ord)
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(r.ring) = 'array' THEN r.ring ELSE '[]'::jsonb END
+  ) WITH ORDINALITY AS v(value, ord)
+  WHERE r.ring_ord <= 20
+  GROUP BY r.ring_ord
+  HAVING count(*) >= 3;
+$$;
+
+CREATE OR REPLACE FUNCTION listings_in_search_polygon(p_polygon jsonb)
+RETURNS SETOF listings
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH shapes AS (
+    SELECT search_polygon_shapes(p_polygon) AS shape
+  )
+  SELECT l.*
+  FROM listings l
+  WHERE l.latitude IS NOT NULL
+    AND l.longitude IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM shapes s
+      WHERE point(l.longitude::double precision, l.latitude::double precision) <@ s.shape
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION commercial_listings_in_search_polygon(p_polygon jsonb)
+RETURNS SETOF commercial_listings
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH shapes AS (
+    SELECT search_polygon_shapes(p_polygon) AS shape
+  )
+  SELECT c.*
+  FROM commercial_listings c
+  WHERE c.latitude IS NOT NULL
+    AND c.longitude IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM shapes s
+      WHERE point(c.longitude::double precision, c.latitude::double precision) <@ s.shape
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION search_polygon_shapes(jsonb) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION listings_in_search_polygon(jsonb) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION commercial_listings_in_search_polygon(jsonb) TO anon, authenticated;
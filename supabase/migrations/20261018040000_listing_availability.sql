@@ -0,0 +1,25 @@
+/*
+  # Move-in / availability date on residential listings
+
+  Renters looking for a Pesach or summer move-in had no way to search by
+  when a unit frees up — listings only carried lease_length.
+
+  1. Modified Tables
+    - `listings`
+      - `available_date` (date, nullable) — the first day the unit can be
+        moved into. "Available now" is stored as the day it was chosen, so
+        any date on or before today reads as immediate and a single range
+        comparison answers both "available by" and "available between".
+        NULL means the poster didn't say; those listings are left out when
+        a renter filters by move-in date.
+
+  commercial_listings already has `available_date` (text, which also holds
+  the legacy 'now' / '30_days' values), so it is unchanged.
+*/
+
+ALTER TABLE listings
+  ADD COLUMN IF NOT EXISTS available_date date;
+
+CREATE INDEX IF NOT EXISTS idx_listings_available_date
+  ON listings(available_date)
+  WHERE available_date IS NOT NULL;
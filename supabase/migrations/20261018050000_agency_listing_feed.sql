@@ -0,0 +1,84 @@
+/*
+  # Token-protected listing feed per agency
+
+  Agencies want their listings syndicated to other sites (and their own
+  website). The agency-listing-feed edge function serves an XML feed of an
+  agency's active listings; this table holds the secret token that has to be
+  in the feed URL.
+
+  1. New Tables
+    - `agency_feed_tokens`
+      - One row per agency. `token` is a 48-char random hex string; the feed
+        URL is `/functions/v1/agency-listing-feed?agency=<slug>&token=<token>`.
+      - Kept out of `agencies` on purpose: agencies is publicly readable, and
+        the token would leak through any `select('*')`.
+      - `rotated_at` is when the current token was issued. Regenerating
+        immediately invalidates the old URL.
+
+  2. Functions
+    - `regenerate_agency_feed_token(p_agency_id)` — owner or admin only.
+      Creates or replaces the token and returns it.
+
+  3. Security
+    - RLS on. The agency owner and admins can read the token. There are no
+      write policies: tokens are only written by the SECURITY DEFINER RPC, and
+      the feed function reads them with the service role.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS agency_feed_tokens (
+  agency_id uuid PRIMARY KEY REFERENCES agencies(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  rotated_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE agency_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agency owners can view own feed token"
+  ON agency_feed_tokens FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM agencies a
+    WHERE a.id = agency_feed_tokens.agency_id AND a.owner_profile_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all feed tokens"
+  ON agency_feed_tokens FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+CREATE OR REPLACE FUNCTION public.regenerate_agency_feed_token(p_agency_id uuid)
+ RETURNS text
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public', 'extensions'
+AS $function$
+DECLARE
+  v_owner_id uuid;
+  v_token text;
+BEGIN
+  SELECT a.owner_profile_id INTO v_owner_id FROM agencies a WHERE a.id = p_agency_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agency not found';
+  END IF;
+
+  IF v_owner_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true) THEN
+    RAISE EXCEPTION 'Access denied. You do not manage this agency.';
+  END IF;
+
+  v_token := encode(gen_random_bytes(24), 'hex');
+
+  INSERT INTO agency_feed_tokens (agency_id, token, rotated_at)
+  VALUES (p_agency_id, v_token, now())
+  ON CONFLICT (agency_id) DO UPDATE
+    SET token = EXCLUDED.token,
+        rotated_at = EXCLUDED.rotated_at;
+
+  RETURN v_token;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.regenerate_agency_feed_token(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.regenerate_agency_feed_token(uuid) TO authenticated;
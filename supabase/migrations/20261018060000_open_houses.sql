@@ -0,0 +1,83 @@
+/*
+  # Open houses for sale listings
+
+  Sellers and agents can attach one or more open-house slots to a sale
+  listing (residential or commercial). Slots are shown on the listing detail
+  page with an .ics "add to calendar" download, drive the "Open house this
+  week" filter/badge on /sales, and are included in the enhanced digest.
+
+  1. New Tables
+    - `open_houses`
+      - Exactly one of `listing_id` / `commercial_listing_id` is set — same
+        two-FK pattern as listing_contact_submissions, so deleting the listing
+        cascades its slots away.
+      - `starts_at` / `ends_at` are absolute timestamps; the UI enters and
+        shows them in America/New_York.
+      - `notes` is free text ("Ring bell 2", "Shoes off").
+
+  2. Security
+    - RLS enabled. Anyone can read slots (they're shown on public listing
+      pages). Inserts/updates/deletes are limited to the listing owner and
+      admins. Edge functions use the service role and bypass RLS.
+*/
+
+CREATE TABLE IF NOT EXISTS open_houses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  listing_id uuid REFERENCES listings(id) ON DELETE CASCADE,
+  commercial_listing_id uuid REFERENCES commercial_listings(id) ON DELETE CASCADE,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  notes text CHECK (notes IS NULL OR char_length(notes) <= 500),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT open_houses_one_listing CHECK (
+    (listing_id IS NOT NULL AND commercial_listing_id IS NULL)
+    OR (listing_id IS NULL AND commercial_listing_id IS NOT NULL)
+  ),
+  CONSTRAINT open_houses_valid_range CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_open_houses_listing
+  ON open_houses(listing_id, starts_at)
+  WHERE listing_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_open_houses_commercial_listing
+  ON open_houses(commercial_listing_id, starts_at)
+  WHERE commercial_listing_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_open_houses_ends_at ON open_houses(ends_at);
+
+ALTER TABLE open_houses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view open houses"
+  ON open_houses FOR SELECT TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Owners and admins can insert open houses"
+  ON open_houses FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM listings l WHERE l.id = open_houses.listing_id AND l.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM commercial_listings c WHERE c.id = open_houses.commercial_listing_id AND c.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+CREATE POLICY "Owners and admins can update open houses"
+  ON open_houses FOR UPDATE TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM listings l WHERE l.id = open_houses.listing_id AND l.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM commercial_listings c WHERE c.id = open_houses.commercial_listing_id AND c.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM listings l WHERE l.id = open_houses.listing_id AND l.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM commercial_listings c WHERE c.id = open_houses.commercial_listing_id AND c.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+CREATE POLICY "Owners and admins can delete open houses"
+  ON open_houses FOR DELETE TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM listings l WHERE l.id = open_houses.listing_id AND l.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM commercial_listings c WHERE c.id = open_houses.commercial_listing_id AND c.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
@@ -0,0 +1,215 @@
+/*
+  # Showing appointments between tenants/buyers and listers
+
+  Listers publish availability windows on a listing; visitors pick a viewing
+  slot inside one of those windows from the listing page. Both sides get
+  SMS/email confirmations with a manage link (reschedule / cancel), and the
+  lister can also reply CONFIRM or CANCEL to the SMS — that reply is routed
+  through the existing listing_renewal_conversations model in
+  handle-renewal-sms-webhook.
+
+  1. New Tables
+    - `showing_availability`
+      - Exactly one of `listing_id` / `commercial_listing_id` is set (same
+        two-FK pattern as open_houses).
+      - A window (`starts_at` → `ends_at`) is cut into bookable slots of
+        `slot_minutes` each. The UI enters and shows them in America/New_York.
+    - `showing_requests`
+      - One row per requested viewing. `status` is requested → confirmed, or
+        cancelled by either side (`cancelled_by`). A reschedule moves the slot
+        in place and puts the request back to `requested`.
+      - `requester_token` / `lister_token` are the secrets in the two manage
+        links; the public manage-showing function looks a request up by either.
+
+  2. Functions
+    - `get_showing_busy_slots(p_listing_id)` — SECURITY DEFINER, returns the
+      upcoming requested/confirmed slot times for a listing (no requester
+      details) so the public booking widget can hide taken slots.
+
+  3. Constraints
+    - Partial unique index on (listing, starts_at) for live requests — two
+      visitors can't hold the same slot.
+    - `listing_renewal_conversations_state_check` gains
+      `awaiting_showing_confirmation` (see 20260702000000 for why this CHECK
+      has to be kept in step with the webhook).
+
+  4. Security
+    - RLS on both tables. Availability is public to read and owner/admin to
+      write. Requests are readable by the listing owner, the requester (when
+      signed in) and admins; all writes go through edge functions using the
+      service role.
+    - The manage tokens are not readable by clients (same as the
+      message_threads reply tokens): a signed-in requester could otherwise
+      read their own request's lister_token and act as the lister. The
+      dashboard manages requests by id through manage-showing instead.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ============================================================================
+-- showing_availability
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS showing_availability (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  listing_id uuid REFERENCES listings(id) ON DELETE CASCADE,
+  commercial_listing_id uuid REFERENCES commercial_listings(id) ON DELETE CASCADE,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  slot_minutes integer NOT NULL DEFAULT 30 CHECK (slot_minutes IN (15, 20, 30, 45, 60)),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT showing_availability_one_listing CHECK (
+    (listing_id IS NOT NULL AND commercial_listing_id IS NULL)
+    OR (listing_id IS NULL AND commercial_listing_id IS NOT NULL)
+  ),
+  CONSTRAINT showing_availability_valid_range CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_showing_availability_listing
+  ON showing_availability(listing_id, starts_at)
+  WHERE listing_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_showing_availability_commercial_listing
+  ON showing_availability(commercial_listing_id, starts_at)
+  WHERE commercial_listing_id IS NOT NULL;
+
+ALTER TABLE showing_availability ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view showing availability"
+  ON showing_availability FOR SELECT TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Owners and admins can insert showing availability"
+  ON showing_availability FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM listings l WHERE l.id = showing_availability.listing_id AND l.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM commercial_listings c WHERE c.id = showing_availability.commercial_listing_id AND c.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+CREATE POLICY "Owners and admins can delete showing availability"
+  ON showing_availability FOR DELETE TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM listings l WHERE l.id = showing_availability.listing_id AND l.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM commercial_listings c WHERE c.id = showing_availability.commercial_listing_id AND c.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+-- ============================================================================
+-- showing_requests
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS showing_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  listing_id uuid REFERENCES listings(id) ON DELETE CASCADE,
+  commercial_listing_id uuid REFERENCES commercial_listings(id) ON DELETE CASCADE,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  requester_name text NOT NULL CHECK (char_length(requester_name) <= 200),
+  requester_phone text NOT NULL,
+  requester_email text CHECK (requester_email IS NULL OR char_length(requester_email) <= 320),
+  requester_user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  message text CHECK (message IS NULL OR char_length(message) <= 500),
+  status text NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'confirmed', 'cancelled')),
+  cancelled_by text CHECK (cancelled_by IS NULL OR cancelled_by IN ('requester', 'lister')),
+  requester_token text NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  lister_token text NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  confirmed_at timestamptz,
+  cancelled_at timestamptz,
+  rescheduled_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT showing_requests_one_listing CHECK (
+    (listing_id IS NOT NULL AND commercial_listing_id IS NULL)
+    OR (listing_id IS NULL AND commercial_listing_id IS NOT NULL)
+  ),
+  CONSTRAINT showing_requests_valid_range CHECK (ends_at > starts_at)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_showing_requests_live_slot
+  ON showing_requests(COALESCE(listing_id, commercial_listing_id), starts_at)
+  WHERE status IN ('requested', 'confirmed');
+
+CREATE INDEX IF NOT EXISTS idx_showing_requests_listing
+  ON showing_requests(listing_id, starts_at)
+  WHERE listing_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_showing_requests_commercial_listing
+  ON showing_requests(commercial_listing_id, starts_at)
+  WHERE commercial_listing_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_showing_requests_requester_phone
+  ON showing_requests(requester_phone, created_at DESC);
+
+ALTER TABLE showing_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners, requesters and admins can view showing requests"
+  ON showing_requests FOR SELECT TO authenticated
+  USING (
+    requester_user_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM listings l WHERE l.id = showing_requests.listing_id AND l.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM commercial_listings c WHERE c.id = showing_requests.commercial_listing_id AND c.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+-- A column-level REVOKE is a no-op while the table-level grant stands, so
+-- drop that and grant back everything but the manage tokens.
+REVOKE SELECT ON showing_requests FROM anon, authenticated;
+GRANT SELECT (
+  id, listing_id, commercial_listing_id, starts_at, ends_at, requester_name,
+  requester_phone, requester_email, requester_user_id, message, status,
+  cancelled_by, confirmed_at, cancelled_at, rescheduled_at, created_at,
+  updated_at
+) ON showing_requests TO authenticated;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'update_showing_requests_updated_at'
+  ) THEN
+    CREATE TRIGGER update_showing_requests_updated_at
+      BEFORE UPDATE ON showing_requests
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- ============================================================================
+-- Busy slots for the public booking widget
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_showing_busy_slots(p_listing_id uuid)
+ RETURNS TABLE(starts_at timestamptz, ends_at timestamptz)
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT r.starts_at, r.ends_at
+  FROM showing_requests r
+  WHERE (r.listing_id = p_listing_id OR r.commercial_listing_id = p_listing_id)
+    AND r.status IN ('requested', 'confirmed')
+    AND r.ends_at > now()
+  ORDER BY r.starts_at;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_showing_busy_slots(uuid) TO anon, authenticated;
+
+-- ============================================================================
+-- SMS conversation state for lister CONFIRM / CANCEL replies
+-- ============================================================================
+
+ALTER TABLE listing_renewal_conversations
+  DROP CONSTRAINT IF EXISTS listing_renewal_conversations_state_check;
+
+ALTER TABLE listing_renewal_conversations
+  ADD CONSTRAINT listing_renewal_conversations_state_check
+  CHECK (state = ANY (ARRAY[
+    'pending', 'awaiting_availability', 'awaiting_hadirot_question',
+    'completed', 'timeout', 'expired_link', 'error',
+    'awaiting_report_response', 'callback_sent',
+    'awaiting_listing_selection', 'awaiting_disambiguation',
+    -- showing requests (20261018070000_showing_appointments):
+    'awaiting_showing_confirmation'
+  ]::text[]));
@@ -0,0 +1,232 @@
+/*
+  # In-app message threads between inquirers and listing owners
+
+  Callback requests (send-listing-contact-sms) are a one-shot SMS with no
+  record on the site. This adds a threaded inbox: a signed-in tenant/buyer
+  messages the owner from the listing page, the owner answers from
+  /account?tab=messages or by replying to the SMS / email relay, and every
+  message lands in the same thread attached to the listing.
+
+  1. New Tables
+    - `message_threads`
+      - One thread per (inquirer, listing). Exactly one of `listing_id` /
+        `commercial_listing_id` is set (same two-FK pattern as open_houses).
+      - `inquirer_name` / `owner_name` are display names captured when the
+        thread starts, so neither side needs read access to the other's
+        profile.
+      - `last_message_*` columns are maintained by a trigger on
+        `thread_messages` so the inbox list and unread counts are one query.
+      - `inquirer_last_read_at` / `owner_last_read_at` drive unread state; a
+        thread is unread for a side when the newest message came from the
+        other side after that side last opened it.
+      - `owner_reply_token` / `inquirer_reply_token` are the secrets in the
+        relay emails' reply-to address (thread+<token>@...), so an emailed
+        reply can be attributed without a session.
+    - `thread_messages`
+      - `sender_role` is 'inquirer' or 'owner'; `channel` records whether it
+        was written on the web, or arrived as an SMS / email reply.
+
+  2. Functions
+    - `mark_message_thread_read(p_thread_id)` — stamps the caller's side as
+      read.
+    - `get_unread_message_thread_count()` — unread threads for the caller
+      (header badge).
+
+  3. Constraints
+    - `listing_renewal_conversations_state_check` gains
+      `awaiting_message_reply` (see 20260702000000 for why this CHECK has to
+      be kept in step with the webhook).
+
+  4. Security
+    - RLS on both tables: participants and admins can read. All writes go
+      through the send-thread-message / inbound-message-email edge functions
+      and the SMS webhook, which use the service role and send the relays.
+    - The reply tokens are not readable by clients at all: RLS filters rows,
+      not columns, so with a table-wide SELECT grant an inquirer could read
+      the owner's token and email a reply as the owner. anon / authenticated
+      get SELECT on every other column only; the edge functions read the
+      tokens with the service role.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ============================================================================
+-- message_threads
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS message_threads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  listing_id uuid REFERENCES listings(id) ON DELETE CASCADE,
+  commercial_listing_id uuid REFERENCES commercial_listings(id) ON DELETE CASCADE,
+  inquirer_user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  owner_user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  inquirer_name text,
+  owner_name text,
+  last_message_at timestamptz NOT NULL DEFAULT now(),
+  last_message_preview text,
+  last_message_role text CHECK (last_message_role IS NULL OR last_message_role IN ('inquirer', 'owner')),
+  inquirer_last_read_at timestamptz NOT NULL DEFAULT now(),
+  owner_last_read_at timestamptz,
+  inquirer_reply_token text NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  owner_reply_token text NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT message_threads_one_listing CHECK (
+    (listing_id IS NOT NULL AND commercial_listing_id IS NULL)
+    OR (listing_id IS NULL AND commercial_listing_id IS NOT NULL)
+  ),
+  CONSTRAINT message_threads_distinct_parties CHECK (inquirer_user_id <> owner_user_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_threads_inquirer_listing
+  ON message_threads(inquirer_user_id, listing_id)
+  WHERE listing_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_threads_inquirer_commercial_listing
+  ON message_threads(inquirer_user_id, commercial_listing_id)
+  WHERE commercial_listing_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_message_threads_owner
+  ON message_threads(owner_user_id, last_message_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_message_threads_inquirer
+  ON message_threads(inquirer_user_id, last_message_at DESC);
+
+ALTER TABLE message_threads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants and admins can view message threads"
+  ON message_threads FOR SELECT TO authenticated
+  USING (
+    inquirer_user_id = auth.uid()
+    OR owner_user_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+-- A column-level REVOKE is a no-op while the table-level grant stands, so
+-- drop that and grant back everything but the reply tokens.
+REVOKE SELECT ON message_threads FROM anon, authenticated;
+GRANT SELECT (
+  id, listing_id, commercial_listing_id, inquirer_user_id, owner_user_id,
+  inquirer_name, owner_name, last_message_at, last_message_preview,
+  last_message_role, inquirer_last_read_at, owner_last_read_at, created_at
+) ON message_threads TO authenticated;
+
+-- ============================================================================
+-- thread_messages
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS thread_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id uuid NOT NULL REFERENCES message_threads(id) ON DELETE CASCADE,
+  sender_role text NOT NULL CHECK (sender_role IN ('inquirer', 'owner')),
+  sender_user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  body text NOT NULL CHECK (char_length(body) BETWEEN 1 AND 2000),
+  channel text NOT NULL DEFAULT 'web' CHECK (channel IN ('web', 'sms', 'email')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_thread_messages_thread
+  ON thread_messages(thread_id, created_at);
+
+ALTER TABLE thread_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants and admins can view thread messages"
+  ON thread_messages FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM message_threads t
+      WHERE t.id = thread_messages.thread_id
+        AND (t.inquirer_user_id = auth.uid() OR t.owner_user_id = auth.uid())
+    )
+    OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+-- Keep the thread's summary columns in step with its newest message. The
+-- sender has obviously read their own message, so their side is marked read.
+CREATE OR REPLACE FUNCTION public.touch_message_thread()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE message_threads
+  SET last_message_at = NEW.created_at,
+      last_message_preview = left(NEW.body, 140),
+      last_message_role = NEW.sender_role,
+      inquirer_last_read_at = CASE WHEN NEW.sender_role = 'inquirer' THEN NEW.created_at ELSE inquirer_last_read_at END,
+      owner_last_read_at = CASE WHEN NEW.sender_role = 'owner' THEN NEW.created_at ELSE owner_last_read_at END
+  WHERE id = NEW.thread_id;
+  RETURN NEW;
+END;
+$function$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'touch_message_thread_on_insert'
+  ) THEN
+    CREATE TRIGGER touch_message_thread_on_insert
+      AFTER INSERT ON thread_messages
+      FOR EACH ROW EXECUTE FUNCTION touch_message_thread();
+  END IF;
+END $$;
+
+-- ============================================================================
+-- Read state
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.mark_message_thread_read(p_thread_id uuid)
+ RETURNS void
+ LANGUAGE sql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  UPDATE message_threads
+  SET inquirer_last_read_at = CASE WHEN inquirer_user_id = auth.uid() THEN now() ELSE inquirer_last_read_at END,
+      owner_last_read_at = CASE WHEN owner_user_id = auth.uid() THEN now() ELSE owner_last_read_at END
+  WHERE id = p_thread_id
+    AND (inquirer_user_id = auth.uid() OR owner_user_id = auth.uid());
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_unread_message_thread_count()
+ RETURNS integer
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT count(*)::integer
+  FROM message_threads t
+  WHERE (
+      t.inquirer_user_id = auth.uid()
+      AND t.last_message_role = 'owner'
+      AND t.last_message_at > t.inquirer_last_read_at
+    ) OR (
+      t.owner_user_id = auth.uid()
+      AND t.last_message_role = 'inquirer'
+      AND (t.owner_last_read_at IS NULL OR t.last_message_at > t.owner_last_read_at)
+    );
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.mark_message_thread_read(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_unread_message_thread_count() TO authenticated;
+
+-- ============================================================================
+-- SMS conversation state for owner replies to the relay
+-- ============================================================================
+
+ALTER TABLE listing_renewal_conversations
+  DROP CONSTRAINT IF EXISTS listing_renewal_conversations_state_check;
+
+ALTER TABLE listing_renewal_conversations
+  ADD CONSTRAINT listing_renewal_conversations_state_check
+  CHECK (state = ANY (ARRAY[
+    'pending', 'awaiting_availability', 'awaiting_hadirot_question',
+    'completed', 'timeout', 'expired_link', 'error',
+    'awaiting_report_response', 'callback_sent',
+    'awaiting_listing_selection', 'awaiting_disambiguation',
+    -- showing requests (20261018070000_showing_appointments):
+    'awaiting_showing_confirmation',
+    -- message relay (20261018080000_message_threads):
+    'awaiting_message_reply'
+  ]::text[]));
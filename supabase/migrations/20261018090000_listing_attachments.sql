@@ -0,0 +1,161 @@
+/*
+  # Floor plans, documents and virtual tour links on listings
+
+  Listings only modelled photos plus one `video_url`. Commercial tenants and
+  buyers keep asking for floor plans, rent rolls, offering memoranda and
+  certificates of occupancy, so owners can now attach typed files and links
+  to residential, sale and commercial listings.
+
+  1. New Tables
+    - `listing_attachments`
+      - Exactly one of `listing_id` / `commercial_listing_id` is set (same
+        two-FK pattern as open_houses).
+      - `kind`:
+        - 'floor_plan'   — an image (shown in the "Floor plan" tab of the
+                           photo carousel, public `file_url`) or a PDF
+                           (private `file_path`, listed with the documents).
+        - 'document'     — a PDF or scan in the private `listing-documents`
+                           bucket (`file_path`); downloaded via a short-lived
+                           signed URL.
+        - 'virtual_tour' — an external 3D / virtual tour link (`url`).
+      - `requires_login` hides a document behind sign-in, like the phone
+        reveal on the listing page.
+
+  2. Storage
+    - New private `listing-documents` bucket.
+      - Uploads land in `user_{uid}/temp/` and are moved to
+        `{listingId}/…` (residential) or `commercial/{listingId}/…` by the
+        finalize-listing-attachments edge function after
+        _shared/validateFileUpload.ts#validateAttachment passes.
+      - Reads are allowed only for objects that belong to an attachment row,
+        and only to signed-in users when that row has `requires_login`.
+    - Image floor plans go to the existing public `listing-images` bucket
+      under the listing's prefix, so the listing cleanup jobs remove them
+      with the photos.
+
+  3. Security
+    - RLS on `listing_attachments`: anyone can read (they're shown on
+      public listing pages). Owners and admins can update and delete; owners
+      and admins can insert tour links directly. File rows are only written
+      by the edge function (service role), after validation.
+*/
+
+-- ============================================================================
+-- listing_attachments
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS listing_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  listing_id uuid REFERENCES listings(id) ON DELETE CASCADE,
+  commercial_listing_id uuid REFERENCES commercial_listings(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('floor_plan', 'document', 'virtual_tour')),
+  title text CHECK (title IS NULL OR char_length(title) <= 120),
+  file_url text,
+  file_path text UNIQUE,
+  url text CHECK (url IS NULL OR url ~* '^https?://'),
+  mime_type text,
+  file_size integer CHECK (file_size IS NULL OR file_size >= 0),
+  requires_login boolean NOT NULL DEFAULT false,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT listing_attachments_one_listing CHECK (
+    (listing_id IS NOT NULL AND commercial_listing_id IS NULL)
+    OR (listing_id IS NULL AND commercial_listing_id IS NOT NULL)
+  ),
+  CONSTRAINT listing_attachments_kind_source CHECK (
+    (kind = 'virtual_tour' AND url IS NOT NULL AND file_url IS NULL AND file_path IS NULL)
+    OR (kind = 'document' AND file_path IS NOT NULL AND file_url IS NULL AND url IS NULL)
+    OR (kind = 'floor_plan' AND url IS NULL AND (file_url IS NOT NULL) <> (file_path IS NOT NULL))
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_listing_attachments_listing
+  ON listing_attachments(listing_id, kind, sort_order)
+  WHERE listing_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_listing_attachments_commercial_listing
+  ON listing_attachments(commercial_listing_id, kind, sort_order)
+  WHERE commercial_listing_id IS NOT NULL;
+
+ALTER TABLE listing_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view listing attachments"
+  ON listing_attachments FOR SELECT TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Owners and admins can add virtual tour links"
+  ON listing_attachments FOR INSERT TO authenticated
+  WITH CHECK (
+    kind = 'virtual_tour'
+    AND (
+      EXISTS (SELECT 1 FROM listings l WHERE l.id = listing_attachments.listing_id AND l.user_id = auth.uid())
+      OR EXISTS (SELECT 1 FROM commercial_listings c WHERE c.id = listing_attachments.commercial_listing_id AND c.user_id = auth.uid())
+      OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+    )
+  );
+
+CREATE POLICY "Owners and admins can update listing attachments"
+  ON listing_attachments FOR UPDATE TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM listings l WHERE l.id = listing_attachments.listing_id AND l.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM commercial_listings c WHERE c.id = listing_attachments.commercial_listing_id AND c.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM listings l WHERE l.id = listing_attachments.listing_id AND l.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM commercial_listings c WHERE c.id = listing_attachments.commercial_listing_id AND c.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+CREATE POLICY "Owners and admins can delete listing attachments"
+  ON listing_attachments FOR DELETE TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM listings l WHERE l.id = listing_attachments.listing_id AND l.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM commercial_listings c WHERE c.id = listing_attachments.commercial_listing_id AND c.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+-- ============================================================================
+-- listing-documents storage bucket (private)
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('listing-documents', 'listing-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload temp listing documents"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'listing-documents'
+    AND (storage.foldername(name))[1] = 'user_' || auth.uid()::text
+    AND (storage.foldername(name))[2] = 'temp'
+  );
+
+CREATE POLICY "Listing documents are readable per attachment visibility"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'listing-documents'
+    AND EXISTS (
+      SELECT 1 FROM listing_attachments a
+      WHERE a.file_path = storage.objects.name
+        AND (a.requires_login = false OR auth.uid() IS NOT NULL)
+    )
+  );
+
+CREATE POLICY "Owners and admins can delete listing documents"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'listing-documents'
+    AND EXISTS (
+      SELECT 1 FROM listing_attachments a
+      WHERE a.file_path = storage.objects.name
+        AND (
+          EXISTS (SELECT 1 FROM listings l WHERE l.id = a.listing_id AND l.user_id = auth.uid())
+          OR EXISTS (SELECT 1 FROM commercial_listings c WHERE c.id = a.commercial_listing_id AND c.user_id = auth.uid())
+          OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+        )
+    )
+  );
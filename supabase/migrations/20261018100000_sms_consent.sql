@@ -0,0 +1,138 @@
+/*
+  # Per-phone SMS consent / opt-out registry
+
+  Every function that texts (renewal reminders, paid-listing reminders,
+  weekly reports, report-rented, callback requests, saved-search alerts,
+  showings, message relay) called Twilio on its own, and the inbound webhook
+  had no idea what STOP meant. This adds one registry all senders check
+  before sending, kept up to date by the STOP / START / HELP keywords in
+  handle-renewal-sms-webhook (see _shared/smsConsent.ts).
+
+  1. New Tables
+    - `sms_consent`
+      - One row per phone number (E.164), created the first time the number
+        opts out, opts back in, or is blocked by the carrier.
+      - `opted_out` is the current state; `opted_out_at` / `opted_in_at`
+        are the latest transitions.
+      - `reason`:
+        - 'keyword' — the number texted STOP (or START) to us; `keyword`
+          holds the exact word.
+        - 'carrier' — Twilio refused a send with error 21610 (the number
+          opted out at the carrier level).
+        - 'admin'   — added by an admin, e.g. after an email complaint;
+          `note` says why.
+    - `sms_consent_events`
+      - Append-only audit trail, written by a trigger on every change of
+        `sms_consent.opted_out`, so a number's history survives later
+        opt-ins.
+
+  2. Security
+    - RLS on both tables. Admins can read both and can add / update
+      `sms_consent` rows from the admin panel (opting a number out by hand).
+      Edge functions use the service role.
+*/
+
+-- ============================================================================
+-- sms_consent
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sms_consent (
+  phone_number text PRIMARY KEY CHECK (phone_number ~ '^\+[0-9]{8,15}$'),
+  opted_out boolean NOT NULL DEFAULT true,
+  opted_out_at timestamptz,
+  opted_in_at timestamptz,
+  reason text CHECK (reason IS NULL OR reason IN ('keyword', 'carrier', 'admin')),
+  keyword text,
+  note text CHECK (note IS NULL OR char_length(note) <= 500),
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_consent_opted_out
+  ON sms_consent(opted_out_at DESC)
+  WHERE opted_out = true;
+
+ALTER TABLE sms_consent ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view sms consent"
+  ON sms_consent FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+CREATE POLICY "Admins can insert sms consent"
+  ON sms_consent FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+CREATE POLICY "Admins can update sms consent"
+  ON sms_consent FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+-- ============================================================================
+-- sms_consent_events (audit trail)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sms_consent_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone_number text NOT NULL,
+  action text NOT NULL CHECK (action IN ('opt_out', 'opt_in')),
+  reason text,
+  keyword text,
+  note text,
+  actor_user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_consent_events_phone
+  ON sms_consent_events(phone_number, created_at DESC);
+
+ALTER TABLE sms_consent_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view sms consent events"
+  ON sms_consent_events FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+-- Stamp the transition time and append to the audit trail whenever the
+-- opted_out state changes (including the row's first insert).
+CREATE OR REPLACE FUNCTION public.log_sms_consent_change()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.opted_out IS NOT DISTINCT FROM OLD.opted_out THEN
+    NEW.updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF NEW.opted_out THEN
+    NEW.opted_out_at := now();
+  ELSE
+    NEW.opted_in_at := now();
+  END IF;
+  NEW.updated_at := now();
+
+  INSERT INTO sms_consent_events (phone_number, action, reason, keyword, note, actor_user_id)
+  VALUES (
+    NEW.phone_number,
+    CASE WHEN NEW.opted_out THEN 'opt_out' ELSE 'opt_in' END,
+    NEW.reason,
+    NEW.keyword,
+    NEW.note,
+    NEW.updated_by
+  );
+  RETURN NEW;
+END;
+$function$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'log_sms_consent_change_on_write'
+  ) THEN
+    CREATE TRIGGER log_sms_consent_change_on_write
+      BEFORE INSERT OR UPDATE ON sms_consent
+      FOR EACH ROW EXECUTE FUNCTION log_sms_consent_change();
+  END IF;
+END $$;
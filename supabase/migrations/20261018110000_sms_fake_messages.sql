@@ -0,0 +1,39 @@
+/*
+  # Fake SMS provider message log
+
+  The SMS senders now go through a provider layer
+  (supabase/functions/_shared/sms.ts). Setting SMS_PROVIDER=fake on a local
+  or staging project swaps Twilio for a fake provider that texts nobody and
+  records every message here instead. The sms-fake-provider function reads
+  this log and injects inbound replies, so the renewal / report-rented
+  conversations can be exercised end to end without a phone.
+
+  1. New Tables
+    - `sms_fake_messages`
+      - `direction`: 'outbound' (sent by an edge function) or 'inbound'
+        (injected through sms-fake-provider).
+      - `message_id` is the fake provider id (`fake_<uuid>`), the value
+        written to `sms_messages.message_sid` for outbound rows.
+
+  2. Security
+    - RLS enabled with no policies: only the service role (edge functions)
+      reads or writes it.
+*/
+
+CREATE TABLE IF NOT EXISTS sms_fake_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  direction text NOT NULL CHECK (direction IN ('outbound', 'inbound')),
+  from_number text NOT NULL,
+  to_number text NOT NULL,
+  body text NOT NULL,
+  message_id text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_fake_messages_to_number
+  ON sms_fake_messages (to_number, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_sms_fake_messages_from_number
+  ON sms_fake_messages (from_number, created_at DESC);
+
+ALTER TABLE sms_fake_messages ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,209 @@
+/*
+  # Editable SMS message templates
+
+  Every SMS body (renewal prompts, the weekly performance report, paid-listing
+  reminders, callback notifications, ...) was a string literal in edge
+  function code, so a wording change needed a deploy. The copy now lives
+  here; the senders fill in the placeholders through
+  supabase/functions/_shared/smsTemplates.ts and fall back to the same
+  default text there if a row is missing.
+
+  1. New Tables
+    - `sms_templates`
+      - One row per message, keyed by a stable `key` the edge functions use.
+      - `body` holds the copy with `{{placeholder}}` variables; `variables`
+        lists the placeholders the sender fills in for that message (the
+        admin editor only offers and accepts those).
+      - `version` is bumped by a trigger on every body change;
+        `change_note` / `updated_by` describe the change.
+    - `sms_template_versions`
+      - Every body a template has ever had, written by the same trigger, so
+        bad copy can be rolled back (a rollback is just a new version with an
+        old body).
+
+  2. Seed
+    - The 12 messages the senders use today, with their current wording.
+
+  3. Security
+    - RLS on both tables. Admins can read both and update templates; edge
+      functions read with the service role.
+*/
+
+-- ============================================================================
+-- sms_templates
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sms_templates (
+  key text PRIMARY KEY,
+  name text NOT NULL,
+  description text,
+  body text NOT NULL CHECK (length(btrim(body)) > 0 AND length(body) <= 1600),
+  variables text[] NOT NULL DEFAULT '{}',
+  version integer NOT NULL DEFAULT 1,
+  change_note text,
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE sms_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view sms templates"
+  ON sms_templates FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+CREATE POLICY "Admins can update sms templates"
+  ON sms_templates FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+-- ============================================================================
+-- sms_template_versions (history)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sms_template_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_key text NOT NULL,
+  version integer NOT NULL,
+  body text NOT NULL,
+  change_note text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (template_key, version)
+);
+
+ALTER TABLE sms_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view sms template versions"
+  ON sms_template_versions FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+-- Bump the version and append to the history whenever the body changes
+-- (including the row's first insert).
+CREATE OR REPLACE FUNCTION public.log_sms_template_version()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.body IS NOT DISTINCT FROM OLD.body THEN
+      NEW.version := OLD.version;
+      NEW.updated_at := now();
+      RETURN NEW;
+    END IF;
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := 1;
+  END IF;
+  NEW.updated_at := now();
+
+  INSERT INTO sms_template_versions (template_key, version, body, change_note, created_by)
+  VALUES (NEW.key, NEW.version, NEW.body, NEW.change_note, NEW.updated_by);
+  RETURN NEW;
+END;
+$function$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'log_sms_template_version_on_write'
+  ) THEN
+    CREATE TRIGGER log_sms_template_version_on_write
+      BEFORE INSERT OR UPDATE ON sms_templates
+      FOR EACH ROW EXECUTE FUNCTION log_sms_template_version();
+  END IF;
+END $$;
+
+-- ============================================================================
+-- Seed: current copy (mirrors SMS_TEMPLATE_DEFAULTS in _shared/smsTemplates.ts)
+-- ============================================================================
+
+INSERT INTO sms_templates (key, name, description, body, variables)
+VALUES
+  (
+    'renewal_single',
+    'Renewal reminder (one listing)',
+    'send-renewal-reminders: a single listing expiring in 5 days. Replies YES / NO are handled by the SMS webhook.',
+    E'Hadirot Alert: Your listing at {{listing}} expires in {{days_left}}. Is the listing still available? Reply YES or NO.',
+    ARRAY['listing', 'days_left', 'expires_on']
+  ),
+  (
+    'renewal_batch',
+    'Renewal reminder (several listings)',
+    'send-renewal-reminders: one message for every listing expiring on the same phone. The "+N more" line only appears past 10 listings.',
+    E'Hadirot Alert: You have {{listing_count}} listings expiring soon:\n{{listing_list}}\n(+{{more_count}} more - manage at hadirot.com/dashboard)\nAre they all still available? Reply YES to keep all, NO if none are, or the numbers that are no longer available (e.g. 2).',
+    ARRAY['listing_count', 'listing_list', 'more_count']
+  ),
+  (
+    'report_rented',
+    'Reported rented / sold',
+    'send-report-rented-sms: a visitor reported the listing as rented or sold. Replies YES / NO are handled by the SMS webhook.',
+    E'Hadirot Alert: We received a report that your listing - {{listing}} for {{price}} - has been {{rented_or_sold}}. Is it still available? Reply YES to keep active or NO to deactivate. If you don''t respond, we will deactivate in 24 hours.',
+    ARRAY['listing', 'price', 'rented_or_sold']
+  ),
+  (
+    'weekly_report',
+    'Weekly performance report',
+    'send-weekly-performance-reports. The impressions / clicks / leads lines are left out when the number is zero.',
+    E'Hadirot Update:\nThis week your {{listing_count}} {{listing_word}} got on average\n{{avg_impressions}} impressions each\n{{avg_views}} clicks each\n{{total_leads}} leads total ({{total_callbacks}} callbacks, {{total_phone_reveals}} requests for your phone number)',
+    ARRAY['listing_count', 'listing_word', 'avg_impressions', 'avg_views', 'total_leads', 'total_callbacks', 'total_phone_reveals']
+  ),
+  (
+    'paid_trial_3day',
+    'Free trial ends in 3 days',
+    'send-paid-listing-reminders: individual trial listing, 3 days before the trial ends.',
+    E'Hadirot Alert: Your free trial for the listing at {{listing}} ends in 3 days. Pay $25 to keep it live: {{pay_link}}',
+    ARRAY['listing', 'expires_on', 'pay_link']
+  ),
+  (
+    'paid_trial_dayof',
+    'Free trial ends today',
+    'send-paid-listing-reminders: individual trial listing, the day the trial ends.',
+    E'Hadirot Alert: Your free trial for the listing at {{listing}} ends today. Pay $25 to keep it live: {{pay_link}}',
+    ARRAY['listing', 'expires_on', 'pay_link']
+  ),
+  (
+    'paid_renew_3day',
+    'Paid listing expires in 3 days',
+    'send-paid-listing-reminders: paid listing, 3 days before paid_until.',
+    E'Hadirot Alert: Your listing at {{listing}} expires in 3 days. Renew for {{renewal_price}}/30 days: {{pay_link}}',
+    ARRAY['listing', 'expires_on', 'renewal_price', 'pay_link']
+  ),
+  (
+    'paid_renew_dayof',
+    'Paid listing expires today',
+    'send-paid-listing-reminders: paid listing, the day of paid_until.',
+    E'Hadirot Alert: Your listing at {{listing}} expires today. Renew for {{renewal_price}}: {{pay_link}}',
+    ARRAY['listing', 'expires_on', 'renewal_price', 'pay_link']
+  ),
+  (
+    'paid_reactivate',
+    'Reactivate after 3 days off',
+    'send-paid-listing-reminders: paid / trial listing deactivated 3 days ago.',
+    E'Hadirot Alert: Your listing at {{listing}} has been off for 3 days. Reactivate for {{renewal_price}}: {{pay_link}}',
+    ARRAY['listing', 'renewal_price', 'pay_link']
+  ),
+  (
+    'callback_rental',
+    'Callback request (rental / commercial)',
+    'send-listing-contact-sms: a visitor asked the lister to call them back. The link line is left out when no short link could be created.',
+    E'Hadirot Alert: {{caller_name}} wants a call about your {{listing}} ({{price}})\nCall: {{caller_phone}}\n{{listing_link}}\nIf this property is no longer available, reply RENTED.',
+    ARRAY['caller_name', 'listing', 'price', 'caller_phone', 'listing_link']
+  ),
+  (
+    'callback_sale',
+    'Callback request (sale)',
+    'send-listing-contact-sms, for sale listings.',
+    E'Hadirot Alert: {{caller_name}} wants a call about your {{listing}} ({{price}})\nCall: {{caller_phone}}\n{{listing_link}}\nIf this property is no longer available, please log into hadirot.com/dashboard to update the status.',
+    ARRAY['caller_name', 'listing', 'price', 'caller_phone', 'listing_link']
+  ),
+  (
+    'boost_upsell',
+    'Boost upsell',
+    'send-listing-contact-sms: sent a few seconds after a repeat lister''s callback request when the listing isn''t featured.',
+    E'Hadirot Tip: Want more inquiries on your {{listing}}? Boost it to the top of search results — starting at $25/wk: {{boost_link}}',
+    ARRAY['listing', 'boost_link']
+  )
+ON CONFLICT (key) DO NOTHING;
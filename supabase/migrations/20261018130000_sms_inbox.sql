@@ -0,0 +1,185 @@
+/*
+  # Admin SMS inbox
+
+  Until now the only window into SMS conversations was the notifyAdmin email
+  from handle-renewal-sms-webhook with a pasted transcript. The admin panel's
+  SMS tab now lists every phone number we have texted or heard from, with the
+  full thread, its renewal / callback / report conversations and delivery
+  status, and lets an admin reply, resolve a conversation or re-send a
+  renewal reminder (admin-sms-inbox edge function).
+
+  1. New Function
+    - `admin_sms_inbox(p_search, p_filter, p_limit)` — one row per phone
+      number across `sms_messages` and `listing_renewal_conversations`,
+      newest activity first.
+      - `p_search` matches the phone digits or any message text.
+      - `p_filter`:
+        - 'all'
+        - 'attention' — an open conversation, or the last message is inbound
+          (the owner texted and nobody has answered yet).
+        - 'failed'    — at least one undelivered / failed outbound message.
+        - 'opted_out' — the number is opted out in `sms_consent`.
+      - Admin only (require_admin()).
+
+  2. Modified Tables
+    - `listing_renewal_conversations`
+      - `resolved_by` — the admin who resolved the conversation from the
+        inbox; NULL when the owner's reply or the cleanup job closed it.
+
+  3. Security
+    - Explicit admin SELECT policies on `sms_messages` and
+      `listing_renewal_conversations` for the thread view. Writes stay with
+      the edge functions (service role).
+*/
+
+-- ============================================================================
+-- listing_renewal_conversations.resolved_by
+-- ============================================================================
+
+ALTER TABLE listing_renewal_conversations
+  ADD COLUMN IF NOT EXISTS resolved_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN listing_renewal_conversations.resolved_by IS
+'Admin who force-resolved this conversation from the SMS inbox (renew / deactivate).';
+
+-- ============================================================================
+-- Admin read access
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'sms_messages'
+    AND policyname = 'Admins can view sms messages'
+  ) THEN
+    CREATE POLICY "Admins can view sms messages"
+      ON sms_messages FOR SELECT TO authenticated
+      USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'listing_renewal_conversations'
+    AND policyname = 'Admins can view renewal conversations'
+  ) THEN
+    CREATE POLICY "Admins can view renewal conversations"
+      ON listing_renewal_conversations FOR SELECT TO authenticated
+      USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+  END IF;
+END $$;
+
+-- ============================================================================
+-- admin_sms_inbox
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION admin_sms_inbox(
+  p_search text DEFAULT NULL,
+  p_filter text DEFAULT 'all',
+  p_limit integer DEFAULT 100
+)
+RETURNS TABLE (
+  phone_number text,
+  last_activity_at timestamptz,
+  last_message_body text,
+  last_direction text,
+  last_status text,
+  message_count bigint,
+  failed_count bigint,
+  open_conversations bigint,
+  latest_state text,
+  latest_conversation_type text,
+  opted_out boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_digits text := NULLIF(regexp_replace(coalesce(p_search, ''), '[^0-9]', '', 'g'), '');
+  v_text text := NULLIF(trim(coalesce(p_search, '')), '');
+BEGIN
+  PERFORM require_admin();
+
+  RETURN QUERY
+  WITH msg AS (
+    SELECT
+      m.phone_number,
+      count(*) AS message_count,
+      count(*) FILTER (WHERE m.status IN ('failed', 'undelivered')) AS failed_count,
+      max(m.created_at) AS last_message_at
+    FROM sms_messages m
+    GROUP BY m.phone_number
+  ),
+  last_msg AS (
+    SELECT DISTINCT ON (m.phone_number)
+      m.phone_number, m.message_body, m.direction, m.status
+    FROM sms_messages m
+    ORDER BY m.phone_number, m.created_at DESC
+  ),
+  conv AS (
+    SELECT
+      c.phone_number,
+      count(*) FILTER (
+        WHERE c.state NOT IN ('completed', 'timeout', 'expired_link', 'error')
+      ) AS open_conversations,
+      max(c.created_at) AS last_conversation_at
+    FROM listing_renewal_conversations c
+    GROUP BY c.phone_number
+  ),
+  last_conv AS (
+    SELECT DISTINCT ON (c.phone_number)
+      c.phone_number, c.state, c.conversation_type
+    FROM listing_renewal_conversations c
+    ORDER BY c.phone_number, c.created_at DESC
+  ),
+  phones AS (
+    SELECT msg.phone_number FROM msg
+    UNION
+    SELECT conv.phone_number FROM conv
+  ),
+  inbox AS (
+    SELECT
+      ph.phone_number,
+      GREATEST(msg.last_message_at, conv.last_conversation_at) AS last_activity_at,
+      last_msg.message_body AS last_message_body,
+      last_msg.direction AS last_direction,
+      last_msg.status AS last_status,
+      coalesce(msg.message_count, 0) AS message_count,
+      coalesce(msg.failed_count, 0) AS failed_count,
+      coalesce(conv.open_conversations, 0) AS open_conversations,
+      last_conv.state AS latest_state,
+      last_conv.conversation_type AS latest_conversation_type,
+      coalesce(sc.opted_out, false) AS opted_out
+    FROM phones ph
+    LEFT JOIN msg ON msg.phone_number = ph.phone_number
+    LEFT JOIN last_msg ON last_msg.phone_number = ph.phone_number
+    LEFT JOIN conv ON conv.phone_number = ph.phone_number
+    LEFT JOIN last_conv ON last_conv.phone_number = ph.phone_number
+    LEFT JOIN sms_consent sc ON sc.phone_number = ph.phone_number
+  )
+  SELECT i.*
+  FROM inbox i
+  WHERE
+    (
+      v_text IS NULL
+      OR (v_digits IS NOT NULL AND i.phone_number LIKE '%' || v_digits || '%')
+      OR EXISTS (
+        SELECT 1 FROM sms_messages m
+        WHERE m.phone_number = i.phone_number
+          AND m.message_body ILIKE '%' || v_text || '%'
+      )
+    )
+    AND CASE coalesce(p_filter, 'all')
+      WHEN 'attention' THEN i.open_conversations > 0 OR i.last_direction = 'inbound'
+      WHEN 'failed' THEN i.failed_count > 0
+      WHEN 'opted_out' THEN i.opted_out
+      ELSE true
+    END
+  ORDER BY i.last_activity_at DESC NULLS LAST
+  LIMIT LEAST(GREATEST(coalesce(p_limit, 100), 1), 500);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_sms_inbox(text, text, integer) TO authenticated;
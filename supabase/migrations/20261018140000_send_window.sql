@@ -0,0 +1,217 @@
+/*
+  # Send window: quiet hours, Shabbos and holidays for automated messages
+
+  The reminder / report / alert crons text and email whenever they happen to
+  be scheduled, and user-triggered notifications (callback requests, viewing
+  requests, message relays) go out the moment they happen — including Friday
+  evening and Shabbos. This adds one global policy every automated sender
+  checks (supabase/functions/_shared/sendWindow.ts). Outside the window the
+  message is queued in `deferred_messages` instead of sent, and the
+  drain-deferred-messages cron sends it once the window opens.
+
+  Not deferred: replies to a text the person just sent us (the SMS webhook's
+  responses, STOP / START confirmations), admin replies from the SMS inbox,
+  password resets and other transactional email, and the admin-only digests.
+
+  1. New Tables
+    - `send_window_policy` (singleton, id = 1)
+      - `daily_start` / `daily_end` — local wall-clock hours automated
+        messages may go out, every day.
+      - `observe_shabbat` — block Friday candle lighting through Saturday
+        nightfall. Sunset is computed for `latitude` / `longitude`;
+        candle lighting is `candle_lighting_minutes` before Friday's sunset,
+        nightfall `havdalah_minutes` after Saturday's.
+      - `timezone` — IANA zone the hours and dates are read in.
+    - `send_window_blocked_dates`
+      - Holidays. Each date is blocked like a Shabbos: from candle lighting
+        the evening before through nightfall on the date, so a two-day yom
+        tov is two consecutive rows.
+    - `deferred_messages`
+      - One row per held-back SMS or email. `send_after` is when the window
+        next opens (when it was queued); the drain re-checks the policy
+        before sending. 'sending' is the drain's claim on a row; 'cancelled'
+        means the number opted out meanwhile or an admin cancelled it.
+      - A deferred SMS is logged by its sender with
+        message_sid = 'deferred:<id>' and status 'queued'; the drain swaps
+        in the provider's id on sms_messages and listing_renewal_conversations
+        when it sends. Cancelling a queued SMS marks that log row cancelled
+        and closes the conversation waiting on it (trigger).
+
+  2. Security
+    - RLS on all three. Admins can read everything and edit the policy and
+      blocked dates; the queue is written by edge functions (service role).
+
+  3. Cron
+    - drain-deferred-messages every 10 minutes.
+*/
+
+-- ============================================================================
+-- send_window_policy
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS send_window_policy (
+  id integer PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  timezone text NOT NULL DEFAULT 'America/New_York',
+  daily_start time NOT NULL DEFAULT '09:00',
+  daily_end time NOT NULL DEFAULT '21:00',
+  observe_shabbat boolean NOT NULL DEFAULT true,
+  latitude numeric(8, 5) NOT NULL DEFAULT 40.62500,
+  longitude numeric(8, 5) NOT NULL DEFAULT -73.96100,
+  candle_lighting_minutes integer NOT NULL DEFAULT 18 CHECK (candle_lighting_minutes BETWEEN 0 AND 120),
+  havdalah_minutes integer NOT NULL DEFAULT 50 CHECK (havdalah_minutes BETWEEN 0 AND 120),
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (daily_start < daily_end)
+);
+
+ALTER TABLE send_window_policy ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view send window policy"
+  ON send_window_policy FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+CREATE POLICY "Admins can update send window policy"
+  ON send_window_policy FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+INSERT INTO send_window_policy (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- send_window_blocked_dates
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS send_window_blocked_dates (
+  blocked_on date PRIMARY KEY,
+  label text NOT NULL CHECK (char_length(label) BETWEEN 1 AND 100),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE send_window_blocked_dates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage send window blocked dates"
+  ON send_window_blocked_dates FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+-- Yom tov days through the end of 2027 (chol hamoed is not blocked). Admins
+-- keep the list current from the SMS tab.
+INSERT INTO send_window_blocked_dates (blocked_on, label)
+VALUES
+  ('2027-04-22', 'Pesach'),
+  ('2027-04-23', 'Pesach'),
+  ('2027-04-28', 'Pesach'),
+  ('2027-04-29', 'Pesach'),
+  ('2027-06-11', 'Shavuot'),
+  ('2027-06-12', 'Shavuot'),
+  ('2027-10-02', 'Rosh Hashanah'),
+  ('2027-10-03', 'Rosh Hashanah'),
+  ('2027-10-11', 'Yom Kippur'),
+  ('2027-10-16', 'Sukkot'),
+  ('2027-10-17', 'Sukkot'),
+  ('2027-10-23', 'Shemini Atzeret'),
+  ('2027-10-24', 'Simchat Torah')
+ON CONFLICT (blocked_on) DO NOTHING;
+
+-- ============================================================================
+-- deferred_messages
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS deferred_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel text NOT NULL CHECK (channel IN ('sms', 'email')),
+  -- E.164 number for sms; comma-separated addresses for email.
+  recipient text NOT NULL,
+  subject text,
+  body text NOT NULL,
+  -- Email extras for sendViaZepto (text part, from / reply-to, attachments).
+  payload jsonb,
+  message_source text,
+  reason text NOT NULL CHECK (reason IN ('quiet_hours', 'shabbat', 'holiday')),
+  send_after timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deferred_messages_queued
+  ON deferred_messages(send_after)
+  WHERE status = 'queued';
+
+CREATE INDEX IF NOT EXISTS idx_deferred_messages_created
+  ON deferred_messages(created_at DESC);
+
+ALTER TABLE deferred_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view deferred messages"
+  ON deferred_messages FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+CREATE POLICY "Admins can cancel deferred messages"
+  ON deferred_messages FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true));
+
+-- A cancelled SMS never goes out: mark its log row and close the
+-- conversation that was waiting for a reply to it. SECURITY DEFINER because
+-- admins cancel from the panel and can only read those tables.
+CREATE OR REPLACE FUNCTION handle_deferred_message_cancelled()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.channel = 'sms' AND NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    UPDATE sms_messages
+    SET status = 'cancelled'
+    WHERE message_sid = 'deferred:' || NEW.id::text;
+
+    UPDATE listing_renewal_conversations
+    SET state = 'completed', action_taken = 'sms_cancelled', updated_at = now()
+    WHERE message_sid = 'deferred:' || NEW.id::text;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_deferred_message_cancelled ON deferred_messages;
+CREATE TRIGGER trg_deferred_message_cancelled
+  AFTER UPDATE OF status ON deferred_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_deferred_message_cancelled();
+
+-- ============================================================================
+-- Drain cron (pattern: 20261018010000_saved_searches)
+-- ============================================================================
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('drain-deferred-messages');
+EXCEPTION
+  WHEN undefined_table THEN NULL;
+  WHEN undefined_function THEN NULL;
+  WHEN OTHERS THEN NULL;
+END $$;
+
+SELECT cron.schedule(
+  'drain-deferred-messages',
+  '*/10 * * * *',
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.supabase_url') || '/functions/v1/drain-deferred-messages',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 60000
+  );
+  $$
+);
@@ -0,0 +1,219 @@
+/*
+  # Durable outbox for SMS and email
+
+  Texts and emails were sent inline from request handlers and crons: when
+  Twilio or ZeptoMail hiccuped the message was logged as failed (or only
+  the admin got an alert) and never went out. Every send now goes through
+  `message_outbox` (supabase/functions/_shared/outbox.ts):
+
+    - The sender records the message and tries it right away, so callers
+      still get the provider's id in the normal case.
+    - A retryable failure (network error, 429, 5xx) leaves it queued with
+      exponential backoff; the process-message-outbox worker retries it
+      every minute until it goes out or `max_attempts` is used up, then
+      parks it as 'dead' for an admin to retry or cancel.
+    - A per-recipient rate limit holds anything past it until the
+      recipient's hour rolls over.
+    - An optional idempotency key makes a second send of the same logical
+      message (a cron re-run, a double click) return the first one.
+
+  The send-window queue (20261018140000_send_window.sql) becomes part of
+  this table: a message held for quiet hours / Shabbos / yom tov is just an
+  outbox row whose `send_after` is when the window opens.
+
+  1. Modified Tables
+    - `deferred_messages` renamed to `message_outbox`
+      - `reason` — why the row is waiting: the send-window reasons plus
+        'retry' and 'rate_limit'; NULL for a message sent on its first try.
+      - `status` — adds 'dead' (retries exhausted). 'failed' stays for
+        permanent rejections (invalid number, carrier block, bad address).
+      - `idempotency_key` — unique when set.
+      - `respect_send_window` — false for replies, admin messages and
+        transactional email; the worker sends those at any hour.
+      - `max_attempts`, `locked_at` (claim time of a 'sending' row, so a
+        worker that died mid-send is recovered), `provider`,
+        `provider_message_id`.
+    - An SMS that fails or dies after being queued has its sms_messages
+      row marked failed and the conversation waiting on it closed as
+      'sms_failed' (trigger, alongside the existing cancel handling).
+
+  2. New Function
+    - `admin_message_outbox_stats()` — queue depth and recent failures per
+      channel / status for the admin panel. Admin only.
+
+  3. Cron
+    - `drain-deferred-messages` replaced by `process-message-outbox`, every
+      minute.
+*/
+
+-- ============================================================================
+-- deferred_messages -> message_outbox
+-- ============================================================================
+
+ALTER TABLE IF EXISTS deferred_messages RENAME TO message_outbox;
+
+ALTER INDEX IF EXISTS idx_deferred_messages_queued RENAME TO idx_message_outbox_due;
+ALTER INDEX IF EXISTS idx_deferred_messages_created RENAME TO idx_message_outbox_created;
+
+ALTER POLICY "Admins can view deferred messages" ON message_outbox
+  RENAME TO "Admins can view outbox messages";
+ALTER POLICY "Admins can cancel deferred messages" ON message_outbox
+  RENAME TO "Admins can update outbox messages";
+
+ALTER TABLE message_outbox DROP CONSTRAINT IF EXISTS deferred_messages_reason_check;
+ALTER TABLE message_outbox ALTER COLUMN reason DROP NOT NULL;
+ALTER TABLE message_outbox ADD CONSTRAINT message_outbox_reason_check
+  CHECK (reason IN ('quiet_hours', 'shabbat', 'holiday', 'retry', 'rate_limit'));
+
+ALTER TABLE message_outbox DROP CONSTRAINT IF EXISTS deferred_messages_status_check;
+ALTER TABLE message_outbox ADD CONSTRAINT message_outbox_status_check
+  CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'dead', 'cancelled'));
+
+ALTER TABLE message_outbox
+  ADD COLUMN IF NOT EXISTS idempotency_key text,
+  ADD COLUMN IF NOT EXISTS respect_send_window boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS max_attempts integer NOT NULL DEFAULT 8 CHECK (max_attempts BETWEEN 1 AND 20),
+  ADD COLUMN IF NOT EXISTS locked_at timestamptz,
+  ADD COLUMN IF NOT EXISTS provider text,
+  ADD COLUMN IF NOT EXISTS provider_message_id text;
+
+-- Email rows keep their sendViaZepto extras in `payload`; SMS rows now use
+-- it too ({ "allow_opted_out": true } for STOP / START confirmations).
+COMMENT ON COLUMN message_outbox.payload IS
+'Email: sendViaZepto extras (text part, from / reply-to, attachments). SMS: { allow_opted_out }.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_outbox_idempotency
+  ON message_outbox(idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+-- Per-recipient rate limit: recent sends to one number / address.
+CREATE INDEX IF NOT EXISTS idx_message_outbox_recipient_sent
+  ON message_outbox(recipient, sent_at DESC)
+  WHERE status = 'sent';
+
+CREATE INDEX IF NOT EXISTS idx_message_outbox_sending
+  ON message_outbox(locked_at)
+  WHERE status = 'sending';
+
+-- ============================================================================
+-- Failed / dead / cancelled SMS: fix up the log and the waiting conversation
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS trg_deferred_message_cancelled ON message_outbox;
+DROP FUNCTION IF EXISTS handle_deferred_message_cancelled();
+
+CREATE OR REPLACE FUNCTION handle_outbox_message_finished()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sid text := 'deferred:' || NEW.id::text;
+BEGIN
+  IF NEW.channel <> 'sms' OR NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    UPDATE sms_messages SET status = 'cancelled' WHERE message_sid = v_sid;
+    UPDATE listing_renewal_conversations
+    SET state = 'completed', action_taken = 'sms_cancelled', updated_at = now()
+    WHERE message_sid = v_sid;
+  ELSIF NEW.status IN ('failed', 'dead') THEN
+    UPDATE sms_messages SET status = 'failed' WHERE message_sid = v_sid;
+    UPDATE listing_renewal_conversations
+    SET state = 'error', action_taken = 'sms_failed', updated_at = now()
+    WHERE message_sid = v_sid;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_outbox_message_finished ON message_outbox;
+CREATE TRIGGER trg_outbox_message_finished
+  AFTER UPDATE OF status ON message_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_outbox_message_finished();
+
+-- ============================================================================
+-- admin_message_outbox_stats()
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION admin_message_outbox_stats()
+RETURNS TABLE (
+  channel text,
+  queued bigint,
+  retrying bigint,
+  held bigint,
+  sending bigint,
+  oldest_due_at timestamptz,
+  dead bigint,
+  failed_24h bigint,
+  sent_24h bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM require_admin();
+
+  RETURN QUERY
+  SELECT
+    c.channel,
+    count(*) FILTER (WHERE o.status = 'queued'),
+    count(*) FILTER (WHERE o.status = 'queued' AND o.reason = 'retry'),
+    count(*) FILTER (WHERE o.status = 'queued' AND o.reason IN ('quiet_hours', 'shabbat', 'holiday', 'rate_limit')),
+    count(*) FILTER (WHERE o.status = 'sending'),
+    min(o.send_after) FILTER (WHERE o.status = 'queued'),
+    count(*) FILTER (WHERE o.status = 'dead'),
+    count(*) FILTER (WHERE o.status = 'failed' AND o.created_at > now() - interval '24 hours'),
+    count(*) FILTER (WHERE o.status = 'sent' AND o.sent_at > now() - interval '24 hours')
+  FROM (VALUES ('sms'), ('email')) AS c(channel)
+  LEFT JOIN message_outbox o ON o.channel = c.channel
+  GROUP BY c.channel
+  ORDER BY c.channel DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_message_outbox_stats() TO authenticated;
+
+-- ============================================================================
+-- Worker cron (replaces drain-deferred-messages)
+-- ============================================================================
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('drain-deferred-messages');
+EXCEPTION
+  WHEN undefined_table THEN NULL;
+  WHEN undefined_function THEN NULL;
+  WHEN OTHERS THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('process-message-outbox');
+EXCEPTION
+  WHEN undefined_table THEN NULL;
+  WHEN undefined_function THEN NULL;
+  WHEN OTHERS THEN NULL;
+END $$;
+
+SELECT cron.schedule(
+  'process-message-outbox',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.supabase_url') || '/functions/v1/process-message-outbox',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 60000
+  );
+  $$
+);
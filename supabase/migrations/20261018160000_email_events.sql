@@ -0,0 +1,144 @@
+/*
+  # Email delivery events and suppression list
+
+  Texts get delivery status through sms-status-webhook, but emails were
+  fire-and-forget: a hard bounce or spam complaint was invisible, and we
+  kept mailing the address. ZeptoMail now posts bounce / complaint /
+  delivery events to the zepto-email-webhook function, which logs them and
+  suppresses addresses that can't or don't want to receive mail. Every
+  sender goes through the outbox (_shared/outbox.ts), which drops
+  suppressed addresses before sending.
+
+  1. New Tables
+    - `email_events` — one row per provider event per recipient.
+      - `message_id` — ZeptoMail's request id, as returned by the send API
+        and stored on message_outbox.provider_message_id.
+      - `event_type` — delivered, hard_bounce, soft_bounce, complaint.
+      - Unique per (message_id, recipient, event_type) so webhook retries
+        are no-ops.
+    - `email_suppressions` — addresses we no longer send to.
+      - `email` (lowercased) primary key.
+      - `reason` — hard_bounce, soft_bounce (repeated), complaint, manual.
+      - Admins can remove an entry from the users tab to mail it again.
+
+  2. Modified Tables
+    - `digest_sends` — `email_message_id` and `outbox_message_id`, so a
+      digest's events can be matched even when the email went out on a
+      retry.
+
+  3. New Function
+    - `admin_digest_delivery_stats(uuid[])` — distinct delivered / bounced /
+      complained recipients per digest send. Admin only.
+
+  4. Security
+    - RLS on both tables; admins can read, and remove suppressions. Writes
+      come from the webhook with the service role.
+*/
+
+-- ============================================================================
+-- email_events
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS email_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider text NOT NULL DEFAULT 'zeptomail',
+  message_id text,
+  recipient text NOT NULL,
+  event_type text NOT NULL CHECK (event_type IN ('delivered', 'hard_bounce', 'soft_bounce', 'complaint')),
+  reason text,
+  payload jsonb,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_events_unique
+  ON email_events(message_id, recipient, event_type);
+
+CREATE INDEX IF NOT EXISTS idx_email_events_recipient
+  ON email_events(recipient, occurred_at DESC);
+
+ALTER TABLE email_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view email events" ON email_events;
+CREATE POLICY "Admins can view email events"
+  ON email_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+-- ============================================================================
+-- email_suppressions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS email_suppressions (
+  email text PRIMARY KEY CHECK (email = lower(email)),
+  reason text NOT NULL CHECK (reason IN ('hard_bounce', 'soft_bounce', 'complaint', 'manual')),
+  details text,
+  event_id uuid REFERENCES email_events(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE email_suppressions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view email suppressions" ON email_suppressions;
+CREATE POLICY "Admins can view email suppressions"
+  ON email_suppressions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+DROP POLICY IF EXISTS "Admins can remove email suppressions" ON email_suppressions;
+CREATE POLICY "Admins can remove email suppressions"
+  ON email_suppressions
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+-- ============================================================================
+-- digest_sends -> the email that carried it
+-- ============================================================================
+
+ALTER TABLE digest_sends
+  ADD COLUMN IF NOT EXISTS email_message_id text,
+  ADD COLUMN IF NOT EXISTS outbox_message_id uuid REFERENCES message_outbox(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- admin_digest_delivery_stats(uuid[])
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION admin_digest_delivery_stats(p_send_ids uuid[])
+RETURNS TABLE (
+  digest_send_id uuid,
+  delivered bigint,
+  bounced bigint,
+  complained bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM require_admin();
+
+  RETURN QUERY
+  SELECT
+    d.id,
+    count(DISTINCT e.recipient) FILTER (WHERE e.event_type = 'delivered'),
+    count(DISTINCT e.recipient) FILTER (WHERE e.event_type IN ('hard_bounce', 'soft_bounce')),
+    count(DISTINCT e.recipient) FILTER (WHERE e.event_type = 'complaint')
+  FROM digest_sends d
+  LEFT JOIN message_outbox o ON o.id = d.outbox_message_id
+  LEFT JOIN email_events e ON e.message_id = COALESCE(d.email_message_id, o.provider_message_id)
+  WHERE d.id = ANY(p_send_ids)
+  GROUP BY d.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_digest_delivery_stats(uuid[]) TO authenticated;
@@ -0,0 +1,143 @@
+/*
+  # Per-category notification preferences and one-click unsubscribe
+
+  Users got approval, deactivation, digest, weekly report and permission
+  emails with no way to turn off one kind without STOP-ing everything.
+  Preferences are now kept per channel (email / SMS) and per category, set
+  from Account → Settings or from the signed unsubscribe link in every
+  category email (the public email-unsubscribe function, which also takes
+  RFC 8058 one-click POSTs from mail clients' List-Unsubscribe button).
+
+  Categories (supabase/functions/_shared/notificationPreferences.ts):
+    - listing_updates — submitted / approved / updated / featured / deleted
+    - listing_expiry — expiry emails, renewal and payment reminder texts
+    - alerts — saved search and price drop alerts
+    - weekly_reports — weekly performance texts
+    - digests — listing digests
+    - account — welcome and permission changes
+  Password resets, account deletion notices and replies to someone's own
+  messages aren't categorised and always go out.
+
+  1. New Tables
+    - `notification_preferences` — one row per user, created on first
+      change. `email_opt_outs` / `sms_opt_outs` list the categories the user
+      turned off; no row means everything is on.
+
+  2. Modified Tables
+    - `digest_sends` — digest emails are now sent one per recipient (each
+      carries its own unsubscribe link), so the single
+      `email_message_id` / `outbox_message_id` become arrays.
+
+  3. Functions
+    - `admin_digest_delivery_stats(uuid[])` — rewritten for the arrays.
+
+  4. Security
+    - RLS: users read and write their own row; admins read all.
+*/
+
+-- ============================================================================
+-- notification_preferences
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  email_opt_outs text[] NOT NULL DEFAULT '{}'
+    CHECK (email_opt_outs <@ ARRAY['listing_updates', 'listing_expiry', 'alerts', 'weekly_reports', 'digests', 'account']::text[]),
+  sms_opt_outs text[] NOT NULL DEFAULT '{}'
+    CHECK (sms_opt_outs <@ ARRAY['listing_updates', 'listing_expiry', 'alerts', 'weekly_reports', 'digests', 'account']::text[]),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can view own notification preferences"
+  ON notification_preferences
+  FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+DROP POLICY IF EXISTS "Users can insert own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can insert own notification preferences"
+  ON notification_preferences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can update own notification preferences"
+  ON notification_preferences
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- ============================================================================
+-- digest_sends: one email per recipient
+-- ============================================================================
+
+ALTER TABLE digest_sends
+  ADD COLUMN IF NOT EXISTS email_message_ids text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS outbox_message_ids uuid[] NOT NULL DEFAULT '{}';
+
+UPDATE digest_sends
+SET email_message_ids = ARRAY[email_message_id]
+WHERE email_message_id IS NOT NULL AND email_message_ids = '{}';
+
+UPDATE digest_sends
+SET outbox_message_ids = ARRAY[outbox_message_id]
+WHERE outbox_message_id IS NOT NULL AND outbox_message_ids = '{}';
+
+ALTER TABLE digest_sends
+  DROP COLUMN IF EXISTS email_message_id,
+  DROP COLUMN IF EXISTS outbox_message_id;
+
+-- ============================================================================
+-- admin_digest_delivery_stats(uuid[])
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION admin_digest_delivery_stats(p_send_ids uuid[])
+RETURNS TABLE (
+  digest_send_id uuid,
+  delivered bigint,
+  bounced bigint,
+  complained bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM require_admin();
+
+  RETURN QUERY
+  WITH message_ids AS (
+    SELECT d.id AS send_id, m.message_id
+    FROM digest_sends d
+    CROSS JOIN LATERAL unnest(d.email_message_ids) AS m(message_id)
+    WHERE d.id = ANY(p_send_ids)
+    UNION
+    -- Emails that went out on a retry only have the id on the outbox row.
+    SELECT d.id, o.provider_message_id
+    FROM digest_sends d
+    JOIN message_outbox o ON o.id = ANY(d.outbox_message_ids)
+    WHERE d.id = ANY(p_send_ids) AND o.provider_message_id IS NOT NULL
+  )
+  SELECT
+    d.id,
+    count(DISTINCT e.recipient) FILTER (WHERE e.event_type = 'delivered'),
+    count(DISTINCT e.recipient) FILTER (WHERE e.event_type IN ('hard_bounce', 'soft_bounce')),
+    count(DISTINCT e.recipient) FILTER (WHERE e.event_type = 'complaint')
+  FROM digest_sends d
+  LEFT JOIN message_ids m ON m.send_id = d.id
+  LEFT JOIN email_events e ON e.message_id = m.message_id
+  WHERE d.id = ANY(p_send_ids)
+  GROUP BY d.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_digest_delivery_stats(uuid[]) TO authenticated;
@@ -0,0 +1,165 @@
+/*
+  # WhatsApp Business channel
+
+  Until now WhatsApp only existed as text the admin copied out of the digest
+  manager and pasted into groups by hand. Messages now go out through the
+  WhatsApp Business (Meta Cloud) API as a second messaging provider next to
+  SMS (supabase/functions/_shared/whatsapp.ts), and replies come back through
+  the whatsapp-webhook function into the same conversation handlers as texts.
+
+  WhatsApp requires opt-in before a business messages someone first, so a
+  number only gets digests, saved-search matches or renewal prompts once it
+  has opted in — from Account → Settings, or by sending START to the
+  business number. Replies to someone who just messaged us are always
+  allowed (WhatsApp's 24-hour customer service window).
+
+  1. New Tables
+    - `whatsapp_contacts` — one row per E.164 number that opted in or
+      messaged us on WhatsApp.
+      - `opted_in` — consent to messages we start. STOP clears it and stamps
+        `opted_out_at`; after that the number gets no WhatsApp messages at
+        all until START.
+      - `receive_digest` / `listing_messages` — what an opted-in number
+        wants: the listings digest, and prompts about the user's own
+        listings (renewal reminders and the like).
+      - `last_inbound_at` — their last message. Inside 24 hours of it we
+        can send free-form text; outside it only the approved template.
+
+  2. Modified Tables
+    - `saved_searches.channel` — adds 'whatsapp'.
+    - `sms_messages.channel` — 'sms' or 'whatsapp', so the SMS inbox and
+      logs show where each message went.
+
+  3. Functions
+    - `set_whatsapp_preferences(boolean, boolean, boolean)` — the settings
+      toggle. Keys the row on the caller's profile phone, so users can only
+      opt in their own number.
+
+  4. Security
+    - RLS on `whatsapp_contacts`: users read their own row, admins read all.
+      Writes go through the RPC above or the service role.
+*/
+
+-- ============================================================================
+-- whatsapp_contacts
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS whatsapp_contacts (
+  phone_number text PRIMARY KEY CHECK (phone_number ~ '^\+[0-9]{8,15}$'),
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  opted_in boolean NOT NULL DEFAULT false,
+  receive_digest boolean NOT NULL DEFAULT true,
+  listing_messages boolean NOT NULL DEFAULT true,
+  opted_in_at timestamptz,
+  opted_out_at timestamptz,
+  last_inbound_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_contacts_user_id
+  ON whatsapp_contacts(user_id)
+  WHERE user_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_contacts_digest
+  ON whatsapp_contacts(phone_number)
+  WHERE opted_in = true AND receive_digest = true;
+
+ALTER TABLE whatsapp_contacts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own WhatsApp contact" ON whatsapp_contacts;
+CREATE POLICY "Users can view own WhatsApp contact"
+  ON whatsapp_contacts
+  FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+-- ============================================================================
+-- saved_searches / sms_messages
+-- ============================================================================
+
+ALTER TABLE saved_searches DROP CONSTRAINT IF EXISTS saved_searches_channel_check;
+ALTER TABLE saved_searches
+  ADD CONSTRAINT saved_searches_channel_check CHECK (channel IN ('email', 'sms', 'whatsapp'));
+
+ALTER TABLE sms_messages
+  ADD COLUMN IF NOT EXISTS channel text NOT NULL DEFAULT 'sms'
+    CHECK (channel IN ('sms', 'whatsapp'));
+
+-- ============================================================================
+-- set_whatsapp_preferences
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION set_whatsapp_preferences(
+  p_opted_in boolean,
+  p_receive_digest boolean,
+  p_listing_messages boolean
+)
+RETURNS whatsapp_contacts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_digits text;
+  v_phone text;
+  v_row whatsapp_contacts;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Same normalisation as formatPhoneForSMS (_shared/sms.ts).
+  SELECT regexp_replace(coalesce(phone, ''), '[^0-9]', '', 'g')
+    INTO v_digits
+    FROM profiles
+   WHERE id = v_user_id;
+
+  IF length(v_digits) = 10 THEN
+    v_phone := '+1' || v_digits;
+  ELSIF length(v_digits) = 11 AND left(v_digits, 1) = '1' THEN
+    v_phone := '+' || v_digits;
+  ELSE
+    RAISE EXCEPTION 'Add a valid phone number to your profile first';
+  END IF;
+
+  -- A changed profile phone leaves the old number's consent behind.
+  UPDATE whatsapp_contacts
+     SET user_id = NULL, opted_in = false, opted_out_at = now(), updated_at = now()
+   WHERE user_id = v_user_id
+     AND phone_number <> v_phone;
+
+  INSERT INTO whatsapp_contacts (
+    phone_number, user_id, opted_in, receive_digest, listing_messages, opted_in_at, opted_out_at
+  )
+  VALUES (
+    v_phone, v_user_id, p_opted_in, p_receive_digest, p_listing_messages,
+    CASE WHEN p_opted_in THEN now() END,
+    NULL
+  )
+  ON CONFLICT (phone_number) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+        opted_in = EXCLUDED.opted_in,
+        receive_digest = EXCLUDED.receive_digest,
+        listing_messages = EXCLUDED.listing_messages,
+        opted_in_at = CASE
+          WHEN EXCLUDED.opted_in AND NOT whatsapp_contacts.opted_in THEN now()
+          ELSE whatsapp_contacts.opted_in_at
+        END,
+        opted_out_at = CASE
+          WHEN EXCLUDED.opted_in THEN NULL
+          WHEN whatsapp_contacts.opted_in THEN now()
+          ELSE whatsapp_contacts.opted_out_at
+        END,
+        updated_at = now()
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_whatsapp_preferences(boolean, boolean, boolean) TO authenticated;
@@ -0,0 +1,80 @@
+/*
+  # Match scraped listings against live listings
+
+  Every scraped_listings row has been inserted as match_status 'unchecked'
+  and stayed that way, so the pipeline's "On site" / "Partial match" filters
+  never matched anything and callers phoned landlords whose apartment was
+  already up on Hadirot. Intake (_shared/intake.ts) now scores each row
+  against the active, approved listings of the same kind
+  (_shared/scrapedListingMatch.ts) — phone, cross streets, distance,
+  bedrooms, price — and records the best candidate. The
+  match-scraped-listings function re-runs the check for open rows, since a
+  landlord may post on the site after their ad was scraped.
+
+  1. Modified Tables
+    - `scraped_listings`
+      - `match_score` (smallint) — 0-100 score of the best live candidate;
+        NULL until checked.
+      - `match_checked_at` (timestamptz) — when the row was last scored.
+      - `match_details` (jsonb) — which signals agreed with the matched
+        listing (phone, streets, distance, bedrooms, price), for the
+        side-by-side view in the pipeline.
+      - `match_status` — constrained to 'unchecked', 'no_match',
+        'partial_match', 'matched'. `existing_listing_id` holds the matched
+        listing for the last two.
+
+  2. Indexes
+    - `idx_scraped_listings_match_recheck` — open rows by last check, for
+      the re-check job.
+
+  3. Scheduling
+    - `match-scraped-listings` runs hourly.
+*/
+
+-- ============================================================================
+-- scraped_listings
+-- ============================================================================
+
+ALTER TABLE scraped_listings ADD COLUMN IF NOT EXISTS match_score smallint;
+ALTER TABLE scraped_listings ADD COLUMN IF NOT EXISTS match_checked_at timestamptz;
+ALTER TABLE scraped_listings ADD COLUMN IF NOT EXISTS match_details jsonb;
+
+UPDATE scraped_listings SET match_status = 'unchecked' WHERE match_status IS NULL;
+
+ALTER TABLE scraped_listings DROP CONSTRAINT IF EXISTS scraped_listings_match_status_check;
+ALTER TABLE scraped_listings
+  ADD CONSTRAINT scraped_listings_match_status_check
+  CHECK (match_status IN ('unchecked', 'no_match', 'partial_match', 'matched'));
+
+CREATE INDEX IF NOT EXISTS idx_scraped_listings_match_recheck
+  ON scraped_listings(match_checked_at NULLS FIRST)
+  WHERE call_status IN ('pending_call', 'called_no_answer');
+
+-- ============================================================================
+-- Hourly re-check
+-- ============================================================================
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('match-scraped-listings');
+EXCEPTION
+  WHEN undefined_table THEN NULL;
+  WHEN undefined_function THEN NULL;
+  WHEN OTHERS THEN NULL;
+END $$;
+
+SELECT cron.schedule(
+  'match-scraped-listings',
+  '20 * * * *',
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.supabase_url') || '/functions/v1/match-scraped-listings',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 60000
+  );
+  $$
+);
@@ -0,0 +1,209 @@
+/*
+  # Pipeline call queue, assignment and outcome analytics
+
+  The pipeline had a call status and free-text notes per scraped listing and
+  nothing else: no one owned a lead, "call back Thursday" lived in the
+  notes, and a status change overwrote the previous one, so there was no way
+  to tell which sources or callers actually turn into listings.
+
+  1. Modified Tables
+    - `scraped_listings`
+      - `caller_id` (uuid, FK profiles) — who is calling this lead. Set by
+        hand from the pipeline, or claimed automatically by whoever first
+        records a call outcome on an unassigned lead.
+      - `callback_at` (timestamptz) — "call back at". The lead shows in that
+        day's call queue; cleared once the lead leaves the callable statuses
+        (pending_call / called_no_answer).
+      - `last_called_at` (timestamptz) — the last recorded call outcome.
+
+  2. New Tables
+    - `scraped_listing_status_history` — one row per call_status change:
+      from / to, who made it (`changed_by`, NULL for the service role) and
+      the lead's caller at the time. Written by a trigger, so publishing
+      from the pipeline and any future path are captured the same way.
+
+  3. Functions
+    - `track_scraped_listing_call_status()` — the trigger above.
+    - `admin_pipeline_funnel(timestamptz)` — leads first called since the
+      given time, grouped by source, by caller and by week of first call,
+      with how many were approved, published and paid (a Stripe payment on
+      the published listing, or a subscription covering it).
+
+  4. Security
+    - RLS on `scraped_listing_status_history`: admins read. Rows are only
+      written by the trigger.
+*/
+
+-- ============================================================================
+-- scraped_listings
+-- ============================================================================
+
+ALTER TABLE scraped_listings ADD COLUMN IF NOT EXISTS caller_id uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE scraped_listings ADD COLUMN IF NOT EXISTS callback_at timestamptz;
+ALTER TABLE scraped_listings ADD COLUMN IF NOT EXISTS last_called_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_scraped_listings_caller_id
+  ON scraped_listings(caller_id)
+  WHERE caller_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scraped_listings_callback_at
+  ON scraped_listings(callback_at)
+  WHERE callback_at IS NOT NULL;
+
+-- ============================================================================
+-- scraped_listing_status_history
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS scraped_listing_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  scraped_listing_id uuid NOT NULL REFERENCES scraped_listings(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  caller_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scraped_listing_status_history_listing
+  ON scraped_listing_status_history(scraped_listing_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_scraped_listing_status_history_created_at
+  ON scraped_listing_status_history(created_at);
+
+ALTER TABLE scraped_listing_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read scraped listing status history" ON scraped_listing_status_history;
+CREATE POLICY "Admins can read scraped listing status history"
+  ON scraped_listing_status_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+-- ============================================================================
+-- track_scraped_listing_call_status()
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION track_scraped_listing_call_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.call_status IS NOT DISTINCT FROM OLD.call_status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.call_status IN ('pending_call', 'called_no_answer')
+     AND NEW.call_status IN ('called_no_answer', 'called_declined', 'approved') THEN
+    NEW.last_called_at := now();
+    -- Whoever records the first call on an unassigned lead owns it.
+    IF NEW.caller_id IS NULL THEN
+      NEW.caller_id := auth.uid();
+    END IF;
+  END IF;
+
+  IF NEW.call_status NOT IN ('pending_call', 'called_no_answer') THEN
+    NEW.callback_at := NULL;
+  END IF;
+
+  INSERT INTO scraped_listing_status_history (scraped_listing_id, from_status, to_status, changed_by, caller_id)
+  VALUES (NEW.id, OLD.call_status, NEW.call_status, auth.uid(), NEW.caller_id);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_track_scraped_listing_call_status ON scraped_listings;
+CREATE TRIGGER trg_track_scraped_listing_call_status
+  BEFORE UPDATE OF call_status ON scraped_listings
+  FOR EACH ROW
+  EXECUTE FUNCTION track_scraped_listing_call_status();
+
+-- ============================================================================
+-- admin_pipeline_funnel(timestamptz)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION admin_pipeline_funnel(p_since timestamptz)
+RETURNS TABLE (
+  dimension text,
+  bucket text,
+  label text,
+  called bigint,
+  approved bigint,
+  published bigint,
+  paid bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM require_admin();
+
+  RETURN QUERY
+  WITH first_call AS (
+    SELECT DISTINCT ON (h.scraped_listing_id)
+      h.scraped_listing_id,
+      h.created_at AS called_at,
+      COALESCE(h.caller_id, h.changed_by) AS caller
+    FROM scraped_listing_status_history h
+    WHERE h.from_status IN ('pending_call', 'called_no_answer')
+      AND h.to_status IN ('called_no_answer', 'called_declined', 'approved')
+    ORDER BY h.scraped_listing_id, h.created_at
+  ),
+  leads AS (
+    SELECT
+      s.source,
+      fc.caller,
+      fc.called_at,
+      (
+        s.call_status IN ('approved', 'published')
+        OR s.published_listing_id IS NOT NULL
+        OR EXISTS (
+          SELECT 1 FROM scraped_listing_status_history h
+          WHERE h.scraped_listing_id = s.id AND h.to_status = 'approved'
+        )
+      ) AS is_approved,
+      s.published_listing_id IS NOT NULL AS is_published,
+      (
+        l.payment_kind = 'subscription'
+        OR EXISTS (
+          SELECT 1 FROM paid_listing_payments p
+          WHERE p.listing_id = s.published_listing_id AND p.source = 'stripe'
+        )
+      ) AS is_paid
+    FROM first_call fc
+    JOIN scraped_listings s ON s.id = fc.scraped_listing_id
+    LEFT JOIN listings l ON l.id = s.published_listing_id
+    WHERE fc.called_at >= p_since
+  ),
+  keyed AS (
+    SELECT 'source'::text AS dim, COALESCE(leads.source, 'unknown') AS key, leads.* FROM leads
+    UNION ALL
+    SELECT 'caller', COALESCE(leads.caller::text, 'unassigned'), leads.* FROM leads
+    UNION ALL
+    SELECT 'week', to_char(date_trunc('week', leads.called_at), 'YYYY-MM-DD'), leads.* FROM leads
+  )
+  SELECT
+    k.dim,
+    k.key,
+    CASE
+      WHEN k.dim = 'caller' THEN COALESCE(max(pr.full_name), 'Unassigned')
+      ELSE k.key
+    END,
+    count(*),
+    count(*) FILTER (WHERE k.is_approved),
+    count(*) FILTER (WHERE k.is_published),
+    count(*) FILTER (WHERE k.is_paid)
+  FROM keyed k
+  LEFT JOIN profiles pr ON k.dim = 'caller' AND pr.id = k.caller
+  GROUP BY k.dim, k.key
+  ORDER BY k.dim, k.key;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_pipeline_funnel(timestamptz) TO authenticated;
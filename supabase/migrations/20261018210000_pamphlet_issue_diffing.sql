@@ -0,0 +1,229 @@
+/*
+  # Pamphlet issue diffing and dropped listings
+
+  Every `scrape_runs` row stood on its own. When the new weekly issue came
+  in there was no way to see what was new, what dropped out (likely rented)
+  or what changed price since last week, and ads that had long disappeared
+  from the pamphlet stayed in the call list forever.
+
+  Intake already collapses re-sightings onto one scraped_listings row by
+  `dedup_key`, bumping `times_seen` / `date_last_seen` and appending a
+  `source_history` entry {source, date, run_id, price, seen_at} per issue —
+  so two issues can be compared by which rows carry a sighting for each run.
+
+  1. Modified Tables
+    - `admin_settings.pipeline_missed_issues_limit` (integer, default 3) —
+      consecutive issues of its source a scraped listing may miss before
+      it is treated as dropped.
+    - `scraped_listings`
+      - `missed_issues` (smallint) — completed issues of the row's source
+        published since it was last seen. Reset by intake on a re-sighting.
+      - `dropped_at` (timestamptz) — set once `missed_issues` reaches the
+        limit; cleared if it falls back under it. `is_active` can't carry
+        this: it is always false on pre-publish rows (public read policy).
+      - `still_available_sms_at` (timestamptz) — when the owner of the
+        matched live listing was asked whether it is still available, so
+        nobody is asked twice.
+
+  2. Functions
+    - `mark_missed_scraped_listings()` — AFTER trigger on `scrape_runs`:
+      when an issue completes, recounts `missed_issues` for that source and
+      marks / unmarks drops. Dropped leads nobody has reached yet
+      (pending_call / called_no_answer) are suppressed; a later re-sighting
+      brings them back to pending_call through intake as before.
+    - `admin_compare_scrape_runs(uuid, uuid)` — what changed between two
+      issues: new, returned (seen in an older issue, missing from the
+      previous one), dropped, and price changed, with the full row.
+
+  3. Data
+    - `sms_templates` row `pamphlet_still_available`, sent by
+      send-still-available-sms. The owner's YES / NO is handled by the SMS
+      webhook like a "report rented" text; no reply just times out.
+*/
+
+-- ============================================================================
+-- admin_settings.pipeline_missed_issues_limit
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'admin_settings' AND column_name = 'pipeline_missed_issues_limit'
+  ) THEN
+    ALTER TABLE admin_settings ADD COLUMN pipeline_missed_issues_limit integer NOT NULL DEFAULT 3
+      CHECK (pipeline_missed_issues_limit BETWEEN 1 AND 26);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN admin_settings.pipeline_missed_issues_limit IS
+  'Consecutive issues of its source a scraped listing may miss before the pipeline marks it dropped (scraped_listings.dropped_at).';
+
+-- ============================================================================
+-- scraped_listings
+-- ============================================================================
+
+ALTER TABLE scraped_listings ADD COLUMN IF NOT EXISTS missed_issues smallint NOT NULL DEFAULT 0;
+ALTER TABLE scraped_listings ADD COLUMN IF NOT EXISTS dropped_at timestamptz;
+ALTER TABLE scraped_listings ADD COLUMN IF NOT EXISTS still_available_sms_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_scraped_listings_source_last_seen
+  ON scraped_listings(source, date_last_seen);
+
+CREATE INDEX IF NOT EXISTS idx_scraped_listings_source_history
+  ON scraped_listings USING gin (source_history jsonb_path_ops);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_runs_source_pdf_date
+  ON scrape_runs(source, pdf_date)
+  WHERE status = 'completed';
+
+-- ============================================================================
+-- mark_missed_scraped_listings()
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION mark_missed_scraped_listings()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_limit integer;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT pipeline_missed_issues_limit INTO v_limit FROM admin_settings LIMIT 1;
+  v_limit := COALESCE(v_limit, 3);
+
+  -- Rows seen in this issue have date_last_seen = its pdf_date and were
+  -- already reset by intake; only older rows can have missed anything.
+  WITH counts AS (
+    SELECT
+      s.id,
+      (
+        SELECT count(DISTINCT r.pdf_date::date)
+        FROM scrape_runs r
+        WHERE r.source = s.source
+          AND r.status = 'completed'
+          AND r.pdf_date::date > s.date_last_seen::date
+      )::integer AS missed
+    FROM scraped_listings s
+    WHERE s.source = NEW.source
+      AND s.date_last_seen::date < NEW.pdf_date::date
+  )
+  UPDATE scraped_listings s
+  SET
+    missed_issues = LEAST(c.missed, 32767),
+    dropped_at = CASE
+      WHEN c.missed >= v_limit THEN COALESCE(s.dropped_at, now())
+      ELSE NULL
+    END,
+    call_status = CASE
+      WHEN c.missed >= v_limit AND s.call_status IN ('pending_call', 'called_no_answer') THEN 'suppressed'
+      ELSE s.call_status
+    END
+  FROM counts c
+  WHERE s.id = c.id
+    AND (
+      s.missed_issues IS DISTINCT FROM c.missed
+      OR (c.missed >= v_limit) IS DISTINCT FROM (s.dropped_at IS NOT NULL)
+    );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_mark_missed_scraped_listings ON scrape_runs;
+CREATE TRIGGER trg_mark_missed_scraped_listings
+  AFTER INSERT OR UPDATE OF status ON scrape_runs
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed')
+  EXECUTE FUNCTION mark_missed_scraped_listings();
+
+-- ============================================================================
+-- admin_compare_scrape_runs(uuid, uuid)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION admin_compare_scrape_runs(p_run_id uuid, p_previous_run_id uuid)
+RETURNS TABLE (
+  change text,
+  previous_price numeric,
+  current_price numeric,
+  listing jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM require_admin();
+
+  RETURN QUERY
+  WITH seen AS (
+    SELECT
+      s.id,
+      s.date_first_seen::date < (SELECT r.pdf_date::date FROM scrape_runs r WHERE r.id = p_run_id) AS seen_before,
+      s.source_history @> jsonb_build_array(jsonb_build_object('run_id', p_run_id)) AS in_current,
+      (
+        p_previous_run_id IS NOT NULL
+        AND s.source_history @> jsonb_build_array(jsonb_build_object('run_id', p_previous_run_id))
+      ) AS in_previous,
+      (
+        SELECT (h->>'price')::numeric
+        FROM jsonb_array_elements(s.source_history) h
+        WHERE h->>'run_id' = p_run_id::text
+        LIMIT 1
+      ) AS cur_price,
+      (
+        SELECT (h->>'price')::numeric
+        FROM jsonb_array_elements(s.source_history) h
+        WHERE h->>'run_id' = p_previous_run_id::text
+        LIMIT 1
+      ) AS prev_price
+    FROM scraped_listings s
+    WHERE s.source_history @> jsonb_build_array(jsonb_build_object('run_id', p_run_id))
+       OR (
+         p_previous_run_id IS NOT NULL
+         AND s.source_history @> jsonb_build_array(jsonb_build_object('run_id', p_previous_run_id))
+       )
+  ),
+  classified AS (
+    SELECT
+      CASE
+        WHEN seen.in_current AND NOT seen.in_previous AND seen.seen_before THEN 'returned'
+        WHEN seen.in_current AND NOT seen.in_previous THEN 'new'
+        WHEN seen.in_previous AND NOT seen.in_current THEN 'dropped'
+        WHEN seen.cur_price IS NOT NULL AND seen.prev_price IS NOT NULL
+             AND seen.cur_price <> seen.prev_price THEN 'price_changed'
+      END AS kind,
+      seen.prev_price,
+      seen.cur_price,
+      seen.id
+    FROM seen
+  )
+  SELECT c.kind, c.prev_price, c.cur_price, to_jsonb(s)
+  FROM classified c
+  JOIN scraped_listings s ON s.id = c.id
+  WHERE c.kind IS NOT NULL
+  ORDER BY c.kind, s.date_first_seen DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_compare_scrape_runs(uuid, uuid) TO authenticated;
+
+-- ============================================================================
+-- sms_templates: pamphlet_still_available
+-- ============================================================================
+
+INSERT INTO sms_templates (key, name, description, body, variables)
+VALUES (
+  'pamphlet_still_available',
+  'Still available? (dropped from pamphlet)',
+  'send-still-available-sms: the pamphlet ad matching this live listing dropped out of the latest issue. YES keeps it active, NO deactivates it; no reply leaves it alone.',
+  E'Hadirot Alert: Your listing - {{listing}} for {{price}} - is no longer in {{source_name}}. Is it still available? Reply YES to keep it active or NO if it has been {{rented_or_sold}}.',
+  ARRAY['listing', 'price', 'source_name', 'rented_or_sold']
+)
+ON CONFLICT (key) DO NOTHING;
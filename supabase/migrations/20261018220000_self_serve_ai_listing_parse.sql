@@ -0,0 +1,220 @@
+/*
+  # Self-serve AI "paste your ad" posting
+
+  `parse-listing` (the Post Listing form's Quick Fill) was admin-only. It is
+  now open to any signed-in user from step 1 of the posting wizard: paste an
+  ad or upload a flyer photo and the wizard pre-fills every step. Each call
+  costs real Anthropic tokens, so non-admin use is capped per user and in
+  total, and every call is metered.
+
+  1. Modified Tables
+    - `admin_settings`
+      - `ai_parse_daily_limit` (integer, default 5) — AI fills a non-admin
+        user may run in any 24 hours.
+      - `ai_parse_daily_budget_usd` (numeric, default 25) — estimated spend
+        across all non-admin fills in any 24 hours; past it, self-serve
+        fills pause until older calls roll out of the window.
+
+  2. New Tables
+    - `ai_parse_usage` — one row per parse-listing call: who, text or image,
+      model, status (pending → succeeded / failed), token counts and the
+      estimated cost (_shared/intake.ts → estimateParseCostUsd). The row is
+      written as `pending` before the model is called, by reserve_ai_parse.
+
+  3. Functions
+    - `reserve_ai_parse(...)` — checks the caller's 24-hour count and the
+      non-admin 24-hour spend and inserts the `pending` row in one
+      transaction, under advisory locks, so parallel calls can't all pass
+      the same check. Failed calls don't count toward the user's limit (the
+      failure was ours), and count toward the budget only for the tokens
+      they recorded. A pending row counts as a fixed estimate against the
+      budget until its real cost is written. Service role only.
+    - `admin_ai_parse_usage(timestamptz)` — calls, distinct users, failures,
+      tokens and cost per day since the given time, for the admin panel.
+
+  4. Security
+    - RLS on `ai_parse_usage`: users read their own rows (the wizard shows
+      how many fills are left), admins read all. Only the service role
+      writes.
+*/
+
+-- ============================================================================
+-- admin_settings
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'admin_settings' AND column_name = 'ai_parse_daily_limit'
+  ) THEN
+    ALTER TABLE admin_settings ADD COLUMN ai_parse_daily_limit integer NOT NULL DEFAULT 5
+      CHECK (ai_parse_daily_limit >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'admin_settings' AND column_name = 'ai_parse_daily_budget_usd'
+  ) THEN
+    ALTER TABLE admin_settings ADD COLUMN ai_parse_daily_budget_usd numeric(8,2) NOT NULL DEFAULT 25
+      CHECK (ai_parse_daily_budget_usd >= 0);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN admin_settings.ai_parse_daily_limit IS
+  'AI "paste your ad" fills a non-admin user may run in any 24 hours (parse-listing). 0 turns self-serve fills off.';
+COMMENT ON COLUMN admin_settings.ai_parse_daily_budget_usd IS
+  'Estimated Anthropic spend allowed across all non-admin AI fills in any 24 hours before self-serve fills pause.';
+
+-- ============================================================================
+-- ai_parse_usage
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_parse_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  is_admin boolean NOT NULL DEFAULT false,
+  input_kind text NOT NULL CHECK (input_kind IN ('text', 'image')),
+  model text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  input_tokens integer NOT NULL DEFAULT 0,
+  output_tokens integer NOT NULL DEFAULT 0,
+  cache_read_tokens integer NOT NULL DEFAULT 0,
+  cache_write_tokens integer NOT NULL DEFAULT 0,
+  cost_usd numeric(10,5) NOT NULL DEFAULT 0,
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_parse_usage_user_created
+  ON ai_parse_usage(user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_ai_parse_usage_created_at
+  ON ai_parse_usage(created_at);
+
+ALTER TABLE ai_parse_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own AI parse usage" ON ai_parse_usage;
+CREATE POLICY "Users can read their own AI parse usage"
+  ON ai_parse_usage
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can read AI parse usage" ON ai_parse_usage;
+CREATE POLICY "Admins can read AI parse usage"
+  ON ai_parse_usage
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+-- ============================================================================
+-- reserve_ai_parse(...)
+-- ============================================================================
+
+-- Returns the new usage row's id (NULL when blocked), how many calls the user
+-- had made in the window before this one (failed ones aside), and why it was
+-- blocked ('limit' / 'budget') if it was. Admins are never blocked.
+CREATE OR REPLACE FUNCTION reserve_ai_parse(
+  p_user uuid,
+  p_is_admin boolean,
+  p_input_kind text,
+  p_model text,
+  p_limit integer,
+  p_budget_usd numeric,
+  p_pending_cost_usd numeric
+)
+RETURNS TABLE (usage_id uuid, used integer, blocked text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_window_start timestamptz := now() - interval '24 hours';
+  v_used integer;
+  v_spent numeric;
+  v_id uuid;
+BEGIN
+  -- Per-user lock for the count; one shared lock for the budget, always
+  -- taken second so two calls can't deadlock.
+  PERFORM pg_advisory_xact_lock(hashtext(p_user::text));
+
+  SELECT count(*)::integer INTO v_used
+  FROM ai_parse_usage u
+  WHERE u.user_id = p_user AND u.created_at >= v_window_start AND u.status <> 'failed';
+
+  IF NOT p_is_admin THEN
+    IF v_used >= p_limit THEN
+      RETURN QUERY SELECT NULL::uuid, v_used, 'limit'::text;
+      RETURN;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('ai_parse_budget'));
+
+    -- A failed call's cost_usd is whatever tokens it recorded — usually 0.
+    SELECT COALESCE(sum(CASE WHEN u.status = 'pending' THEN p_pending_cost_usd ELSE u.cost_usd END), 0)
+    INTO v_spent
+    FROM ai_parse_usage u
+    WHERE u.is_admin = false AND u.created_at >= v_window_start;
+
+    IF v_spent >= p_budget_usd THEN
+      RETURN QUERY SELECT NULL::uuid, v_used, 'budget'::text;
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO ai_parse_usage (user_id, is_admin, input_kind, model)
+  VALUES (p_user, p_is_admin, p_input_kind, p_model)
+  RETURNING id INTO v_id;
+
+  RETURN QUERY SELECT v_id, v_used, NULL::text;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_ai_parse(uuid, boolean, text, text, integer, numeric, numeric)
+  FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- admin_ai_parse_usage(timestamptz)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION admin_ai_parse_usage(p_since timestamptz)
+RETURNS TABLE (
+  day date,
+  calls bigint,
+  users bigint,
+  failed bigint,
+  admin_calls bigint,
+  input_tokens bigint,
+  output_tokens bigint,
+  cost_usd numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM require_admin();
+
+  RETURN QUERY
+  SELECT
+    (u.created_at AT TIME ZONE 'America/New_York')::date,
+    count(*),
+    count(DISTINCT u.user_id),
+    count(*) FILTER (WHERE u.status = 'failed'),
+    count(*) FILTER (WHERE u.is_admin),
+    COALESCE(sum(u.input_tokens + u.cache_read_tokens + u.cache_write_tokens), 0)::bigint,
+    COALESCE(sum(u.output_tokens), 0)::bigint,
+    COALESCE(sum(u.cost_usd), 0)
+  FROM ai_parse_usage u
+  WHERE u.created_at >= p_since
+  GROUP BY 1
+  ORDER BY 1 DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_ai_parse_usage(timestamptz) TO authenticated;
@@ -0,0 +1,176 @@
+/*
+  # Public digest subscriptions
+
+  The listing digest only ever reached admins: send-enhanced-digest emails
+  the admin list (or a `recipient_emails` override) and an admin copies the
+  WhatsApp text from the Digest Manager into the groups. Anyone can now
+  subscribe from /digest to their own digest — the neighborhoods and bedroom
+  counts they care about, by email or WhatsApp, daily or weekly.
+
+  Every subscriber's digest is built from one admin-picked digest template
+  (its listing groups, collection links and header / footer), narrowed to
+  their preferences, so each person only gets listings that match.
+
+  1. New Tables
+    - `digest_subscriptions`
+      - `channel` 'email' (to `email`) or 'whatsapp' (to `phone_number`,
+        E.164). WhatsApp digests only go out once the number has opted in to
+        WhatsApp (whatsapp_contacts) — START on WhatsApp, or Account →
+        Settings.
+      - `listing_type` rental or sale; `neighborhoods` and `bedrooms` (0 is a
+        studio, 4 means 4+) narrow every listing group of the template. An
+        empty array means any.
+      - `frequency` daily or weekly; `last_sent_at` anchors the weekly window.
+      - `token` is the secret in the /digest/:token manage link (confirm,
+        change preferences, unsubscribe). Email subscriptions stay pending
+        until `confirmed_at` is set from the link in the confirmation email.
+      - One live subscription per address and listing type; subscribing
+        again updates it.
+
+  2. Modified Tables
+    - `digest_sent_listings.subscription_id` — set on the rows written by
+      send-subscriber-digests. The same table that keeps admin digests from
+      repeating listings keeps a subscriber from seeing a listing twice.
+    - `admin_settings.subscriber_digest_template_id` — the digest template
+      subscriber digests are built from. Unset, each subscriber gets the
+      newest listings from the last day (week, for weekly subscribers).
+
+  3. Security
+    - RLS on `digest_subscriptions`: signed-in users read their own rows,
+      admins read all. Rows are written only by the digest-subscribe and
+      send-subscriber-digests edge functions (service role).
+
+  4. Cron
+    - `send-subscriber-digests` runs daily at 8:00 AM ET. Weekly subscribers
+      are sent once 7 days have passed since their last digest.
+*/
+
+-- ============================================================================
+-- digest_subscriptions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS digest_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  channel text NOT NULL CHECK (channel IN ('email', 'whatsapp')),
+  email text,
+  phone_number text,
+  listing_type text NOT NULL DEFAULT 'rental' CHECK (listing_type IN ('rental', 'sale')),
+  neighborhoods text[] NOT NULL DEFAULT '{}',
+  bedrooms integer[] NOT NULL DEFAULT '{}',
+  frequency text NOT NULL DEFAULT 'daily' CHECK (frequency IN ('daily', 'weekly')),
+  token text NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  confirmed_at timestamptz,
+  unsubscribed_at timestamptz,
+  last_sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (
+    (channel = 'email' AND email IS NOT NULL)
+    OR (channel = 'whatsapp' AND phone_number IS NOT NULL)
+  ),
+  CHECK (cardinality(neighborhoods) <= 20),
+  CHECK (bedrooms <@ ARRAY[0, 1, 2, 3, 4])
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_digest_subscriptions_live_email
+  ON digest_subscriptions(lower(email), listing_type)
+  WHERE channel = 'email' AND unsubscribed_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_digest_subscriptions_live_phone
+  ON digest_subscriptions(phone_number, listing_type)
+  WHERE channel = 'whatsapp' AND unsubscribed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_digest_subscriptions_due
+  ON digest_subscriptions(frequency, last_sent_at)
+  WHERE confirmed_at IS NOT NULL AND unsubscribed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_digest_subscriptions_user_id
+  ON digest_subscriptions(user_id);
+
+ALTER TABLE digest_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own digest subscriptions" ON digest_subscriptions;
+CREATE POLICY "Users can read their own digest subscriptions"
+  ON digest_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can read digest subscriptions" ON digest_subscriptions;
+CREATE POLICY "Admins can read digest subscriptions"
+  ON digest_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.is_admin = true)
+  );
+
+-- ============================================================================
+-- digest_sent_listings.subscription_id
+-- ============================================================================
+
+ALTER TABLE digest_sent_listings
+  ADD COLUMN IF NOT EXISTS subscription_id uuid REFERENCES digest_subscriptions(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_digest_sent_listings_subscription_listing
+  ON digest_sent_listings(subscription_id, listing_id)
+  WHERE subscription_id IS NOT NULL;
+
+-- ============================================================================
+-- admin_settings.subscriber_digest_template_id
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'admin_settings' AND column_name = 'subscriber_digest_template_id'
+  ) THEN
+    ALTER TABLE admin_settings ADD COLUMN subscriber_digest_template_id uuid
+      REFERENCES digest_templates(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN admin_settings.subscriber_digest_template_id IS
+  'Digest template (listing groups, collection links, header / footer) that public subscriber digests are built from (send-subscriber-digests).';
+
+-- ============================================================================
+-- Daily cron (pattern: 20261018010000_saved_searches)
+-- ============================================================================
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('send-subscriber-digests');
+EXCEPTION
+  WHEN undefined_table THEN NULL;
+  WHEN undefined_function THEN NULL;
+  WHEN OTHERS THEN NULL;
+END $$;
+
+SELECT cron.schedule(
+  'send-subscriber-digests',
+  '0 8 * * *',
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.supabase_url') || '/functions/v1/send-subscriber-digests',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 120000
+  );
+  $$
+);
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_schema = 'cron' AND table_name = 'job' AND column_name = 'timezone') THEN
+    UPDATE cron.job SET timezone = 'America/New_York'
+    WHERE jobname = 'send-subscriber-digests';
+  END IF;
+END $$;